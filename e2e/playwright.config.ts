@@ -20,26 +20,48 @@ export default defineConfig({
   projects: [
     {
       name: 'chromium',
+      testIgnore: /webphone\.spec\.ts/,
       use: { ...devices['Desktop Chrome'] },
     },
     {
       name: 'firefox',
+      testIgnore: /webphone\.spec\.ts/,
       use: { ...devices['Desktop Firefox'] },
     },
     {
       name: 'webkit',
+      testIgnore: /webphone\.spec\.ts/,
       use: { ...devices['Desktop Safari'] },
     },
     {
       name: 'mobile',
+      testIgnore: /webphone\.spec\.ts/,
       use: { ...devices['iPhone 13'] },
     },
+    {
+      // The webphone against the mock Charlie (lib/charlie/mockHttp.ts)
+      name: 'webphone',
+      testMatch: /webphone\.spec\.ts/,
+      use: { ...devices['Desktop Chrome'], baseURL: 'http://localhost:5174' },
+    },
+  ],
+  webServer: [
+    {
+      command: 'pnpm --filter @avs/core build && pnpm --filter @avs/web dev',
+      url: 'http://localhost:5173',
+      reuseExistingServer: !process.env.CI,
+      cwd: '..',
+    },
+    {
+      command: 'pnpm --filter @avs/core build && pnpm --filter @avs/web dev --port 5174 --strictPort',
+      url: 'http://localhost:5174',
+      reuseExistingServer: !process.env.CI,
+      cwd: '..',
+      env: {
+        PLATFORM_MODE: 'demo',
+        CHARLIE_APPSYNC_WSS: 'mock:',
+      },
+    },
   ],
-  webServer: {
-    command: 'pnpm --filter @avs/web dev',
-    url: 'http://localhost:5173',
-    reuseExistingServer: !process.env.CI,
-    cwd: '..',
-  },
 });
 
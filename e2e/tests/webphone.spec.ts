@@ -0,0 +1,85 @@
+import { test, expect, type Page } from '@playwright/test';
+
+/**
+ * The webphone against the mock Charlie: the `webphone` project's server
+ * runs with PLATFORM_MODE=demo and CHARLIE_APPSYNC_WSS=mock:, so the JWT,
+ * GraphQL bootstrap and realtime events all come from the app's own mocks.
+ * Scenarios are the realtime fixtures in packages/web/src/lib/charlie/fixtures.
+ */
+
+interface RealtimeMock {
+  play: (scenario: string, options?: { speed?: number }) => Promise<void>;
+  drop: () => void;
+  restore: () => void;
+}
+
+async function openWebphone(page: Page) {
+  await page.goto('/');
+  await page.waitForFunction(() => '__charlieRealtimeMock' in window);
+  await expect(page.locator('.webphone-realtime')).toHaveAttribute('data-health', 'connected');
+}
+
+async function play(page: Page, scenario: string, speed: number) {
+  await page.evaluate(
+    ([name, rate]) => {
+      const mock = (window as unknown as { __charlieRealtimeMock: RealtimeMock }).__charlieRealtimeMock;
+      void mock.play(name, { speed: rate });
+    },
+    [scenario, speed] as const
+  );
+}
+
+test.describe('Webphone', () => {
+  test('should boot from the mock Charlie session', async ({ page }) => {
+    await openWebphone(page);
+
+    await expect(page.locator('.webphone-boot-error')).toHaveCount(0);
+    await expect(page.locator('.agent-state')).toHaveAttribute('data-availability', 'AVAILABLE');
+
+    // Recent calls come from the mocked listCallLogs query
+    await page.getByText('Recent calls').click();
+    await expect(page.locator('.webphone-recent')).toContainText('Mock Caller');
+  });
+
+  test('should follow the agent through an answered inbound call', async ({ page }) => {
+    await openWebphone(page);
+
+    await play(page, 'inbound-answered', 5);
+
+    const agentState = page.locator('.agent-state');
+    await expect(agentState).toHaveAttribute('data-availability', 'BUSY');
+    await expect(agentState).toHaveAttribute('data-availability', 'AWAY');
+    await expect(agentState).toHaveAttribute('data-availability', 'AVAILABLE');
+  });
+
+  test('should show a dropped connection and resync when it comes back', async ({ page }) => {
+    await openWebphone(page);
+
+    await play(page, 'dropped-during-call', 4);
+
+    const agentState = page.locator('.agent-state');
+    const realtime = page.locator('.webphone-realtime');
+    await expect(agentState).toHaveAttribute('data-availability', 'BUSY');
+    await expect(realtime).toHaveAttribute('data-health', 'degraded');
+    await expect(realtime).toContainText('reconnecting');
+
+    // The hang-up happened while the socket was down; the resync picks it up
+    await expect(realtime).toHaveAttribute('data-health', 'connected');
+    await expect(agentState).toHaveAttribute('data-availability', 'AVAILABLE');
+  });
+
+  test('should drop and restore the connection on demand', async ({ page }) => {
+    await openWebphone(page);
+
+    const realtime = page.locator('.webphone-realtime');
+    await page.evaluate(() =>
+      (window as unknown as { __charlieRealtimeMock: RealtimeMock }).__charlieRealtimeMock.drop()
+    );
+    await expect(realtime).toHaveAttribute('data-health', 'degraded');
+
+    await page.evaluate(() =>
+      (window as unknown as { __charlieRealtimeMock: RealtimeMock }).__charlieRealtimeMock.restore()
+    );
+    await expect(realtime).toHaveAttribute('data-health', 'connected');
+  });
+});
@@ -4,7 +4,7 @@
 export class AvsError extends Error {
   public readonly code: string;
   public readonly statusCode: number;
-  public readonly details?: Record<string, unknown>;
+  public readonly details?: Record<string, unknown> | undefined;
 
   constructor(
     message: string,
@@ -98,7 +98,7 @@ export class ConflictError extends AvsError {
  * Rate limit error
  */
 export class RateLimitError extends AvsError {
-  public readonly retryAfter?: number;
+  public readonly retryAfter?: number | undefined;
 
   constructor(
     message: string = 'Rate limit exceeded',
@@ -117,7 +117,7 @@ export class RateLimitError extends AvsError {
  */
 export class ExternalServiceError extends AvsError {
   public readonly serviceName: string;
-  public readonly originalError?: Error;
+  public readonly originalError?: Error | undefined;
 
   constructor(
     serviceName: string,
@@ -4,3 +4,7 @@ export * from './models/index.js';
 export * from './services/index.js';
 export * from './errors/index.js';
 
+// Names declared in more than one module; the root export takes the model
+// and the client's own config
+export type { LicenseAssignment } from './models/index.js';
+export type { SapienClientConfig } from './services/index.js';
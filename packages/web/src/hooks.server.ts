@@ -20,7 +20,9 @@ import {
   getLoginUrl,
   type SalesforceAuth,
 } from '$lib/platform';
-import { exchangeSalesforceAccessTokenForCharlieJwt } from '$lib/charlie';
+import { createMockCharlieSession, exchangeSalesforceAccessTokenForCharlieJwt } from '$lib/charlie';
+import { isCharlieMockMode } from '$lib/charlie/server';
+import { DEMO_USERS } from '$lib/server/demo';
 
 export const handle: Handle = async ({ event, resolve }) => {
   // ==========================================================================
@@ -100,7 +102,21 @@ export const handle: Handle = async ({ event, resolve }) => {
   }
 
   // Demo mode doesn't require authentication
-  // No auth data is set in locals for demo mode
+  // No auth data is set in locals for demo mode, except when Charlie is
+  // mocked: the webphone then runs as a signed-in demo agent with a mock
+  // Charlie session (see lib/charlie/mockHttp.ts)
+  if (isCharlieMockMode(event.locals)) {
+    const agent = DEMO_USERS[0];
+    if (agent) {
+      event.locals.user = {
+        id: agent.id,
+        email: agent.email,
+        name: agent.name,
+        organizationId: 'demo',
+      };
+    }
+    event.locals.charlieSession = createMockCharlieSession();
+  }
 
   // ==========================================================================
   // Step 3: Resolve the request
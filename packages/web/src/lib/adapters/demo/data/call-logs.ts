@@ -18,6 +18,7 @@ export const DEMO_CALL_LOGS: CallLog[] = [
     recordingId: 'demo-rec-001',
     toUserId: 'demo-u001',
     toUserName: 'John Smith',
+    wrapupCode: 'Resolved',
   },
   {
     id: 'demo-cl002',
@@ -32,6 +33,7 @@ export const DEMO_CALL_LOGS: CallLog[] = [
     recordingId: 'demo-rec-002',
     fromUserId: 'demo-u002',
     fromUserName: 'Jane Doe',
+    wrapupCode: 'Sale',
   },
   {
     id: 'demo-cl003',
@@ -73,6 +75,7 @@ export const DEMO_CALL_LOGS: CallLog[] = [
     recordingId: 'demo-rec-005',
     toUserId: 'demo-u004',
     toUserName: 'Alice Williams',
+    wrapupCode: 'Callback Requested',
   },
   {
     id: 'demo-cl006',
@@ -87,6 +90,7 @@ export const DEMO_CALL_LOGS: CallLog[] = [
     recordingId: 'demo-rec-006',
     fromUserId: 'demo-u001',
     fromUserName: 'John Smith',
+    wrapupCode: 'Resolved',
   },
   {
     id: 'demo-cl007',
@@ -0,0 +1,58 @@
+/**
+ * Demo CRM Record Data
+ *
+ * Numbers line up with the demo call logs so screen-pops find someone.
+ */
+
+import type { CrmRecord } from '$lib/domain';
+
+export const DEMO_CRM_RECORDS: CrmRecord[] = [
+  {
+    id: 'demo-con001',
+    objectName: 'Contact',
+    name: 'Emma Thompson',
+    phone: '+44 7700 900123',
+    detail: 'Northwind Traders',
+    url: null,
+  },
+  {
+    id: 'demo-con002',
+    objectName: 'Contact',
+    name: 'Priya Patel',
+    phone: '+44 7700 900111',
+    detail: 'Acme Corporation',
+    url: null,
+  },
+  {
+    id: 'demo-lead001',
+    objectName: 'Lead',
+    name: 'Priya Patel',
+    phone: '07700 900111',
+    detail: 'Acme Corp (web enquiry)',
+    url: null,
+  },
+  {
+    id: 'demo-lead002',
+    objectName: 'Lead',
+    name: 'Tom Baker',
+    phone: '+44 (0)7700 900789',
+    detail: 'Gallifrey Ltd',
+    url: null,
+  },
+  {
+    id: 'demo-acc001',
+    objectName: 'Account',
+    name: 'Northwind Traders',
+    phone: '+44 20 7946 0000',
+    detail: 'Wholesale',
+    url: null,
+  },
+  {
+    id: 'demo-acc002',
+    objectName: 'Account',
+    name: 'Acme Corporation',
+    phone: '+44 7700 900222',
+    detail: 'Manufacturing',
+    url: null,
+  },
+];
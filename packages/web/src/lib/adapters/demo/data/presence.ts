@@ -0,0 +1,137 @@
+/**
+ * Demo Presence Data
+ */
+
+import type { PresenceChange, PresenceSchedule, PresenceState } from '$lib/domain';
+
+export const DEMO_PRESENCE_STATES: PresenceState[] = [
+  {
+    id: 'demo-ps001',
+    name: 'Available',
+    availability: 'AVAILABLE',
+    reasonCodes: [],
+    maxDurationMinutes: null,
+    active: true,
+    lastModified: '2026-01-05T10:00:00Z',
+  },
+  {
+    id: 'demo-ps002',
+    name: 'Break',
+    availability: 'ON_BREAK',
+    reasonCodes: ['Lunch', 'Coffee', 'Comfort'],
+    maxDurationMinutes: 30,
+    active: true,
+    lastModified: '2026-01-05T10:05:00Z',
+  },
+  {
+    id: 'demo-ps003',
+    name: 'Training',
+    availability: 'AWAY',
+    reasonCodes: ['Classroom', 'E-learning', 'Coaching'],
+    maxDurationMinutes: 120,
+    active: true,
+    lastModified: '2026-01-05T10:10:00Z',
+  },
+  {
+    id: 'demo-ps004',
+    name: 'Admin Work',
+    availability: 'BUSY',
+    reasonCodes: ['Email', 'Callbacks', 'Case notes'],
+    maxDurationMinutes: 45,
+    active: true,
+    lastModified: '2026-01-06T09:00:00Z',
+  },
+  {
+    id: 'demo-ps005',
+    name: 'Meeting',
+    availability: 'AWAY',
+    reasonCodes: [],
+    maxDurationMinutes: 60,
+    active: false,
+    lastModified: '2026-01-07T14:20:00Z',
+  },
+];
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+export const DEMO_PRESENCE_SCHEDULES: PresenceSchedule[] = [
+  {
+    id: 'demo-psch001',
+    name: 'UK Support shifts',
+    userIds: [],
+    groupIds: ['demo-g003'],
+    timezone: 'Europe/London',
+    entries: [
+      { days: WEEKDAYS, time: '09:00', stateId: 'demo-ps001', reasonCode: null },
+      { days: WEEKDAYS, time: '12:30', stateId: 'demo-ps002', reasonCode: 'Lunch' },
+      { days: WEEKDAYS, time: '13:00', stateId: 'demo-ps001', reasonCode: null },
+    ],
+    active: true,
+    lastModified: '2026-01-08T08:00:00Z',
+  },
+  {
+    id: 'demo-psch002',
+    name: 'Friday training',
+    userIds: ['demo-u002'],
+    groupIds: [],
+    timezone: 'Europe/London',
+    entries: [
+      { days: [5], time: '15:00', stateId: 'demo-ps003', reasonCode: 'Coaching' },
+      { days: [5], time: '16:00', stateId: 'demo-ps001', reasonCode: null },
+    ],
+    active: true,
+    lastModified: '2026-01-09T11:45:00Z',
+  },
+];
+
+/** State changes over the last day, so the adherence report has something to show */
+export function generateDemoPresenceHistory(now: number = Date.now()): PresenceChange[] {
+  const agents = [
+    { userId: 'demo-u001', userName: 'John Smith' },
+    { userId: 'demo-u002', userName: 'Jane Doe' },
+    { userId: 'demo-u004', userName: 'Alice Williams' },
+    { userId: 'demo-u005', userName: 'Charlie Brown' },
+  ];
+  // [state index, reason, minutes, source] cycled per agent, each agent offset a little
+  const pattern: [number, string | null, number, PresenceChange['source']][] = [
+    [0, null, 95, 'schedule'],
+    [1, 'Coffee', 12, 'agent'],
+    [0, null, 110, 'agent'],
+    [1, 'Lunch', 30, 'schedule'],
+    [0, null, 80, 'schedule'],
+    [3, 'Callbacks', 40, 'agent'],
+    [0, null, 70, 'agent'],
+    [2, 'E-learning', 60, 'agent'],
+  ];
+  const history: PresenceChange[] = [];
+
+  agents.forEach((agent, a) => {
+    let at = now - 24 * 60 * 60_000 + a * 7 * 60_000;
+    let step = 0;
+    while (at < now) {
+      const spell = pattern[(step + a) % pattern.length];
+      const state = spell && DEMO_PRESENCE_STATES[spell[0]];
+      if (!spell || !state) break;
+      const [, reason, baseMinutes, source] = spell;
+      // Some time-limited spells run past their limit
+      const minutes = state.maxDurationMinutes && (step + a) % 3 === 0 ? baseMinutes * 1.5 : baseMinutes;
+      const end = at + minutes * 60_000;
+      history.push({
+        id: `demo-pc${a}${String(step).padStart(3, '0')}`,
+        ...agent,
+        stateId: state.id,
+        stateName: state.name,
+        availability: state.availability,
+        reasonCode: reason,
+        source,
+        startedAt: new Date(at).toISOString(),
+        endedAt: end < now ? new Date(end).toISOString() : null,
+        overrunAlertedAt: null,
+      });
+      at = end;
+      step += 1;
+    }
+  });
+
+  return history.sort((x, y) => y.startedAt.localeCompare(x.startedAt));
+}
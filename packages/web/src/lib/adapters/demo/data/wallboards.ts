@@ -0,0 +1,256 @@
+/**
+ * Demo Wallboard Data
+ *
+ * Live calls and agents are generated from per-queue and per-group figures
+ * with a little jitter, so a demo wallboard moves each time they're read.
+ * Trends follow a working day's curve, with noise seeded by the interval
+ * so that each one reads the same every time.
+ */
+
+import type {
+  Wallboard,
+  WallboardAgent,
+  WallboardAgentStatus,
+  WallboardAlertSettings,
+  WallboardCall,
+  WallboardCallTotals,
+  WallboardLayout,
+  WallboardStatsFilter,
+  WallboardTrendBucket,
+  WallboardWidget,
+  WallboardWidgetType,
+} from '$lib/domain';
+import { WALLBOARD_GRID_COLUMNS, WALLBOARD_LAYOUT_VERSION, WALLBOARD_TREND_INTERVAL_MINUTES } from '$lib/domain';
+import {
+  createWallboardAlertRule,
+  createWallboardAlertSettings,
+  createWallboardWidget,
+  wallboardTrendIntervalStart,
+} from '$lib/wallboard';
+
+function widget(
+  type: WallboardWidgetType,
+  id: string,
+  x: number,
+  y: number,
+  changes: Partial<WallboardWidget> = {}
+): WallboardWidget {
+  return { ...createWallboardWidget(type, id, x, y), ...changes };
+}
+
+function layout(widgets: WallboardWidget[], alerts = createWallboardAlertSettings()): WallboardLayout {
+  return { version: WALLBOARD_LAYOUT_VERSION, columns: WALLBOARD_GRID_COLUMNS, widgets, alerts };
+}
+
+const SALES_ALERTS: WallboardAlertSettings = {
+  rules: [
+    { ...createWallboardAlertRule('r1', 'longestWait'), amber: 60, red: 120, sound: true, notifyAfterSeconds: 60 },
+    { ...createWallboardAlertRule('r2', 'serviceLevel'), amber: 90, red: 80, flash: true },
+    { ...createWallboardAlertRule('r3', 'queueCalls'), amber: 5, red: 8 },
+  ],
+  webhookUrl: null,
+  emails: ['sales.managers@example.com'],
+};
+
+const SALES = { queue: 'Sales', groupId: 'demo-g001', window: 'today' } as const;
+
+export const DEMO_WALLBOARDS: Wallboard[] = [
+  {
+    id: 'demo-wb001',
+    name: 'Sales Queue Dashboard',
+    description: 'Real-time view of the sales queue',
+    type: 'queue',
+    enabled: true,
+    layout: layout([
+      widget('kpi', 'w1', 0, 0, { metric: 'callsWaiting', title: 'Sales calls waiting', filters: { ...SALES } }),
+      widget('kpi', 'w2', 3, 0, { metric: 'activeCalls', title: 'Sales calls in progress', filters: { ...SALES } }),
+      widget('sla-gauge', 'w3', 6, 0, { metric: 'longestWait', title: 'Longest wait', filters: { ...SALES } }),
+      widget('clock', 'w4', 9, 0, { title: 'London', options: { timezone: 'Europe/London' } }),
+      widget('agent-grid', 'w5', 0, 3, { title: 'Sales agents', filters: { ...SALES } }),
+      widget('queue-table', 'w6', 4, 3, { title: 'All queues' }),
+      widget('ticker', 'w7', 0, 7, {
+        metric: 'totalCallsToday',
+        title: 'Sales calls today',
+        filters: { ...SALES },
+        options: { messages: ['Spring promotion lines open until 8pm'] },
+      }),
+      widget('kpi', 'w8', 8, 3, { metric: 'serviceLevel', title: 'Sales service level', filters: { ...SALES } }),
+    ], SALES_ALERTS),
+    shares: [],
+    unreadableConfiguration: false,
+    lastModified: new Date(Date.now() - 86400000).toISOString(),
+  },
+  {
+    id: 'demo-wb002',
+    name: 'Support Agents Overview',
+    description: 'Agent availability and call status',
+    type: 'agent',
+    enabled: true,
+    layout: layout([
+      widget('agent-grid', 'w1', 0, 0, { title: 'Support agents', filters: { queue: null, groupId: 'demo-g002', window: 'today' } }),
+      widget('direction-pie', 'w2', 4, 0, { title: 'Calls by direction' }),
+      widget('kpi', 'w3', 8, 0, { metric: 'avgCallDuration', title: 'Average call (last hour)', filters: { queue: 'Support', groupId: null, window: '1h' } }),
+    ]),
+    shares: [],
+    unreadableConfiguration: false,
+    lastModified: new Date(Date.now() - 172800000).toISOString(),
+  },
+  {
+    id: 'demo-wb003',
+    name: 'Executive Summary',
+    description: 'Custom KPI dashboard for executives',
+    type: 'custom',
+    enabled: false,
+    layout: layout([]),
+    shares: [],
+    unreadableConfiguration: false,
+    lastModified: new Date(Date.now() - 259200000).toISOString(),
+  },
+];
+
+interface DemoQueueFigures {
+  name: string;
+  activeCalls: number;
+  callsWaiting: number;
+  avgWaitTime: number;
+  longestWait: number;
+  callsPerHour: number;
+  avgCallDuration: number;
+  /** Percent of inbound calls answered in time */
+  serviceLevel: number;
+  direction: { inbound: number; outbound: number; internal: number };
+}
+
+const DEMO_QUEUES: DemoQueueFigures[] = [
+  { name: 'Sales', activeCalls: 6, callsWaiting: 3, avgWaitTime: 34, longestWait: 71, callsPerHour: 42, avgCallDuration: 262, serviceLevel: 84, direction: { inbound: 4, outbound: 2, internal: 0 } },
+  { name: 'Support', activeCalls: 9, callsWaiting: 5, avgWaitTime: 58, longestWait: 134, callsPerHour: 55, avgCallDuration: 398, serviceLevel: 71, direction: { inbound: 8, outbound: 0, internal: 1 } },
+  { name: 'Billing', activeCalls: 2, callsWaiting: 0, avgWaitTime: 0, longestWait: 0, callsPerHour: 12, avgCallDuration: 185, serviceLevel: 96, direction: { inbound: 1, outbound: 1, internal: 0 } },
+];
+
+/** Agents by status in each demo group */
+const DEMO_GROUP_AGENTS: Record<string, { available: number; busy: number; offline: number }> = {
+  'demo-g001': { available: 4, busy: 6, offline: 2 },
+  'demo-g002': { available: 3, busy: 9, offline: 1 },
+  'demo-g003': { available: 2, busy: 3, offline: 3 },
+  'demo-g004': { available: 1, busy: 2, offline: 4 },
+};
+
+/** Hours covered by a window; today is taken as a business day so far */
+const WINDOW_HOURS: Record<WallboardStatsFilter['window'], number> = { '15m': 0.25, '1h': 1, '4h': 4, today: 6.5 };
+
+function jitter(value: number, spread: number): number {
+  return Math.max(0, value + Math.round((Math.random() - 0.5) * 2 * spread));
+}
+
+/** Calls in progress in each demo queue, the longest waiting first */
+export function buildDemoActiveCalls(now = Date.now()): WallboardCall[] {
+  return DEMO_QUEUES.flatMap(q => {
+    const count = jitter(q.activeCalls, 1);
+    const waiting = Math.min(count, q.callsWaiting > 0 ? jitter(q.callsWaiting, 1) : 0);
+    const directions = (['inbound', 'outbound', 'internal'] as const).flatMap(d =>
+      Array<WallboardCall['direction']>(q.direction[d]).fill(d)
+    );
+
+    // Waits run down from the queue's longest, averaging about its average wait
+    const shortest = Math.max(1, 2 * q.avgWaitTime - q.longestWait);
+    return Array.from({ length: count }, (_, i): WallboardCall => {
+      const wait = waiting > 1 ? Math.round(q.longestWait - (i * (q.longestWait - shortest)) / (waiting - 1)) : q.longestWait;
+      return {
+        id: `demo-call-${q.name.toLowerCase()}-${i + 1}`,
+        direction: i < waiting ? 'inbound' : (directions[i % directions.length] ?? 'inbound'),
+        waiting: i < waiting,
+        startedAt: new Date(now - (i < waiting ? wait : jitter(q.avgCallDuration, 60)) * 1000).toISOString(),
+        queue: q.name,
+      };
+    });
+  });
+}
+
+/** Agents in the demo groups; a few of them change status each time */
+export function buildDemoAgents(): WallboardAgent[] {
+  return Object.entries(DEMO_GROUP_AGENTS).flatMap(([groupId, counts], g) => {
+    const statuses: WallboardAgentStatus[] = [
+      ...Array<WallboardAgentStatus>(counts.available).fill('available'),
+      ...Array<WallboardAgentStatus>(counts.busy).fill('busy'),
+      ...Array<WallboardAgentStatus>(counts.offline).fill('offline'),
+    ];
+    return statuses.map((status, i): WallboardAgent => ({
+      id: `${groupId}-agent-${i + 1}`,
+      platformId: 2000 + g * 100 + i,
+      status: status !== 'offline' && Math.random() < 0.15 ? (status === 'busy' ? 'available' : 'busy') : status,
+      groupIds: [groupId],
+    }));
+  });
+}
+
+export function buildDemoCallTotals(filter: WallboardStatsFilter): WallboardCallTotals {
+  const queues = DEMO_QUEUES.filter(q => !filter.queue || q.name === filter.queue);
+  const windowCalls = queues.map(q => Math.round(q.callsPerHour * WINDOW_HOURS[filter.window]));
+  const totalCalls = windowCalls.reduce((sum, n) => sum + n, 0);
+
+  const weighted = (figure: (q: DemoQueueFigures) => number) =>
+    Math.round(queues.reduce((sum, q, i) => sum + figure(q) * (windowCalls[i] ?? 0), 0) / totalCalls);
+
+  return {
+    totalCalls,
+    avgCallDuration: totalCalls ? weighted(q => q.avgCallDuration) : 0,
+    // Drifts a little so thresholds near the line come and go
+    serviceLevel: totalCalls ? Math.min(100, jitter(weighted(q => q.serviceLevel), 3)) : 100,
+  };
+}
+
+/** 0-1 through the (UTC) day: quiet overnight, busiest late morning and mid-afternoon */
+function demoDayCurve(hour: number): number {
+  if (hour < 7 || hour >= 19) return 0.05;
+  const peak = (at: number) => Math.exp(-((hour - at) ** 2) / 4);
+  return 0.3 + 0.7 * Math.max(peak(10.5), 0.85 * peak(14.5));
+}
+
+/** 0.85-1.15, the same for the same seed */
+function demoNoise(seed: number): number {
+  const x = Math.sin(seed) * 10000;
+  return 0.85 + 0.3 * (x - Math.floor(x));
+}
+
+/** Agent samples in an interval, one a second as the aggregator takes them */
+const DEMO_TREND_SAMPLES = WALLBOARD_TREND_INTERVAL_MINUTES * 60;
+
+/** Trend intervals from `from` up to `to` or now, whichever is sooner */
+export function buildDemoTrendBuckets(
+  filter: WallboardStatsFilter,
+  from: Date,
+  to: Date,
+  now = Date.now()
+): WallboardTrendBucket[] {
+  const queues = DEMO_QUEUES.filter(q => !filter.queue || q.name === filter.queue);
+  const groups = Object.entries(DEMO_GROUP_AGENTS)
+    .filter(([groupId]) => !filter.groupId || groupId === filter.groupId)
+    .map(([, counts]) => counts);
+  const callsPerInterval = queues.reduce((sum, q) => sum + (q.callsPerHour * WALLBOARD_TREND_INTERVAL_MINUTES) / 60, 0);
+  const abandonShare = queues.length ? queues.reduce((sum, q) => sum + (100 - q.serviceLevel), 0) / queues.length / 250 : 0;
+  const staffed = groups.reduce((sum, g) => sum + g.available + g.busy, 0);
+  const busyShare = staffed ? groups.reduce((sum, g) => sum + g.busy, 0) / staffed : 0;
+
+  const buckets: WallboardTrendBucket[] = [];
+  const step = WALLBOARD_TREND_INTERVAL_MINUTES * 60_000;
+  const end = Math.min(to.getTime(), now);
+  for (let time = wallboardTrendIntervalStart(from).getTime(); time < end; time += step) {
+    if (time < from.getTime()) continue;
+    const start = new Date(time);
+    const curve = demoDayCurve(start.getUTCHours() + start.getUTCMinutes() / 60);
+    const noise = demoNoise(time / step);
+
+    const calls = Math.round(callsPerInterval * curve * noise);
+    const inbound = Math.round(calls * 0.7);
+    const abandoned = Math.round(inbound * abandonShare * noise);
+    buckets.push({
+      start: start.toISOString(),
+      calls,
+      answered: inbound - abandoned,
+      abandoned,
+      busyAgents: Math.round(staffed * Math.min(1, busyShare * (0.5 + 0.5 * curve) * noise) * DEMO_TREND_SAMPLES),
+      staffedAgents: staffed * DEMO_TREND_SAMPLES,
+    });
+  }
+  return buckets;
+}
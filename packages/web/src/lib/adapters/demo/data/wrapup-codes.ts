@@ -0,0 +1,48 @@
+/**
+ * Demo Wrap-up Code Data
+ */
+
+import type { WrapupCode } from '$lib/domain';
+
+export const DEMO_WRAPUP_CODES: WrapupCode[] = [
+  {
+    id: 'demo-wc001',
+    name: 'Resolved',
+    description: 'Query answered on the call',
+    groupIds: [],
+    active: true,
+    lastModified: '2026-01-05T10:00:00Z',
+  },
+  {
+    id: 'demo-wc002',
+    name: 'Callback Requested',
+    description: 'Customer asked to be called back',
+    groupIds: [],
+    active: true,
+    lastModified: '2026-01-05T10:05:00Z',
+  },
+  {
+    id: 'demo-wc003',
+    name: 'Sale',
+    description: 'Order placed during the call',
+    groupIds: ['demo-g001', 'demo-g004'],
+    active: true,
+    lastModified: '2026-01-06T09:30:00Z',
+  },
+  {
+    id: 'demo-wc004',
+    name: 'Escalated',
+    description: 'Passed to second-line support',
+    groupIds: ['demo-g002', 'demo-g003'],
+    active: true,
+    lastModified: '2026-01-06T09:45:00Z',
+  },
+  {
+    id: 'demo-wc005',
+    name: 'Wrong Number',
+    description: '',
+    groupIds: [],
+    active: false,
+    lastModified: '2026-01-02T16:20:00Z',
+  },
+];
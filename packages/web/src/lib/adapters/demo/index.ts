@@ -22,6 +22,10 @@ import { DemoMonitoringRepository } from './repositories/monitoring.repository';
 import { DemoCallReportingRepository } from './repositories/call-reporting.repository';
 import { DemoWallboardRepository } from './repositories/wallboard.repository';
 import { DemoSkillRepository } from './repositories/skill.repository';
+import { DemoWrapupCodeRepository } from './repositories/wrapup-code.repository';
+import { DemoPresenceRepository } from './repositories/presence.repository';
+import { DemoCrmRepository } from './repositories/crm.repository';
+import { DemoNotificationRepository } from './repositories/notification.repository';
 
 // =============================================================================
 // Repository Singletons
@@ -43,6 +47,10 @@ let demoMonitoringRepository: DemoMonitoringRepository | null = null;
 let demoCallReportingRepository: DemoCallReportingRepository | null = null;
 let demoWallboardRepository: DemoWallboardRepository | null = null;
 let demoSkillRepository: DemoSkillRepository | null = null;
+let demoWrapupCodeRepository: DemoWrapupCodeRepository | null = null;
+let demoPresenceRepository: DemoPresenceRepository | null = null;
+let demoCrmRepository: DemoCrmRepository | null = null;
+let demoNotificationRepository: DemoNotificationRepository | null = null;
 
 // =============================================================================
 // Repository Factory
@@ -68,6 +76,10 @@ export function createDemoRepositories(): Repositories {
   if (!demoCallReportingRepository) demoCallReportingRepository = new DemoCallReportingRepository();
   if (!demoWallboardRepository) demoWallboardRepository = new DemoWallboardRepository();
   if (!demoSkillRepository) demoSkillRepository = new DemoSkillRepository();
+  if (!demoWrapupCodeRepository) demoWrapupCodeRepository = new DemoWrapupCodeRepository();
+  if (!demoPresenceRepository) demoPresenceRepository = new DemoPresenceRepository();
+  if (!demoCrmRepository) demoCrmRepository = new DemoCrmRepository();
+  if (!demoNotificationRepository) demoNotificationRepository = new DemoNotificationRepository();
 
   return {
     users: demoUserRepository,
@@ -85,6 +97,10 @@ export function createDemoRepositories(): Repositories {
     callReporting: demoCallReportingRepository,
     wallboards: demoWallboardRepository,
     skills: demoSkillRepository,
+    wrapupCodes: demoWrapupCodeRepository,
+    presence: demoPresenceRepository,
+    crm: demoCrmRepository,
+    notifications: demoNotificationRepository,
   };
 }
 
@@ -107,4 +123,8 @@ export function resetDemoData(): void {
   demoCallReportingRepository = null;
   demoWallboardRepository = null;
   demoSkillRepository = null;
+  demoWrapupCodeRepository = null;
+  demoPresenceRepository = null;
+  demoCrmRepository = null;
+  demoNotificationRepository = null;
 }
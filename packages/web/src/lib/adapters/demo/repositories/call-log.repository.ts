@@ -3,7 +3,14 @@
  */
 
 import type { ICallLogRepository, CallLogQueryParams } from '$lib/repositories';
-import type { CallLog, CallDirection, UserCallSummary, PaginatedResult } from '$lib/domain';
+import type {
+  CallLog,
+  CallDirection,
+  CallDispositionInput,
+  UserCallSummary,
+  PaginatedResult,
+  MutationResult,
+} from '$lib/domain';
 import { createPaginationMeta } from '$lib/domain';
 import { DEMO_CALL_LOGS } from '../data/call-logs';
 
@@ -47,6 +54,11 @@ export class DemoCallLogRepository implements ICallLogRepository {
       filtered = filtered.filter(c => c.hasRecording === params.filters!.hasRecording);
     }
 
+    // Wrap-up code filter
+    if (params.filters?.wrapupCode) {
+      filtered = filtered.filter(c => c.wrapupCode === params.filters!.wrapupCode);
+    }
+
     // Sort by date descending
     filtered.sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
 
@@ -137,4 +149,22 @@ export class DemoCallLogRepository implements ICallLogRepository {
     const callLog = await this.findById(callLogId);
     return callLog?.recordingId ? `/api/recordings/${callLog.recordingId}` : null;
   }
+
+  async recordDisposition(input: CallDispositionInput): Promise<MutationResult<CallLog>> {
+    const startedAt = new Date(input.startedAt).getTime();
+    const digits = input.number.replace(/\D/g, '').slice(-9);
+    const callLog = this.callLogs.find(c => {
+      const number = input.direction === 'Outbound' ? c.toNumber : c.fromNumber;
+      return (
+        (c.fromUserId === input.userId || c.toUserId === input.userId) &&
+        Math.abs(new Date(c.dateTime).getTime() - startedAt) <= 2 * 60 * 1000 &&
+        number.replace(/\D/g, '').endsWith(digits)
+      );
+    });
+    if (!callLog) return { success: false, error: 'Call log not found' };
+
+    callLog.wrapupCode = input.code;
+    callLog.wrapupNotes = input.notes || undefined;
+    return { success: true, data: callLog };
+  }
 }
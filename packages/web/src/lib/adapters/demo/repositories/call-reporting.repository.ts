@@ -216,6 +216,7 @@ export class DemoCallReportingRepository implements ICallReportingRepository {
     startDate?: string;
     endDate?: string;
     direction?: string;
+    wrapupCode?: string;
     fields: string[];
     limit: number;
   }): Promise<Record<string, string | number>[]> {
@@ -230,6 +231,8 @@ export class DemoCallReportingRepository implements ICallReportingRepository {
       'Result__c': 'Result',
       'User__r.Name': 'Agent',
       'Group__r.Name': 'Group',
+      'WrapupCode__c': 'Wrap-up Code',
+      'WrapupNotes__c': 'Wrap-up Notes',
       'CreatedDate': 'Created Date',
     };
 
@@ -237,6 +240,7 @@ export class DemoCallReportingRepository implements ICallReportingRepository {
     const results = ['Answered', 'Missed', 'Voicemail'];
     const agents = ['John Smith', 'Jane Doe', 'Bob Wilson', 'Alice Brown', 'Charlie Davis'];
     const groups = ['Sales', 'Support', 'Billing', 'Technical'];
+    const wrapupCodes = ['Resolved', 'Sale', 'Callback Requested', ''];
 
     const data: Record<string, string | number>[] = [];
 
@@ -277,6 +281,12 @@ export class DemoCallReportingRepository implements ICallReportingRepository {
           case 'Group__r.Name':
             row[label] = groups[i % 4];
             break;
+          case 'WrapupCode__c':
+            row[label] = options.wrapupCode ?? wrapupCodes[i % 4] ?? '';
+            break;
+          case 'WrapupNotes__c':
+            row[label] = i % 5 === 0 ? 'Customer will call back next week' : '';
+            break;
           case 'CreatedDate':
             row[label] = date.toISOString();
             break;
@@ -0,0 +1,40 @@
+/**
+ * Demo CRM Repository Implementation
+ */
+
+import type { ICrmRepository } from '$lib/repositories';
+import type { CrmRecord, CrmCallActivity, LogCallActivityInput, MutationResult } from '$lib/domain';
+import { callActivitySubject, phoneNumbersMatch } from '$lib/domain';
+import { DEMO_CRM_RECORDS } from '../data/crm-records';
+
+export class DemoCrmRepository implements ICrmRepository {
+  private records: CrmRecord[] = DEMO_CRM_RECORDS.map(record => ({ ...record }));
+  private activities: CrmCallActivity[] = [];
+  private nextId = 1;
+
+  async findByPhoneNumber(number: string, objectNames: string[]): Promise<CrmRecord[]> {
+    return this.records
+      .filter(r => objectNames.includes(r.objectName) && r.phone !== null && phoneNumbersMatch(r.phone, number))
+      .sort(
+        (a, b) =>
+          objectNames.indexOf(a.objectName) - objectNames.indexOf(b.objectName) || a.name.localeCompare(b.name)
+      );
+  }
+
+  async logCallActivity(data: LogCallActivityInput): Promise<MutationResult<CrmCallActivity>> {
+    if (!this.records.some(r => r.id === data.recordId && r.objectName === data.objectName)) {
+      return { success: false, error: 'Record not found' };
+    }
+
+    const activity: CrmCallActivity = {
+      id: `demo-task${String(this.nextId++).padStart(3, '0')}`,
+      recordId: data.recordId,
+      objectName: data.objectName,
+      subject: data.subject || callActivitySubject(data.direction, data.number),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.activities.push(activity);
+    return { success: true, data: activity };
+  }
+}
@@ -2,7 +2,7 @@
  * Demo Group Repository Implementation
  */
 
-import type { IGroupRepository, GroupQueryParams } from '$lib/repositories';
+import type { IGroupRepository, GroupQueryParams, GroupMembershipFilter } from '$lib/repositories';
 import type {
   Group,
   CreateGroupInput,
@@ -113,6 +113,15 @@ export class DemoGroupRepository implements IGroupRepository {
     return this.members.filter(m => m.groupId === groupId);
   }
 
+  async findMemberships(filter: GroupMembershipFilter): Promise<GroupMember[]> {
+    if (!filter.groupIds && !filter.userIds) return [];
+    return this.members.filter(
+      m =>
+        (!filter.groupIds || filter.groupIds.includes(m.groupId)) &&
+        (!filter.userIds || filter.userIds.includes(m.userId))
+    );
+  }
+
   async addMember(input: AddGroupMemberInput): Promise<MutationResult<GroupMember>> {
     const id = `demo-gm${String(this.nextId++).padStart(3, '0')}`;
     const member: GroupMember = {
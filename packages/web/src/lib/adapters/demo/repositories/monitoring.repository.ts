@@ -5,11 +5,13 @@
 import type { IMonitoringRepository } from '$lib/repositories';
 import type {
   EventLog,
+  CreateEventLogInput,
   ErrorLog,
   MonitoringStats,
   MonitoringQueryParams,
   ServiceInfo,
   PaginatedResult,
+  MutationResult,
 } from '$lib/domain';
 import { createPaginationMeta } from '$lib/domain';
 import {
@@ -56,6 +58,16 @@ export class DemoMonitoringRepository implements IMonitoringRepository {
     return DEMO_EVENT_LOGS.find(e => e.id === id) ?? null;
   }
 
+  async createEventLog(input: CreateEventLogInput): Promise<MutationResult<EventLog>> {
+    const eventLog: EventLog = {
+      id: `evt-demo-${Date.now()}`,
+      ...input,
+      timestamp: new Date().toISOString(),
+    };
+    DEMO_EVENT_LOGS.unshift(eventLog);
+    return { success: true, data: eventLog };
+  }
+
   async getErrorLogs(params?: MonitoringQueryParams): Promise<PaginatedResult<ErrorLog>> {
     const page = params?.page ?? 1;
     const pageSize = params?.pageSize ?? 25;
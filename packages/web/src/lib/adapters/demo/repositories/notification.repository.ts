@@ -0,0 +1,17 @@
+/**
+ * Demo Notification Repository Implementation
+ */
+
+import type { INotificationRepository } from '$lib/repositories';
+import type { MutationResult } from '$lib/domain';
+
+export class DemoNotificationRepository implements INotificationRepository {
+  /** Emails "sent", newest last */
+  readonly sent: { recipients: string[]; subject: string; body: string }[] = [];
+
+  async sendEmail(recipients: string[], subject: string, body: string): Promise<MutationResult<void>> {
+    this.sent.push({ recipients: [...recipients], subject, body });
+    console.log(`[DemoNotificationRepository] Email "${subject}" to ${recipients.join(', ')} simulated`);
+    return { success: true };
+  }
+}
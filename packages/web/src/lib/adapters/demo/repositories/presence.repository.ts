@@ -0,0 +1,164 @@
+/**
+ * Demo Presence Repository Implementation
+ */
+
+import type { IPresenceRepository } from '$lib/repositories';
+import type {
+  PresenceState,
+  CreatePresenceStateInput,
+  UpdatePresenceStateInput,
+  PresenceSchedule,
+  CreatePresenceScheduleInput,
+  UpdatePresenceScheduleInput,
+  PresenceChange,
+  RecordPresenceChangeInput,
+  PresenceHistoryFilter,
+  MutationResult,
+  DeleteResult,
+} from '$lib/domain';
+import { DEMO_PRESENCE_SCHEDULES, DEMO_PRESENCE_STATES, generateDemoPresenceHistory } from '../data/presence';
+
+export class DemoPresenceRepository implements IPresenceRepository {
+  private states: PresenceState[] = DEMO_PRESENCE_STATES.map(state => ({ ...state, reasonCodes: [...state.reasonCodes] }));
+  private schedules: PresenceSchedule[] = DEMO_PRESENCE_SCHEDULES.map(schedule => ({
+    ...schedule,
+    userIds: [...schedule.userIds],
+    groupIds: [...schedule.groupIds],
+    entries: schedule.entries.map(entry => ({ ...entry, days: [...entry.days] })),
+  }));
+  private history: PresenceChange[] = generateDemoPresenceHistory();
+  private nextId = 100;
+
+  async findStates(): Promise<PresenceState[]> {
+    return [...this.states].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createState(data: CreatePresenceStateInput): Promise<MutationResult<PresenceState>> {
+    const state: PresenceState = {
+      id: `demo-ps${String(this.nextId++).padStart(3, '0')}`,
+      name: data.name,
+      availability: data.availability,
+      reasonCodes: data.reasonCodes ?? [],
+      maxDurationMinutes: data.maxDurationMinutes ?? null,
+      active: data.active ?? true,
+      lastModified: new Date().toISOString(),
+    };
+
+    this.states.push(state);
+    return { success: true, data: state };
+  }
+
+  async updateState(id: string, data: UpdatePresenceStateInput): Promise<MutationResult<PresenceState>> {
+    const state = this.states.find(s => s.id === id);
+    if (!state) return { success: false, error: 'Presence state not found' };
+
+    if (data.name !== undefined) state.name = data.name;
+    if (data.availability !== undefined) state.availability = data.availability;
+    if (data.reasonCodes !== undefined) state.reasonCodes = data.reasonCodes;
+    if (data.maxDurationMinutes !== undefined) state.maxDurationMinutes = data.maxDurationMinutes;
+    if (data.active !== undefined) state.active = data.active;
+    state.lastModified = new Date().toISOString();
+
+    return { success: true, data: state };
+  }
+
+  async deleteState(id: string): Promise<DeleteResult> {
+    const index = this.states.findIndex(s => s.id === id);
+    if (index === -1) return { success: false, error: 'Presence state not found' };
+
+    this.states.splice(index, 1);
+    return { success: true };
+  }
+
+  async findSchedules(): Promise<PresenceSchedule[]> {
+    return [...this.schedules].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createSchedule(data: CreatePresenceScheduleInput): Promise<MutationResult<PresenceSchedule>> {
+    const schedule: PresenceSchedule = {
+      id: `demo-psch${String(this.nextId++).padStart(3, '0')}`,
+      name: data.name,
+      userIds: data.userIds ?? [],
+      groupIds: data.groupIds ?? [],
+      timezone: data.timezone,
+      entries: data.entries,
+      active: data.active ?? true,
+      lastModified: new Date().toISOString(),
+    };
+
+    this.schedules.push(schedule);
+    return { success: true, data: schedule };
+  }
+
+  async updateSchedule(id: string, data: UpdatePresenceScheduleInput): Promise<MutationResult<PresenceSchedule>> {
+    const schedule = this.schedules.find(s => s.id === id);
+    if (!schedule) return { success: false, error: 'Presence schedule not found' };
+
+    if (data.name !== undefined) schedule.name = data.name;
+    if (data.userIds !== undefined) schedule.userIds = data.userIds;
+    if (data.groupIds !== undefined) schedule.groupIds = data.groupIds;
+    if (data.timezone !== undefined) schedule.timezone = data.timezone;
+    if (data.entries !== undefined) schedule.entries = data.entries;
+    if (data.active !== undefined) schedule.active = data.active;
+    schedule.lastModified = new Date().toISOString();
+
+    return { success: true, data: schedule };
+  }
+
+  async deleteSchedule(id: string): Promise<DeleteResult> {
+    const index = this.schedules.findIndex(s => s.id === id);
+    if (index === -1) return { success: false, error: 'Presence schedule not found' };
+
+    this.schedules.splice(index, 1);
+    return { success: true };
+  }
+
+  async recordChange(data: RecordPresenceChangeInput): Promise<MutationResult<PresenceChange>> {
+    const at = data.at ?? new Date().toISOString();
+    const current = this.history.find(c => c.userId === data.userId && c.endedAt === null);
+    if (current) current.endedAt = at;
+
+    const change: PresenceChange = {
+      id: `demo-pc${String(this.nextId++).padStart(4, '0')}`,
+      userId: data.userId,
+      userName: data.userName,
+      stateId: data.stateId,
+      stateName: data.stateName,
+      availability: data.availability,
+      reasonCode: data.reasonCode ?? null,
+      source: data.source,
+      startedAt: at,
+      endedAt: null,
+      overrunAlertedAt: null,
+    };
+
+    this.history.unshift(change);
+    return { success: true, data: change };
+  }
+
+  async findCurrent(userId: string): Promise<PresenceChange | null> {
+    return this.history.find(c => c.userId === userId && c.endedAt === null) || null;
+  }
+
+  async findOpen(): Promise<PresenceChange[]> {
+    return this.history.filter(c => c.endedAt === null);
+  }
+
+  async markOverrunAlerted(id: string, at: string): Promise<MutationResult<void>> {
+    const change = this.history.find(c => c.id === id);
+    if (!change) return { success: false, error: 'Presence change not found' };
+
+    change.overrunAlertedAt = at;
+    return { success: true };
+  }
+
+  async findHistory(filter: PresenceHistoryFilter): Promise<PresenceChange[]> {
+    return this.history
+      .filter(c =>
+        (!filter.userId || c.userId === filter.userId) &&
+        c.startedAt <= filter.to &&
+        (c.endedAt === null || c.endedAt >= filter.from)
+      )
+      .slice(0, filter.limit ?? 1000);
+  }
+}
@@ -11,6 +11,11 @@ import type {
   PaginatedResult,
   MutationResult,
   DeleteResult,
+  PolicyRevision,
+  PolicyRevisionSummary,
+  CreatePolicyRevisionInput,
+  PolicyTemplate,
+  CreatePolicyTemplateInput,
 } from '$lib/domain';
 import { createPaginationMeta, createDefaultPolicyBody } from '$lib/domain';
 import { DEMO_ROUTING_POLICIES, DEMO_POLICY_BODIES } from '../data/routing-policies';
@@ -19,7 +24,11 @@ export class DemoRoutingPolicyRepository implements IRoutingPolicyRepository {
   private policies: RoutingPolicy[] = [...DEMO_ROUTING_POLICIES];
   private policyBodies: Map<string, PolicyBody> = new Map(DEMO_POLICY_BODIES);
   private policyJsons: Map<string, string> = new Map();
+  private revisions: PolicyRevision[] = [];
+  private templates: PolicyTemplate[] = [];
   private nextId = 200;
+  private nextRevisionId = 1;
+  private nextTemplateId = 1;
 
   async findAll(params: RoutingPolicyQueryParams): Promise<PaginatedResult<RoutingPolicy>> {
     let filtered = [...this.policies];
@@ -120,6 +129,7 @@ export class DemoRoutingPolicyRepository implements IRoutingPolicyRepository {
     this.policies.splice(index, 1);
     this.policyBodies.delete(id);
     this.policyJsons.delete(id);
+    this.revisions = this.revisions.filter(r => r.policyId !== id);
 
     return { success: true };
   }
@@ -164,4 +174,66 @@ export class DemoRoutingPolicyRepository implements IRoutingPolicyRepository {
     }
     return result;
   }
+
+  async listRevisions(policyId: string, limit = 50): Promise<PolicyRevisionSummary[]> {
+    return this.revisions
+      .filter(r => r.policyId === policyId)
+      .sort((a, b) => b.revision - a.revision)
+      .slice(0, limit)
+      .map(({ snapshot: _snapshot, ...summary }) => summary);
+  }
+
+  async getRevision(revisionId: string): Promise<PolicyRevision | null> {
+    return this.revisions.find(r => r.id === revisionId) || null;
+  }
+
+  async createRevision(data: CreatePolicyRevisionInput): Promise<MutationResult<PolicyRevision>> {
+    const latest = this.revisions
+      .filter(r => r.policyId === data.policyId)
+      .reduce((max, r) => Math.max(max, r.revision), 0);
+
+    const revision: PolicyRevision = {
+      id: `demo-rev${String(this.nextRevisionId++).padStart(3, '0')}`,
+      policyId: data.policyId,
+      revision: latest + 1,
+      name: data.name,
+      comment: data.comment,
+      authorId: data.authorId || 'demo-u001',
+      authorName: data.authorName || 'John Smith',
+      createdDate: new Date().toISOString(),
+      snapshot: data.snapshot,
+    };
+
+    this.revisions.push(revision);
+    return { success: true, data: revision };
+  }
+
+  async listTemplates(): Promise<PolicyTemplate[] | null> {
+    return [...this.templates].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createTemplate(data: CreatePolicyTemplateInput): Promise<MutationResult<PolicyTemplate>> {
+    const template: PolicyTemplate = {
+      id: `demo-tpl${String(this.nextTemplateId++).padStart(3, '0')}`,
+      name: data.name,
+      description: data.description,
+      body: data.body,
+      authorId: 'demo-u001',
+      authorName: 'John Smith',
+      createdDate: new Date().toISOString(),
+    };
+
+    this.templates.push(template);
+    return { success: true, data: template };
+  }
+
+  async deleteTemplate(id: string): Promise<DeleteResult> {
+    const index = this.templates.findIndex(t => t.id === id);
+    if (index === -1) {
+      return { success: false, error: 'Template not found' };
+    }
+
+    this.templates.splice(index, 1);
+    return { success: true };
+  }
 }
@@ -45,6 +45,15 @@ export class DemoSettingsRepository implements ISettingsRepository {
         product: 'AVS',
         active: true,
       },
+      {
+        id: 'demo-3',
+        developerName: 'Lead_Lookup',
+        label: 'Lead Lookup',
+        objectName: 'Lead',
+        type: 'WHO_ID',
+        product: 'AVS',
+        active: true,
+      },
       {
         id: 'demo-2',
         developerName: 'Account_Lookup',
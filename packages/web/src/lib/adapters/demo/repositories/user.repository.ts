@@ -120,6 +120,10 @@ export class DemoUserRepository implements IUserRepository {
     return this.users.find(u => u.id === id) || null;
   }
 
+  async findByIds(ids: string[]): Promise<User[]> {
+    return this.users.filter(u => ids.includes(u.id));
+  }
+
   async findByExtension(extension: string): Promise<User | null> {
     return this.users.find(u => u.extension === extension) || null;
   }
@@ -10,39 +10,24 @@ import type {
   PaginatedResult,
   MutationResult,
   DeleteResult,
+  WallboardAgent,
+  WallboardCall,
+  WallboardCallTotals,
+  WallboardStatsFilter,
+  WallboardTrendBucket,
 } from '$lib/domain';
-import { createPaginationMeta } from '$lib/domain';
-
-// Demo wallboard data
-const DEMO_WALLBOARDS: Wallboard[] = [
-  {
-    id: 'demo-wb001',
-    name: 'Sales Queue Dashboard',
-    description: 'Real-time view of the sales queue',
-    type: 'queue',
-    enabled: true,
-    lastModified: new Date(Date.now() - 86400000).toISOString(),
-  },
-  {
-    id: 'demo-wb002',
-    name: 'Support Agents Overview',
-    description: 'Agent availability and call status',
-    type: 'agent',
-    enabled: true,
-    lastModified: new Date(Date.now() - 172800000).toISOString(),
-  },
-  {
-    id: 'demo-wb003',
-    name: 'Executive Summary',
-    description: 'Custom KPI dashboard for executives',
-    type: 'custom',
-    enabled: false,
-    lastModified: new Date(Date.now() - 259200000).toISOString(),
-  },
-];
+import { createPaginationMeta, WALLBOARD_UNREADABLE_CONFIGURATION_ERROR } from '$lib/domain';
+import { createWallboardLayout } from '$lib/wallboard';
+import {
+  DEMO_WALLBOARDS,
+  buildDemoActiveCalls,
+  buildDemoAgents,
+  buildDemoCallTotals,
+  buildDemoTrendBuckets,
+} from '../data/wallboards';
 
 export class DemoWallboardRepository implements IWallboardRepository {
-  private wallboards: Wallboard[] = [...DEMO_WALLBOARDS];
+  private wallboards: Wallboard[] = DEMO_WALLBOARDS.map(w => ({ ...w }));
   private nextId = 100;
 
   async findAll(params: WallboardQueryParams): Promise<PaginatedResult<Wallboard>> {
@@ -90,7 +75,9 @@ export class DemoWallboardRepository implements IWallboardRepository {
       description: data.description || '',
       type: data.type || 'custom',
       enabled: data.enabled ?? true,
-      configuration: data.configuration,
+      layout: data.layout ?? createWallboardLayout(),
+      shares: [],
+      unreadableConfiguration: false,
       lastModified: now,
     };
 
@@ -99,15 +86,19 @@ export class DemoWallboardRepository implements IWallboardRepository {
   }
 
   async update(id: string, data: UpdateWallboardInput): Promise<MutationResult<Wallboard>> {
-    const index = this.wallboards.findIndex(w => w.id === id);
-    if (index === -1) return { success: false, error: 'Wallboard not found' };
+    const wallboard = this.wallboards.find(w => w.id === id);
+    if (!wallboard) return { success: false, error: 'Wallboard not found' };
+    if ((data.layout !== undefined || data.shares !== undefined) && wallboard.unreadableConfiguration) {
+      if (!data.replaceConfiguration) return { success: false, error: WALLBOARD_UNREADABLE_CONFIGURATION_ERROR };
+      wallboard.unreadableConfiguration = false;
+    }
 
-    const wallboard = this.wallboards[index];
     if (data.name !== undefined) wallboard.name = data.name;
     if (data.description !== undefined) wallboard.description = data.description;
     if (data.type !== undefined) wallboard.type = data.type;
     if (data.enabled !== undefined) wallboard.enabled = data.enabled;
-    if (data.configuration !== undefined) wallboard.configuration = data.configuration;
+    if (data.layout !== undefined) wallboard.layout = data.layout;
+    if (data.shares !== undefined) wallboard.shares = data.shares;
     wallboard.lastModified = new Date().toISOString();
 
     return { success: true, data: wallboard };
@@ -132,4 +123,20 @@ export class DemoWallboardRepository implements IWallboardRepository {
 
     return { success: true, data: { enabled: wallboard.enabled } };
   }
+
+  async getAgents(): Promise<WallboardAgent[]> {
+    return buildDemoAgents();
+  }
+
+  async getActiveCalls(): Promise<WallboardCall[]> {
+    return buildDemoActiveCalls();
+  }
+
+  async getCallTotals(filter: WallboardStatsFilter): Promise<WallboardCallTotals> {
+    return buildDemoCallTotals(filter);
+  }
+
+  async getTrendHistory(filter: WallboardStatsFilter, from: Date, to: Date): Promise<WallboardTrendBucket[]> {
+    return buildDemoTrendBuckets(filter, from, to);
+  }
 }
@@ -0,0 +1,73 @@
+/**
+ * Demo Wrap-up Code Repository Implementation
+ */
+
+import type { IWrapupCodeRepository } from '$lib/repositories';
+import type {
+  WrapupCode,
+  CreateWrapupCodeInput,
+  UpdateWrapupCodeInput,
+  WrapupSettings,
+  MutationResult,
+  DeleteResult,
+} from '$lib/domain';
+import { DEFAULT_WRAPUP_TIMER_SECONDS, normalizeWrapupTimer } from '$lib/domain';
+import { DEMO_WRAPUP_CODES } from '../data/wrapup-codes';
+
+export class DemoWrapupCodeRepository implements IWrapupCodeRepository {
+  private codes: WrapupCode[] = DEMO_WRAPUP_CODES.map(code => ({ ...code, groupIds: [...code.groupIds] }));
+  private settings: WrapupSettings = { timerSeconds: DEFAULT_WRAPUP_TIMER_SECONDS };
+  private nextId = 100;
+
+  async findAll(): Promise<WrapupCode[]> {
+    return [...this.codes].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findById(id: string): Promise<WrapupCode | null> {
+    return this.codes.find(c => c.id === id) || null;
+  }
+
+  async create(data: CreateWrapupCodeInput): Promise<MutationResult<WrapupCode>> {
+    const code: WrapupCode = {
+      id: `demo-wc${String(this.nextId++).padStart(3, '0')}`,
+      name: data.name,
+      description: data.description || '',
+      groupIds: data.groupIds ?? [],
+      active: data.active ?? true,
+      lastModified: new Date().toISOString(),
+    };
+
+    this.codes.push(code);
+    return { success: true, data: code };
+  }
+
+  async update(id: string, data: UpdateWrapupCodeInput): Promise<MutationResult<WrapupCode>> {
+    const code = this.codes.find(c => c.id === id);
+    if (!code) return { success: false, error: 'Wrap-up code not found' };
+
+    if (data.name !== undefined) code.name = data.name;
+    if (data.description !== undefined) code.description = data.description;
+    if (data.groupIds !== undefined) code.groupIds = data.groupIds;
+    if (data.active !== undefined) code.active = data.active;
+    code.lastModified = new Date().toISOString();
+
+    return { success: true, data: code };
+  }
+
+  async delete(id: string): Promise<DeleteResult> {
+    const index = this.codes.findIndex(c => c.id === id);
+    if (index === -1) return { success: false, error: 'Wrap-up code not found' };
+
+    this.codes.splice(index, 1);
+    return { success: true };
+  }
+
+  async getSettings(): Promise<WrapupSettings> {
+    return { ...this.settings };
+  }
+
+  async updateSettings(settings: WrapupSettings): Promise<MutationResult<WrapupSettings>> {
+    this.settings = { timerSeconds: normalizeWrapupTimer(settings.timerSeconds) };
+    return { success: true, data: { ...this.settings } };
+  }
+}
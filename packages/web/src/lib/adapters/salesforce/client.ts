@@ -8,10 +8,14 @@
 import {
   querySalesforce as rawQuerySalesforce,
   queryAllSalesforce as rawQueryAllSalesforce,
+  searchSalesforce as rawSearchSalesforce,
+  describeSalesforceObject as rawDescribeSalesforceObject,
   createSalesforce as rawCreateSalesforce,
   updateSalesforce as rawUpdateSalesforce,
   deleteSalesforce as rawDeleteSalesforce,
+  invokeStandardAction as rawInvokeStandardAction,
   type SoqlQueryResult,
+  type SalesforceActionResult,
   type SalesforceCreateResult,
   SalesforceApiError,
 } from '$lib/server/salesforce';
@@ -20,12 +24,17 @@ import { PlatformError } from '$lib/domain';
 
 // Re-export types
 export { SalesforceApiError };
-export type { SoqlQueryResult, SalesforceCreateResult };
+export type { SoqlQueryResult, SalesforceCreateResult, SalesforceActionResult };
 
 // =============================================================================
 // Salesforce Client Class
 // =============================================================================
 
+/** An org's fields only change when its package is upgraded */
+const FIELD_NAMES_TTL_MS = 10 * 60 * 1000;
+
+const fieldNamesCache = new Map<string, { names: Set<string>; expiresAt: number }>();
+
 /**
  * Salesforce API client
  * 
@@ -92,6 +101,48 @@ export class SalesforceClient {
     }
   }
 
+  /**
+   * Execute a SOSL search; records carry their object in `attributes.type`
+   */
+  async search<T>(sosl: string): Promise<T[]> {
+    try {
+      const result = await rawSearchSalesforce<T>(
+        this.ctx.instanceUrl,
+        this.ctx.accessToken,
+        sosl
+      );
+      return result.searchRecords;
+    } catch (error) {
+      throw this.transformError(error, 'search');
+    }
+  }
+
+  /**
+   * Names of an object's fields in this org, to check for fields that older
+   * package versions don't have. Cached per org for a few minutes.
+   */
+  async fieldNames(objectName: string): Promise<Set<string>> {
+    const name = this.objectName(objectName);
+    const key = `${this.ctx.instanceUrl}/${name}`;
+    const cached = fieldNamesCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.names;
+    }
+
+    try {
+      const describe = await rawDescribeSalesforceObject(
+        this.ctx.instanceUrl,
+        this.ctx.accessToken,
+        name
+      );
+      const names = new Set(describe.fields.map(field => field.name));
+      fieldNamesCache.set(key, { names, expiresAt: Date.now() + FIELD_NAMES_TTL_MS });
+      return names;
+    } catch (error) {
+      throw this.transformError(error, 'describe');
+    }
+  }
+
   /**
    * Create a record
    */
@@ -141,6 +192,22 @@ export class SalesforceClient {
     }
   }
 
+  /**
+   * Run a standard invocable action once per input
+   */
+  async invokeAction(action: string, inputs: Record<string, unknown>[]): Promise<SalesforceActionResult[]> {
+    try {
+      return await rawInvokeStandardAction(
+        this.ctx.instanceUrl,
+        this.ctx.accessToken,
+        action,
+        inputs
+      );
+    } catch (error) {
+      throw this.transformError(error, 'action');
+    }
+  }
+
   /**
    * Transform Salesforce errors into domain errors
    */
@@ -167,6 +234,16 @@ export class SalesforceClient {
   }
 }
 
+/**
+ * Whether a client call failed with one of the given Salesforce error codes,
+ * e.g. DUPLICATE_VALUE, or INVALID_TYPE for an object the org doesn't have
+ */
+export function hasSalesforceErrorCode(error: unknown, ...codes: string[]): boolean {
+  const cause = error instanceof PlatformError ? error.originalError : error;
+  if (!(cause instanceof SalesforceApiError)) return false;
+  return cause.errors.some(e => codes.includes(e.errorCode ?? e.statusCode));
+}
+
 // =============================================================================
 // Factory Function
 // =============================================================================
@@ -23,6 +23,10 @@ import { SalesforceMonitoringRepository } from './repositories/monitoring.reposi
 import { SalesforceCallReportingRepository } from './repositories/call-reporting.repository';
 import { SalesforceWallboardRepository } from './repositories/wallboard.repository';
 import { SalesforceSkillRepository } from './repositories/skill.repository';
+import { SalesforceWrapupCodeRepository } from './repositories/wrapup-code.repository';
+import { SalesforcePresenceRepository } from './repositories/presence.repository';
+import { SalesforceCrmRepository } from './repositories/crm.repository';
+import { SalesforceNotificationRepository } from './repositories/notification.repository';
 
 // Re-export types
 export * from './types';
@@ -54,5 +58,9 @@ export function createSalesforceRepositories(ctx: SalesforceAdapterContext): Rep
     callReporting: new SalesforceCallReportingRepository(ctx),
     wallboards: new SalesforceWallboardRepository(ctx),
     skills: new SalesforceSkillRepository(ctx),
+    wrapupCodes: new SalesforceWrapupCodeRepository(ctx),
+    presence: new SalesforcePresenceRepository(ctx),
+    crm: new SalesforceCrmRepository(ctx),
+    notifications: new SalesforceNotificationRepository(ctx),
   };
 }
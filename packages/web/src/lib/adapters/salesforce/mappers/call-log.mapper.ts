@@ -30,6 +30,8 @@ export function mapSalesforceCallLog(sf: SalesforceCallLogRecord): CallLog {
     fromUserName: sf.nbavs__FromUser__r?.Name,
     toUserId: sf.nbavs__ToUser__r?.Id,
     toUserName: sf.nbavs__ToUser__r?.Name,
+    wrapupCode: sf.nbavs__WrapupCode__c || undefined,
+    wrapupNotes: sf.nbavs__WrapupNotes__c || undefined,
   };
 }
 
@@ -2,9 +2,9 @@
  * Salesforce Routing Policy Mapper
  */
 
-import type { RoutingPolicy, PolicyBody, PolicyStatus, PolicyType, PolicySource, CreateRoutingPolicyInput, UpdateRoutingPolicyInput } from '$lib/domain';
+import type { RoutingPolicy, PolicyBody, PolicyStatus, PolicyType, PolicySource, CreateRoutingPolicyInput, UpdateRoutingPolicyInput, PolicyRevision, PolicyRevisionSummary, CreatePolicyRevisionInput, PolicyTemplate, CreatePolicyTemplateInput } from '$lib/domain';
 import { createDefaultPolicyBody, createDefaultPolicyJson, parsePolicyStatus } from '$lib/domain';
-import type { SalesforceCallFlowRecord } from '../types';
+import type { SalesforceCallFlowRecord, SalesforceCallFlowRevisionRecord, SalesforceCallFlowTemplateRecord } from '../types';
 
 // =============================================================================
 // Salesforce -> Domain Mappers
@@ -61,6 +61,47 @@ export function parsePolicyBody(bodyJson?: string): PolicyBody | null {
   }
 }
 
+/**
+ * Map a Salesforce CallFlowRevision__c record to a domain PolicyRevisionSummary
+ */
+export function mapSalesforcePolicyRevisionSummary(sf: SalesforceCallFlowRevisionRecord): PolicyRevisionSummary {
+  return {
+    id: sf.Id,
+    policyId: sf.nbavs__CallFlow__c,
+    revision: sf.nbavs__Revision__c ?? 0,
+    name: sf.Name,
+    comment: sf.nbavs__Comment__c || undefined,
+    authorId: sf.CreatedBy?.Id || sf.CreatedById,
+    authorName: sf.CreatedBy?.Name || 'Unknown',
+    createdDate: sf.CreatedDate,
+  };
+}
+
+/**
+ * Map a Salesforce CallFlowRevision__c record, including its snapshot, to a domain PolicyRevision
+ */
+export function mapSalesforcePolicyRevision(sf: SalesforceCallFlowRevisionRecord): PolicyRevision {
+  return {
+    ...mapSalesforcePolicyRevisionSummary(sf),
+    snapshot: sf.nbavs__Snapshot__c || '',
+  };
+}
+
+/**
+ * Map a Salesforce CallFlowTemplate__c record to a domain PolicyTemplate
+ */
+export function mapSalesforcePolicyTemplate(sf: SalesforceCallFlowTemplateRecord): PolicyTemplate {
+  return {
+    id: sf.Id,
+    name: sf.Name,
+    description: sf.nbavs__Description__c || undefined,
+    body: sf.nbavs__Body__c || '',
+    authorId: sf.CreatedBy?.Id || sf.CreatedById,
+    authorName: sf.CreatedBy?.Name || 'Unknown',
+    createdDate: sf.CreatedDate,
+  };
+}
+
 // =============================================================================
 // Domain -> Salesforce Mappers
 // =============================================================================
@@ -93,3 +134,36 @@ export function mapUpdateRoutingPolicyToSalesforce(input: UpdateRoutingPolicyInp
 
   return data;
 }
+
+/**
+ * Map a revision to CallFlowRevision__c fields. The author is recorded by
+ * Salesforce as the record's CreatedBy, so authorId/authorName are not sent.
+ * RevisionKey__c is unique, so a revision number can only be recorded once
+ * per policy.
+ */
+export function mapCreatePolicyRevisionToSalesforce(input: CreatePolicyRevisionInput, revision: number, namespace: string): Record<string, unknown> {
+  const ns = namespace;
+
+  return {
+    // Name is a standard 80 character text field
+    Name: input.name.slice(0, 80),
+    [`${ns}__CallFlow__c`]: input.policyId,
+    [`${ns}__Revision__c`]: revision,
+    [`${ns}__RevisionKey__c`]: `${input.policyId}:${revision}`,
+    [`${ns}__Comment__c`]: (input.comment || '').slice(0, 255),
+    [`${ns}__Snapshot__c`]: input.snapshot,
+  };
+}
+
+/**
+ * Map a template to CallFlowTemplate__c fields
+ */
+export function mapCreatePolicyTemplateToSalesforce(input: CreatePolicyTemplateInput, namespace: string): Record<string, unknown> {
+  const ns = namespace;
+
+  return {
+    Name: input.name.slice(0, 80),
+    [`${ns}__Description__c`]: (input.description || '').slice(0, 255),
+    [`${ns}__Body__c`]: input.body,
+  };
+}
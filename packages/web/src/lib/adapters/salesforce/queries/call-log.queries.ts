@@ -3,6 +3,8 @@
  */
 
 import type { CallLogQueryParams } from '$lib/repositories';
+import type { CallDispositionInput } from '$lib/domain';
+import { escapeForSoql } from '$lib/server/pagination';
 
 // =============================================================================
 // Field Lists
@@ -18,12 +20,31 @@ export function getCallLogSelectFields(ns: string): string {
   `.trim().replace(/\s+/g, ' ');
 }
 
+/** Wrap-up fields, which CallLog__c only has from the package version that added wrap-up codes */
+export function getCallLogWrapupFields(ns: string): string[] {
+  return [`${ns}__WrapupCode__c`, `${ns}__WrapupNotes__c`];
+}
+
+export interface CallLogQueryOptions {
+  /** The org's CallLog__c has the wrap-up fields; without them the wrap-up code filter is ignored */
+  wrapup?: boolean;
+}
+
+function selectFields(ns: string, options: CallLogQueryOptions): string {
+  const fields = getCallLogSelectFields(ns);
+  return options.wrapup ? `${fields}, ${getCallLogWrapupFields(ns).join(', ')}` : fields;
+}
+
 // =============================================================================
 // Query Builders
 // =============================================================================
 
-export function buildCallLogListQuery(ns: string, params: CallLogQueryParams): string {
-  const fields = getCallLogSelectFields(ns);
+export function buildCallLogListQuery(
+  ns: string,
+  params: CallLogQueryParams,
+  options: CallLogQueryOptions = {}
+): string {
+  const fields = selectFields(ns, options);
   const conditions: string[] = [];
 
   // Date range filters
@@ -59,13 +80,22 @@ export function buildCallLogListQuery(ns: string, params: CallLogQueryParams): s
     }
   }
 
+  // Wrap-up code filter
+  if (options.wrapup && params.filters?.wrapupCode) {
+    conditions.push(`${ns}__WrapupCode__c = '${escapeForSoql(params.filters.wrapupCode)}'`);
+  }
+
   const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
   const offset = (params.page - 1) * params.pageSize;
 
   return `SELECT ${fields} FROM ${ns}__CallLog__c ${whereClause} ORDER BY ${ns}__DateTime__c DESC LIMIT ${params.pageSize} OFFSET ${offset}`;
 }
 
-export function buildCallLogCountQuery(ns: string, params: CallLogQueryParams): string {
+export function buildCallLogCountQuery(
+  ns: string,
+  params: CallLogQueryParams,
+  options: CallLogQueryOptions = {}
+): string {
   const conditions: string[] = [];
 
   if (params.filters?.fromDate) {
@@ -78,11 +108,34 @@ export function buildCallLogCountQuery(ns: string, params: CallLogQueryParams):
     conditions.push(`(${ns}__FromUser__c = '${params.filters.userId}' OR ${ns}__ToUser__c = '${params.filters.userId}')`);
   }
 
+  if (options.wrapup && params.filters?.wrapupCode) {
+    conditions.push(`${ns}__WrapupCode__c = '${escapeForSoql(params.filters.wrapupCode)}'`);
+  }
+
   const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
   return `SELECT COUNT() FROM ${ns}__CallLog__c ${whereClause}`;
 }
 
-export function buildCallLogByIdQuery(ns: string, id: string): string {
-  const fields = getCallLogSelectFields(ns);
+export function buildCallLogByIdQuery(ns: string, id: string, options: CallLogQueryOptions = {}): string {
+  const fields = selectFields(ns, options);
   return `SELECT ${fields} FROM ${ns}__CallLog__c WHERE Id = '${id}' LIMIT 1`;
 }
+
+/** How far a call log's time may be from the webphone's idea of when the call started */
+const DISPOSITION_MATCH_WINDOW_MS = 2 * 60 * 1000;
+
+/**
+ * The user's call log for a call the webphone took: same user, same other
+ * party (compared on trailing digits, as the log and the webphone format
+ * numbers differently) and a start time close to the webphone's.
+ */
+export function buildCallLogForDispositionQuery(ns: string, input: CallDispositionInput): string {
+  const fields = getCallLogSelectFields(ns);
+  const startedAt = new Date(input.startedAt).getTime();
+  const from = new Date(startedAt - DISPOSITION_MATCH_WINDOW_MS).toISOString();
+  const to = new Date(startedAt + DISPOSITION_MATCH_WINDOW_MS).toISOString();
+  const digits = input.number.replace(/\D/g, '').slice(-9);
+  const numberField = input.direction === 'Outbound' ? `${ns}__ToNumber__c` : `${ns}__FromNumber__c`;
+
+  return `SELECT ${fields} FROM ${ns}__CallLog__c WHERE (${ns}__FromUser__c = '${input.userId}' OR ${ns}__ToUser__c = '${input.userId}') AND ${ns}__DateTime__c >= ${from} AND ${ns}__DateTime__c <= ${to} AND ${numberField} LIKE '%${digits}' ORDER BY ${ns}__DateTime__c DESC LIMIT 1`;
+}
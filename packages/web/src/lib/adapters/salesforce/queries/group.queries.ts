@@ -2,7 +2,8 @@
  * Salesforce Group SOQL Query Builders
  */
 
-import type { GroupQueryParams } from '$lib/repositories';
+import type { GroupQueryParams, GroupMembershipFilter } from '$lib/repositories';
+import { escapeForSoql } from '$lib/server/pagination';
 
 // =============================================================================
 // Field Lists
@@ -26,7 +27,7 @@ export function buildGroupListQuery(ns: string, params: GroupQueryParams): strin
 
   if (params.search) {
     const searchTerm = params.search.replace(/'/g, "\\'");
-    conditions.push(`(Name LIKE '%${searchTerm}%' OR ${ns}__Description__c LIKE '%${searchTerm}%')`);
+    conditions.push(`(Name LIKE '%${searchTerm}%' OR ${ns}__Description__c LIKE '%${searchTerm}%' OR ${ns}__Extension__c LIKE '%${searchTerm}%')`);
   }
 
   if (params.filters?.pbx !== undefined) {
@@ -52,7 +53,7 @@ export function buildGroupCountQuery(ns: string, params: GroupQueryParams): stri
 
   if (params.search) {
     const searchTerm = params.search.replace(/'/g, "\\'");
-    conditions.push(`(Name LIKE '%${searchTerm}%' OR ${ns}__Description__c LIKE '%${searchTerm}%')`);
+    conditions.push(`(Name LIKE '%${searchTerm}%' OR ${ns}__Description__c LIKE '%${searchTerm}%' OR ${ns}__Extension__c LIKE '%${searchTerm}%')`);
   }
 
   if (params.filters?.pbx !== undefined) {
@@ -78,6 +79,20 @@ export function buildGroupMembersQuery(ns: string, groupId: string): string {
   `;
 }
 
+export function buildMembershipsQuery(ns: string, filter: GroupMembershipFilter): string {
+  const inList = (ids: string[]) => ids.map(id => `'${escapeForSoql(id)}'`).join(',');
+  const conditions = [
+    filter.groupIds && `${ns}__Group__c IN (${inList(filter.groupIds)})`,
+    filter.userIds && `${ns}__User__c IN (${inList(filter.userIds)})`,
+  ].filter(Boolean);
+  return `
+    SELECT Id, ${ns}__Group__c, ${ns}__Group__r.Name, 
+           ${ns}__User__c, ${ns}__User__r.Name, ${ns}__RingOrder__c
+    FROM ${ns}__GroupMember__c 
+    WHERE ${conditions.join(' AND ')}
+  `;
+}
+
 export function buildMemberCountsQuery(ns: string, groupIds: string[]): string {
   const idList = groupIds.map(id => `'${id}'`).join(',');
   return `SELECT ${ns}__Group__c, COUNT(Id) cnt FROM ${ns}__GroupMember__c WHERE ${ns}__Group__c IN (${idList}) GROUP BY ${ns}__Group__c`;
@@ -89,3 +89,37 @@ export function buildPhoneNumberAssignmentsQuery(ns: string, policyIds: string[]
   const idList = policyIds.map(id => `'${id}'`).join(',');
   return `SELECT Id, ${ns}__Number__c, ${ns}__CallFlow__c FROM ${ns}__PhoneNumber__c WHERE ${ns}__CallFlow__c IN (${idList})`;
 }
+
+// =============================================================================
+// Revision Queries
+// =============================================================================
+
+function getRevisionSummaryFields(ns: string): string {
+  return `Id, Name, ${ns}__CallFlow__c, ${ns}__Revision__c, ${ns}__Comment__c, CreatedById, CreatedBy.Id, CreatedBy.Name, CreatedDate`;
+}
+
+export function buildPolicyRevisionsQuery(ns: string, policyId: string, limit: number): string {
+  const fields = getRevisionSummaryFields(ns);
+  return `SELECT ${fields} FROM ${ns}__CallFlowRevision__c WHERE ${ns}__CallFlow__c = '${policyId}' ORDER BY ${ns}__Revision__c DESC LIMIT ${limit}`;
+}
+
+export function buildPolicyRevisionByIdQuery(ns: string, revisionId: string): string {
+  const fields = getRevisionSummaryFields(ns);
+  return `SELECT ${fields}, ${ns}__Snapshot__c FROM ${ns}__CallFlowRevision__c WHERE Id = '${revisionId}' LIMIT 1`;
+}
+
+export function buildLatestRevisionNumberQuery(ns: string, policyId: string): string {
+  return `SELECT ${ns}__Revision__c FROM ${ns}__CallFlowRevision__c WHERE ${ns}__CallFlow__c = '${policyId}' ORDER BY ${ns}__Revision__c DESC LIMIT 1`;
+}
+
+// =============================================================================
+// Template Queries
+// =============================================================================
+
+export function buildPolicyTemplatesQuery(ns: string): string {
+  return `SELECT Id, Name, ${ns}__Description__c, ${ns}__Body__c, CreatedById, CreatedBy.Id, CreatedBy.Name, CreatedDate FROM ${ns}__CallFlowTemplate__c ORDER BY Name ASC LIMIT 500`;
+}
+
+export function buildPolicyTemplateByIdQuery(ns: string, templateId: string): string {
+  return `SELECT Id, Name, ${ns}__Description__c, ${ns}__Body__c, CreatedById, CreatedBy.Id, CreatedBy.Name, CreatedDate FROM ${ns}__CallFlowTemplate__c WHERE Id = '${templateId}' LIMIT 1`;
+}
@@ -5,6 +5,7 @@
  */
 
 import type { UserQueryParams } from '$lib/repositories';
+import { escapeForSoql } from '$lib/server/pagination';
 
 // =============================================================================
 // Field Lists
@@ -141,6 +142,15 @@ export function buildUserByIdQuery(ns: string, id: string): string {
   return `SELECT ${fields} FROM ${ns}__User__c WHERE Id = '${id}' LIMIT 1`;
 }
 
+/**
+ * Build SOQL query for several users by ID
+ */
+export function buildUsersByIdsQuery(ns: string, ids: string[]): string {
+  const fields = getUserSelectFields(ns);
+  const idList = ids.map(id => `'${escapeForSoql(id)}'`).join(',');
+  return `SELECT ${fields} FROM ${ns}__User__c WHERE Id IN (${idList})`;
+}
+
 /**
  * Build SOQL query for user by extension
  */
@@ -3,13 +3,26 @@
  */
 
 import type { ICallLogRepository, CallLogQueryParams } from '$lib/repositories';
-import type { CallLog, CallDirection, UserCallSummary, PaginatedResult } from '$lib/domain';
+import type {
+  CallLog,
+  CallDirection,
+  CallDispositionInput,
+  UserCallSummary,
+  PaginatedResult,
+  MutationResult,
+} from '$lib/domain';
 import { createPaginationMeta } from '$lib/domain';
 import type { SalesforceAdapterContext } from '../../types';
 import { SalesforceClient } from '../client';
 import type { SalesforceCallLogRecord } from '../types';
 import { mapSalesforceCallLog } from '../mappers/call-log.mapper';
-import { buildCallLogListQuery, buildCallLogCountQuery, buildCallLogByIdQuery } from '../queries/call-log.queries';
+import {
+  buildCallLogListQuery,
+  buildCallLogCountQuery,
+  buildCallLogByIdQuery,
+  buildCallLogForDispositionQuery,
+  getCallLogWrapupFields,
+} from '../queries/call-log.queries';
 
 export class SalesforceCallLogRepository implements ICallLogRepository {
   private client: SalesforceClient;
@@ -20,12 +33,29 @@ export class SalesforceCallLogRepository implements ICallLogRepository {
     this.ns = ctx.namespace;
   }
 
+  /** Whether this org's CallLog__c has the wrap-up fields; older package versions don't */
+  private async hasWrapupFields(): Promise<boolean> {
+    try {
+      const fields = await this.client.fieldNames('CallLog__c');
+      return getCallLogWrapupFields(this.ns).every(field => fields.has(field));
+    } catch (e) {
+      console.warn('Failed to describe call logs:', e);
+      return false;
+    }
+  }
+
   async findAll(params: CallLogQueryParams): Promise<PaginatedResult<CallLog>> {
-    const countSoql = buildCallLogCountQuery(this.ns, params);
+    const wrapup = await this.hasWrapupFields();
+    // No call log can have a wrap-up code before the package stores them
+    if (params.filters?.wrapupCode && !wrapup) {
+      return { items: [], pagination: createPaginationMeta(params.page, params.pageSize, 0) };
+    }
+
+    const countSoql = buildCallLogCountQuery(this.ns, params, { wrapup });
     const countResult = await this.client.query<Record<string, unknown>>(countSoql);
     const totalCount = countResult.totalSize;
 
-    const listSoql = buildCallLogListQuery(this.ns, params);
+    const listSoql = buildCallLogListQuery(this.ns, params, { wrapup });
     const listResult = await this.client.query<SalesforceCallLogRecord>(listSoql);
 
     return {
@@ -35,7 +65,7 @@ export class SalesforceCallLogRepository implements ICallLogRepository {
   }
 
   async findById(id: string): Promise<CallLog | null> {
-    const soql = buildCallLogByIdQuery(this.ns, id);
+    const soql = buildCallLogByIdQuery(this.ns, id, { wrapup: await this.hasWrapupFields() });
     const result = await this.client.query<SalesforceCallLogRecord>(soql);
     return result.records.length > 0 ? mapSalesforceCallLog(result.records[0]) : null;
   }
@@ -129,4 +159,31 @@ export class SalesforceCallLogRepository implements ICallLogRepository {
     if (!callLog?.recordingId) return null;
     return `/api/recordings/${callLog.recordingId}`;
   }
+
+  async recordDisposition(input: CallDispositionInput): Promise<MutationResult<CallLog>> {
+    try {
+      if (!(await this.hasWrapupFields())) {
+        return { success: false, error: 'Wrap-up codes need a newer version of the Natterbox AVS package' };
+      }
+
+      const soql = buildCallLogForDispositionQuery(this.ns, input);
+      const result = await this.client.query<SalesforceCallLogRecord>(soql);
+      const [record] = result.records;
+      if (!record) {
+        return { success: false, error: 'Call log not found' };
+      }
+
+      await this.client.update('CallLog__c', record.Id, {
+        [`${this.ns}__WrapupCode__c`]: input.code,
+        [`${this.ns}__WrapupNotes__c`]: input.notes || '',
+      });
+
+      return {
+        success: true,
+        data: { ...mapSalesforceCallLog(record), wrapupCode: input.code, wrapupNotes: input.notes || undefined },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to record wrap-up' };
+    }
+  }
 }
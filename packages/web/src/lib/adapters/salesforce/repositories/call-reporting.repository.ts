@@ -16,6 +16,7 @@ import type {
   CallResult,
 } from '$lib/domain';
 import { createPaginationMeta } from '$lib/domain';
+import { escapeForSoql } from '$lib/server/pagination';
 import type { SalesforceAdapterContext } from '../../types';
 import { SalesforceClient } from '../client';
 
@@ -363,6 +364,7 @@ export class SalesforceCallReportingRepository implements ICallReportingReposito
     startDate?: string;
     endDate?: string;
     direction?: string;
+    wrapupCode?: string;
     fields: string[];
     limit: number;
   }): Promise<Record<string, string | number>[]> {
@@ -378,6 +380,8 @@ export class SalesforceCallReportingRepository implements ICallReportingReposito
       'Result__c': `${this.ns}__Result__c`,
       'User__r.Name': `${this.ns}__User__r.Name`,
       'Group__r.Name': `${this.ns}__Group__r.Name`,
+      'WrapupCode__c': `${this.ns}__WrapupCode__c`,
+      'WrapupNotes__c': `${this.ns}__WrapupNotes__c`,
       'CreatedDate': 'CreatedDate',
     };
 
@@ -392,10 +396,19 @@ export class SalesforceCallReportingRepository implements ICallReportingReposito
       'Result__c': 'Result',
       'User__r.Name': 'Agent',
       'Group__r.Name': 'Group',
+      'WrapupCode__c': 'Wrap-up Code',
+      'WrapupNotes__c': 'Wrap-up Notes',
       'CreatedDate': 'Created Date',
     };
 
-    const soqlFields = options.fields.map(f => fieldMap[f] || f).filter(Boolean);
+    // Wrap-up fields are only on CallLog__c from the package version that added wrap-up codes
+    const callLogFields = await this.client.fieldNames('CallLog__c');
+    const available = (field: string) => !field.startsWith('Wrapup') || callLogFields.has(fieldMap[field] ?? field);
+    if (options.wrapupCode && !available('WrapupCode__c')) {
+      return [];
+    }
+
+    const soqlFields = options.fields.filter(available).map(f => fieldMap[f] || f).filter(Boolean);
     if (!soqlFields.includes('Id')) soqlFields.unshift('Id');
 
     // Build WHERE clause
@@ -411,6 +424,9 @@ export class SalesforceCallReportingRepository implements ICallReportingReposito
     if (options.direction) {
       whereClauses.push(`${this.ns}__Direction__c = '${options.direction}'`);
     }
+    if (options.wrapupCode) {
+      whereClauses.push(`${this.ns}__WrapupCode__c = '${escapeForSoql(options.wrapupCode)}'`);
+    }
 
     const whereClause = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
 
@@ -0,0 +1,114 @@
+/**
+ * Salesforce CRM Repository Implementation
+ *
+ * Callers are found with a SOSL search over phone fields, which copes with
+ * however the number was formatted on the record. Calls are logged as
+ * completed `Task`s owned by the signed-in user.
+ */
+
+import type { ICrmRepository } from '$lib/repositories';
+import type { CrmRecord, CrmCallActivity, LogCallActivityInput, MutationResult } from '$lib/domain';
+import { callActivitySubject, phoneMatchDigits, phoneNumbersMatch } from '$lib/domain';
+import type { SalesforceAdapterContext } from '../../types';
+import { SalesforceClient } from '../client';
+
+/** Most records returned for one number */
+const SEARCH_LIMIT = 20;
+
+/** Extra fields per standard object; other objects return just their name */
+const OBJECT_FIELDS: Record<string, { phones: string[]; detail?: string }> = {
+  Contact: { phones: ['Phone', 'MobilePhone'], detail: 'Account.Name' },
+  Lead: { phones: ['Phone', 'MobilePhone'], detail: 'Company' },
+  Account: { phones: ['Phone'], detail: 'Industry' },
+};
+
+/** Objects activities hang off through `WhoId`; everything else uses `WhatId` */
+const WHO_OBJECTS = ['Contact', 'Lead'];
+
+interface SearchRecord {
+  attributes: { type: string };
+  Id: string;
+  Name?: string;
+  [field: string]: unknown;
+}
+
+/** Read a possibly dotted field, e.g. `Account.Name` */
+function readField(record: Record<string, unknown>, path: string): string | null {
+  let value: unknown = record;
+  for (const part of path.split('.')) {
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+  }
+  return typeof value === 'string' && value ? value : null;
+}
+
+export class SalesforceCrmRepository implements ICrmRepository {
+  private client: SalesforceClient;
+
+  constructor(private ctx: SalesforceAdapterContext) {
+    this.client = new SalesforceClient(ctx);
+  }
+
+  async findByPhoneNumber(number: string, objectNames: string[]): Promise<CrmRecord[]> {
+    const digits = phoneMatchDigits(number);
+    // Object names come from configuration; keep them to identifiers
+    const objects = objectNames.filter(name => /^\w+$/.test(name));
+    if (!digits || objects.length === 0) return [];
+
+    const returning = objects
+      .map(name => {
+        const fields = OBJECT_FIELDS[name];
+        const columns = ['Id', 'Name', ...(fields?.phones ?? []), ...(fields?.detail ? [fields.detail] : [])];
+        return `${name}(${columns.join(', ')})`;
+      })
+      .join(', ');
+    const sosl = `FIND {${digits}} IN PHONE FIELDS RETURNING ${returning} LIMIT ${SEARCH_LIMIT}`;
+
+    const records = await this.client.search<SearchRecord>(sosl);
+    return records
+      .map(record => {
+        const objectName = record.attributes.type;
+        const fields = OBJECT_FIELDS[objectName];
+        const phones = (fields?.phones ?? []).map(f => readField(record, f)).filter((p): p is string => !!p);
+        return {
+          id: record.Id,
+          objectName,
+          name: record.Name ?? record.Id,
+          phone: phones.find(p => phoneNumbersMatch(p, number)) ?? phones[0] ?? null,
+          detail: fields?.detail ? readField(record, fields.detail) : null,
+          url: `${this.ctx.instanceUrl}/lightning/r/${objectName}/${record.Id}/view`,
+        };
+      })
+      .sort((a, b) => objects.indexOf(a.objectName) - objects.indexOf(b.objectName));
+  }
+
+  async logCallActivity(data: LogCallActivityInput): Promise<MutationResult<CrmCallActivity>> {
+    const subject = data.subject || callActivitySubject(data.direction, data.number);
+    const link = WHO_OBJECTS.includes(data.objectName) ? { WhoId: data.recordId } : { WhatId: data.recordId };
+
+    try {
+      const result = await this.client.create('Task', {
+        ...link,
+        Subject: subject,
+        Description: data.notes || null,
+        Status: 'Completed',
+        TaskSubtype: 'Call',
+        CallType: data.direction === 'Outbound' ? 'Outbound' : 'Inbound',
+        CallDurationInSeconds: Math.round(data.durationSeconds),
+        ActivityDate: data.startedAt.slice(0, 10),
+      });
+
+      return {
+        success: true,
+        data: {
+          id: result.id,
+          recordId: data.recordId,
+          objectName: data.objectName,
+          subject,
+          createdAt: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to log call' };
+    }
+  }
+}
@@ -2,7 +2,7 @@
  * Salesforce Group Repository Implementation
  */
 
-import type { IGroupRepository, GroupQueryParams } from '$lib/repositories';
+import type { IGroupRepository, GroupQueryParams, GroupMembershipFilter } from '$lib/repositories';
 import type {
   Group,
   CreateGroupInput,
@@ -18,7 +18,7 @@ import type { SalesforceAdapterContext } from '../../types';
 import { SalesforceClient } from '../client';
 import type { SalesforceGroupRecord, SalesforceGroupMemberRecord } from '../types';
 import { mapSalesforceGroup, mapSalesforceGroupMember, mapCreateGroupToSalesforce, mapUpdateGroupToSalesforce } from '../mappers/group.mapper';
-import { buildGroupListQuery, buildGroupCountQuery, buildGroupByIdQuery, buildGroupMembersQuery, buildMemberCountsQuery } from '../queries/group.queries';
+import { buildGroupListQuery, buildGroupCountQuery, buildGroupByIdQuery, buildGroupMembersQuery, buildMembershipsQuery, buildMemberCountsQuery } from '../queries/group.queries';
 
 export class SalesforceGroupRepository implements IGroupRepository {
   private client: SalesforceClient;
@@ -110,6 +110,14 @@ export class SalesforceGroupRepository implements IGroupRepository {
     return result.records.map(mapSalesforceGroupMember);
   }
 
+  async findMemberships(filter: GroupMembershipFilter): Promise<GroupMember[]> {
+    if (!filter.groupIds && !filter.userIds) return [];
+    if (filter.groupIds?.length === 0 || filter.userIds?.length === 0) return [];
+    const soql = buildMembershipsQuery(this.ns, filter);
+    const records = await this.client.queryAll<SalesforceGroupMemberRecord>(soql);
+    return records.map(mapSalesforceGroupMember);
+  }
+
   async addMember(input: AddGroupMemberInput): Promise<MutationResult<GroupMember>> {
     try {
       const sfData = {
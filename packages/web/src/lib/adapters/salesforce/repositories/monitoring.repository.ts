@@ -7,12 +7,14 @@
 import type { IMonitoringRepository } from '$lib/repositories';
 import type {
   EventLog,
+  CreateEventLogInput,
   ErrorLog,
   MonitoringStats,
   MonitoringQueryParams,
   ServiceInfo,
   PaginatedResult,
   LogSeverity,
+  MutationResult,
 } from '$lib/domain';
 import { createPaginationMeta } from '$lib/domain';
 import type { SalesforceAdapterContext } from '../../types';
@@ -164,6 +166,42 @@ export class SalesforceMonitoringRepository implements IMonitoringRepository {
     };
   }
 
+  async createEventLog(input: CreateEventLogInput): Promise<MutationResult<EventLog>> {
+    try {
+      const sfData: Record<string, unknown> = {
+        [`${this.ns}__Type__c`]: input.type,
+        [`${this.ns}__Message__c`]: input.message,
+        [`${this.ns}__Severity__c`]: input.severity,
+        [`${this.ns}__Source__c`]: input.source,
+      };
+      if (input.userId) {
+        sfData[`${this.ns}__User__c`] = input.userId;
+      }
+      const result = await this.client.create('EventLog__c', sfData);
+
+      if (!result.success) {
+        return { success: false, error: result.errors?.map(e => e.message).join('; ') || 'Failed to write event log' };
+      }
+
+      return {
+        success: true,
+        data: {
+          id: result.id,
+          type: input.type,
+          message: input.message,
+          severity: input.severity,
+          timestamp: new Date().toISOString(),
+          source: input.source,
+          userId: input.userId,
+          userName: input.userName,
+          metadata: input.metadata,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to write event log' };
+    }
+  }
+
   async getErrorLogs(params?: MonitoringQueryParams): Promise<PaginatedResult<ErrorLog>> {
     const page = params?.page ?? 1;
     const pageSize = params?.pageSize ?? 25;
@@ -0,0 +1,42 @@
+/**
+ * Salesforce Notification Repository Implementation
+ *
+ * Emails go through the `emailSimple` standard action. With
+ * `SALESFORCE_ALERT_SENDER_ADDRESS` set to a verified org-wide email
+ * address they come from that address; otherwise they come from the user
+ * the repositories act as, which for scheduled jobs is the integration
+ * user.
+ */
+
+import { env } from '$env/dynamic/private';
+import type { INotificationRepository } from '$lib/repositories';
+import type { MutationResult } from '$lib/domain';
+import type { SalesforceAdapterContext } from '../../types';
+import { SalesforceClient } from '../client';
+
+export class SalesforceNotificationRepository implements INotificationRepository {
+  private client: SalesforceClient;
+
+  constructor(ctx: SalesforceAdapterContext) {
+    this.client = new SalesforceClient(ctx);
+  }
+
+  async sendEmail(recipients: string[], subject: string, body: string): Promise<MutationResult<void>> {
+    const senderAddress = env.SALESFORCE_ALERT_SENDER_ADDRESS;
+    const sender = senderAddress
+      ? { senderType: 'OrgWideEmailAddress', senderAddress }
+      : { senderType: 'CurrentUser' };
+
+    try {
+      const [result] = await this.client.invokeAction('emailSimple', [
+        { emailAddressesArray: recipients, emailSubject: subject, emailBody: body, ...sender },
+      ]);
+      if (!result?.isSuccess) {
+        return { success: false, error: result?.errors?.map(e => e.message).join('; ') || 'Failed to send email' };
+      }
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to send email' };
+    }
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Salesforce Presence Repository Implementation
+ *
+ * States, schedules and state history are kept in `PresenceState__c`,
+ * `PresenceSchedule__c` and `PresenceChange__c`. Schedule entries are
+ * stored as JSON in a long text field.
+ */
+
+import type { IPresenceRepository } from '$lib/repositories';
+import type {
+  PresenceState,
+  CreatePresenceStateInput,
+  UpdatePresenceStateInput,
+  PresenceSchedule,
+  CreatePresenceScheduleInput,
+  UpdatePresenceScheduleInput,
+  PresenceScheduleEntry,
+  PresenceChange,
+  PresenceChangeSource,
+  PresenceAvailability,
+  RecordPresenceChangeInput,
+  PresenceHistoryFilter,
+  MutationResult,
+  DeleteResult,
+} from '$lib/domain';
+import { PRESENCE_AVAILABILITIES } from '$lib/domain';
+import { escapeForSoql } from '$lib/server/pagination';
+import type { SalesforceAdapterContext } from '../../types';
+import { SalesforceClient } from '../client';
+
+/** Id and reason lists are kept in single text fields, separated like a multi-select picklist */
+const LIST_SEPARATOR = ';';
+
+function splitList(value: unknown): string[] {
+  return typeof value === 'string' ? value.split(LIST_SEPARATOR).map(v => v.trim()).filter(Boolean) : [];
+}
+
+function toAvailability(value: unknown): PresenceAvailability {
+  return PRESENCE_AVAILABILITIES.includes(value as PresenceAvailability) ? (value as PresenceAvailability) : 'AWAY';
+}
+
+function parseEntries(value: unknown): PresenceScheduleEntry[] {
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as PresenceScheduleEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** SOQL datetime literals take no milliseconds */
+function soqlDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+export class SalesforcePresenceRepository implements IPresenceRepository {
+  private client: SalesforceClient;
+  private ns: string;
+
+  constructor(ctx: SalesforceAdapterContext) {
+    this.client = new SalesforceClient(ctx);
+    this.ns = ctx.namespace;
+  }
+
+  // ===========================================================================
+  // States
+  // ===========================================================================
+
+  private mapState(sf: Record<string, unknown>): PresenceState {
+    const ns = this.ns;
+    const maxDuration = sf[`${ns}__MaxDurationMinutes__c`];
+    return {
+      id: sf.Id as string,
+      name: sf.Name as string,
+      availability: toAvailability(sf[`${ns}__Availability__c`]),
+      reasonCodes: splitList(sf[`${ns}__ReasonCodes__c`]),
+      maxDurationMinutes: typeof maxDuration === 'number' && maxDuration > 0 ? maxDuration : null,
+      active: sf[`${ns}__Active__c`] !== false,
+      lastModified: sf.LastModifiedDate as string,
+    };
+  }
+
+  private stateFields(data: UpdatePresenceStateInput): Record<string, unknown> {
+    const sfData: Record<string, unknown> = {};
+    if (data.name !== undefined) sfData.Name = data.name;
+    if (data.availability !== undefined) sfData[`${this.ns}__Availability__c`] = data.availability;
+    if (data.reasonCodes !== undefined) sfData[`${this.ns}__ReasonCodes__c`] = data.reasonCodes.join(LIST_SEPARATOR);
+    if (data.maxDurationMinutes !== undefined) sfData[`${this.ns}__MaxDurationMinutes__c`] = data.maxDurationMinutes;
+    if (data.active !== undefined) sfData[`${this.ns}__Active__c`] = data.active;
+    return sfData;
+  }
+
+  private async findStateById(id: string): Promise<PresenceState | null> {
+    const ns = this.ns;
+    const soql = `SELECT Id, Name, ${ns}__Availability__c, ${ns}__ReasonCodes__c, ${ns}__MaxDurationMinutes__c, ${ns}__Active__c, LastModifiedDate FROM ${ns}__PresenceState__c WHERE Id = '${id}' LIMIT 1`;
+    const result = await this.client.query<Record<string, unknown>>(soql);
+    const [record] = result.records;
+    return record ? this.mapState(record) : null;
+  }
+
+  async findStates(): Promise<PresenceState[]> {
+    const ns = this.ns;
+    const soql = `SELECT Id, Name, ${ns}__Availability__c, ${ns}__ReasonCodes__c, ${ns}__MaxDurationMinutes__c, ${ns}__Active__c, LastModifiedDate FROM ${ns}__PresenceState__c ORDER BY Name LIMIT 200`;
+    const result = await this.client.query<Record<string, unknown>>(soql);
+    return result.records.map(sf => this.mapState(sf));
+  }
+
+  async createState(data: CreatePresenceStateInput): Promise<MutationResult<PresenceState>> {
+    try {
+      const result = await this.client.create('PresenceState__c', this.stateFields({
+        reasonCodes: [],
+        maxDurationMinutes: null,
+        active: true,
+        ...data,
+      }));
+      if (!result.success) {
+        return { success: false, error: result.errors?.map(e => e.message).join('; ') || 'Failed to create presence state' };
+      }
+
+      const state = await this.findStateById(result.id);
+      return state
+        ? { success: true, data: state }
+        : { success: false, error: 'Presence state was created but could not be read back' };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to create presence state') };
+    }
+  }
+
+  async updateState(id: string, data: UpdatePresenceStateInput): Promise<MutationResult<PresenceState>> {
+    try {
+      await this.client.update('PresenceState__c', id, this.stateFields(data));
+      const state = await this.findStateById(id);
+      return state ? { success: true, data: state } : { success: false, error: 'Presence state not found' };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to update presence state') };
+    }
+  }
+
+  async deleteState(id: string): Promise<DeleteResult> {
+    try {
+      await this.client.delete('PresenceState__c', id);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to delete presence state') };
+    }
+  }
+
+  // ===========================================================================
+  // Schedules
+  // ===========================================================================
+
+  private mapSchedule(sf: Record<string, unknown>): PresenceSchedule {
+    const ns = this.ns;
+    return {
+      id: sf.Id as string,
+      name: sf.Name as string,
+      userIds: splitList(sf[`${ns}__Users__c`]),
+      groupIds: splitList(sf[`${ns}__Groups__c`]),
+      timezone: (sf[`${ns}__Timezone__c`] as string) || 'Europe/London',
+      entries: parseEntries(sf[`${ns}__Entries__c`]),
+      active: sf[`${ns}__Active__c`] !== false,
+      lastModified: sf.LastModifiedDate as string,
+    };
+  }
+
+  private scheduleFields(data: UpdatePresenceScheduleInput): Record<string, unknown> {
+    const sfData: Record<string, unknown> = {};
+    if (data.name !== undefined) sfData.Name = data.name;
+    if (data.userIds !== undefined) sfData[`${this.ns}__Users__c`] = data.userIds.join(LIST_SEPARATOR);
+    if (data.groupIds !== undefined) sfData[`${this.ns}__Groups__c`] = data.groupIds.join(LIST_SEPARATOR);
+    if (data.timezone !== undefined) sfData[`${this.ns}__Timezone__c`] = data.timezone;
+    if (data.entries !== undefined) sfData[`${this.ns}__Entries__c`] = JSON.stringify(data.entries);
+    if (data.active !== undefined) sfData[`${this.ns}__Active__c`] = data.active;
+    return sfData;
+  }
+
+  private get scheduleSelect(): string {
+    const ns = this.ns;
+    return `SELECT Id, Name, ${ns}__Users__c, ${ns}__Groups__c, ${ns}__Timezone__c, ${ns}__Entries__c, ${ns}__Active__c, LastModifiedDate FROM ${ns}__PresenceSchedule__c`;
+  }
+
+  async findSchedules(): Promise<PresenceSchedule[]> {
+    const result = await this.client.query<Record<string, unknown>>(`${this.scheduleSelect} ORDER BY Name LIMIT 200`);
+    return result.records.map(sf => this.mapSchedule(sf));
+  }
+
+  private async findScheduleById(id: string): Promise<PresenceSchedule | null> {
+    const result = await this.client.query<Record<string, unknown>>(`${this.scheduleSelect} WHERE Id = '${id}' LIMIT 1`);
+    const [record] = result.records;
+    return record ? this.mapSchedule(record) : null;
+  }
+
+  async createSchedule(data: CreatePresenceScheduleInput): Promise<MutationResult<PresenceSchedule>> {
+    try {
+      const result = await this.client.create('PresenceSchedule__c', this.scheduleFields({
+        userIds: [],
+        groupIds: [],
+        active: true,
+        ...data,
+      }));
+      if (!result.success) {
+        return { success: false, error: result.errors?.map(e => e.message).join('; ') || 'Failed to create presence schedule' };
+      }
+
+      const schedule = await this.findScheduleById(result.id);
+      return schedule
+        ? { success: true, data: schedule }
+        : { success: false, error: 'Presence schedule was created but could not be read back' };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to create presence schedule') };
+    }
+  }
+
+  async updateSchedule(id: string, data: UpdatePresenceScheduleInput): Promise<MutationResult<PresenceSchedule>> {
+    try {
+      await this.client.update('PresenceSchedule__c', id, this.scheduleFields(data));
+      const schedule = await this.findScheduleById(id);
+      return schedule ? { success: true, data: schedule } : { success: false, error: 'Presence schedule not found' };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to update presence schedule') };
+    }
+  }
+
+  async deleteSchedule(id: string): Promise<DeleteResult> {
+    try {
+      await this.client.delete('PresenceSchedule__c', id);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to delete presence schedule') };
+    }
+  }
+
+  // ===========================================================================
+  // History
+  // ===========================================================================
+
+  private mapChange(sf: Record<string, unknown>): PresenceChange {
+    const ns = this.ns;
+    const user = sf[`${ns}__User__r`] as { Name?: string } | undefined;
+    const source = sf[`${ns}__Source__c`];
+    return {
+      id: sf.Id as string,
+      userId: sf[`${ns}__User__c`] as string,
+      userName: user?.Name || '',
+      stateId: (sf[`${ns}__PresenceState__c`] as string) || null,
+      stateName: (sf[`${ns}__StateName__c`] as string) || '',
+      availability: toAvailability(sf[`${ns}__Availability__c`]),
+      reasonCode: (sf[`${ns}__ReasonCode__c`] as string) || null,
+      source: source === 'schedule' ? (source as PresenceChangeSource) : 'agent',
+      startedAt: sf[`${ns}__StartedAt__c`] as string,
+      endedAt: (sf[`${ns}__EndedAt__c`] as string) || null,
+      overrunAlertedAt: (sf[`${ns}__OverrunAlertedAt__c`] as string) || null,
+    };
+  }
+
+  private get changeSelect(): string {
+    const ns = this.ns;
+    return `SELECT Id, ${ns}__User__c, ${ns}__User__r.Name, ${ns}__PresenceState__c, ${ns}__StateName__c, ${ns}__Availability__c, ${ns}__ReasonCode__c, ${ns}__Source__c, ${ns}__StartedAt__c, ${ns}__EndedAt__c, ${ns}__OverrunAlertedAt__c FROM ${ns}__PresenceChange__c`;
+  }
+
+  async findCurrent(userId: string): Promise<PresenceChange | null> {
+    const ns = this.ns;
+    const soql = `${this.changeSelect} WHERE ${ns}__User__c = '${userId}' AND ${ns}__EndedAt__c = null ORDER BY ${ns}__StartedAt__c DESC LIMIT 1`;
+    const result = await this.client.query<Record<string, unknown>>(soql);
+    const [record] = result.records;
+    return record ? this.mapChange(record) : null;
+  }
+
+  async recordChange(data: RecordPresenceChangeInput): Promise<MutationResult<PresenceChange>> {
+    const ns = this.ns;
+    const at = data.at ?? new Date().toISOString();
+    try {
+      const current = await this.findCurrent(data.userId);
+      if (current) {
+        await this.client.update('PresenceChange__c', current.id, { [`${ns}__EndedAt__c`]: at });
+      }
+
+      const result = await this.client.create('PresenceChange__c', {
+        [`${ns}__User__c`]: data.userId,
+        [`${ns}__PresenceState__c`]: data.stateId,
+        [`${ns}__StateName__c`]: data.stateName,
+        [`${ns}__Availability__c`]: data.availability,
+        [`${ns}__ReasonCode__c`]: data.reasonCode ?? null,
+        [`${ns}__Source__c`]: data.source,
+        [`${ns}__StartedAt__c`]: at,
+      });
+      if (!result.success) {
+        return { success: false, error: result.errors?.map(e => e.message).join('; ') || 'Failed to record presence change' };
+      }
+
+      return {
+        success: true,
+        data: {
+          id: result.id,
+          userId: data.userId,
+          userName: data.userName,
+          stateId: data.stateId,
+          stateName: data.stateName,
+          availability: data.availability,
+          reasonCode: data.reasonCode ?? null,
+          source: data.source,
+          startedAt: at,
+          endedAt: null,
+          overrunAlertedAt: null,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to record presence change') };
+    }
+  }
+
+  async findOpen(): Promise<PresenceChange[]> {
+    const ns = this.ns;
+    const soql = `${this.changeSelect} WHERE ${ns}__EndedAt__c = null ORDER BY ${ns}__StartedAt__c DESC`;
+    const records = await this.client.queryAll<Record<string, unknown>>(soql);
+    return records.map(sf => this.mapChange(sf));
+  }
+
+  async markOverrunAlerted(id: string, at: string): Promise<MutationResult<void>> {
+    try {
+      await this.client.update('PresenceChange__c', id, { [`${this.ns}__OverrunAlertedAt__c`]: at });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: errorMessage(error, 'Failed to mark presence overrun alerted') };
+    }
+  }
+
+  async findHistory(filter: PresenceHistoryFilter): Promise<PresenceChange[]> {
+    const ns = this.ns;
+    const where = [
+      `${ns}__StartedAt__c <= ${soqlDateTime(filter.to)}`,
+      `(${ns}__EndedAt__c = null OR ${ns}__EndedAt__c >= ${soqlDateTime(filter.from)})`,
+    ];
+    if (filter.userId) {
+      where.push(`${ns}__User__c = '${escapeForSoql(filter.userId)}'`);
+    }
+    const soql = `${this.changeSelect} WHERE ${where.join(' AND ')} ORDER BY ${ns}__StartedAt__c DESC LIMIT ${filter.limit ?? 2000}`;
+    const records = await this.client.queryAll<Record<string, unknown>>(soql);
+    return records.map(sf => this.mapChange(sf));
+  }
+}
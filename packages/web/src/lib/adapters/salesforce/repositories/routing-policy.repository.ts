@@ -11,12 +11,27 @@ import type {
   PaginatedResult,
   MutationResult,
   DeleteResult,
+  PolicyRevision,
+  PolicyRevisionSummary,
+  CreatePolicyRevisionInput,
+  PolicyTemplate,
+  CreatePolicyTemplateInput,
 } from '$lib/domain';
 import { createPaginationMeta } from '$lib/domain';
 import type { SalesforceAdapterContext } from '../../types';
-import { SalesforceClient } from '../client';
-import type { SalesforceCallFlowRecord } from '../types';
-import { mapSalesforceRoutingPolicy, mapCreateRoutingPolicyToSalesforce, mapUpdateRoutingPolicyToSalesforce, parsePolicyBody } from '../mappers/routing-policy.mapper';
+import { SalesforceClient, hasSalesforceErrorCode } from '../client';
+import type { SalesforceCallFlowRecord, SalesforceCallFlowRevisionRecord, SalesforceCallFlowTemplateRecord } from '../types';
+import {
+  mapSalesforceRoutingPolicy,
+  mapCreateRoutingPolicyToSalesforce,
+  mapUpdateRoutingPolicyToSalesforce,
+  parsePolicyBody,
+  mapSalesforcePolicyRevision,
+  mapSalesforcePolicyRevisionSummary,
+  mapCreatePolicyRevisionToSalesforce,
+  mapSalesforcePolicyTemplate,
+  mapCreatePolicyTemplateToSalesforce,
+} from '../mappers/routing-policy.mapper';
 import {
   buildRoutingPolicyListQuery,
   buildRoutingPolicyCountQuery,
@@ -25,8 +40,16 @@ import {
   buildPolicyBodyQuery,
   buildPolicyJsonQuery,
   buildPhoneNumberAssignmentsQuery,
+  buildPolicyRevisionsQuery,
+  buildPolicyRevisionByIdQuery,
+  buildLatestRevisionNumberQuery,
+  buildPolicyTemplatesQuery,
+  buildPolicyTemplateByIdQuery,
 } from '../queries/routing-policy.queries';
 
+/** How many revision numbers a save tries before giving up to concurrent saves */
+const REVISION_NUMBER_ATTEMPTS = 3;
+
 export class SalesforceRoutingPolicyRepository implements IRoutingPolicyRepository {
   private client: SalesforceClient;
   private ns: string;
@@ -178,4 +201,95 @@ export class SalesforceRoutingPolicyRepository implements IRoutingPolicyReposito
 
     return result;
   }
+
+  async listRevisions(policyId: string, limit = 50): Promise<PolicyRevisionSummary[]> {
+    const soql = buildPolicyRevisionsQuery(this.ns, policyId, limit);
+    const result = await this.client.query<SalesforceCallFlowRevisionRecord>(soql);
+    return result.records.map(mapSalesforcePolicyRevisionSummary);
+  }
+
+  async getRevision(revisionId: string): Promise<PolicyRevision | null> {
+    const soql = buildPolicyRevisionByIdQuery(this.ns, revisionId);
+    const result = await this.client.query<SalesforceCallFlowRevisionRecord>(soql);
+    const [record] = result.records;
+    return record ? mapSalesforcePolicyRevision(record) : null;
+  }
+
+  async createRevision(data: CreatePolicyRevisionInput): Promise<MutationResult<PolicyRevision>> {
+    try {
+      // RevisionKey__c is unique per policy and number, so a save that reads the
+      // same latest revision as another fails to insert and takes the next number
+      for (let attempt = 0; attempt < REVISION_NUMBER_ATTEMPTS; attempt++) {
+        const latestSoql = buildLatestRevisionNumberQuery(this.ns, data.policyId);
+        const latest = await this.client.query<Record<string, unknown>>(latestSoql);
+        const revisionNumber = Number(latest.records[0]?.[`${this.ns}__Revision__c`] ?? 0) + 1;
+
+        let result;
+        try {
+          const sfData = mapCreatePolicyRevisionToSalesforce(data, revisionNumber, this.ns);
+          result = await this.client.create('CallFlowRevision__c', sfData);
+        } catch (error) {
+          if (hasSalesforceErrorCode(error, 'DUPLICATE_VALUE')) continue;
+          throw error;
+        }
+
+        if (!result.success) {
+          return { success: false, error: result.errors?.map(e => e.message).join('; ') || 'Failed to record revision' };
+        }
+
+        const revision = await this.getRevision(result.id);
+        return revision
+          ? { success: true, data: revision }
+          : { success: false, error: 'Revision was recorded but could not be read back' };
+      }
+
+      return { success: false, error: 'Another save recorded the same revision number; try again' };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to record revision' };
+    }
+  }
+
+  async listTemplates(): Promise<PolicyTemplate[] | null> {
+    const soql = buildPolicyTemplatesQuery(this.ns);
+    try {
+      const result = await this.client.query<SalesforceCallFlowTemplateRecord>(soql);
+      return result.records.map(mapSalesforcePolicyTemplate);
+    } catch (error) {
+      // Package versions before CallFlowTemplate__c
+      if (hasSalesforceErrorCode(error, 'INVALID_TYPE')) return null;
+      throw error;
+    }
+  }
+
+  async createTemplate(data: CreatePolicyTemplateInput): Promise<MutationResult<PolicyTemplate>> {
+    try {
+      const sfData = mapCreatePolicyTemplateToSalesforce(data, this.ns);
+      const result = await this.client.create('CallFlowTemplate__c', sfData);
+
+      if (!result.success) {
+        return { success: false, error: result.errors?.map(e => e.message).join('; ') || 'Failed to save template' };
+      }
+
+      const soql = buildPolicyTemplateByIdQuery(this.ns, result.id);
+      const created = await this.client.query<SalesforceCallFlowTemplateRecord>(soql);
+      const [record] = created.records;
+      return record
+        ? { success: true, data: mapSalesforcePolicyTemplate(record) }
+        : { success: false, error: 'Template was saved but could not be read back' };
+    } catch (error) {
+      if (hasSalesforceErrorCode(error, 'INVALID_TYPE')) {
+        return { success: false, error: 'Templates need a newer version of the Natterbox AVS package' };
+      }
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save template' };
+    }
+  }
+
+  async deleteTemplate(id: string): Promise<DeleteResult> {
+    try {
+      await this.client.delete('CallFlowTemplate__c', id);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete template' };
+    }
+  }
 }
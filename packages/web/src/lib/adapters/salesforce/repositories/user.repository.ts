@@ -37,6 +37,7 @@ import {
   buildUserListQuery,
   buildUserCountQuery,
   buildUserByIdQuery,
+  buildUsersByIdsQuery,
   buildUserByExtensionQuery,
   buildUserByEmailQuery,
   buildGroupMembershipsQuery,
@@ -103,6 +104,13 @@ export class SalesforceUserRepository implements IUserRepository {
     return mapSalesforceUser(result.records[0], groups);
   }
 
+  async findByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    const records = await this.client.queryAll<SalesforceUserRecord>(buildUsersByIdsQuery(this.ns, ids));
+    const groupMemberships = await this.getGroupMembershipsForUsers(records.map(u => u.Id));
+    return records.map(sf => mapSalesforceUser(sf, groupMemberships.get(sf.Id) || []));
+  }
+
   async findByExtension(extension: string): Promise<User | null> {
     const soql = buildUserByExtensionQuery(this.ns, extension);
     const result = await this.client.query<SalesforceUserRecord>(soql);
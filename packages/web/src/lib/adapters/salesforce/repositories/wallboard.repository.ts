@@ -10,8 +10,28 @@ import type {
   PaginatedResult,
   MutationResult,
   DeleteResult,
+  WallboardAgent,
+  WallboardAgentStatus,
+  WallboardCall,
+  WallboardCallTotals,
+  WallboardStatsFilter,
+  WallboardTrendBucket,
 } from '$lib/domain';
-import { createPaginationMeta } from '$lib/domain';
+import {
+  createPaginationMeta,
+  WALLBOARD_SERVICE_LEVEL_SECONDS,
+  WALLBOARD_UNREADABLE_CONFIGURATION_ERROR,
+} from '$lib/domain';
+import {
+  countWallboardTrendCalls,
+  isReadableWallboardConfiguration,
+  parseReplacedWallboardConfiguration,
+  parseWallboardLayout,
+  parseWallboardShares,
+  serializeWallboardConfiguration,
+  wallboardWindowStart,
+} from '$lib/wallboard';
+import { escapeForSoql } from '$lib/server/pagination';
 import type { SalesforceAdapterContext } from '../../types';
 import { SalesforceClient } from '../client';
 
@@ -25,6 +45,26 @@ interface SalesforceWallboardRecord {
   LastModifiedDate: string;
 }
 
+interface SalesforceAgentRecord {
+  Id: string;
+  nbavs__Id__c?: number;
+  nbavs__Status__c?: string;
+}
+
+interface SalesforceGroupMemberRecord {
+  nbavs__User__c: string;
+  nbavs__Group__c: string;
+}
+
+interface SalesforceCallTotals {
+  cnt: number;
+  avgTalk: number | null;
+}
+
+interface SalesforceCallCount {
+  cnt: number;
+}
+
 export class SalesforceWallboardRepository implements IWallboardRepository {
   private client: SalesforceClient;
   private ns: string;
@@ -41,7 +81,9 @@ export class SalesforceWallboardRepository implements IWallboardRepository {
       description: sf.nbavs__Description__c || '',
       type: (sf.nbavs__Type__c?.toLowerCase() || 'custom') as 'queue' | 'agent' | 'custom',
       enabled: sf.nbavs__Enabled__c ?? true,
-      configuration: sf.nbavs__Configuration__c,
+      layout: parseWallboardLayout(sf.nbavs__Configuration__c),
+      shares: parseWallboardShares(sf.nbavs__Configuration__c),
+      unreadableConfiguration: !isReadableWallboardConfiguration(sf.nbavs__Configuration__c),
       lastModified: sf.LastModifiedDate,
     };
   }
@@ -82,14 +124,19 @@ export class SalesforceWallboardRepository implements IWallboardRepository {
     };
   }
 
-  async findById(id: string): Promise<Wallboard | null> {
+  private async findRecord(id: string): Promise<SalesforceWallboardRecord | null> {
     const soql = `
       SELECT Id, Name, ${this.ns}__Description__c, ${this.ns}__Type__c, 
              ${this.ns}__Enabled__c, ${this.ns}__Configuration__c, LastModifiedDate
       FROM ${this.ns}__Wallboard__c WHERE Id = '${id}' LIMIT 1
     `;
     const result = await this.client.query<SalesforceWallboardRecord>(soql);
-    return result.records.length > 0 ? this.mapWallboard(result.records[0]) : null;
+    return result.records[0] ?? null;
+  }
+
+  async findById(id: string): Promise<Wallboard | null> {
+    const record = await this.findRecord(id);
+    return record ? this.mapWallboard(record) : null;
   }
 
   async create(data: CreateWallboardInput): Promise<MutationResult<Wallboard>> {
@@ -99,7 +146,7 @@ export class SalesforceWallboardRepository implements IWallboardRepository {
         [`${this.ns}__Description__c`]: data.description || '',
         [`${this.ns}__Type__c`]: data.type || 'custom',
         [`${this.ns}__Enabled__c`]: data.enabled ?? true,
-        [`${this.ns}__Configuration__c`]: data.configuration,
+        [`${this.ns}__Configuration__c`]: data.layout ? serializeWallboardConfiguration(data.layout, []) : undefined,
       };
       const result = await this.client.create('Wallboard__c', sfData);
 
@@ -121,7 +168,22 @@ export class SalesforceWallboardRepository implements IWallboardRepository {
       if (data.description !== undefined) sfData[`${this.ns}__Description__c`] = data.description;
       if (data.type !== undefined) sfData[`${this.ns}__Type__c`] = data.type;
       if (data.enabled !== undefined) sfData[`${this.ns}__Enabled__c`] = data.enabled;
-      if (data.configuration !== undefined) sfData[`${this.ns}__Configuration__c`] = data.configuration;
+      if (data.layout !== undefined || data.shares !== undefined) {
+        // The layout and kiosk links share one field; keep whichever isn't changing
+        const record = await this.findRecord(id);
+        if (!record) return { success: false, error: 'Wallboard not found' };
+        const current = this.mapWallboard(record);
+        if (current.unreadableConfiguration && !data.replaceConfiguration) {
+          return { success: false, error: WALLBOARD_UNREADABLE_CONFIGURATION_ERROR };
+        }
+        sfData[`${this.ns}__Configuration__c`] = serializeWallboardConfiguration(
+          data.layout ?? current.layout,
+          data.shares ?? current.shares,
+          current.unreadableConfiguration
+            ? (record.nbavs__Configuration__c ?? null)
+            : parseReplacedWallboardConfiguration(record.nbavs__Configuration__c)
+        );
+      }
 
       await this.client.update('Wallboard__c', id, sfData);
 
@@ -158,4 +220,114 @@ export class SalesforceWallboardRepository implements IWallboardRepository {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to toggle wallboard' };
     }
   }
+
+  /**
+   * Agent figures come from CTI users' statuses, call totals from call
+   * logs. Call logs don't record a queue, so the window totals cover all
+   * queues.
+   */
+  async getAgents(): Promise<WallboardAgent[]> {
+    const agentFilter = `${this.ns}__CTI__c = true AND ${this.ns}__Enabled__c = true`;
+    const [agents, members] = await Promise.all([
+      this.client.query<SalesforceAgentRecord>(`
+        SELECT Id, ${this.ns}__Id__c, ${this.ns}__Status__c
+        FROM ${this.ns}__User__c
+        WHERE ${agentFilter}
+        LIMIT 500
+      `),
+      this.client.query<SalesforceGroupMemberRecord>(`
+        SELECT ${this.ns}__User__c, ${this.ns}__Group__c
+        FROM ${this.ns}__GroupMember__c
+        WHERE ${this.ns}__User__c IN (SELECT Id FROM ${this.ns}__User__c WHERE ${agentFilter})
+        LIMIT 5000
+      `),
+    ]);
+
+    const groupIds = new Map<string, string[]>();
+    for (const member of members.records) {
+      groupIds.set(member.nbavs__User__c, [...(groupIds.get(member.nbavs__User__c) ?? []), member.nbavs__Group__c]);
+    }
+
+    return agents.records.map(agent => ({
+      id: agent.Id,
+      platformId: agent.nbavs__Id__c ?? null,
+      status: this.mapAgentStatus(agent.nbavs__Status__c),
+      groupIds: groupIds.get(agent.Id) ?? [],
+    }));
+  }
+
+  private mapAgentStatus(status: string | undefined): WallboardAgentStatus {
+    const value = status?.toLowerCase() || '';
+    if (value.includes('available') || value.includes('ready')) return 'available';
+    if (value.includes('busy') || value.includes('call')) return 'busy';
+    return 'offline';
+  }
+
+  async getActiveCalls(): Promise<WallboardCall[]> {
+    return [];
+  }
+
+  async getCallTotals(filter: WallboardStatsFilter): Promise<WallboardCallTotals> {
+    const since = wallboardWindowStart(filter.window).toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const inbound = `${this.ns}__DateTime__c >= ${since} AND ${this.ns}__Direction__c = 'Inbound'`;
+    try {
+      const [totals, inboundCalls, answeredInTime] = await Promise.all([
+        this.client.query<SalesforceCallTotals>(`
+          SELECT COUNT(Id) cnt, AVG(${this.ns}__TimeTalking__c) avgTalk
+          FROM ${this.ns}__CallLog__c
+          WHERE ${this.ns}__DateTime__c >= ${since}
+        `),
+        this.client.query<SalesforceCallCount>(`
+          SELECT COUNT(Id) cnt FROM ${this.ns}__CallLog__c WHERE ${inbound}
+        `),
+        this.client.query<SalesforceCallCount>(`
+          SELECT COUNT(Id) cnt FROM ${this.ns}__CallLog__c
+          WHERE ${inbound}
+            AND ${this.ns}__TimeTalking__c > 0
+            AND ${this.ns}__TimeRinging__c <= ${WALLBOARD_SERVICE_LEVEL_SECONDS}
+        `),
+      ]);
+      const inboundCount = inboundCalls.records[0]?.cnt ?? 0;
+      return {
+        totalCalls: totals.records[0]?.cnt ?? 0,
+        avgCallDuration: Math.round(totals.records[0]?.avgTalk ?? 0),
+        serviceLevel: inboundCount
+          ? Math.round(((answeredInTime.records[0]?.cnt ?? 0) / inboundCount) * 100)
+          : 100,
+      };
+    } catch {
+      // Call log totals aren't available on every org
+      return { totalCalls: 0, avgCallDuration: 0, serviceLevel: 100 };
+    }
+  }
+
+  async getTrendHistory(filter: WallboardStatsFilter, from: Date, to: Date): Promise<WallboardTrendBucket[] | null> {
+    // Call logs don't record the queue a call came through
+    if (filter.queue) return null;
+
+    const soqlDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const conditions = [
+      `${this.ns}__DateTime__c >= ${soqlDate(from)}`,
+      `${this.ns}__DateTime__c < ${soqlDate(to)}`,
+    ];
+    if (filter.groupId) {
+      conditions.push(`${this.ns}__Group__c = '${escapeForSoql(filter.groupId)}'`);
+    }
+
+    try {
+      const records = await this.client.queryAll<Record<string, unknown>>(`
+        SELECT ${this.ns}__DateTime__c, ${this.ns}__Direction__c, ${this.ns}__TimeTalking__c
+        FROM ${this.ns}__CallLog__c
+        WHERE ${conditions.join(' AND ')}
+      `);
+      return countWallboardTrendCalls(records.map(r => ({
+        startedAt: String(r[`${this.ns}__DateTime__c`] ?? ''),
+        inbound: r[`${this.ns}__Direction__c`] === 'Inbound',
+        answered: Number(r[`${this.ns}__TimeTalking__c`] ?? 0) > 0,
+      })));
+    } catch {
+      // Call logs aren't available on every org
+      return null;
+    }
+  }
 }
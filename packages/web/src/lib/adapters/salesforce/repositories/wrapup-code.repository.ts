@@ -0,0 +1,157 @@
+/**
+ * Salesforce Wrap-up Code Repository Implementation
+ */
+
+import type { IWrapupCodeRepository } from '$lib/repositories';
+import type {
+  WrapupCode,
+  CreateWrapupCodeInput,
+  UpdateWrapupCodeInput,
+  WrapupSettings,
+  MutationResult,
+  DeleteResult,
+} from '$lib/domain';
+import { DEFAULT_WRAPUP_TIMER_SECONDS, normalizeWrapupTimer } from '$lib/domain';
+import type { SalesforceAdapterContext } from '../../types';
+import { SalesforceClient, hasSalesforceErrorCode } from '../client';
+
+/** Group ids are kept in a single text field, separated like a multi-select picklist */
+const GROUP_ID_SEPARATOR = ';';
+
+const PACKAGE_TOO_OLD = 'Wrap-up codes need a newer version of the Natterbox AVS package';
+
+export class SalesforceWrapupCodeRepository implements IWrapupCodeRepository {
+  private client: SalesforceClient;
+  private ns: string;
+
+  constructor(ctx: SalesforceAdapterContext) {
+    this.client = new SalesforceClient(ctx);
+    this.ns = ctx.namespace;
+  }
+
+  private mapWrapupCode(sf: Record<string, unknown>): WrapupCode {
+    const ns = this.ns;
+    const groups = (sf[`${ns}__Groups__c`] as string) || '';
+    return {
+      id: sf.Id as string,
+      name: sf.Name as string,
+      description: (sf[`${ns}__Description__c`] as string) || '',
+      groupIds: groups.split(GROUP_ID_SEPARATOR).filter(Boolean),
+      active: sf[`${ns}__Active__c`] !== false,
+      lastModified: sf.LastModifiedDate as string,
+    };
+  }
+
+  private get selectFields(): string {
+    return `Id, Name, ${this.ns}__Description__c, ${this.ns}__Groups__c, ${this.ns}__Active__c, LastModifiedDate`;
+  }
+
+  async findAll(): Promise<WrapupCode[]> {
+    const soql = `SELECT ${this.selectFields} FROM ${this.ns}__WrapupCode__c ORDER BY Name LIMIT 1000`;
+    try {
+      const result = await this.client.query<Record<string, unknown>>(soql);
+      return result.records.map(sf => this.mapWrapupCode(sf));
+    } catch (error) {
+      // Package versions before WrapupCode__c have no codes to offer
+      if (hasSalesforceErrorCode(error, 'INVALID_TYPE')) return [];
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<WrapupCode | null> {
+    const soql = `SELECT ${this.selectFields} FROM ${this.ns}__WrapupCode__c WHERE Id = '${id}' LIMIT 1`;
+    try {
+      const result = await this.client.query<Record<string, unknown>>(soql);
+      const [record] = result.records;
+      return record ? this.mapWrapupCode(record) : null;
+    } catch (error) {
+      if (hasSalesforceErrorCode(error, 'INVALID_TYPE')) return null;
+      throw error;
+    }
+  }
+
+  async create(data: CreateWrapupCodeInput): Promise<MutationResult<WrapupCode>> {
+    try {
+      const result = await this.client.create('WrapupCode__c', {
+        Name: data.name,
+        [`${this.ns}__Description__c`]: data.description || '',
+        [`${this.ns}__Groups__c`]: (data.groupIds ?? []).join(GROUP_ID_SEPARATOR),
+        [`${this.ns}__Active__c`]: data.active ?? true,
+      });
+
+      if (!result.success) {
+        return { success: false, error: result.errors?.map(e => e.message).join('; ') || 'Failed to create wrap-up code' };
+      }
+
+      const code = await this.findById(result.id);
+      return code
+        ? { success: true, data: code }
+        : { success: false, error: 'Wrap-up code was created but could not be read back' };
+    } catch (error) {
+      if (hasSalesforceErrorCode(error, 'INVALID_TYPE')) return { success: false, error: PACKAGE_TOO_OLD };
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create wrap-up code' };
+    }
+  }
+
+  async update(id: string, data: UpdateWrapupCodeInput): Promise<MutationResult<WrapupCode>> {
+    try {
+      const sfData: Record<string, unknown> = {};
+      if (data.name !== undefined) sfData.Name = data.name;
+      if (data.description !== undefined) sfData[`${this.ns}__Description__c`] = data.description;
+      if (data.groupIds !== undefined) sfData[`${this.ns}__Groups__c`] = data.groupIds.join(GROUP_ID_SEPARATOR);
+      if (data.active !== undefined) sfData[`${this.ns}__Active__c`] = data.active;
+
+      await this.client.update('WrapupCode__c', id, sfData);
+
+      const code = await this.findById(id);
+      return code ? { success: true, data: code } : { success: false, error: 'Wrap-up code not found' };
+    } catch (error) {
+      if (hasSalesforceErrorCode(error, 'INVALID_TYPE')) return { success: false, error: PACKAGE_TOO_OLD };
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update wrap-up code' };
+    }
+  }
+
+  async delete(id: string): Promise<DeleteResult> {
+    try {
+      await this.client.delete('WrapupCode__c', id);
+      return { success: true };
+    } catch (error) {
+      if (hasSalesforceErrorCode(error, 'INVALID_TYPE')) return { success: false, error: PACKAGE_TOO_OLD };
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete wrap-up code' };
+    }
+  }
+
+  async getSettings(): Promise<WrapupSettings> {
+    const soql = `SELECT Id, ${this.ns}__WrapupTimer__c FROM ${this.ns}__Settings_v1__c LIMIT 1`;
+    try {
+      const result = await this.client.query<Record<string, unknown>>(soql);
+      const timer = result.records[0]?.[`${this.ns}__WrapupTimer__c`];
+      return {
+        timerSeconds: typeof timer === 'number' ? normalizeWrapupTimer(timer) : DEFAULT_WRAPUP_TIMER_SECONDS,
+      };
+    } catch (e) {
+      console.warn('Failed to fetch wrap-up settings:', e);
+      return { timerSeconds: DEFAULT_WRAPUP_TIMER_SECONDS };
+    }
+  }
+
+  async updateSettings(settings: WrapupSettings): Promise<MutationResult<WrapupSettings>> {
+    try {
+      const soql = `SELECT Id FROM ${this.ns}__Settings_v1__c LIMIT 1`;
+      const result = await this.client.query<{ Id: string }>(soql);
+      const [record] = result.records;
+      if (!record) {
+        return { success: false, error: 'Organization settings not found' };
+      }
+
+      const timerSeconds = normalizeWrapupTimer(settings.timerSeconds);
+      await this.client.update('Settings_v1__c', record.Id, {
+        [`${this.ns}__WrapupTimer__c`]: timerSeconds,
+      });
+      return { success: true, data: { timerSeconds } };
+    } catch (error) {
+      if (hasSalesforceErrorCode(error, 'INVALID_FIELD')) return { success: false, error: PACKAGE_TOO_OLD };
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update wrap-up settings' };
+    }
+  }
+}
@@ -204,6 +204,40 @@ export interface SalesforceCallFlowRecord {
   LastModifiedDate: string;
 }
 
+/**
+ * Salesforce CallFlowRevision__c record structure (Routing Policy revision)
+ */
+export interface SalesforceCallFlowRevisionRecord {
+  Id: string;
+  Name: string;
+  nbavs__CallFlow__c: string;
+  nbavs__Revision__c?: number;
+  nbavs__Comment__c?: string;
+  nbavs__Snapshot__c?: string;
+  CreatedById: string;
+  CreatedBy?: {
+    Id: string;
+    Name: string;
+  };
+  CreatedDate: string;
+}
+
+/**
+ * Salesforce CallFlowTemplate__c record structure (reusable sub-flow)
+ */
+export interface SalesforceCallFlowTemplateRecord {
+  Id: string;
+  Name: string;
+  nbavs__Description__c?: string;
+  nbavs__Body__c?: string;
+  CreatedById: string;
+  CreatedBy?: {
+    Id: string;
+    Name: string;
+  };
+  CreatedDate: string;
+}
+
 // =============================================================================
 // Salesforce Call Log Types
 // =============================================================================
@@ -234,6 +268,8 @@ export interface SalesforceCallLogRecord {
     Id: string;
     Name: string;
   };
+  nbavs__WrapupCode__c?: string;
+  nbavs__WrapupNotes__c?: string;
 }
 
 // =============================================================================
@@ -0,0 +1,82 @@
+/**
+ * Tests for the mock Charlie HTTP bootstrap
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createMockBrowserJwt,
+  mockCharlieResponse,
+  operationField,
+  MOCK_CHARLIE_USER_ID,
+} from '../mockHttp';
+import {
+  GetAgentStateQuery,
+  GetMediaTransportQuery,
+  ListCallLogsQuery,
+  SetAvailabilityMutation,
+  WrapupCompleteMutation,
+} from '../operations';
+import { realtimeScenarios } from '../fixtures/realtime';
+
+describe('operationField', () => {
+  it('finds the root field of queries and mutations', () => {
+    expect(operationField(GetMediaTransportQuery)).toBe('getMediaTransport');
+    expect(operationField(ListCallLogsQuery)).toBe('listCallLogs');
+    expect(operationField(SetAvailabilityMutation)).toBe('setAvailability');
+  });
+});
+
+describe('createMockBrowserJwt', () => {
+  it('mints an unexpired JWT for the agent the realtime fixtures address', () => {
+    const now = Date.parse('2026-01-12T09:00:00.000Z');
+    const jwt = createMockBrowserJwt(now);
+
+    expect(jwt.ok).toBe(true);
+    expect(jwt.expiresAt * 1000).toBeGreaterThan(now);
+    const fixtureUsers = realtimeScenarios.flatMap((scenario) =>
+      scenario.steps.flatMap((step) => ('variables' in step ? [step.variables?.userId] : []))
+    );
+    expect(fixtureUsers).toContain(jwt.userId);
+    expect(jwt.userId).toBe(MOCK_CHARLIE_USER_ID);
+  });
+});
+
+describe('mockCharlieResponse', () => {
+  const now = new Date('2026-01-12T09:00:00.000Z');
+
+  it('answers the webphone bootstrap with a managed webphone transport', () => {
+    const response = mockCharlieResponse(GetMediaTransportQuery, {}, now);
+
+    expect(response.data?.getMediaTransport).toMatchObject({
+      transport: { __typename: 'ManagedWebphoneTransport', iceServers: [] },
+      errors: [],
+    });
+  });
+
+  it('answers agent state, availability changes and wrap-up', () => {
+    expect(mockCharlieResponse(GetAgentStateQuery, { input: { userId: MOCK_CHARLIE_USER_ID } }, now).data).toMatchObject({
+      getAgentState: { state: { userId: MOCK_CHARLIE_USER_ID, availability: 'AVAILABLE' } },
+    });
+    expect(mockCharlieResponse(SetAvailabilityMutation, { input: { state: 'AWAY' } }, now).data).toMatchObject({
+      setAvailability: { accepted: true, state: { availability: 'AWAY' } },
+    });
+    expect(mockCharlieResponse(WrapupCompleteMutation, { input: { wrapupCode: 'Sale' } }, now).data).toMatchObject({
+      wrapupComplete: { accepted: true, state: { wrapupCode: 'Sale' } },
+    });
+  });
+
+  it('lists a past call for the recent calls list', () => {
+    const response = mockCharlieResponse(ListCallLogsQuery, {}, now);
+    const list = response.data?.listCallLogs as { items: { startedAt: string }[] };
+
+    expect(list.items).toHaveLength(1);
+    expect(Date.parse(list.items[0]?.startedAt ?? '')).toBeLessThan(now.getTime());
+  });
+
+  it('returns a GraphQL error for operations it does not mock', () => {
+    const response = mockCharlieResponse('query ListUsers { listUsers { items { id } } }');
+
+    expect(response.data).toBeUndefined();
+    expect(response.errors?.[0]?.message).toContain('listUsers');
+  });
+});
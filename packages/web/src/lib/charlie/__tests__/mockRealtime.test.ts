@@ -0,0 +1,129 @@
+/**
+ * Tests for the mock realtime server and its fixture scenarios
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { get } from 'svelte/store';
+import { configureRealtimeClient, realtimeHealth, shutdownRealtimeClient, subscribeStore } from '../realtime';
+import { MockRealtimeServer, parseRealtimeScenario, subscriptionField } from '../mockRealtime';
+import { OnAgentStateChangedSubscription, OnCallEventSubscription, OnCallStateChangedSubscription } from '../operations';
+import { realtimeScenarios } from '../fixtures/realtime';
+
+describe('subscriptionField', () => {
+  it('finds the root field of each Charlie subscription', () => {
+    expect(subscriptionField(OnCallEventSubscription)).toBe('onCallEvent');
+    expect(subscriptionField(OnCallStateChangedSubscription)).toBe('onCallStateChanged');
+    expect(subscriptionField(OnAgentStateChangedSubscription)).toBe('onAgentStateChanged');
+  });
+});
+
+describe('parseRealtimeScenario', () => {
+  it('orders steps by time', () => {
+    const scenario = parseRealtimeScenario({
+      name: 'x',
+      steps: [
+        { at: 20, connection: 'restore' },
+        { at: 10, subscription: 'onCallEvent', data: {} },
+      ],
+    });
+    expect(scenario.steps.map((s) => s.at)).toEqual([10, 20]);
+  });
+
+  it('rejects malformed steps', () => {
+    expect(() => parseRealtimeScenario({ steps: [] })).toThrow('needs a name');
+    expect(() => parseRealtimeScenario({ name: 'x', steps: [{ subscription: 'onCallEvent', data: {} }] })).toThrow(
+      'step 0 needs a non-negative "at"'
+    );
+    expect(() => parseRealtimeScenario({ name: 'x', steps: [{ at: 0, subscription: 'onCallEvent' }] })).toThrow(
+      'has no data'
+    );
+  });
+
+  it('loads every fixture', () => {
+    expect(realtimeScenarios.map((s) => s.name)).toEqual([
+      'inbound-answered',
+      'outbound-no-answer',
+      'dropped-during-call',
+    ]);
+  });
+});
+
+describe('MockRealtimeServer', () => {
+  let server: MockRealtimeServer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    server = new MockRealtimeServer(realtimeScenarios);
+    configureRealtimeClient({ url: 'mock:', getJwt: () => '', transport: server.transport });
+  });
+
+  afterEach(() => {
+    server.stop();
+    shutdownRealtimeClient();
+    vi.useRealTimers();
+  });
+
+  it('delivers events to subscribers whose variables match', () => {
+    const mine = subscribeStore<{ onCallEvent: { type: string } }>(OnCallEventSubscription, { userId: 1001 });
+    const theirs = subscribeStore(OnCallEventSubscription, { userId: 1002 });
+    const everyone = subscribeStore(OnCallEventSubscription);
+
+    expect(server.publish('onCallEvent', { type: 'RINGING' }, { userId: 1001 })).toBe(2);
+    expect(get(mine.store)).toEqual({ onCallEvent: { type: 'RINGING' } });
+    expect(get(theirs.store)).toBeNull();
+    expect(get(everyone.store)).not.toBeNull();
+    expect(get(realtimeHealth).status).toBe('connected');
+
+    mine.unsubscribe();
+    theirs.unsubscribe();
+    everyone.unsubscribe();
+    expect(server.subscriberCount()).toBe(0);
+  });
+
+  it('plays a call through from a fixture', async () => {
+    const seen: string[] = [];
+    const calls = subscribeStore<{ onCallEvent: { type: string } }>(OnCallEventSubscription, { userId: 1001 });
+    calls.store.subscribe((value) => value && seen.push(value.onCallEvent.type));
+    const agent = subscribeStore<{ onAgentStateChanged: { state: { availability: string } } }>(
+      OnAgentStateChangedSubscription,
+      { userId: 1001 }
+    );
+
+    const done = server.play('inbound-answered');
+    await vi.advanceTimersByTimeAsync(30_000);
+    await done;
+
+    expect(seen).toEqual(['RINGING', 'ANSWERED', 'HELD', 'UNHELD', 'HUNGUP']);
+    expect(get(agent.store)?.onAgentStateChanged.state.availability).toBe('AVAILABLE');
+    calls.unsubscribe();
+    agent.unsubscribe();
+  });
+
+  it('loses events while dropped and resyncs on restore', async () => {
+    const onResync = vi.fn();
+    const calls = subscribeStore<{ onCallEvent: { type: string } }>(
+      OnCallEventSubscription,
+      { userId: 1001 },
+      { onResync }
+    );
+
+    void server.play('dropped-during-call', { speed: 2 });
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect(server.isConnected).toBe(false);
+    expect(get(realtimeHealth)).toMatchObject({ status: 'degraded', reason: 'Reconnecting' });
+
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect(get(calls.store)?.onCallEvent.type).toBe('ANSWERED');
+    expect(onResync).toHaveBeenCalledOnce();
+    expect(onResync.mock.calls[0]?.[0]).toMatchObject({ interruptedAt: expect.any(Number) });
+    expect(get(realtimeHealth).status).toBe('connected');
+    calls.unsubscribe();
+  });
+
+  it('rejects an unknown scenario and settles when stopped', async () => {
+    await expect(server.play('nope')).rejects.toThrow('Unknown realtime scenario "nope"');
+    const playing = server.play('outbound-no-answer');
+    server.stop();
+    await expect(playing).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the AppSync realtime client's reconnect, gap and health handling
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  configureRealtimeClient,
+  realtimeEventAgeMs,
+  realtimeHealth,
+  shutdownRealtimeClient,
+  subscribeStore,
+  type RealtimeGap,
+} from '../realtime';
+
+type Listener = (event: unknown) => void;
+
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: { id?: string; type: string }[] = [];
+  private listeners = new Map<string, Listener[]>();
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: Listener): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code = 1000, reason = ''): void {
+    this.readyState = 3;
+    this.emit('close', { code, reason });
+  }
+
+  emit(type: string, event: unknown): void {
+    for (const listener of this.listeners.get(type) ?? []) listener(event);
+  }
+
+  receive(message: Record<string, unknown>): void {
+    this.emit('message', { data: JSON.stringify(message) });
+  }
+
+  /** Open, acknowledge and start every subscription sent so far. */
+  async connect(): Promise<void> {
+    this.readyState = FakeWebSocket.OPEN;
+    this.emit('open', {});
+    this.receive({ type: 'connection_ack', payload: { connectionTimeoutMs: 300_000 } });
+    await vi.advanceTimersByTimeAsync(0);
+    for (const msg of this.sent.filter((m) => m.type === 'start')) {
+      this.receive({ id: msg.id, type: 'start_ack' });
+    }
+  }
+
+  startedIds(): string[] {
+    return this.sent.filter((m) => m.type === 'start').map((m) => m.id as string);
+  }
+}
+
+function latestSocket(): FakeWebSocket {
+  const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  if (!socket) throw new Error('no socket opened');
+  return socket;
+}
+
+describe('realtime client', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    configureRealtimeClient({ url: 'wss://abc.appsync-realtime-api.eu-west-2.amazonaws.com/graphql', getJwt: () => 'jwt' });
+  });
+
+  afterEach(() => {
+    shutdownRealtimeClient();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('reports connected once AppSync acknowledges the connection', async () => {
+    const sub = subscribeStore('subscription S { s }');
+    expect(get(realtimeHealth)).toMatchObject({ status: 'degraded', reason: 'Connecting' });
+
+    await vi.advanceTimersByTimeAsync(0);
+    await latestSocket().connect();
+    expect(get(realtimeHealth)).toMatchObject({ status: 'connected', reason: null });
+    sub.unsubscribe();
+  });
+
+  it('records when events arrive', async () => {
+    const sub = subscribeStore<{ s: number }>('subscription S { s }');
+    await vi.advanceTimersByTimeAsync(0);
+    const socket = latestSocket();
+    await socket.connect();
+
+    vi.setSystemTime(10_000);
+    socket.receive({ id: socket.startedIds()[0], type: 'data', payload: { data: { s: 1 } } });
+    expect(get(sub.store)).toEqual({ s: 1 });
+    expect(get(realtimeHealth).lastEventAt).toBe(10_000);
+    expect(realtimeEventAgeMs(get(realtimeHealth), 25_000)).toBe(15_000);
+    sub.unsubscribe();
+  });
+
+  it('tells subscribers what they may have missed once they are live again', async () => {
+    const onResync = vi.fn<(gap: RealtimeGap) => void>();
+    const sub = subscribeStore('subscription S { s }', {}, { onResync });
+    await vi.advanceTimersByTimeAsync(0);
+    const first = latestSocket();
+    await first.connect();
+
+    vi.setSystemTime(20_000);
+    first.receive({ id: first.startedIds()[0], type: 'data', payload: { data: { s: 1 } } });
+    vi.setSystemTime(30_000);
+    first.close(1006, 'network');
+    expect(get(realtimeHealth)).toMatchObject({ status: 'degraded', reason: 'Reconnecting' });
+    expect(onResync).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+    await latestSocket().connect();
+    expect(latestSocket()).not.toBe(first);
+    expect(onResync).toHaveBeenCalledOnce();
+    expect(onResync.mock.calls[0]?.[0]).toMatchObject({ lastEventAt: 20_000, interruptedAt: 30_000 });
+    expect(get(realtimeHealth).status).toBe('connected');
+    sub.unsubscribe();
+  });
+
+  it('does not resync a subscription that was never live', async () => {
+    const onResync = vi.fn();
+    const sub = subscribeStore('subscription S { s }', {}, { onResync });
+    await vi.advanceTimersByTimeAsync(0);
+    latestSocket().close(1006, 'network');
+    await vi.advanceTimersByTimeAsync(500);
+    await latestSocket().connect();
+    expect(onResync).not.toHaveBeenCalled();
+    sub.unsubscribe();
+  });
+
+  it('goes offline after repeated failures but keeps retrying', async () => {
+    const sub = subscribeStore('subscription S { s }');
+    await vi.advanceTimersByTimeAsync(0);
+    for (let attempt = 0; attempt < 11; attempt++) {
+      latestSocket().close(1006, 'network');
+      await vi.advanceTimersByTimeAsync(30_000);
+    }
+    expect(get(realtimeHealth)).toMatchObject({ status: 'offline', reason: 'Disconnected' });
+    const opened = FakeWebSocket.instances.length;
+
+    latestSocket().close(1006, 'network');
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(FakeWebSocket.instances.length).toBe(opened + 1);
+
+    await latestSocket().connect();
+    expect(get(realtimeHealth)).toMatchObject({ status: 'connected', reconnectAttempts: 0 });
+    sub.unsubscribe();
+  });
+
+  it('stops reconnecting when AppSync rejects the connection', async () => {
+    const sub = subscribeStore('subscription S { s }');
+    await vi.advanceTimersByTimeAsync(0);
+    const socket = latestSocket();
+    socket.receive({ type: 'connection_error', payload: { errors: [{ message: 'Unauthorized', errorCode: 401 }] } });
+    socket.close(1000, '');
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(get(realtimeHealth)).toMatchObject({ status: 'offline', reason: 'Connection rejected' });
+    sub.unsubscribe();
+  });
+});
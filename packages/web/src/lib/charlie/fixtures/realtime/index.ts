@@ -0,0 +1,16 @@
+/**
+ * Scripted realtime scenarios for `MockRealtimeServer`. Each JSON file is
+ * one scenario; add a file here and to the list below to make it
+ * playable by name.
+ */
+
+import { parseRealtimeScenario, type RealtimeScenario } from '../../mockRealtime';
+import inboundAnswered from './inbound-answered.json';
+import outboundNoAnswer from './outbound-no-answer.json';
+import droppedDuringCall from './dropped-during-call.json';
+
+export const realtimeScenarios: readonly RealtimeScenario[] = [
+  inboundAnswered,
+  outboundNoAnswer,
+  droppedDuringCall,
+].map(parseRealtimeScenario);
@@ -44,10 +44,50 @@ export {
 } from './projections';
 
 export {
+  appSyncTransport,
   configureRealtimeClient,
   subscribeStore,
   shutdownRealtimeClient,
+  realtimeHealth,
+  realtimeEventAgeMs,
   type RealtimeClientConfig,
+  type RealtimeConnectionStatus,
+  type RealtimeHealth,
+  type RealtimeGap,
+  type SubscribeOptions,
+  type RealtimeRequest,
+  type RealtimeSubscriptionHandlers,
+  type RealtimeTransport,
+  type RealtimeTransportContext,
+  type RealtimeTransportFactory,
 } from './realtime';
 
+// Scripted scenarios for the mock server live in `./fixtures/realtime` and
+// are imported from there directly (`$lib/charlie/fixtures/realtime`), so
+// they only reach bundles that actually play them.
+export {
+  MockRealtimeServer,
+  MOCK_REALTIME_PREFIX,
+  parseRealtimeScenario,
+  subscriptionField,
+  type RealtimeScenario,
+  type RealtimeScenarioStep,
+  type RealtimeEventStep,
+  type RealtimeConnectionStep,
+  type PlayOptions,
+} from './mockRealtime';
+
+// Mock Charlie HTTP bootstrap (JWT, session, GraphQL answers) for running
+// the webphone against the mock realtime server.
+export {
+  createMockCharlieSession,
+  createMockBrowserJwt,
+  mockCharlieResponse,
+  operationField,
+  MOCK_CHARLIE_USER_ID,
+  MOCK_CHARLIE_ORGANIZATION_ID,
+  MOCK_CHARLIE_GRAPHQL_PATH,
+  type MockGraphQLResponse,
+} from './mockHttp';
+
 export * as CharlieOperations from './operations';
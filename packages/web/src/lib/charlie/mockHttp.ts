@@ -0,0 +1,164 @@
+/**
+ * Local stand-in for Charlie's HTTP side: the browser JWT from
+ * `/api/charlie/jwt`, the session `hooks.server.ts` would get from the
+ * token exchange, and answers to the GraphQL queries and mutations the
+ * webphone makes while it boots.
+ *
+ * Together with `MockRealtimeServer` this lets the webphone run with no
+ * Charlie at all. It is switched on by a `mock:` realtime URL on the demo
+ * platform (`PLATFORM_MODE=demo CHARLIE_APPSYNC_WSS=mock:`), where the
+ * server signs in a fixed demo agent whose Charlie user id matches the
+ * realtime fixtures, and serves the GraphQL answers from
+ * `/api/charlie/mock/graphql`.
+ */
+
+import type { BrowserJwtResponse, CharlieSession } from './types';
+
+/** Charlie identity of the demo agent; the realtime fixtures address this user. */
+export const MOCK_CHARLIE_USER_ID = 1001;
+export const MOCK_CHARLIE_ORGANIZATION_ID = 42;
+
+/** Path of the mock GraphQL endpoint, used as the AppSync HTTP URL in mock mode. */
+export const MOCK_CHARLIE_GRAPHQL_PATH = '/api/charlie/mock/graphql';
+
+const MOCK_SESSION_SECONDS = 60 * 60;
+
+export function createMockCharlieSession(nowMs: number = Date.now()): CharlieSession {
+  return {
+    jwt: 'mock.charlie.jwt',
+    expiresAt: Math.floor(nowMs / 1000) + MOCK_SESSION_SECONDS,
+    scopes: ['call', 'agent', 'media'],
+    organizationId: MOCK_CHARLIE_ORGANIZATION_ID,
+    userId: MOCK_CHARLIE_USER_ID,
+  };
+}
+
+export function createMockBrowserJwt(nowMs: number = Date.now()): BrowserJwtResponse {
+  return { ok: true, ...createMockCharlieSession(nowMs) };
+}
+
+export interface MockGraphQLResponse {
+  data?: Record<string, unknown>;
+  errors?: { message: string }[];
+}
+
+/**
+ * Root field a query or mutation document selects, e.g. `getMediaTransport`
+ * for `query GetMediaTransport { getMediaTransport { … } }`.
+ */
+export function operationField(query: string): string | null {
+  const match = /\b(?:query|mutation)\b[^{]*\{\s*(\w+)/.exec(query);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Answer one GraphQL request the way Charlie would for the demo agent.
+ * Anything the webphone doesn't ask for while booting gets a GraphQL
+ * error, so a new call site shows up as a failure rather than an
+ * empty result.
+ */
+export function mockCharlieResponse(
+  query: string,
+  variables: Record<string, unknown> = {},
+  now: Date = new Date()
+): MockGraphQLResponse {
+  const field = operationField(query);
+  const correlationId = `mock-${field ?? 'unknown'}`;
+  const state = {
+    organizationId: MOCK_CHARLIE_ORGANIZATION_ID,
+    userId: MOCK_CHARLIE_USER_ID,
+    availability: 'AVAILABLE',
+    availabilityProfile: 'Default',
+    since: now.toISOString(),
+    wrapupCode: null,
+  };
+
+  switch (field) {
+    case 'getMediaTransport':
+      return {
+        data: {
+          getMediaTransport: {
+            correlationId,
+            transport: {
+              __typename: 'ManagedWebphoneTransport',
+              sipUri: `sip:${MOCK_CHARLIE_USER_ID}@webphone.mock.invalid`,
+              sipPassword: 'mock-sip-password',
+              // Nothing answers here: the SIP UA stays unregistered, and calls
+              // are driven by the realtime scenarios.
+              wsUrl: 'wss://webphone.mock.invalid',
+              iceServers: [],
+              expiresAt: new Date(now.getTime() + MOCK_SESSION_SECONDS * 1000).toISOString(),
+            },
+            errors: [],
+          },
+        },
+      };
+    case 'getAgentState':
+      return { data: { getAgentState: { correlationId, state, errors: [] } } };
+    case 'setAvailability': {
+      const input = (variables.input ?? {}) as { state?: string };
+      return {
+        data: {
+          setAvailability: {
+            correlationId,
+            accepted: true,
+            state: { ...state, availability: input.state ?? state.availability },
+            errors: [],
+          },
+        },
+      };
+    }
+    case 'wrapupComplete': {
+      const input = (variables.input ?? {}) as { wrapupCode?: string };
+      return {
+        data: {
+          wrapupComplete: {
+            correlationId,
+            accepted: true,
+            state: { ...state, wrapupCode: input.wrapupCode ?? null },
+            errors: [],
+          },
+        },
+      };
+    }
+    case 'listCallLogs':
+      return {
+        data: {
+          listCallLogs: {
+            correlationId,
+            items: [mockCallLog(now)],
+            continuationToken: null,
+            hasMore: false,
+          },
+        },
+      };
+    default:
+      return { errors: [{ message: `The Charlie mock doesn't answer ${field ?? 'this operation'}` }] };
+  }
+}
+
+/** One answered inbound call from an hour ago, for the recent calls list. */
+function mockCallLog(now: Date): Record<string, unknown> {
+  const startedAt = new Date(now.getTime() - 60 * 60 * 1000);
+  const at = (seconds: number) => new Date(startedAt.getTime() + seconds * 1000).toISOString();
+  return {
+    id: 'mock-call-log-1',
+    callId: 'call-in-0000',
+    direction: 'INBOUND',
+    outcome: 'ANSWERED',
+    fromNumber: '+441234567890',
+    fromUserId: null,
+    fromUserName: 'Mock Caller',
+    toNumber: '+442071234567',
+    toUserId: String(MOCK_CHARLIE_USER_ID),
+    toUserName: 'Demo Agent',
+    startedAt: at(0),
+    answeredAt: at(8),
+    endedAt: at(128),
+    durationSeconds: 120,
+    ringingTimeSeconds: 8,
+    huntingTimeSeconds: 0,
+    hasRecording: false,
+    recordingId: null,
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * Local stand-in for Charlie's realtime endpoint.
+ *
+ * `MockRealtimeServer` is a `RealtimeTransport` that never opens a
+ * socket: subscriptions register with the server, and events are pushed
+ * to them by `publish()` or by playing a scripted scenario. Scenarios are
+ * plain JSON (see `./fixtures/realtime/`) so Vitest suites, Playwright
+ * runs and local development all replay the same call flows:
+ *
+ *   {
+ *     "name": "inbound-answered",
+ *     "steps": [
+ *       { "at": 0, "subscription": "onAgentStateChanged", "variables": { "userId": 1001 }, "data": { ... } },
+ *       { "at": 1500, "connection": "drop" },
+ *       { "at": 4000, "connection": "restore" }
+ *     ]
+ *   }
+ *
+ * `at` is milliseconds from the start of the scenario. `subscription` is
+ * the root field of the GraphQL subscription (`onCallEvent`,
+ * `onCallStateChanged`, `onAgentStateChanged`) and `data` is that field's
+ * value, delivered as `{ [subscription]: data }` exactly as AppSync would.
+ * An event reaches a subscriber unless one of its `variables` contradicts
+ * a variable the subscriber asked for, so `{ userId: 1001 }` goes to
+ * `onCallEvent(userId: 1001)` and to unfiltered subscribers but not to
+ * `onCallEvent(userId: 1002)`.
+ *
+ * `drop` / `restore` steps behave like a lost socket: events published in
+ * between are lost, health goes degraded, and subscriptions that were
+ * live get their `onResync` call on restore.
+ */
+
+import type {
+  RealtimeGap,
+  RealtimeHealth,
+  RealtimeRequest,
+  RealtimeSubscriptionHandlers,
+  RealtimeTransport,
+  RealtimeTransportFactory,
+} from './realtime';
+
+/**
+ * Realtime URLs starting with this select the mock server in place of
+ * AppSync; the rest of the URL names the scenario to play, if any
+ * (`CHARLIE_APPSYNC_WSS=mock:inbound-answered`).
+ */
+export const MOCK_REALTIME_PREFIX = 'mock:';
+
+export interface RealtimeEventStep {
+  at: number;
+  subscription: string;
+  variables?: Record<string, unknown>;
+  data: unknown;
+}
+
+export interface RealtimeConnectionStep {
+  at: number;
+  connection: 'drop' | 'restore';
+}
+
+export type RealtimeScenarioStep = RealtimeEventStep | RealtimeConnectionStep;
+
+export interface RealtimeScenario {
+  name: string;
+  description?: string;
+  steps: RealtimeScenarioStep[];
+}
+
+export interface PlayOptions {
+  /** Playback rate; 2 plays a scenario in half its scripted time. Defaults to 1. */
+  speed?: number;
+}
+
+type HealthReporter = (patch: Partial<RealtimeHealth>) => void;
+
+interface MockSubscription {
+  field: string | null;
+  variables: Record<string, unknown>;
+  handlers: RealtimeSubscriptionHandlers<unknown>;
+  reportHealth: HealthReporter;
+  /** Set when the server drops while this subscription is live. */
+  interruptedAt: number | null;
+  lastEventAt: number | null;
+}
+
+/**
+ * Root field a subscription document selects, e.g. `onCallEvent` for
+ * `subscription OnCallEvent($userId: Int) { onCallEvent(userId: $userId) { … } }`.
+ * Fragment definitions ahead of the operation are skipped.
+ */
+export function subscriptionField(query: string): string | null {
+  const match = /subscription\b[^{]*\{\s*(\w+)/.exec(query);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Check a parsed fixture file and return it as a scenario. Steps are
+ * sorted by `at`; a malformed step throws with its index so a broken
+ * fixture fails loudly rather than replaying half a call.
+ */
+export function parseRealtimeScenario(input: unknown): RealtimeScenario {
+  if (!isRecord(input) || typeof input.name !== 'string' || !input.name) {
+    throw new Error('Realtime scenario needs a name');
+  }
+  if (!Array.isArray(input.steps)) {
+    throw new Error(`Realtime scenario "${input.name}" needs a steps array`);
+  }
+  const steps = input.steps.map((step: unknown, index): RealtimeScenarioStep => {
+    const where = `Realtime scenario "${input.name}" step ${index}`;
+    if (!isRecord(step) || typeof step.at !== 'number' || !Number.isFinite(step.at) || step.at < 0) {
+      throw new Error(`${where} needs a non-negative "at"`);
+    }
+    if (step.connection === 'drop' || step.connection === 'restore') {
+      return { at: step.at, connection: step.connection };
+    }
+    if (typeof step.subscription !== 'string' || !step.subscription) {
+      throw new Error(`${where} needs a subscription or a connection change`);
+    }
+    if (step.variables !== undefined && !isRecord(step.variables)) {
+      throw new Error(`${where} has variables that aren't an object`);
+    }
+    if (step.data === undefined) {
+      throw new Error(`${where} has no data`);
+    }
+    return {
+      at: step.at,
+      subscription: step.subscription,
+      ...(step.variables ? { variables: step.variables } : {}),
+      data: step.data,
+    };
+  });
+  return {
+    name: input.name,
+    ...(typeof input.description === 'string' ? { description: input.description } : {}),
+    steps: steps.sort((a, b) => a.at - b.at),
+  };
+}
+
+export class MockRealtimeServer {
+  private readonly scenarios = new Map<string, RealtimeScenario>();
+  private readonly subscriptions = new Set<MockSubscription>();
+  /** `reportHealth` of each transport currently using this server. */
+  private readonly reporters = new Set<HealthReporter>();
+  /** Pending scenario steps, with the resolver of each step's promise. */
+  private readonly timers = new Map<ReturnType<typeof setTimeout>, () => void>();
+  private connected = true;
+
+  constructor(scenarios: readonly RealtimeScenario[] = []) {
+    for (const scenario of scenarios) this.scenarios.set(scenario.name, scenario);
+  }
+
+  /** Pass as `RealtimeClientConfig.transport`. */
+  readonly transport: RealtimeTransportFactory = ({ reportHealth }) => {
+    const owned = new Set<MockSubscription>();
+    this.reporters.add(reportHealth);
+    reportHealth(
+      this.connected
+        ? { status: 'connected', reason: null, lastKeepAliveAt: Date.now(), reconnectAttempts: 0 }
+        : { status: 'degraded', reason: 'Reconnecting' },
+    );
+    const transport: RealtimeTransport = {
+      subscribe: <T>(request: RealtimeRequest, handlers: RealtimeSubscriptionHandlers<T>) => {
+        const sub: MockSubscription = {
+          field: subscriptionField(request.query),
+          variables: request.variables,
+          handlers: handlers as RealtimeSubscriptionHandlers<unknown>,
+          reportHealth,
+          interruptedAt: null,
+          lastEventAt: null,
+        };
+        owned.add(sub);
+        this.subscriptions.add(sub);
+        return {
+          dispose: () => {
+            owned.delete(sub);
+            this.subscriptions.delete(sub);
+          },
+        };
+      },
+      dispose: () => {
+        for (const sub of owned) this.subscriptions.delete(sub);
+        owned.clear();
+        this.reporters.delete(reportHealth);
+      },
+    };
+    return transport;
+  };
+
+  get scenarioNames(): string[] {
+    return [...this.scenarios.keys()];
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  /** How many subscriptions are registered, optionally for one root field. */
+  subscriberCount(subscription?: string): number {
+    let count = 0;
+    for (const sub of this.subscriptions) {
+      if (subscription === undefined || sub.field === subscription) count += 1;
+    }
+    return count;
+  }
+
+  /**
+   * Deliver one event to every matching subscription. Returns how many
+   * received it — zero while the connection is dropped.
+   */
+  publish(subscription: string, data: unknown, variables: Record<string, unknown> = {}): number {
+    if (!this.connected) return 0;
+    let delivered = 0;
+    const now = Date.now();
+    for (const sub of [...this.subscriptions]) {
+      if (sub.field !== subscription || !variablesMatch(sub.variables, variables)) continue;
+      sub.lastEventAt = now;
+      sub.reportHealth({ lastEventAt: now });
+      sub.handlers.next({ [subscription]: data });
+      delivered += 1;
+    }
+    return delivered;
+  }
+
+  /** Simulate the socket dropping. */
+  drop(): void {
+    if (!this.connected) return;
+    this.connected = false;
+    const now = Date.now();
+    for (const sub of this.subscriptions) sub.interruptedAt = now;
+    for (const report of this.reporters) report({ status: 'degraded', reason: 'Reconnecting' });
+  }
+
+  /** Bring the connection back and resync everything that was live when it dropped. */
+  restore(): void {
+    if (this.connected) return;
+    this.connected = true;
+    const now = Date.now();
+    for (const report of this.reporters) {
+      report({ status: 'connected', reason: null, lastKeepAliveAt: now, reconnectAttempts: 0 });
+    }
+    for (const sub of [...this.subscriptions]) {
+      if (sub.interruptedAt === null) continue;
+      const gap: RealtimeGap = { lastEventAt: sub.lastEventAt, interruptedAt: sub.interruptedAt, resumedAt: now };
+      sub.interruptedAt = null;
+      sub.handlers.resync?.(gap);
+    }
+  }
+
+  /**
+   * Play a scenario (or a registered scenario's name) on timers. Resolves
+   * after the last step, or straight away if `stop()` cancels the rest.
+   */
+  play(scenario: RealtimeScenario | string, options: PlayOptions = {}): Promise<void> {
+    const script = typeof scenario === 'string' ? this.scenarios.get(scenario) : scenario;
+    if (!script) {
+      return Promise.reject(new Error(`Unknown realtime scenario "${String(scenario)}"`));
+    }
+    const speed = options.speed && options.speed > 0 ? options.speed : 1;
+    const pending = script.steps.map(
+      (step) =>
+        new Promise<void>((resolve) => {
+          const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            this.apply(step);
+            resolve();
+          }, step.at / speed);
+          this.timers.set(timer, resolve);
+        }),
+    );
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  /** Cancel any scenario steps that haven't fired yet. */
+  stop(): void {
+    for (const [timer, resolve] of this.timers) {
+      clearTimeout(timer);
+      resolve();
+    }
+    this.timers.clear();
+  }
+
+  private apply(step: RealtimeScenarioStep): void {
+    if ('connection' in step) {
+      if (step.connection === 'drop') this.drop();
+      else this.restore();
+      return;
+    }
+    this.publish(step.subscription, step.data, step.variables);
+  }
+}
+
+function variablesMatch(requested: Record<string, unknown>, event: Record<string, unknown>): boolean {
+  return Object.entries(requested).every(
+    ([key, value]) => value === null || value === undefined || !(key in event) || event[key] === value,
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
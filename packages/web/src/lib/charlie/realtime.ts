@@ -67,6 +67,23 @@
  *
  * Reconnect is done by recreating the singleton on close. Pending
  * subscriptions are re-registered after `connection_ack`.
+ *
+ * Gaps and health: AppSync doesn't replay events a subscriber missed, and
+ * its events carry no sequence numbers, so a dropped socket is the gap.
+ * Each subscription remembers when its last event arrived; when it is
+ * re-acknowledged on a new socket its `onResync` hook is told what it may
+ * have missed, and the subscriber refetches whatever state it keeps
+ * (agent state, call history). Connection health (connected / degraded /
+ * offline, plus the time of the last event) is published as the
+ * `realtimeHealth` store. After `RECONNECT_MAX_ATTEMPTS` the client is
+ * reported offline but keeps retrying at the maximum backoff, and retries
+ * straight away when the browser comes back online.
+ *
+ * Transports: the singleton speaks to Charlie through a `RealtimeTransport`.
+ * The AppSync client below is the default; `RealtimeClientConfig.transport`
+ * swaps in another — `MockRealtimeServer` (`./mockRealtime.ts`) plays
+ * scripted event sequences so the webphone and agent-state UI can run
+ * without a live Charlie endpoint.
  */
 
 import { writable, type Readable } from 'svelte/store';
@@ -87,12 +104,104 @@ export interface RealtimeClientConfig {
    * reason. The webphone uses this to surface a "reconnecting…" indicator.
    */
   onClose?: (event: { code: number; reason: string }) => void;
+  /**
+   * Transport to use instead of the AppSync WebSocket client. `url` and
+   * `getJwt` are still passed through, but a non-AppSync transport is
+   * free to ignore them.
+   */
+  transport?: RealtimeTransportFactory;
+}
+
+/** A subscription as handed to a transport. */
+export interface RealtimeRequest {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+export interface RealtimeSubscriptionHandlers<T> {
+  next: (data: T) => void;
+  error: (err: Error) => void;
+  /** The subscription is live again after a gap; see `SubscribeOptions.onResync`. */
+  resync?: (gap: RealtimeGap) => void;
+}
+
+/**
+ * A way of receiving Charlie subscription events. Implementations own
+ * their connection lifecycle — connect on construction, reconnect as they
+ * see fit, and report how it's going through `reportHealth`.
+ */
+export interface RealtimeTransport {
+  subscribe<T>(request: RealtimeRequest, handlers: RealtimeSubscriptionHandlers<T>): { dispose: () => void };
+  dispose(): void;
+}
+
+export interface RealtimeTransportContext {
+  config: RealtimeClientConfig;
+  reportHealth: (patch: Partial<RealtimeHealth>) => void;
+}
+
+export type RealtimeTransportFactory = (context: RealtimeTransportContext) => RealtimeTransport;
+
+export type RealtimeConnectionStatus = 'connected' | 'degraded' | 'offline';
+
+export interface RealtimeHealth {
+  /**
+   * `degraded` while reconnecting after a drop; `offline` once the
+   * reconnect attempts run out, AppSync rejects the connection, or the
+   * browser has no network.
+   */
+  status: RealtimeConnectionStatus;
+  /** When the last subscription event arrived, on any subscription. */
+  lastEventAt: number | null;
+  /** When the socket last proved it was alive (`connection_ack` or `ka`). */
+  lastKeepAliveAt: number | null;
+  /** Why the status isn't `connected`. */
+  reason: string | null;
+  reconnectAttempts: number;
+}
+
+/** What a subscription may have missed while the socket was down. */
+export interface RealtimeGap {
+  /** The subscription's last event before the drop; null if it hadn't had one. */
+  lastEventAt: number | null;
+  interruptedAt: number;
+  resumedAt: number;
+}
+
+export interface SubscribeOptions {
+  /**
+   * Called when the subscription is live again after a drop. Events in
+   * between are lost, so refetch any state built up from them.
+   */
+  onResync?: (gap: RealtimeGap) => void;
+}
+
+const INITIAL_HEALTH: RealtimeHealth = {
+  status: 'offline',
+  lastEventAt: null,
+  lastKeepAliveAt: null,
+  reason: 'Not connected',
+  reconnectAttempts: 0,
+};
+
+const health = writable<RealtimeHealth>(INITIAL_HEALTH);
+
+/** Health of the realtime connection, for a status indicator. */
+export const realtimeHealth: Readable<RealtimeHealth> = { subscribe: health.subscribe };
+
+/** Time since the last event, or null if there hasn't been one. */
+export function realtimeEventAgeMs(current: RealtimeHealth, now = Date.now()): number | null {
+  return current.lastEventAt === null ? null : Math.max(0, now - current.lastEventAt);
+}
+
+function updateHealth(patch: Partial<RealtimeHealth>): void {
+  health.update((current) => ({ ...current, ...patch }));
 }
 
 /**
  * Singleton state. Re-created on every config update.
  */
-let singleton: AppSyncWsClient | null = null;
+let singleton: RealtimeTransport | null = null;
 let singletonConfig: RealtimeClientConfig | null = null;
 let activeSubscriptions = 0;
 let idleCloseTimer: ReturnType<typeof setTimeout> | null = null;
@@ -103,7 +212,10 @@ const IDLE_CLOSE_DELAY_MS = 30_000;
 /** How long to wait for `connection_ack` before considering the connect failed. */
 const CONNECT_ACK_TIMEOUT_MS = 10_000;
 
-/** Reconnect backoff caps. */
+/**
+ * Reconnect backoff caps. After `RECONNECT_MAX_ATTEMPTS` the connection
+ * is reported offline and retried every `RECONNECT_MAX_DELAY_MS`.
+ */
 const RECONNECT_MIN_DELAY_MS = 500;
 const RECONNECT_MAX_DELAY_MS = 30_000;
 const RECONNECT_MAX_ATTEMPTS = 10;
@@ -119,14 +231,17 @@ export function configureRealtimeClient(config: RealtimeClientConfig): void {
   singletonConfig = config;
 }
 
-function getRealtimeClient(): AppSyncWsClient {
+function getRealtimeClient(): RealtimeTransport {
   if (singleton) return singleton;
   if (!singletonConfig) {
     throw new Error(
       '`lib/charlie/realtime`: configureRealtimeClient() must be called before subscribing.',
     );
   }
-  singleton = new AppSyncWsClient(singletonConfig);
+  const context: RealtimeTransportContext = { config: singletonConfig, reportHealth: updateHealth };
+  singleton = singletonConfig.transport
+    ? singletonConfig.transport(context)
+    : new AppSyncWsClient(context);
   return singleton;
 }
 
@@ -138,6 +253,7 @@ function getRealtimeClient(): AppSyncWsClient {
 export function subscribeStore<T>(
   query: string,
   variables: Record<string, unknown> = {},
+  options: SubscribeOptions = {},
 ): { store: Readable<T | null>; lastError: Readable<Error | null>; unsubscribe: () => void } {
   const store = writable<T | null>(null);
   const errorStore = writable<Error | null>(null);
@@ -157,6 +273,7 @@ export function subscribeStore<T>(
     error: (err) => {
       errorStore.set(err);
     },
+    resync: options.onResync,
   });
 
   const unsubscribe = () => {
@@ -191,35 +308,38 @@ export function shutdownRealtimeClient(): void {
     singleton = null;
   }
   activeSubscriptions = 0;
+  health.set(INITIAL_HEALTH);
 }
 
 // ---------------------------------------------------------------------------
-// AppSyncWsClient — internal
+// AppSyncWsClient — the default transport; internal
 // ---------------------------------------------------------------------------
 
-interface AppSyncSubscriptionHandlers<T> {
-  next: (data: T) => void;
-  error: (err: Error) => void;
-}
+/**
+ * The AppSync WebSocket transport on its own, for connections held apart
+ * from the browser singleton — e.g. the server's per-org wallboard
+ * listener. Needs a global `WebSocket` (browsers, Node 22+).
+ */
+export const appSyncTransport: RealtimeTransportFactory = (context) => new AppSyncWsClient(context);
 
 interface AppSyncSubscriptionEntry {
   id: string;
   query: string;
   variables: Record<string, unknown>;
   /** Generic-erased handlers; we cast at delivery time. */
-  handlers: AppSyncSubscriptionHandlers<unknown>;
+  handlers: RealtimeSubscriptionHandlers<unknown>;
   /** Set true once we've seen `start_ack` for this id on the current socket. */
   started: boolean;
   /** Set true once `dispose()` is called; we don't deliver further events. */
   disposed: boolean;
+  lastEventAt: number | null;
+  /** Set when the socket drops under a started subscription; cleared on resync. */
+  interruptedAt: number | null;
 }
 
-interface AppSyncSubscriptionHandle {
-  dispose: () => void;
-}
-
-class AppSyncWsClient {
+class AppSyncWsClient implements RealtimeTransport {
   private readonly config: RealtimeClientConfig;
+  private readonly reportHealth: (patch: Partial<RealtimeHealth>) => void;
   private socket: WebSocket | null = null;
   private connecting = false;
   private connectAckTimer: ReturnType<typeof setTimeout> | null = null;
@@ -243,23 +363,45 @@ class AppSyncWsClient {
   /** Subscriptions registered by the caller. Survives reconnects. */
   private readonly subscriptions = new Map<string, AppSyncSubscriptionEntry>();
 
-  constructor(config: RealtimeClientConfig) {
+  private readonly onBrowserOnline = (): void => {
+    if (this.socket || this.connecting || this.connectionRejected) return;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    void this.connect();
+  };
+
+  private readonly onBrowserOffline = (): void => {
+    this.reportHealth({ status: 'offline', reason: 'No network connection' });
+  };
+
+  constructor({ config, reportHealth }: RealtimeTransportContext) {
     this.config = config;
+    this.reportHealth = reportHealth;
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.onBrowserOnline);
+      window.addEventListener('offline', this.onBrowserOffline);
+    }
+    this.reportHealth({ status: 'degraded', reason: 'Connecting', reconnectAttempts: 0 });
     void this.connect();
   }
 
   subscribe<T>(
-    request: { query: string; variables: Record<string, unknown> },
-    handlers: AppSyncSubscriptionHandlers<T>,
-  ): AppSyncSubscriptionHandle {
+    request: RealtimeRequest,
+    handlers: RealtimeSubscriptionHandlers<T>,
+  ): { dispose: () => void } {
     const id = uuid();
     const entry: AppSyncSubscriptionEntry = {
       id,
       query: request.query,
       variables: request.variables,
-      handlers: handlers as AppSyncSubscriptionHandlers<unknown>,
+      handlers: handlers as RealtimeSubscriptionHandlers<unknown>,
       started: false,
       disposed: false,
+      lastEventAt: null,
+      interruptedAt: null,
     };
     this.subscriptions.set(id, entry);
     // If the socket is already open and ack'd, fire start immediately.
@@ -284,6 +426,10 @@ class AppSyncWsClient {
   dispose(): void {
     if (this.disposed) return;
     this.disposed = true;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onBrowserOnline);
+      window.removeEventListener('offline', this.onBrowserOffline);
+    }
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
       this.reconnectTimer = null;
@@ -407,6 +553,7 @@ class AppSyncWsClient {
         this.lastKaAt = Date.now();
         this.armKaWatchdog();
         this.reconnectAttempts = 0;
+        this.reportHealth({ status: 'connected', lastKeepAliveAt: this.lastKaAt, reason: null, reconnectAttempts: 0 });
         // Fire start for every registered subscription.
         for (const entry of this.subscriptions.values()) {
           if (entry.disposed) continue;
@@ -418,11 +565,26 @@ class AppSyncWsClient {
       case 'ka': {
         this.lastKaAt = Date.now();
         this.armKaWatchdog();
+        this.reportHealth({ lastKeepAliveAt: this.lastKaAt });
         return;
       }
       case 'start_ack': {
         const entry = msg.id ? this.subscriptions.get(msg.id) : undefined;
-        if (entry) entry.started = true;
+        if (!entry) return;
+        entry.started = true;
+        if (entry.interruptedAt !== null) {
+          const gap: RealtimeGap = {
+            lastEventAt: entry.lastEventAt,
+            interruptedAt: entry.interruptedAt,
+            resumedAt: Date.now(),
+          };
+          entry.interruptedAt = null;
+          try {
+            entry.handlers.resync?.(gap);
+          } catch (err) {
+            console.error('[realtime] resync handler threw', err);
+          }
+        }
         return;
       }
       case 'data': {
@@ -434,6 +596,8 @@ class AppSyncWsClient {
           return;
         }
         if (payload?.data !== undefined) {
+          entry.lastEventAt = Date.now();
+          this.reportHealth({ lastEventAt: entry.lastEventAt });
           entry.handlers.next(payload.data);
         }
         return;
@@ -509,8 +673,11 @@ class AppSyncWsClient {
     this.config.onClose?.({ code, reason });
     if (this.disposed) return;
     // All registered subscriptions are now un-acked; mark them so we
-    // re-fire `start` after the next connection_ack.
+    // re-fire `start` after the next connection_ack. Those that were live
+    // will miss events until then.
+    const now = Date.now();
     for (const entry of this.subscriptions.values()) {
+      if (entry.started) entry.interruptedAt ??= now;
       entry.started = false;
     }
     this.scheduleReconnect(`socket closed: ${code} ${reason}`);
@@ -525,17 +692,25 @@ class AppSyncWsClient {
         'with a fresh JWT.',
         { reason },
       );
+      this.reportHealth({ status: 'offline', reason: 'Connection rejected' });
       return;
     }
-    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
-      console.warn('[realtime] giving up after', this.reconnectAttempts, 'reconnect attempts:', reason);
-      return;
+    if (this.reconnectAttempts === RECONNECT_MAX_ATTEMPTS) {
+      console.warn('[realtime] still down after', this.reconnectAttempts, 'reconnect attempts:', reason);
     }
+    const offline =
+      this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS ||
+      (typeof navigator !== 'undefined' && navigator.onLine === false);
     const delay = Math.min(
       RECONNECT_MAX_DELAY_MS,
       RECONNECT_MIN_DELAY_MS * Math.pow(2, this.reconnectAttempts),
     );
     this.reconnectAttempts += 1;
+    this.reportHealth({
+      status: offline ? 'offline' : 'degraded',
+      reason: offline ? 'Disconnected' : 'Reconnecting',
+      reconnectAttempts: this.reconnectAttempts,
+    });
     if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
@@ -16,7 +16,7 @@
  *
  * Domains supported by the env-var allowlist:
  *
- *   `CHARLIE_DATA_SOURCE=users,groups,devices,phone-numbers,routing-policies,call-logs`
+ *   `CHARLIE_DATA_SOURCE=users,groups,devices,phone-numbers,routing-policies,call-logs,wallboards`
  *   `CHARLIE_DATA_SOURCE=*`     # opt-in everything Charlie supports
  *   (unset / empty)             # always fall through to SF
  *
@@ -31,6 +31,7 @@
 
 import { env } from '$env/dynamic/private';
 import { createServerCharlieClient, type ServerCharlieClient } from './client';
+import { MOCK_REALTIME_PREFIX } from './mockRealtime';
 
 export type CharlieDomain =
   | 'users'
@@ -38,7 +39,8 @@ export type CharlieDomain =
   | 'devices'
   | 'phone-numbers'
   | 'routing-policies'
-  | 'call-logs';
+  | 'call-logs'
+  | 'wallboards';
 
 /**
  * Returns a Charlie GraphQL client for `locals.charlieSession` when the
@@ -65,6 +67,8 @@ export function tryGetCharlieClient(
 ): ServerCharlieClient | null {
   const session = locals.charlieSession;
   if (!session) return null;
+  // The mock session is only good for the browser-side mocks
+  if (isCharlieMockMode(locals)) return null;
 
   // Defence-in-depth: hooks.server.ts already discards expired sessions
   // when the token exchange ran, but check again here so a long-lived
@@ -97,3 +101,12 @@ export function isDomainEnabled(domain: CharlieDomain): boolean {
     .filter((t) => t.length > 0);
   return tokens.includes(domain);
 }
+
+/**
+ * Whether Charlie is mocked for this request: a `mock:` realtime URL on
+ * the demo platform (see `./mockHttp.ts`). Never on a real CRM platform,
+ * so a stray env var can't hand real users a fake session.
+ */
+export function isCharlieMockMode(locals: App.Locals): boolean {
+  return locals.platform === 'demo' && !!env.CHARLIE_APPSYNC_WSS?.startsWith(MOCK_REALTIME_PREFIX);
+}
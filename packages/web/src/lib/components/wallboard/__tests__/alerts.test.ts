@@ -0,0 +1,106 @@
+/**
+ * Tests for wallboard alert rules: thresholds, per-queue rules, the stored
+ * schema and which breaches sound
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { WallboardLayout, WallboardStats } from '$lib/domain';
+import {
+  addWallboardWidget,
+  createWallboardAlertRule,
+  createWallboardLayout,
+  createWallboardWidget,
+  emptyWallboardStats,
+  evaluateWallboardRules,
+  parseWallboardLayout,
+  serializeWallboardLayout,
+  wallboardStatsFilterKey,
+} from '$lib/wallboard';
+import { newWallboardAlertLevel, soundingWallboardBreaches } from '../alerts';
+
+function stats(changes: Partial<WallboardStats>): WallboardStats {
+  return { ...emptyWallboardStats(), ...changes };
+}
+
+const longestWait = { ...createWallboardAlertRule('r1', 'longestWait'), amber: 60, red: 120 };
+const serviceLevel = { ...createWallboardAlertRule('r2', 'serviceLevel'), red: 80, flash: true };
+
+describe('wallboard alert rules', () => {
+  it('goes amber then red as a figure passes its thresholds', () => {
+    const levels = [30, 61, 121].map(wait =>
+      evaluateWallboardRules([longestWait], stats({ longestWait: wait })).map(b => b.level)
+    );
+    expect(levels).toEqual([[], ['amber'], ['red']]);
+  });
+
+  it('breaches below-threshold rules when the figure drops under them', () => {
+    expect(serviceLevel.comparison).toBe('below');
+    expect(evaluateWallboardRules([serviceLevel], stats({ serviceLevel: 80 }))).toEqual([]);
+    expect(evaluateWallboardRules([serviceLevel], stats({ serviceLevel: 72 }))).toEqual([
+      { rule: serviceLevel, level: 'red', value: 72, queue: null },
+    ]);
+  });
+
+  it('checks queue rules against each queue, or just their own', () => {
+    const everyQueue = { ...createWallboardAlertRule('r3', 'queueCalls'), amber: 4 };
+    const support = { ...everyQueue, id: 'r4', queue: 'Support', comparison: 'below' as const, amber: 1 };
+    const current = stats({
+      callsByQueue: [
+        { name: 'Sales', count: 6 },
+        { name: 'Billing', count: 2 },
+      ],
+    });
+
+    expect(evaluateWallboardRules([everyQueue, support], current).map(b => [b.rule.id, b.queue, b.value])).toEqual([
+      ['r3', 'Sales', 6],
+      ['r4', 'Support', 0],
+    ]);
+  });
+
+  it('round-trips rules through the stored layout and drops unusable ones', () => {
+    const layout: WallboardLayout = {
+      ...createWallboardLayout(),
+      alerts: { rules: [longestWait, serviceLevel], webhookUrl: 'https://hooks.example.com/a', emails: ['a@example.com'] },
+    };
+    expect(parseWallboardLayout(serializeWallboardLayout(layout))).toEqual(layout);
+
+    const repaired = parseWallboardLayout(
+      JSON.stringify({
+        version: 1,
+        widgets: [],
+        alerts: {
+          rules: [
+            { id: 'a', field: 'longestWait', red: '90', amber: 30, queue: 'Sales', notifyAfterSeconds: -5 },
+            { id: 'b', field: 'mood' },
+          ],
+          emails: ['  b@example.com ', 3],
+        },
+      })
+    );
+    expect(repaired.alerts).toEqual({
+      rules: [{ ...createWallboardAlertRule('a', 'longestWait'), amber: 30, notifyAfterSeconds: 0 }],
+      webhookUrl: null,
+      emails: ['b@example.com'],
+    });
+  });
+});
+
+describe('wallboard alert sounds', () => {
+  const layout: WallboardLayout = {
+    ...addWallboardWidget(createWallboardLayout(), { ...createWallboardWidget('kpi', 'w1'), metric: 'longestWait' }),
+    alerts: { rules: [{ ...longestWait, sound: true }, serviceLevel], webhookUrl: null, emails: [] },
+  };
+  const key = wallboardStatsFilterKey(createWallboardWidget('kpi', 'w1').filters);
+
+  it('sounds when a sounding rule is breached or turns red, not while it stays so', () => {
+    const quiet = soundingWallboardBreaches(layout, { [key]: stats({ longestWait: 10, serviceLevel: 50 }) });
+    const amber = soundingWallboardBreaches(layout, { [key]: stats({ longestWait: 90 }) });
+    const red = soundingWallboardBreaches(layout, { [key]: stats({ longestWait: 150 }) });
+
+    expect(quiet.size).toBe(0);
+    expect(newWallboardAlertLevel(quiet, amber)).toBe('amber');
+    expect(newWallboardAlertLevel(amber, amber)).toBeNull();
+    expect(newWallboardAlertLevel(amber, red)).toBe('red');
+    expect(newWallboardAlertLevel(red, amber)).toBeNull();
+  });
+});
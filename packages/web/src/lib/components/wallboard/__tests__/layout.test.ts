@@ -0,0 +1,172 @@
+/**
+ * Tests for wallboard layouts: placement on the grid and the stored schema,
+ * which also holds the wallboard's kiosk links
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WALLBOARD_LAYOUT_VERSION, type WallboardLayout, type WallboardShare } from '$lib/domain';
+import {
+  addWallboardWidget,
+  createWallboardLayout,
+  createWallboardWidget,
+  isReadableWallboardConfiguration,
+  nextWallboardWidgetId,
+  parseReplacedWallboardConfiguration,
+  parseWallboardLayout,
+  parseWallboardShares,
+  placeWallboardWidget,
+  pruneWallboardShares,
+  serializeWallboardConfiguration,
+  serializeWallboardLayout,
+  wallboardWidgetsOverlap,
+} from '$lib/wallboard';
+import { WALLBOARD_GRID_GAP, WALLBOARD_ROW_HEIGHT, wallboardCellAt } from '../grid';
+
+function positions(layout: WallboardLayout) {
+  return layout.widgets.map(({ id, x, y, w, h }) => ({ id, x, y, w, h }));
+}
+
+function noOverlaps(layout: WallboardLayout): boolean {
+  return layout.widgets.every((a, i) => layout.widgets.slice(i + 1).every(b => !wallboardWidgetsOverlap(a, b)));
+}
+
+describe('wallboard layout placement', () => {
+  it('adds widgets at the first free spot with their default size', () => {
+    let layout = createWallboardLayout();
+    layout = addWallboardWidget(layout, createWallboardWidget('kpi', nextWallboardWidgetId(layout)));
+    layout = addWallboardWidget(layout, createWallboardWidget('kpi', nextWallboardWidgetId(layout)));
+    layout = addWallboardWidget(layout, createWallboardWidget('ticker', nextWallboardWidgetId(layout)));
+
+    expect(positions(layout)).toEqual([
+      { id: 'w1', x: 0, y: 0, w: 3, h: 2 },
+      { id: 'w2', x: 3, y: 0, w: 3, h: 2 },
+      { id: 'w3', x: 0, y: 2, w: 12, h: 1 },
+    ]);
+  });
+
+  it('moves widgets out of the way of one that is dropped on them', () => {
+    let layout = createWallboardLayout();
+    layout = addWallboardWidget(layout, createWallboardWidget('kpi', 'w1'));
+    layout = addWallboardWidget(layout, createWallboardWidget('kpi', 'w2'));
+    layout = addWallboardWidget(layout, createWallboardWidget('agent-grid', 'w3'), { x: 2, y: 1 });
+
+    expect(positions(layout)).toEqual([
+      { id: 'w1', x: 0, y: 4, w: 3, h: 2 },
+      { id: 'w2', x: 3, y: 4, w: 3, h: 2 },
+      { id: 'w3', x: 2, y: 1, w: 4, h: 3 },
+    ]);
+    expect(noOverlaps(layout)).toBe(true);
+  });
+
+  it('keeps moved and resized widgets on the grid and no smaller than their type allows', () => {
+    let layout = addWallboardWidget(createWallboardLayout(), createWallboardWidget('queue-table', 'w1'));
+    layout = placeWallboardWidget(layout, 'w1', { x: 11, y: -3 });
+    expect(positions(layout)[0]).toMatchObject({ x: 8, y: 0 });
+
+    layout = placeWallboardWidget(layout, 'w1', { w: 1, h: 20 });
+    expect(positions(layout)[0]).toMatchObject({ w: 3, h: 20 });
+  });
+});
+
+describe('wallboard layout schema', () => {
+  it('round-trips a layout through its stored form', () => {
+    const layout = addWallboardWidget(createWallboardLayout(), {
+      ...createWallboardWidget('sla-gauge', 'w1'),
+      filters: { queue: 'Support', groupId: 'g1', window: '1h' },
+    });
+
+    expect(parseWallboardLayout(serializeWallboardLayout(layout))).toEqual(layout);
+  });
+
+  it('reads unversioned or unreadable configuration as an empty layout', () => {
+    const empty = {
+      version: WALLBOARD_LAYOUT_VERSION,
+      columns: 12,
+      widgets: [],
+      alerts: { rules: [], webhookUrl: null, emails: [] },
+    };
+    expect(parseWallboardLayout(undefined)).toEqual(empty);
+    expect(parseWallboardLayout('not json')).toEqual(empty);
+    expect(parseWallboardLayout('{"tiles":["calls"]}')).toEqual(empty);
+  });
+
+  it('tells configuration it can read from configuration it would lose', () => {
+    expect(isReadableWallboardConfiguration(undefined)).toBe(true);
+    expect(isReadableWallboardConfiguration('  ')).toBe(true);
+    expect(isReadableWallboardConfiguration(serializeWallboardLayout(createWallboardLayout()))).toBe(true);
+    expect(isReadableWallboardConfiguration('not json')).toBe(false);
+    expect(isReadableWallboardConfiguration('{"tiles":["calls"]}')).toBe(false);
+    expect(isReadableWallboardConfiguration(JSON.stringify({ version: WALLBOARD_LAYOUT_VERSION + 1 }))).toBe(false);
+  });
+
+  it('keeps the configuration a layout replaced', () => {
+    const legacy = '{"tiles":["calls"]}';
+    const stored = serializeWallboardConfiguration(createWallboardLayout(), [], legacy);
+
+    expect(isReadableWallboardConfiguration(stored)).toBe(true);
+    expect(parseReplacedWallboardConfiguration(stored)).toBe(legacy);
+    expect(parseReplacedWallboardConfiguration(legacy)).toBeNull();
+    expect(parseReplacedWallboardConfiguration(serializeWallboardLayout(createWallboardLayout()))).toBeNull();
+  });
+
+  it('repairs stored widgets rather than rejecting the layout', () => {
+    const layout = parseWallboardLayout(
+      JSON.stringify({
+        version: 1,
+        widgets: [
+          { id: 'a', type: 'kpi', x: 0, y: 0, w: 3, h: 2, metric: 'nonsense', filters: { window: 'year' } },
+          { id: 'b', type: 'kpi', x: 1, y: 1, w: 3, h: 2, metric: 'callsWaiting' },
+          { id: 'c', type: 'heatmap', x: 0, y: 0, w: 1, h: 1 },
+          { id: 'b', type: 'clock', x: 0, y: 0, w: 1, h: 1 },
+        ],
+      })
+    );
+
+    expect(layout.widgets.map(w => [w.id, w.metric])).toEqual([
+      ['a', 'activeCalls'],
+      ['b', 'callsWaiting'],
+    ]);
+    expect(layout.widgets[0]?.filters).toEqual({ queue: null, groupId: null, window: 'today' });
+    expect(noOverlaps(layout)).toBe(true);
+  });
+});
+
+describe('wallboardCellAt', () => {
+  it('finds the grid cell under the pointer', () => {
+    const rect = { left: 100, top: 50, width: 12 * 100 - WALLBOARD_GRID_GAP };
+    expect(wallboardCellAt(rect, 100, 50, 12)).toEqual({ x: 0, y: 0 });
+    expect(wallboardCellAt(rect, 455, 50 + 2 * (WALLBOARD_ROW_HEIGHT + WALLBOARD_GRID_GAP) + 5, 12)).toEqual({
+      x: 3,
+      y: 2,
+    });
+    expect(wallboardCellAt(rect, 5000, 0, 12)).toEqual({ x: 11, y: 0 });
+  });
+});
+
+describe('kiosk links', () => {
+  const share: WallboardShare = {
+    id: 's1',
+    label: 'Sales floor TV',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    expiresAt: '2024-02-01T00:00:00.000Z',
+    createdBy: 'Ada',
+    revokedAt: null,
+  };
+
+  it('are stored alongside the layout without changing it', () => {
+    const layout = addWallboardWidget(createWallboardLayout(), createWallboardWidget('kpi', 'w1'));
+    const stored = serializeWallboardConfiguration(layout, [share]);
+
+    expect(parseWallboardLayout(stored)).toEqual(layout);
+    expect(parseWallboardShares(stored)).toEqual([share]);
+    expect(parseWallboardShares(serializeWallboardLayout(layout))).toEqual([]);
+    expect(parseWallboardShares(JSON.stringify({ shares: [{ id: 'x' }, share] }))).toEqual([share]);
+  });
+
+  it('stay listed for a while after they stop working', () => {
+    const revoked = { ...share, id: 's2', revokedAt: '2024-01-10T00:00:00.000Z' };
+    expect(pruneWallboardShares([share, revoked], new Date('2024-01-20T00:00:00.000Z'))).toEqual([share, revoked]);
+    expect(pruneWallboardShares([share, revoked], new Date('2024-02-20T00:00:00.000Z'))).toEqual([share]);
+    expect(pruneWallboardShares([share, revoked], new Date('2024-03-20T00:00:00.000Z'))).toEqual([]);
+  });
+});
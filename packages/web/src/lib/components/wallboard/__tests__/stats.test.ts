@@ -0,0 +1,94 @@
+/**
+ * Tests for fetching and streaming wallboard stats per widget filter
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { WallboardLayout } from '$lib/domain';
+import {
+  addWallboardWidget,
+  createWallboardLayout,
+  createWallboardWidget,
+  emptyWallboardStats,
+} from '$lib/wallboard';
+import { layoutStatsFilters, pollWallboardStats, streamWallboardStats, wallboardStatsUrl } from '../stats';
+
+function layoutWith(...filters: { queue: string | null; groupId: string | null; window: '1h' | 'today' }[]) {
+  return filters.reduce<WallboardLayout>(
+    (layout, f, i) => addWallboardWidget(layout, { ...createWallboardWidget('kpi', `w${i + 1}`), filters: f }),
+    createWallboardLayout()
+  );
+}
+
+describe('wallboard stats', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('builds the stats request for a filter', () => {
+    expect(wallboardStatsUrl({ queue: 'Sales & Support', groupId: null, window: '1h' })).toBe(
+      '/api/wallboards/stats?window=1h&queue=Sales+%26+Support'
+    );
+  });
+
+  it('requests stats once per distinct filter', () => {
+    const layout = layoutWith(
+      { queue: 'Sales', groupId: null, window: 'today' },
+      { queue: 'Sales', groupId: null, window: 'today' },
+      { queue: null, groupId: 'g1', window: '1h' }
+    );
+    expect(layoutStatsFilters(layout)).toEqual([
+      { queue: 'Sales', groupId: null, window: 'today' },
+      { queue: null, groupId: 'g1', window: '1h' },
+    ]);
+  });
+
+  it('keeps the last stats for a filter whose refresh fails', async () => {
+    vi.useFakeTimers();
+    const layout = layoutWith({ queue: 'Sales', groupId: null, window: 'today' });
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ ...emptyWallboardStats(), activeCalls: 4 })))
+      .mockResolvedValueOnce(new Response('', { status: 500 }));
+    const onStats = vi.fn();
+    const onError = vi.fn();
+
+    const stop = pollWallboardStats(layout, onStats, { intervalMs: 1000, onError, fetchFn });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onStats).toHaveBeenLastCalledWith({ 'Sales||today': expect.objectContaining({ activeCalls: 4 }) });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onStats).toHaveBeenLastCalledWith({ 'Sales||today': expect.objectContaining({ activeCalls: 4 }) });
+
+    stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('applies streamed deltas to each filter\'s snapshot', () => {
+    const source = Object.assign(new EventTarget(), { close: vi.fn() });
+    const send = (type: string, data: unknown) =>
+      source.dispatchEvent(new MessageEvent(type, { data: JSON.stringify(data) }));
+    const createEventSource = vi.fn(() => source as unknown as EventSource);
+    const onStats = vi.fn();
+
+    const stop = streamWallboardStats([{ queue: 'Sales', groupId: null, window: 'today' }], onStats, {
+      createEventSource,
+    });
+    expect(createEventSource).toHaveBeenCalledWith(
+      '/api/wallboards/stats/stream?filters=%5B%7B%22queue%22%3A%22Sales%22%2C%22groupId%22%3Anull%2C%22window%22%3A%22today%22%7D%5D'
+    );
+
+    send('delta', { key: 'Sales||today', delta: { activeCalls: 9, timestamp: 't0' } });
+    expect(onStats).not.toHaveBeenCalled();
+
+    send('snapshot', { key: 'Sales||today', stats: { ...emptyWallboardStats(), activeCalls: 4, callsWaiting: 1 } });
+    send('delta', { key: 'Sales||today', delta: { activeCalls: 5, timestamp: 't1' } });
+    expect(onStats).toHaveBeenLastCalledWith({
+      'Sales||today': expect.objectContaining({ activeCalls: 5, callsWaiting: 1, timestamp: 't1' }),
+    });
+
+    stop();
+    expect(source.close).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for wallboard trends and the lines their widgets draw
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addWallboardWidget,
+  buildWallboardTrend,
+  countWallboardTrendCalls,
+  createWallboardLayout,
+  createWallboardWidget,
+  emptyWallboardTrendCounts,
+  wallboardLayoutTrends,
+  wallboardTrendValue,
+} from '$lib/wallboard';
+import { wallboardTrendLines, wallboardTrendUrl } from '../trends';
+
+describe('wallboard trends', () => {
+  it('builds the trend request for a filter', () => {
+    expect(wallboardTrendUrl({ queue: 'Sales', groupId: null, window: 'today' }, 'abandonRate')).toBe(
+      '/api/wallboards/trends?series=abandonRate&queue=Sales'
+    );
+  });
+
+  it('fetches each trend a layout draws once', () => {
+    const sparkline = createWallboardWidget('sparkline', 'w1');
+    const chart = { ...createWallboardWidget('line-chart', 'w2'), options: { trend: 'occupancy' as const } };
+    let layout = addWallboardWidget(createWallboardLayout(), sparkline);
+    layout = addWallboardWidget(layout, { ...sparkline, id: 'w3' });
+    layout = addWallboardWidget(layout, chart);
+    layout = addWallboardWidget(layout, createWallboardWidget('kpi', 'w4'));
+
+    expect(wallboardLayoutTrends(layout).map(t => t.series)).toEqual(['calls', 'occupancy']);
+  });
+
+  it('works out abandon rate and occupancy, or nothing when there is nothing to divide by', () => {
+    const counts = { ...emptyWallboardTrendCounts(), answered: 3, abandoned: 1, busyAgents: 2, staffedAgents: 8 };
+    expect(wallboardTrendValue('abandonRate', counts)).toBe(25);
+    expect(wallboardTrendValue('occupancy', counts)).toBe(25);
+    expect(wallboardTrendValue('abandonRate', emptyWallboardTrendCounts())).toBeNull();
+  });
+
+  it('lines today up with the same day last week', () => {
+    const now = new Date('2024-01-08T00:40:00.000Z');
+    const trend = buildWallboardTrend(
+      'calls',
+      [
+        { ...emptyWallboardTrendCounts(), start: '2024-01-01T00:15:00.000Z', calls: 7 },
+        { ...emptyWallboardTrendCounts(), start: '2024-01-08T00:00:00.000Z', calls: 4 },
+        { ...emptyWallboardTrendCounts(), start: '2024-01-08T00:30:00.000Z', calls: 2 },
+      ],
+      now
+    );
+
+    expect(trend.intervals).toHaveLength(96);
+    expect(trend.intervals[1]).toBe('2024-01-08T00:15:00.000Z');
+    expect(trend.today).toEqual([4, null, 2]);
+    expect(trend.lastWeek.slice(0, 3)).toEqual([null, 7, null]);
+  });
+
+  it('breaks a line where nothing was recorded', () => {
+    expect(wallboardTrendLines([0, 5, null, 10], 5, 10, 100, 50)).toEqual(['0,50 25,25', '75,0']);
+  });
+
+  it('counts calls, answers and abandons per interval from call logs', () => {
+    expect(
+      countWallboardTrendCalls([
+        { startedAt: '2024-01-08T09:14:59Z', inbound: true, answered: true },
+        { startedAt: '2024-01-08T09:00:00Z', inbound: true, answered: false },
+        { startedAt: '2024-01-08T09:05:00Z', inbound: false, answered: false },
+        { startedAt: '2024-01-08T08:50:00Z', inbound: true, answered: true },
+        { startedAt: '', inbound: true, answered: true },
+      ])
+    ).toEqual([
+      { start: '2024-01-08T08:45:00.000Z', ...emptyWallboardTrendCounts(), calls: 1, answered: 1 },
+      { start: '2024-01-08T09:00:00.000Z', ...emptyWallboardTrendCounts(), calls: 3, answered: 1, abandoned: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Audible wallboard alerts. A rule with `sound` set beeps once when it is
+ * breached and again, twice over, when it turns red.
+ */
+
+import type { WallboardAlertLevel, WallboardLayout } from '$lib/domain';
+import { evaluateWallboardRules, wallboardRuleFilters, wallboardStatsFilterKey } from '$lib/wallboard';
+import type { WallboardStatsByFilter } from './stats';
+
+/** Levels of the layout's breached sounding rules, keyed by rule, filter and queue */
+export function soundingWallboardBreaches(
+  layout: WallboardLayout,
+  stats: WallboardStatsByFilter
+): Map<string, WallboardAlertLevel> {
+  const breaches = new Map<string, WallboardAlertLevel>();
+  for (const rule of layout.alerts.rules.filter(r => r.sound)) {
+    for (const filter of wallboardRuleFilters(layout, rule)) {
+      const filterKey = wallboardStatsFilterKey(filter);
+      const filterStats = stats[filterKey];
+      if (!filterStats) continue;
+      for (const breach of evaluateWallboardRules([rule], filterStats)) {
+        breaches.set([rule.id, filterKey, breach.queue ?? ''].join('|'), breach.level);
+      }
+    }
+  }
+  return breaches;
+}
+
+/**
+ * The level to sound going from `previous` breaches to `current`: red if
+ * any turned red, amber if any began, or null if none did.
+ */
+export function newWallboardAlertLevel(
+  previous: Map<string, WallboardAlertLevel>,
+  current: Map<string, WallboardAlertLevel>
+): WallboardAlertLevel | null {
+  let sound: WallboardAlertLevel | null = null;
+  for (const [key, level] of current) {
+    const before = previous.get(key);
+    if (level === 'red' && before !== 'red') return 'red';
+    if (!before) sound = 'amber';
+  }
+  return sound;
+}
+
+/**
+ * Beeps for alert levels. Browsers only let a page play sound once the
+ * user has interacted with it, so create this from a click.
+ */
+export function createWallboardAlertSound(): { play: (level: WallboardAlertLevel) => void; dispose: () => void } {
+  const AudioContextClass = typeof AudioContext !== 'undefined' ? AudioContext : null;
+  const context = AudioContextClass ? new AudioContextClass() : null;
+
+  function beep(at: number, frequency: number) {
+    if (!context) return;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + 0.3);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(at);
+    oscillator.stop(at + 0.3);
+  }
+
+  return {
+    play: level => {
+      if (!context) return;
+      const now = context.currentTime;
+      if (level === 'red') {
+        beep(now, 880);
+        beep(now + 0.4, 880);
+      } else {
+        beep(now, 660);
+      }
+    },
+    dispose: () => void context?.close(),
+  };
+}
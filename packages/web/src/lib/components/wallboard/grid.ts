@@ -0,0 +1,29 @@
+/**
+ * Wallboard grid geometry shared by the canvas and the designer's widget
+ * library.
+ */
+
+/** Height of one grid row, px */
+export const WALLBOARD_ROW_HEIGHT = 80;
+
+/** Space between grid cells, px */
+export const WALLBOARD_GRID_GAP = 12;
+
+/** Drag data type carrying a widget type from the library onto the canvas */
+export const WALLBOARD_LIBRARY_DRAG_TYPE = 'application/x-wallboard-widget';
+
+/** Drag data type carrying the id of a widget being moved on the canvas */
+export const WALLBOARD_MOVE_DRAG_TYPE = 'application/x-wallboard-move';
+
+/** The grid cell under a point, given the grid's bounding box */
+export function wallboardCellAt(
+  rect: Pick<DOMRect, 'left' | 'top' | 'width'>,
+  clientX: number,
+  clientY: number,
+  columns: number
+): { x: number; y: number } {
+  const columnWidth = (rect.width + WALLBOARD_GRID_GAP) / columns;
+  const x = Math.floor((clientX - rect.left) / columnWidth);
+  const y = Math.floor((clientY - rect.top) / (WALLBOARD_ROW_HEIGHT + WALLBOARD_GRID_GAP));
+  return { x: Math.min(columns - 1, Math.max(0, x)), y: Math.max(0, y) };
+}
@@ -0,0 +1,34 @@
+/**
+ * Public barrel for `$lib/components/wallboard`
+ */
+
+export { default as WallboardCanvas } from './WallboardCanvas.svelte';
+export { default as WallboardWidget } from './WallboardWidget.svelte';
+export { default as WallboardDesigner } from './WallboardDesigner.svelte';
+export { default as WallboardAlertsEditor } from './WallboardAlertsEditor.svelte';
+export { default as WallboardSharePanel } from './WallboardSharePanel.svelte';
+export {
+  fetchWallboardStats,
+  layoutStatsFilters,
+  pollWallboardStats,
+  streamWallboardStats,
+  wallboardStatsStreamUrl,
+  wallboardStatsUrl,
+  type WallboardStatsByFilter,
+} from './stats';
+export {
+  fetchWallboardTrend,
+  pollWallboardTrends,
+  wallboardTrendLines,
+  wallboardTrendMax,
+  wallboardTrendUrl,
+  type WallboardTrendsByQuery,
+} from './trends';
+export { createWallboardAlertSound, newWallboardAlertLevel, soundingWallboardBreaches } from './alerts';
+export {
+  WALLBOARD_GRID_GAP,
+  WALLBOARD_LIBRARY_DRAG_TYPE,
+  WALLBOARD_MOVE_DRAG_TYPE,
+  WALLBOARD_ROW_HEIGHT,
+  wallboardCellAt,
+} from './grid';
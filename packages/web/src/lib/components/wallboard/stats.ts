@@ -0,0 +1,142 @@
+/**
+ * Stats for a wallboard's widgets. Widgets with the same filters share one
+ * set of stats: streamed from `/api/wallboards/stats/stream`, or fetched
+ * from `/api/wallboards/stats` on an interval where the browser can't
+ * stream.
+ */
+
+import {
+  type WallboardLayout,
+  type WallboardStats,
+  type WallboardStatsDelta,
+  type WallboardStatsFilter,
+} from '$lib/domain';
+import { applyWallboardStatsDelta, wallboardLayoutStatsFilters, wallboardStatsFilterKey } from '$lib/wallboard';
+
+/** Stats keyed by `wallboardStatsFilterKey` */
+export type WallboardStatsByFilter = Record<string, WallboardStats>;
+
+export function wallboardStatsUrl(filter: WallboardStatsFilter): string {
+  const params = new URLSearchParams({ window: filter.window });
+  if (filter.queue) params.set('queue', filter.queue);
+  if (filter.groupId) params.set('groupId', filter.groupId);
+  return `/api/wallboards/stats?${params}`;
+}
+
+/** The stream for these filters, or for a saved wallboard's own */
+export function wallboardStatsStreamUrl(filters: WallboardStatsFilter[], wallboardId?: string): string {
+  const params = new URLSearchParams(wallboardId ? { wallboard: wallboardId } : { filters: JSON.stringify(filters) });
+  return `/api/wallboards/stats/stream?${params}`;
+}
+
+export async function fetchWallboardStats(
+  filter: WallboardStatsFilter,
+  fetchFn: typeof fetch = fetch
+): Promise<WallboardStats> {
+  const response = await fetchFn(wallboardStatsUrl(filter));
+  if (!response.ok) throw new Error(`Wallboard stats failed (${response.status})`);
+  return (await response.json()) as WallboardStats;
+}
+
+/** The distinct filters a layout's widgets need stats for */
+export function layoutStatsFilters(layout: WallboardLayout): WallboardStatsFilter[] {
+  return wallboardLayoutStatsFilters(layout);
+}
+
+/**
+ * Fetch stats for every filter in the layout now and then every
+ * `intervalMs`. A filter whose request fails keeps its last stats; `onError`
+ * hears about the failure. Returns a function that stops polling.
+ */
+export function pollWallboardStats(
+  layout: WallboardLayout,
+  onStats: (stats: WallboardStatsByFilter) => void,
+  options: { intervalMs?: number; onError?: (error: unknown) => void; fetchFn?: typeof fetch } = {}
+): () => void {
+  return pollFilters(layoutStatsFilters(layout), onStats, options);
+}
+
+function pollFilters(
+  filters: WallboardStatsFilter[],
+  onStats: (stats: WallboardStatsByFilter) => void,
+  options: { intervalMs?: number; onError?: (error: unknown) => void; fetchFn?: typeof fetch }
+): () => void {
+  const { intervalMs = 5000, onError, fetchFn = fetch } = options;
+  let latest: WallboardStatsByFilter = {};
+  let stopped = false;
+
+  async function refresh(): Promise<void> {
+    const results = await Promise.allSettled(filters.map(filter => fetchWallboardStats(filter, fetchFn)));
+    if (stopped) return;
+
+    const next: WallboardStatsByFilter = { ...latest };
+    results.forEach((result, i) => {
+      const filter = filters[i];
+      if (!filter) return;
+      if (result.status === 'fulfilled') {
+        next[wallboardStatsFilterKey(filter)] = result.value;
+      } else {
+        onError?.(result.reason);
+      }
+    });
+    latest = next;
+    onStats(latest);
+  }
+
+  void refresh();
+  const timer = setInterval(() => void refresh(), intervalMs);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
+
+/**
+ * Stream stats for each filter (`layoutStatsFilters` gives a layout's):
+ * each filter's stats arrive once, then only the fields that change. The
+ * browser reconnects a dropped stream by itself and the stats start over
+ * from a fresh snapshot; `onError` hears about each drop. Falls back to
+ * polling without `EventSource`. Pass `wallboardId` when showing a saved
+ * wallboard so the server streams that wallboard's filters, or `url` to
+ * stream from another endpoint of the same shape, such as a kiosk
+ * link's (which has no polling to fall back to). Returns a function that
+ * stops the stream.
+ */
+export function streamWallboardStats(
+  filters: WallboardStatsFilter[],
+  onStats: (stats: WallboardStatsByFilter) => void,
+  options: {
+    wallboardId?: string;
+    url?: string;
+    onError?: (error: unknown) => void;
+    createEventSource?: (url: string) => EventSource;
+  } = {}
+): () => void {
+  const { wallboardId, url, onError } = options;
+  const createEventSource =
+    options.createEventSource ?? (typeof EventSource !== 'undefined' ? (url: string) => new EventSource(url) : null);
+  if (!createEventSource) return url ? () => {} : pollFilters(filters, onStats, { onError });
+  if (filters.length === 0) return () => {};
+
+  let latest: WallboardStatsByFilter = {};
+  const source = createEventSource(url ?? wallboardStatsStreamUrl(filters, wallboardId));
+
+  source.addEventListener('snapshot', event => {
+    const { key, stats } = JSON.parse((event as MessageEvent<string>).data) as { key: string; stats: WallboardStats };
+    latest = { ...latest, [key]: stats };
+    onStats(latest);
+  });
+  source.addEventListener('delta', event => {
+    const { key, delta } = JSON.parse((event as MessageEvent<string>).data) as {
+      key: string;
+      delta: WallboardStatsDelta;
+    };
+    const current = latest[key];
+    if (!current) return;
+    latest = { ...latest, [key]: applyWallboardStatsDelta(current, delta) };
+    onStats(latest);
+  });
+  source.addEventListener('error', event => onError?.(event));
+
+  return () => source.close();
+}
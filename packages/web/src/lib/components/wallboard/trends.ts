@@ -0,0 +1,126 @@
+/**
+ * Trends for a wallboard's sparkline and line-chart widgets, fetched from
+ * `/api/wallboards/trends` once a minute: the intervals they're counted in
+ * are 15 minutes long, so nothing is gained by asking more often. Trends
+ * are recorded while a wallboard streams stats for the same queue and
+ * group, which its own stream does.
+ */
+
+import {
+  type WallboardLayout,
+  type WallboardStatsFilter,
+  type WallboardTrend,
+  type WallboardTrendSeries,
+} from '$lib/domain';
+import { wallboardLayoutTrends, wallboardTrendQueryKey } from '$lib/wallboard';
+
+/** Trends keyed by `wallboardTrendQueryKey` */
+export type WallboardTrendsByQuery = Record<string, WallboardTrend>;
+
+export function wallboardTrendUrl(
+  filter: WallboardStatsFilter,
+  series: WallboardTrendSeries,
+  baseUrl = '/api/wallboards/trends'
+): string {
+  const params = new URLSearchParams({ series });
+  if (filter.queue) params.set('queue', filter.queue);
+  if (filter.groupId) params.set('groupId', filter.groupId);
+  return `${baseUrl}?${params}`;
+}
+
+export async function fetchWallboardTrend(
+  filter: WallboardStatsFilter,
+  series: WallboardTrendSeries,
+  options: { baseUrl?: string; fetchFn?: typeof fetch } = {}
+): Promise<WallboardTrend> {
+  const { baseUrl, fetchFn = fetch } = options;
+  const response = await fetchFn(wallboardTrendUrl(filter, series, baseUrl));
+  if (!response.ok) throw new Error(`Wallboard trend failed (${response.status})`);
+  return (await response.json()) as WallboardTrend;
+}
+
+/**
+ * Fetch every trend the layout's widgets draw now and then every
+ * `intervalMs`, from `baseUrl` if given (a kiosk link's). A trend whose
+ * request fails keeps its last values; `onError` hears about the failure.
+ * Returns a function that stops polling.
+ */
+export function pollWallboardTrends(
+  layout: WallboardLayout,
+  onTrends: (trends: WallboardTrendsByQuery) => void,
+  options: { baseUrl?: string; intervalMs?: number; onError?: (error: unknown) => void; fetchFn?: typeof fetch } = {}
+): () => void {
+  const { baseUrl, intervalMs = 60_000, onError, fetchFn } = options;
+  const queries = wallboardLayoutTrends(layout);
+  if (queries.length === 0) return () => {};
+
+  let latest: WallboardTrendsByQuery = {};
+  let stopped = false;
+
+  async function refresh(): Promise<void> {
+    const results = await Promise.allSettled(
+      queries.map(q => fetchWallboardTrend(q.filter, q.series, { baseUrl, fetchFn }))
+    );
+    if (stopped) return;
+
+    const next: WallboardTrendsByQuery = { ...latest };
+    results.forEach((result, i) => {
+      const query = queries[i];
+      if (!query) return;
+      if (result.status === 'fulfilled') {
+        next[wallboardTrendQueryKey(query.filter, query.series)] = result.value;
+      } else {
+        onError?.(result.reason);
+      }
+    });
+    latest = next;
+    onTrends(latest);
+  }
+
+  void refresh();
+  const timer = setInterval(() => void refresh(), intervalMs);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
+
+/** A trend's scale: the highest value either day reached, rounded up, and never 0 */
+export function wallboardTrendMax(trend: WallboardTrend): number {
+  const values = [...trend.today, ...trend.lastWeek].filter((v): v is number => v !== null);
+  const max = Math.max(0, ...values);
+  if (trend.series !== 'calls') return max > 50 ? 100 : Math.max(10, Math.ceil(max / 10) * 10);
+  return Math.max(5, Math.ceil(max / 5) * 5);
+}
+
+/**
+ * SVG polyline points drawing `values` across `slots` intervals in a
+ * `width` × `height` box scaled to `max`. Intervals with nothing recorded
+ * break the line, so it comes back as one run of points per stretch.
+ */
+export function wallboardTrendLines(
+  values: readonly (number | null)[],
+  slots: number,
+  max: number,
+  width: number,
+  height: number
+): string[] {
+  const step = slots > 1 ? width / (slots - 1) : 0;
+  const runs: string[][] = [];
+  let run: string[] = [];
+  values.forEach((value, i) => {
+    if (value === null) {
+      if (run.length > 0) runs.push(run);
+      run = [];
+      return;
+    }
+    const y = height - (Math.min(value, max) / max) * height;
+    run.push(`${round(i * step)},${round(y)}`);
+  });
+  if (run.length > 0) runs.push(run);
+  return runs.map(points => points.join(' '));
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
@@ -0,0 +1,117 @@
+/**
+ * Browser-side audio bridge for a webphone conference. Charlie has no
+ * conference mutation and webphoned bridges one SIP leg per session, so
+ * a three-way call is mixed here: each participant's leg is sent the
+ * agent's microphone plus the audio of every other participant, using a
+ * WebAudio graph in place of the leg's outgoing microphone track.
+ *
+ * The original microphone tracks are put back when a participant leaves
+ * the mix or the conference ends, so the remaining leg carries on as a
+ * normal call.
+ */
+
+function getAudioSender(connection: RTCPeerConnection): RTCRtpSender | undefined {
+  return connection.getSenders().find((sender) => sender.track?.kind === 'audio');
+}
+
+function getRemoteAudioTrack(connection: RTCPeerConnection): MediaStreamTrack | undefined {
+  return connection
+    .getReceivers()
+    .map((receiver) => receiver.track)
+    .find((track) => track.kind === 'audio');
+}
+
+export class ConferenceMixer {
+  private context: AudioContext | null = null;
+  private micGain: GainNode | null = null;
+  private nodes: AudioNode[] = [];
+  /** Outgoing microphone track of each mixed leg, restored when it leaves. */
+  private originalTracks = new Map<RTCPeerConnection, MediaStreamTrack | null>();
+  private muted = false;
+
+  /**
+   * Mix the given legs together. Called again whenever a participant joins
+   * or leaves; with fewer than two legs the mix is taken down.
+   */
+  setParticipants(connections: readonly RTCPeerConnection[]): void {
+    for (const [connection, track] of this.originalTracks) {
+      if (!connections.includes(connection)) {
+        void getAudioSender(connection)?.replaceTrack(track);
+        this.originalTracks.delete(connection);
+      }
+    }
+    if (connections.length < 2) {
+      this.close();
+      return;
+    }
+
+    for (const connection of connections) {
+      if (!this.originalTracks.has(connection)) {
+        this.originalTracks.set(connection, getAudioSender(connection)?.track ?? null);
+      }
+    }
+
+    const context = (this.context ??= new AudioContext());
+    this.disconnectNodes();
+
+    const micTrack = [...this.originalTracks.values()].find((track) => track !== null);
+    const micGain = context.createGain();
+    micGain.gain.value = this.muted ? 0 : 1;
+    if (micTrack) {
+      const mic = context.createMediaStreamSource(new MediaStream([micTrack]));
+      mic.connect(micGain);
+      this.nodes.push(mic);
+    }
+    this.micGain = micGain;
+    this.nodes.push(micGain);
+
+    const remotes = connections.map((connection) => {
+      const track = getRemoteAudioTrack(connection);
+      if (!track) return null;
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      this.nodes.push(source);
+      return source;
+    });
+
+    connections.forEach((connection, index) => {
+      const destination = context.createMediaStreamDestination();
+      micGain.connect(destination);
+      remotes.forEach((remote, other) => {
+        if (remote && other !== index) remote.connect(destination);
+      });
+      this.nodes.push(destination);
+      const [mixed] = destination.stream.getAudioTracks();
+      void getAudioSender(connection)?.replaceTrack(mixed ?? null);
+    });
+  }
+
+  /**
+   * Mute the agent's microphone for every participant. Muting the legs
+   * themselves would also cut the participants off from each other.
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    if (this.micGain) this.micGain.gain.value = muted ? 0 : 1;
+  }
+
+  isActive(): boolean {
+    return this.context !== null;
+  }
+
+  close(): void {
+    for (const [connection, track] of this.originalTracks) {
+      void getAudioSender(connection)?.replaceTrack(track);
+    }
+    this.originalTracks.clear();
+    this.disconnectNodes();
+    this.micGain = null;
+    this.muted = false;
+    void this.context?.close();
+    this.context = null;
+  }
+
+  private disconnectNodes(): void {
+    for (const node of this.nodes) node.disconnect();
+    this.nodes = [];
+  }
+}
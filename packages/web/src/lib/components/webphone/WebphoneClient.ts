@@ -2,8 +2,9 @@
  * Thin wrapper around a JsSIP `UA`. Owns the SIP REGISTER lifecycle,
  * outbound INVITE generation (dial), inbound-INVITE handling, and the
  * mid-call SIP operations (hold / unhold / mute / unmute / DTMF /
- * hangup). Emits typed events for the higher-level
- * Webphone.svelte to react to.
+ * transfer / conference / hangup). Emits typed events for the higher-level
+ * Webphone.svelte to react to. Also plays each call's audio, and the
+ * ringtone, through the agent's chosen devices (`audioDevices.ts`).
  *
  * Architecture (post Phase B.5 SIP-driven pivot — see
  * `docs/CTI_INTEGRATION.md` and `docs/WEBPHONE.md` §1):
@@ -27,9 +28,14 @@
  */
 
 import JsSIP from 'jssip';
-import type { RTCSession, EndEvent } from 'jssip/lib/RTCSession';
+import type { RTCSession, EndEvent, HoldEvent } from 'jssip/lib/RTCSession';
 import type { RTCSessionEvent } from 'jssip/lib/UA';
-import { setWebphoneStatus } from './store';
+import { claimMonitorCall, setWebphoneStatus } from './store';
+import { ConferenceMixer } from './ConferenceMixer';
+import { Ringtone, microphoneConstraints, playThrough, type AudioDevicePreferences } from './audioDevices';
+import type { CallMonitorMode } from '$lib/domain';
+
+const MONITOR_MODES: readonly string[] = ['listen', 'whisper', 'barge'] satisfies CallMonitorMode[];
 
 export interface MediaTransportConfig {
   sipUri: string;
@@ -42,14 +48,28 @@ export type WebphoneClientEvent =
   | { type: 'register-ok' }
   | { type: 'register-failed'; reason: string; cause: string }
   | { type: 'unregistered' }
-  | { type: 'inbound-session'; sessionId: string; from: string }
+  /**
+   * `monitorMode` is set on calls that put a supervisor onto someone
+   * else's call (`X-Monitor-Mode`, see `$lib/server/callMonitor`), and
+   * only when the INVITE's `X-Monitor-Nonce` matches a request this page
+   * made. Anything else is an ordinary ringing call.
+   */
+  | { type: 'inbound-session'; sessionId: string; from: string; monitorMode: CallMonitorMode | null }
   /** Outbound session created (dial() called). */
   | { type: 'outbound-session'; sessionId: string; target: string }
   | { type: 'session-progress'; sessionId: string }
   | { type: 'session-accepted'; sessionId: string }
   | { type: 'session-confirmed'; sessionId: string }
   | { type: 'session-ended'; sessionId: string; cause: string }
-  | { type: 'session-failed'; sessionId: string; cause: string };
+  | { type: 'session-failed'; sessionId: string; cause: string }
+  /** Local hold state changed (our re-INVITE was answered). */
+  | { type: 'session-held'; sessionId: string }
+  | { type: 'session-unheld'; sessionId: string }
+  /** The far end took the call on; our leg of it can be hung up. */
+  | { type: 'transfer-accepted'; sessionId: string }
+  | { type: 'transfer-failed'; sessionId: string; cause: string }
+  /** Sessions currently mixed together; empty once the conference is over. */
+  | { type: 'conference-updated'; sessionIds: string[] };
 
 export interface DialOptions {
   /**
@@ -87,6 +107,13 @@ export class WebphoneClient {
   private currentSipUri: string | null = null;
   private currentIceServers: readonly RTCIceServer[] = [];
   private currentLooksLikePlaceholder = false;
+  private conferenceMixer = new ConferenceMixer();
+  private conferenceSessionIds = new Set<string>();
+  private audioDevices: AudioDevicePreferences = { microphone: null, speaker: null, ringer: null };
+  /** Plays the other party of each session through the chosen speaker. */
+  private remoteAudio = new Map<string, HTMLAudioElement>();
+  private ringtone = new Ringtone();
+  private ringingSessionIds = new Set<string>();
 
   /**
    * Build (but don't start) the underlying JsSIP UA from a
@@ -270,22 +297,44 @@ export class WebphoneClient {
       const session = e.session;
       const sessionId = session.id;
       this.sessionsBySipId.set(sessionId, session);
+      this.attachRemoteAudio(session);
 
       if (e.originator === 'remote') {
         const userPart = session.remote_identity?.uri?.user;
         const from = typeof userPart === 'string' ? userPart : 'unknown';
-        this.dispatch({ type: 'inbound-session', sessionId, from });
+        const monitorHeader = e.request.getHeader('X-Monitor-Mode');
+        const monitorMode =
+          MONITOR_MODES.includes(monitorHeader) &&
+          claimMonitorCall(e.request.getHeader('X-Monitor-Nonce'), monitorHeader as CallMonitorMode)
+            ? (monitorHeader as CallMonitorMode)
+            : null;
+        // Monitoring calls are answered automatically, so they don't ring
+        if (!monitorMode) this.startRinging(sessionId);
+        this.dispatch({ type: 'inbound-session', sessionId, from, monitorMode });
       }
 
       session.on('progress', () => this.dispatch({ type: 'session-progress', sessionId }));
-      session.on('accepted', () => this.dispatch({ type: 'session-accepted', sessionId }));
+      session.on('accepted', () => {
+        this.stopRinging(sessionId);
+        this.dispatch({ type: 'session-accepted', sessionId });
+      });
       session.on('confirmed', () => this.dispatch({ type: 'session-confirmed', sessionId }));
+      session.on('hold', (ev: HoldEvent) => {
+        if (ev.originator === 'local') this.dispatch({ type: 'session-held', sessionId });
+      });
+      session.on('unhold', (ev: HoldEvent) => {
+        if (ev.originator === 'local') this.dispatch({ type: 'session-unheld', sessionId });
+      });
       session.on('ended', (ev: EndEvent) => {
         this.sessionsBySipId.delete(sessionId);
+        this.endSessionAudio(sessionId);
+        this.leaveConference(sessionId);
         this.dispatch({ type: 'session-ended', sessionId, cause: ev?.cause ?? 'NORMAL_CLEARING' });
       });
       session.on('failed', (ev: EndEvent) => {
         this.sessionsBySipId.delete(sessionId);
+        this.endSessionAudio(sessionId);
+        this.leaveConference(sessionId);
         this.dispatch({ type: 'session-failed', sessionId, cause: ev?.cause ?? 'UNKNOWN' });
       });
     });
@@ -320,6 +369,11 @@ export class WebphoneClient {
     this.ua.stop();
     this.ua = null;
     this.sessionsBySipId.clear();
+    this.conferenceSessionIds.clear();
+    this.conferenceMixer.close();
+    for (const sessionId of [...this.remoteAudio.keys(), ...this.ringingSessionIds]) {
+      this.endSessionAudio(sessionId);
+    }
     setWebphoneStatus({ registration: 'IDLE', sipUri: null, wsUrl: null });
   }
 
@@ -329,12 +383,18 @@ export class WebphoneClient {
    * Typically called automatically by Webphone.svelte when it sees an
    * inbound session that matches an outbound `dial` mutation we already
    * sent — otherwise called explicitly when the user clicks "Answer".
+   * `muted` answers with the microphone already off.
    */
-  acceptInbound(sessionId: string): void {
+  acceptInbound(sessionId: string, { muted = false }: { muted?: boolean } = {}): void {
     const session = this.sessionsBySipId.get(sessionId);
     if (!session) return;
+    if (muted) {
+      // JsSIP attaches the microphone just before it applies the caller's
+      // offer ('sdp'), so muting there means no audio is ever sent
+      session.once('sdp', () => session.mute({ audio: true }));
+    }
     session.answer({
-      mediaConstraints: { audio: true, video: false },
+      mediaConstraints: { audio: microphoneConstraints(this.audioDevices.microphone), video: false },
       pcConfig: { iceServers: [...this.currentIceServers] },
     });
   }
@@ -371,7 +431,7 @@ export class WebphoneClient {
     // JsSIP returns the RTCSession synchronously; the `newRTCSession`
     // listener will also fire and register it in `sessionsBySipId`.
     const session = this.ua.call(target, {
-      mediaConstraints: { audio: true, video: false },
+      mediaConstraints: { audio: microphoneConstraints(this.audioDevices.microphone), video: false },
       pcConfig: { iceServers: [...this.currentIceServers] },
     });
     const sessionId = session.id;
@@ -413,6 +473,159 @@ export class WebphoneClient {
     session.unhold();
   }
 
+  /** Whether we have put this session on hold. */
+  isOnHold(sessionId: string): boolean {
+    return this.sessionsBySipId.get(sessionId)?.isOnHold().local ?? false;
+  }
+
+  /**
+   * Blind transfer: send a SIP REFER asking the far end to call `target`
+   * (same target forms as `dial()`). Emits `transfer-accepted` once
+   * webphoned answers the REFER with 202 — we don't wait for the target to
+   * pick up, so the agent is free straight away — or `transfer-failed`.
+   */
+  blindTransfer(sessionId: string, target: string): void {
+    const session = this.sessionsBySipId.get(sessionId);
+    if (!session) return;
+    session.refer(target, {
+      eventHandlers: {
+        requestSucceeded: () => this.dispatch({ type: 'transfer-accepted', sessionId }),
+        requestFailed: (ev: { cause?: string }) =>
+          this.dispatch({ type: 'transfer-failed', sessionId, cause: ev?.cause ?? 'REJECTED' }),
+      },
+    });
+  }
+
+  /**
+   * Complete an attended transfer: REFER the (held) original session to
+   * the consultation session's party with `Replaces`, so the caller is
+   * bridged straight onto the consultation call. Unlike a blind transfer
+   * we wait for the NOTIFY reporting the replacement call connected before
+   * emitting `transfer-accepted`.
+   */
+  attendedTransfer(sessionId: string, consultSessionId: string): void {
+    const session = this.sessionsBySipId.get(sessionId);
+    const consult = this.sessionsBySipId.get(consultSessionId);
+    if (!session || !consult) return;
+    const fail = (cause: string): void => this.dispatch({ type: 'transfer-failed', sessionId, cause });
+    session.refer(consult.remote_identity.uri, {
+      replaces: consult,
+      eventHandlers: {
+        accepted: () => this.dispatch({ type: 'transfer-accepted', sessionId }),
+        failed: (ev: { status_line?: { reason_phrase?: string } }) =>
+          fail(ev?.status_line?.reason_phrase ?? 'REJECTED'),
+        requestFailed: (ev: { cause?: string }) => fail(ev?.cause ?? 'REJECTED'),
+      },
+    });
+  }
+
+  /**
+   * Join sessions into a conference (or add them to the current one). Held
+   * sessions are taken off hold; everyone hears everyone else through the
+   * `ConferenceMixer`. Emits `conference-updated`.
+   */
+  conference(sessionIds: readonly string[]): void {
+    for (const sessionId of sessionIds) {
+      const session = this.sessionsBySipId.get(sessionId);
+      if (!session) continue;
+      if (session.isOnHold().local) session.unhold();
+      this.conferenceSessionIds.add(sessionId);
+    }
+    this.updateConference();
+  }
+
+  /**
+   * Take a session out of the conference mix without hanging it up. A
+   * conference left with one session ends, and that session becomes an
+   * ordinary call.
+   */
+  leaveConference(sessionId: string): void {
+    if (!this.conferenceSessionIds.delete(sessionId)) return;
+    this.updateConference();
+  }
+
+  /** Mute the agent's microphone towards every conference participant. */
+  setConferenceMuted(muted: boolean): void {
+    this.conferenceMixer.setMuted(muted);
+  }
+
+  private updateConference(): void {
+    if (this.conferenceSessionIds.size < 2) {
+      this.conferenceSessionIds.clear();
+    }
+    const connections = [...this.conferenceSessionIds].flatMap((sessionId) => {
+      const connection = this.sessionsBySipId.get(sessionId)?.connection;
+      return connection ? [connection] : [];
+    });
+    this.conferenceMixer.setParticipants(connections);
+    this.dispatch({ type: 'conference-updated', sessionIds: [...this.conferenceSessionIds] });
+  }
+
+  /**
+   * Use these microphone, speaker and ringer devices. The speaker and
+   * ringer switch straight away; the microphone is picked up by the next
+   * call, as swapping it under a live call would need a re-INVITE.
+   */
+  setAudioDevices(devices: AudioDevicePreferences): void {
+    const ringerChanged = devices.ringer !== this.audioDevices.ringer;
+    this.audioDevices = { ...devices };
+    for (const element of this.remoteAudio.values()) {
+      void playThrough(element, devices.speaker);
+    }
+    if (ringerChanged && this.ringtone.ringing) {
+      this.ringtone.stop();
+      this.ringtone.start(devices.ringer);
+    }
+  }
+
+  /** The session's peer connection, for reading its RTP stats. */
+  getConnection(sessionId: string): RTCPeerConnection | null {
+    return this.sessionsBySipId.get(sessionId)?.connection ?? null;
+  }
+
+  /**
+   * Play the other party's audio. Outbound sessions have their peer
+   * connection from the start; inbound ones get it on answer.
+   */
+  private attachRemoteAudio(session: RTCSession): void {
+    const sessionId = session.id;
+    const listen = (connection: RTCPeerConnection): void => {
+      connection.addEventListener('track', (ev: RTCTrackEvent) => {
+        if (ev.track.kind !== 'audio') return;
+        const element = this.remoteAudio.get(sessionId) ?? new Audio();
+        element.srcObject = ev.streams[0] ?? new MediaStream([ev.track]);
+        this.remoteAudio.set(sessionId, element);
+        void playThrough(element, this.audioDevices.speaker)
+          .then(() => element.play())
+          .catch((err) => console.warn('[webphone] remote audio blocked', err));
+      });
+    };
+    if (session.connection) {
+      listen(session.connection);
+    } else {
+      session.on('peerconnection', (ev) => listen(ev.peerconnection));
+    }
+  }
+
+  private startRinging(sessionId: string): void {
+    this.ringingSessionIds.add(sessionId);
+    this.ringtone.start(this.audioDevices.ringer);
+  }
+
+  private stopRinging(sessionId: string): void {
+    this.ringingSessionIds.delete(sessionId);
+    if (this.ringingSessionIds.size === 0) this.ringtone.stop();
+  }
+
+  private endSessionAudio(sessionId: string): void {
+    this.stopRinging(sessionId);
+    const element = this.remoteAudio.get(sessionId);
+    if (!element) return;
+    element.pause();
+    element.srcObject = null;
+    this.remoteAudio.delete(sessionId);
+  }
+
   /** Mute the local microphone for this session (track.enabled = false). */
   mute(sessionId: string): void {
     const session = this.sessionsBySipId.get(sessionId);
@@ -0,0 +1,235 @@
+/**
+ * Tests for WebphoneClient call transfer (SIP REFER) and monitoring calls
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type Handler = (event?: unknown) => void;
+
+interface FakeSession {
+  id: string;
+  remote_identity: { uri: string };
+  connection: null;
+  handlers: Map<string, Handler>;
+  on: (event: string, handler: Handler) => void;
+  once: (event: string, handler: Handler) => void;
+  refer: ReturnType<typeof vi.fn>;
+  hold: ReturnType<typeof vi.fn>;
+  answer: ReturnType<typeof vi.fn>;
+  mute: ReturnType<typeof vi.fn>;
+  isOnHold: () => { local: boolean; remote: boolean };
+}
+
+const fakeUa = vi.hoisted(() => ({
+  handlers: new Map<string, (event?: unknown) => void>(),
+  sessionCount: 0,
+}));
+
+vi.mock('jssip', () => {
+  class UA {
+    contact = { uri: {} };
+    constructor() {
+      fakeUa.handlers.clear();
+    }
+    on(event: string, handler: (event?: unknown) => void) {
+      fakeUa.handlers.set(event, handler);
+    }
+    removeListener() {}
+    registrator() {
+      return { setExtraHeaders: () => {}, register: () => {} };
+    }
+    isRegistered() {
+      return true;
+    }
+    start() {}
+    stop() {}
+    call(target: string) {
+      const session = fakeSession(`session-${++fakeUa.sessionCount}`, `sip:${target}@example.test`);
+      // JsSIP emits newRTCSession synchronously from call()
+      fakeUa.handlers.get('newRTCSession')?.({ originator: 'local', session });
+      return session;
+    }
+    static receive(headers: Record<string, string>) {
+      const session = fakeSession(`session-${++fakeUa.sessionCount}`, 'sip:supervisor@example.test');
+      const request = { getHeader: (name: string) => headers[name] };
+      fakeUa.handlers.get('newRTCSession')?.({ originator: 'remote', session, request });
+      return session;
+    }
+  }
+  function fakeSession(id: string, uri: string) {
+    const handlers = new Map<string, (event?: unknown) => void>();
+    return {
+      id,
+      remote_identity: { uri },
+      connection: null,
+      handlers,
+      on: (event: string, handler: (event?: unknown) => void) => handlers.set(event, handler),
+      once: (event: string, handler: (event?: unknown) => void) => handlers.set(event, handler),
+      refer: vi.fn(),
+      hold: vi.fn(),
+      answer: vi.fn(),
+      mute: vi.fn(),
+      isOnHold: () => ({ local: false, remote: false }),
+    };
+  }
+  return { default: { UA, WebSocketInterface: class {}, debug: { enable: () => {} } } };
+});
+
+import JsSIP from 'jssip';
+import { WebphoneClient, type WebphoneClientEvent } from '../WebphoneClient';
+import { expectMonitorCall } from '../store';
+
+const transport = {
+  sipUri: 'sip:agent@example.test',
+  sipPassword: 'secret',
+  wsUrl: 'wss://example.test',
+  iceServers: [],
+};
+
+describe('WebphoneClient', () => {
+  let client: WebphoneClient;
+  let events: WebphoneClientEvent[];
+  let sessions: Map<string, FakeSession>;
+
+  function dial(target: string): FakeSession {
+    const id = client.dial(target);
+    const session = sessions.get(id);
+    if (!session) throw new Error(`No session for ${id}`);
+    return session;
+  }
+
+  function referOptions(session: FakeSession) {
+    const [, options] = session.refer.mock.lastCall ?? [];
+    return options as {
+      replaces?: FakeSession;
+      eventHandlers: Partial<Record<string, Handler>>;
+    };
+  }
+
+  function referHandler(session: FakeSession, name: string): Handler {
+    const handler = referOptions(session).eventHandlers[name];
+    if (!handler) throw new Error(`REFER has no ${name} handler`);
+    return handler;
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    fakeUa.sessionCount = 0;
+    client = new WebphoneClient();
+    client.configure(transport);
+    sessions = new Map();
+    const onSession = fakeUa.handlers.get('newRTCSession');
+    fakeUa.handlers.set('newRTCSession', (event) => {
+      const session = (event as { session: FakeSession }).session;
+      sessions.set(session.id, session);
+      onSession?.(event);
+    });
+    events = [];
+    client.on((event) => events.push(event));
+  });
+
+  describe('blindTransfer', () => {
+    it('should REFER the call to the target and report the 202 as accepted', () => {
+      const session = dial('2001');
+
+      client.blindTransfer(session.id, '3000');
+
+      expect(session.refer).toHaveBeenCalledWith('3000', expect.any(Object));
+      expect(referOptions(session).replaces).toBeUndefined();
+
+      referHandler(session, 'requestSucceeded')();
+      expect(events.at(-1)).toEqual({ type: 'transfer-accepted', sessionId: session.id });
+    });
+
+    it('should report a rejected REFER with its cause', () => {
+      const session = dial('2001');
+
+      client.blindTransfer(session.id, '3000');
+      referHandler(session, 'requestFailed')({ cause: 'Busy' });
+
+      expect(events.at(-1)).toEqual({ type: 'transfer-failed', sessionId: session.id, cause: 'Busy' });
+    });
+
+    it('should ignore unknown sessions', () => {
+      client.blindTransfer('missing', '3000');
+
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('attendedTransfer', () => {
+    it('should REFER the held call to the consultation party with Replaces', () => {
+      const original = dial('2001');
+      const consult = dial('3000');
+
+      client.attendedTransfer(original.id, consult.id);
+
+      expect(original.refer).toHaveBeenCalledWith('sip:3000@example.test', expect.any(Object));
+      expect(referOptions(original).replaces).toBe(consult);
+      expect(consult.refer).not.toHaveBeenCalled();
+    });
+
+    it('should wait for the NOTIFY before reporting the transfer accepted', () => {
+      const original = dial('2001');
+      const consult = dial('3000');
+
+      client.attendedTransfer(original.id, consult.id);
+
+      expect(referOptions(original).eventHandlers.requestSucceeded).toBeUndefined();
+      referHandler(original, 'accepted')();
+      expect(events.at(-1)).toEqual({ type: 'transfer-accepted', sessionId: original.id });
+    });
+
+    it('should report a failed replacement call with its reason', () => {
+      const original = dial('2001');
+      const consult = dial('3000');
+
+      client.attendedTransfer(original.id, consult.id);
+      referHandler(original, 'failed')({ status_line: { reason_phrase: 'Not Found' } });
+
+      expect(events.at(-1)).toEqual({ type: 'transfer-failed', sessionId: original.id, cause: 'Not Found' });
+    });
+
+    it('should do nothing once the consultation call has ended', () => {
+      const original = dial('2001');
+      const consult = dial('3000');
+      consult.handlers.get('ended')?.({ cause: 'BYE' });
+
+      client.attendedTransfer(original.id, consult.id);
+
+      expect(original.refer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inbound monitoring calls', () => {
+    function receive(headers: Record<string, string>): FakeSession {
+      const ua = JsSIP.UA as unknown as { receive: (headers: Record<string, string>) => FakeSession };
+      return ua.receive(headers);
+    }
+
+    it('should mark a call as monitoring only when its nonce was requested', () => {
+      expectMonitorCall('nonce-requested-1', 'listen');
+
+      receive({ 'X-Monitor-Mode': 'listen', 'X-Monitor-Nonce': 'nonce-requested-1' });
+      receive({ 'X-Monitor-Mode': 'listen', 'X-Monitor-Nonce': 'nonce-forged-0001' });
+      receive({ 'X-Monitor-Mode': 'barge' });
+
+      expect(events.map((event) => event.type === 'inbound-session' && event.monitorMode)).toEqual([
+        'listen',
+        null,
+        null,
+      ]);
+    });
+
+    it('should answer muted before any media is negotiated', () => {
+      const session = receive({});
+
+      client.acceptInbound(session.id, { muted: true });
+      expect(session.mute).not.toHaveBeenCalled();
+      session.handlers.get('sdp')?.({ originator: 'remote', type: 'offer' });
+
+      expect(session.mute).toHaveBeenCalledWith({ audio: true });
+      expect(session.answer).toHaveBeenCalled();
+    });
+  });
+});
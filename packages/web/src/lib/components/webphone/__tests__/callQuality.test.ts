@@ -0,0 +1,151 @@
+/**
+ * Tests for webphone call quality stats
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  callQualityHistory,
+  callQualitySample,
+  estimateMos,
+  initCallQualityHistory,
+  rateMos,
+  recordCallQuality,
+  summarizeCallQuality,
+  type CallQualitySample,
+  type CallQualitySummary,
+} from '../callQuality';
+import type { CallLeg } from '../types';
+
+function statsReport(entries: Record<string, unknown>[]): RTCStatsReport {
+  return new Map(entries.map((entry, i) => [`stat-${i}`, entry])) as unknown as RTCStatsReport;
+}
+
+function inbound(packetsReceived: number, packetsLost: number, jitter = 0.01) {
+  return { type: 'inbound-rtp', kind: 'audio', packetsReceived, packetsLost, jitter };
+}
+
+function sample(overrides: Partial<CallQualitySample>): CallQualitySample {
+  return {
+    at: 0,
+    jitterMs: 10,
+    packetLossPercent: 0,
+    rttMs: 50,
+    mos: 4.3,
+    counters: { packetsReceived: 0, packetsLost: 0 },
+    ...overrides,
+  };
+}
+
+const leg: CallLeg = {
+  id: 'leg-1',
+  correlationId: 'leg-1',
+  sipSessionId: 'leg-1',
+  state: 'HUNGUP',
+  direction: 'OUTBOUND',
+  from: null,
+  to: '+442079460000',
+  muted: false,
+  startedAt: 1_000,
+  answeredAt: 5_000,
+  endedAt: 65_000,
+  cause: null,
+  consultFor: null,
+  transferTarget: null,
+  conferenceId: null,
+  monitorMode: null,
+};
+
+describe('estimateMos', () => {
+  it('scores a clean call near the top of the scale', () => {
+    expect(estimateMos(0, 0, 0)).toBeCloseTo(4.4, 1);
+    expect(rateMos(estimateMos(5, 0, 40))).toBe('good');
+  });
+
+  it('drops with packet loss, jitter and latency', () => {
+    expect(estimateMos(5, 5, 40)).toBeLessThan(estimateMos(5, 0, 40));
+    expect(estimateMos(60, 0, 40)).toBeLessThan(estimateMos(5, 0, 40));
+    expect(estimateMos(5, 0, 600)).toBeLessThan(estimateMos(5, 0, 40));
+    expect(rateMos(estimateMos(30, 10, 300))).toBe('poor');
+  });
+
+  it('never goes below 1', () => {
+    expect(estimateMos(500, 80, 2000)).toBe(1);
+  });
+});
+
+describe('callQualitySample', () => {
+  it('reads jitter and round-trip time from the report', () => {
+    const result = callQualitySample(
+      statsReport([inbound(500, 0, 0.012), { type: 'remote-inbound-rtp', roundTripTime: 0.08 }]),
+      null,
+      2_000
+    );
+    expect(result).toMatchObject({ at: 2_000, jitterMs: 12, rttMs: 80, packetLossPercent: 0 });
+  });
+
+  it('falls back to the nominated candidate pair for round-trip time', () => {
+    const result = callQualitySample(
+      statsReport([inbound(500, 0), { type: 'candidate-pair', nominated: true, currentRoundTripTime: 0.05 }]),
+      null
+    );
+    expect(result?.rttMs).toBe(50);
+  });
+
+  it('works out loss since the previous sample', () => {
+    const previous = sample({ counters: { packetsReceived: 1_000, packetsLost: 50 } });
+    const result = callQualitySample(statsReport([inbound(1_090, 60)]), previous);
+    expect(result?.packetLossPercent).toBe(10);
+    expect(result?.counters).toEqual({ packetsReceived: 1_090, packetsLost: 60 });
+  });
+
+  it('returns null before any audio arrives', () => {
+    expect(callQualitySample(statsReport([{ type: 'outbound-rtp', kind: 'audio' }]), null)).toBeNull();
+  });
+});
+
+describe('summarizeCallQuality', () => {
+  it('averages the samples and works out loss over the whole call', () => {
+    const summary = summarizeCallQuality(leg, [
+      sample({ mos: 4.4, jitterMs: 10, rttMs: null }),
+      sample({ mos: 3.8, jitterMs: 30, rttMs: 60, counters: { packetsReceived: 980, packetsLost: 20 } }),
+    ]);
+    expect(summary).toEqual({
+      legId: 'leg-1',
+      number: '+442079460000',
+      direction: 'OUTBOUND',
+      startedAt: 1_000,
+      endedAt: 65_000,
+      sampleCount: 2,
+      avgMos: 4.1,
+      minMos: 3.8,
+      avgJitterMs: 20,
+      maxJitterMs: 30,
+      packetLossPercent: 2,
+      avgRttMs: 60,
+    });
+  });
+
+  it('has nothing to summarise for an unsampled call', () => {
+    expect(summarizeCallQuality(leg, [])).toBeNull();
+  });
+});
+
+describe('call quality history', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    initCallQualityHistory('user-1');
+  });
+
+  it('keeps summaries newest first and persists them per user', () => {
+    const summary = summarizeCallQuality(leg, [sample({})]) as CallQualitySummary;
+    recordCallQuality(summary);
+    recordCallQuality({ ...summary, legId: 'leg-2' });
+    expect(get(callQualityHistory).map((s) => s.legId)).toEqual(['leg-2', 'leg-1']);
+
+    initCallQualityHistory('user-2');
+    expect(get(callQualityHistory)).toEqual([]);
+    initCallQualityHistory('user-1');
+    expect(get(callQualityHistory)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for webphone setup checks and audio device listing
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { checkWebSocketReachability, rmsLevel } from '../diagnostics';
+import { listAudioDevices, microphoneConstraints } from '../audioDevices';
+
+class FakeSocket {
+  listeners = new Map<string, () => void>();
+  close = vi.fn();
+  addEventListener(type: string, listener: () => void) {
+    this.listeners.set(type, listener);
+  }
+  emit(type: string) {
+    this.listeners.get(type)?.();
+  }
+}
+
+function device(kind: MediaDeviceKind, deviceId: string, label = ''): MediaDeviceInfo {
+  return { kind, deviceId, label, groupId: '', toJSON: () => ({}) };
+}
+
+describe('checkWebSocketReachability', () => {
+  it('reports the socket reachable once it opens, and closes it', async () => {
+    const socket = new FakeSocket();
+    const result = checkWebSocketReachability('wss://webphone.example', 1_000, () => {
+      queueMicrotask(() => socket.emit('open'));
+      return socket as unknown as WebSocket;
+    });
+    await expect(result).resolves.toMatchObject({ reachable: true, error: null });
+    expect(socket.close).toHaveBeenCalled();
+  });
+
+  it('reports a failed connection', async () => {
+    const socket = new FakeSocket();
+    const result = checkWebSocketReachability('wss://webphone.example', 1_000, () => {
+      queueMicrotask(() => socket.emit('error'));
+      return socket as unknown as WebSocket;
+    });
+    await expect(result).resolves.toMatchObject({ reachable: false, latencyMs: null });
+  });
+
+  it('gives up when nothing answers', async () => {
+    vi.useFakeTimers();
+    const socket = new FakeSocket();
+    const result = checkWebSocketReachability('wss://webphone.example', 1_000, () => socket as unknown as WebSocket);
+    vi.advanceTimersByTime(1_000);
+    await expect(result).resolves.toEqual({ reachable: false, latencyMs: null, error: 'No answer within 1s' });
+    vi.useRealTimers();
+  });
+});
+
+describe('rmsLevel', () => {
+  it('measures the level of a block of samples', () => {
+    expect(rmsLevel([])).toBe(0);
+    expect(rmsLevel(new Float32Array(128))).toBe(0);
+    expect(rmsLevel([0.5, -0.5, 0.5, -0.5])).toBeCloseTo(0.5);
+  });
+});
+
+describe('listAudioDevices', () => {
+  it('splits microphones from speakers and leaves out the pseudo-devices', async () => {
+    const list = await listAudioDevices({
+      enumerateDevices: async () => [
+        device('audioinput', 'default', 'Default'),
+        device('audioinput', 'mic-1', 'Headset'),
+        device('audiooutput', 'communications', 'Communications'),
+        device('audiooutput', 'spk-1', 'Speakers'),
+        device('videoinput', 'cam-1', 'Camera'),
+      ],
+    });
+    expect(list).toEqual({
+      microphones: [{ deviceId: 'mic-1', label: 'Headset' }],
+      speakers: [{ deviceId: 'spk-1', label: 'Speakers' }],
+      labelled: true,
+    });
+  });
+
+  it('numbers devices until the page may see their names', async () => {
+    const list = await listAudioDevices({
+      enumerateDevices: async () => [device('audioinput', 'mic-1'), device('audioinput', 'mic-2')],
+    });
+    expect(list.microphones.map((d) => d.label)).toEqual(['Microphone 1', 'Microphone 2']);
+    expect(list.labelled).toBe(false);
+  });
+});
+
+describe('microphoneConstraints', () => {
+  it('asks for the chosen microphone, or any', () => {
+    expect(microphoneConstraints(null)).toBe(true);
+    expect(microphoneConstraints('mic-1')).toEqual({ deviceId: { ideal: 'mic-1' } });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for webphone presence states and schedules
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { recordAgentPresence, scheduledChangeToFollow, type AgentPresenceConfig } from '../presence';
+import {
+  duePresenceChange,
+  presenceOverrunMs,
+  summarizePresenceAdherence,
+  type PresenceChange,
+  type PresenceState,
+} from '$lib/domain';
+
+const available: PresenceState = {
+  id: 'ps-available',
+  name: 'Available',
+  availability: 'AVAILABLE',
+  reasonCodes: [],
+  maxDurationMinutes: null,
+  active: true,
+  lastModified: '2026-01-01T00:00:00Z',
+};
+
+const lunch: PresenceState = {
+  ...available,
+  id: 'ps-break',
+  name: 'Break',
+  availability: 'ON_BREAK',
+  reasonCodes: ['Lunch'],
+  maxDurationMinutes: 30,
+};
+
+function change(overrides: Partial<PresenceChange>): PresenceChange {
+  return {
+    id: 'pc-1',
+    userId: 'u1',
+    userName: 'Agent One',
+    stateId: available.id,
+    stateName: available.name,
+    availability: 'AVAILABLE',
+    reasonCode: null,
+    source: 'agent',
+    startedAt: '2026-01-14T09:00:00Z',
+    endedAt: null,
+    overrunAlertedAt: null,
+    ...overrides,
+  };
+}
+
+// Wednesday 14 January 2026; London is on UTC
+function config(overrides: Partial<AgentPresenceConfig> = {}): AgentPresenceConfig {
+  return {
+    states: [available, lunch],
+    schedules: [
+      {
+        id: 'sch-group',
+        name: 'Team',
+        userIds: [],
+        groupIds: ['g1'],
+        timezone: 'Europe/London',
+        entries: [
+          { days: [1, 2, 3, 4, 5], time: '09:00', stateId: available.id, reasonCode: null },
+          { days: [1, 2, 3, 4, 5], time: '12:30', stateId: lunch.id, reasonCode: 'Lunch' },
+        ],
+        active: true,
+        lastModified: '2026-01-01T00:00:00Z',
+      },
+    ],
+    groupIds: ['g1'],
+    userId: 'u1',
+    current: change({}),
+    ...overrides,
+  };
+}
+
+describe('duePresenceChange', () => {
+  it('moves the agent once a group schedule entry falls due', () => {
+    expect(duePresenceChange(config(), new Date('2026-01-14T12:29:00Z'))).toBeNull();
+    expect(duePresenceChange(config(), new Date('2026-01-14T12:31:00Z'))).toEqual({
+      state: lunch,
+      reasonCode: 'Lunch',
+      dueAt: new Date('2026-01-14T12:30:00Z'),
+    });
+  });
+
+  it('reads entry times in the schedule timezone', () => {
+    const base = config();
+    const schedules = base.schedules.map((s) => ({ ...s, timezone: 'America/New_York' }));
+    // 12:31 UTC is 07:31 in New York: the last entry due was Tuesday's lunch, before the current state began
+    expect(duePresenceChange({ ...base, schedules }, new Date('2026-01-14T12:31:00Z'))).toBeNull();
+    expect(duePresenceChange({ ...base, schedules }, new Date('2026-01-14T17:31:00Z'))?.state).toEqual(lunch);
+  });
+
+  it('ignores inactive states', () => {
+    const states = [available, { ...lunch, active: false }];
+    expect(duePresenceChange(config({ states }), new Date('2026-01-14T12:31:00Z'))).toBeNull();
+  });
+
+  it('leaves agents alone once they have changed state since the entry was due', () => {
+    const current = change({ startedAt: '2026-01-14T12:35:00Z' });
+    expect(duePresenceChange(config({ current }), new Date('2026-01-14T12:40:00Z'))).toBeNull();
+  });
+
+  it('prefers a schedule naming the user over their groups', () => {
+    const base = config();
+    const own = {
+      ...base.schedules[0],
+      id: 'sch-own',
+      userIds: ['u1'],
+      groupIds: [],
+      entries: [{ days: [3], time: '08:00', stateId: available.id, reasonCode: null }],
+    } as AgentPresenceConfig['schedules'][number];
+    const current = change({ stateId: lunch.id, startedAt: '2026-01-14T07:00:00Z' });
+    const result = duePresenceChange(
+      { ...base, current, schedules: [...base.schedules, own] },
+      new Date('2026-01-14T12:31:00Z')
+    );
+    expect(result?.state).toEqual(available);
+  });
+});
+
+describe('presenceOverrunMs', () => {
+  it('counts time past the state limit', () => {
+    const current = change({ stateId: lunch.id, startedAt: '2026-01-14T12:30:00Z' });
+    expect(presenceOverrunMs(current, [lunch], Date.parse('2026-01-14T12:50:00Z'))).toBe(0);
+    expect(presenceOverrunMs(current, [lunch], Date.parse('2026-01-14T13:05:00Z'))).toBe(5 * 60_000);
+    expect(presenceOverrunMs(change({}), [available], Date.parse('2026-01-15T00:00:00Z'))).toBe(0);
+    expect(presenceOverrunMs({ ...current, endedAt: '2026-01-14T13:10:00Z' }, [lunch], Date.parse('2026-01-14T13:20:00Z'))).toBe(0);
+  });
+});
+
+describe('scheduledChangeToFollow', () => {
+  it('follows each open scheduled change once', () => {
+    const scheduled = change({ id: 'pc-2', stateId: lunch.id, source: 'schedule' });
+    expect(scheduledChangeToFollow({ current: scheduled }, null)).toBe(scheduled);
+    expect(scheduledChangeToFollow({ current: scheduled }, 'pc-2')).toBeNull();
+    expect(scheduledChangeToFollow({ current: change({}) }, null)).toBeNull();
+    expect(scheduledChangeToFollow({ current: null }, null)).toBeNull();
+  });
+});
+
+describe('recordAgentPresence', () => {
+  it('surfaces the server message when a change is rejected', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(new Response(JSON.stringify({ message: 'Choose a reason' }), { status: 400 }));
+    await expect(recordAgentPresence({ stateId: lunch.id, reasonCode: null }, fetchFn)).rejects.toThrow(
+      'Choose a reason'
+    );
+  });
+});
+
+describe('summarizePresenceAdherence', () => {
+  it('totals time per state and counts overruns within the window', () => {
+    const history = [
+      change({ id: 'a', startedAt: '2026-01-14T09:00:00Z', endedAt: '2026-01-14T12:30:00Z' }),
+      change({
+        id: 'b',
+        stateId: lunch.id,
+        stateName: lunch.name,
+        source: 'schedule',
+        startedAt: '2026-01-14T12:30:00Z',
+        endedAt: '2026-01-14T13:10:00Z',
+      }),
+      change({ id: 'c', startedAt: '2026-01-14T13:10:00Z', endedAt: null }),
+    ];
+    const [row] = summarizePresenceAdherence(
+      history,
+      [available, lunch],
+      '2026-01-14T10:00:00Z',
+      '2026-01-14T14:00:00Z',
+      Date.parse('2026-01-14T13:30:00Z')
+    );
+    expect(row).toMatchObject({
+      secondsByState: { Available: (150 + 20) * 60, Break: 40 * 60 },
+      overruns: 1,
+      overrunSeconds: 10 * 60,
+      adherencePercent: 0,
+      changes: 2,
+      scheduledChanges: 1,
+    });
+  });
+});
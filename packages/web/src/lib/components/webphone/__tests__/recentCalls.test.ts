@@ -0,0 +1,128 @@
+/**
+ * Tests for webphone recent calls
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  addRecentCall,
+  applyCallLogHistory,
+  initRecentCalls,
+  mergeRecentCalls,
+  recentCallFromCallLog,
+  recentCallFromLeg,
+  recentCalls,
+  type CharlieCallLogItem,
+} from '../recentCalls';
+import type { CallLeg, RecentCall } from '../types';
+
+function leg(overrides: Partial<CallLeg>): CallLeg {
+  return {
+    id: 'leg-1',
+    correlationId: 'leg-1',
+    sipSessionId: 'leg-1',
+    state: 'HUNGUP',
+    direction: 'OUTBOUND',
+    from: null,
+    to: '+442079460000',
+    muted: false,
+    startedAt: 1_000,
+    answeredAt: 5_000,
+    endedAt: 65_400,
+    cause: null,
+    consultFor: null,
+    transferTarget: null,
+    conferenceId: null,
+    monitorMode: null,
+    ...overrides,
+  };
+}
+
+function call(id: string, startedAt: number): RecentCall {
+  return { id, direction: 'OUTBOUND', number: '2001', name: null, startedAt, durationSeconds: null, outcome: 'ANSWERED' };
+}
+
+const callLog: CharlieCallLogItem = {
+  id: 'log-1',
+  callId: null,
+  direction: 'INTERNAL',
+  outcome: 'VOICEMAIL',
+  fromNumber: '2001',
+  toNumber: '2002',
+  fromUserId: '7',
+  fromUserName: 'Jane Smith',
+  toUserId: '8',
+  toUserName: 'John Doe',
+  startedAt: '2026-03-02T10:15:00.000Z',
+  answeredAt: null,
+  endedAt: null,
+  durationSeconds: 0,
+  ringingTimeSeconds: null,
+  huntingTimeSeconds: null,
+  hasRecording: false,
+  recordingId: null,
+};
+
+describe('recentCallFromLeg', () => {
+  it('should record the other party and the talk time', () => {
+    expect(recentCallFromLeg(leg({}))).toMatchObject({
+      number: '+442079460000',
+      outcome: 'ANSWERED',
+      durationSeconds: 60,
+    });
+  });
+
+  it('should mark unanswered inbound calls as missed and skip legs with no number', () => {
+    expect(recentCallFromLeg(leg({ direction: 'INBOUND', from: '2001', answeredAt: null }))).toMatchObject({
+      number: '2001',
+      outcome: 'MISSED',
+      durationSeconds: null,
+    });
+    expect(recentCallFromLeg(leg({ to: null }))).toBeNull();
+    expect(recentCallFromLeg(leg({ monitorMode: 'listen' }))).toBeNull();
+  });
+});
+
+describe('recentCallFromCallLog', () => {
+  it('should treat internal calls placed by the agent as outbound', () => {
+    expect(recentCallFromCallLog(callLog, '7')).toMatchObject({
+      direction: 'OUTBOUND',
+      number: '2002',
+      name: 'John Doe',
+      outcome: 'MISSED',
+      startedAt: Date.parse('2026-03-02T10:15:00.000Z'),
+    });
+    expect(recentCallFromCallLog(callLog, '8')).toMatchObject({ direction: 'INBOUND', number: '2001' });
+  });
+});
+
+describe('mergeRecentCalls', () => {
+  it('should keep only local calls newer than the call log', () => {
+    const merged = mergeRecentCalls([call('local-new', 300), call('local-old', 100)], [call('log-a', 200), call('log-b', 50)]);
+
+    expect(merged.map((c) => c.id)).toEqual(['local-new', 'log-a', 'log-b']);
+  });
+
+  it('should keep everything local when the call log is empty', () => {
+    expect(mergeRecentCalls([call('a', 2), call('b', 1)], [], 1).map((c) => c.id)).toEqual(['a']);
+  });
+});
+
+describe('recentCalls store', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('should persist calls per user', () => {
+    initRecentCalls(7);
+    addRecentCall(call('a', 100));
+    addRecentCall(call('a', 100));
+    applyCallLogHistory([call('log', 50)]);
+
+    expect(get(recentCalls).map((c) => c.id)).toEqual(['a', 'log']);
+
+    initRecentCalls(8);
+    expect(get(recentCalls)).toEqual([]);
+
+    initRecentCalls(7);
+    expect(get(recentCalls).map((c) => c.id)).toEqual(['a', 'log']);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the inbound call screen-pop
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  closeScreenPop,
+  endScreenPop,
+  logScreenPopCall,
+  openScreenPop,
+  screenPops,
+  selectScreenPopRecord,
+} from '../screenPop';
+import { phoneNumbersMatch, type CrmRecord } from '$lib/domain';
+import type { CallLeg } from '../types';
+
+function record(id: string, objectName = 'Contact'): CrmRecord {
+  return { id, objectName, name: `Record ${id}`, phone: '+44 7700 900111', detail: null, url: null };
+}
+
+function response(status: number, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+function leg(overrides: Partial<CallLeg>): CallLeg {
+  return {
+    id: 'leg-1',
+    correlationId: 'leg-1',
+    sipSessionId: 'leg-1',
+    state: 'HUNGUP',
+    direction: 'INBOUND',
+    from: '+44 7700 900111',
+    to: null,
+    muted: false,
+    startedAt: 1_000,
+    answeredAt: 5_000,
+    endedAt: 65_000,
+    cause: null,
+    consultFor: null,
+    transferTarget: null,
+    conferenceId: null,
+    monitorMode: null,
+    ...overrides,
+  };
+}
+
+describe('phoneNumbersMatch', () => {
+  it('ignores formatting and international or trunk prefixes', () => {
+    expect(phoneNumbersMatch('+44 20 3510 0501', '020 3510 0501')).toBe(true);
+    expect(phoneNumbersMatch('+44 (0)7700 900789', '00447700900789')).toBe(true);
+    expect(phoneNumbersMatch('+44 20 3510 0501', '+44 20 3510 0502')).toBe(false);
+    expect(phoneNumbersMatch('2001', '2001')).toBe(false);
+  });
+});
+
+describe('screen-pop store', () => {
+  beforeEach(() => {
+    for (const pop of get(screenPops)) closeScreenPop(pop.legId);
+  });
+
+  it('picks a single match for the agent', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(response(200, { records: [record('c1')] }));
+    await openScreenPop('leg-1', '+44 7700 900111', fetchFn);
+
+    expect(fetchFn).toHaveBeenCalledWith('/api/webphone/screen-pop?number=%2B44%207700%20900111');
+    expect(get(screenPops)).toEqual([
+      expect.objectContaining({ legId: 'leg-1', status: 'ready', selectedId: 'c1', call: null }),
+    ]);
+  });
+
+  it('leaves the choice to the agent when several records match', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(response(200, { records: [record('c1'), record('l1', 'Lead')] }));
+    await openScreenPop('leg-1', '+44 7700 900111', fetchFn);
+    expect(get(screenPops)[0]?.selectedId).toBeNull();
+
+    selectScreenPopRecord('leg-1', 'l1');
+    expect(endScreenPop(leg({}))?.objectName).toBe('Lead');
+    expect(get(screenPops)[0]?.call).toEqual({ direction: 'INBOUND', startedAt: 5_000, endedAt: 65_000 });
+  });
+
+  it("doesn't pop for extensions and closes unanswered calls", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(response(200, { records: [record('c1')] }));
+    await openScreenPop('leg-1', '2001', fetchFn);
+    expect(fetchFn).not.toHaveBeenCalled();
+
+    await openScreenPop('leg-2', '+44 7700 900111', fetchFn);
+    expect(endScreenPop(leg({ id: 'leg-2', answeredAt: null }))?.id).toBe('c1');
+    expect(get(screenPops)).toEqual([]);
+  });
+
+  it('marks the pop failed when the lookup fails', async () => {
+    await openScreenPop('leg-1', '+44 7700 900111', vi.fn().mockResolvedValue(response(500)));
+    expect(get(screenPops)[0]?.status).toBe('failed');
+  });
+});
+
+describe('logScreenPopCall', () => {
+  it('logs the finished call against the chosen record', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(response(200, { activity: { id: 't1' } }));
+    const pop = {
+      legId: 'leg-1',
+      number: '+44 7700 900111',
+      status: 'ready' as const,
+      records: [record('c1')],
+      selectedId: 'c1',
+      call: { direction: 'INBOUND' as const, startedAt: 5_000, endedAt: 65_000 },
+    };
+
+    await expect(logScreenPopCall(pop, 'Called about renewal', fetchFn)).resolves.toEqual({ id: 't1' });
+    const [, init] = fetchFn.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual({
+      recordId: 'c1',
+      objectName: 'Contact',
+      number: '+44 7700 900111',
+      direction: 'INBOUND',
+      startedAt: 5_000,
+      endedAt: 65_000,
+      notes: 'Called about renewal',
+    });
+
+    await expect(logScreenPopCall({ ...pop, selectedId: null }, '', fetchFn)).rejects.toThrow('Choose a record');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for the webphone multi-leg view model
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  MONITOR_CALL_TIMEOUT_MS,
+  buildCallView,
+  callLegs,
+  callView,
+  claimMonitorCall,
+  expectMonitorCall,
+  updateCallLeg,
+  upsertCallLeg,
+} from '../store';
+import type { CallLeg, CallLegState } from '../types';
+
+let clock = 0;
+
+function leg(id: string, state: CallLegState, conferenceId: string | null = null): CallLeg {
+  return {
+    id,
+    correlationId: id,
+    sipSessionId: id,
+    state,
+    direction: 'OUTBOUND',
+    from: null,
+    to: `+44 ${id}`,
+    muted: false,
+    startedAt: ++clock,
+    answeredAt: null,
+    endedAt: null,
+    cause: null,
+    consultFor: null,
+    transferTarget: null,
+    conferenceId,
+    monitorMode: null,
+  };
+}
+
+describe('buildCallView', () => {
+  it('should make the last connected leg active and held legs mergeable', () => {
+    const view = buildCallView([leg('a', 'HELD'), leg('b', 'CONNECTED'), leg('c', 'HUNGUP')]);
+
+    expect(view.groups.map((g) => g.id)).toEqual(['a', 'b', 'c']);
+    expect(view.activeLegIds).toEqual(['b']);
+    expect(view.mergeableLegIds).toEqual(['a']);
+  });
+
+  it('should offer nothing to merge without an active call', () => {
+    const view = buildCallView([leg('a', 'HELD'), leg('b', 'HELD')]);
+
+    expect(view.activeLegIds).toEqual([]);
+    expect(view.mergeableLegIds).toEqual([]);
+  });
+
+  it('should group conference legs and make every live participant active', () => {
+    const view = buildCallView([
+      leg('a', 'CONNECTED', 'conf'),
+      leg('b', 'HELD'),
+      leg('c', 'CONNECTED', 'conf'),
+      leg('d', 'HUNGUP', 'conf'),
+      leg('e', 'CONNECTED', 'conf'),
+    ]);
+
+    expect(view.groups.map((g) => [g.id, g.conference, g.legs.map((l) => l.id)])).toEqual([
+      ['conf', true, ['a', 'c', 'd', 'e']],
+      ['b', false, ['b']],
+    ]);
+    expect(view.activeLegIds).toEqual(['a', 'c', 'e']);
+    expect(view.mergeableLegIds).toEqual(['b']);
+  });
+
+  it('should dissolve a conference with fewer than two live participants', () => {
+    const view = buildCallView([leg('a', 'CONNECTED', 'conf'), leg('b', 'HUNGUP', 'conf')]);
+
+    expect(view.groups.every((g) => !g.conference)).toBe(true);
+    expect(view.activeLegIds).toEqual(['a']);
+  });
+});
+
+describe('updateCallLeg', () => {
+  beforeEach(() => callLegs.set(new Map()));
+
+  it('should patch an existing leg and ignore unknown ids', () => {
+    upsertCallLeg(() => leg('a', 'CONNECTED'));
+    upsertCallLeg(() => leg('b', 'CONNECTED'));
+
+    updateCallLeg('a', { conferenceId: 'conf' });
+    updateCallLeg('b', { conferenceId: 'conf' });
+    updateCallLeg('missing', { conferenceId: 'conf' });
+
+    expect(get(callLegs).size).toBe(2);
+    expect(get(callView).groups).toHaveLength(1);
+    expect(get(callView).activeLegIds).toEqual(['a', 'b']);
+  });
+});
+
+describe('claimMonitorCall', () => {
+  it('should accept a requested call once, for its mode only', () => {
+    expectMonitorCall('nonce-1', 'listen', 0);
+
+    expect(claimMonitorCall('nonce-1', 'barge', 1)).toBe(false);
+    expect(claimMonitorCall('nonce-1', 'listen', 1)).toBe(true);
+    expect(claimMonitorCall('nonce-1', 'listen', 2)).toBe(false);
+  });
+
+  it('should refuse calls without a known nonce or after the request expired', () => {
+    expectMonitorCall('nonce-2', 'whisper', 0);
+
+    expect(claimMonitorCall(null, 'whisper', 1)).toBe(false);
+    expect(claimMonitorCall('forged', 'whisper', 1)).toBe(false);
+    expect(claimMonitorCall('nonce-2', 'whisper', MONITOR_CALL_TIMEOUT_MS)).toBe(false);
+  });
+});
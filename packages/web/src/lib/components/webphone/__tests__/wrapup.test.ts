@@ -0,0 +1,134 @@
+/**
+ * Tests for webphone post-call wrap-up
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  finishWrapup,
+  pendingWrapups,
+  queueWrapup,
+  saveWrapup,
+  wrapupSecondsLeft,
+  wrapupTaskFromLeg,
+  type WrapupTask,
+} from '../wrapup';
+import type { CallLeg } from '../types';
+
+function leg(overrides: Partial<CallLeg>): CallLeg {
+  return {
+    id: 'leg-1',
+    correlationId: 'leg-1',
+    sipSessionId: 'leg-1',
+    state: 'HUNGUP',
+    direction: 'INBOUND',
+    from: '+442079460000',
+    to: null,
+    muted: false,
+    startedAt: 1_000,
+    answeredAt: 5_000,
+    endedAt: 65_000,
+    cause: null,
+    consultFor: null,
+    transferTarget: null,
+    conferenceId: null,
+    monitorMode: null,
+    ...overrides,
+  };
+}
+
+function task(legId: string): WrapupTask {
+  return { legId, number: '+442079460000', direction: 'INBOUND', startedAt: 1_000, endedAt: 65_000 };
+}
+
+function response(status: number, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+describe('wrapupTaskFromLeg', () => {
+  it('wraps up an answered call with the other party', () => {
+    expect(wrapupTaskFromLeg(leg({}))).toEqual(task('leg-1'));
+    expect(wrapupTaskFromLeg(leg({ direction: 'OUTBOUND', from: null, to: '1001' }))?.number).toBe('1001');
+  });
+
+  it('skips calls that were never answered', () => {
+    expect(wrapupTaskFromLeg(leg({ answeredAt: null }))).toBeNull();
+  });
+
+  it('skips monitoring and consultation legs', () => {
+    expect(wrapupTaskFromLeg(leg({ monitorMode: 'listen' }))).toBeNull();
+    expect(wrapupTaskFromLeg(leg({ consultFor: 'leg-0' }))).toBeNull();
+  });
+});
+
+describe('wrapupSecondsLeft', () => {
+  it('counts down from when the prompt was shown', () => {
+    expect(wrapupSecondsLeft(10_000, 30, 10_000)).toBe(30);
+    expect(wrapupSecondsLeft(10_000, 30, 24_500)).toBe(16);
+    expect(wrapupSecondsLeft(10_000, 30, 45_000)).toBe(0);
+  });
+
+  it('has no countdown without a timer', () => {
+    expect(wrapupSecondsLeft(10_000, 0, 45_000)).toBeNull();
+  });
+});
+
+describe('saveWrapup', () => {
+  it('posts the call and the chosen code', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(response(200, { ok: true }));
+    await saveWrapup(task('leg-1'), { code: 'Resolved', notes: 'Sorted' }, fetchFn, []);
+
+    expect(fetchFn).toHaveBeenCalledOnce();
+    const [url, init] = fetchFn.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('/api/webphone/wrapup');
+    expect(JSON.parse(init.body as string)).toEqual({
+      number: '+442079460000',
+      direction: 'INBOUND',
+      startedAt: 1_000,
+      code: 'Resolved',
+      notes: 'Sorted',
+    });
+  });
+
+  it('retries while the call log has not been written', async () => {
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(response(404))
+      .mockResolvedValueOnce(response(404))
+      .mockResolvedValueOnce(response(200, { ok: true }));
+    await saveWrapup(task('leg-1'), { code: 'Resolved', notes: '' }, fetchFn, [0, 0, 0]);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up once the retries are used', async () => {
+    const fetchFn = vi.fn().mockImplementation(async () => response(404, { message: 'Call log not found' }));
+    await expect(
+      saveWrapup(task('leg-1'), { code: 'Resolved', notes: '' }, fetchFn, [0])
+    ).rejects.toThrow('Call log not found');
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry other errors', async () => {
+    const fetchFn = vi.fn().mockResolvedValue(response(400, { message: 'Unknown wrap-up code' }));
+    await expect(
+      saveWrapup(task('leg-1'), { code: 'Nope', notes: '' }, fetchFn, [0])
+    ).rejects.toThrow('Unknown wrap-up code');
+    expect(fetchFn).toHaveBeenCalledOnce();
+  });
+});
+
+describe('pending wrap-ups', () => {
+  beforeEach(() => {
+    for (const pending of get(pendingWrapups)) finishWrapup(pending.legId);
+  });
+
+  it('queues calls in the order they ended', () => {
+    queueWrapup(task('leg-1'));
+    queueWrapup(task('leg-2'));
+    queueWrapup(task('leg-1'));
+    expect(get(pendingWrapups).map((t) => t.legId)).toEqual(['leg-2', 'leg-1']);
+
+    finishWrapup('leg-2');
+    expect(get(pendingWrapups).map((t) => t.legId)).toEqual(['leg-1']);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Audio device selection for the webphone: which microphone calls use,
+ * which speaker the other party is played through, and which speaker
+ * rings for inbound calls (a headset for talking and the laptop speakers
+ * for ringing is the usual setup).
+ *
+ * Choices are device ids from `enumerateDevices()`, kept in localStorage
+ * so they survive a refresh; null means the browser's default device. A
+ * chosen device that has since been unplugged falls back to the default.
+ *
+ * Speaker and ringer selection need `HTMLMediaElement.setSinkId`, which
+ * not every browser has; without it both play through the default output.
+ */
+
+import { writable, type Readable } from 'svelte/store';
+
+export type AudioDeviceRole = 'microphone' | 'speaker' | 'ringer';
+
+export type AudioDevicePreferences = Record<AudioDeviceRole, string | null>;
+
+export interface AudioDeviceOption {
+  deviceId: string;
+  label: string;
+}
+
+export interface AudioDeviceList {
+  microphones: AudioDeviceOption[];
+  speakers: AudioDeviceOption[];
+  /** False until the page has microphone access; names are made up till then. */
+  labelled: boolean;
+}
+
+const STORAGE_KEY = 'webphone.audioDevices';
+
+const NO_PREFERENCES: AudioDevicePreferences = { microphone: null, speaker: null, ringer: null };
+
+/**
+ * The microphones and speakers the browser can see. Labels are blank until
+ * the page has been given microphone access, so unlabelled devices are
+ * numbered instead. The `default` / `communications` pseudo-devices are
+ * left out: "system default" is already the null choice.
+ */
+export async function listAudioDevices(
+  mediaDevices: Pick<MediaDevices, 'enumerateDevices'> = navigator.mediaDevices
+): Promise<AudioDeviceList> {
+  const devices = await mediaDevices.enumerateDevices();
+  const options = (kind: MediaDeviceKind, fallback: string): AudioDeviceOption[] =>
+    devices
+      .filter((d) => d.kind === kind && d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications')
+      .map((d, index) => ({ deviceId: d.deviceId, label: d.label || `${fallback} ${index + 1}` }));
+  return {
+    microphones: options('audioinput', 'Microphone'),
+    speakers: options('audiooutput', 'Speaker'),
+    labelled: devices.some((d) => d.label !== ''),
+  };
+}
+
+/** Whether speaker and ringer selection are possible in this browser. */
+export function canSelectOutputDevice(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+/** `getUserMedia` audio constraints for the chosen microphone. */
+export function microphoneConstraints(deviceId: string | null): MediaTrackConstraints | true {
+  return deviceId ? { deviceId: { ideal: deviceId } } : true;
+}
+
+/**
+ * Route an audio element to the chosen output device. Falls back to the
+ * default output when the device is gone or selection isn't supported.
+ */
+export async function playThrough(element: HTMLMediaElement, deviceId: string | null): Promise<void> {
+  if (!canSelectOutputDevice()) return;
+  const sinkable = element as HTMLMediaElement & { setSinkId(id: string): Promise<void> };
+  try {
+    await sinkable.setSinkId(deviceId ?? '');
+  } catch (err) {
+    console.warn('[webphone] output device unavailable, using the default', err);
+    await sinkable.setSinkId('').catch(() => undefined);
+  }
+}
+
+// =============================================================================
+// Ringtone
+// =============================================================================
+
+/** UK ring cadence: 0.4s on, 0.2s off, 0.4s on, 2s off. */
+const RING_BURSTS: readonly [start: number, end: number][] = [
+  [0, 0.4],
+  [0.6, 1.0],
+];
+const RING_PERIOD_SECONDS = 3;
+const RING_FREQUENCIES_HZ = [400, 450];
+
+/**
+ * Synthesised ringtone played through the ringer device, so there's no
+ * audio asset to ship. The tone is scheduled a cadence at a time for as
+ * long as it rings.
+ */
+export class Ringtone {
+  private context: AudioContext | null = null;
+  private element: HTMLAudioElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  get ringing(): boolean {
+    return this.context !== null;
+  }
+
+  start(deviceId: string | null): void {
+    if (this.context || typeof AudioContext === 'undefined') return;
+    const context = new AudioContext();
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    for (const frequency of RING_FREQUENCIES_HZ) {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = frequency;
+      oscillator.connect(gain);
+      oscillator.start();
+    }
+    const destination = context.createMediaStreamDestination();
+    gain.connect(destination);
+
+    const element = new Audio();
+    element.srcObject = destination.stream;
+    void playThrough(element, deviceId).then(() => element.play()).catch((err) => {
+      console.warn('[webphone] ringtone blocked', err);
+    });
+
+    const schedule = (): void => {
+      const at = context.currentTime;
+      for (const [start, end] of RING_BURSTS) {
+        gain.gain.setValueAtTime(0.2, at + start);
+        gain.gain.setValueAtTime(0, at + end);
+      }
+    };
+    schedule();
+    this.timer = setInterval(schedule, RING_PERIOD_SECONDS * 1000);
+    this.context = context;
+    this.element = element;
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.element?.pause();
+    if (this.element) this.element.srcObject = null;
+    this.element = null;
+    void this.context?.close();
+    this.context = null;
+  }
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const preferences = writable<AudioDevicePreferences>(NO_PREFERENCES);
+
+export const audioDevicePreferences: Readable<AudioDevicePreferences> = { subscribe: preferences.subscribe };
+
+/** Load the saved choices. Call once in the browser. */
+export function initAudioDevicePreferences(): void {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (parsed && typeof parsed === 'object') {
+      const stored = parsed as Partial<Record<AudioDeviceRole, unknown>>;
+      const pick = (role: AudioDeviceRole) => (typeof stored[role] === 'string' ? (stored[role] as string) : null);
+      preferences.set({ microphone: pick('microphone'), speaker: pick('speaker'), ringer: pick('ringer') });
+    }
+  } catch {
+    preferences.set(NO_PREFERENCES);
+  }
+}
+
+export function setAudioDevicePreference(role: AudioDeviceRole, deviceId: string | null): void {
+  preferences.update((current) => {
+    const next = { ...current, [role]: deviceId };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage full or disabled: the choice still applies to this page
+    }
+    return next;
+  });
+}
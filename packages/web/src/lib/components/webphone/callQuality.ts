@@ -0,0 +1,250 @@
+/**
+ * Call quality from the RTP statistics of each connected leg's
+ * `RTCPeerConnection`. While a call is up its stats are sampled every few
+ * seconds for the live readout on the leg (jitter, packet loss, round-trip
+ * time and an estimated MOS); when it ends the samples are boiled down to
+ * a summary that's kept in localStorage (per Charlie user) for looking
+ * back at when someone reports a bad call.
+ *
+ * The MOS is estimated with the simplified ITU-T G.107 E-model most VoIP
+ * monitoring uses. It's an indication, not a measurement: it doesn't know
+ * the codec or anything about the far end's network.
+ */
+
+import { writable, type Readable } from 'svelte/store';
+import type { CallDirection, CallLeg } from './types';
+
+export const CALL_QUALITY_SAMPLE_INTERVAL_MS = 2_000;
+
+export const CALL_QUALITY_HISTORY_LIMIT = 50;
+
+const STORAGE_KEY_PREFIX = 'webphone.callQuality.';
+
+/** Cumulative counters from the leg's `inbound-rtp` audio stats. */
+export interface RtpCounters {
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+export interface CallQualitySample {
+  at: number;
+  jitterMs: number;
+  /** Loss since the previous sample. */
+  packetLossPercent: number;
+  /** Null until the far end has sent an RTCP receiver report. */
+  rttMs: number | null;
+  mos: number;
+  counters: RtpCounters;
+}
+
+export type CallQualityRating = 'good' | 'fair' | 'poor';
+
+export interface CallQualitySummary {
+  legId: string;
+  number: string;
+  direction: CallDirection;
+  startedAt: number;
+  endedAt: number;
+  sampleCount: number;
+  avgMos: number;
+  minMos: number;
+  avgJitterMs: number;
+  maxJitterMs: number;
+  /** Over the whole call. */
+  packetLossPercent: number;
+  avgRttMs: number | null;
+}
+
+const round = (value: number, places = 1): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/** Estimated mean opinion score, from 1 (unusable) to 4.5 (as good as narrowband VoIP gets). */
+export function estimateMos(jitterMs: number, packetLossPercent: number, rttMs: number | null): number {
+  const effectiveLatency = (rttMs ?? 0) / 2 + jitterMs * 2 + 10;
+  let r = effectiveLatency < 160 ? 93.2 - effectiveLatency / 40 : 93.2 - (effectiveLatency - 120) / 10;
+  r -= packetLossPercent * 2.5;
+  if (r <= 0) return 1;
+  const mos = 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r);
+  return round(Math.min(4.5, Math.max(1, mos)), 2);
+}
+
+export function rateMos(mos: number): CallQualityRating {
+  if (mos >= 4) return 'good';
+  if (mos >= 3.6) return 'fair';
+  return 'poor';
+}
+
+/**
+ * A sample from a `getStats()` report, or null if the report has no audio
+ * being received yet. Loss is worked out against `previous` so the live
+ * readout shows how the call is doing now rather than on average.
+ */
+export function callQualitySample(
+  report: RTCStatsReport,
+  previous: CallQualitySample | null,
+  now = Date.now()
+): CallQualitySample | null {
+  let inbound: RTCInboundRtpStreamStats | undefined;
+  let rttSeconds: number | undefined;
+  let pairRttSeconds: number | undefined;
+  report.forEach((stats: RTCStats) => {
+    if (stats.type === 'inbound-rtp' && (stats as RTCInboundRtpStreamStats).kind === 'audio') {
+      inbound = stats as RTCInboundRtpStreamStats;
+    } else if (stats.type === 'remote-inbound-rtp') {
+      rttSeconds ??= (stats as { roundTripTime?: number }).roundTripTime;
+    } else if (stats.type === 'candidate-pair' && (stats as RTCIceCandidatePairStats).nominated) {
+      pairRttSeconds = (stats as RTCIceCandidatePairStats).currentRoundTripTime;
+    }
+  });
+  if (!inbound) return null;
+
+  const counters: RtpCounters = {
+    packetsReceived: inbound.packetsReceived ?? 0,
+    packetsLost: Math.max(0, inbound.packetsLost ?? 0),
+  };
+  const received = counters.packetsReceived - (previous?.counters.packetsReceived ?? 0);
+  const lost = counters.packetsLost - (previous?.counters.packetsLost ?? 0);
+  const packetLossPercent = received + lost > 0 ? round((Math.max(0, lost) / (received + lost)) * 100) : 0;
+
+  const jitterMs = round((inbound.jitter ?? 0) * 1000);
+  const rtt = rttSeconds ?? pairRttSeconds;
+  const rttMs = rtt === undefined ? null : Math.round(rtt * 1000);
+
+  return {
+    at: now,
+    jitterMs,
+    packetLossPercent,
+    rttMs,
+    mos: estimateMos(jitterMs, packetLossPercent, rttMs),
+    counters,
+  };
+}
+
+/** Boil a finished leg's samples down to a summary, or null if it was never sampled. */
+export function summarizeCallQuality(
+  leg: CallLeg,
+  samples: readonly CallQualitySample[]
+): CallQualitySummary | null {
+  const number = leg.direction === 'INBOUND' ? leg.from : leg.to;
+  const last = samples[samples.length - 1];
+  if (!last || !leg.direction || !number) return null;
+
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const rtts = samples.map((s) => s.rttMs).filter((rtt): rtt is number => rtt !== null);
+  const { packetsLost, packetsReceived } = last.counters;
+
+  return {
+    legId: leg.id,
+    number,
+    direction: leg.direction,
+    startedAt: leg.startedAt,
+    endedAt: leg.endedAt ?? last.at,
+    sampleCount: samples.length,
+    avgMos: round(average(samples.map((s) => s.mos)), 2),
+    minMos: Math.min(...samples.map((s) => s.mos)),
+    avgJitterMs: round(average(samples.map((s) => s.jitterMs))),
+    maxJitterMs: Math.max(...samples.map((s) => s.jitterMs)),
+    packetLossPercent:
+      packetsLost + packetsReceived > 0 ? round((packetsLost / (packetsLost + packetsReceived)) * 100) : 0,
+    avgRttMs: rtts.length > 0 ? Math.round(average(rtts)) : null,
+  };
+}
+
+// =============================================================================
+// Live sampling
+// =============================================================================
+
+interface Monitor {
+  timer: ReturnType<typeof setInterval>;
+  samples: CallQualitySample[];
+}
+
+const monitors = new Map<string, Monitor>();
+const live = writable<ReadonlyMap<string, CallQualitySample>>(new Map());
+
+/** Latest sample of each leg being watched. */
+export const liveCallQuality: Readable<ReadonlyMap<string, CallQualitySample>> = { subscribe: live.subscribe };
+
+/** Start sampling a connected leg. Does nothing if it's already being watched. */
+export function watchCallQuality(
+  legId: string,
+  connection: Pick<RTCPeerConnection, 'getStats'>,
+  intervalMs = CALL_QUALITY_SAMPLE_INTERVAL_MS
+): void {
+  if (monitors.has(legId)) return;
+  const monitor: Monitor = { samples: [], timer: setInterval(() => void sample(), intervalMs) };
+  const sample = async (): Promise<void> => {
+    try {
+      const report = await connection.getStats();
+      const next = callQualitySample(report, monitor.samples[monitor.samples.length - 1] ?? null);
+      if (!next || monitors.get(legId) !== monitor) return;
+      monitor.samples.push(next);
+      live.update((current) => new Map(current).set(legId, next));
+    } catch (err) {
+      console.warn('[webphone] getStats failed', err);
+    }
+  };
+  monitors.set(legId, monitor);
+}
+
+/** Stop sampling a leg and hand back everything that was collected. */
+export function stopWatchingCallQuality(legId: string): CallQualitySample[] {
+  const monitor = monitors.get(legId);
+  if (!monitor) return [];
+  clearInterval(monitor.timer);
+  monitors.delete(legId);
+  live.update((current) => {
+    const next = new Map(current);
+    next.delete(legId);
+    return next;
+  });
+  return monitor.samples;
+}
+
+// =============================================================================
+// History
+// =============================================================================
+
+const history = writable<CallQualitySummary[]>([]);
+let storageKey: string | null = null;
+
+/** Newest first. */
+export const callQualityHistory: Readable<readonly CallQualitySummary[]> = { subscribe: history.subscribe };
+
+/** Load the persisted history for this user. Call once the user is known. */
+export function initCallQualityHistory(userId: string | number): void {
+  storageKey = `${STORAGE_KEY_PREFIX}${userId}`;
+  let stored: CallQualitySummary[] = [];
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+    if (Array.isArray(parsed)) stored = parsed as CallQualitySummary[];
+  } catch {
+    stored = [];
+  }
+  history.set(stored.slice(0, CALL_QUALITY_HISTORY_LIMIT));
+}
+
+function persist(summaries: CallQualitySummary[]): CallQualitySummary[] {
+  if (storageKey) {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(summaries));
+    } catch {
+      // Storage full or disabled: the history still works for this page
+    }
+  }
+  return summaries;
+}
+
+export function recordCallQuality(summary: CallQualitySummary): void {
+  history.update((summaries) =>
+    persist(
+      [summary, ...summaries.filter((s) => s.legId !== summary.legId)].slice(0, CALL_QUALITY_HISTORY_LIMIT)
+    )
+  );
+}
+
+export function clearCallQualityHistory(): void {
+  history.set(persist([]));
+}
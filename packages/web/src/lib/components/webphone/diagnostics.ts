@@ -0,0 +1,130 @@
+/**
+ * Checks behind the webphone's "test my setup" page
+ * (`/webphone-test`): can the browser reach webphoned's WebSocket, is the
+ * microphone picking anything up, and does the agent hear themselves back
+ * (an echo test, played through the chosen speaker).
+ */
+
+import { BrowserCharlieClient, CharlieOperations } from '$lib/charlie';
+
+export interface ReachabilityResult {
+  reachable: boolean;
+  /** Time to open the WebSocket. */
+  latencyMs: number | null;
+  error: string | null;
+}
+
+export const REACHABILITY_TIMEOUT_MS = 5_000;
+
+/** RMS level below which the microphone counts as silent. */
+export const SILENT_MIC_LEVEL = 0.01;
+
+type SocketFactory = (url: string) => Pick<WebSocket, 'close' | 'addEventListener'>;
+
+/**
+ * Open (and straight away close) a SIP WebSocket to `wsUrl`. Doesn't
+ * REGISTER: this is about firewalls and proxies, not credentials.
+ */
+export function checkWebSocketReachability(
+  wsUrl: string,
+  timeoutMs = REACHABILITY_TIMEOUT_MS,
+  createSocket: SocketFactory = (url) => new WebSocket(url, 'sip')
+): Promise<ReachabilityResult> {
+  const startedAt = performance.now();
+  return new Promise((resolve) => {
+    let socket: ReturnType<SocketFactory>;
+    try {
+      socket = createSocket(wsUrl);
+    } catch (err) {
+      resolve({ reachable: false, latencyMs: null, error: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+    let settled = false;
+    const settle = (result: ReachabilityResult): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.close();
+      resolve(result);
+    };
+    const timer = setTimeout(
+      () => settle({ reachable: false, latencyMs: null, error: `No answer within ${timeoutMs / 1000}s` }),
+      timeoutMs
+    );
+    socket.addEventListener('open', () =>
+      settle({ reachable: true, latencyMs: Math.round(performance.now() - startedAt), error: null })
+    );
+    // Browsers don't say why a WebSocket failed, only that it did
+    socket.addEventListener('error', () =>
+      settle({ reachable: false, latencyMs: null, error: 'Connection refused or blocked' })
+    );
+  });
+}
+
+/** Root-mean-square level of a block of samples, 0 (silence) to 1 (full scale). */
+export function rmsLevel(samples: ArrayLike<number>): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i] ?? 0;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Report the microphone's level about every animation frame until the
+ * returned function is called.
+ */
+export function meterMicrophone(stream: MediaStream, onLevel: (level: number) => void): () => void {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  let frame = 0;
+  const tick = (): void => {
+    analyser.getFloatTimeDomainData(samples);
+    onLevel(rmsLevel(samples));
+    frame = requestAnimationFrame(tick);
+  };
+  tick();
+  return () => {
+    cancelAnimationFrame(frame);
+    void context.close();
+  };
+}
+
+/** Record `durationMs` of the stream, for playing back in the echo test. */
+export function recordClip(stream: MediaStream, durationMs: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.addEventListener('dataavailable', (ev) => chunks.push(ev.data));
+    recorder.addEventListener('stop', () => resolve(new Blob(chunks, { type: recorder.mimeType })));
+    recorder.addEventListener('error', () => reject(new Error('Recording failed')));
+    recorder.start();
+    setTimeout(() => recorder.stop(), durationMs);
+  });
+}
+
+/**
+ * webphoned's WebSocket URL, from Charlie's `getMediaTransport`. The test
+ * page uses this when the webphone itself hasn't booted (or isn't allowed
+ * to) and so hasn't published the URL in `webphoneStatus`.
+ */
+export async function fetchWebphoneWsUrl(appsyncHttp: string): Promise<string> {
+  const jwtResponse = await fetch('/api/charlie/jwt', { method: 'POST' });
+  if (!jwtResponse.ok) throw new Error(`Charlie JWT unavailable (${jwtResponse.status})`);
+  const { jwt, expiresAt } = (await jwtResponse.json()) as { jwt: string; expiresAt: number };
+
+  const client = new BrowserCharlieClient(appsyncHttp, jwt, expiresAt);
+  const mt = await client.request<{
+    getMediaTransport: { transport: { __typename: string; wsUrl?: string } };
+  }>(CharlieOperations.GetMediaTransportQuery);
+  const { transport } = mt.getMediaTransport;
+  if (transport.__typename !== 'ManagedWebphoneTransport' || !transport.wsUrl) {
+    throw new Error('This org has no managed webphone (BYO-SIP)');
+  }
+  return transport.wsUrl;
+}
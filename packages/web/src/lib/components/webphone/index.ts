@@ -6,6 +6,10 @@
 
 export { default as Webphone } from './Webphone.svelte';
 export { default as AgentState } from './AgentState.svelte';
+export { default as TransferPicker } from './TransferPicker.svelte';
+export { default as WrapupPrompt } from './WrapupPrompt.svelte';
+export { default as AudioDeviceSettings } from './AudioDeviceSettings.svelte';
+export { default as ScreenPopPanel } from './ScreenPopPanel.svelte';
 export {
   WebphoneClient,
   type WebphoneClientEvent,
@@ -16,18 +20,122 @@ export {
   webphoneStatus,
   callLegs,
   callLegList,
+  callView,
+  buildCallView,
+  isLiveCallLeg,
   agentSnapshot,
   upsertCallLeg,
   setCallLegState,
+  updateCallLeg,
   removeCallLeg,
   setAgentSnapshot,
   setWebphoneStatus,
+  expectMonitorCall,
+  claimMonitorCall,
+  MONITOR_CALL_TIMEOUT_MS,
+  type CallLegGroup,
+  type WebphoneCallView,
 } from './store';
 
+export {
+  recentCalls,
+  initRecentCalls,
+  addRecentCall,
+  applyCallLogHistory,
+  clearRecentCalls,
+  mergeRecentCalls,
+  recentCallFromLeg,
+  recentCallFromCallLog,
+  RECENT_CALL_LIMIT,
+} from './recentCalls';
+
+export {
+  pendingWrapups,
+  queueWrapup,
+  finishWrapup,
+  saveWrapup,
+  wrapupTaskFromLeg,
+  wrapupSecondsLeft,
+  WRAPUP_SAVE_RETRY_DELAYS_MS,
+  type WrapupTask,
+  type WrapupSubmission,
+} from './wrapup';
+
+export {
+  scheduledChangeToFollow,
+  fetchAgentPresence,
+  recordAgentPresence,
+  PRESENCE_CHECK_INTERVAL_MS,
+  type AgentPresenceConfig,
+} from './presence';
+
+export {
+  screenPops,
+  openScreenPop,
+  selectScreenPopRecord,
+  selectedScreenPopRecord,
+  endScreenPop,
+  closeScreenPop,
+  lookupCaller,
+  logScreenPopCall,
+  type ScreenPop,
+  type ScreenPopStatus,
+} from './screenPop';
+
+export {
+  audioDevicePreferences,
+  initAudioDevicePreferences,
+  setAudioDevicePreference,
+  listAudioDevices,
+  canSelectOutputDevice,
+  microphoneConstraints,
+  playThrough,
+  Ringtone,
+  type AudioDeviceRole,
+  type AudioDevicePreferences,
+  type AudioDeviceOption,
+  type AudioDeviceList,
+} from './audioDevices';
+
+export {
+  liveCallQuality,
+  callQualityHistory,
+  watchCallQuality,
+  stopWatchingCallQuality,
+  initCallQualityHistory,
+  recordCallQuality,
+  clearCallQualityHistory,
+  callQualitySample,
+  summarizeCallQuality,
+  estimateMos,
+  rateMos,
+  CALL_QUALITY_SAMPLE_INTERVAL_MS,
+  CALL_QUALITY_HISTORY_LIMIT,
+  type CallQualitySample,
+  type CallQualitySummary,
+  type CallQualityRating,
+  type RtpCounters,
+} from './callQuality';
+
+export {
+  checkWebSocketReachability,
+  fetchWebphoneWsUrl,
+  meterMicrophone,
+  recordClip,
+  rmsLevel,
+  REACHABILITY_TIMEOUT_MS,
+  SILENT_MIC_LEVEL,
+  type ReachabilityResult,
+} from './diagnostics';
+
 export type {
   CallLeg,
   CallLegState,
   CallDirection,
+  RecentCall,
+  RecentCallOutcome,
+  TransferTarget,
+  TransferTargetKind,
   WebphoneRegistrationStatus,
   WebphoneStatus,
   WebphoneAgentAvailability,
@@ -0,0 +1,69 @@
+/**
+ * Agent presence states. Admins define named states (Break, Training…)
+ * with reason codes, an optional time limit and weekly schedules; each
+ * maps onto one of Charlie's availabilities. `AgentState.svelte` offers
+ * the states and shows when the current one has run past its limit.
+ *
+ * Charlie is told about the availability first (routing depends on it),
+ * then the change is recorded through `/api/webphone/presence` so
+ * supervisors can report on adherence.
+ *
+ * Scheduled changes and overrun alerts are applied on the server by
+ * `/api/cron/presence`, whether or not the agent has the webphone open.
+ * The webphone checks back every so often and, when the schedule has
+ * moved the agent, sets their Charlie availability to match.
+ */
+
+import type { PresenceChange, PresenceSchedule, PresenceState } from '$lib/domain';
+
+/** What `/api/webphone/presence` tells the webphone about the signed-in agent. */
+export interface AgentPresenceConfig {
+  /** Active states, sorted by name */
+  states: PresenceState[];
+  /** Schedules covering the agent, directly or through their groups */
+  schedules: PresenceSchedule[];
+  groupIds: string[];
+  /** Natterbox user id; null when the Salesforce user isn't linked */
+  userId: string | null;
+  current: PresenceChange | null;
+}
+
+/** How often the webphone checks for scheduled changes and overruns. */
+export const PRESENCE_CHECK_INTERVAL_MS = 30_000;
+
+/**
+ * The change a schedule made that the webphone hasn't followed yet, or
+ * null. Each change is followed once, so an agent who then picks another
+ * availability keeps it.
+ */
+export function scheduledChangeToFollow(
+  config: Pick<AgentPresenceConfig, 'current'>,
+  followedId: string | null
+): PresenceChange | null {
+  const current = config.current;
+  if (!current || current.endedAt || current.source !== 'schedule' || current.id === followedId) return null;
+  return current;
+}
+
+export async function fetchAgentPresence(fetchFn: typeof fetch = fetch): Promise<AgentPresenceConfig> {
+  const response = await fetchFn('/api/webphone/presence');
+  if (!response.ok) throw new Error(`Presence states unavailable (${response.status})`);
+  return (await response.json()) as AgentPresenceConfig;
+}
+
+/** Record the agent's move into a state. Throws if it couldn't be saved. */
+export async function recordAgentPresence(
+  change: { stateId: string; reasonCode: string | null },
+  fetchFn: typeof fetch = fetch
+): Promise<PresenceChange> {
+  const response = await fetchFn('/api/webphone/presence', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(change),
+  });
+  if (!response.ok) {
+    const { message } = (await response.json().catch(() => ({}))) as { message?: string };
+    throw new Error(message ?? `Presence change not saved (${response.status})`);
+  }
+  return ((await response.json()) as { change: PresenceChange }).change;
+}
@@ -0,0 +1,145 @@
+/**
+ * Recent calls for the webphone's history list and redial.
+ *
+ * Finished legs are recorded as they end and kept in localStorage (per
+ * Charlie user), so the list survives a page refresh. On boot the list is
+ * refreshed from Charlie's `listCallLogs`; local entries newer than the
+ * newest call log are kept, as the log lags the call by a little while.
+ */
+
+import { writable, type Readable } from 'svelte/store';
+import type { projectCharlieCallLog } from '$lib/charlie';
+import type { CallLeg, RecentCall, RecentCallOutcome } from './types';
+
+export const RECENT_CALL_LIMIT = 20;
+
+const STORAGE_KEY_PREFIX = 'webphone.recentCalls.';
+
+export type CharlieCallLogItem = Parameters<typeof projectCharlieCallLog>[0];
+
+const CALL_LOG_OUTCOMES: Record<CharlieCallLogItem['outcome'], RecentCallOutcome> = {
+  ANSWERED: 'ANSWERED',
+  TRANSFERRED: 'ANSWERED',
+  MISSED: 'MISSED',
+  ABANDONED: 'MISSED',
+  VOICEMAIL: 'MISSED',
+  FAILED: 'FAILED',
+};
+
+/**
+ * A finished leg as a recent call, or null if there's nothing to redial
+ * (no number, or a supervisor monitoring someone else's call).
+ */
+export function recentCallFromLeg(leg: CallLeg): RecentCall | null {
+  const number = leg.direction === 'INBOUND' ? leg.from : leg.to;
+  if (!leg.direction || !number || leg.monitorMode) return null;
+
+  let outcome: RecentCallOutcome = 'ANSWERED';
+  if (leg.answeredAt === null) outcome = leg.direction === 'INBOUND' ? 'MISSED' : 'FAILED';
+
+  return {
+    id: leg.id,
+    direction: leg.direction,
+    number,
+    name: null,
+    startedAt: leg.startedAt,
+    durationSeconds:
+      leg.answeredAt !== null && leg.endedAt !== null
+        ? Math.round((leg.endedAt - leg.answeredAt) / 1000)
+        : null,
+    outcome,
+  };
+}
+
+/**
+ * A Charlie call log row as a recent call. Internal calls are outbound
+ * when `userId` (the agent's Charlie user id) placed them.
+ */
+export function recentCallFromCallLog(log: CharlieCallLogItem, userId: string | null): RecentCall | null {
+  const outbound =
+    log.direction === 'OUTBOUND' || (log.direction === 'INTERNAL' && userId !== null && log.fromUserId === userId);
+  const number = outbound ? log.toNumber : log.fromNumber;
+  const startedAt = Date.parse(log.startedAt);
+  if (!number || Number.isNaN(startedAt)) return null;
+
+  return {
+    id: log.id,
+    direction: outbound ? 'OUTBOUND' : 'INBOUND',
+    number,
+    name: outbound ? log.toUserName : log.fromUserName,
+    startedAt,
+    durationSeconds: log.durationSeconds,
+    outcome: CALL_LOG_OUTCOMES[log.outcome],
+  };
+}
+
+/**
+ * Combine locally recorded calls with the call log, newest first. The call
+ * log wins wherever it has caught up; only local calls newer than its
+ * newest entry are kept.
+ */
+export function mergeRecentCalls(
+  local: readonly RecentCall[],
+  callLog: readonly RecentCall[],
+  limit = RECENT_CALL_LIMIT
+): RecentCall[] {
+  const newestLogged = Math.max(-Infinity, ...callLog.map((call) => call.startedAt));
+  const seen = new Set<string>();
+  return [...local.filter((call) => call.startedAt > newestLogged), ...callLog]
+    .sort((a, b) => b.startedAt - a.startedAt)
+    .filter((call) => {
+      if (seen.has(call.id)) return false;
+      seen.add(call.id);
+      return true;
+    })
+    .slice(0, limit);
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const recent = writable<RecentCall[]>([]);
+let storageKey: string | null = null;
+
+/** Newest first. */
+export const recentCalls: Readable<readonly RecentCall[]> = { subscribe: recent.subscribe };
+
+function persist(calls: RecentCall[]): RecentCall[] {
+  if (storageKey) {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(calls));
+    } catch {
+      // Storage full or disabled: the list still works for this page
+    }
+  }
+  return calls;
+}
+
+/** Load the persisted list for this user. Call once the user is known. */
+export function initRecentCalls(userId: string | number): void {
+  storageKey = `${STORAGE_KEY_PREFIX}${userId}`;
+  let stored: RecentCall[] = [];
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+    if (Array.isArray(parsed)) stored = parsed as RecentCall[];
+  } catch {
+    stored = [];
+  }
+  recent.set(stored.slice(0, RECENT_CALL_LIMIT));
+}
+
+export function addRecentCall(call: RecentCall): void {
+  recent.update((calls) =>
+    persist([call, ...calls.filter((c) => c.id !== call.id)].slice(0, RECENT_CALL_LIMIT))
+  );
+}
+
+/** Bring the list up to date with the call log. */
+export function applyCallLogHistory(callLog: readonly RecentCall[]): void {
+  recent.update((calls) => persist(mergeRecentCalls(calls, callLog)));
+}
+
+export function clearRecentCalls(): void {
+  recent.set(persist([]));
+}
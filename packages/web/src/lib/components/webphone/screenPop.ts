@@ -0,0 +1,122 @@
+/**
+ * Screen-pop for inbound calls. As a call starts ringing the caller's
+ * number is looked up in the CRM (`/api/webphone/screen-pop`, over the
+ * objects with an autocomplete configuration) and the matching records are
+ * shown on the ringing leg. A single match is picked automatically;
+ * otherwise the agent picks one.
+ *
+ * When an answered call ends with a record picked, the pop stays open so
+ * the agent can log the call against it as an activity.
+ */
+
+import { writable, type Readable } from 'svelte/store';
+import { phoneMatchDigits, type CrmCallActivity, type CrmRecord } from '$lib/domain';
+import type { CallDirection, CallLeg } from './types';
+
+export type ScreenPopStatus = 'searching' | 'ready' | 'failed';
+
+export interface ScreenPop {
+  legId: string;
+  number: string;
+  status: ScreenPopStatus;
+  records: CrmRecord[];
+  selectedId: string | null;
+  /** The finished call, once the leg has ended and can be logged */
+  call: { direction: CallDirection; startedAt: number; endedAt: number } | null;
+}
+
+/** CRM records matching a caller's number. */
+export async function lookupCaller(number: string, fetchFn: typeof fetch = fetch): Promise<CrmRecord[]> {
+  const response = await fetchFn(`/api/webphone/screen-pop?number=${encodeURIComponent(number)}`);
+  if (!response.ok) throw new Error(`Caller lookup failed (${response.status})`);
+  return ((await response.json()) as { records: CrmRecord[] }).records;
+}
+
+export function selectedScreenPopRecord(pop: ScreenPop): CrmRecord | null {
+  return pop.records.find((r) => r.id === pop.selectedId) ?? null;
+}
+
+/** Log a finished call against the pop's chosen record. Throws if it couldn't be saved. */
+export async function logScreenPopCall(
+  pop: ScreenPop,
+  notes: string,
+  fetchFn: typeof fetch = fetch
+): Promise<CrmCallActivity> {
+  const record = selectedScreenPopRecord(pop);
+  if (!record || !pop.call) throw new Error('Choose a record to log the call against');
+
+  const response = await fetchFn('/api/webphone/screen-pop', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      recordId: record.id,
+      objectName: record.objectName,
+      number: pop.number,
+      ...pop.call,
+      notes,
+    }),
+  });
+  if (!response.ok) {
+    const { message } = (await response.json().catch(() => ({}))) as { message?: string };
+    throw new Error(message ?? `Call not logged (${response.status})`);
+  }
+  return ((await response.json()) as { activity: CrmCallActivity }).activity;
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const pops = writable<ScreenPop[]>([]);
+
+/** Open screen-pops: ringing or live inbound calls, then finished calls waiting to be logged. */
+export const screenPops: Readable<readonly ScreenPop[]> = { subscribe: pops.subscribe };
+
+function updatePop(legId: string, changes: Partial<ScreenPop>): void {
+  pops.update((list) => list.map((p) => (p.legId === legId ? { ...p, ...changes } : p)));
+}
+
+/** Look up an inbound caller. Numbers too short to match (extensions, withheld) don't pop. */
+export async function openScreenPop(legId: string, number: string, fetchFn: typeof fetch = fetch): Promise<void> {
+  if (!phoneMatchDigits(number)) return;
+  pops.update((list) => [
+    ...list.filter((p) => p.legId !== legId),
+    { legId, number, status: 'searching', records: [], selectedId: null, call: null },
+  ]);
+
+  try {
+    const records = await lookupCaller(number, fetchFn);
+    updatePop(legId, {
+      status: 'ready',
+      records,
+      selectedId: records.length === 1 ? (records[0]?.id ?? null) : null,
+    });
+  } catch {
+    updatePop(legId, { status: 'failed' });
+  }
+}
+
+export function selectScreenPopRecord(legId: string, recordId: string): void {
+  updatePop(legId, { selectedId: recordId });
+}
+
+/**
+ * The leg has ended: keep the pop for logging if the call was answered and
+ * matched someone, otherwise close it. Returns the chosen record, if any.
+ */
+export function endScreenPop(leg: CallLeg): CrmRecord | null {
+  let record: CrmRecord | null = null;
+  pops.update((list) =>
+    list.flatMap((pop) => {
+      if (pop.legId !== leg.id) return [pop];
+      record = selectedScreenPopRecord(pop);
+      if (leg.answeredAt === null || leg.endedAt === null || !leg.direction || pop.records.length === 0) return [];
+      return [{ ...pop, call: { direction: leg.direction, startedAt: leg.answeredAt, endedAt: leg.endedAt } }];
+    })
+  );
+  return record;
+}
+
+export function closeScreenPop(legId: string): void {
+  pops.update((list) => list.filter((p) => p.legId !== legId));
+}
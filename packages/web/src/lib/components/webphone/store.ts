@@ -6,6 +6,7 @@
  */
 
 import { writable, derived, type Readable, type Writable } from 'svelte/store';
+import type { CallMonitorMode } from '$lib/domain';
 import type { AgentSnapshot, CallLeg, CallLegState, WebphoneStatus } from './types';
 
 /** Registration / connection status of the underlying SIP UA. */
@@ -24,6 +25,90 @@ export const callLegList: Readable<readonly CallLeg[]> = derived(callLegs, ($leg
   return [...$legs.values()].sort((a, b) => a.startedAt - b.startedAt);
 });
 
+/**
+ * How the legs are shown and what can be done with them: legs in the same
+ * conference are grouped, everything else stands alone.
+ */
+export interface CallLegGroup {
+  /** The conference id, or the leg id for a call on its own. */
+  id: string;
+  conference: boolean;
+  legs: readonly CallLeg[];
+}
+
+export interface WebphoneCallView {
+  /** In the order the first leg of each group started. */
+  groups: readonly CallLegGroup[];
+  /**
+   * Legs the agent is talking on right now: a single connected call, or
+   * every live participant of the conference.
+   */
+  activeLegIds: readonly string[];
+  /** Held legs that can be merged into the active call (not monitoring legs). */
+  mergeableLegIds: readonly string[];
+}
+
+const ENDED_STATES: readonly CallLegState[] = ['HUNGUP', 'TRANSFERRED'];
+
+export function isLiveCallLeg(leg: CallLeg): boolean {
+  return !ENDED_STATES.includes(leg.state);
+}
+
+/**
+ * Build the multi-leg view from the flat leg list (sorted by `startedAt`).
+ * A conference with fewer than two live participants is no longer one, so
+ * its legs are shown on their own.
+ */
+export function buildCallView(legs: readonly CallLeg[]): WebphoneCallView {
+  const liveByConference = new Map<string, number>();
+  for (const leg of legs) {
+    if (leg.conferenceId && isLiveCallLeg(leg)) {
+      liveByConference.set(leg.conferenceId, (liveByConference.get(leg.conferenceId) ?? 0) + 1);
+    }
+  }
+  const conferenceOf = (leg: CallLeg): string | null =>
+    leg.conferenceId && (liveByConference.get(leg.conferenceId) ?? 0) >= 2 ? leg.conferenceId : null;
+
+  const groups: CallLegGroup[] = [];
+  const conferences = new Map<string, CallLeg[]>();
+  for (const leg of legs) {
+    const conferenceId = conferenceOf(leg);
+    if (!conferenceId) {
+      groups.push({ id: leg.id, conference: false, legs: [leg] });
+      continue;
+    }
+    const members = conferences.get(conferenceId);
+    if (members) {
+      members.push(leg);
+    } else {
+      const created = [leg];
+      conferences.set(conferenceId, created);
+      groups.push({ id: conferenceId, conference: true, legs: created });
+    }
+  }
+
+  const connected = legs.filter((leg) => leg.state === 'CONNECTED');
+  const liveConference = connected.map(conferenceOf).find((id): id is string => id !== null);
+  const activeLegIds = liveConference
+    ? legs.filter((leg) => conferenceOf(leg) === liveConference && isLiveCallLeg(leg)).map((leg) => leg.id)
+    : connected.slice(-1).map((leg) => leg.id);
+
+  const mergeableLegIds =
+    activeLegIds.length > 0
+      ? legs
+          .filter(
+            (leg) =>
+              leg.state === 'HELD' && !leg.monitorMode && !activeLegIds.includes(leg.id) && !conferenceOf(leg)
+          )
+          .map((leg) => leg.id)
+      : [];
+
+  return { groups, activeLegIds, mergeableLegIds };
+}
+
+/** Multi-leg view of `callLegList`. */
+export const callView: Readable<WebphoneCallView> = derived(callLegList, buildCallView);
+
 /** Agent state widget — bound to `Query.getAgentState` + `Subscription.onAgentStateChanged`. */
 export const agentSnapshot: Writable<AgentSnapshot> = writable({
   organizationId: null,
@@ -65,6 +150,16 @@ export function setCallLegState(id: string, state: CallLegState): void {
   });
 }
 
+export function updateCallLeg(id: string, patch: Partial<Omit<CallLeg, 'id'>>): void {
+  callLegs.update((legs) => {
+    const leg = legs.get(id);
+    if (!leg) return legs;
+    const newMap = new Map(legs);
+    newMap.set(id, { ...leg, ...patch });
+    return newMap;
+  });
+}
+
 export function removeCallLeg(id: string): void {
   callLegs.update((legs) => {
     if (!legs.has(id)) return legs;
@@ -82,6 +177,42 @@ export function setWebphoneStatus(partial: Partial<WebphoneStatus>): void {
   webphoneStatus.update((current) => ({ ...current, ...partial }));
 }
 
+// =============================================================================
+// Monitoring requests
+// =============================================================================
+
+/** How long after asking to monitor a call the webphone waits for it to ring. */
+export const MONITOR_CALL_TIMEOUT_MS = 30_000;
+
+/** Monitoring calls this page asked for, by nonce. */
+const pendingMonitorCalls = new Map<string, { mode: CallMonitorMode; expiresAt: number }>();
+
+/**
+ * Note a monitoring request made from this page, so the webphone answers
+ * the call it produces. `nonce` comes back from `/api/call-status/monitor`.
+ */
+export function expectMonitorCall(nonce: string, mode: CallMonitorMode, now = Date.now()): void {
+  pendingMonitorCalls.set(nonce, { mode, expiresAt: now + MONITOR_CALL_TIMEOUT_MS });
+}
+
+/**
+ * Whether an inbound monitoring call is one this page asked for. Each
+ * request can be claimed once, and only for the mode it was made with.
+ */
+export function claimMonitorCall(
+  nonce: string | null | undefined,
+  mode: CallMonitorMode,
+  now = Date.now()
+): boolean {
+  for (const [key, pending] of pendingMonitorCalls) {
+    if (pending.expiresAt <= now) pendingMonitorCalls.delete(key);
+  }
+  const pending = nonce ? pendingMonitorCalls.get(nonce) : undefined;
+  if (!nonce || !pending || pending.mode !== mode) return false;
+  pendingMonitorCalls.delete(nonce);
+  return true;
+}
+
 // =============================================================================
 // Helpers
 // =============================================================================
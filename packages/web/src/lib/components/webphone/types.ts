@@ -3,6 +3,8 @@
  * `charlie-api/docs/WEBPHONE.md` §4.
  */
 
+import type { CallMonitorMode } from '$lib/domain';
+
 export type CallLegState =
   | 'DIALING' // local user clicked dial, Charlie hasn't responded
   | 'INITIATED' // Charlie returned accepted=true, awaiting first event
@@ -40,9 +42,53 @@ export interface CallLeg {
   to: string | null;
   muted: boolean;
   startedAt: number;
+  /** When the leg first connected; null if it never was. */
+  answeredAt: number | null;
   endedAt: number | null;
   /** Hangup cause from `CallHungupEvent`. */
   cause: string | null;
+  /**
+   * Set on the consultation leg of an attended transfer: the id of the
+   * (held) leg that will be handed over when the transfer completes.
+   */
+  consultFor: string | null;
+  /** Where a transfer in flight (or completed) is sending this leg. */
+  transferTarget: string | null;
+  /** Set on every leg mixed into the same local conference. */
+  conferenceId: string | null;
+  /** Set when this leg is a supervisor listening / whispering / barging on another call. */
+  monitorMode: CallMonitorMode | null;
+}
+
+export type TransferTargetKind = 'user' | 'group' | 'phoneNumber';
+
+/**
+ * Somewhere an agent can pass a call on to. `destination` is what the SIP
+ * REFER / consultation INVITE is sent to: an extension for users and
+ * groups, the E.164 number for phone numbers.
+ */
+export interface TransferTarget {
+  kind: TransferTargetKind;
+  id: string;
+  name: string;
+  destination: string;
+}
+
+export type RecentCallOutcome = 'ANSWERED' | 'MISSED' | 'FAILED';
+
+/**
+ * One entry in the webphone's recent-calls list: a finished local leg, or
+ * a row from Charlie's `listCallLogs`. `number` is the other party, which
+ * is what redial dials.
+ */
+export interface RecentCall {
+  id: string;
+  direction: CallDirection;
+  number: string;
+  name: string | null;
+  startedAt: number;
+  durationSeconds: number | null;
+  outcome: RecentCallOutcome;
 }
 
 export type WebphoneRegistrationStatus =
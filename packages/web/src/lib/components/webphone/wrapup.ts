@@ -0,0 +1,112 @@
+/**
+ * Post-call wrap-up. When an answered call ends the agent is asked for a
+ * wrap-up code and notes (`WrapupPrompt.svelte`); if the org has a wrap-up
+ * timer the prompt closes itself when it runs out. Several calls can be
+ * waiting at once (a conference, back-to-back calls), so they're queued and
+ * prompted for in the order they ended.
+ *
+ * The chosen code is written to the call log via `/api/webphone/wrapup`.
+ * The call log is written a little after hangup, so a 404 from that
+ * endpoint is retried a few times before giving up.
+ */
+
+import { writable, type Readable } from 'svelte/store';
+import type { CallDirection, CallLeg } from './types';
+
+export interface WrapupTask {
+  /** The ended leg */
+  legId: string;
+  /** The other party */
+  number: string;
+  direction: CallDirection;
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface WrapupSubmission {
+  code: string;
+  notes: string;
+}
+
+/** Waits between attempts while the call log hasn't been written yet. */
+export const WRAPUP_SAVE_RETRY_DELAYS_MS: readonly number[] = [5_000, 15_000, 30_000];
+
+/**
+ * The wrap-up owed for a finished leg, or null if there isn't one: calls
+ * that were never answered, supervisor monitoring legs and the consultation
+ * half of an attended transfer don't get wrapped up.
+ */
+export function wrapupTaskFromLeg(leg: CallLeg): WrapupTask | null {
+  const number = leg.direction === 'INBOUND' ? leg.from : leg.to;
+  if (!leg.direction || !number || leg.answeredAt === null || leg.endedAt === null) return null;
+  if (leg.monitorMode || leg.consultFor) return null;
+
+  return {
+    legId: leg.id,
+    number,
+    direction: leg.direction,
+    startedAt: leg.startedAt,
+    endedAt: leg.endedAt,
+  };
+}
+
+/**
+ * Whole seconds until a prompt shown at `shownAt` closes, or null when
+ * there's no timer. The timer runs from when the prompt is shown rather
+ * than from hangup, so a call queued behind another still gets the full time.
+ */
+export function wrapupSecondsLeft(shownAt: number, timerSeconds: number, now: number): number | null {
+  if (timerSeconds <= 0) return null;
+  return Math.max(0, Math.ceil((shownAt + timerSeconds * 1000 - now) / 1000));
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Write the agent's wrap-up to the call log. Throws if it couldn't be saved. */
+export async function saveWrapup(
+  task: WrapupTask,
+  submission: WrapupSubmission,
+  fetchFn: typeof fetch = fetch,
+  retryDelaysMs: readonly number[] = WRAPUP_SAVE_RETRY_DELAYS_MS
+): Promise<void> {
+  const body = JSON.stringify({
+    number: task.number,
+    direction: task.direction,
+    startedAt: task.startedAt,
+    code: submission.code,
+    notes: submission.notes,
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetchFn('/api/webphone/wrapup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+    if (response.ok) return;
+
+    const delay = retryDelaysMs[attempt];
+    if (response.status !== 404 || delay === undefined) {
+      const { message } = (await response.json().catch(() => ({}))) as { message?: string };
+      throw new Error(message ?? `Wrap-up not saved (${response.status})`);
+    }
+    await wait(delay);
+  }
+}
+
+// =============================================================================
+// Store
+// =============================================================================
+
+const queue = writable<WrapupTask[]>([]);
+
+/** Calls waiting for wrap-up, oldest first. */
+export const pendingWrapups: Readable<readonly WrapupTask[]> = { subscribe: queue.subscribe };
+
+export function queueWrapup(task: WrapupTask): void {
+  queue.update((tasks) => [...tasks.filter((t) => t.legId !== task.legId), task]);
+}
+
+export function finishWrapup(legId: string): void {
+  queue.update((tasks) => tasks.filter((t) => t.legId !== legId));
+}
@@ -45,6 +45,10 @@ export interface CallLog {
   toUserId?: string;
   /** Called user name */
   toUserName?: string;
+  /** Wrap-up code the agent recorded after the call */
+  wrapupCode?: string;
+  /** Agent's wrap-up notes */
+  wrapupNotes?: string;
 }
 
 // =============================================================================
@@ -67,6 +71,8 @@ export interface CallLogFilters {
   direction?: CallDirection;
   /** Only show calls with recordings */
   hasRecording?: boolean;
+  /** Filter by recorded wrap-up code */
+  wrapupCode?: string;
 }
 
 // =============================================================================
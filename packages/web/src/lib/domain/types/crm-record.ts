@@ -0,0 +1,94 @@
+/**
+ * CRM Record Domain Types
+ * Platform-agnostic records (contacts, leads, accounts) matched to callers,
+ * and the call activities logged against them
+ */
+
+import type { ISODateTimeString } from './common';
+import type { CallDirection } from './call-log';
+
+// =============================================================================
+// CRM Record Entity
+// =============================================================================
+
+/**
+ * A CRM record whose phone number matched a caller
+ */
+export interface CrmRecord {
+  id: string;
+  /** Platform object name, e.g. `Contact`, `Lead`, `Account` */
+  objectName: string;
+  name: string;
+  /** The number on the record that matched */
+  phone: string | null;
+  /** Extra context shown under the name, e.g. the contact's account or the lead's company */
+  detail: string | null;
+  /** Where to open the record in the CRM; null when the platform has no page for it */
+  url: string | null;
+}
+
+// =============================================================================
+// Call Activity
+// =============================================================================
+
+/**
+ * A call logged against a CRM record
+ */
+export interface CrmCallActivity {
+  id: string;
+  recordId: string;
+  objectName: string;
+  subject: string;
+  createdAt: ISODateTimeString;
+}
+
+/**
+ * Input for logging a finished call against a CRM record
+ */
+export interface LogCallActivityInput {
+  recordId: string;
+  objectName: string;
+  /** The other party's number */
+  number: string;
+  direction: CallDirection;
+  startedAt: ISODateTimeString;
+  durationSeconds: number;
+  subject?: string;
+  notes?: string;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Fewer digits than this can't identify a caller */
+const MIN_MATCH_DIGITS = 7;
+/** Trailing digits compared, so `+44 20…`, `020…` and `0044 20…` all match */
+const MATCH_DIGITS = 10;
+
+/**
+ * The trailing digits of a phone number used to match it against CRM
+ * records, or an empty string if there are too few to match on
+ */
+export function phoneMatchDigits(number: string): string {
+  const digits = number.replace(/\D/g, '');
+  return digits.length < MIN_MATCH_DIGITS ? '' : digits.slice(-MATCH_DIGITS);
+}
+
+/**
+ * Whether two phone numbers are the same line, ignoring formatting and
+ * international or trunk prefixes
+ */
+export function phoneNumbersMatch(a: string, b: string): boolean {
+  const left = phoneMatchDigits(a);
+  const right = phoneMatchDigits(b);
+  if (!left || !right) return false;
+  return left.length <= right.length ? right.endsWith(left) : left.endsWith(right);
+}
+
+/**
+ * Default subject for a logged call, e.g. "Inbound call +44 20 3510 0501"
+ */
+export function callActivitySubject(direction: CallDirection, number: string): string {
+  return `${direction} call ${number}`;
+}
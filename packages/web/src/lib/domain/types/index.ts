@@ -23,4 +23,7 @@ export * from './license';
 export * from './monitoring';
 export * from './call-reporting';
 export * from './wallboard';
-export * from './skill';
\ No newline at end of file
+export * from './skill';
+export * from './wrapup';
+export * from './presence';
+export * from './crm-record';
\ No newline at end of file
@@ -38,6 +38,26 @@ export interface EventLog {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Input for writing an event log entry (e.g. an audit record)
+ */
+export interface CreateEventLogInput {
+  type: string;
+  message: string;
+  severity: LogSeverity;
+  source?: string;
+  /** Natterbox user the event is attributed to */
+  userId?: string;
+  userName?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * How a supervisor joins a live call: listen only, whisper (heard by the
+ * agent but not the caller) or barge (heard by both)
+ */
+export type CallMonitorMode = 'listen' | 'whisper' | 'barge';
+
 /**
  * An error log entry
  */
@@ -0,0 +1,398 @@
+/**
+ * Presence Domain Types
+ * Platform-agnostic agent presence states, schedules and state history
+ */
+
+import type { ISODateTimeString } from './common';
+
+// =============================================================================
+// Presence State Entity
+// =============================================================================
+
+/** Charlie's agent availability; every presence state maps onto one of these */
+export type PresenceAvailability = 'AVAILABLE' | 'ON_BREAK' | 'BUSY' | 'AWAY' | 'OFFLINE';
+
+export const PRESENCE_AVAILABILITIES: readonly PresenceAvailability[] = [
+  'AVAILABLE',
+  'ON_BREAK',
+  'BUSY',
+  'AWAY',
+  'OFFLINE',
+];
+
+/**
+ * An admin-defined state agents can put themselves in, e.g. "Break" with
+ * reason codes Lunch and Training. Routing only sees the underlying
+ * availability.
+ */
+export interface PresenceState {
+  id: string;
+  name: string;
+  availability: PresenceAvailability;
+  /** Reasons the agent picks from when entering the state; empty for none */
+  reasonCodes: string[];
+  /** Agents and supervisors are alerted once the state has lasted this long; null for no limit */
+  maxDurationMinutes: number | null;
+  /** Inactive states stay in history but are no longer offered */
+  active: boolean;
+  lastModified: string;
+}
+
+/**
+ * Input for creating a new presence state
+ */
+export interface CreatePresenceStateInput {
+  name: string;
+  availability: PresenceAvailability;
+  reasonCodes?: string[];
+  maxDurationMinutes?: number | null;
+  active?: boolean;
+}
+
+/**
+ * Input for updating an existing presence state
+ */
+export interface UpdatePresenceStateInput {
+  name?: string;
+  availability?: PresenceAvailability;
+  reasonCodes?: string[];
+  maxDurationMinutes?: number | null;
+  active?: boolean;
+}
+
+// =============================================================================
+// Presence Schedule Entity
+// =============================================================================
+
+/**
+ * One scheduled change: on each of `days` at `time` the agent is moved to
+ * the state.
+ */
+export interface PresenceScheduleEntry {
+  /** Days of the week, 0 = Sunday */
+  days: number[];
+  /** Local time in the schedule's timezone, `HH:MM` */
+  time: string;
+  stateId: string;
+  reasonCode: string | null;
+}
+
+/**
+ * A weekly timetable of state changes for some users and/or groups. A
+ * schedule naming the user directly wins over one that applies through
+ * their groups.
+ */
+export interface PresenceSchedule {
+  id: string;
+  name: string;
+  userIds: string[];
+  groupIds: string[];
+  /** IANA timezone the entry times are in, e.g. `Europe/London` */
+  timezone: string;
+  entries: PresenceScheduleEntry[];
+  active: boolean;
+  lastModified: string;
+}
+
+/**
+ * Input for creating a new presence schedule
+ */
+export interface CreatePresenceScheduleInput {
+  name: string;
+  userIds?: string[];
+  groupIds?: string[];
+  timezone: string;
+  entries: PresenceScheduleEntry[];
+  active?: boolean;
+}
+
+/**
+ * Input for updating an existing presence schedule
+ */
+export interface UpdatePresenceScheduleInput {
+  name?: string;
+  userIds?: string[];
+  groupIds?: string[];
+  timezone?: string;
+  entries?: PresenceScheduleEntry[];
+  active?: boolean;
+}
+
+// =============================================================================
+// Presence History
+// =============================================================================
+
+/** Who moved the agent into a state */
+export type PresenceChangeSource = 'agent' | 'schedule';
+
+/**
+ * A period an agent spent in one state. The current period has no end.
+ */
+export interface PresenceChange {
+  id: string;
+  userId: string;
+  userName: string;
+  /** Null when the agent picked a bare availability rather than a defined state */
+  stateId: string | null;
+  stateName: string;
+  availability: PresenceAvailability;
+  reasonCode: string | null;
+  source: PresenceChangeSource;
+  startedAt: ISODateTimeString;
+  endedAt: ISODateTimeString | null;
+  /** When the agent and their supervisors were told the period ran past its limit */
+  overrunAlertedAt: ISODateTimeString | null;
+}
+
+/**
+ * Input for recording a state change; ends the agent's current period
+ */
+export interface RecordPresenceChangeInput {
+  userId: string;
+  userName: string;
+  stateId: string | null;
+  stateName: string;
+  availability: PresenceAvailability;
+  reasonCode?: string | null;
+  source: PresenceChangeSource;
+  /** Defaults to now */
+  at?: ISODateTimeString;
+}
+
+/**
+ * Filter for presence history; periods overlapping `from`..`to` are returned
+ */
+export interface PresenceHistoryFilter {
+  from: ISODateTimeString;
+  to: ISODateTimeString;
+  userId?: string;
+  limit?: number;
+}
+
+/**
+ * Time an agent spent in each state over a reporting window, and how often
+ * they stayed in a state past its limit
+ */
+export interface PresenceAdherence {
+  userId: string;
+  userName: string;
+  /** Seconds per state name */
+  secondsByState: Record<string, number>;
+  totalSeconds: number;
+  /** Periods that ran past their state's max duration */
+  overruns: number;
+  /** Seconds spent beyond the max duration, summed over overruns */
+  overrunSeconds: number;
+  /** Share of time-limited periods ended within their limit, 0-100; null when there were none */
+  adherencePercent: number | null;
+  /** Changes made by a schedule rather than the agent */
+  scheduledChanges: number;
+  changes: number;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_WEEK = 7 * 24 * 60;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Whether a schedule entry time is a valid `HH:MM`
+ */
+export function isPresenceScheduleTime(time: string): boolean {
+  return TIME_PATTERN.test(time);
+}
+
+/**
+ * Whether the runtime knows an IANA timezone name
+ */
+export function isPresenceTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * When a period in the state becomes overdue, or null if the state has no limit
+ */
+export function presenceOverdueAt(state: Pick<PresenceState, 'maxDurationMinutes'>, since: ISODateTimeString): number | null {
+  if (!state.maxDurationMinutes) return null;
+  const start = Date.parse(since);
+  return Number.isNaN(start) ? null : start + state.maxDurationMinutes * 60_000;
+}
+
+/**
+ * Minutes since Sunday midnight of an instant, in a timezone
+ */
+function localWeekMinutes(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  const day = WEEKDAYS.indexOf(part('weekday'));
+  return Math.max(day, 0) * 24 * 60 + Number(part('hour')) * 60 + Number(part('minute'));
+}
+
+/**
+ * The scheduled change most recently due for a user, looking back up to a
+ * week. Schedules naming the user are used before those that apply through
+ * their groups; returns null when no active schedule covers them.
+ */
+export function duePresenceScheduleEntry(
+  schedules: readonly PresenceSchedule[],
+  userId: string,
+  groupIds: readonly string[],
+  now: Date = new Date()
+): { schedule: PresenceSchedule; entry: PresenceScheduleEntry; dueAt: Date } | null {
+  const active = schedules.filter(s => s.active && s.entries.length > 0);
+  const direct = active.filter(s => s.userIds.includes(userId));
+  const applicable = direct.length > 0 ? direct : active.filter(s => s.groupIds.some(id => groupIds.includes(id)));
+
+  let best: { schedule: PresenceSchedule; entry: PresenceScheduleEntry; minutesAgo: number } | null = null;
+  for (const schedule of applicable) {
+    const nowMinutes = localWeekMinutes(now, schedule.timezone);
+    for (const entry of schedule.entries) {
+      const match = TIME_PATTERN.exec(entry.time);
+      if (!match) continue;
+      const minuteOfDay = Number(match[1]) * 60 + Number(match[2]);
+      for (const day of entry.days) {
+        const minutesAgo = (nowMinutes - (day * 24 * 60 + minuteOfDay) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+        if (!best || minutesAgo < best.minutesAgo) best = { schedule, entry, minutesAgo };
+      }
+    }
+  }
+  if (!best) return null;
+
+  const dueAt = new Date(now.getTime() - best.minutesAgo * 60_000);
+  dueAt.setSeconds(0, 0);
+  return { schedule: best.schedule, entry: best.entry, dueAt };
+}
+
+/**
+ * What deciding an agent's scheduled change needs to know about them
+ */
+export interface AgentPresenceSchedule {
+  /** Natterbox user id; null when the agent isn't linked to one */
+  userId: string | null;
+  groupIds: readonly string[];
+  states: readonly PresenceState[];
+  schedules: readonly PresenceSchedule[];
+  current: PresenceChange | null;
+}
+
+/**
+ * A scheduled change that has fallen due for an agent
+ */
+export interface DuePresenceChange {
+  state: PresenceState;
+  reasonCode: string | null;
+  dueAt: Date;
+}
+
+/**
+ * The scheduled change the agent should be moved to now, or null. A change
+ * only applies once: if the agent has changed state since it fell due, they
+ * keep the state they chose.
+ */
+export function duePresenceChange(agent: AgentPresenceSchedule, now: Date = new Date()): DuePresenceChange | null {
+  if (!agent.userId) return null;
+  const due = duePresenceScheduleEntry(agent.schedules, agent.userId, agent.groupIds, now);
+  if (!due) return null;
+  if (agent.current && Date.parse(agent.current.startedAt) >= due.dueAt.getTime()) return null;
+
+  const state = agent.states.find(s => s.active && s.id === due.entry.stateId);
+  if (!state || agent.current?.stateId === state.id) return null;
+  return { state, reasonCode: due.entry.reasonCode, dueAt: due.dueAt };
+}
+
+/**
+ * Milliseconds an open period has run past its state's limit, or 0 if it hasn't
+ */
+export function presenceOverrunMs(
+  change: PresenceChange | null,
+  states: readonly PresenceState[],
+  now: number = Date.now()
+): number {
+  if (!change || change.endedAt) return 0;
+  const state = states.find(s => s.id === change.stateId);
+  const overdueAt = state ? presenceOverdueAt(state, change.startedAt) : null;
+  return overdueAt === null ? 0 : Math.max(0, now - overdueAt);
+}
+
+/**
+ * Summarise presence history per agent over a reporting window. Periods are
+ * clipped to the window; an open period runs until `to` (or now, if sooner).
+ */
+export function summarizePresenceAdherence(
+  changes: readonly PresenceChange[],
+  states: readonly PresenceState[],
+  from: ISODateTimeString,
+  to: ISODateTimeString,
+  now: number = Date.now()
+): PresenceAdherence[] {
+  const windowStart = Date.parse(from);
+  const windowEnd = Math.min(Date.parse(to), now);
+  const statesById = new Map(states.map(s => [s.id, s]));
+  const byUser = new Map<string, PresenceAdherence & { limited: number }>();
+
+  for (const change of changes) {
+    const started = Date.parse(change.startedAt);
+    const ended = change.endedAt ? Date.parse(change.endedAt) : now;
+    const seconds = Math.max(0, (Math.min(ended, windowEnd) - Math.max(started, windowStart)) / 1000);
+
+    let row = byUser.get(change.userId);
+    if (!row) {
+      row = {
+        userId: change.userId,
+        userName: change.userName,
+        secondsByState: {},
+        totalSeconds: 0,
+        overruns: 0,
+        overrunSeconds: 0,
+        adherencePercent: null,
+        scheduledChanges: 0,
+        changes: 0,
+        limited: 0,
+      };
+      byUser.set(change.userId, row);
+    }
+
+    row.secondsByState[change.stateName] = (row.secondsByState[change.stateName] ?? 0) + seconds;
+    row.totalSeconds += seconds;
+    if (started >= windowStart && started <= windowEnd) {
+      row.changes += 1;
+      if (change.source === 'schedule') row.scheduledChanges += 1;
+    }
+
+    const state = change.stateId ? statesById.get(change.stateId) : undefined;
+    const overdueAt = state ? presenceOverdueAt(state, change.startedAt) : null;
+    if (overdueAt !== null) {
+      row.limited += 1;
+      if (ended > overdueAt) {
+        row.overruns += 1;
+        row.overrunSeconds += (Math.min(ended, windowEnd) - Math.max(overdueAt, windowStart)) / 1000;
+      }
+    }
+  }
+
+  return [...byUser.values()]
+    .map(({ limited, ...row }) => ({
+      ...row,
+      totalSeconds: Math.round(row.totalSeconds),
+      overrunSeconds: Math.max(0, Math.round(row.overrunSeconds)),
+      secondsByState: Object.fromEntries(
+        Object.entries(row.secondsByState).map(([name, seconds]) => [name, Math.round(seconds)])
+      ),
+      adherencePercent: limited > 0 ? Math.round(((limited - row.overruns) / limited) * 100) : null,
+    }))
+    .sort((a, b) => a.userName.localeCompare(b.userName));
+}
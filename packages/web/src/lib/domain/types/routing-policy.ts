@@ -107,6 +107,81 @@ export interface PolicyViewport {
   zoom: number;
 }
 
+// =============================================================================
+// Revision History Types
+// =============================================================================
+
+/**
+ * A saved revision of a routing policy, without its content
+ */
+export interface PolicyRevisionSummary {
+  /** Unique identifier */
+  id: string;
+  /** Policy this revision belongs to */
+  policyId: string;
+  /** Sequential revision number, starting at 1 */
+  revision: number;
+  /** Policy name at the time of the save */
+  name: string;
+  /** Optional note, e.g. "Restored from revision 3" */
+  comment?: string;
+  /** User who saved the revision */
+  authorId: string;
+  /** Name of the user who saved the revision */
+  authorName: string;
+  /** When the revision was saved */
+  createdDate: string;
+}
+
+/**
+ * A saved revision of a routing policy including its content
+ */
+export interface PolicyRevision extends PolicyRevisionSummary {
+  /** Editor policy data as passed to buildPayload, as a JSON string */
+  snapshot: string;
+}
+
+// =============================================================================
+// Template Types
+// =============================================================================
+
+/**
+ * A reusable sub-flow saved from the editor, shared across the org
+ */
+export interface PolicyTemplate {
+  /** Unique identifier */
+  id: string;
+  /** Name shown in the node palette */
+  name: string;
+  description?: string;
+  /** Template fragment (nodes, edges and parameters), as a JSON string */
+  body: string;
+  /** User who saved the template */
+  authorId: string;
+  /** Name of the user who saved the template */
+  authorName: string;
+  /** When the template was saved */
+  createdDate: string;
+}
+
+// =============================================================================
+// Editor Presence Types
+// =============================================================================
+
+/**
+ * Another session with a policy open in the editor
+ */
+export interface PolicyEditorPresence {
+  userId: string;
+  userName: string;
+  /** Whether the session has unsaved changes */
+  editing: boolean;
+  /** When the session opened the policy */
+  openedAt: string;
+  /** Last heartbeat from the session */
+  lastSeenAt: string;
+}
+
 // =============================================================================
 // Input Types
 // =============================================================================
@@ -132,6 +207,28 @@ export interface UpdateRoutingPolicyInput {
   policy?: string; // JSON string of policy configuration
 }
 
+/**
+ * Input for recording a policy revision
+ */
+export interface CreatePolicyRevisionInput {
+  policyId: string;
+  name: string;
+  snapshot: string;
+  comment?: string;
+  /** Defaults to the current user where the platform records it */
+  authorId?: string;
+  authorName?: string;
+}
+
+/**
+ * Input for saving a policy template
+ */
+export interface CreatePolicyTemplateInput {
+  name: string;
+  description?: string;
+  body: string;
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -16,7 +16,15 @@ export interface Wallboard {
   description: string;
   type: 'queue' | 'agent' | 'custom';
   enabled: boolean;
-  configuration?: string;
+  layout: WallboardLayout;
+  /** Kiosk links, including expired and revoked ones */
+  shares: WallboardShare[];
+  /**
+   * The stored configuration is in a format this app can't read, e.g.
+   * another tool's or a newer layout version. The layout is shown empty,
+   * and the configuration is only written over with `replaceConfiguration`.
+   */
+  unreadableConfiguration: boolean;
   lastModified: string;
 }
 
@@ -28,7 +36,7 @@ export interface CreateWallboardInput {
   description?: string;
   type?: 'queue' | 'agent' | 'custom';
   enabled?: boolean;
-  configuration?: string;
+  layout?: WallboardLayout;
 }
 
 /**
@@ -39,5 +47,427 @@ export interface UpdateWallboardInput {
   description?: string;
   type?: 'queue' | 'agent' | 'custom';
   enabled?: boolean;
-  configuration?: string;
+  layout?: WallboardLayout;
+  shares?: WallboardShare[];
+  /**
+   * Write the layout or shares over configuration this app can't read.
+   * The replaced configuration is kept, verbatim, in the new one.
+   */
+  replaceConfiguration?: boolean;
 }
+
+/** Why a layout or shares weren't saved over configuration this app can't read */
+export const WALLBOARD_UNREADABLE_CONFIGURATION_ERROR =
+  "This wallboard's configuration was made by another tool or a newer version and can't be read here. Replace it to save a new layout.";
+
+// =============================================================================
+// Wallboard Stats
+// =============================================================================
+
+/**
+ * Contact centre figures a wallboard displays. Call and wait figures are
+ * live except `totalCallsToday`, `avgCallDuration` and `serviceLevel`,
+ * which cover the filter's time window.
+ */
+export interface WallboardStats {
+  activeCalls: number;
+  callsWaiting: number;
+  agentsAvailable: number;
+  agentsBusy: number;
+  agentsOffline: number;
+  totalCallsToday: number;
+  /** Seconds */
+  avgCallDuration: number;
+  /** Seconds */
+  avgWaitTime: number;
+  /** Seconds */
+  longestWait: number;
+  /** Percent of inbound calls answered within WALLBOARD_SERVICE_LEVEL_SECONDS */
+  serviceLevel: number;
+  callsByQueue: { name: string; count: number }[];
+  callsByDirection: { inbound: number; outbound: number; internal: number };
+  timestamp: string;
+}
+
+/** Inbound calls answered within this many seconds count towards the service level */
+export const WALLBOARD_SERVICE_LEVEL_SECONDS = 20;
+
+export type WallboardTimeWindow = '15m' | '1h' | '4h' | 'today';
+
+export const WALLBOARD_TIME_WINDOWS: readonly { value: WallboardTimeWindow; label: string }[] = [
+  { value: '15m', label: 'Last 15 minutes' },
+  { value: '1h', label: 'Last hour' },
+  { value: '4h', label: 'Last 4 hours' },
+  { value: 'today', label: 'Today' },
+];
+
+/**
+ * What a set of stats covers. The queue narrows call figures to calls
+ * in that queue; the group narrows agent figures to its members.
+ */
+export interface WallboardStatsFilter {
+  /** Queue name, or null for all queues */
+  queue: string | null;
+  groupId: string | null;
+  window: WallboardTimeWindow;
+}
+
+export const DEFAULT_WALLBOARD_STATS_FILTER: WallboardStatsFilter = { queue: null, groupId: null, window: 'today' };
+
+export function isWallboardTimeWindow(value: unknown): value is WallboardTimeWindow {
+  return WALLBOARD_TIME_WINDOWS.some(w => w.value === value);
+}
+
+// =============================================================================
+// Live Wallboard State
+// =============================================================================
+
+export type WallboardAgentStatus = 'available' | 'busy' | 'offline';
+
+/** An agent as wallboards count them */
+export interface WallboardAgent {
+  id: string;
+  /** Platform user ID, which realtime agent-state events are keyed by */
+  platformId: number | null;
+  status: WallboardAgentStatus;
+  groupIds: string[];
+}
+
+/** A call in progress */
+export interface WallboardCall {
+  id: string;
+  direction: 'inbound' | 'outbound' | 'internal';
+  /** Ringing or queued and not yet answered */
+  waiting: boolean;
+  startedAt: string;
+  /** Queue name, or null if the call isn't in a queue */
+  queue: string | null;
+}
+
+/** Call-log figures for a filter's time window */
+export interface WallboardCallTotals {
+  totalCalls: number;
+  /** Seconds */
+  avgCallDuration: number;
+  /** Percent; 100 when no inbound calls were made */
+  serviceLevel: number;
+}
+
+/** The stats fields that changed, with the new timestamp */
+export type WallboardStatsDelta = Partial<Omit<WallboardStats, 'timestamp'>> & { timestamp: string };
+
+// =============================================================================
+// Metrics
+// =============================================================================
+
+/** Single-number stats a widget can be bound to */
+export type WallboardMetric =
+  | 'activeCalls'
+  | 'callsWaiting'
+  | 'agentsAvailable'
+  | 'agentsBusy'
+  | 'agentsOffline'
+  | 'totalCallsToday'
+  | 'avgCallDuration'
+  | 'avgWaitTime'
+  | 'longestWait'
+  | 'serviceLevel';
+
+export const WALLBOARD_METRICS: Record<WallboardMetric, { label: string; format: 'count' | 'duration' | 'percent' }> = {
+  activeCalls: { label: 'Active calls', format: 'count' },
+  callsWaiting: { label: 'Calls waiting', format: 'count' },
+  agentsAvailable: { label: 'Agents available', format: 'count' },
+  agentsBusy: { label: 'Agents busy', format: 'count' },
+  agentsOffline: { label: 'Agents offline', format: 'count' },
+  totalCallsToday: { label: 'Calls in window', format: 'count' },
+  avgCallDuration: { label: 'Average call duration', format: 'duration' },
+  avgWaitTime: { label: 'Average wait', format: 'duration' },
+  longestWait: { label: 'Longest wait', format: 'duration' },
+  serviceLevel: { label: 'Service level', format: 'percent' },
+};
+
+export function isWallboardMetric(value: unknown): value is WallboardMetric {
+  return typeof value === 'string' && value in WALLBOARD_METRICS;
+}
+
+// =============================================================================
+// Trends
+// =============================================================================
+
+/** Trends are counted in intervals of this many minutes, from midnight UTC */
+export const WALLBOARD_TREND_INTERVAL_MINUTES = 15;
+
+/** A figure tracked interval by interval through the day */
+export type WallboardTrendSeries = 'calls' | 'abandonRate' | 'occupancy';
+
+export const WALLBOARD_TRENDS: Record<WallboardTrendSeries, { label: string; format: 'count' | 'percent' }> = {
+  calls: { label: 'Calls per 15 minutes', format: 'count' },
+  abandonRate: { label: 'Abandon rate', format: 'percent' },
+  occupancy: { label: 'Agent occupancy', format: 'percent' },
+};
+
+export function isWallboardTrendSeries(value: unknown): value is WallboardTrendSeries {
+  return typeof value === 'string' && value in WALLBOARD_TRENDS;
+}
+
+/** What was counted in one interval for a queue and agent group */
+export interface WallboardTrendCounts {
+  /** Calls that started in the interval */
+  calls: number;
+  /** Inbound calls answered after waiting */
+  answered: number;
+  /** Inbound calls that hung up while still waiting */
+  abandoned: number;
+  /** Busy agents, summed over the samples taken in the interval */
+  busyAgents: number;
+  /** Available and busy agents, summed over the same samples */
+  staffedAgents: number;
+}
+
+export interface WallboardTrendBucket extends WallboardTrendCounts {
+  /** Start of the interval */
+  start: string;
+}
+
+/** A finished call as a call log records it, for counting trends */
+export interface WallboardTrendCall {
+  startedAt: string;
+  inbound: boolean;
+  /** Whether anyone talked on the call; an inbound call nobody answered was abandoned */
+  answered: boolean;
+}
+
+/**
+ * A series through today, interval by interval from midnight UTC, beside
+ * the same weekday last week. Today's values stop at the current interval;
+ * null marks an interval with nothing recorded.
+ */
+export interface WallboardTrend {
+  series: WallboardTrendSeries;
+  /** Start of each of the day's intervals */
+  intervals: string[];
+  today: (number | null)[];
+  lastWeek: (number | null)[];
+}
+
+// =============================================================================
+// Alert Rules
+// =============================================================================
+
+export type WallboardAlertLevel = 'amber' | 'red';
+
+/** What a rule checks: a metric, or the live call count of each queue in `callsByQueue` */
+export type WallboardRuleField = WallboardMetric | 'queueCalls';
+
+/**
+ * A threshold rule. With `comparison: 'above'` a value over a threshold
+ * breaches it (longest wait over 60s); with `'below'`, a value under it
+ * does (service level under 80%). Either threshold may be left out.
+ */
+export interface WallboardAlertRule {
+  id: string;
+  field: WallboardRuleField;
+  /** For `queueCalls`: the queue checked, or null for every queue */
+  queue: string | null;
+  comparison: 'above' | 'below';
+  amber: number | null;
+  red: number | null;
+  /** Flash widgets showing the field while the rule is breached */
+  flash: boolean;
+  /** Play a sound on wallboards when the rule is breached or turns red */
+  sound: boolean;
+  /** Send notifications once the rule has been breached this long; null never notifies */
+  notifyAfterSeconds: number | null;
+}
+
+/** A wallboard's rules and where breach notifications go */
+export interface WallboardAlertSettings {
+  rules: WallboardAlertRule[];
+  /** Notifications are POSTed here as JSON */
+  webhookUrl: string | null;
+  emails: string[];
+}
+
+/** A rule breached by a set of stats; `queue` is set for `queueCalls` rules */
+export interface WallboardRuleBreach {
+  rule: WallboardAlertRule;
+  level: WallboardAlertLevel;
+  value: number;
+  queue: string | null;
+}
+
+export const WALLBOARD_RULE_FIELDS: Record<WallboardRuleField, { label: string }> = {
+  ...WALLBOARD_METRICS,
+  queueCalls: { label: 'Calls in queue' },
+};
+
+export function isWallboardRuleField(value: unknown): value is WallboardRuleField {
+  return typeof value === 'string' && value in WALLBOARD_RULE_FIELDS;
+}
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+/** Bumped whenever the stored layout shape changes; see `parseWallboardLayout` */
+export const WALLBOARD_LAYOUT_VERSION = 1;
+
+export const WALLBOARD_GRID_COLUMNS = 12;
+
+export type WallboardWidgetType =
+  | 'kpi'
+  | 'queue-table'
+  | 'agent-grid'
+  | 'direction-pie'
+  | 'sla-gauge'
+  | 'ticker'
+  | 'clock'
+  | 'sparkline'
+  | 'line-chart';
+
+export interface WallboardWidgetOptions {
+  /** SLA gauge: the metric's target; at or under it is on target */
+  target?: number;
+  /** Ticker: messages scrolled alongside the bound metric */
+  messages?: string[];
+  /** Clock: IANA timezone, or the viewer's own when unset */
+  timezone?: string;
+  /** Sparkline and line chart: the trend drawn */
+  trend?: WallboardTrendSeries;
+}
+
+/** A widget on the wallboard grid. Position and size are in grid cells. */
+export interface WallboardWidget {
+  id: string;
+  type: WallboardWidgetType;
+  title: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** The stat shown, for widget types that take one */
+  metric: WallboardMetric | null;
+  filters: WallboardStatsFilter;
+  options: WallboardWidgetOptions;
+}
+
+/** The wallboard's design and alert rules, stored as JSON in the wallboard's configuration */
+export interface WallboardLayout {
+  version: typeof WALLBOARD_LAYOUT_VERSION;
+  columns: number;
+  widgets: WallboardWidget[];
+  alerts: WallboardAlertSettings;
+}
+
+export interface WallboardWidgetDefinition {
+  label: string;
+  description: string;
+  defaultSize: { w: number; h: number };
+  minSize: { w: number; h: number };
+  /** Metrics the widget can show; empty when it isn't bound to one */
+  metrics: readonly WallboardMetric[];
+}
+
+const ALL_METRICS = Object.keys(WALLBOARD_METRICS) as WallboardMetric[];
+
+export const WALLBOARD_WIDGETS: Record<WallboardWidgetType, WallboardWidgetDefinition> = {
+  kpi: {
+    label: 'KPI tile',
+    description: 'One figure, large',
+    defaultSize: { w: 3, h: 2 },
+    minSize: { w: 2, h: 2 },
+    metrics: ALL_METRICS,
+  },
+  'queue-table': {
+    label: 'Queue table',
+    description: 'Live calls per queue',
+    defaultSize: { w: 4, h: 4 },
+    minSize: { w: 3, h: 2 },
+    metrics: [],
+  },
+  'agent-grid': {
+    label: 'Agent grid',
+    description: 'Available, busy and offline agents',
+    defaultSize: { w: 4, h: 3 },
+    minSize: { w: 3, h: 2 },
+    metrics: [],
+  },
+  'direction-pie': {
+    label: 'Direction pie',
+    description: 'Inbound, outbound and internal calls',
+    defaultSize: { w: 4, h: 4 },
+    minSize: { w: 3, h: 3 },
+    metrics: [],
+  },
+  'sla-gauge': {
+    label: 'SLA gauge',
+    description: 'A figure against its target',
+    defaultSize: { w: 3, h: 3 },
+    minSize: { w: 2, h: 2 },
+    metrics: ['avgWaitTime', 'longestWait', 'callsWaiting', 'avgCallDuration'],
+  },
+  ticker: {
+    label: 'Ticker',
+    description: 'Scrolling messages and a figure',
+    defaultSize: { w: 12, h: 1 },
+    minSize: { w: 4, h: 1 },
+    metrics: ALL_METRICS,
+  },
+  clock: {
+    label: 'Clock',
+    description: 'Time in a timezone',
+    defaultSize: { w: 3, h: 2 },
+    minSize: { w: 2, h: 1 },
+    metrics: [],
+  },
+  sparkline: {
+    label: 'Sparkline',
+    description: 'A trend through today, small',
+    defaultSize: { w: 3, h: 2 },
+    minSize: { w: 2, h: 2 },
+    metrics: [],
+  },
+  'line-chart': {
+    label: 'Line chart',
+    description: 'A trend through today against last week',
+    defaultSize: { w: 6, h: 4 },
+    minSize: { w: 4, h: 3 },
+    metrics: [],
+  },
+};
+
+/** Widget types that draw a trend rather than the live stats */
+export function isWallboardTrendWidget(widget: Pick<WallboardWidget, 'type'>): boolean {
+  return widget.type === 'sparkline' || widget.type === 'line-chart';
+}
+
+export function isWallboardWidgetType(value: unknown): value is WallboardWidgetType {
+  return typeof value === 'string' && value in WALLBOARD_WIDGETS;
+}
+
+// =============================================================================
+// Kiosk Sharing
+// =============================================================================
+
+/**
+ * A link that shows the wallboard on a screen with nobody signed in. The
+ * link itself is only shown when it is created; what is kept is enough to
+ * list and revoke it.
+ */
+export interface WallboardShare {
+  id: string;
+  /** Where the link is used, e.g. "Sales floor TV" */
+  label: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Name of the user who created the link, whose access the kiosk uses */
+  createdBy: string | null;
+  revokedAt: string | null;
+}
+
+export const WALLBOARD_SHARE_DURATIONS: readonly { days: number; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '1 week' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
@@ -0,0 +1,106 @@
+/**
+ * Wrap-up Domain Types
+ * Platform-agnostic wrap-up (disposition) code interfaces
+ */
+
+import type { CallDirection } from './call-log';
+import type { ISODateTimeString } from './common';
+
+// =============================================================================
+// Wrap-up Code Entity
+// =============================================================================
+
+/**
+ * A disposition an agent can record against a call once it has ended.
+ * Codes without groups are offered to everyone in the organization.
+ */
+export interface WrapupCode {
+  id: string;
+  name: string;
+  description: string;
+  /** Groups whose members are offered this code; empty for org-wide codes */
+  groupIds: string[];
+  /** Inactive codes stay on past calls but are no longer offered */
+  active: boolean;
+  lastModified: string;
+}
+
+/**
+ * Input for creating a new wrap-up code
+ */
+export interface CreateWrapupCodeInput {
+  name: string;
+  description?: string;
+  groupIds?: string[];
+  active?: boolean;
+}
+
+/**
+ * Input for updating an existing wrap-up code
+ */
+export interface UpdateWrapupCodeInput {
+  name?: string;
+  description?: string;
+  groupIds?: string[];
+  active?: boolean;
+}
+
+// =============================================================================
+// Wrap-up Settings
+// =============================================================================
+
+export const DEFAULT_WRAPUP_TIMER_SECONDS = 60;
+
+/** Longest wrap-up an admin can configure */
+export const MAX_WRAPUP_TIMER_SECONDS = 600;
+
+/**
+ * Organization-wide wrap-up settings
+ */
+export interface WrapupSettings {
+  /** How long the agent has to pick a code after hangup; 0 waits indefinitely */
+  timerSeconds: number;
+}
+
+// =============================================================================
+// Call Disposition
+// =============================================================================
+
+/**
+ * The wrap-up an agent recorded for one of their calls. The webphone
+ * doesn't know the call log's id, so the call is identified by who took
+ * it, the other party and when it started.
+ */
+export interface CallDispositionInput {
+  /** Natterbox user who took the call */
+  userId: string;
+  /** The other party's number */
+  number: string;
+  direction: CallDirection;
+  startedAt: ISODateTimeString;
+  /** Name of the chosen wrap-up code */
+  code: string;
+  notes?: string;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Active codes offered to a member of the given groups: org-wide codes plus
+ * those assigned to any of the groups, sorted by name.
+ */
+export function wrapupCodesForGroups(codes: readonly WrapupCode[], groupIds: readonly string[]): WrapupCode[] {
+  return codes
+    .filter(code => code.active && (code.groupIds.length === 0 || code.groupIds.some(id => groupIds.includes(id))))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Clamp a configured wrap-up timer to the supported range
+ */
+export function normalizeWrapupTimer(seconds: number): number {
+  if (!Number.isFinite(seconds) || seconds < 0) return DEFAULT_WRAPUP_TIMER_SECONDS;
+  return Math.min(Math.round(seconds), MAX_WRAPUP_TIMER_SECONDS);
+}
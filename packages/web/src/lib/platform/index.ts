@@ -98,6 +98,9 @@ export const PUBLIC_ROUTES = [
   '/',
   '/auth',
   '/api/health',
+  '/kiosk',
+  '/api/kiosk',
+  '/api/cron',
 ];
 
 /**
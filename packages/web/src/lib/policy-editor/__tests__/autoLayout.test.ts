@@ -0,0 +1,118 @@
+/**
+ * Tests for the canvas auto layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeAutoLayout, AUTO_LAYOUT_DEFAULTS, type LayoutNodeInput } from '../autoLayout';
+
+function node(id: string, extra: Partial<LayoutNodeInput> = {}): LayoutNodeInput {
+  return { id, position: { x: 0, y: 0 }, width: 150, height: 60, ...extra };
+}
+
+describe('computeAutoLayout', () => {
+  it('should place each step in its own column from left to right', () => {
+    const { positions } = computeAutoLayout(
+      [node('finish'), node('inbound'), node('action')],
+      [
+        { source: 'inbound', target: 'action' },
+        { source: 'action', target: 'finish' },
+      ]
+    );
+
+    const { origin, layerSpacing } = AUTO_LAYOUT_DEFAULTS;
+    expect(positions.inbound?.x).toBe(origin.x);
+    expect(positions.action?.x).toBe(origin.x + 150 + layerSpacing);
+    expect(positions.finish?.x).toBe(origin.x + 2 * (150 + layerSpacing));
+  });
+
+  it('should order branches by the output they leave from', () => {
+    const container = node('router', {
+      height: 160,
+      data: { outputs: [{ id: 'sales' }, { id: 'support' }] },
+    });
+    const layout = (outputs: Array<{ id: string }>) =>
+      computeAutoLayout(
+        [{ ...container, data: { outputs } }, node('support-queue'), node('sales-queue')],
+        [
+          { source: 'router', target: 'support-queue', sourceHandle: 'support' },
+          { source: 'router', target: 'sales-queue', sourceHandle: 'sales' },
+        ]
+      ).positions;
+
+    const forward = layout([{ id: 'sales' }, { id: 'support' }]);
+    expect(forward['sales-queue']!.y).toBeLessThan(forward['support-queue']!.y);
+
+    const reversed = layout([{ id: 'support' }, { id: 'sales' }]);
+    expect(reversed['support-queue']!.y).toBeLessThan(reversed['sales-queue']!.y);
+  });
+
+  it('should remove avoidable edge crossings', () => {
+    const result = computeAutoLayout(
+      [node('a1'), node('a2'), node('b1'), node('b2'), node('c1'), node('c2')],
+      [
+        { source: 'a1', target: 'b2' },
+        { source: 'a2', target: 'b1' },
+        { source: 'b1', target: 'c2' },
+        { source: 'b2', target: 'c1' },
+      ]
+    );
+
+    expect(result.crossings).toBe(0);
+  });
+
+  it('should not overlap nodes in the same column', () => {
+    const { positions } = computeAutoLayout(
+      [node('start'), node('one'), node('two', { height: 120 }), node('three')],
+      [
+        { source: 'start', target: 'one' },
+        { source: 'start', target: 'two' },
+        { source: 'start', target: 'three' },
+      ]
+    );
+
+    const column = ['one', 'two', 'three']
+      .map((id) => ({ id, y: positions[id]!.y, height: id === 'two' ? 120 : 60 }))
+      .sort((a, b) => a.y - b.y);
+    for (let i = 1; i < column.length; i++) {
+      const above = column[i - 1]!;
+      expect(column[i]!.y).toBeGreaterThanOrEqual(above.y + above.height + AUTO_LAYOUT_DEFAULTS.nodeSpacing);
+    }
+  });
+
+  it('should lay out cyclic policies', () => {
+    const { positions } = computeAutoLayout(
+      [node('menu'), node('retry'), node('finish')],
+      [
+        { source: 'menu', target: 'retry' },
+        { source: 'retry', target: 'menu' },
+        { source: 'retry', target: 'finish' },
+      ]
+    );
+
+    expect(positions.menu!.x).toBeLessThan(positions.retry!.x);
+    expect(positions.retry!.x).toBeLessThan(positions.finish!.x);
+  });
+
+  it('should move group children with their container', () => {
+    const { positions } = computeAutoLayout(
+      [
+        node('start'),
+        node('group', { type: 'group', height: 200 }),
+        node('first', { parentNode: 'group', position: { x: 10, y: 40 } }),
+        node('second', { parentNode: 'group', position: { x: 10, y: 100 } }),
+        node('top'),
+        node('bottom'),
+      ],
+      [
+        { source: 'start', target: 'group' },
+        { source: 'second', target: 'bottom' },
+        { source: 'first', target: 'top' },
+      ]
+    );
+
+    expect(positions).not.toHaveProperty('first');
+    expect(positions).not.toHaveProperty('second');
+    expect(positions.group!.x).toBeLessThan(positions.top!.x);
+    expect(positions.top!.y).toBeLessThan(positions.bottom!.y);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for canvas keyboard commands
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  alignNodePositions,
+  findAdjacentNode,
+  formatShortcut,
+  matchCanvasCommands,
+  matchesShortcut,
+  type CanvasNode,
+  type ShortcutEvent,
+} from '../canvasCommands';
+
+function key(keyName: string, modifiers: Partial<ShortcutEvent> = {}): ShortcutEvent {
+  return { key: keyName, ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...modifiers };
+}
+
+function node(id: string, x: number, y: number, parentNode?: string): CanvasNode {
+  return { id, position: { x, y }, ...(parentNode && { parentNode }) };
+}
+
+describe('matchesShortcut', () => {
+  it('should treat Ctrl and Cmd as the same modifier', () => {
+    expect(matchesShortcut(key('k', { ctrlKey: true }), 'Mod+K')).toBe(true);
+    expect(matchesShortcut(key('k', { metaKey: true }), 'Mod+K')).toBe(true);
+    expect(matchesShortcut(key('k'), 'Mod+K')).toBe(false);
+  });
+
+  it('should require modifiers to match exactly', () => {
+    expect(matchesShortcut(key('Z', { ctrlKey: true, shiftKey: true }), 'Mod+Z')).toBe(false);
+    expect(matchesShortcut(key('Z', { ctrlKey: true, shiftKey: true }), 'Mod+Shift+Z')).toBe(true);
+  });
+
+  it('should match shifted and Alt keys by their physical key', () => {
+    expect(matchesShortcut(key('!', { shiftKey: true, code: 'Digit1' }), 'Shift+1')).toBe(true);
+    expect(matchesShortcut(key('Ó', { altKey: true, shiftKey: true, code: 'KeyH' }), 'Alt+Shift+H')).toBe(true);
+    expect(matchesShortcut(key('+', { ctrlKey: true, shiftKey: false }), 'Mod+=')).toBe(true);
+  });
+});
+
+describe('formatShortcut', () => {
+  it('should use symbols on a Mac and names elsewhere', () => {
+    expect(formatShortcut('Mod+Shift+Z', true)).toBe('⌘⇧Z');
+    expect(formatShortcut('Mod+Shift+Z', false)).toBe('Ctrl+Shift+Z');
+    expect(formatShortcut('Alt+Shift+ArrowLeft', false)).toBe('Alt+Shift+←');
+  });
+});
+
+describe('matchCanvasCommands', () => {
+  const commands = [
+    { id: 'add-queue', group: 'Add node', label: 'Call Queue', keywords: 'Queue calls for agents' },
+    { id: 'add-connect', group: 'Add node', label: 'Connect Call', keywords: 'Connect to user/number' },
+    { id: 'zoom-fit', group: 'Actions', label: 'Zoom to fit' },
+  ];
+
+  it('should rank prefix matches above word and keyword matches', () => {
+    expect(matchCanvasCommands(commands, 'call').map((c) => c.id)).toEqual(['add-queue', 'add-connect']);
+    expect(matchCanvasCommands(commands, 'conn').map((c) => c.id)).toEqual(['add-connect']);
+  });
+
+  it('should match letters in order and return everything for an empty query', () => {
+    expect(matchCanvasCommands(commands, 'ztf').map((c) => c.id)).toEqual(['zoom-fit']);
+    expect(matchCanvasCommands(commands, '  ')).toBe(commands);
+  });
+});
+
+describe('findAdjacentNode', () => {
+  // start -> menu -> (sales, support); support sits below sales
+  const graph = {
+    nodes: [
+      node('start', 0, 100),
+      node('menu', 250, 100),
+      node('support', 500, 200),
+      node('sales', 500, 0),
+      node('note', 250, 400),
+      node('menu-output', 10, 10, 'menu'),
+    ],
+    edges: [
+      { source: 'start', target: 'menu' },
+      { source: 'menu', target: 'support' },
+      { source: 'menu', target: 'sales' },
+    ],
+  };
+
+  it('should follow connections left and right', () => {
+    expect(findAdjacentNode(graph, 'start', 'right')).toBe('menu');
+    expect(findAdjacentNode(graph, 'menu', 'right')).toBe('sales');
+    expect(findAdjacentNode(graph, 'support', 'left')).toBe('menu');
+  });
+
+  it('should move between siblings up and down', () => {
+    expect(findAdjacentNode(graph, 'sales', 'down')).toBe('support');
+    expect(findAdjacentNode(graph, 'support', 'up')).toBe('sales');
+  });
+
+  it('should fall back to the nearest node in that direction', () => {
+    expect(findAdjacentNode(graph, 'menu', 'down')).toBe('note');
+    expect(findAdjacentNode(graph, 'start', 'left')).toBeNull();
+  });
+
+  it('should start from the top-left node when nothing is selected', () => {
+    expect(findAdjacentNode(graph, null, 'right')).toBe('start');
+  });
+});
+
+describe('alignNodePositions', () => {
+  const nodes = [node('a', 0, 0), node('b', 100, 50), node('child', 5, 5, 'a')];
+  const size = (n: CanvasNode) => (n.id === 'a' ? { width: 100, height: 40 } : { width: 200, height: 80 });
+
+  it('should align to the edges of the selection bounds', () => {
+    expect(alignNodePositions(nodes, ['a', 'b'], 'left', size)).toEqual({ a: { x: 0, y: 0 }, b: { x: 0, y: 50 } });
+    expect(alignNodePositions(nodes, ['a', 'b'], 'right', size)).toEqual({
+      a: { x: 200, y: 0 },
+      b: { x: 100, y: 50 },
+    });
+    expect(alignNodePositions(nodes, ['a', 'b'], 'bottom', size)).toEqual({
+      a: { x: 0, y: 90 },
+      b: { x: 100, y: 50 },
+    });
+  });
+
+  it('should centre nodes on the middle of the selection', () => {
+    expect(alignNodePositions(nodes, ['a', 'b'], 'center', size)).toEqual({
+      a: { x: 100, y: 0 },
+      b: { x: 50, y: 50 },
+    });
+  });
+
+  it('should need at least two top-level nodes', () => {
+    expect(alignNodePositions(nodes, ['a', 'child'], 'left', size)).toEqual({});
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for the PDF writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fitPdfText, pdfTextWidth, PdfWriter, wrapPdfText } from '../pdfWriter';
+
+describe('pdfTextWidth', () => {
+  it('should measure with each font', () => {
+    expect(pdfTextWidth('Hi', 'regular', 10)).toBeCloseTo(9.44);
+    expect(pdfTextWidth('Hi', 'bold', 10)).toBeCloseTo(10);
+  });
+});
+
+describe('wrapPdfText', () => {
+  it('should break at spaces and keep line breaks', () => {
+    expect(wrapPdfText('one two three\nfour', 'regular', 10, 40)).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('should break words wider than the line', () => {
+    const lines = wrapPdfText('abcdefghijklmnop', 'regular', 10, 30);
+    expect(lines.join('')).toBe('abcdefghijklmnop');
+    expect(lines.every((line) => pdfTextWidth(line, 'regular', 10) <= 30)).toBe(true);
+  });
+});
+
+describe('fitPdfText', () => {
+  it('should shorten text with an ellipsis', () => {
+    expect(fitPdfText('Short', 'regular', 10, 100)).toBe('Short');
+    const fitted = fitPdfText('A much longer label than fits', 'regular', 10, 60);
+    expect(fitted.endsWith('…')).toBe(true);
+    expect(pdfTextWidth(fitted, 'regular', 10)).toBeLessThanOrEqual(60);
+  });
+});
+
+describe('PdfWriter', () => {
+  it('should escape text and encode it as WinAnsi', () => {
+    const pdf = new PdfWriter('Test');
+    pdf.text(50, 50, 'Mon–Fri (café) \\ ✓');
+
+    expect(pdf.toString()).toContain('(Mon\\226Fri \\(caf\\351\\) \\\\ ?) Tj');
+  });
+
+  it('should draw on earlier pages and write one page object per page', () => {
+    const pdf = new PdfWriter('Test');
+    pdf.addPage();
+    pdf.addPage();
+    pdf.onPage(0, () => pdf.text(50, 50, 'First'));
+    const file = pdf.toString();
+
+    // Objects 7 and 8 are the first page and its content, 9 and 10 the second's
+    expect(file).toContain('/Count 2');
+    expect(file.indexOf('(First)')).toBeGreaterThan(file.indexOf('8 0 obj'));
+    expect(file.indexOf('(First)')).toBeLessThan(file.indexOf('9 0 obj'));
+  });
+});
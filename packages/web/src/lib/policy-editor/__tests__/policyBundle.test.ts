@@ -0,0 +1,172 @@
+/**
+ * Tests for policy export bundles
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyBundleMappings,
+  collectPolicyReferences,
+  createPolicyBundle,
+  parsePolicyBundle,
+  suggestReferenceMappings,
+  POLICY_BUNDLE_VERSION,
+  type BundleTargets,
+} from '../policyBundle';
+import type { Policy } from '../policyService';
+
+const body: Policy = {
+  nodes: [
+    {
+      id: 'number-node',
+      templateId: 3,
+      templateClass: 'ModNumber',
+      name: 'Inbound',
+      subItems: [{ name: 'Main Line', variables: { publicNumber: '+441234567890' } }],
+    },
+    {
+      id: 'action-node',
+      templateId: 5,
+      templateClass: 'ModAction',
+      name: 'Route',
+      outputs: [
+        {
+          name: 'Connect',
+          templateClass: 'ModConnect',
+          config: {
+            connectAction: {
+              first: { method: 'GROUP', target: '101' },
+              second: { method: 'USER', target: '201' },
+            },
+          },
+        },
+        {
+          name: 'Queue',
+          templateClass: 'ModConnect_Queue',
+          variables: {
+            ringTargets: [{ groupId: '101' }],
+            announcements: [{ soundId: '301' }],
+          },
+        },
+        {
+          name: 'Skills',
+          templateClass: 'ModAction_RequestSkills',
+          config: { skills: [{ Id__c: '401', Name: 'French' }, { Id__c: '402', Name: 'Billing' }] },
+        },
+      ],
+    },
+  ],
+  connections: [],
+};
+
+const sourceOrg: Partial<BundleTargets> = {
+  group: [{ id: 'src-g1', name: 'Sales', reference: '101' }],
+  user: [{ id: 'src-u1', name: 'Jane Doe', reference: '201' }],
+  sound: [{ id: 'src-s1', name: 'Welcome', reference: '301' }],
+};
+
+const targetOrg: BundleTargets = {
+  group: [{ id: 'g-sales', name: 'sales', reference: '9101' }],
+  user: [{ id: 'u-jane', name: 'Jane Doe', reference: '9201' }],
+  sound: [],
+  skill: [{ id: 'sk-french', name: 'French', reference: '9401' }],
+  phoneNumber: [{ id: 'p-main', name: 'Main Line', reference: '+441234567890' }],
+};
+
+describe('collectPolicyReferences', () => {
+  it('should list each referenced entity once with its usages', () => {
+    const manifest = collectPolicyReferences(body, sourceOrg);
+
+    expect(manifest.group).toEqual([
+      {
+        kind: 'group',
+        id: '101',
+        name: 'Sales',
+        usages: [
+          { nodeId: 'action-node', nodeName: 'Route', elementName: 'Connect' },
+          { nodeId: 'action-node', nodeName: 'Route', elementName: 'Queue' },
+        ],
+      },
+    ]);
+    expect(manifest.user.map((r) => r.name)).toEqual(['Jane Doe']);
+    expect(manifest.sound.map((r) => r.id)).toEqual(['301']);
+    expect(manifest.skill.map((r) => r.name)).toEqual(['French', 'Billing']);
+    expect(manifest.phoneNumber).toEqual([
+      expect.objectContaining({ id: '+441234567890', name: 'Main Line' }),
+    ]);
+  });
+});
+
+describe('parsePolicyBundle', () => {
+  const bundle = createPolicyBundle({
+    policy: { id: 'a01', name: 'Support', description: 'Support line' },
+    body,
+    lookups: sourceOrg,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  it('should round-trip an exported bundle', () => {
+    const result = parsePolicyBundle(JSON.stringify(bundle));
+
+    expect(result).toEqual({ success: true, bundle });
+  });
+
+  it('should reject files that are not bundles', () => {
+    expect(parsePolicyBundle('not json')).toEqual({ success: false, error: 'File is not valid JSON' });
+    expect(parsePolicyBundle({ nodes: [] })).toEqual({ success: false, error: 'File is not a policy bundle' });
+  });
+
+  it('should reject bundles from a newer format version', () => {
+    const result = parsePolicyBundle({ ...bundle, version: POLICY_BUNDLE_VERSION + 1 });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('suggestReferenceMappings', () => {
+  it('should match by id, then by name, and fall back to placeholders', () => {
+    const manifest = collectPolicyReferences(body, sourceOrg);
+
+    expect(suggestReferenceMappings(manifest, targetOrg)).toEqual({
+      'group:101': { action: 'map', targetId: 'g-sales' },
+      'user:201': { action: 'map', targetId: 'u-jane' },
+      'sound:301': { action: 'placeholder' },
+      'skill:401': { action: 'map', targetId: 'sk-french' },
+      'skill:402': { action: 'placeholder' },
+      'phoneNumber:+441234567890': { action: 'map', targetId: 'p-main' },
+    });
+  });
+});
+
+describe('applyBundleMappings', () => {
+  const bundle = createPolicyBundle({ policy: { id: 'a01', name: 'Support' }, body, lookups: sourceOrg });
+  const mappings = suggestReferenceMappings(bundle.manifest, targetOrg);
+  const result = applyBundleMappings(bundle, mappings, targetOrg);
+  const outputs = result.policy.nodes.find((n) => n.templateClass === 'ModAction')?.outputs ?? [];
+
+  it('should rewrite mapped references to the target org', () => {
+    expect(outputs[0]?.config?.connectAction).toEqual({
+      first: { method: 'GROUP', target: '9101' },
+      second: { method: 'USER', target: '9201' },
+    });
+    expect(outputs[1]?.variables?.ringTargets).toEqual([{ groupId: '9101' }]);
+    expect(outputs[2]?.config?.skills).toEqual([{ Id__c: '9401', Name: 'French' }]);
+  });
+
+  it('should clear placeholders and report them', () => {
+    expect(outputs[1]?.variables?.announcements).toEqual([{ soundId: '' }]);
+    expect(result.placeholders.map((r) => `${r.kind}:${r.id}`)).toEqual(['sound:301', 'skill:402']);
+    expect(result.report.messages).toContain('Sound Welcome left as a placeholder');
+  });
+
+  it('should return mapped phone numbers for assignment instead of keeping them in the body', () => {
+    expect(result.phoneNumberIds).toEqual(['p-main']);
+    expect(result.policy.nodes.find((n) => n.templateClass === 'ModNumber')?.subItems).toEqual([]);
+  });
+
+  it('should clone the body as a new policy', () => {
+    expect(result.policy.Id__c).toBeNull();
+    expect(result.policy.Name).toBe('Support');
+    // The bundle itself is left untouched
+    expect(bundle.policy.body.nodes[1]?.outputs?.[1]?.variables?.announcements).toEqual([{ soundId: '301' }]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for the policy diff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffPolicies, diffFields, formatDiffValue } from '../policyDiff';
+import type { PolicyGraphInput } from '../policyGraph';
+
+const before: PolicyGraphInput = {
+  nodes: [
+    { id: 'inbound', type: 'inboundNumber', data: { label: 'Main Number', x: 10, y: 10 } },
+    {
+      id: 'greeting',
+      type: 'action',
+      data: {
+        label: 'Greeting',
+        outputs: [
+          { id: 'say', data: { label: 'Welcome', type: 'speak' }, variables: { sayPhrase: 'Hello' } },
+          { id: 'queue', data: { label: 'Sales queue', type: 'callQueue' }, config: { timeout: 30 } },
+        ],
+      },
+    },
+    { id: 'old', type: 'action', data: { label: 'Old branch' } },
+    { id: 'finish', type: 'finish', data: { label: 'Finish' } },
+  ],
+  edges: [
+    { id: 'e1', source: 'inbound', target: 'greeting' },
+    { id: 'e2', source: 'greeting', target: 'old' },
+    { id: 'e3', source: 'old', target: 'finish' },
+  ],
+};
+
+const after: PolicyGraphInput = {
+  nodes: [
+    // Moved on the canvas only
+    { id: 'inbound', type: 'inboundNumber', data: { label: 'Main Number', x: 400, y: 90 } },
+    {
+      id: 'greeting',
+      type: 'action',
+      data: {
+        label: 'Greeting',
+        outputs: [
+          { id: 'say', data: { label: 'Welcome', type: 'speak' }, variables: { sayPhrase: 'Hi there' } },
+          { id: 'vm', data: { label: 'Voicemail', type: 'voicemail' } },
+        ],
+      },
+    },
+    { id: 'new', type: 'action', data: { label: 'New branch' } },
+    { id: 'finish', type: 'finish', data: { label: 'Finish' } },
+  ],
+  edges: [
+    { id: 'e1', source: 'inbound', target: 'greeting', sourceHandle: 'default' },
+    { id: 'e2', source: 'greeting', target: 'new' },
+    { id: 'e3', source: 'new', target: 'finish' },
+  ],
+};
+
+describe('diffPolicies', () => {
+  const diff = diffPolicies(before, after);
+
+  it('should report added and removed nodes', () => {
+    expect(diff.nodes.filter((n) => n.kind === 'added').map((n) => n.nodeId)).toEqual(['new']);
+    expect(diff.nodes.filter((n) => n.kind === 'removed').map((n) => n.nodeId)).toEqual(['old']);
+  });
+
+  it('should report changed outputs with their field changes', () => {
+    const greeting = diff.nodes.find((n) => n.nodeId === 'greeting');
+
+    expect(greeting?.kind).toBe('changed');
+    expect(greeting?.fieldChanges).toEqual([]);
+    expect(greeting?.outputs).toEqual([
+      {
+        outputId: 'say',
+        kind: 'changed',
+        label: 'Welcome',
+        appType: 'speak',
+        fieldChanges: [{ path: 'config.sayPhrase', before: 'Hello', after: 'Hi there' }],
+      },
+      expect.objectContaining({ outputId: 'queue', kind: 'removed' }),
+      expect.objectContaining({ outputId: 'vm', kind: 'added', appType: 'voicemail' }),
+    ]);
+  });
+
+  it('should ignore position changes and equivalent footer handles', () => {
+    expect(diff.nodes.some((n) => n.nodeId === 'inbound')).toBe(false);
+    expect(diff.connections.some((c) => c.source === 'inbound')).toBe(false);
+  });
+
+  it('should report rewired connections', () => {
+    expect(diff.connections).toEqual([
+      {
+        kind: 'rewired',
+        source: 'greeting',
+        outputId: null,
+        sourceHandle: null,
+        beforeTargets: ['old'],
+        afterTargets: ['new'],
+      },
+    ]);
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 1, rewired: 1 });
+    expect(diff.identical).toBe(false);
+  });
+
+  it('should report added and removed branch connections', () => {
+    const withBranch: PolicyGraphInput = {
+      ...before,
+      edges: [...(before.edges ?? []), { id: 'e4', source: 'greeting', target: 'finish', sourceHandle: 'queue' }],
+    };
+
+    expect(diffPolicies(before, withBranch).connections).toEqual([
+      expect.objectContaining({ kind: 'added', outputId: 'queue', afterTargets: ['finish'] }),
+    ]);
+    expect(diffPolicies(withBranch, before).connections).toEqual([
+      expect.objectContaining({ kind: 'removed', outputId: 'queue', beforeTargets: ['finish'] }),
+    ]);
+  });
+
+  it('should report changed node fields', () => {
+    const renamed: PolicyGraphInput = {
+      ...before,
+      nodes: before.nodes.map((n) =>
+        n.id === 'finish' ? { ...n, data: { label: 'Hang up' } } : n
+      ),
+    };
+
+    const finish = diffPolicies(before, renamed).nodes.find((n) => n.nodeId === 'finish');
+    expect(finish?.fieldChanges).toEqual([{ path: 'label', before: 'Finish', after: 'Hang up' }]);
+  });
+
+  it('should find no differences between identical policies', () => {
+    expect(diffPolicies(before, structuredClone(before)).identical).toBe(true);
+  });
+});
+
+describe('diffFields', () => {
+  it('should walk nested objects and arrays', () => {
+    expect(
+      diffFields(
+        { rules: { timeOfDay: [[{ startTime: '09:00', days: ['MON'] }]] } },
+        { rules: { timeOfDay: [[{ startTime: '08:00', days: ['MON', 'TUE'] }]] } }
+      )
+    ).toEqual([
+      { path: 'rules.timeOfDay[0][0].days[1]', before: undefined, after: 'TUE' },
+      { path: 'rules.timeOfDay[0][0].startTime', before: '09:00', after: '08:00' },
+    ]);
+  });
+
+  it('should treat missing and empty values as equal', () => {
+    expect(diffFields({ a: '' }, { a: undefined, b: null })).toEqual([]);
+  });
+});
+
+describe('formatDiffValue', () => {
+  it('should format empty, object and long values', () => {
+    expect(formatDiffValue(undefined)).toBe('(empty)');
+    expect(formatDiffValue({ a: 1 })).toBe('{"a":1}');
+    expect(formatDiffValue('x'.repeat(10), 5)).toBe('xxxx…');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Tests for policy documentation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildPolicyDocument,
+  describeRuleConditions,
+  renderPolicyDocument,
+  renderPolicyDocumentHtml,
+  renderPolicyDocumentMarkdown,
+  renderPolicyDocumentPdf,
+} from '../policyDocument';
+import type { PolicyGraphInput } from '../policyGraph';
+
+const officeHours = {
+  startTime: '09:00',
+  endTime: '17:00',
+  timeBetween: true,
+  startDate: '',
+  endDate: '',
+  dateBetween: false,
+  days: ['MON', 'TUE', 'WED', 'THU', 'FRI'],
+  timeZone: 'Europe/London',
+};
+
+// Inbound -> Hours -> (open) Sales -> Finish
+//                  -> Closed -> Finish
+// plus an Orphan no entry point reaches
+const body: PolicyGraphInput = {
+  nodes: [
+    { id: 'inbound', type: 'inboundNumber', data: { label: 'Main Number' } },
+    {
+      id: 'hours',
+      type: 'action',
+      data: {
+        label: 'Hours',
+        outputs: [{ id: 'open', data: { label: 'Open', type: 'rule' }, config: { rules: { timeOfDay: [[officeHours]] } } }],
+      },
+    },
+    {
+      id: 'sales',
+      type: 'action',
+      data: {
+        label: 'Sales',
+        outputs: [
+          {
+            id: 'record',
+            data: { label: 'Record', type: 'recordCall' },
+            config: { channel: 'BOTH', startRecording: 'ON_BRIDGE', pauseAllowed: true, beepAlert: 'OFF' },
+          },
+          {
+            id: 'queue',
+            data: { label: 'Sales queue', type: 'callQueue' },
+            config: {
+              queueAlgorithm: 'LONGEST_IDLE',
+              ringTargets: [{ groupId: 'g1' }],
+              announcements: [{ type: 'TTS', content: 'You are in a queue', interval: 30 }],
+              callback: { enabled: true, activationKey: '1', maxAttempts: 3 },
+            },
+          },
+          { id: 'vm', data: { label: 'Sales voicemail', type: 'voicemail' }, variables: { mailbox: { type: 'USER', userId: 'u1' } } },
+        ],
+      },
+    },
+    {
+      id: 'closed',
+      type: 'action',
+      data: {
+        label: 'Closed',
+        outputs: [{ id: 'say', data: { label: 'Closed message', type: 'speak' }, variables: { sayPhrase: 'We are "closed"' } }],
+      },
+    },
+    { id: 'finish', type: 'finish', data: { label: 'Finish' } },
+    { id: 'orphan', type: 'action', data: { label: 'Orphan <old>' } },
+  ],
+  edges: [
+    { id: 'e1', source: 'inbound', target: 'hours' },
+    { id: 'e2', source: 'hours', target: 'sales', sourceHandle: 'open' },
+    { id: 'e3', source: 'hours', target: 'closed' },
+    { id: 'e4', source: 'closed', target: 'finish' },
+  ],
+};
+
+const lookups = {
+  group: [{ id: 'g1', name: 'Sales Team' }],
+  user: [{ id: 'u1', name: 'Jane Smith' }],
+};
+
+function build() {
+  return buildPolicyDocument({
+    policy: { name: 'Main Line', description: 'Inbound sales', type: 'Call' },
+    body,
+    lookups,
+    generatedAt: new Date('2026-03-02T10:15:00.000Z'),
+  });
+}
+
+describe('buildPolicyDocument', () => {
+  it('should list nodes in call order with unreachable nodes last', () => {
+    const document = build();
+
+    expect(document.sections.map((s) => s.nodeId)).toEqual(['inbound', 'hours', 'sales', 'closed', 'finish', 'orphan']);
+    expect(document.sections.map((s) => s.kind)).toEqual(['entry', 'step', 'step', 'step', 'end', 'step']);
+    expect(document.sections.at(-1)?.reachable).toBe(false);
+  });
+
+  it('should describe apps in plain English using entity names', () => {
+    const sales = build().sections.find((s) => s.nodeId === 'sales');
+    const [record, queue, voicemail] = sales?.steps ?? [];
+
+    expect(record?.details).toEqual([
+      'Records: Both Legs',
+      'Recording starts when the call is connected',
+      'Agents can pause the recording',
+    ]);
+    expect(queue?.description).toBe('Queues the call for Sales Team');
+    expect(queue?.details).toContain('Announcement: every 30 seconds says "You are in a queue"');
+    expect(queue?.details).toContain('Callback offered (press 1), up to 3 attempts');
+    expect(queue?.details.at(-1)).toBe('If not answered, continues with the next step');
+    expect(voicemail?.description).toBe('Sends the caller to the voicemail of Jane Smith');
+  });
+
+  it('should link each step to where the call goes next', () => {
+    const hours = build().sections.find((s) => s.nodeId === 'hours');
+
+    expect(hours?.steps[0]?.details).toEqual(['Open hours: Mon–Fri, 09:00–17:00 (Europe/London)']);
+    expect(hours?.steps[0]?.next).toEqual([{ targetId: 'sales', targetNumber: 3, targetTitle: 'Sales' }]);
+    expect(hours?.next).toEqual([{ targetId: 'closed', targetNumber: 4, targetTitle: 'Closed' }]);
+  });
+
+  it('should lay out every node in the diagram', () => {
+    const { diagram } = build();
+
+    expect(diagram.nodes).toHaveLength(6);
+    expect(diagram.links).toHaveLength(4);
+    const inbound = diagram.nodes.find((n) => n.id === 'inbound');
+    const hours = diagram.nodes.find((n) => n.id === 'hours');
+    expect(hours!.x).toBeGreaterThan(inbound!.x);
+  });
+});
+
+describe('describeRuleConditions', () => {
+  it('should join rules within a group with "and" and groups with "or"', () => {
+    expect(
+      describeRuleConditions({
+        callerIdWithheld: [[true]],
+        numberMatch: [
+          [{ numberType: 'CALLING', matches: 'STARTS_WITH', number: '+44' }],
+          [{ numberType: 'CALLED', matches: 'EQUALS', number: '100' }],
+        ],
+      })
+    ).toEqual(['When caller ID is withheld', "When the caller's number starts with +44; or the dialled number equals 100"]);
+  });
+
+  it('should return nothing for an empty rule', () => {
+    expect(describeRuleConditions({ timeOfDay: [[]] })).toEqual([]);
+    expect(describeRuleConditions(undefined)).toEqual([]);
+  });
+});
+
+describe('renderPolicyDocumentMarkdown', () => {
+  it('should render sections and a Mermaid diagram', () => {
+    const markdown = renderPolicyDocumentMarkdown(build());
+
+    expect(markdown).toContain('# Main Line');
+    expect(markdown).toContain('Type: Call · Generated: 2026-03-02 10:15 UTC');
+    expect(markdown).toContain('```mermaid\nflowchart LR\n  n1(["1. Main Number"])');
+    expect(markdown).toContain('  n2 --> n3');
+    expect(markdown).toContain('1. **Closed message**: Says "We are "closed""');
+    expect(markdown).toContain('### 6. Orphan \\<old\\>\n\n> Not reachable from any entry point.');
+  });
+});
+
+describe('renderPolicyDocumentHtml', () => {
+  it('should escape text and embed an SVG diagram', () => {
+    const html = renderPolicyDocumentHtml(build());
+
+    expect(html).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(html).toContain('Orphan &lt;old&gt;');
+    expect(html).not.toContain('Orphan <old>');
+    expect(html).toContain('<a href="#step-3">3. Sales</a>');
+  });
+});
+
+describe('renderPolicyDocumentPdf', () => {
+  it('should write an ASCII PDF whose cross-reference table points at each object', () => {
+    const pdf = renderPolicyDocumentPdf(build());
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(/^[\x00-\x7f]*$/.test(pdf)).toBe(true);
+
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+
+  it('should draw the diagram and write each section', () => {
+    const pdf = renderPolicyDocumentPdf(build());
+
+    expect(pdf).toContain('/BaseFont /Helvetica-Bold');
+    expect(pdf).toContain('(Main Line)');
+    expect(pdf).toContain('(6. Orphan <old>)');
+    expect(pdf).toContain('(Not reachable from any entry point.)');
+    expect(pdf).toMatch(/ re 0\.89 0\.97 0\.96 rg/);
+    expect(pdf).toMatch(/Page 1 of \d/);
+  });
+});
+
+describe('renderPolicyDocument', () => {
+  it('should pick the content type and extension for each format', () => {
+    expect(renderPolicyDocument(build(), 'markdown')).toMatchObject({ extension: 'md' });
+    expect(renderPolicyDocument(build(), 'html')).toMatchObject({ contentType: 'text/html; charset=utf-8' });
+    expect(renderPolicyDocument(build(), 'pdf')).toMatchObject({ contentType: 'application/pdf', extension: 'pdf' });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Tests for policy graph normalisation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildPolicyGraph,
+  getChildAppType,
+  getChildAppConfig,
+  getOutgoingLinks,
+  getReachableNodeIds,
+  findStronglyConnectedComponents,
+  isTerminalGraphNode,
+} from '../policyGraph';
+import { transformLegacyPolicy, type LegacyPolicy } from '../dataTransform';
+
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => 'mock-uuid'),
+}));
+
+const editorPolicy = {
+  nodes: [
+    { id: 'inbound', type: 'inboundNumber', data: { label: 'Inbound' } },
+    {
+      id: 'action',
+      type: 'action',
+      data: {
+        label: 'Action',
+        outputs: [
+          { id: 'say', templateClass: 'ModSpeak', data: { label: 'Speak', type: 'speak' } },
+          { id: 'rule', templateClass: 'ModRule', data: { label: 'Rule', type: 'rule' } },
+        ],
+      },
+    },
+    { id: 'finish', type: 'finish', data: { label: 'Finish' } },
+  ],
+  edges: [
+    { id: 'e1', source: 'inbound', target: 'action', sourceHandle: 'default' },
+    { id: 'e2', source: 'action', target: 'finish', sourceHandle: 'rule' },
+  ],
+};
+
+describe('getChildAppType', () => {
+  it('should map legacy template classes', () => {
+    expect(getChildAppType({ templateClass: 'ModAction_Say' })).toBe('speak');
+    expect(getChildAppType({ templateClass: 'ModConnect_Queue' })).toBe('callQueue');
+    expect(getChildAppType({ templateClass: 'ModFinish_VoiceMail' })).toBe('voicemail');
+  });
+
+  it('should use data.type for editor-created apps', () => {
+    expect(getChildAppType({ templateClass: 'ModFoo', data: { type: 'notify' } })).toBe('notify');
+  });
+
+  it('should ignore upper-case legacy types', () => {
+    expect(getChildAppType({ type: 'CALL', templateClass: 'ModSpeak' })).toBe('speak');
+  });
+
+  it('should return unknown when nothing identifies the app', () => {
+    expect(getChildAppType({ type: 'output' })).toBe('unknown');
+  });
+});
+
+describe('getChildAppConfig', () => {
+  it('should merge variables and config', () => {
+    expect(
+      getChildAppConfig({ variables: { sayPhrase: 'Hi' }, config: { voice: 'en-GB' } })
+    ).toEqual({ sayPhrase: 'Hi', voice: 'en-GB' });
+  });
+});
+
+describe('buildPolicyGraph', () => {
+  it('should normalise editor nodes and edges', () => {
+    const graph = buildPolicyGraph(editorPolicy);
+
+    expect(graph.nodes.size).toBe(3);
+    expect(graph.entryNodeIds).toEqual(['inbound']);
+    expect(graph.nodes.get('action')?.outputs.map((o) => o.appType)).toEqual(['speak', 'rule']);
+    expect(getOutgoingLinks(graph, 'action', 'rule')).toHaveLength(1);
+    expect(getOutgoingLinks(graph, 'inbound', null)).toHaveLength(1);
+  });
+
+  it('should record links to missing nodes as dangling', () => {
+    const graph = buildPolicyGraph({
+      nodes: editorPolicy.nodes,
+      edges: [{ source: 'inbound', target: 'ghost' }],
+    });
+
+    expect(graph.links).toHaveLength(0);
+    expect(graph.danglingLinks).toEqual([
+      expect.objectContaining({ source: 'inbound', target: 'ghost' }),
+    ]);
+  });
+
+  it('should follow output connectedTo values', () => {
+    const graph = buildPolicyGraph({
+      nodes: [
+        {
+          id: 'a',
+          type: 'action',
+          data: { outputs: [{ id: 'o1', data: { type: 'rule', connectedTo: 'b' } }] },
+        },
+        { id: 'b', type: 'finish' },
+      ],
+    });
+
+    expect(getOutgoingLinks(graph, 'a', 'o1')[0]?.target).toBe('b');
+  });
+
+  it('should read legacy connections', () => {
+    const graph = buildPolicyGraph({
+      nodes: editorPolicy.nodes,
+      connections: [
+        { source: { nodeID: 'inbound', id: 'out' }, dest: { nodeID: 'action', id: 'in' } },
+      ],
+    });
+
+    expect(graph.links).toEqual([
+      expect.objectContaining({ source: 'inbound', target: 'action', outputId: null }),
+    ]);
+  });
+
+  it('should skip the init node and output children from transformLegacyPolicy', () => {
+    const legacy: LegacyPolicy = {
+      nodes: [
+        { id: 'n1', x: 0, y: 0, templateClass: 'ModNumber', title: 'Inbound' },
+        {
+          id: 'n2',
+          x: 0,
+          y: 100,
+          templateClass: 'ModAction',
+          outputs: [{ id: 'say1', templateClass: 'ModAction_Say', title: 'Speak' } as never],
+        },
+      ],
+      connections: [{ source: { nodeID: 'n1', id: 'o' }, dest: { nodeID: 'n2', id: 'i' } }],
+    };
+
+    const graph = buildPolicyGraph(transformLegacyPolicy(legacy));
+
+    expect([...graph.nodes.keys()]).toEqual(['n1', 'n2']);
+    expect(graph.nodes.get('n2')?.outputs[0]?.appType).toBe('speak');
+    expect(graph.entryNodeIds).toEqual(['n1']);
+    expect(graph.links).toHaveLength(1);
+  });
+});
+
+describe('graph traversal', () => {
+  it('should find reachable nodes', () => {
+    const graph = buildPolicyGraph(editorPolicy);
+    expect([...getReachableNodeIds(graph, ['inbound'])]).toEqual(['inbound', 'action', 'finish']);
+    expect([...getReachableNodeIds(graph, ['finish'])]).toEqual(['finish']);
+  });
+
+  it('should find loops as strongly connected components', () => {
+    const graph = buildPolicyGraph({
+      nodes: [
+        { id: 'a', type: 'action' },
+        { id: 'b', type: 'action' },
+        { id: 'c', type: 'finish' },
+      ],
+      edges: [
+        { source: 'a', target: 'b' },
+        { source: 'b', target: 'a' },
+        { source: 'b', target: 'c' },
+      ],
+    });
+
+    const loops = findStronglyConnectedComponents(graph).filter((c) => c.length > 1);
+    expect(loops).toHaveLength(1);
+    expect(loops[0]?.sort()).toEqual(['a', 'b']);
+  });
+
+  it('should treat finish nodes and voicemail apps as terminal', () => {
+    const graph = buildPolicyGraph({
+      nodes: [
+        { id: 'f', type: 'finish' },
+        { id: 'legacy-finish', type: 'default', data: { templateClass: 'ModFinish' } },
+        { id: 'vm', type: 'action', data: { outputs: [{ id: 'v', data: { type: 'voicemail' } }] } },
+        { id: 'a', type: 'action' },
+      ],
+    });
+
+    expect(isTerminalGraphNode(graph.nodes.get('f')!)).toBe(true);
+    expect(isTerminalGraphNode(graph.nodes.get('legacy-finish')!)).toBe(true);
+    expect(isTerminalGraphNode(graph.nodes.get('vm')!)).toBe(true);
+    expect(isTerminalGraphNode(graph.nodes.get('a')!)).toBe(false);
+  });
+});
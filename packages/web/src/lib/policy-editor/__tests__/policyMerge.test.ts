@@ -0,0 +1,96 @@
+/**
+ * Tests for three-way policy merges
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergePolicySnapshots, type MergeEdge, type MergeNode, type MergeSnapshot } from '../policyMerge';
+
+function node(id: string, data: Record<string, unknown> = {}, position = { x: 0, y: 0 }): MergeNode {
+  return { id, type: 'default', position, data: { label: id, ...data } };
+}
+
+function edge(source: string, target: string, sourceHandle?: string): MergeEdge {
+  return { id: `${source}-${target}`, source, target, sourceHandle };
+}
+
+const base: MergeSnapshot = {
+  nodes: [node('a'), node('b', { greeting: 'Hello' }), node('c')],
+  edges: [edge('a', 'b'), edge('b', 'c')],
+};
+
+describe('mergePolicySnapshots', () => {
+  it('should apply changes from both sides to different nodes and settings', () => {
+    const mine = { ...base, nodes: [node('a', {}, { x: 100, y: 0 }), node('b', { greeting: 'Hello' }), node('c')] };
+    const theirs = { ...base, nodes: [node('a'), node('b', { greeting: 'Hi' }), node('c', { label: 'Finish' })] };
+
+    const result = mergePolicySnapshots(base, mine, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.remoteChanges).toBe(2);
+    expect(result.nodes).toEqual([
+      node('a', {}, { x: 100, y: 0 }),
+      node('b', { greeting: 'Hi' }),
+      node('c', { label: 'Finish' }),
+    ]);
+  });
+
+  it('should merge different settings of the same node', () => {
+    const mine = { ...base, nodes: [node('a'), node('b', { greeting: 'Hello', label: 'Welcome' }), node('c')] };
+    const theirs = { ...base, nodes: [node('a'), node('b', { greeting: 'Hi' }), node('c')] };
+
+    const result = mergePolicySnapshots(base, mine, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.nodes[1]?.data).toEqual({ label: 'Welcome', greeting: 'Hi' });
+  });
+
+  it('should keep the local value when both sides changed the same setting', () => {
+    const mine = { ...base, nodes: [node('a'), node('b', { greeting: 'Hey' }), node('c')] };
+    const theirs = { ...base, nodes: [node('a'), node('b', { greeting: 'Hi' }), node('c')] };
+
+    const result = mergePolicySnapshots(base, mine, theirs);
+
+    expect(result.nodes[1]?.data?.greeting).toBe('Hey');
+    expect(result.conflicts).toEqual([{ nodeId: 'b', label: 'b', kind: 'both-changed', fields: ['data.greeting'] }]);
+  });
+
+  it('should add nodes and connections from both sides', () => {
+    const mine = { nodes: [...base.nodes, node('mine')], edges: [...base.edges, edge('c', 'mine')] };
+    const theirs = { nodes: [...base.nodes, node('theirs')], edges: [...base.edges, edge('c', 'theirs')] };
+
+    const result = mergePolicySnapshots(base, mine, theirs);
+
+    expect(result.nodes.map((n) => n.id)).toEqual(['a', 'b', 'c', 'mine', 'theirs']);
+    expect(result.edges.map((e) => e.id)).toEqual(['a-b', 'b-c', 'c-mine', 'c-theirs']);
+  });
+
+  it('should apply deletions from either side and drop their connections', () => {
+    const mine = { nodes: [node('a'), node('b', { greeting: 'Hello' })], edges: [edge('a', 'b')] };
+    const theirs = { nodes: [node('b', { greeting: 'Hello' }), node('c')], edges: [edge('b', 'c')] };
+
+    const result = mergePolicySnapshots(base, mine, theirs);
+
+    expect(result.nodes.map((n) => n.id)).toEqual(['b']);
+    expect(result.edges).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should keep a node deleted on one side but changed on the other, as a conflict', () => {
+    const mine = { nodes: [node('a'), node('c')], edges: [] };
+    const theirs = { ...base, nodes: [node('a'), node('b', { greeting: 'Hi' }), node('c')] };
+
+    const result = mergePolicySnapshots(base, mine, theirs);
+
+    expect(result.nodes.map((n) => n.id)).toEqual(['a', 'c', 'b']);
+    expect(result.conflicts).toEqual([{ nodeId: 'b', label: 'b', kind: 'deleted-locally', fields: [] }]);
+  });
+
+  it('should ignore selection state', () => {
+    const mine = { ...base, nodes: base.nodes.map((n) => ({ ...n, selected: true })) };
+
+    const result = mergePolicySnapshots(base, mine, base);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.remoteChanges).toBe(0);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for the policy simulator
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  simulatePolicyCall,
+  findSimulationEntryNode,
+  matchesSwitchItem,
+  type SimulationInput,
+} from '../policySimulator';
+import { buildPolicyGraph, type PolicyGraphInput } from '../policyGraph';
+
+const officeHours = {
+  startTime: '09:00',
+  endTime: '17:00',
+  timeBetween: true,
+  startDate: '',
+  endDate: '',
+  dateBetween: false,
+  days: ['MON', 'TUE', 'WED', 'THU', 'FRI'],
+  timeZone: 'UTC',
+};
+
+// Inbound -> Hours rule -> (open) Menu switchboard -> Sales queue / Support queue -> Voicemail
+//                       -> (closed) Closed message -> Finish
+const policy: PolicyGraphInput = {
+  nodes: [
+    { id: 'inbound', type: 'inboundNumber', data: { label: 'Main Number', phoneNumber: '+44 20 7946 0000' } },
+    {
+      id: 'hours',
+      type: 'action',
+      data: {
+        label: 'Hours',
+        outputs: [{ id: 'open', data: { label: 'Open', type: 'rule' }, config: { rules: { timeOfDay: [[officeHours]] } } }],
+      },
+    },
+    {
+      id: 'closed',
+      type: 'action',
+      data: {
+        label: 'Closed',
+        outputs: [{ id: 'closed-say', data: { label: 'Closed message', type: 'speak' }, variables: { sayPhrase: 'We are closed' } }],
+      },
+    },
+    {
+      id: 'menu',
+      type: 'switchBoard',
+      data: {
+        label: 'Menu',
+        outputs: [
+          { id: 'press-1', data: { label: 'Sales', type: 'switchItem' }, variables: { tone: '1', itemPhrase: 'sales' } },
+          { id: 'press-2', data: { label: 'Support', type: 'switchItem' }, variables: { tone: '2' } },
+        ],
+      },
+    },
+    {
+      id: 'sales',
+      type: 'action',
+      data: {
+        label: 'Sales',
+        outputs: [
+          { id: 'sales-queue', data: { label: 'Sales queue', type: 'callQueue' } },
+          { id: 'sales-vm', data: { label: 'Sales voicemail', type: 'voicemail' } },
+        ],
+      },
+    },
+    { id: 'finish', type: 'finish', data: { label: 'Finish' } },
+  ],
+  edges: [
+    { id: 'e-in', source: 'inbound', target: 'hours' },
+    { id: 'e-open', source: 'hours', target: 'menu', sourceHandle: 'open' },
+    { id: 'e-closed', source: 'hours', target: 'closed' },
+    { id: 'e-closed-end', source: 'closed', target: 'finish' },
+    { id: 'e-sales', source: 'menu', target: 'sales', sourceHandle: 'press-1' },
+    { id: 'e-menu-default', source: 'menu', target: 'finish' },
+  ],
+};
+
+function simulate(overrides: Partial<SimulationInput> = {}) {
+  return simulatePolicyCall(policy, {
+    callerNumber: '+447700900123',
+    dialledNumber: '+442079460000',
+    dateTime: '2024-03-13T10:30:00Z',
+    ...overrides,
+  });
+}
+
+describe('simulatePolicyCall', () => {
+  it('should follow the closed branch outside office hours', () => {
+    const result = simulate({ dateTime: '2024-03-13T20:00:00Z' });
+
+    expect(result.outcome).toBe('finished');
+    expect(result.visitedNodeIds).toEqual(['inbound', 'hours', 'closed', 'finish']);
+    expect(result.traversedLinkIds).toEqual(['e-in', 'e-closed', 'e-closed-end']);
+    expect(result.visitedOutputIds).toContain('closed-say');
+  });
+
+  it('should select a switchboard item from DTMF input and fall back to voicemail', () => {
+    const result = simulate({ inputs: ['1'] });
+
+    expect(result.outcome).toBe('voicemail');
+    expect(result.visitedNodeIds).toEqual(['inbound', 'hours', 'menu', 'sales']);
+    expect(result.visitedOutputIds).toEqual(['open', 'press-1', 'sales-queue', 'sales-vm']);
+    expect(result.steps.some((s) => s.kind === 'fallback' && s.outputId === 'sales-queue')).toBe(true);
+  });
+
+  it('should match switchboard items by speech', () => {
+    const result = simulate({ inputs: ['I want Sales please'] });
+    expect(result.visitedNodeIds).toContain('sales');
+  });
+
+  it('should end when the queue answers', () => {
+    const result = simulate({ inputs: ['1'], connectOutcome: 'answered' });
+
+    expect(result.outcome).toBe('answered');
+    expect(result.visitedOutputIds).not.toContain('sales-vm');
+  });
+
+  it('should take the default path when no switchboard item matches', () => {
+    const result = simulate({ inputs: ['9'] });
+
+    expect(result.outcome).toBe('finished');
+    expect(result.traversedLinkIds).toContain('e-menu-default');
+  });
+
+  it('should report unconnected branches as dead ends', () => {
+    const result = simulate({ inputs: ['2'] });
+
+    expect(result.outcome).toBe('dead-end');
+    expect(result.message).toContain('Support');
+  });
+
+  it('should keep unused inputs', () => {
+    expect(simulate({ inputs: ['1', '5'] }).unusedInputs).toEqual(['5']);
+  });
+
+  it('should branch simple rule nodes on true/false handles', () => {
+    const result = simulatePolicyCall(
+      {
+        nodes: [
+          { id: 'in', type: 'inboundNumber' },
+          { id: 'rule', type: 'rule', data: { label: 'UK caller', config: { rules: { countryCode: [[{ numberType: 'CALLING', matches: 'EQUALS', countryCode: 'GB' }]] } } } },
+          { id: 'uk', type: 'finish' },
+          { id: 'other', type: 'finish' },
+        ],
+        edges: [
+          { id: 'a', source: 'in', target: 'rule' },
+          { id: 'b', source: 'rule', target: 'uk', sourceHandle: 'true' },
+          { id: 'c', source: 'rule', target: 'other', sourceHandle: 'false' },
+        ],
+      },
+      { callerNumber: '+33 1 23 45 67 89', dialledNumber: '', dateTime: new Date() }
+    );
+
+    expect(result.visitedNodeIds).toEqual(['in', 'rule', 'other']);
+  });
+
+  it('should detect loops', () => {
+    const result = simulatePolicyCall(
+      {
+        nodes: [
+          { id: 'in', type: 'inboundNumber' },
+          { id: 'a', type: 'action' },
+          { id: 'b', type: 'action' },
+        ],
+        edges: [
+          { source: 'in', target: 'a' },
+          { source: 'a', target: 'b' },
+          { source: 'b', target: 'a' },
+        ],
+      },
+      { callerNumber: '', dialledNumber: '', dateTime: new Date() }
+    );
+
+    expect(result.outcome).toBe('loop');
+  });
+
+  it('should report a policy without a start node', () => {
+    const result = simulatePolicyCall({ nodes: [{ id: 'a', type: 'action' }] }, {
+      callerNumber: '',
+      dialledNumber: '',
+      dateTime: new Date(),
+    });
+
+    expect(result.outcome).toBe('no-entry');
+  });
+});
+
+describe('findSimulationEntryNode', () => {
+  const graph = buildPolicyGraph({
+    nodes: [
+      { id: 'ext', type: 'extensionNumber', data: { extension: '200' } },
+      { id: 'main', type: 'inboundNumber', data: { number: '+44 20 7946 0000' } },
+      { id: 'alt', type: 'inboundNumber', data: { number: '+44 161 496 0000' } },
+    ],
+  });
+
+  it('should prefer the entry node that mentions the dialled number', () => {
+    expect(findSimulationEntryNode(graph, '+44 161 496 0000')?.id).toBe('alt');
+  });
+
+  it('should fall back to the first inbound number', () => {
+    expect(findSimulationEntryNode(graph, '999')?.id).toBe('main');
+  });
+
+  it('should use an explicit entry node', () => {
+    expect(findSimulationEntryNode(graph, '', 'ext')?.id).toBe('ext');
+  });
+});
+
+describe('matchesSwitchItem', () => {
+  const graph = buildPolicyGraph(policy);
+  const [sales] = graph.nodes.get('menu')!.outputs;
+
+  it('should match tone, pattern and phrase', () => {
+    expect(matchesSwitchItem(sales!, '1')).toBe(true);
+    expect(matchesSwitchItem(sales!, 'SALES')).toBe(true);
+    expect(matchesSwitchItem(sales!, '2')).toBe(false);
+    expect(matchesSwitchItem({ ...sales!, config: { pattern: '^4\\d$' } }, '42')).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for sub-flow templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTemplateFragment,
+  instantiateTemplate,
+  parseTemplateFragment,
+  POLICY_TEMPLATE_VERSION,
+  type TemplateEdge,
+  type TemplateNode,
+} from '../policyTemplates';
+
+const nodes: TemplateNode[] = [
+  { id: 'init_node', type: 'init', position: { x: 0, y: 0 }, data: { label: 'Start' } },
+  {
+    id: 'hours',
+    type: 'default',
+    position: { x: 200, y: 100 },
+    data: {
+      id: 'hours',
+      label: 'Opening hours',
+      templateClass: 'ModTime',
+      connectedFromNode: 'init_node',
+      outputs: [
+        { id: 'open', name: 'Open', connectedTo: 'queue' },
+        { id: 'closed', name: 'Closed', connectedTo: 'elsewhere' },
+      ],
+    },
+  },
+  {
+    id: 'queue',
+    type: 'default',
+    position: { x: 500, y: 150 },
+    data: {
+      id: 'queue',
+      label: 'Support queue',
+      templateClass: 'ModAction',
+      outputs: [
+        {
+          id: 'queue-out',
+          name: 'Queue',
+          templateClass: 'ModConnect_Queue',
+          variables: {
+            ringTargets: [{ groupId: 'g-support' }],
+            announcements: [{ soundId: 's-hold' }, { soundId: 's-hold' }],
+          },
+        },
+        {
+          id: 'connect-out',
+          name: 'Connect',
+          templateClass: 'ModConnect',
+          config: { connectAction: { first: { method: 'GROUP', target: 'g-support' } } },
+        },
+      ],
+    },
+  },
+  { id: 'elsewhere', type: 'default', position: { x: 900, y: 0 }, data: { label: 'Not selected' } },
+];
+
+const edges: TemplateEdge[] = [
+  { id: 'e1', source: 'init_node', target: 'hours' },
+  { id: 'e2', source: 'hours', target: 'queue', sourceHandle: 'open' },
+  { id: 'e3', source: 'hours', target: 'elsewhere', sourceHandle: 'closed' },
+];
+
+const lookups = {
+  group: [{ id: 'g-support', name: 'Support' }],
+  sound: [{ id: 's-hold', name: 'Hold music' }],
+};
+
+describe('createTemplateFragment', () => {
+  const fragment = createTemplateFragment({
+    nodes,
+    edges,
+    selectedIds: ['init_node', 'hours', 'queue'],
+    lookups,
+  });
+
+  it('should keep the selected nodes, without the start node, relative to the selection', () => {
+    expect(fragment.nodes.map((n) => [n.id, n.position])).toEqual([
+      ['hours', { x: 0, y: 0 }],
+      ['queue', { x: 300, y: 50 }],
+    ]);
+  });
+
+  it('should keep only edges inside the selection', () => {
+    expect(fragment.edges.map((e) => e.id)).toEqual(['e2']);
+  });
+
+  it('should drop connections that leave the selection', () => {
+    const hours = fragment.nodes[0]!.data;
+    expect(hours.connectedFromNode).toBeUndefined();
+    expect(hours.outputs).toEqual([
+      { id: 'open', name: 'Open', connectedTo: 'queue' },
+      { id: 'closed', name: 'Closed', connectedTo: 'finish' },
+    ]);
+  });
+
+  it('should list each distinct group and sound once as a parameter', () => {
+    expect(fragment.parameters).toEqual([
+      expect.objectContaining({ key: 'group:g-support', kind: 'group', defaultName: 'Support', usageCount: 2 }),
+      expect.objectContaining({ key: 'sound:s-hold', kind: 'sound', defaultName: 'Hold music', usageCount: 2 }),
+    ]);
+  });
+
+  it('should leave the canvas nodes untouched', () => {
+    expect(nodes[1]!.data.connectedFromNode).toBe('init_node');
+  });
+});
+
+describe('parseTemplateFragment', () => {
+  it('should round-trip a stored fragment', () => {
+    const fragment = createTemplateFragment({ nodes, edges, selectedIds: ['hours'] });
+
+    expect(parseTemplateFragment(JSON.stringify(fragment))).toEqual(fragment);
+  });
+
+  it('should reject invalid bodies and newer versions', () => {
+    expect(parseTemplateFragment('not json')).toBeNull();
+    expect(parseTemplateFragment(JSON.stringify({ nodes: [] }))).toBeNull();
+    expect(
+      parseTemplateFragment(JSON.stringify({ version: POLICY_TEMPLATE_VERSION + 1, nodes: [], edges: [] }))
+    ).toBeNull();
+  });
+});
+
+describe('instantiateTemplate', () => {
+  const fragment = createTemplateFragment({ nodes, edges, selectedIds: ['hours', 'queue'], lookups });
+  const placed = instantiateTemplate(fragment, {
+    origin: { x: 1000, y: 400 },
+    values: { 'group:g-support': 'g-sales', 'sound:s-hold': '' },
+  });
+  const [hours, queue] = placed.nodes;
+  const queueOutputs = queue!.data.outputs as Array<Record<string, any>>;
+
+  it('should give every node, output and edge a fresh id', () => {
+    const oldIds = ['hours', 'queue', 'open', 'closed', 'queue-out', 'connect-out', 'e2'];
+    const newIds = [
+      ...placed.nodes.map((n) => n.id),
+      ...placed.nodes.flatMap((n) => (n.data.outputs as Array<{ id: string }>).map((o) => o.id)),
+      ...placed.edges.map((e) => e.id),
+    ];
+
+    expect(new Set(newIds).size).toBe(newIds.length);
+    expect(newIds.filter((id) => oldIds.includes(id))).toEqual([]);
+    expect(hours!.data.id).toBe(hours!.id);
+  });
+
+  it('should rewire internal edges and connections to the new ids', () => {
+    const open = (hours!.data.outputs as Array<{ id: string; connectedTo: string }>)[0]!;
+
+    expect(placed.edges).toEqual([
+      expect.objectContaining({ source: hours!.id, target: queue!.id, sourceHandle: open.id }),
+    ]);
+    expect(open.connectedTo).toBe(queue!.id);
+  });
+
+  it('should offset positions from the drop point', () => {
+    expect(placed.nodes.map((n) => n.position)).toEqual([
+      { x: 1000, y: 400 },
+      { x: 1300, y: 450 },
+    ]);
+  });
+
+  it('should apply parameter values to every usage', () => {
+    expect(queueOutputs[0]!.variables.ringTargets).toEqual([{ groupId: 'g-sales' }]);
+    expect(queueOutputs[1]!.config.connectAction.first.target).toBe('g-sales');
+    expect(queueOutputs[0]!.variables.announcements).toEqual([{ soundId: '' }, { soundId: '' }]);
+  });
+
+  it('should keep defaults for parameters without a value', () => {
+    const again = instantiateTemplate(fragment, { origin: { x: 0, y: 0 } });
+    const outputs = again.nodes[1]!.data.outputs as Array<Record<string, any>>;
+
+    expect(outputs[0]!.variables.ringTargets).toEqual([{ groupId: 'g-support' }]);
+    expect(again.nodes[0]!.id).not.toBe(hours!.id);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for where-used search and replace
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformLegacyPolicy, type LegacyPolicy } from '../dataTransform';
+import { findPolicyUsages, listPolicyUsageValues, replacePolicyUsages, type PolicyUsageNode } from '../policyUsage';
+
+function editorNodes(): PolicyUsageNode[] {
+  const body = {
+    nodes: [
+      {
+        id: 'action-node',
+        templateId: 5,
+        templateClass: 'ModAction',
+        name: 'Route',
+        outputs: [
+          {
+            id: 'out-connect',
+            name: 'Connect',
+            templateClass: 'ModConnect',
+            config: { connectAction: { first: { method: 'GROUP', target: '101' } } },
+          },
+          {
+            id: 'out-queue',
+            name: 'Queue',
+            templateClass: 'ModConnect_Queue',
+            variables: { ringTargets: [{ groupId: '101' }], announcements: [{ soundId: '301' }] },
+          },
+          {
+            id: 'out-skills',
+            name: 'Skills',
+            templateClass: 'ModAction_RequestSkills',
+            config: { skills: [{ Id__c: '401', Name: 'French' }] },
+          },
+          {
+            id: 'out-say',
+            name: 'Greeting',
+            templateClass: 'ModAction_Say',
+            variables: { sayPhrase: 'Welcome to Acme support. Acme calls are recorded.' },
+          },
+        ],
+      },
+      {
+        id: 'salesforce-node',
+        templateId: 5,
+        templateClass: 'ModAction',
+        name: 'Lookup',
+        outputs: [
+          { id: 'out-query', name: 'Find Case', templateClass: 'ModConnector_SFQuery', config: { sObject: 'Case' } },
+          { id: 'out-create', name: 'Log Task', templateClass: 'ModConnector_SFCreate', config: { objectType: 'Task' } },
+        ],
+      },
+    ],
+    connections: [],
+  };
+
+  return transformLegacyPolicy(body as unknown as LegacyPolicy).nodes;
+}
+
+function getOutput(nodes: PolicyUsageNode[], nodeId: string, outputId: string): Record<string, unknown> {
+  const outputs = nodes.find((n) => n.id === nodeId)?.data.outputs as Array<Record<string, unknown>>;
+  return outputs.find((o) => o.id === outputId)!;
+}
+
+describe('findPolicyUsages', () => {
+  it('should find each place an entity is used', () => {
+    const matches = findPolicyUsages(editorNodes(), { kind: 'group', value: '101' });
+
+    expect(matches.map((m) => m.usage)).toEqual([
+      { nodeId: 'action-node', nodeName: 'Route', elementName: 'Connect' },
+      { nodeId: 'action-node', nodeName: 'Route', elementName: 'Queue' },
+    ]);
+  });
+
+  it('should match Salesforce objects in Query and Create Record apps ignoring case', () => {
+    const nodes = editorNodes();
+
+    expect(findPolicyUsages(nodes, { kind: 'sfObject', value: 'case' }).map((m) => m.usage.elementName)).toEqual([
+      'Find Case',
+    ]);
+    expect(findPolicyUsages(nodes, { kind: 'sfObject', value: 'Task' }).map((m) => m.usage.elementName)).toEqual([
+      'Log Task',
+    ]);
+  });
+
+  it('should match part of a Speak phrase', () => {
+    const [match] = findPolicyUsages(editorNodes(), { kind: 'text', value: 'acme' });
+
+    expect(match).toEqual({
+      kind: 'text',
+      value: 'Welcome to Acme support. Acme calls are recorded.',
+      usage: { nodeId: 'action-node', nodeName: 'Route', elementName: 'Greeting' },
+    });
+  });
+});
+
+describe('listPolicyUsageValues', () => {
+  it('should list entities and objects but not text', () => {
+    const values = listPolicyUsageValues(editorNodes()).map((m) => `${m.kind}:${m.value}`);
+
+    expect(values).toEqual(['group:101', 'group:101', 'sound:301', 'skill:401', 'sfObject:Case', 'sfObject:Task']);
+  });
+});
+
+describe('replacePolicyUsages', () => {
+  it('should point every use of an entity at the replacement', () => {
+    const nodes = editorNodes();
+
+    expect(replacePolicyUsages(nodes, { kind: 'group', value: '101' }, { value: '102', name: 'Support' })).toBe(2);
+    expect(findPolicyUsages(nodes, { kind: 'group', value: '101' })).toEqual([]);
+    expect(findPolicyUsages(nodes, { kind: 'group', value: '102' })).toHaveLength(2);
+  });
+
+  it('should store the name alongside a replaced skill', () => {
+    const nodes = editorNodes();
+    replacePolicyUsages(nodes, { kind: 'skill', value: '401' }, { value: '402', name: 'Spanish' });
+
+    expect((getOutput(nodes, 'action-node', 'out-skills').config as Record<string, unknown>).skills).toEqual([
+      { Id__c: '402', Name: 'Spanish' },
+    ]);
+  });
+
+  it('should remove an entity when the replacement is empty', () => {
+    const nodes = editorNodes();
+    replacePolicyUsages(nodes, { kind: 'sound', value: '301' }, { value: '' });
+
+    const variables = getOutput(nodes, 'action-node', 'out-queue').variables as Record<string, unknown>;
+    expect(variables.announcements).toEqual([{ soundId: '' }]);
+  });
+
+  it('should replace every occurrence of the text ignoring case', () => {
+    const nodes = editorNodes();
+    replacePolicyUsages(nodes, { kind: 'text', value: 'ACME' }, { value: 'Globex' });
+
+    const variables = getOutput(nodes, 'action-node', 'out-say').variables as Record<string, unknown>;
+    expect(variables.sayPhrase).toBe('Welcome to Globex support. Globex calls are recorded.');
+  });
+
+  it('should rename a Salesforce object', () => {
+    const nodes = editorNodes();
+    replacePolicyUsages(nodes, { kind: 'sfObject', value: 'Case' }, { value: 'Support_Case__c' });
+
+    expect(getOutput(nodes, 'salesforce-node', 'out-query').config).toEqual({ sObject: 'Support_Case__c' });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Tests for semantic policy validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validatePolicyGraph,
+  hasBlockingDiagnostics,
+  groupDiagnosticsByNode,
+  POLICY_VALIDATION_RULES,
+  type PolicyValidationInput,
+} from '../policyValidator';
+
+function createPolicy(overrides: Partial<PolicyValidationInput> = {}): PolicyValidationInput {
+  return {
+    Name: 'Support Line',
+    nodes: [
+      { id: 'inbound', type: 'inboundNumber', data: { label: 'Inbound' } },
+      {
+        id: 'action',
+        type: 'action',
+        data: {
+          label: 'Welcome',
+          outputs: [
+            {
+              id: 'say',
+              templateClass: 'ModSpeak',
+              data: { label: 'Greeting', type: 'speak' },
+              variables: { sayPhrase: 'Welcome to support' },
+            },
+            { id: 'queue', templateClass: 'ModCallQueue', data: { label: 'Queue', type: 'callQueue' } },
+          ],
+        },
+      },
+      { id: 'finish', type: 'finish', data: { label: 'Finish' } },
+    ],
+    edges: [
+      { id: 'e1', source: 'inbound', target: 'action' },
+      { id: 'e2', source: 'action', target: 'finish' },
+    ],
+    ...overrides,
+  };
+}
+
+function rulesOf(policy: PolicyValidationInput): string[] {
+  return validatePolicyGraph(policy).diagnostics.map((d) => d.rule);
+}
+
+describe('validatePolicyGraph', () => {
+  it('should pass a well-formed policy', () => {
+    const result = validatePolicyGraph(createPolicy());
+
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('should require a policy name when one is supplied', () => {
+    expect(rulesOf(createPolicy({ Name: '  ' }))).toContain('policy-name');
+  });
+
+  it('should report an empty policy', () => {
+    const result = validatePolicyGraph(createPolicy({ nodes: [], edges: [] }));
+    expect(result.diagnostics.map((d) => d.rule)).toEqual(['no-nodes']);
+  });
+
+  it('should report a policy with no start node', () => {
+    const policy = createPolicy();
+    policy.nodes = policy.nodes.filter((n) => n.id !== 'inbound');
+    expect(rulesOf(policy)).toContain('no-entry-point');
+  });
+
+  it.each(['ModSipTrunk', 'ModInvokable', 'ModDigital', 'ModStartDigital'])(
+    'should accept a %s start node loaded as a default node',
+    (templateClass) => {
+      const policy = createPolicy();
+      policy.nodes[0] = { id: 'inbound', type: 'default', data: { label: 'Start', templateClass } };
+      expect(rulesOf(policy)).not.toContain('no-entry-point');
+      expect(validatePolicyGraph(policy).valid).toBe(true);
+    }
+  );
+
+  it('should warn about unreachable nodes', () => {
+    const policy = createPolicy();
+    policy.nodes.push({ id: 'orphan', type: 'finish', data: { label: 'Orphan' } });
+
+    const diagnostic = validatePolicyGraph(policy).diagnostics.find(
+      (d) => d.rule === 'unreachable-node'
+    );
+    expect(diagnostic).toMatchObject({ severity: 'warning', nodeId: 'orphan' });
+  });
+
+  it('should report connections to missing nodes', () => {
+    const policy = createPolicy();
+    policy.edges?.push({ source: 'action', target: 'deleted-node' });
+
+    const diagnostic = validatePolicyGraph(policy).diagnostics.find(
+      (d) => d.rule === 'dangling-connection'
+    );
+    expect(diagnostic).toMatchObject({ severity: 'error', nodeId: 'action' });
+  });
+
+  it('should report nodes with no way out', () => {
+    const policy = createPolicy({ edges: [{ source: 'inbound', target: 'action' }] });
+    policy.nodes = policy.nodes.filter((n) => n.id !== 'finish');
+
+    const diagnostics = validatePolicyGraph(policy).diagnostics;
+    expect(diagnostics).toContainEqual(
+      expect.objectContaining({
+        rule: 'dangling-output',
+        severity: 'warning',
+        nodeId: 'action',
+        fixHint: expect.any(String),
+      })
+    );
+    expect(validatePolicyGraph(policy).valid).toBe(true);
+  });
+
+  it('should warn about unconnected rule branches', () => {
+    const policy = createPolicy();
+    const action = policy.nodes[1]!;
+    (action.data!.outputs as unknown[]).push({ id: 'rule', data: { label: 'Hours', type: 'rule' } });
+
+    const diagnostic = validatePolicyGraph(policy).diagnostics.find(
+      (d) => d.rule === 'unconnected-branch'
+    );
+    expect(diagnostic).toMatchObject({ severity: 'warning', nodeId: 'action', outputId: 'rule' });
+  });
+
+  it('should report loops with no exit', () => {
+    const policy = createPolicy({
+      nodes: [
+        { id: 'inbound', type: 'inboundNumber' },
+        { id: 'a', type: 'action', data: { label: 'Menu' } },
+        { id: 'b', type: 'action', data: { label: 'Retry' } },
+      ],
+      edges: [
+        { source: 'inbound', target: 'a' },
+        { source: 'a', target: 'b' },
+        { source: 'b', target: 'a' },
+      ],
+    });
+
+    const diagnostic = validatePolicyGraph(policy).diagnostics.find(
+      (d) => d.rule === 'cycle-without-exit'
+    );
+    expect(diagnostic?.severity).toBe('error');
+    expect(diagnostic?.message).toContain('Menu');
+    expect(diagnostic?.message).toContain('Retry');
+  });
+
+  it('should accept loops that can exit', () => {
+    const policy = createPolicy({
+      nodes: [
+        { id: 'inbound', type: 'inboundNumber' },
+        { id: 'a', type: 'action' },
+        { id: 'b', type: 'action' },
+        { id: 'f', type: 'finish' },
+      ],
+      edges: [
+        { source: 'inbound', target: 'a' },
+        { source: 'a', target: 'b' },
+        { source: 'b', target: 'a' },
+        { source: 'b', target: 'f' },
+      ],
+    });
+
+    expect(rulesOf(policy)).not.toContain('cycle-without-exit');
+  });
+
+  it('should report a trailing queue with no overflow path', () => {
+    const policy = createPolicy({ edges: [{ source: 'inbound', target: 'action' }] });
+
+    const diagnostic = validatePolicyGraph(policy).diagnostics.find(
+      (d) => d.rule === 'queue-no-overflow'
+    );
+    expect(diagnostic).toMatchObject({ severity: 'warning', nodeId: 'action', outputId: 'queue' });
+  });
+
+  it('should accept a queue followed by another app', () => {
+    const policy = createPolicy({ edges: [{ source: 'inbound', target: 'action' }] });
+    const action = policy.nodes[1]!;
+    (action.data!.outputs as unknown[]).push({ id: 'vm', data: { type: 'voicemail' } });
+
+    expect(rulesOf(policy)).not.toContain('queue-no-overflow');
+  });
+
+  it('should report Speak apps with empty text', () => {
+    const policy = createPolicy();
+    const action = policy.nodes[1]!;
+    const say = (action.data!.outputs as Array<Record<string, unknown>>)[0]!;
+    say.variables = { sayPhrase: '   ' };
+
+    const diagnostic = validatePolicyGraph(policy).diagnostics.find(
+      (d) => d.rule === 'speak-empty-text'
+    );
+    expect(diagnostic).toMatchObject({ severity: 'error', outputId: 'say' });
+  });
+
+  it('should skip disabled rules', () => {
+    const policy = createPolicy({ Name: '' });
+    const result = validatePolicyGraph(policy, { disabledRules: ['policy-name'] });
+    expect(result.valid).toBe(true);
+  });
+
+  it('should count errors and warnings', () => {
+    const policy = createPolicy({ Name: '' });
+    policy.nodes.push({ id: 'orphan', type: 'finish' });
+
+    const result = validatePolicyGraph(policy);
+    expect(result.errorCount).toBe(1);
+    expect(result.warningCount).toBe(1);
+    expect(result.valid).toBe(false);
+  });
+});
+
+describe('POLICY_VALIDATION_RULES', () => {
+  it('should have unique rule ids', () => {
+    const ids = POLICY_VALIDATION_RULES.map((r) => r.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('hasBlockingDiagnostics', () => {
+  it('should only block on errors', () => {
+    expect(hasBlockingDiagnostics([{ rule: 'x', severity: 'warning', message: '' }])).toBe(false);
+    expect(hasBlockingDiagnostics([{ rule: 'x', severity: 'error', message: '' }])).toBe(true);
+  });
+});
+
+describe('groupDiagnosticsByNode', () => {
+  it('should group by node id', () => {
+    const grouped = groupDiagnosticsByNode([
+      { rule: 'a', severity: 'error', nodeId: 'n1', message: '' },
+      { rule: 'b', severity: 'warning', nodeId: 'n1', message: '' },
+      { rule: 'c', severity: 'error', message: '' },
+    ]);
+
+    expect(grouped.get('n1')).toHaveLength(2);
+    expect(grouped.get('')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for rule evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateTimeOfDayRule,
+  evaluateCountryCodeRule,
+  evaluateNumberMatchRule,
+  evaluateEvaluateRule,
+  evaluateRuleConfig,
+  getZonedDateParts,
+  normalizePhoneNumber,
+  type RuleCallContext,
+} from '../ruleEvaluator';
+import type { TimeOfDayRule } from '../defaults';
+
+// Wednesday 10:30 UTC
+const context: RuleCallContext = {
+  callerNumber: '+44 7700 900123',
+  dialledNumber: '+1 (555) 010-0200',
+  dateTime: new Date('2024-03-13T10:30:00Z'),
+  properties: { 'caller.name': 'Ada', score: '42' },
+};
+
+const officeHours: TimeOfDayRule = {
+  startTime: '09:00',
+  endTime: '17:00',
+  timeBetween: true,
+  startDate: '',
+  endDate: '',
+  dateBetween: false,
+  days: ['MON', 'TUE', 'WED', 'THU', 'FRI'],
+  timeZone: 'UTC',
+};
+
+describe('normalizePhoneNumber', () => {
+  it('should strip formatting and keep a leading plus', () => {
+    expect(normalizePhoneNumber('+1 (555) 010-0200')).toBe('+15550100200');
+    expect(normalizePhoneNumber('020 7946 0000')).toBe('02079460000');
+  });
+});
+
+describe('getZonedDateParts', () => {
+  it('should convert to the given timezone', () => {
+    expect(getZonedDateParts(context.dateTime, 'UTC')).toEqual({
+      day: 'WED',
+      time: '10:30',
+      date: '2024-03-13',
+    });
+    expect(getZonedDateParts(context.dateTime, 'Asia/Tokyo').time).toBe('19:30');
+  });
+
+  it('should fall back to UTC for unknown timezones', () => {
+    expect(getZonedDateParts(context.dateTime, 'Not/AZone').time).toBe('10:30');
+  });
+});
+
+describe('evaluateTimeOfDayRule', () => {
+  it('should match inside office hours', () => {
+    expect(evaluateTimeOfDayRule(officeHours, context)).toBe(true);
+  });
+
+  it('should not match outside the time range or on other days', () => {
+    expect(evaluateTimeOfDayRule({ ...officeHours, timeZone: 'Asia/Tokyo' }, context)).toBe(false);
+    expect(evaluateTimeOfDayRule({ ...officeHours, days: ['SAT', 'SUN'] }, context)).toBe(false);
+  });
+
+  it('should handle ranges that cross midnight', () => {
+    const overnight = { ...officeHours, startTime: '22:00', endTime: '11:00' };
+    expect(evaluateTimeOfDayRule(overnight, context)).toBe(true);
+  });
+
+  it('should respect date ranges', () => {
+    const range = { ...officeHours, dateBetween: true, startDate: '2024-04-01', endDate: '' };
+    expect(evaluateTimeOfDayRule(range, context)).toBe(false);
+  });
+});
+
+describe('evaluateCountryCodeRule', () => {
+  it('should match the caller country', () => {
+    const rule = { numberType: 'CALLING', matches: 'EQUALS', countryCode: 'GB' };
+    expect(evaluateCountryCodeRule(rule, context)).toBe(true);
+    expect(evaluateCountryCodeRule({ ...rule, matches: 'NOT_EQUALS' }, context)).toBe(false);
+  });
+
+  it('should check the dialled number for CALLED rules', () => {
+    const rule = { numberType: 'CALLED', matches: 'EQUALS', countryCode: 'US' };
+    expect(evaluateCountryCodeRule(rule, context)).toBe(true);
+  });
+});
+
+describe('evaluateNumberMatchRule', () => {
+  it.each([
+    ['EQUALS', '+44 7700 900123', true],
+    ['NOT_EQUALS', '+447700900123', false],
+    ['STARTS_WITH', '+447700', true],
+    ['ENDS_WITH', '123', true],
+    ['CONTAINS', '900', true],
+    ['MATCHES', '^\\+44', true],
+    ['MATCHES', '([', false],
+  ])('should evaluate %s %s', (matches, number, expected) => {
+    expect(evaluateNumberMatchRule({ numberType: 'CALLING', matches, number }, context)).toBe(
+      expected
+    );
+  });
+});
+
+describe('evaluateEvaluateRule', () => {
+  it.each([
+    ['$(caller.name)', '==', 'Ada', true],
+    ['$(caller.name)', '!=', 'Ada', false],
+    ['$(score)', '>', '9', true],
+    ['$(score)', '<=', '42', true],
+    ['$(caller.name)', 'like', 'A%', true],
+    ['$(caller.name)', 'notlike', 'B_a', true],
+    ['$(caller.name)', 'contains', 'DA', true],
+    ['$(caller.name)', 'startswith', 'ad', true],
+    ['$(caller.name)', 'endswith', 'x', false],
+    ['$(missing)', 'isempty', '', true],
+    ['$(caller.name)', 'isnotempty', '', true],
+    ['$(caller.name)', 'unknown', 'Ada', false],
+  ])('should evaluate %s %s %s', (lhs, operator, rhs, expected) => {
+    expect(evaluateEvaluateRule({ lhs, operator, rhs }, context)).toBe(expected);
+  });
+});
+
+describe('evaluateRuleConfig', () => {
+  it('should match when nothing is configured', () => {
+    expect(evaluateRuleConfig(undefined, context).matched).toBe(true);
+  });
+
+  it('should AND rule types together', () => {
+    const result = evaluateRuleConfig(
+      {
+        timeOfDay: [[officeHours]],
+        countryCode: [[{ numberType: 'CALLING', matches: 'EQUALS', countryCode: 'FR' }]],
+      },
+      context
+    );
+
+    expect(result.matched).toBe(false);
+    expect(result.results).toMatchObject({ timeOfDay: 'match', countryCode: 'no-match' });
+  });
+
+  it('should OR groups of the same type', () => {
+    const result = evaluateRuleConfig(
+      {
+        countryCode: [
+          [{ numberType: 'CALLING', matches: 'EQUALS', countryCode: 'FR' }],
+          [{ numberType: 'CALLING', matches: 'EQUALS', countryCode: 'GB' }],
+        ],
+      },
+      context
+    );
+
+    expect(result.matched).toBe(true);
+  });
+
+  it('should check caller ID withheld', () => {
+    expect(evaluateRuleConfig({ callerIdWithheld: [[true]] }, context).matched).toBe(false);
+    expect(
+      evaluateRuleConfig({ callerIdWithheld: [[true]] }, { ...context, callerIdWithheld: true })
+        .matched
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,437 @@
+/**
+ * Auto Layout
+ *
+ * Layered left-to-right layout for the policy canvas, used by the editor's
+ * "Tidy up" command. Nodes are assigned to columns by longest path from the
+ * entry points, reordered within each column to reduce edge crossings, then
+ * stacked so each node sits next to the nodes that lead into it.
+ *
+ * Container nodes are laid out as a single block: their outputs act as
+ * ordered ports, so branches leave a container in the order its outputs are
+ * listed. Nodes with a parentNode (children of a group) are not moved; their
+ * position is relative to the parent and follows it.
+ */
+
+export interface LayoutNodeInput {
+  id: string;
+  type?: string;
+  parentNode?: string;
+  position: { x: number; y: number };
+  width: number;
+  height: number;
+  data?: Record<string, unknown>;
+}
+
+export interface LayoutEdgeInput {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+}
+
+export interface LayoutOptions {
+  /** Horizontal gap between columns */
+  layerSpacing?: number;
+  /** Vertical gap between nodes in a column */
+  nodeSpacing?: number;
+  /** Top-left corner of the laid out graph */
+  origin?: { x: number; y: number };
+  /** Number of crossing-reduction sweeps */
+  iterations?: number;
+}
+
+export interface LayoutResult {
+  /** New positions for top-level nodes; children are omitted */
+  positions: Record<string, { x: number; y: number }>;
+  /** Edge crossings left between adjacent columns */
+  crossings: number;
+}
+
+export const AUTO_LAYOUT_DEFAULTS = {
+  layerSpacing: 120,
+  nodeSpacing: 40,
+  origin: { x: 50, y: 50 },
+  iterations: 8,
+};
+
+interface Vertex {
+  id: string;
+  width: number;
+  height: number;
+  dummy: boolean;
+  layer: number;
+  inputIndex: number;
+}
+
+interface Link {
+  source: string;
+  target: string;
+  /** Where the link leaves the source, from 0 (top) to 1 (bottom) */
+  port: number;
+}
+
+// =============================================================================
+// Graph Preparation
+// =============================================================================
+
+/**
+ * Resolve each node to the top-level node it is drawn inside
+ */
+function buildTopLevelResolver(nodes: LayoutNodeInput[]): (id: string) => string | null {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  return (id) => {
+    let node = byId.get(id);
+    const seen = new Set<string>();
+    while (node?.parentNode && byId.has(node.parentNode) && !seen.has(node.id)) {
+      seen.add(node.id);
+      node = byId.get(node.parentNode);
+    }
+    return node?.id ?? null;
+  };
+}
+
+/**
+ * Port position of an edge on its top-level source node. Container outputs
+ * are ports in list order with the footer last; child nodes of a group are
+ * ports in their vertical order.
+ */
+function getPort(
+  edge: LayoutEdgeInput,
+  source: LayoutNodeInput,
+  childrenByParent: Map<string, LayoutNodeInput[]>,
+  resolveDirectChild: (id: string, parentId: string) => string
+): number {
+  if (edge.source !== source.id) {
+    const children = childrenByParent.get(source.id) ?? [];
+    const childId = resolveDirectChild(edge.source, source.id);
+    const index = children.findIndex((c) => c.id === childId);
+    return (Math.max(index, 0) + 1) / (children.length + 1);
+  }
+
+  const outputs = (source.data?.outputs as Array<{ id?: string }> | undefined) ?? [];
+  const index = outputs.findIndex((o) => o.id !== undefined && o.id === edge.sourceHandle);
+  const port = index >= 0 ? index : outputs.length;
+  return (port + 1) / (outputs.length + 2);
+}
+
+/**
+ * Drop edges that close a cycle so the rest of the graph can be layered.
+ * Entry points (nodes without incoming edges) are explored first.
+ */
+function removeCycles(ids: string[], links: Link[]): Link[] {
+  const outgoing = new Map<string, Link[]>(ids.map((id) => [id, []]));
+  const indegree = new Map<string, number>(ids.map((id) => [id, 0]));
+  for (const link of links) {
+    outgoing.get(link.source)?.push(link);
+    indegree.set(link.target, (indegree.get(link.target) ?? 0) + 1);
+  }
+
+  const state = new Map<string, 'active' | 'done'>();
+  const kept: Link[] = [];
+
+  const visit = (root: string) => {
+    // Iterative DFS so deep policies can't overflow the stack
+    const stack: Array<{ id: string; next: number }> = [{ id: root, next: 0 }];
+    state.set(root, 'active');
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1]!;
+      const out = outgoing.get(frame.id) ?? [];
+
+      if (frame.next >= out.length) {
+        state.set(frame.id, 'done');
+        stack.pop();
+        continue;
+      }
+
+      const link = out[frame.next++]!;
+      const targetState = state.get(link.target);
+      if (targetState === 'active') continue;
+
+      kept.push(link);
+      if (!targetState) {
+        state.set(link.target, 'active');
+        stack.push({ id: link.target, next: 0 });
+      }
+    }
+  };
+
+  const roots = [...ids.filter((id) => indegree.get(id) === 0), ...ids];
+  for (const id of roots) {
+    if (!state.has(id)) visit(id);
+  }
+
+  return kept;
+}
+
+/**
+ * Longest-path layering: every node sits one column right of its furthest predecessor
+ */
+function assignLayers(vertices: Map<string, Vertex>, links: Link[]): void {
+  const incoming = new Map<string, number>();
+  const outgoing = new Map<string, string[]>();
+  for (const link of links) {
+    incoming.set(link.target, (incoming.get(link.target) ?? 0) + 1);
+    outgoing.set(link.source, [...(outgoing.get(link.source) ?? []), link.target]);
+  }
+
+  const queue = [...vertices.keys()].filter((id) => !incoming.get(id));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const layer = vertices.get(id)!.layer;
+
+    for (const target of outgoing.get(id) ?? []) {
+      const vertex = vertices.get(target)!;
+      vertex.layer = Math.max(vertex.layer, layer + 1);
+      const remaining = (incoming.get(target) ?? 0) - 1;
+      incoming.set(target, remaining);
+      if (remaining === 0) queue.push(target);
+    }
+  }
+}
+
+/**
+ * Split links that span several columns into chains through dummy vertices,
+ * so long edges take part in crossing reduction and get a lane of their own
+ */
+function insertDummies(vertices: Map<string, Vertex>, links: Link[]): Link[] {
+  const result: Link[] = [];
+  let counter = 0;
+
+  for (const link of links) {
+    const from = vertices.get(link.source)!.layer;
+    const to = vertices.get(link.target)!.layer;
+
+    let previous = link.source;
+    let port = link.port;
+    for (let layer = from + 1; layer < to; layer++) {
+      const id = `__dummy_${counter++}`;
+      vertices.set(id, { id, width: 0, height: 0, dummy: true, layer, inputIndex: Infinity });
+      result.push({ source: previous, target: id, port });
+      previous = id;
+      port = 0.5;
+    }
+    result.push({ source: previous, target: link.target, port });
+  }
+
+  return result;
+}
+
+// =============================================================================
+// Crossing Reduction
+// =============================================================================
+
+type Ordering = string[][];
+
+function indexOrdering(ordering: Ordering): Map<string, number> {
+  const index = new Map<string, number>();
+  for (const layer of ordering) {
+    layer.forEach((id, i) => index.set(id, i));
+  }
+  return index;
+}
+
+/**
+ * Count crossings between adjacent columns. Links leaving the same node
+ * are told apart by their port, so output order counts too.
+ */
+function countCrossings(ordering: Ordering, links: Link[], layerOf: (id: string) => number): number {
+  const index = indexOrdering(ordering);
+  const byLayer = new Map<number, Link[]>();
+  for (const link of links) {
+    const layer = layerOf(link.source);
+    byLayer.set(layer, [...(byLayer.get(layer) ?? []), link]);
+  }
+
+  let crossings = 0;
+  for (const layerLinks of byLayer.values()) {
+    for (let i = 0; i < layerLinks.length; i++) {
+      for (let j = i + 1; j < layerLinks.length; j++) {
+        const a = layerLinks[i]!;
+        const b = layerLinks[j]!;
+        const sourceDelta = index.get(a.source)! + a.port - (index.get(b.source)! + b.port);
+        const targetDelta = index.get(a.target)! - index.get(b.target)!;
+        if (sourceDelta * targetDelta < 0) crossings++;
+      }
+    }
+  }
+  return crossings;
+}
+
+/**
+ * Reorder one column by the mean position of its neighbours in the adjacent
+ * column. Nodes without neighbours keep their current slot.
+ */
+function reorderLayer(
+  layer: string[],
+  neighbours: Map<string, Array<{ id: string; offset: number }>>,
+  index: Map<string, number>
+): string[] {
+  const keyed = layer.map((id, current) => {
+    const adjacent = neighbours.get(id) ?? [];
+    const key =
+      adjacent.length > 0
+        ? adjacent.reduce((sum, n) => sum + index.get(n.id)! + n.offset, 0) / adjacent.length
+        : current;
+    return { id, key, current };
+  });
+
+  keyed.sort((a, b) => a.key - b.key || a.current - b.current);
+  return keyed.map((k) => k.id);
+}
+
+function orderLayers(vertices: Map<string, Vertex>, links: Link[], iterations: number): Ordering {
+  const layerCount = Math.max(0, ...[...vertices.values()].map((v) => v.layer)) + 1;
+  let ordering: Ordering = Array.from({ length: layerCount }, () => []);
+
+  // Start from input order; dummies follow the real nodes
+  const sorted = [...vertices.values()].sort((a, b) => a.inputIndex - b.inputIndex);
+  for (const vertex of sorted) ordering[vertex.layer]!.push(vertex.id);
+
+  const predecessors = new Map<string, Array<{ id: string; offset: number }>>();
+  const successors = new Map<string, Array<{ id: string; offset: number }>>();
+  for (const link of links) {
+    predecessors.set(link.target, [...(predecessors.get(link.target) ?? []), { id: link.source, offset: link.port }]);
+    successors.set(link.source, [...(successors.get(link.source) ?? []), { id: link.target, offset: 0 }]);
+  }
+
+  const layerOf = (id: string) => vertices.get(id)!.layer;
+  let best = ordering.map((layer) => [...layer]);
+  let bestCrossings = Infinity;
+
+  for (let iteration = 0; iteration <= iterations; iteration++) {
+    const downward = iteration % 2 === 0;
+    const index = indexOrdering(ordering);
+
+    if (downward) {
+      for (let l = 1; l < layerCount; l++) {
+        ordering[l] = reorderLayer(ordering[l]!, predecessors, index);
+        ordering[l]!.forEach((id, i) => index.set(id, i));
+      }
+    } else {
+      for (let l = layerCount - 2; l >= 0; l--) {
+        ordering[l] = reorderLayer(ordering[l]!, successors, index);
+        ordering[l]!.forEach((id, i) => index.set(id, i));
+      }
+    }
+
+    const crossings = countCrossings(ordering, links, layerOf);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = ordering.map((layer) => [...layer]);
+    }
+    if (crossings === 0) break;
+  }
+
+  ordering = best;
+  return ordering;
+}
+
+// =============================================================================
+// Layout
+// =============================================================================
+
+/**
+ * Lay out the canvas left to right. Returns new positions for every
+ * top-level node; nodes inside a group keep their relative position.
+ */
+export function computeAutoLayout(
+  nodes: LayoutNodeInput[],
+  edges: LayoutEdgeInput[],
+  options: LayoutOptions = {}
+): LayoutResult {
+  const { layerSpacing, nodeSpacing, origin, iterations } = { ...AUTO_LAYOUT_DEFAULTS, ...options };
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const resolveTopLevel = buildTopLevelResolver(nodes);
+
+  const topLevel = nodes.filter((n) => resolveTopLevel(n.id) === n.id);
+  const childrenByParent = new Map<string, LayoutNodeInput[]>();
+  for (const node of nodes) {
+    if (node.parentNode && byId.has(node.parentNode)) {
+      childrenByParent.set(node.parentNode, [...(childrenByParent.get(node.parentNode) ?? []), node]);
+    }
+  }
+  for (const children of childrenByParent.values()) {
+    children.sort((a, b) => a.position.y - b.position.y);
+  }
+
+  const resolveDirectChild = (id: string, parentId: string) => {
+    let node = byId.get(id);
+    while (node?.parentNode && node.parentNode !== parentId) node = byId.get(node.parentNode);
+    return node?.id ?? id;
+  };
+
+  const vertices = new Map<string, Vertex>(
+    topLevel.map((n, inputIndex) => [
+      n.id,
+      { id: n.id, width: n.width, height: n.height, dummy: false, layer: 0, inputIndex },
+    ])
+  );
+
+  const links: Link[] = [];
+  for (const edge of edges) {
+    const source = resolveTopLevel(edge.source);
+    const target = resolveTopLevel(edge.target);
+    if (!source || !target || source === target) continue;
+    links.push({
+      source,
+      target,
+      port: getPort(edge, byId.get(source)!, childrenByParent, resolveDirectChild),
+    });
+  }
+
+  const acyclic = removeCycles([...vertices.keys()], links);
+  assignLayers(vertices, acyclic);
+  const layeredLinks = insertDummies(vertices, acyclic);
+  const ordering = orderLayers(vertices, layeredLinks, iterations);
+
+  // Column x: each column starts after the widest node of the previous one
+  const layerX: number[] = [];
+  let x = origin.x;
+  for (const layer of ordering) {
+    layerX.push(x);
+    x += Math.max(0, ...layer.map((id) => vertices.get(id)!.width)) + layerSpacing;
+  }
+
+  // Row y: stack each column, pulling nodes level with the ports that lead into them
+  const predecessors = new Map<string, Link[]>();
+  for (const link of layeredLinks) {
+    predecessors.set(link.target, [...(predecessors.get(link.target) ?? []), link]);
+  }
+
+  const top = new Map<string, number>();
+  for (const layer of ordering) {
+    let floor = origin.y;
+    for (const id of layer) {
+      const vertex = vertices.get(id)!;
+      const incoming = (predecessors.get(id) ?? []).filter((link) => top.has(link.source));
+
+      let desired = floor;
+      if (incoming.length > 0) {
+        const portY =
+          incoming.reduce((sum, link) => {
+            const source = vertices.get(link.source)!;
+            return sum + top.get(link.source)! + source.height * link.port;
+          }, 0) / incoming.length;
+        desired = portY - vertex.height / 2;
+      }
+
+      const y = Math.max(desired, floor);
+      top.set(id, y);
+      floor = y + vertex.height + (vertex.dummy ? nodeSpacing / 2 : nodeSpacing);
+    }
+  }
+
+  const positions: LayoutResult['positions'] = {};
+  ordering.forEach((layer, l) => {
+    for (const id of layer) {
+      if (vertices.get(id)!.dummy) continue;
+      positions[id] = { x: layerX[l]!, y: Math.round(top.get(id)!) };
+    }
+  });
+
+  return {
+    positions,
+    crossings: countCrossings(ordering, layeredLinks, (id) => vertices.get(id)!.layer),
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Canvas Commands
+ *
+ * Keyboard support for the policy canvas: the shortcut table shared by the
+ * key handler and the command palette, fuzzy matching of palette entries,
+ * arrow-key navigation along connections and aligning a selection.
+ *
+ * Shortcuts are written as `Mod+Shift+Z`, where `Mod` is Cmd on macOS and
+ * Ctrl elsewhere.
+ */
+
+// =============================================================================
+// Shortcuts
+// =============================================================================
+
+export const CANVAS_SHORTCUTS = {
+  commandPalette: 'Mod+K',
+  copy: 'Mod+C',
+  paste: 'Mod+V',
+  duplicate: 'Mod+D',
+  delete: 'Delete',
+  undo: 'Mod+Z',
+  redo: 'Mod+Shift+Z',
+  selectAll: 'Mod+A',
+  zoomIn: 'Mod+=',
+  zoomOut: 'Mod+-',
+  zoomToFit: 'Shift+1',
+  alignLeft: 'Alt+Shift+ArrowLeft',
+  alignRight: 'Alt+Shift+ArrowRight',
+  alignTop: 'Alt+Shift+ArrowUp',
+  alignBottom: 'Alt+Shift+ArrowDown',
+  alignCenter: 'Alt+Shift+H',
+  alignMiddle: 'Alt+Shift+V',
+  openOptions: 'Enter',
+  selectMode: 'V',
+  panMode: 'H',
+} as const;
+
+export type CanvasShortcutId = keyof typeof CANVAS_SHORTCUTS;
+
+export interface ShortcutEvent {
+  key: string;
+  code?: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Delete: 'Del',
+  Enter: '↵',
+};
+
+const MAC_MODIFIERS: Record<string, string> = { Mod: '⌘', Shift: '⇧', Alt: '⌥' };
+const PC_MODIFIERS: Record<string, string> = { Mod: 'Ctrl', Shift: 'Shift', Alt: 'Alt' };
+
+function parseShortcut(shortcut: string) {
+  const parts = shortcut.split('+');
+  const key = parts.pop() ?? '';
+  return { key, mod: parts.includes('Mod'), shift: parts.includes('Shift'), alt: parts.includes('Alt') };
+}
+
+/**
+ * Whether the key matches a shortcut key. Letters and digits also match on
+ * the physical key, since Alt and Shift change `event.key` (Shift+1 is `!`,
+ * Alt+H is `˙` on a Mac).
+ */
+function matchesKey(event: ShortcutEvent, key: string): boolean {
+  if (/^[a-z]$/i.test(key)) {
+    return event.key.toLowerCase() === key.toLowerCase() || event.code === `Key${key.toUpperCase()}`;
+  }
+  if (/^\d$/.test(key)) {
+    return event.key === key || event.code === `Digit${key}`;
+  }
+  if (key === '=') {
+    return event.key === '=' || event.key === '+' || event.code === 'Equal';
+  }
+  if (key === '-') {
+    return event.key === '-' || event.key === '_' || event.code === 'Minus';
+  }
+  return event.key === key;
+}
+
+/**
+ * Check a keyboard event against a shortcut. Modifiers must match exactly,
+ * so `Mod+Z` does not fire for Ctrl+Shift+Z.
+ */
+export function matchesShortcut(event: ShortcutEvent, shortcut: string): boolean {
+  const { key, mod, shift, alt } = parseShortcut(shortcut);
+  return (
+    (event.ctrlKey || event.metaKey) === mod &&
+    event.shiftKey === shift &&
+    event.altKey === alt &&
+    matchesKey(event, key)
+  );
+}
+
+/**
+ * Display form of a shortcut, e.g. `⌘⇧Z` on a Mac and `Ctrl+Shift+Z` elsewhere
+ */
+export function formatShortcut(shortcut: string, isMac: boolean): string {
+  const { key, mod, shift, alt } = parseShortcut(shortcut);
+  const names = isMac ? MAC_MODIFIERS : PC_MODIFIERS;
+  const parts = [mod && names.Mod, alt && names.Alt, shift && names.Shift].filter((p): p is string => !!p);
+  parts.push(KEY_SYMBOLS[key] ?? key.toUpperCase());
+  return parts.join(isMac ? '' : '+');
+}
+
+// =============================================================================
+// Command palette
+// =============================================================================
+
+export interface CanvasCommand {
+  id: string;
+  /** Heading the command is listed under, e.g. "Add node" */
+  group: string;
+  label: string;
+  /** Extra words to match on, e.g. a node type's description */
+  keywords?: string;
+  shortcut?: string;
+}
+
+/**
+ * Score a query against text: 3 for a prefix match, 2 when it starts a word,
+ * 1 when it appears anywhere or its letters appear in order, 0 otherwise.
+ */
+function scoreText(text: string, query: string): number {
+  const lower = text.toLowerCase();
+  if (lower.startsWith(query)) return 3;
+  if (lower.split(/[\s\-_/→]+/).some((word) => word.startsWith(query))) return 2;
+  if (lower.includes(query)) return 1;
+
+  let position = 0;
+  for (const char of query) {
+    position = lower.indexOf(char, position);
+    if (position < 0) return 0;
+    position++;
+  }
+  return 1;
+}
+
+/**
+ * Filter commands by a query, best matches first. Labels outrank keywords and
+ * ties keep their original order. An empty query returns every command.
+ */
+export function matchCanvasCommands<T extends CanvasCommand>(commands: T[], query: string): T[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return commands;
+
+  return commands
+    .map((command, index) => {
+      const labelScore = scoreText(command.label, q) * 2;
+      const keywordScore = command.keywords ? scoreText(command.keywords, q) : 0;
+      return { command, index, score: Math.max(labelScore, keywordScore) };
+    })
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.command);
+}
+
+// =============================================================================
+// Navigation and alignment
+// =============================================================================
+
+export type CanvasDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface CanvasNode {
+  id: string;
+  position: { x: number; y: number };
+  parentNode?: string;
+}
+
+export interface CanvasEdge {
+  source: string;
+  target: string;
+}
+
+export type NodeSizeFn<T extends CanvasNode = CanvasNode> = (node: T) => { width: number; height: number };
+
+const DEFAULT_SIZE: NodeSizeFn = () => ({ width: 150, height: 60 });
+
+function getCenter<T extends CanvasNode>(node: T, getSize: NodeSizeFn<T>) {
+  const { width, height } = getSize(node);
+  return { x: node.position.x + width / 2, y: node.position.y + height / 2 };
+}
+
+/**
+ * The nearest candidate in a direction. Distance along the direction counts
+ * once and sideways drift counts double, so a node straight ahead beats a
+ * closer one off to the side.
+ */
+function nearestInDirection<T extends CanvasNode>(
+  from: T,
+  candidates: T[],
+  direction: CanvasDirection,
+  getSize: NodeSizeFn<T>
+): T | null {
+  const origin = getCenter(from, getSize);
+  let best: T | null = null;
+  let bestScore = Infinity;
+
+  for (const candidate of candidates) {
+    if (candidate.id === from.id) continue;
+
+    const center = getCenter(candidate, getSize);
+    const dx = center.x - origin.x;
+    const dy = center.y - origin.y;
+    const [ahead, sideways] = direction === 'left' || direction === 'right' ? [dx, dy] : [dy, dx];
+    const forward = direction === 'right' || direction === 'down' ? ahead : -ahead;
+    if (forward <= 0) continue;
+
+    const score = forward + Math.abs(sideways) * 2;
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * The node to move to when an arrow key is pressed on `fromId`. Right follows
+ * outgoing connections and left follows incoming ones; up and down move
+ * between nodes that share a source. When there is no connected node in that
+ * direction the nearest node on screen is used. With nothing selected the
+ * top-left node is returned.
+ *
+ * Child nodes (those with a parentNode) are skipped: they move with their
+ * parent and are reached through its options.
+ */
+export function findAdjacentNode<T extends CanvasNode>(
+  { nodes, edges }: { nodes: T[]; edges: CanvasEdge[] },
+  fromId: string | null,
+  direction: CanvasDirection,
+  getSize: NodeSizeFn<T> = DEFAULT_SIZE
+): string | null {
+  const topLevel = nodes.filter((node) => !node.parentNode);
+  const byId = new Map(topLevel.map((node) => [node.id, node]));
+  const from = fromId ? byId.get(fromId) : undefined;
+
+  if (!from) {
+    const [first] = [...topLevel].sort((a, b) => a.position.x - b.position.x || a.position.y - b.position.y);
+    return first?.id ?? null;
+  }
+
+  const lookup = (ids: string[]) =>
+    [...new Set(ids)].map((id) => byId.get(id)).filter((node): node is T => !!node && node.id !== from.id);
+
+  let connected: T[];
+  if (direction === 'right') {
+    connected = lookup(edges.filter((e) => e.source === from.id).map((e) => e.target));
+  } else if (direction === 'left') {
+    connected = lookup(edges.filter((e) => e.target === from.id).map((e) => e.source));
+  } else {
+    const sources = new Set(edges.filter((e) => e.target === from.id).map((e) => e.source));
+    connected = lookup(edges.filter((e) => sources.has(e.source)).map((e) => e.target));
+  }
+
+  if (direction === 'right' || direction === 'left') {
+    // Connections can point backwards, so take the topmost rather than the nearest
+    const [first] = connected.sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+    if (first) return first.id;
+  } else {
+    const sibling = nearestInDirection(from, connected, direction, getSize);
+    if (sibling) return sibling.id;
+  }
+
+  return nearestInDirection(from, topLevel, direction, getSize)?.id ?? null;
+}
+
+export type CanvasAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/**
+ * New positions that line the given nodes up against the edge (or centre
+ * line) of their combined bounds. Needs at least two top-level nodes;
+ * otherwise nothing is returned.
+ */
+export function alignNodePositions<T extends CanvasNode>(
+  nodes: T[],
+  ids: Iterable<string>,
+  alignment: CanvasAlignment,
+  getSize: NodeSizeFn<T> = DEFAULT_SIZE
+): Record<string, { x: number; y: number }> {
+  const selected = new Set(ids);
+  const picked = nodes
+    .filter((node) => selected.has(node.id) && !node.parentNode)
+    .map((node) => ({ node, ...getSize(node) }));
+  if (picked.length < 2) return {};
+
+  const minX = Math.min(...picked.map(({ node }) => node.position.x));
+  const maxX = Math.max(...picked.map(({ node, width }) => node.position.x + width));
+  const minY = Math.min(...picked.map(({ node }) => node.position.y));
+  const maxY = Math.max(...picked.map(({ node, height }) => node.position.y + height));
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  for (const { node, width, height } of picked) {
+    let { x, y } = node.position;
+    switch (alignment) {
+      case 'left':
+        x = minX;
+        break;
+      case 'center':
+        x = (minX + maxX) / 2 - width / 2;
+        break;
+      case 'right':
+        x = maxX - width;
+        break;
+      case 'top':
+        y = minY;
+        break;
+      case 'middle':
+        y = (minY + maxY) / 2 - height / 2;
+        break;
+      case 'bottom':
+        y = maxY - height;
+        break;
+    }
+    positions[node.id] = { x, y };
+  }
+  return positions;
+}
@@ -10,6 +10,18 @@
  * - Build payload (main save function)
  * - Node manager service (node CRUD operations)
  * - Defaults (configuration defaults and constants)
+ * - Policy graph (normalised node/connection graph for analysis)
+ * - Policy validator (semantic checks run before save)
+ * - Rule evaluator (Rule app conditions against call details)
+ * - Policy simulator (dry-run call tracing)
+ * - Policy diff (node-level comparison of revisions)
+ * - Policy bundle (portable export/import between orgs)
+ * - Auto layout (layered "Tidy up" canvas layout)
+ * - Policy templates (reusable sub-flows for the node palette)
+ * - Policy merge (three-way merge after a conflicting save)
+ * - Policy usage (where-used search and replace)
+ * - Canvas commands (keyboard shortcuts, command palette, arrow-key navigation)
+ * - Policy document (human-readable call flow report)
  */
 
 export * from './types';
@@ -20,4 +32,16 @@ export * from './payloadService';
 export * from './buildPayload';
 export * from './nodeManagerService';
 export * from './defaults';
+export * from './policyGraph';
+export * from './policyValidator';
+export * from './ruleEvaluator';
+export * from './policySimulator';
+export * from './policyDiff';
+export * from './policyBundle';
+export * from './autoLayout';
+export * from './policyTemplates';
+export * from './policyMerge';
+export * from './policyUsage';
+export * from './canvasCommands';
+export * from './policyDocument';
 
@@ -0,0 +1,247 @@
+/**
+ * PDF Writer
+ *
+ * Just enough PDF to lay out a text document with simple drawings: A4
+ * pages, the standard Helvetica fonts (which every viewer has, so nothing
+ * is embedded) and uncompressed content streams. Text is WinAnsi encoded
+ * and written with escapes, so the whole file is ASCII and can be handled
+ * as a string in the browser and on the server alike.
+ *
+ * Positions are in points from the top left of the page; text is placed
+ * by its baseline.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const FONTS: Record<PdfFont, { key: string; name: string }> = {
+  regular: { key: 'F1', name: 'Helvetica' },
+  bold: { key: 'F2', name: 'Helvetica-Bold' },
+  italic: { key: 'F3', name: 'Helvetica-Oblique' },
+};
+
+// Glyph widths in 1/1000 em for characters 32-126, from the fonts' metrics
+// (Helvetica-Oblique shares Helvetica's)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778,
+  722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778,
+  722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes for the characters outside Latin-1 that documents commonly use
+const WIN_ANSI_CODES: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+function winAnsiCode(char: string): number {
+  const code = char.codePointAt(0) ?? 63;
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_CODES[char] ?? 63;
+}
+
+function charWidth(char: string, font: PdfFont): number {
+  const code = winAnsiCode(char);
+  if (code < 32 || code > 126) return DEFAULT_WIDTH;
+  return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32] ?? DEFAULT_WIDTH;
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function pdfTextWidth(text: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char, font);
+  return (width * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`, at spaces where possible
+ */
+export function wrapPdfText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (pdfTextWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word wider than the line is broken wherever it reaches the edge
+      line = '';
+      for (const char of word) {
+        if (line && pdfTextWidth(line + char, font, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Shorten text with an ellipsis until it fits `maxWidth`
+ */
+export function fitPdfText(text: string, font: PdfFont, size: number, maxWidth: number): string {
+  if (pdfTextWidth(text, font, size) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted && pdfTextWidth(`${fitted}…`, font, size) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+}
+
+function pdfString(text: string): string {
+  let escaped = '';
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    if (char === '(' || char === ')' || char === '\\') escaped += `\\${char}`;
+    else if (code > 126) escaped += `\\${code.toString(8).padStart(3, '0')}`;
+    else escaped += String.fromCharCode(code);
+  }
+  return `(${escaped})`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/** `#rrggbb` as PDF RGB components */
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((c) => num(c / 255)).join(' ');
+}
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: string;
+}
+
+export interface PdfShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export class PdfWriter {
+  private pages: string[][] = [];
+  private current = -1;
+
+  constructor(private readonly title: string) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Start a new page; drawing goes on it from now on */
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /** Draw on an earlier page, e.g. to number the pages once they're all laid out */
+  onPage(index: number, draw: () => void): void {
+    const current = this.current;
+    this.current = index;
+    draw();
+    this.current = current;
+  }
+
+  private draw(op: string): void {
+    if (this.pages.length === 0) this.addPage();
+    this.pages[this.current]!.push(op);
+  }
+
+  text(x: number, y: number, text: string, { font = 'regular', size = 10, color = '#000000' }: PdfTextOptions = {}): void {
+    this.draw(
+      `BT ${rgb(color)} rg /${FONTS[font].key} ${num(size)} Tf ${num(x)} ${num(PDF_PAGE_HEIGHT - y)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  private paint({ fill, stroke, lineWidth = 1 }: PdfShapeOptions): string {
+    const colors = [fill && `${rgb(fill)} rg`, stroke && `${rgb(stroke)} RG ${num(lineWidth)} w`].filter(Boolean);
+    const operator = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    return `${colors.join(' ')} ${operator}`;
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions): void {
+    this.draw(`${num(x)} ${num(PDF_PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re ${this.paint(options)}`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions): void {
+    this.draw(`${num(x1)} ${num(PDF_PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PDF_PAGE_HEIGHT - y2)} l ${this.paint(options)}`);
+  }
+
+  /** A cubic Bézier curve from the first point to the last */
+  curve(points: [number, number][], options: PdfShapeOptions): void {
+    const [start, ...controls] = points.map(([x, y]) => `${num(x)} ${num(PDF_PAGE_HEIGHT - y)}`);
+    this.draw(`${start} m ${controls.join(' ')} c ${this.paint(options)}`);
+  }
+
+  polygon(points: [number, number][], options: PdfShapeOptions): void {
+    const [start, ...rest] = points.map(([x, y]) => `${num(x)} ${num(PDF_PAGE_HEIGHT - y)}`);
+    this.draw(`${start} m ${rest.map((point) => `${point} l`).join(' ')} h ${this.paint(options)}`);
+  }
+
+  /** The finished file */
+  toString(): string {
+    const pages = this.pages.length > 0 ? this.pages : [[]];
+    const fontIds = Object.values(FONTS).map((_, i) => 4 + i);
+    const firstPageId = 4 + fontIds.length;
+    const pageIds = pages.map((_, i) => firstPageId + i * 2);
+    const fontResources = Object.values(FONTS)
+      .map((font, i) => `/${font.key} ${fontIds[i]} 0 R`)
+      .join(' ');
+
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      `<< /Title ${pdfString(this.title)} >>`,
+      ...Object.values(FONTS).map(
+        (font) => `<< /Type /Font /Subtype /Type1 /BaseFont /${font.name} /Encoding /WinAnsiEncoding >>`
+      ),
+      ...pages.flatMap((ops, i) => {
+        const stream = ops.join('\n');
+        return [
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[i]! + 1} 0 R >>`,
+          `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+        ];
+      }),
+    ];
+
+    let file = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+      const offset = file.length;
+      file += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = file.length;
+    file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    file += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return file;
+  }
+}
@@ -0,0 +1,512 @@
+/**
+ * Policy Bundle
+ *
+ * Portable export format for moving a routing policy between orgs. A bundle
+ * carries the legacy policy body (Body__c) together with a manifest of the
+ * org-specific entities it references. On import every reference is mapped to
+ * an entity in the target org, or left as a placeholder, and the body is then
+ * run through clonePolicy for fresh ids and a clone report.
+ */
+
+import { cloneDeep } from 'lodash-es';
+import { clonePolicy, type CloneReport, type Policy, type PolicyOutput } from './policyService';
+
+export const POLICY_BUNDLE_FORMAT = 'avs-policy-bundle';
+export const POLICY_BUNDLE_VERSION = 1;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BundleReferenceKind = 'group' | 'user' | 'sound' | 'skill' | 'phoneNumber';
+
+export const BUNDLE_REFERENCE_KINDS: BundleReferenceKind[] = [
+  'group',
+  'user',
+  'sound',
+  'skill',
+  'phoneNumber',
+];
+
+export const BUNDLE_REFERENCE_LABELS: Record<BundleReferenceKind, string> = {
+  group: 'Group',
+  user: 'User',
+  sound: 'Sound',
+  skill: 'Skill',
+  phoneNumber: 'Phone Number',
+};
+
+/**
+ * Where in the policy a reference is used
+ */
+export interface BundleReferenceUsage {
+  nodeId: string;
+  nodeName: string;
+  elementName: string;
+}
+
+/**
+ * An org-specific entity referenced by the policy body
+ */
+export interface BundleReference {
+  kind: BundleReferenceKind;
+  /** Value as it appears in the body: platform id, skill id or phone number */
+  id: string;
+  /** Name in the source org, used to suggest a match in the target org */
+  name?: string;
+  usages: BundleReferenceUsage[];
+}
+
+export type BundleManifest = Record<BundleReferenceKind, BundleReference[]>;
+
+export interface PolicyBundle {
+  format: typeof POLICY_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: {
+    policyId: string;
+    policyName: string;
+  };
+  policy: {
+    name: string;
+    description: string;
+    type: string;
+    /** Legacy Body__c object */
+    body: Policy;
+  };
+  manifest: BundleManifest;
+}
+
+/**
+ * An entity in an org that a reference can be resolved against
+ */
+export interface BundleTargetEntity {
+  id: string;
+  name: string;
+  /** Value written into the body: platform id, skill id or phone number */
+  reference: string;
+}
+
+export type BundleTargets = Record<BundleReferenceKind, BundleTargetEntity[]>;
+
+export type BundleMapping = { action: 'map'; targetId: string } | { action: 'placeholder' };
+
+/** Mappings keyed by getReferenceKey */
+export type BundleMappings = Record<string, BundleMapping>;
+
+export type ParseBundleResult =
+  | { success: true; bundle: PolicyBundle }
+  | { success: false; error: string };
+
+export interface BundleImportResult {
+  /** Cloned legacy body with fresh ids, ready for transformLegacyPolicy */
+  policy: Policy;
+  report: CloneReport;
+  /** References left empty, to be fixed in the editor */
+  placeholders: BundleReference[];
+  /** Target phone numbers to assign to the imported policy */
+  phoneNumberIds: string[];
+}
+
+// =============================================================================
+// Reference Locators
+// =============================================================================
+
+export interface ReferenceSlot {
+  kind: Exclude<BundleReferenceKind, 'phoneNumber'>;
+  id: string;
+  name?: string;
+  usage: BundleReferenceUsage;
+  /** Point the reference at a target entity, or clear it */
+  replace: (target: BundleTargetEntity | null) => void;
+}
+
+type ConnectTarget = { method: string; target: string | number | null };
+
+function hasId(value: unknown): value is string | number {
+  return (typeof value === 'string' && value !== '') || typeof value === 'number';
+}
+
+function connectSlots(
+  items: ConnectTarget[],
+  usage: BundleReferenceUsage,
+  visit: (slot: ReferenceSlot) => void
+): void {
+  items.forEach((item) => {
+    if (!hasId(item.target) || (item.method !== 'USER' && item.method !== 'GROUP')) return;
+    visit({
+      kind: item.method === 'USER' ? 'user' : 'group',
+      id: String(item.target),
+      usage,
+      replace: (target) => {
+        item.target = target?.reference ?? null;
+      },
+    });
+  });
+}
+
+/**
+ * Visit every group, user, sound and skill reference in the body.
+ * These are the same locations clonePolicy checks against the target org.
+ */
+export function forEachEntityReference(body: Policy, visit: (slot: ReferenceSlot) => void): void {
+  for (const node of body.nodes ?? []) {
+    const nodeName = node.name || node.title || node.id;
+
+    for (const element of node.outputs ?? []) {
+      const usage = { nodeId: node.id, nodeName, elementName: element.name || element.templateClass || '' };
+
+      switch (element.templateClass) {
+        case 'ModConnect': {
+          const connectAction = element.config?.connectAction as Record<string, ConnectTarget> | undefined;
+          if (connectAction) connectSlots(Object.values(connectAction), usage, visit);
+          break;
+        }
+        case 'ModConnect_FollowMe': {
+          const followMe = element.config?.followMe as ConnectTarget[] | undefined;
+          if (followMe) connectSlots(followMe, usage, visit);
+          break;
+        }
+        case 'ModConnect_Queue':
+          visitQueue(element, usage, visit);
+          break;
+        case 'ModAction_RequestSkills':
+          visitSkills(element, usage, visit);
+          break;
+        case 'ModFinish_VoiceMail':
+          visitMailbox(element, usage, visit);
+          break;
+      }
+    }
+  }
+}
+
+function visitQueue(
+  element: PolicyOutput,
+  usage: BundleReferenceUsage,
+  visit: (slot: ReferenceSlot) => void
+): void {
+  const ringTargets = element.variables?.ringTargets as Array<{ groupId: string | number | null }> | undefined;
+  ringTargets?.forEach((item) => {
+    if (!hasId(item.groupId)) return;
+    visit({
+      kind: 'group',
+      id: String(item.groupId),
+      usage,
+      replace: (target) => {
+        item.groupId = target?.reference ?? null;
+      },
+    });
+  });
+
+  const announcements = element.variables?.announcements as Array<{ soundId?: string | number }> | undefined;
+  announcements?.forEach((item) => {
+    if (!hasId(item.soundId)) return;
+    visit({
+      kind: 'sound',
+      id: String(item.soundId),
+      usage,
+      replace: (target) => {
+        item.soundId = target?.reference ?? '';
+      },
+    });
+  });
+}
+
+function visitSkills(
+  element: PolicyOutput,
+  usage: BundleReferenceUsage,
+  visit: (slot: ReferenceSlot) => void
+): void {
+  const config = element.config;
+  const skills = config?.skills as Array<{ Id__c: string; Name?: string }> | undefined;
+  if (!config || !skills) return;
+
+  // Iterate a copy: clearing a skill removes it from the list
+  [...skills].forEach((item) => {
+    if (!hasId(item.Id__c)) return;
+    visit({
+      kind: 'skill',
+      id: String(item.Id__c),
+      name: item.Name,
+      usage,
+      replace: (target) => {
+        if (target) {
+          item.Id__c = target.reference;
+          item.Name = target.name;
+        } else {
+          config.skills = (config.skills as typeof skills).filter((skill) => skill !== item);
+        }
+      },
+    });
+  });
+}
+
+function visitMailbox(
+  element: PolicyOutput,
+  usage: BundleReferenceUsage,
+  visit: (slot: ReferenceSlot) => void
+): void {
+  const mailbox = element.variables?.mailbox as { type: string; groupId?: string; userId?: string } | undefined;
+  if (!mailbox) return;
+
+  const field = mailbox.type === 'GROUP' ? 'groupId' : mailbox.type === 'USER' ? 'userId' : null;
+  if (!field || !hasId(mailbox[field])) return;
+
+  visit({
+    kind: field === 'groupId' ? 'group' : 'user',
+    id: String(mailbox[field]),
+    usage,
+    replace: (target) => {
+      if (target) {
+        mailbox[field] = target.reference;
+      } else {
+        delete mailbox[field];
+      }
+    },
+  });
+}
+
+/**
+ * Visit the public numbers on inbound number nodes. clonePolicy always strips
+ * these, so on import they are attached through a number assignment instead.
+ */
+function forEachPhoneNumber(
+  body: Policy,
+  visit: (number: string, name: string | undefined, usage: BundleReferenceUsage) => void
+): void {
+  for (const node of body.nodes ?? []) {
+    if (node.templateClass !== 'ModNumber') continue;
+    const nodeName = node.name || node.title || node.id;
+
+    node.subItems?.forEach((item) => {
+      const publicNumber = item.variables?.publicNumber;
+      if (!hasId(publicNumber)) return;
+      visit(String(publicNumber), item.name, { nodeId: node.id, nodeName, elementName: item.name });
+    });
+  }
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+export function getReferenceKey(reference: Pick<BundleReference, 'kind' | 'id'>): string {
+  return `${reference.kind}:${reference.id}`;
+}
+
+function emptyManifest(): BundleManifest {
+  return { group: [], user: [], sound: [], skill: [], phoneNumber: [] };
+}
+
+/**
+ * Collect the org-specific references in a legacy body, one entry per entity.
+ * Names are taken from the lookups (the source org's entities) where possible.
+ */
+export function collectPolicyReferences(body: Policy, lookups: Partial<BundleTargets> = {}): BundleManifest {
+  const manifest = emptyManifest();
+  const byKey = new Map<string, BundleReference>();
+
+  const add = (kind: BundleReferenceKind, id: string, name: string | undefined, usage: BundleReferenceUsage) => {
+    const key = getReferenceKey({ kind, id });
+    let reference = byKey.get(key);
+    if (!reference) {
+      const known = lookups[kind]?.find((entity) => entity.reference === id);
+      reference = { kind, id, name: known?.name ?? name, usages: [] };
+      byKey.set(key, reference);
+      manifest[kind].push(reference);
+    }
+    reference.usages.push(usage);
+  };
+
+  forEachEntityReference(body, (slot) => add(slot.kind, slot.id, slot.name, slot.usage));
+  forEachPhoneNumber(body, (number, name, usage) => add('phoneNumber', number, name, usage));
+
+  return manifest;
+}
+
+/**
+ * Build an export bundle for a policy
+ */
+export function createPolicyBundle({
+  policy,
+  body,
+  lookups,
+  exportedAt = new Date().toISOString(),
+}: {
+  policy: { id: string; name: string; description?: string; type?: string };
+  body: Policy;
+  lookups?: Partial<BundleTargets>;
+  exportedAt?: string;
+}): PolicyBundle {
+  return {
+    format: POLICY_BUNDLE_FORMAT,
+    version: POLICY_BUNDLE_VERSION,
+    exportedAt,
+    source: { policyId: policy.id, policyName: policy.name },
+    policy: {
+      name: policy.name,
+      description: policy.description ?? '',
+      type: policy.type ?? 'Call',
+      body: cloneDeep(body),
+    },
+    manifest: collectPolicyReferences(body, lookups),
+  };
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate an uploaded bundle. Bundles from a newer version of the format are
+ * rejected rather than imported partially.
+ */
+export function parsePolicyBundle(input: unknown): ParseBundleResult {
+  let data = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      return { success: false, error: 'File is not valid JSON' };
+    }
+  }
+
+  if (!isRecord(data) || data.format !== POLICY_BUNDLE_FORMAT) {
+    return { success: false, error: 'File is not a policy bundle' };
+  }
+
+  if (typeof data.version !== 'number' || data.version > POLICY_BUNDLE_VERSION) {
+    return { success: false, error: `Unsupported bundle version: ${String(data.version)}` };
+  }
+
+  const policy = data.policy;
+  if (!isRecord(policy) || typeof policy.name !== 'string' || !isRecord(policy.body) || !Array.isArray(policy.body.nodes)) {
+    return { success: false, error: 'Bundle does not contain a policy body' };
+  }
+
+  const manifest = emptyManifest();
+  if (isRecord(data.manifest)) {
+    for (const kind of BUNDLE_REFERENCE_KINDS) {
+      const entries = data.manifest[kind];
+      if (Array.isArray(entries)) manifest[kind] = entries as BundleReference[];
+    }
+  }
+
+  const source = isRecord(data.source) ? data.source : {};
+
+  return {
+    success: true,
+    bundle: {
+      format: POLICY_BUNDLE_FORMAT,
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      source: {
+        policyId: String(source.policyId ?? ''),
+        policyName: String(source.policyName ?? policy.name),
+      },
+      policy: {
+        name: policy.name,
+        description: typeof policy.description === 'string' ? policy.description : '',
+        type: typeof policy.type === 'string' ? policy.type : 'Call',
+        body: policy.body as Policy,
+      },
+      manifest,
+    },
+  };
+}
+
+/**
+ * Suggest a mapping for every reference in the manifest: the same id first,
+ * then a case-insensitive name match, otherwise a placeholder.
+ */
+export function suggestReferenceMappings(manifest: BundleManifest, targets: BundleTargets): BundleMappings {
+  const mappings: BundleMappings = {};
+
+  for (const kind of BUNDLE_REFERENCE_KINDS) {
+    for (const reference of manifest[kind]) {
+      const candidates = targets[kind];
+      const name = reference.name?.trim().toLowerCase();
+      const match =
+        candidates.find((entity) => entity.reference === reference.id) ??
+        (name ? candidates.find((entity) => entity.name.trim().toLowerCase() === name) : undefined);
+
+      mappings[getReferenceKey(reference)] = match
+        ? { action: 'map', targetId: match.id }
+        : { action: 'placeholder' };
+    }
+  }
+
+  return mappings;
+}
+
+function resolveMapping(
+  kind: BundleReferenceKind,
+  id: string,
+  mappings: BundleMappings,
+  targets: BundleTargets
+): BundleTargetEntity | null {
+  const mapping = mappings[getReferenceKey({ kind, id })];
+  if (mapping?.action !== 'map') return null;
+  return targets[kind].find((entity) => entity.id === mapping.targetId) ?? null;
+}
+
+function toCloneEntities(entities: BundleTargetEntity[]): Array<{ Id: string; Id__c: string; Name: string }> {
+  return entities.map((entity) => ({ Id: entity.id, Id__c: entity.reference, Name: entity.name }));
+}
+
+/**
+ * Rewrite the bundle's references to the target org and clone the result.
+ * Unmapped references are cleared and returned as placeholders.
+ */
+export function applyBundleMappings(
+  bundle: PolicyBundle,
+  mappings: BundleMappings,
+  targets: BundleTargets
+): BundleImportResult {
+  const body = cloneDeep(bundle.policy.body);
+  const messages: string[] = [];
+
+  forEachEntityReference(body, (slot) => {
+    slot.replace(resolveMapping(slot.kind, slot.id, mappings, targets));
+  });
+
+  const placeholders: BundleReference[] = [];
+  const phoneNumberIds: string[] = [];
+
+  for (const kind of BUNDLE_REFERENCE_KINDS) {
+    for (const reference of bundle.manifest[kind]) {
+      const label = `${BUNDLE_REFERENCE_LABELS[kind]} ${reference.name ?? reference.id}`;
+      const target = resolveMapping(kind, reference.id, mappings, targets);
+
+      if (!target) {
+        placeholders.push(reference);
+        messages.push(`${label} left as a placeholder`);
+      } else if (kind === 'phoneNumber') {
+        phoneNumberIds.push(target.id);
+        messages.push(`${label} will be assigned as ${target.name}`);
+      } else {
+        messages.push(`${label} mapped to ${target.name}`);
+      }
+    }
+  }
+
+  const { policy, report } = clonePolicy({
+    policy: { ...body, Name: bundle.policy.name, Description__c: bundle.policy.description },
+    users: toCloneEntities(targets.user),
+    groups: toCloneEntities(targets.group),
+    sounds: toCloneEntities(targets.sound),
+    skills: toCloneEntities(targets.skill),
+  });
+
+  return {
+    policy,
+    report: { messages: [...messages, ...report.messages] },
+    placeholders,
+    phoneNumberIds,
+  };
+}
@@ -0,0 +1,328 @@
+/**
+ * Node-level diff between two versions of a routing policy.
+ *
+ * Compares policies through the normalised policy graph so that revisions
+ * saved from the editor can be compared with the current canvas, whichever
+ * shape each side arrived in. Reports added, removed and changed nodes (with
+ * the individual config fields that changed, including those of each output)
+ * and connections that were added, removed or rewired to a different target.
+ *
+ * Canvas-only properties such as position and size are ignored so that
+ * dragging nodes around does not show up as a change.
+ */
+
+import {
+  buildPolicyGraph,
+  type GraphLink,
+  type GraphNode,
+  type GraphOutput,
+  type PolicyGraph,
+  type PolicyGraphInput,
+} from './policyGraph';
+
+// Node data keys that only affect how the node is drawn, or are diffed separately
+const IGNORED_NODE_FIELDS = new Set([
+  'position',
+  'x',
+  'y',
+  'width',
+  'height',
+  'selected',
+  'dragging',
+  'outputs',
+  'subItems',
+  'connectedTo',
+]);
+
+// Types
+export type DiffChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  /** Dotted path to the field, e.g. `config.rules.timeOfDay[0][0].startTime` */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface OutputDiff {
+  outputId: string;
+  kind: DiffChangeKind;
+  label: string;
+  appType: string;
+  fieldChanges: FieldChange[];
+}
+
+export interface NodeDiff {
+  nodeId: string;
+  kind: DiffChangeKind;
+  label: string;
+  type: string;
+  fieldChanges: FieldChange[];
+  outputs: OutputDiff[];
+}
+
+export type ConnectionChangeKind = 'added' | 'removed' | 'rewired';
+
+export interface ConnectionDiff {
+  kind: ConnectionChangeKind;
+  source: string;
+  /** Output the connection leaves from, null for the node footer */
+  outputId: string | null;
+  /** Handle the connection leaves from when it is not an output (e.g. 'true'/'false') */
+  sourceHandle: string | null;
+  /** Targets before the change (empty when added) */
+  beforeTargets: string[];
+  /** Targets after the change (empty when removed) */
+  afterTargets: string[];
+}
+
+export interface PolicyDiff {
+  nodes: NodeDiff[];
+  connections: ConnectionDiff[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    rewired: number;
+  };
+  /** True when no node or connection differs */
+  identical: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Deep-compare two values and list the leaf fields that differ.
+ * Objects are compared key by key and arrays index by index; anything else
+ * (including a change of shape) is reported at the path where it differs.
+ */
+export function diffFields(before: unknown, after: unknown, path = ''): FieldChange[] {
+  if (Object.is(before, after)) return [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: FieldChange[] = [];
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      changes.push(...diffFields(before[i], after[i], joinPath(path, i)));
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: FieldChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      changes.push(...diffFields(before[key], after[key], joinPath(path, key)));
+    }
+    return changes;
+  }
+
+  // Treat missing and empty values as the same so optional fields don't create noise
+  const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+  if (isEmpty(before) && isEmpty(after)) return [];
+
+  return [{ path, before, after }];
+}
+
+function getComparableNodeFields(node: GraphNode): Record<string, unknown> {
+  const fields: Record<string, unknown> = { type: node.type };
+  for (const [key, value] of Object.entries(node.raw.data ?? {})) {
+    if (!IGNORED_NODE_FIELDS.has(key)) fields[key] = value;
+  }
+  return fields;
+}
+
+function getComparableOutputFields(output: GraphOutput): Record<string, unknown> {
+  return { label: output.label, appType: output.appType, config: output.config };
+}
+
+function diffOutputs(before: GraphOutput[], after: GraphOutput[]): OutputDiff[] {
+  const afterById = new Map(after.map((output) => [output.id, output]));
+  const beforeIds = new Set(before.map((output) => output.id));
+  const diffs: OutputDiff[] = [];
+
+  for (const output of before) {
+    const next = afterById.get(output.id);
+    if (!next) {
+      diffs.push({
+        outputId: output.id,
+        kind: 'removed',
+        label: output.label,
+        appType: output.appType,
+        fieldChanges: [],
+      });
+      continue;
+    }
+
+    const fieldChanges = diffFields(
+      getComparableOutputFields(output),
+      getComparableOutputFields(next)
+    );
+    if (fieldChanges.length > 0) {
+      diffs.push({
+        outputId: output.id,
+        kind: 'changed',
+        label: next.label,
+        appType: next.appType,
+        fieldChanges,
+      });
+    }
+  }
+
+  for (const output of after) {
+    if (!beforeIds.has(output.id)) {
+      diffs.push({
+        outputId: output.id,
+        kind: 'added',
+        label: output.label,
+        appType: output.appType,
+        fieldChanges: [],
+      });
+    }
+  }
+
+  return diffs;
+}
+
+function diffNodes(before: PolicyGraph, after: PolicyGraph): NodeDiff[] {
+  const diffs: NodeDiff[] = [];
+
+  for (const node of before.nodes.values()) {
+    const next = after.nodes.get(node.id);
+    if (!next) {
+      diffs.push({
+        nodeId: node.id,
+        kind: 'removed',
+        label: node.label,
+        type: node.type,
+        fieldChanges: [],
+        outputs: [],
+      });
+      continue;
+    }
+
+    const fieldChanges = diffFields(getComparableNodeFields(node), getComparableNodeFields(next));
+    const outputs = diffOutputs(node.outputs, next.outputs);
+    if (fieldChanges.length > 0 || outputs.length > 0) {
+      diffs.push({
+        nodeId: node.id,
+        kind: 'changed',
+        label: next.label,
+        type: next.type,
+        fieldChanges,
+        outputs,
+      });
+    }
+  }
+
+  for (const node of after.nodes.values()) {
+    if (!before.nodes.has(node.id)) {
+      diffs.push({
+        nodeId: node.id,
+        kind: 'added',
+        label: node.label,
+        type: node.type,
+        fieldChanges: [],
+        outputs: node.outputs.map((output) => ({
+          outputId: output.id,
+          kind: 'added' as const,
+          label: output.label,
+          appType: output.appType,
+          fieldChanges: [],
+        })),
+      });
+    }
+  }
+
+  return diffs;
+}
+
+// Outgoing links grouped by where they leave from: node + output, or node + handle
+function groupLinksBySource(graph: PolicyGraph): Map<string, GraphLink[]> {
+  const groups = new Map<string, GraphLink[]>();
+  for (const link of graph.links) {
+    const handle = link.outputId ?? normaliseFooterHandle(link.sourceHandle);
+    const key = `${link.source}|${handle ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), link]);
+  }
+  return groups;
+}
+
+// The footer handle is saved as 'default', 'source' or nothing depending on where the edge came from
+function normaliseFooterHandle(handle: string | null): string | null {
+  return handle === null || handle === 'default' || handle === 'source' ? null : handle;
+}
+
+function diffConnections(before: PolicyGraph, after: PolicyGraph): ConnectionDiff[] {
+  const beforeGroups = groupLinksBySource(before);
+  const afterGroups = groupLinksBySource(after);
+  const keys = new Set([...beforeGroups.keys(), ...afterGroups.keys()]);
+  const diffs: ConnectionDiff[] = [];
+
+  for (const key of keys) {
+    const beforeLinks = beforeGroups.get(key) ?? [];
+    const afterLinks = afterGroups.get(key) ?? [];
+    const sample = (afterLinks[0] ?? beforeLinks[0]) as GraphLink;
+
+    // Connections of added or removed nodes are implied by the node change
+    if (!before.nodes.has(sample.source) || !after.nodes.has(sample.source)) continue;
+
+    const beforeTargets = [...new Set(beforeLinks.map((link) => link.target))].sort();
+    const afterTargets = [...new Set(afterLinks.map((link) => link.target))].sort();
+    if (beforeTargets.join('|') === afterTargets.join('|')) continue;
+
+    diffs.push({
+      kind:
+        beforeTargets.length === 0 ? 'added' : afterTargets.length === 0 ? 'removed' : 'rewired',
+      source: sample.source,
+      outputId: sample.outputId,
+      sourceHandle: sample.outputId ? null : normaliseFooterHandle(sample.sourceHandle),
+      beforeTargets,
+      afterTargets,
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * Compare two versions of a policy.
+ * `before` is usually a saved revision and `after` the current canvas.
+ */
+export function diffPolicies(before: PolicyGraphInput, after: PolicyGraphInput): PolicyDiff {
+  const beforeGraph = buildPolicyGraph(before);
+  const afterGraph = buildPolicyGraph(after);
+
+  const nodes = diffNodes(beforeGraph, afterGraph);
+  const connections = diffConnections(beforeGraph, afterGraph);
+
+  const summary = {
+    added: nodes.filter((node) => node.kind === 'added').length,
+    removed: nodes.filter((node) => node.kind === 'removed').length,
+    changed: nodes.filter((node) => node.kind === 'changed').length,
+    rewired: connections.length,
+  };
+
+  return {
+    nodes,
+    connections,
+    summary,
+    identical: nodes.length === 0 && connections.length === 0,
+  };
+}
+
+/**
+ * Format a field value for display in the diff view
+ */
+export function formatDiffValue(value: unknown, maxLength = 80): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -0,0 +1,1008 @@
+/**
+ * Policy Documentation
+ *
+ * Turns a policy into a readable description of its call flow for people
+ * who don't use the editor (compliance reviews, handovers). The graph is
+ * walked from its entry points so sections read in the order a call would
+ * meet them; each node and app gets a plain-English description of what it
+ * does, and the document carries a laid out diagram of the flow.
+ *
+ * Rendered as Markdown (with a Mermaid diagram), as a standalone HTML page
+ * (with an inline SVG diagram) or as a PDF (with the diagram drawn on its
+ * first page), which is written here rather than through a PDF library.
+ */
+
+import { computeAutoLayout } from './autoLayout';
+import {
+  BEEP_OPTIONS,
+  CALLER_ID_PRESENTATION_OPTIONS,
+  CHANNEL_OPTIONS,
+  CONNECT_TYPES,
+  COUNTRY_CODES,
+  DAYS_OF_WEEK,
+  EVALUATE_OPERATORS,
+  HOLD_MUSIC_TYPES,
+  HUNT_GROUP_STRATEGIES,
+  INSIGHT_OPTIONS,
+  NUMBER_MATCH_OPTIONS,
+  QUEUE_ALGORITHM_TYPES,
+  SPEAK_VOICE_LIST,
+  TRANSCRIPTION_ENGINE_OPTIONS,
+  WRAP_UP_TYPES,
+  type CountryCodeRule,
+  type EvaluateRule,
+  type NumberMatchRule,
+  type RuleConfig,
+  type TimeOfDayRule,
+} from './defaults';
+import { getNodeDisplayDescription } from './nodeDisplay';
+import {
+  buildPolicyGraph,
+  getOutgoingLinks,
+  isEntryGraphNode,
+  isTerminalGraphNode,
+  type GraphNode,
+  type GraphOutput,
+  type PolicyGraph,
+  type PolicyGraphInput,
+} from './policyGraph';
+import { fitPdfText, PdfWriter, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, wrapPdfText, type PdfFont } from './pdfWriter';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PolicyDocumentFormat = 'markdown' | 'html' | 'pdf';
+
+export const POLICY_DOCUMENT_FORMATS: PolicyDocumentFormat[] = ['markdown', 'html', 'pdf'];
+
+export const POLICY_DOCUMENT_FORMAT_LABELS: Record<PolicyDocumentFormat, string> = {
+  markdown: 'Markdown',
+  html: 'HTML',
+  pdf: 'PDF',
+};
+
+export type PolicyDocumentNodeKind = 'entry' | 'step' | 'end';
+
+/**
+ * Names for the entities a policy refers to by id. Ids are the values stored
+ * in the policy body.
+ */
+export type PolicyDocumentLookups = Partial<
+  Record<'group' | 'user' | 'sound' | 'skill', Array<{ id: string; name: string }>>
+>;
+
+/**
+ * Where a node or app sends the call next
+ */
+export interface PolicyDocumentLink {
+  targetId: string;
+  /** Section number of the target, e.g. 3 */
+  targetNumber: number;
+  targetTitle: string;
+  /** Why the call goes this way, e.g. "If true" */
+  condition?: string;
+}
+
+export interface PolicyDocumentStep {
+  id: string;
+  title: string;
+  appType: string;
+  description: string;
+  details: string[];
+  next: PolicyDocumentLink[];
+}
+
+export interface PolicyDocumentSection {
+  /** 1-based, in call order */
+  number: number;
+  nodeId: string;
+  title: string;
+  kind: PolicyDocumentNodeKind;
+  description?: string;
+  details: string[];
+  steps: PolicyDocumentStep[];
+  next: PolicyDocumentLink[];
+  /** False when no entry point leads here */
+  reachable: boolean;
+}
+
+export interface PolicyDiagramNode {
+  id: string;
+  number: number;
+  label: string;
+  kind: PolicyDocumentNodeKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PolicyDiagram {
+  width: number;
+  height: number;
+  nodes: PolicyDiagramNode[];
+  links: Array<{ source: string; target: string }>;
+}
+
+export interface PolicyDocument {
+  title: string;
+  description?: string;
+  policyType?: string;
+  generatedAt: string;
+  sections: PolicyDocumentSection[];
+  diagram: PolicyDiagram;
+}
+
+export interface PolicyDocumentInput {
+  policy: { name: string; description?: string | null; type?: string | null };
+  body: PolicyGraphInput;
+  lookups?: PolicyDocumentLookups;
+  /** Defaults to now; fixed in tests */
+  generatedAt?: Date;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const DIAGRAM_NODE_WIDTH = 180;
+const DIAGRAM_NODE_HEIGHT = 44;
+const DIAGRAM_PADDING = 20;
+
+// Apps that try to reach someone; the call moves on to the next app if nobody answers
+const CONNECTING_APP_TYPES = new Set(['callQueue', 'huntGroup', 'connectCall']);
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function optionLabel(options: ReadonlyArray<{ value: string; label: string }>, value: unknown): string | undefined {
+  const text = asText(value);
+  if (!text) return undefined;
+  return options.find((option) => option.value === text)?.label ?? text;
+}
+
+function entityName(lookups: PolicyDocumentLookups, kind: keyof PolicyDocumentLookups, id: unknown): string | undefined {
+  const text = asText(id);
+  if (!text) return undefined;
+  return lookups[kind]?.find((entity) => entity.id === text)?.name ?? `${kind} ${text}`;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function quote(text: string): string {
+  return `"${text}"`;
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+function describeDays(days: string[] | undefined): string | undefined {
+  if (!days?.length || days.length === DAYS_OF_WEEK.length) return undefined;
+
+  const indexes = days
+    .map((day) => DAYS_OF_WEEK.findIndex((d) => d.value === day))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b);
+  const first = indexes[0];
+  const last = indexes[indexes.length - 1];
+  const isRange = first !== undefined && last !== undefined && indexes.length > 2 && last - first === indexes.length - 1;
+
+  if (isRange) return `${DAYS_OF_WEEK[first]?.short}–${DAYS_OF_WEEK[last]?.short}`;
+  return indexes.map((index) => DAYS_OF_WEEK[index]?.short).join(', ');
+}
+
+function describeTimeOfDay(rule: TimeOfDayRule): string {
+  const parts: string[] = [];
+  const days = describeDays(rule.days);
+  if (days) parts.push(days);
+  if (rule.timeBetween !== false && rule.startTime && rule.endTime) {
+    parts.push(`${rule.startTime}–${rule.endTime}`);
+  }
+  if (rule.dateBetween && (rule.startDate || rule.endDate)) {
+    parts.push(`from ${rule.startDate || 'any date'} to ${rule.endDate || 'any date'}`);
+  }
+  const when = parts.length > 0 ? parts.join(', ') : 'any time';
+  return rule.timeZone ? `${when} (${rule.timeZone})` : when;
+}
+
+function numberName(numberType: string): string {
+  return numberType === 'CALLED' ? 'the dialled number' : "the caller's number";
+}
+
+function describeCountryCode(rule: CountryCodeRule): string {
+  const country = optionLabel(COUNTRY_CODES, rule.countryCode) ?? 'an unknown country';
+  return `${numberName(rule.numberType)} is ${rule.matches === 'NOT_EQUALS' ? 'not ' : ''}from ${country}`;
+}
+
+function describeNumberMatch(rule: NumberMatchRule): string {
+  const operator = (optionLabel(NUMBER_MATCH_OPTIONS, rule.matches) ?? 'equals').toLowerCase();
+  return `${numberName(rule.numberType)} ${operator} ${rule.number}`;
+}
+
+function describeEvaluate(rule: EvaluateRule): string {
+  const operator = (optionLabel(EVALUATE_OPERATORS, rule.operator) ?? rule.operator)
+    .replace(/\s*\(.*\)$/, '')
+    .toLowerCase();
+  return rule.rhs ? `${rule.lhs} ${operator} ${quote(rule.rhs)}` : `${rule.lhs} ${operator}`;
+}
+
+/**
+ * Each condition of a Rule app as a sentence. Groups of the same type are
+ * alternatives; different types must all hold (see ruleEvaluator.ts).
+ */
+export function describeRuleConditions(rules: Partial<RuleConfig> | undefined): string[] {
+  if (!rules) return [];
+
+  const describe = <T>(groups: T[][] | undefined, format: (rule: T) => string, prefix: string) => {
+    const alternatives = (groups ?? [])
+      .filter((group) => group.length > 0)
+      .map((group) => group.map(format).join(' and '));
+    return alternatives.length > 0 ? [`${prefix}${alternatives.join('; or ')}`] : [];
+  };
+
+  return [
+    ...describe(rules.timeOfDay, describeTimeOfDay, 'Open hours: '),
+    ...describe(rules.countryCode, describeCountryCode, 'When '),
+    ...describe(
+      rules.callerIdWithheld,
+      (withheld) => (withheld ? 'caller ID is withheld' : 'caller ID is shown'),
+      'When '
+    ),
+    ...describe(rules.numberMatch, describeNumberMatch, 'When '),
+    ...describe(rules.evaluate, describeEvaluate, 'When '),
+  ];
+}
+
+// =============================================================================
+// Apps
+// =============================================================================
+
+function describeTargets(items: unknown[], lookups: PolicyDocumentLookups): string[] {
+  return items
+    .map((item) => {
+      const target = asRecord(item);
+      const method = asText(target.method) ?? asText(target.type);
+      const value = target.target ?? target.value;
+      switch (method?.toUpperCase()) {
+        case 'USER':
+          return entityName(lookups, 'user', value);
+        case 'GROUP':
+          return entityName(lookups, 'group', value);
+        default:
+          return asText(value);
+      }
+    })
+    .filter((name): name is string => !!name);
+}
+
+function describeSpeak(config: Record<string, unknown>, lookups: PolicyDocumentLookups) {
+  const phrase = asText(config.sayPhrase);
+  const sound = entityName(lookups, 'sound', config.soundId);
+  const voice = optionLabel(SPEAK_VOICE_LIST, config.voice);
+  return {
+    description: phrase ? `Says ${quote(phrase)}` : sound ? `Plays ${sound}` : 'Plays a message (no text set)',
+    details: phrase && voice ? [`Voice: ${voice}`] : [],
+  };
+}
+
+function describeQueue(config: Record<string, unknown>, lookups: PolicyDocumentLookups) {
+  const groups = asArray(config.ringTargets)
+    .map((target) => entityName(lookups, 'group', asRecord(target).groupId) ?? asText(asRecord(target).groupName))
+    .filter((name): name is string => !!name);
+  const details: string[] = [];
+
+  const algorithm = optionLabel(QUEUE_ALGORITHM_TYPES, config.queueAlgorithm);
+  if (algorithm) details.push(`Distribution: ${algorithm}`);
+
+  const holdMusic = optionLabel(HOLD_MUSIC_TYPES, config.holdMusicType);
+  const holdSound = entityName(lookups, 'sound', config.holdMusic);
+  if (holdMusic) details.push(`Hold music: ${holdSound && config.holdMusicType !== 'AUTO' ? holdSound : holdMusic}`);
+
+  for (const item of asArray(config.announcements)) {
+    const announcement = asRecord(item);
+    const content =
+      announcement.type === 'TTS'
+        ? asText(announcement.content) && `says ${quote(asText(announcement.content) as string)}`
+        : entityName(lookups, 'sound', announcement.soundId) && `plays ${entityName(lookups, 'sound', announcement.soundId)}`;
+    if (!content) continue;
+    const interval = asText(announcement.interval);
+    details.push(`Announcement: ${interval ? `every ${interval} seconds ` : ''}${content}`);
+  }
+
+  const exitKey = asText(config.exitKey);
+  if (exitKey) details.push(`Callers can leave the queue by pressing ${exitKey}`);
+
+  const callback = asRecord(config.callback);
+  if (callback.enabled) {
+    const key = asText(callback.activationKey);
+    const attempts = asText(callback.maxAttempts);
+    details.push(
+      `Callback offered${key ? ` (press ${key})` : ''}${attempts ? `, up to ${attempts} attempts` : ''}`
+    );
+  }
+
+  const wrapUp = optionLabel(WRAP_UP_TYPES, config.wrapUpType);
+  if (wrapUp && config.wrapUpType !== 'NONE') details.push(`Wrap-up: ${wrapUp}`);
+
+  if (asRecord(config.screen).enabled) details.push('Agents screen the call before accepting it');
+
+  return {
+    description: groups.length > 0 ? `Queues the call for ${joinList(groups)}` : 'Queues the call (no groups set)',
+    details,
+  };
+}
+
+function describeConnect(config: Record<string, unknown>, lookups: PolicyDocumentLookups) {
+  const details: string[] = [];
+  let description: string;
+
+  const connectAction = asRecord(config.connectAction);
+  if (Object.keys(connectAction).length > 0) {
+    // Legacy bodies list the targets to try in order: first, second, ...
+    const [first, ...fallbacks] = describeTargets(Object.values(connectAction), lookups);
+    description = first ? `Connects the call to ${first}` : 'Connects the call (no target set)';
+    fallbacks.forEach((target) => details.push(`If not answered, tries ${target}`));
+  } else {
+    const type = optionLabel(CONNECT_TYPES, config.connectType);
+    const value = entityName(lookups, 'user', config.connectValue);
+    const target = config.connectType === 'DDI_USER' ? value : asText(config.connectValue);
+    description = target ? `Connects the call to ${target}` : 'Connects the call (no target set)';
+    if (type) details.push(`Connect using: ${type}`);
+  }
+
+  const ringDuration = asText(config.ringDuration);
+  if (ringDuration) details.push(`Rings for ${ringDuration} seconds`);
+
+  const callerId = optionLabel(CALLER_ID_PRESENTATION_OPTIONS, config.callerIdPresentation);
+  if (callerId) details.push(`Caller ID shown: ${callerId}`);
+
+  if (asRecord(config.screen).enabled) details.push('The answering person screens the call first');
+
+  return { description, details };
+}
+
+function describeHuntGroup(config: Record<string, unknown>, lookups: PolicyDocumentLookups) {
+  const targets = describeTargets(asArray(config.followMe ?? config.targets ?? config.connectTargets), lookups);
+  const details: string[] = [];
+
+  const strategy = optionLabel(HUNT_GROUP_STRATEGIES, config.strategy);
+  if (strategy) details.push(`Ring strategy: ${strategy}`);
+
+  const ringDuration = asText(config.ringDuration);
+  if (ringDuration) details.push(`Rings for ${ringDuration} seconds`);
+
+  return {
+    description: targets.length > 0 ? `Rings ${joinList(targets)}` : 'Rings a list of targets (none set)',
+    details,
+  };
+}
+
+/**
+ * Recording settings, as edited in RecordCallConfig. Record & Analyse adds
+ * the AI Advisor transcription settings.
+ */
+function describeRecording(config: Record<string, unknown>) {
+  const details: string[] = [];
+
+  const channel = optionLabel(CHANNEL_OPTIONS, config.channel);
+  if (channel) details.push(`Records: ${channel}`);
+
+  const startsOnBridge = config.startRecording ? config.startRecording === 'ON_BRIDGE' : config.startOnBridge === true;
+  details.push(startsOnBridge ? 'Recording starts when the call is connected' : 'Recording starts immediately');
+
+  const beep = optionLabel(BEEP_OPTIONS, config.beepAlert ?? config.beep);
+  if (beep && (config.beepAlert ?? config.beep) !== 'OFF') details.push(`Recording beep: ${beep}`);
+
+  if (config.allowPause || config.pauseAllowed) details.push('Agents can pause the recording');
+  if (config.stopAllowed) details.push('Agents can stop the recording');
+
+  if (config.retain) {
+    const archive = asText(config.archivePolicyId ?? config.archivingPolicyId);
+    details.push(`Recording is retained${archive ? ` under archiving policy ${archive}` : ''}`);
+  }
+
+  if (config.emailSend) {
+    const to = asText(config.emailToAddresses);
+    details.push(`Recording is emailed${to ? ` to ${to}` : ''}`);
+  }
+
+  const insight = optionLabel(INSIGHT_OPTIONS, config.insightConfig);
+  if (insight && config.insightConfig !== 'NONE') {
+    const engine = optionLabel(TRANSCRIPTION_ENGINE_OPTIONS, config.transcriptionEngine);
+    const language = asText(config.analysisLanguage);
+    details.push(
+      `Transcribed and analysed: ${insight}${engine ? ` using ${engine}` : ''}${language ? ` (${language})` : ''}`
+    );
+    if (config.disableSummarization) details.push('Call summaries are turned off');
+  }
+
+  return { description: 'Records the call', details };
+}
+
+function describeVoicemail(config: Record<string, unknown>, lookups: PolicyDocumentLookups) {
+  const mailbox = asRecord(config.mailbox);
+  const owner =
+    mailbox.type === 'GROUP'
+      ? entityName(lookups, 'group', mailbox.groupId)
+      : mailbox.type === 'USER'
+        ? entityName(lookups, 'user', mailbox.userId)
+        : undefined;
+  return {
+    description: owner ? `Sends the caller to the voicemail of ${owner}` : 'Sends the caller to voicemail',
+    details: [],
+  };
+}
+
+/**
+ * Plain-English description of one app in a container
+ */
+export function describePolicyApp(
+  output: GraphOutput,
+  lookups: PolicyDocumentLookups = {}
+): { description: string; details: string[] } {
+  const { config } = output;
+
+  switch (output.appType) {
+    case 'speak':
+      return describeSpeak(config, lookups);
+    case 'callQueue':
+      return describeQueue(config, lookups);
+    case 'connectCall':
+      return describeConnect(config, lookups);
+    case 'huntGroup':
+      return describeHuntGroup(config, lookups);
+    case 'recordCall':
+    case 'recordAndAnalyse':
+      return describeRecording(config);
+    case 'voicemail':
+      return describeVoicemail(config, lookups);
+    case 'rule': {
+      const conditions = describeRuleConditions(asRecord(config.rules) as Partial<RuleConfig>);
+      return {
+        description: conditions.length > 0 ? 'Takes this branch when its conditions match' : 'Always takes this branch',
+        details: conditions,
+      };
+    }
+    case 'requestSkill': {
+      const skills = asArray(config.skills)
+        .map((item) => asText(asRecord(item).Name) ?? entityName(lookups, 'skill', asRecord(item).Id__c))
+        .filter((name): name is string => !!name);
+      return { description: skills.length > 0 ? `Requests agents skilled in ${joinList(skills)}` : 'Requests skills', details: [] };
+    }
+    case 'queryObject': {
+      const object = asText(config.sObject);
+      return { description: object ? `Looks up ${object} records in Salesforce` : 'Looks up Salesforce records', details: [] };
+    }
+    case 'createRecord': {
+      const object = asText(config.objectType) ?? asText(config.sObject);
+      return { description: object ? `Creates a ${object} record in Salesforce` : 'Creates a Salesforce record', details: [] };
+    }
+    default:
+      return { description: getNodeDisplayDescription({ title: output.label }) ?? `Runs ${output.label}`, details: [] };
+  }
+}
+
+// =============================================================================
+// Build
+// =============================================================================
+
+/**
+ * Node ids in call order: breadth first from each entry point, following
+ * each node's links in the order its apps are listed. Nodes no entry point
+ * reaches come last, in their original order.
+ */
+function orderNodes(graph: PolicyGraph): { order: string[]; reachable: Set<string> } {
+  const order: string[] = [];
+  const seen = new Set<string>();
+  const queue = [...graph.entryNodeIds];
+
+  const outputIndex = (nodeId: string, outputId: string | null) =>
+    outputId === null ? Infinity : (graph.nodes.get(nodeId)?.outputs.find((o) => o.id === outputId)?.index ?? Infinity);
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    order.push(id);
+
+    const links = getOutgoingLinks(graph, id).sort((a, b) => outputIndex(id, a.outputId) - outputIndex(id, b.outputId));
+    queue.push(...links.map((link) => link.target));
+  }
+
+  const reachable = new Set(order);
+  for (const id of graph.nodes.keys()) {
+    if (!seen.has(id)) order.push(id);
+  }
+  return { order, reachable };
+}
+
+function getNodeKind(node: GraphNode): PolicyDocumentNodeKind {
+  if (isEntryGraphNode(node)) return 'entry';
+  return isTerminalGraphNode(node) && node.outputs.length === 0 ? 'end' : 'step';
+}
+
+function buildDiagram(graph: PolicyGraph, sections: PolicyDocumentSection[]): PolicyDiagram {
+  const links = [...new Map(graph.links.map((link) => [`${link.source}|${link.target}`, link])).values()];
+  const { positions } = computeAutoLayout(
+    sections.map((section) => ({
+      id: section.nodeId,
+      position: { x: 0, y: 0 },
+      width: DIAGRAM_NODE_WIDTH,
+      height: DIAGRAM_NODE_HEIGHT,
+    })),
+    links.map((link) => ({ source: link.source, target: link.target, sourceHandle: link.outputId })),
+    { origin: { x: DIAGRAM_PADDING, y: DIAGRAM_PADDING }, layerSpacing: 60, nodeSpacing: 24 }
+  );
+
+  const nodes = sections.map<PolicyDiagramNode>((section) => {
+    const position = positions[section.nodeId] ?? { x: DIAGRAM_PADDING, y: DIAGRAM_PADDING };
+    return {
+      id: section.nodeId,
+      number: section.number,
+      label: section.title,
+      kind: section.kind,
+      x: position.x,
+      y: position.y,
+      width: DIAGRAM_NODE_WIDTH,
+      height: DIAGRAM_NODE_HEIGHT,
+    };
+  });
+
+  return {
+    width: Math.max(0, ...nodes.map((n) => n.x + n.width)) + DIAGRAM_PADDING,
+    height: Math.max(0, ...nodes.map((n) => n.y + n.height)) + DIAGRAM_PADDING,
+    nodes,
+    links: links.map((link) => ({ source: link.source, target: link.target })),
+  };
+}
+
+/**
+ * Build the documentation for a policy from its editor nodes and edges or
+ * its stored body
+ */
+export function buildPolicyDocument({ policy, body, lookups = {}, generatedAt = new Date() }: PolicyDocumentInput): PolicyDocument {
+  const graph = buildPolicyGraph(body);
+  const { order, reachable } = orderNodes(graph);
+  const numbers = new Map(order.map((id, index) => [id, index + 1]));
+
+  const linkTo = (targetId: string, condition?: string): PolicyDocumentLink => ({
+    targetId,
+    targetNumber: numbers.get(targetId) ?? 0,
+    targetTitle: graph.nodes.get(targetId)?.label ?? targetId,
+    ...(condition && { condition }),
+  });
+
+  const sections = order.map<PolicyDocumentSection>((nodeId) => {
+    const node = graph.nodes.get(nodeId) as GraphNode;
+    const data = asRecord(node.raw.data);
+    const details: string[] = [];
+
+    const steps = node.outputs.map<PolicyDocumentStep>((output, index) => {
+      const { description, details: stepDetails } = describePolicyApp(output, lookups);
+      const hasLaterApps = index < node.outputs.length - 1;
+      if (CONNECTING_APP_TYPES.has(output.appType) && hasLaterApps) {
+        stepDetails.push('If not answered, continues with the next step');
+      }
+      return {
+        id: output.id,
+        title: output.label,
+        appType: output.appType,
+        description,
+        details: stepDetails,
+        next: getOutgoingLinks(graph, nodeId, output.id).map((link) => linkTo(link.target)),
+      };
+    });
+
+    // Simple rule nodes keep their conditions on the node and branch on true/false
+    const nodeRules = asRecord(data.rules ?? asRecord(data.config).rules);
+    if (node.type === 'rule' && node.outputs.length === 0) {
+      details.push(...describeRuleConditions(nodeRules as Partial<RuleConfig>));
+    }
+
+    const next = getOutgoingLinks(graph, nodeId, null).map((link) =>
+      linkTo(
+        link.target,
+        link.sourceHandle === 'true' ? 'If the rule matches' : link.sourceHandle === 'false' ? 'Otherwise' : undefined
+      )
+    );
+
+    const description =
+      getNodeDisplayDescription({ title: node.label, data: { description: asText(data.description) } }) ??
+      undefined;
+
+    return {
+      number: numbers.get(nodeId) ?? 0,
+      nodeId,
+      title: node.label,
+      kind: getNodeKind(node),
+      ...(description && { description }),
+      details,
+      steps,
+      next,
+      reachable: reachable.has(nodeId),
+    };
+  });
+
+  return {
+    title: policy.name,
+    ...(policy.description && { description: policy.description }),
+    ...(policy.type && { policyType: policy.type }),
+    generatedAt: generatedAt.toISOString(),
+    sections,
+    diagram: buildDiagram(graph, sections),
+  };
+}
+
+// =============================================================================
+// Render
+// =============================================================================
+
+function formatGeneratedAt(document: PolicyDocument): string {
+  return document.generatedAt.replace('T', ' ').replace(/:\d\d\.\d+Z$/, ' UTC');
+}
+
+function describeLink(link: PolicyDocumentLink): string {
+  const target = `${link.targetNumber}. ${link.targetTitle}`;
+  return link.condition ? `${link.condition}, goes to ${target}` : `Goes to ${target}`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+function mermaidLabel(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+/**
+ * Render as Markdown. The diagram is a Mermaid flowchart, which GitHub,
+ * Confluence and most Markdown viewers draw inline.
+ */
+export function renderPolicyDocumentMarkdown(document: PolicyDocument): string {
+  const lines: string[] = [`# ${escapeMarkdown(document.title)}`, ''];
+
+  if (document.description) lines.push(escapeMarkdown(document.description), '');
+  const meta = [document.policyType && `Type: ${document.policyType}`, `Generated: ${formatGeneratedAt(document)}`];
+  lines.push(meta.filter(Boolean).join(' · '), '');
+
+  lines.push('## Call flow', '', '```mermaid', 'flowchart LR');
+  for (const node of document.diagram.nodes) {
+    const label = mermaidLabel(`${node.number}. ${node.label}`);
+    lines.push(node.kind === 'step' ? `  n${node.number}["${label}"]` : `  n${node.number}(["${label}"])`);
+  }
+  const numberOf = new Map(document.diagram.nodes.map((node) => [node.id, node.number]));
+  for (const link of document.diagram.links) {
+    lines.push(`  n${numberOf.get(link.source)} --> n${numberOf.get(link.target)}`);
+  }
+  lines.push('```', '');
+
+  lines.push('## Steps', '');
+  for (const section of document.sections) {
+    lines.push(`### ${section.number}. ${escapeMarkdown(section.title)}`, '');
+    if (!section.reachable) lines.push('> Not reachable from any entry point.', '');
+    if (section.description) lines.push(escapeMarkdown(section.description), '');
+    section.details.forEach((detail) => lines.push(`- ${escapeMarkdown(detail)}`));
+    if (section.details.length > 0) lines.push('');
+
+    section.steps.forEach((step, index) => {
+      lines.push(`${index + 1}. **${escapeMarkdown(step.title)}**: ${escapeMarkdown(step.description)}`);
+      step.details.forEach((detail) => lines.push(`   - ${escapeMarkdown(detail)}`));
+      step.next.forEach((link) => lines.push(`   - ${escapeMarkdown(describeLink(link))}`));
+    });
+    if (section.steps.length > 0) lines.push('');
+
+    section.next.forEach((link) => lines.push(`${escapeMarkdown(describeLink(link))}.`, ''));
+    if (section.kind === 'end') lines.push('The call ends here.', '');
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+const DIAGRAM_COLORS: Record<PolicyDocumentNodeKind, { fill: string; stroke: string }> = {
+  entry: { fill: '#f7f7dc', stroke: '#cfd05b' },
+  step: { fill: '#e4f7f5', stroke: '#2ecbbf' },
+  end: { fill: '#eeeeee', stroke: '#666666' },
+};
+
+/**
+ * The flow diagram as an inline SVG
+ */
+export function renderPolicyDiagramSvg(diagram: PolicyDiagram): string {
+  const byId = new Map(diagram.nodes.map((node) => [node.id, node]));
+
+  const paths = diagram.links
+    .map(({ source, target }) => {
+      const from = byId.get(source);
+      const to = byId.get(target);
+      if (!from || !to) return '';
+      const x1 = from.x + from.width;
+      const y1 = from.y + from.height / 2;
+      const x2 = to.x;
+      const y2 = to.y + to.height / 2;
+      const bend = Math.max(30, Math.abs(x2 - x1) / 2);
+      return `<path d="M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}" fill="none" stroke="#8a94a6" stroke-width="1.5" marker-end="url(#arrow)" />`;
+    })
+    .filter(Boolean);
+
+  const boxes = diagram.nodes.map((node) => {
+    const colors = DIAGRAM_COLORS[node.kind];
+    const label = escapeHtml(truncate(`${node.number}. ${node.label}`, 26));
+    return [
+      `<g><title>${escapeHtml(node.label)}</title>`,
+      `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="6" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="2" />`,
+      `<text x="${node.x + node.width / 2}" y="${node.y + node.height / 2}" text-anchor="middle" dominant-baseline="middle" font-size="12" fill="#1f2937">${label}</text></g>`,
+    ].join('');
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${diagram.width} ${diagram.height}" width="${diagram.width}" height="${diagram.height}" role="img" aria-label="Call flow diagram">`,
+    '<defs><marker id="arrow" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto"><polygon points="0 0, 10 3.5, 0 7" fill="#8a94a6" /></marker></defs>',
+    ...paths,
+    ...boxes,
+    '</svg>',
+  ].join('\n');
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #1f2937; max-width: 960px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  h3 { margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; }
+  .diagram { overflow-x: auto; border: 1px solid #e5e7eb; border-radius: 8px; padding: 0.5rem; }
+  .diagram svg { max-width: 100%; height: auto; }
+  .section { break-inside: avoid; }
+  .warning { color: #b45309; font-style: italic; }
+  .next { color: #374151; }
+  ol.steps > li { margin-bottom: 0.5rem; }
+  a { color: #2563eb; }
+  @media print { body { margin: 0; max-width: none; } .diagram { border: none; } a { color: inherit; text-decoration: none; } }
+`;
+
+/**
+ * Render as a standalone HTML page
+ */
+export function renderPolicyDocumentHtml(document: PolicyDocument): string {
+  const link = (target: PolicyDocumentLink) => {
+    const anchor = `<a href="#step-${target.targetNumber}">${target.targetNumber}. ${escapeHtml(target.targetTitle)}</a>`;
+    return target.condition ? `${escapeHtml(target.condition)}, goes to ${anchor}` : `Goes to ${anchor}`;
+  };
+  const list = (items: string[]) =>
+    items.length > 0 ? `<ul>${items.map((item) => `<li>${item}</li>`).join('')}</ul>` : '';
+
+  const sections = document.sections.map((section) => {
+    const steps = section.steps.map(
+      (step) =>
+        `<li><strong>${escapeHtml(step.title)}</strong>: ${escapeHtml(step.description)}${list([
+          ...step.details.map(escapeHtml),
+          ...step.next.map((target) => `<span class="next">${link(target)}</span>`),
+        ])}</li>`
+    );
+
+    return [
+      `<section class="section" id="step-${section.number}">`,
+      `<h3>${section.number}. ${escapeHtml(section.title)}</h3>`,
+      section.reachable ? '' : '<p class="warning">Not reachable from any entry point.</p>',
+      section.description ? `<p>${escapeHtml(section.description)}</p>` : '',
+      list(section.details.map(escapeHtml)),
+      steps.length > 0 ? `<ol class="steps">${steps.join('')}</ol>` : '',
+      ...section.next.map((target) => `<p class="next">${link(target)}.</p>`),
+      section.kind === 'end' ? '<p class="next">The call ends here.</p>' : '',
+      '</section>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  });
+
+  const meta = [document.policyType && `Type: ${escapeHtml(document.policyType)}`, `Generated: ${formatGeneratedAt(document)}`];
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8" />',
+    `<title>${escapeHtml(document.title)} - Call Flow</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(document.title)}</h1>`,
+    `<p class="meta">${meta.filter(Boolean).join(' · ')}</p>`,
+    document.description ? `<p>${escapeHtml(document.description)}</p>` : '',
+    '<h2>Call flow</h2>',
+    `<div class="diagram">${renderPolicyDiagramSvg(document.diagram)}</div>`,
+    '<h2>Steps</h2>',
+    ...sections,
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+const PDF_MARGIN = 50;
+const PDF_CONTENT_WIDTH = PDF_PAGE_WIDTH - PDF_MARGIN * 2;
+const PDF_TEXT_COLOR = '#1f2937';
+const PDF_MUTED_COLOR = '#6b7280';
+const PDF_LINK_COLOR = '#8a94a6';
+
+/**
+ * Draw the flow diagram scaled to fit a box, and return the height it took
+ */
+function drawPdfDiagram(pdf: PdfWriter, diagram: PolicyDiagram, left: number, top: number, maxHeight: number): number {
+  const scale = Math.min(1, PDF_CONTENT_WIDTH / diagram.width, maxHeight / diagram.height);
+  const at = (x: number, y: number): [number, number] => [left + x * scale, top + y * scale];
+  const byId = new Map(diagram.nodes.map((node) => [node.id, node]));
+
+  for (const { source, target } of diagram.links) {
+    const from = byId.get(source);
+    const to = byId.get(target);
+    if (!from || !to) continue;
+    const [x1, y1] = at(from.x + from.width, from.y + from.height / 2);
+    const [x2, y2] = at(to.x, to.y + to.height / 2);
+    const bend = Math.max(30 * scale, Math.abs(x2 - x1) / 2);
+    const arrow = Math.max(3, 7 * scale);
+    pdf.curve(
+      [
+        [x1, y1],
+        [x1 + bend, y1],
+        [x2 - bend, y2],
+        [x2 - arrow, y2],
+      ],
+      { stroke: PDF_LINK_COLOR, lineWidth: 1 }
+    );
+    pdf.polygon(
+      [
+        [x2 - arrow, y2 - arrow / 2],
+        [x2, y2],
+        [x2 - arrow, y2 + arrow / 2],
+      ],
+      { fill: PDF_LINK_COLOR }
+    );
+  }
+
+  const size = Math.max(5, 10 * scale);
+  for (const node of diagram.nodes) {
+    const colors = DIAGRAM_COLORS[node.kind];
+    const [x, y] = at(node.x, node.y);
+    const width = node.width * scale;
+    const height = node.height * scale;
+    pdf.rect(x, y, width, height, { fill: colors.fill, stroke: colors.stroke, lineWidth: 1.5 });
+    const label = fitPdfText(`${node.number}. ${node.label}`, 'regular', size, width - 6);
+    pdf.text(x + 3, y + height / 2 + size * 0.35, label, { size, color: PDF_TEXT_COLOR });
+  }
+
+  return diagram.height * scale;
+}
+
+/**
+ * Render as a PDF: title and details, the flow diagram, then each section
+ * in call order. Pages are numbered once everything is laid out.
+ */
+export function renderPolicyDocumentPdf(document: PolicyDocument): string {
+  const pdf = new PdfWriter(document.title);
+  const bottom = PDF_PAGE_HEIGHT - PDF_MARGIN;
+  let y = PDF_MARGIN;
+
+  pdf.addPage();
+  const ensureSpace = (height: number) => {
+    if (y + height <= bottom) return;
+    pdf.addPage();
+    y = PDF_MARGIN;
+  };
+  const write = (
+    text: string,
+    { font = 'regular', size = 10, indent = 0, color = PDF_TEXT_COLOR, after = 4 }: {
+      font?: PdfFont;
+      size?: number;
+      indent?: number;
+      color?: string;
+      after?: number;
+    } = {}
+  ) => {
+    const lineHeight = size * 1.35;
+    for (const line of wrapPdfText(text, font, size, PDF_CONTENT_WIDTH - indent)) {
+      ensureSpace(lineHeight);
+      y += lineHeight;
+      pdf.text(PDF_MARGIN + indent, y - size * 0.3, line, { font, size, color });
+    }
+    y += after;
+  };
+  const heading = (text: string) => {
+    ensureSpace(60);
+    y += 10;
+    write(text, { font: 'bold', size: 14, after: 2 });
+    pdf.line(PDF_MARGIN, y, PDF_MARGIN + PDF_CONTENT_WIDTH, y, { stroke: '#e5e7eb' });
+    y += 8;
+  };
+
+  write(document.title, { font: 'bold', size: 20, after: 2 });
+  const meta = [document.policyType && `Type: ${document.policyType}`, `Generated: ${formatGeneratedAt(document)}`];
+  write(meta.filter(Boolean).join(' · '), { size: 9, color: PDF_MUTED_COLOR, after: 6 });
+  if (document.description) write(document.description, { after: 6 });
+
+  heading('Call flow');
+  if (document.diagram.nodes.length > 0) {
+    // Start a new page rather than squeeze a large diagram into what's left
+    const widthScale = Math.min(1, PDF_CONTENT_WIDTH / document.diagram.width);
+    ensureSpace(Math.min(document.diagram.height * widthScale, 300));
+    y += drawPdfDiagram(pdf, document.diagram, PDF_MARGIN, y, bottom - y) + 8;
+  }
+
+  heading('Steps');
+  for (const section of document.sections) {
+    ensureSpace(40);
+    y += 6;
+    write(`${section.number}. ${section.title}`, { font: 'bold', size: 12 });
+    if (!section.reachable) write('Not reachable from any entry point.', { font: 'italic', color: '#b45309' });
+    if (section.description) write(section.description);
+    section.details.forEach((detail) => write(`• ${detail}`, { indent: 10, after: 2 }));
+
+    section.steps.forEach((step, index) => {
+      write(`${index + 1}. ${step.title}`, { font: 'bold', indent: 10, after: 1 });
+      write(step.description, { indent: 22, after: 2 });
+      step.details.forEach((detail) => write(`• ${detail}`, { indent: 22, after: 1 }));
+      step.next.forEach((link) => write(`• ${describeLink(link)}`, { indent: 22, after: 1 }));
+      y += 2;
+    });
+
+    section.next.forEach((link) => write(`${describeLink(link)}.`, { color: PDF_MUTED_COLOR }));
+    if (section.kind === 'end') write('The call ends here.', { color: PDF_MUTED_COLOR });
+  }
+
+  for (let page = 0; page < pdf.pageCount; page++) {
+    pdf.onPage(page, () => {
+      const footer = `${document.title} · Page ${page + 1} of ${pdf.pageCount}`;
+      pdf.text(PDF_MARGIN, PDF_PAGE_HEIGHT - PDF_MARGIN / 2, fitPdfText(footer, 'regular', 8, PDF_CONTENT_WIDTH), {
+        size: 8,
+        color: PDF_MUTED_COLOR,
+      });
+    });
+  }
+
+  return pdf.toString();
+}
+
+/**
+ * Render a document in the given format. The PDF is ASCII, so every format
+ * travels as a string.
+ */
+export function renderPolicyDocument(
+  document: PolicyDocument,
+  format: PolicyDocumentFormat
+): { content: string; contentType: string; extension: string } {
+  if (format === 'markdown') {
+    return { content: renderPolicyDocumentMarkdown(document), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+  }
+  if (format === 'pdf') {
+    return { content: renderPolicyDocumentPdf(document), contentType: 'application/pdf', extension: 'pdf' };
+  }
+  return { content: renderPolicyDocumentHtml(document), contentType: 'text/html; charset=utf-8', extension: 'html' };
+}
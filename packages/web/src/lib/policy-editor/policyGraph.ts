@@ -0,0 +1,448 @@
+/**
+ * Policy graph utilities for the policy editor.
+ *
+ * Builds a normalised, read-only view of a policy's nodes and connections so
+ * that analysis code (validation, simulation, layout, search) can walk the
+ * call flow without caring which shape the data arrived in. Accepts:
+ * - Editor nodes with `data.outputs` and `edges` (FlowEditor / save action)
+ * - Output child nodes with `parentNode` (transformLegacyPolicy)
+ * - Legacy `connections` with `source.nodeID` / `dest.nodeID` (Body__c)
+ */
+
+import type { LegacyConnection } from './dataTransform';
+
+// Node types that start a call flow
+export const ENTRY_NODE_TYPES = [
+  'inboundNumber',
+  'extensionNumber',
+  'invokableDestination',
+  'sipTrunk',
+  'fromPolicy',
+  'inboundMessage',
+  'input',
+  'digital',
+  'ddi',
+] as const;
+
+// Node types that end a call flow
+export const TERMINAL_NODE_TYPES = ['finish', 'end', 'toPolicy'] as const;
+
+// Legacy templateClass values for start and end nodes; the editor loads some of
+// these as 'default' nodes, so type alone is not enough
+export const ENTRY_TEMPLATE_CLASSES = [
+  'ModNumber',
+  'ModNumber_Public',
+  'ModExtension',
+  'ModFromPolicy',
+  'ModInboundMessage',
+  'ModSipTrunk',
+  'ModInvokable',
+  'ModDigital',
+  'ModStartDigital',
+] as const;
+const TERMINAL_TEMPLATE_CLASSES = ['ModFinish', 'ModToPolicy'];
+
+// App types that end the call when reached
+export const TERMINAL_APP_TYPES = ['voicemail', 'finish'] as const;
+
+// App types whose outputs are alternative branches rather than a sequence
+export const BRANCHING_APP_TYPES = ['rule', 'switchItem'] as const;
+
+// Values used in `connectedTo` to mean "no explicit target"
+const EMPTY_TARGETS = new Set(['', 'finish', 'null', 'undefined']);
+
+// Legacy templateClass values that don't follow the `Mod<AppType>` convention
+const TEMPLATE_CLASS_APP_TYPES: Record<string, string> = {
+  ModAction_Say: 'speak',
+  ModAction_Record: 'recordCall',
+  ModAction_RecordAnalyse: 'recordCall',
+  ModAction_Notify: 'notify',
+  ModAction_RequestSkills: 'requestSkill',
+  ModAction_ManageProperty: 'manageProperties',
+  ModAction_SetProperty: 'manageProperties',
+  ModAction_Debug: 'debug',
+  ModConnect: 'connectCall',
+  ModConnect_Queue: 'callQueue',
+  ModConnect_FollowMe: 'huntGroup',
+  ModConnector_SFQuery: 'queryObject',
+  ModConnector_SFCreate: 'createRecord',
+  ModFinish_VoiceMail: 'voicemail',
+  ModVoicemail: 'voicemail',
+  ModCallQueue: 'callQueue',
+  ModHuntGroup: 'huntGroup',
+  ModRule: 'rule',
+  ModSwitchboard_Item: 'switchItem',
+};
+
+// Node/data `type` values that describe the item shape rather than the app
+const NON_APP_TYPES = new Set(['output', 'group', 'default']);
+
+// Input types
+export interface GraphNodeInput {
+  id: string;
+  type?: string;
+  parentNode?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface GraphEdgeInput {
+  id?: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+export interface PolicyGraphInput {
+  nodes: GraphNodeInput[];
+  edges?: GraphEdgeInput[];
+  connections?: LegacyConnection[];
+}
+
+// Normalised types
+export interface GraphOutput {
+  id: string;
+  nodeId: string;
+  index: number;
+  appType: string;
+  label: string;
+  config: Record<string, unknown>;
+  raw: Record<string, unknown>;
+}
+
+export interface GraphNode {
+  id: string;
+  type: string;
+  label: string;
+  templateClass?: string;
+  outputs: GraphOutput[];
+  raw: GraphNodeInput;
+}
+
+export interface GraphLink {
+  id: string;
+  source: string;
+  outputId: string | null;
+  /** Raw handle the link leaves from (e.g. 'true'/'false' on simple rule nodes) */
+  sourceHandle: string | null;
+  target: string;
+}
+
+export interface PolicyGraph {
+  nodes: Map<string, GraphNode>;
+  links: GraphLink[];
+  /** Links whose source or target node does not exist in the policy */
+  danglingLinks: GraphLink[];
+  /** Output id -> parent node id */
+  outputOwners: Map<string, string>;
+  entryNodeIds: string[];
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Resolve the app type of a child item (output) inside a container node
+ */
+export function getChildAppType(child: Record<string, unknown>): string {
+  const data = asRecord(child.data);
+  const templateClass = asString(child.templateClass) ?? asString(data.templateClass);
+  const mapped = templateClass ? TEMPLATE_CLASS_APP_TYPES[templateClass] : undefined;
+  if (mapped) return mapped;
+
+  // Legacy bodies use upper-case types such as 'CALL', which say nothing about the app
+  for (const type of [asString(data.type), asString(child.type)]) {
+    if (type && /^[a-z]/.test(type) && !NON_APP_TYPES.has(type)) return type;
+  }
+
+  if (templateClass) {
+    // Editor-created apps use `Mod<AppType>` (e.g. ModSpeak -> speak)
+    const stripped = templateClass.replace(/^Mod/, '').split('_')[0] ?? '';
+    if (stripped) return stripped.charAt(0).toLowerCase() + stripped.slice(1);
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Get the configuration object of a child item.
+ * Legacy apps keep settings in `variables`, editor apps in `config` or `data`.
+ */
+export function getChildAppConfig(child: Record<string, unknown>): Record<string, unknown> {
+  const data = asRecord(child.data);
+  return {
+    ...asRecord(data.config),
+    ...asRecord(data.variables),
+    ...asRecord(child.config),
+    ...asRecord(child.variables),
+  };
+}
+
+/**
+ * Get the display label of a node or child item
+ */
+export function getGraphItemLabel(item: Record<string, unknown>, fallback: string): string {
+  const data = asRecord(item.data);
+  return (
+    asString(data.label) ??
+    asString(item.name) ??
+    asString(item.title) ??
+    asString(data.name) ??
+    asString(data.title) ??
+    fallback
+  );
+}
+
+function getConnectedTo(item: Record<string, unknown>): string | undefined {
+  const target = asString(item.connectedTo) ?? asString(asRecord(item.data).connectedTo);
+  return target && !EMPTY_TARGETS.has(target) ? target : undefined;
+}
+
+function isChildNode(node: GraphNodeInput): boolean {
+  return Boolean(node.parentNode);
+}
+
+function isInitNode(node: GraphNodeInput): boolean {
+  return node.type === 'init' && node.id === 'init_node';
+}
+
+/**
+ * Build a normalised graph from editor or legacy policy data
+ */
+export function buildPolicyGraph(input: PolicyGraphInput): PolicyGraph {
+  const nodes = new Map<string, GraphNode>();
+  const outputOwners = new Map<string, string>();
+  const childNodesByParent = new Map<string, GraphNodeInput[]>();
+
+  for (const node of input.nodes ?? []) {
+    if (isChildNode(node)) {
+      const siblings = childNodesByParent.get(node.parentNode as string) ?? [];
+      siblings.push(node);
+      childNodesByParent.set(node.parentNode as string, siblings);
+    }
+  }
+
+  for (const node of input.nodes ?? []) {
+    if (isChildNode(node) || isInitNode(node)) continue;
+
+    const data = asRecord(node.data);
+    let rawOutputs = Array.isArray(data.outputs)
+      ? (data.outputs as Array<Record<string, unknown>>)
+      : [];
+    if (rawOutputs.length === 0) {
+      rawOutputs = (childNodesByParent.get(node.id) ?? []).map(asRecord);
+    }
+
+    const outputs = rawOutputs
+      .filter((output) => asString(output.id))
+      .map<GraphOutput>((output, index) => {
+        const appType = getChildAppType(output);
+        return {
+          id: output.id as string,
+          nodeId: node.id,
+          index,
+          appType,
+          label: getGraphItemLabel(output, appType),
+          config: getChildAppConfig(output),
+          raw: output,
+        };
+      });
+
+    outputs.forEach((output) => outputOwners.set(output.id, node.id));
+
+    nodes.set(node.id, {
+      id: node.id,
+      type: node.type ?? 'default',
+      label: getGraphItemLabel(asRecord(node), node.type ?? 'Node'),
+      templateClass: asString(data.templateClass),
+      outputs,
+      raw: node,
+    });
+  }
+
+  const rawLinks: GraphLink[] = [];
+
+  (input.edges ?? []).forEach((edge, index) => {
+    let source = edge.source;
+    let outputId: string | null = null;
+
+    const owner = outputOwners.get(edge.source);
+    if (owner) {
+      source = owner;
+      outputId = edge.source;
+    } else if (edge.sourceHandle && outputOwners.get(edge.sourceHandle) === edge.source) {
+      outputId = edge.sourceHandle;
+    }
+
+    rawLinks.push({
+      id: edge.id ?? `edge-${index}`,
+      source,
+      outputId,
+      sourceHandle: edge.sourceHandle ?? null,
+      target: outputOwners.get(edge.target) ?? edge.target,
+    });
+  });
+
+  (input.connections ?? []).forEach((connection, index) => {
+    const outputId = outputOwners.has(connection.source.id) ? connection.source.id : null;
+    rawLinks.push({
+      id: `connection-${index}`,
+      source: outputOwners.get(connection.source.nodeID) ?? connection.source.nodeID,
+      outputId,
+      sourceHandle: connection.source.id ?? null,
+      target: connection.dest.nodeID,
+    });
+  });
+
+  // Outputs can carry their target in `connectedTo` without a matching edge
+  for (const node of nodes.values()) {
+    for (const output of node.outputs) {
+      const target = getConnectedTo(output.raw);
+      if (!target) continue;
+      const alreadyLinked = rawLinks.some(
+        (link) => link.outputId === output.id && link.target === target
+      );
+      if (!alreadyLinked) {
+        rawLinks.push({
+          id: `output-${output.id}`,
+          source: node.id,
+          outputId: output.id,
+          sourceHandle: output.id,
+          target,
+        });
+      }
+    }
+  }
+
+  const links: GraphLink[] = [];
+  const danglingLinks: GraphLink[] = [];
+  const seen = new Set<string>();
+
+  for (const link of rawLinks) {
+    const key = `${link.source}|${link.outputId ?? ''}|${link.target}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (nodes.has(link.source) && nodes.has(link.target)) {
+      links.push(link);
+    } else {
+      danglingLinks.push(link);
+    }
+  }
+
+  const entryNodeIds = [...nodes.values()].filter(isEntryGraphNode).map((node) => node.id);
+
+  return { nodes, links, danglingLinks, outputOwners, entryNodeIds };
+}
+
+/**
+ * Get links leaving a node, optionally restricted to one of its outputs.
+ * Pass `null` as outputId to get only footer (node-level) links.
+ */
+export function getOutgoingLinks(
+  graph: PolicyGraph,
+  nodeId: string,
+  outputId?: string | null
+): GraphLink[] {
+  return graph.links.filter(
+    (link) => link.source === nodeId && (outputId === undefined || link.outputId === outputId)
+  );
+}
+
+/**
+ * Get ids of nodes directly reachable from a node
+ */
+export function getSuccessorIds(graph: PolicyGraph, nodeId: string): string[] {
+  return [...new Set(getOutgoingLinks(graph, nodeId).map((link) => link.target))];
+}
+
+/**
+ * Get ids of every node reachable from the given start nodes (inclusive)
+ */
+export function getReachableNodeIds(graph: PolicyGraph, startIds: string[]): Set<string> {
+  const reachable = new Set<string>();
+  const queue = startIds.filter((id) => graph.nodes.has(id));
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    queue.push(...getSuccessorIds(graph, id));
+  }
+
+  return reachable;
+}
+
+/**
+ * Check whether a call flow can start at this node
+ */
+export function isEntryGraphNode(node: GraphNode): boolean {
+  return (
+    (ENTRY_NODE_TYPES as readonly string[]).includes(node.type) ||
+    (ENTRY_TEMPLATE_CLASSES as readonly string[]).includes(node.templateClass ?? '')
+  );
+}
+
+/**
+ * Check whether reaching this node ends the call flow
+ */
+export function isTerminalGraphNode(node: GraphNode): boolean {
+  return (
+    (TERMINAL_NODE_TYPES as readonly string[]).includes(node.type) ||
+    TERMINAL_TEMPLATE_CLASSES.includes(node.templateClass ?? '') ||
+    node.outputs.some((output) => (TERMINAL_APP_TYPES as readonly string[]).includes(output.appType))
+  );
+}
+
+/**
+ * Find strongly connected components (Tarjan's algorithm).
+ * Returns components in reverse topological order.
+ */
+export function findStronglyConnectedComponents(graph: PolicyGraph): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let index = 0;
+
+  const visit = (nodeId: string) => {
+    indices.set(nodeId, index);
+    lowLinks.set(nodeId, index);
+    index++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    for (const next of getSuccessorIds(graph, nodeId)) {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId) as number, lowLinks.get(next) as number));
+      } else if (onStack.has(next)) {
+        lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId) as number, indices.get(next) as number));
+      }
+    }
+
+    if (lowLinks.get(nodeId) === indices.get(nodeId)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member === undefined) break;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== nodeId);
+      components.push(component);
+    }
+  };
+
+  for (const nodeId of graph.nodes.keys()) {
+    if (!indices.has(nodeId)) visit(nodeId);
+  }
+
+  return components;
+}
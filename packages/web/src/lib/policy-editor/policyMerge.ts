@@ -0,0 +1,239 @@
+/**
+ * Policy Merge
+ *
+ * Three-way merge of editor canvases, used when a save is refused because
+ * someone else saved the policy after it was opened. `base` is the canvas as
+ * it was loaded, `mine` is the local canvas and `theirs` is what is saved now.
+ * Nodes are merged field by field (position, size and each data setting);
+ * where both sides changed the same field differently the local value is kept
+ * and the node is reported as a conflict.
+ */
+
+import { isEqual } from 'lodash-es';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MergeNode {
+  id: string;
+  data?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface MergeEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  [key: string]: unknown;
+}
+
+export interface MergeSnapshot<N extends MergeNode = MergeNode, E extends MergeEdge = MergeEdge> {
+  nodes: N[];
+  edges: E[];
+}
+
+export type MergeConflictKind =
+  /** Both sides changed the same field to different values; the local value is kept */
+  | 'both-changed'
+  /** Deleted locally but changed in the saved version; their node is kept */
+  | 'deleted-locally'
+  /** Deleted in the saved version but changed locally; the local node is kept */
+  | 'deleted-remotely';
+
+export interface MergeConflict {
+  nodeId: string;
+  label: string;
+  kind: MergeConflictKind;
+  /** Fields changed on both sides, for 'both-changed' */
+  fields: string[];
+}
+
+export interface MergeResult<N extends MergeNode = MergeNode, E extends MergeEdge = MergeEdge> {
+  nodes: N[];
+  edges: E[];
+  conflicts: MergeConflict[];
+  /** Node and connection changes from the saved version that were applied */
+  remoteChanges: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Canvas-only state that shouldn't count as a change
+const IGNORED_FIELDS = new Set(['selected', 'dragging']);
+
+function fieldsOf(...nodes: Array<MergeNode | undefined>): string[] {
+  const fields = new Set<string>();
+  for (const node of nodes) {
+    if (!node) continue;
+    for (const key of Object.keys(node)) {
+      if (key !== 'id' && !IGNORED_FIELDS.has(key)) fields.add(key);
+    }
+  }
+  return [...fields];
+}
+
+function nodeChanged(before: MergeNode, after: MergeNode): boolean {
+  return fieldsOf(before, after).some((field) => !isEqual(before[field], after[field]));
+}
+
+function labelOf(node: MergeNode): string {
+  const label = node.data?.label ?? node.data?.name;
+  return typeof label === 'string' && label !== '' ? label : node.id;
+}
+
+function edgeKey(edge: MergeEdge): string {
+  return `${edge.source}|${edge.sourceHandle ?? ''}|${edge.target}`;
+}
+
+function byId<T extends { id: string }>(items: T[]): Map<string, T> {
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface FieldMerge {
+  value: Record<string, unknown>;
+  conflictFields: string[];
+  tookTheirs: boolean;
+}
+
+/**
+ * Merge records key by key, starting from the local copy. Node `data` is
+ * merged one level deeper so edits to different settings of the same node
+ * don't conflict.
+ */
+function mergeFields(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  prefix = ''
+): FieldMerge {
+  const value: Record<string, unknown> = { ...mine };
+  const conflictFields: string[] = [];
+  let tookTheirs = false;
+
+  const keys = new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)]);
+  for (const key of keys) {
+    if (!prefix && (key === 'id' || IGNORED_FIELDS.has(key))) continue;
+
+    const mineChanged = !isEqual(mine[key], base[key]);
+    const theirsChanged = !isEqual(theirs[key], base[key]);
+    if (!theirsChanged || isEqual(mine[key], theirs[key])) continue;
+
+    if (!mineChanged) {
+      tookTheirs = true;
+      if (key in theirs) {
+        value[key] = theirs[key];
+      } else {
+        delete value[key];
+      }
+    } else if (!prefix && key === 'data' && isRecord(base.data) && isRecord(mine.data) && isRecord(theirs.data)) {
+      const nested = mergeFields(base.data, mine.data, theirs.data, 'data.');
+      value.data = nested.value;
+      conflictFields.push(...nested.conflictFields);
+      tookTheirs ||= nested.tookTheirs;
+    } else {
+      conflictFields.push(`${prefix}${key}`);
+    }
+  }
+
+  return { value, conflictFields, tookTheirs };
+}
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+/**
+ * Merge the local canvas with the currently saved version of the policy
+ */
+export function mergePolicySnapshots<N extends MergeNode, E extends MergeEdge>(
+  base: MergeSnapshot<N, E>,
+  mine: MergeSnapshot<N, E>,
+  theirs: MergeSnapshot<N, E>
+): MergeResult<N, E> {
+  const baseNodes = byId(base.nodes);
+  const mineNodes = byId(mine.nodes);
+  const theirNodes = byId(theirs.nodes);
+
+  const nodes: N[] = [];
+  const conflicts: MergeConflict[] = [];
+  let remoteChanges = 0;
+
+  // Local nodes, in canvas order
+  for (const node of mine.nodes) {
+    const original = baseNodes.get(node.id);
+    const their = theirNodes.get(node.id);
+
+    if (!original) {
+      // Added locally (or by both, in which case the local copy wins)
+      nodes.push(node);
+    } else if (!their) {
+      // Removed in the saved version
+      if (nodeChanged(original, node)) {
+        nodes.push(node);
+        conflicts.push({ nodeId: node.id, label: labelOf(node), kind: 'deleted-remotely', fields: [] });
+      } else {
+        remoteChanges++;
+      }
+    } else {
+      const merged = mergeFields(original, node, their);
+      nodes.push(merged.value as N);
+      if (merged.tookTheirs) remoteChanges++;
+      if (merged.conflictFields.length > 0) {
+        conflicts.push({ nodeId: node.id, label: labelOf(node), kind: 'both-changed', fields: merged.conflictFields });
+      }
+    }
+  }
+
+  // Nodes only in the saved version: added there, or removed locally
+  for (const node of theirs.nodes) {
+    if (mineNodes.has(node.id)) continue;
+    const original = baseNodes.get(node.id);
+
+    if (!original) {
+      nodes.push(node);
+      remoteChanges++;
+    } else if (nodeChanged(original, node)) {
+      nodes.push(node);
+      conflicts.push({ nodeId: node.id, label: labelOf(node), kind: 'deleted-locally', fields: [] });
+    }
+  }
+
+  // Edges: keep those on both sides plus those either side added, then drop
+  // any left pointing at a node that no longer exists
+  const baseEdges = new Set(base.edges.map(edgeKey));
+  const mineEdges = new Set(mine.edges.map(edgeKey));
+  const theirEdges = new Set(theirs.edges.map(edgeKey));
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges: E[] = [];
+  const seen = new Set<string>();
+
+  for (const edge of [...mine.edges, ...theirs.edges]) {
+    const key = edgeKey(edge);
+    if (seen.has(key)) continue;
+
+    const inMine = mineEdges.has(key);
+    const inTheirs = theirEdges.has(key);
+    const inBase = baseEdges.has(key);
+    const keep = (inMine && inTheirs) || !inBase;
+    if (!keep || !nodeIds.has(edge.source) || !nodeIds.has(edge.target)) continue;
+
+    seen.add(key);
+    edges.push(edge);
+    if (!inMine) remoteChanges++;
+  }
+
+  // Connections the saved version removed
+  for (const key of baseEdges) {
+    if (mineEdges.has(key) && !theirEdges.has(key)) remoteChanges++;
+  }
+
+  return { nodes, edges, conflicts, remoteChanges };
+}
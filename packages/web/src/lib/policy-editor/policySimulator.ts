@@ -0,0 +1,357 @@
+/**
+ * Policy simulator (dry-run call tracer) for the policy editor.
+ *
+ * Walks a routing policy as a test call would, without touching Sapien:
+ * evaluates Rule apps and rule nodes, matches Switchboard items against
+ * DTMF/speech inputs, and follows queue/hunt group fallbacks when nobody
+ * answers. The result lists every step and the nodes, apps and connections
+ * visited so the editor can highlight the path on the canvas.
+ */
+
+import {
+  buildPolicyGraph,
+  getOutgoingLinks,
+  isEntryGraphNode,
+  isTerminalGraphNode,
+  type GraphLink,
+  type GraphNode,
+  type GraphOutput,
+  type PolicyGraph,
+  type PolicyGraphInput,
+} from './policyGraph';
+import { evaluateRuleConfig, normalizePhoneNumber, type RuleCallContext } from './ruleEvaluator';
+import type { RuleConfig } from './defaults';
+
+// Constants
+export const SIMULATION_DEFAULTS = {
+  MAX_STEPS: 200,
+  /** Times a single node may be entered before the trace is treated as a loop */
+  MAX_NODE_VISITS: 5,
+};
+
+// Apps that try to connect the call to people and fall through when nobody answers
+const CONNECTING_APP_TYPES = ['callQueue', 'huntGroup', 'connectCall'];
+
+// Types
+export interface SimulationInput {
+  callerNumber: string;
+  dialledNumber: string;
+  /** Date/time of the call; ISO strings are accepted */
+  dateTime: Date | string;
+  /** DTMF digits or speech phrases, consumed in order by Switchboard nodes */
+  inputs?: string[];
+  callerIdWithheld?: boolean;
+  /** Call properties for Evaluate rules */
+  properties?: Record<string, string>;
+  /** Whether queues, hunt groups and connect apps are answered */
+  connectOutcome?: 'answered' | 'unanswered';
+  /** Start node; defaults to the entry node that best matches the dialled number */
+  entryNodeId?: string;
+  maxSteps?: number;
+}
+
+export type SimulationStepKind = 'enter' | 'app' | 'rule' | 'switch' | 'fallback' | 'link' | 'end';
+
+export interface SimulationStep {
+  kind: SimulationStepKind;
+  nodeId: string;
+  outputId?: string;
+  linkId?: string;
+  description: string;
+}
+
+export type SimulationOutcome =
+  | 'answered'
+  | 'voicemail'
+  | 'finished'
+  | 'dead-end'
+  | 'loop'
+  | 'max-steps'
+  | 'no-entry';
+
+export interface SimulationResult {
+  outcome: SimulationOutcome;
+  message: string;
+  steps: SimulationStep[];
+  visitedNodeIds: string[];
+  visitedOutputIds: string[];
+  traversedLinkIds: string[];
+  /** Inputs left over when the trace ended */
+  unusedInputs: string[];
+}
+
+interface SimulationState {
+  graph: PolicyGraph;
+  context: RuleCallContext;
+  inputs: string[];
+  connectOutcome: 'answered' | 'unanswered';
+  steps: SimulationStep[];
+  visitedNodeIds: string[];
+  visitedOutputIds: string[];
+  traversedLinkIds: string[];
+}
+
+// What happens after a node has been processed
+type NodeResult =
+  | { type: 'follow'; link: GraphLink }
+  | { type: 'end'; outcome: SimulationOutcome; message: string };
+
+function addStep(state: SimulationState, step: SimulationStep) {
+  state.steps.push(step);
+}
+
+function visitOutput(state: SimulationState, output: GraphOutput) {
+  if (!state.visitedOutputIds.includes(output.id)) {
+    state.visitedOutputIds.push(output.id);
+  }
+}
+
+function getRules(config: Record<string, unknown>): Partial<RuleConfig> | undefined {
+  const rules = config.rules;
+  return rules && typeof rules === 'object' ? (rules as Partial<RuleConfig>) : undefined;
+}
+
+function followOrEnd(
+  link: GraphLink | undefined,
+  endMessage: string,
+  outcome: SimulationOutcome = 'dead-end'
+): NodeResult {
+  return link ? { type: 'follow', link } : { type: 'end', outcome, message: endMessage };
+}
+
+/**
+ * Pick the start node for a simulated call
+ */
+export function findSimulationEntryNode(
+  graph: PolicyGraph,
+  dialledNumber: string,
+  entryNodeId?: string
+): GraphNode | undefined {
+  if (entryNodeId) return graph.nodes.get(entryNodeId);
+
+  const entries = [...graph.nodes.values()].filter(isEntryGraphNode);
+  const dialled = normalizePhoneNumber(dialledNumber).replace(/^\+/, '');
+
+  // Prefer an entry node whose configuration mentions the dialled number
+  const byNumber = dialled
+    ? entries.find((node) => JSON.stringify(node.raw.data ?? {}).replace(/\D/g, '').includes(dialled))
+    : undefined;
+
+  return byNumber ?? entries.find((node) => node.type === 'inboundNumber') ?? entries[0];
+}
+
+/**
+ * Check whether a Switchboard item is selected by a DTMF or speech input
+ */
+export function matchesSwitchItem(output: GraphOutput, input: string): boolean {
+  const value = input.trim();
+  if (!value) return false;
+
+  const tone = String(output.config.tone ?? '');
+  if (tone && tone === value) return true;
+
+  const pattern = output.config.pattern;
+  if (typeof pattern === 'string' && pattern) {
+    try {
+      if (new RegExp(pattern).test(value)) return true;
+    } catch {
+      // Invalid patterns are reported by the validator, not the simulator
+    }
+  }
+
+  const phrase = output.config.itemPhrase;
+  return (
+    typeof phrase === 'string' &&
+    phrase.trim() !== '' &&
+    value.toLowerCase().includes(phrase.trim().toLowerCase())
+  );
+}
+
+// Rule containers: the first matching rule's branch is taken, otherwise the footer
+function runRuleOutputs(state: SimulationState, node: GraphNode): NodeResult {
+  for (const output of node.outputs) {
+    if (output.appType !== 'rule') continue;
+    const { matched } = evaluateRuleConfig(getRules(output.config), state.context);
+    if (!matched) continue;
+
+    visitOutput(state, output);
+    addStep(state, {
+      kind: 'rule',
+      nodeId: node.id,
+      outputId: output.id,
+      description: `Rule "${output.label}" matched`,
+    });
+    return followOrEnd(
+      getOutgoingLinks(state.graph, node.id, output.id)[0],
+      `Rule "${output.label}" matched but its branch is not connected`
+    );
+  }
+
+  addStep(state, { kind: 'rule', nodeId: node.id, description: 'No rule matched' });
+  return followOrEnd(
+    getOutgoingLinks(state.graph, node.id, null)[0],
+    'No rule matched and there is no default path'
+  );
+}
+
+// Switchboards: consume the next input and take the matching item, otherwise the footer
+function runSwitchOutputs(state: SimulationState, node: GraphNode): NodeResult {
+  const input = state.inputs.shift();
+  const items = node.outputs.filter((output) => output.appType === 'switchItem');
+  const selected = input === undefined ? undefined : items.find((o) => matchesSwitchItem(o, input));
+
+  if (!selected) {
+    addStep(state, {
+      kind: 'switch',
+      nodeId: node.id,
+      description:
+        input === undefined ? 'No input given to the switchboard' : `Input "${input}" matched no item`,
+    });
+    return followOrEnd(
+      getOutgoingLinks(state.graph, node.id, null)[0],
+      'Switchboard had no match and there is no default path'
+    );
+  }
+
+  visitOutput(state, selected);
+  addStep(state, {
+    kind: 'switch',
+    nodeId: node.id,
+    outputId: selected.id,
+    description: `Input "${input}" selected "${selected.label}"`,
+  });
+  return followOrEnd(
+    getOutgoingLinks(state.graph, node.id, selected.id)[0],
+    `Switchboard item "${selected.label}" is not connected`
+  );
+}
+
+// Action containers: run apps in order; an app with its own connection jumps there
+function runSequentialOutputs(state: SimulationState, node: GraphNode): NodeResult {
+  for (const output of node.outputs) {
+    visitOutput(state, output);
+
+    if (output.appType === 'voicemail') {
+      addStep(state, { kind: 'end', nodeId: node.id, outputId: output.id, description: 'Call sent to voicemail' });
+      return { type: 'end', outcome: 'voicemail', message: `Call ends in voicemail at "${output.label}"` };
+    }
+
+    if (CONNECTING_APP_TYPES.includes(output.appType)) {
+      if (state.connectOutcome === 'answered') {
+        addStep(state, { kind: 'end', nodeId: node.id, outputId: output.id, description: `"${output.label}" answered` });
+        return { type: 'end', outcome: 'answered', message: `Call answered by "${output.label}"` };
+      }
+      addStep(state, {
+        kind: 'fallback',
+        nodeId: node.id,
+        outputId: output.id,
+        description: `"${output.label}" not answered, continuing`,
+      });
+    } else {
+      addStep(state, { kind: 'app', nodeId: node.id, outputId: output.id, description: `Run "${output.label}"` });
+    }
+
+    const ownLink = getOutgoingLinks(state.graph, node.id, output.id)[0];
+    if (ownLink) return { type: 'follow', link: ownLink };
+  }
+
+  return followOrEnd(
+    getOutgoingLinks(state.graph, node.id, null)[0],
+    `Call ends after "${node.label}"`,
+    'finished'
+  );
+}
+
+// Simple rule nodes carry their rules on the node and branch via 'true'/'false' handles
+function runRuleNode(state: SimulationState, node: GraphNode): NodeResult {
+  const data = (node.raw.data ?? {}) as Record<string, unknown>;
+  const config = { ...((data.config as Record<string, unknown>) ?? {}), ...data };
+  const { matched } = evaluateRuleConfig(getRules(config), state.context);
+  const handle = matched ? 'true' : 'false';
+
+  addStep(state, { kind: 'rule', nodeId: node.id, description: `Rule "${node.label}" is ${handle}` });
+  const link = getOutgoingLinks(state.graph, node.id).find((l) => l.sourceHandle === handle);
+  return followOrEnd(link, `Rule "${node.label}" has no "${handle}" connection`);
+}
+
+function runNode(state: SimulationState, node: GraphNode): NodeResult {
+  if (isTerminalGraphNode(node) && !node.outputs.some((o) => o.appType === 'voicemail')) {
+    addStep(state, { kind: 'end', nodeId: node.id, description: `Reached "${node.label}"` });
+    return { type: 'end', outcome: 'finished', message: `Call finished at "${node.label}"` };
+  }
+
+  if (node.outputs.some((o) => o.appType === 'rule')) return runRuleOutputs(state, node);
+  if (node.outputs.some((o) => o.appType === 'switchItem')) return runSwitchOutputs(state, node);
+  if (node.type === 'rule' && node.outputs.length === 0) return runRuleNode(state, node);
+  return runSequentialOutputs(state, node);
+}
+
+/**
+ * Trace a test call through a policy
+ */
+export function simulatePolicyCall(
+  policy: PolicyGraphInput,
+  input: SimulationInput
+): SimulationResult {
+  const graph = buildPolicyGraph(policy);
+  const state: SimulationState = {
+    graph,
+    context: {
+      callerNumber: input.callerNumber,
+      dialledNumber: input.dialledNumber,
+      dateTime: input.dateTime instanceof Date ? input.dateTime : new Date(input.dateTime),
+      callerIdWithheld: input.callerIdWithheld,
+      properties: input.properties,
+    },
+    inputs: [...(input.inputs ?? [])],
+    connectOutcome: input.connectOutcome ?? 'unanswered',
+    steps: [],
+    visitedNodeIds: [],
+    visitedOutputIds: [],
+    traversedLinkIds: [],
+  };
+
+  const finish = (outcome: SimulationOutcome, message: string): SimulationResult => ({
+    outcome,
+    message,
+    steps: state.steps,
+    visitedNodeIds: state.visitedNodeIds,
+    visitedOutputIds: state.visitedOutputIds,
+    traversedLinkIds: state.traversedLinkIds,
+    unusedInputs: state.inputs,
+  });
+
+  let node = findSimulationEntryNode(graph, input.dialledNumber, input.entryNodeId);
+  if (!node) return finish('no-entry', 'Policy has no start node to place the call on');
+
+  const maxSteps = input.maxSteps ?? SIMULATION_DEFAULTS.MAX_STEPS;
+  const visits = new Map<string, number>();
+
+  addStep(state, { kind: 'enter', nodeId: node.id, description: `Call arrives at "${node.label}"` });
+
+  while (state.steps.length < maxSteps) {
+    const count = (visits.get(node.id) ?? 0) + 1;
+    visits.set(node.id, count);
+    if (count > SIMULATION_DEFAULTS.MAX_NODE_VISITS) {
+      return finish('loop', `Call keeps returning to "${node.label}"`);
+    }
+    if (!state.visitedNodeIds.includes(node.id)) state.visitedNodeIds.push(node.id);
+
+    const result = runNode(state, node);
+    if (result.type === 'end') return finish(result.outcome, result.message);
+
+    const next = graph.nodes.get(result.link.target);
+    if (!next) return finish('dead-end', `Connection leads to a missing node`);
+
+    state.traversedLinkIds.push(result.link.id);
+    addStep(state, {
+      kind: 'link',
+      nodeId: next.id,
+      linkId: result.link.id,
+      description: `Go to "${next.label}"`,
+    });
+    node = next;
+  }
+
+  return finish('max-steps', `Trace stopped after ${maxSteps} steps`);
+}
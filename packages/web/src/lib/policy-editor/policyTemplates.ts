@@ -0,0 +1,330 @@
+/**
+ * Policy Templates
+ *
+ * Reusable sub-flows ("macros") built from a selection on the canvas. A
+ * template stores the selected editor nodes, the edges between them and the
+ * group, user and sound references they use. Dropping a template copies the
+ * fragment with fresh ids and swaps each parameter for the value picked when
+ * it was placed.
+ */
+
+import { cloneDeep } from 'lodash-es';
+import { generateId } from './dataTransform';
+import {
+  BUNDLE_REFERENCE_LABELS,
+  forEachEntityReference,
+  getReferenceKey,
+  type ReferenceSlot,
+} from './policyBundle';
+import type { Policy } from './policyService';
+
+export const POLICY_TEMPLATE_VERSION = 1;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TemplateParameterKind = 'group' | 'user' | 'sound';
+
+export const TEMPLATE_PARAMETER_KINDS: TemplateParameterKind[] = ['group', 'user', 'sound'];
+
+/**
+ * A reference in the fragment that is filled in when the template is placed
+ */
+export interface TemplateParameter {
+  /** Kind and original value, e.g. `group:101` */
+  key: string;
+  kind: TemplateParameterKind;
+  /** Prompt shown when placing the template */
+  label: string;
+  /** Value in the policy the template was saved from */
+  defaultValue: string;
+  defaultName?: string;
+  /** Number of places in the fragment that use this reference */
+  usageCount: number;
+}
+
+export interface TemplateNode {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  data: Record<string, unknown>;
+  width?: number;
+  height?: number;
+}
+
+export interface TemplateEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
+  type?: string;
+}
+
+/**
+ * Stored body of a template, serialised into PolicyTemplate.body
+ */
+export interface PolicyTemplateFragment {
+  version: number;
+  /** Node positions are relative to the top-left of the selection */
+  nodes: TemplateNode[];
+  edges: TemplateEdge[];
+  parameters: TemplateParameter[];
+}
+
+/**
+ * Entities available to name parameters, as passed to the editor
+ */
+export type TemplateLookups = Partial<Record<TemplateParameterKind, Array<{ id: string; name: string }>>>;
+
+/**
+ * Parameter values keyed by TemplateParameter.key. An empty string leaves the
+ * reference blank; a missing key keeps the default.
+ */
+export type TemplateParameterValues = Record<string, string>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Data keys that point at another node or output on the canvas
+const CONNECTION_KEYS = new Set(['connectedTo', 'connectedFromNode', 'connectedFromItem']);
+
+function isParameterKind(kind: ReferenceSlot['kind']): kind is TemplateParameterKind {
+  return (TEMPLATE_PARAMETER_KINDS as string[]).includes(kind);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * View editor nodes as a legacy body so the bundle reference locators can
+ * walk their outputs. Outputs are shared, so replacements land in the nodes.
+ */
+function asPolicy(nodes: TemplateNode[]): Policy {
+  return {
+    nodes: nodes.map((node) => ({
+      id: node.id,
+      templateId: node.data.templateId as number,
+      templateClass: node.data.templateClass as string | undefined,
+      name: (node.data.name ?? node.data.label) as string | undefined,
+      outputs: Array.isArray(node.data.outputs) ? (node.data.outputs as Policy['nodes'][number]['outputs']) : [],
+    })),
+  };
+}
+
+/**
+ * Ids that identify something inside the fragment: the nodes themselves and
+ * their outputs, sub items and legacy input/output handles.
+ */
+function collectFragmentIds(nodes: TemplateNode[]): Set<string> {
+  const ids = new Set<string>();
+  const add = (value: unknown) => {
+    if (isRecord(value) && typeof value.id === 'string' && value.id !== '') ids.add(value.id);
+  };
+
+  for (const node of nodes) {
+    ids.add(node.id);
+    add(node.data.input);
+    add(node.data.output);
+    for (const list of [node.data.outputs, node.data.subItems]) {
+      if (Array.isArray(list)) list.forEach(add);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Rewrite a value in place: ids are swapped through `idMap`, and connection
+ * keys that point outside the fragment are cleared.
+ */
+function remapIds(value: unknown, idMap: Map<string, string>): unknown {
+  if (typeof value === 'string') {
+    return idMap.get(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => remapIds(item, idMap));
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (CONNECTION_KEYS.has(key) && typeof item === 'string' && item !== 'finish' && !idMap.has(item)) {
+      if (key === 'connectedTo') result[key] = 'finish';
+      continue;
+    }
+    result[key] = remapIds(item, idMap);
+  }
+  return result;
+}
+
+// =============================================================================
+// Create
+// =============================================================================
+
+/**
+ * Build a template fragment from the selected nodes. The start node is never
+ * included, and only edges with both ends in the selection are kept.
+ */
+export function createTemplateFragment({
+  nodes,
+  edges,
+  selectedIds,
+  lookups = {},
+}: {
+  nodes: TemplateNode[];
+  edges: TemplateEdge[];
+  selectedIds: Iterable<string>;
+  lookups?: TemplateLookups;
+}): PolicyTemplateFragment {
+  const selected = new Set(selectedIds);
+  const picked = nodes.filter((node) => selected.has(node.id) && node.type !== 'init');
+
+  const minX = Math.min(...picked.map((node) => node.position.x));
+  const minY = Math.min(...picked.map((node) => node.position.y));
+
+  const fragmentNodes: TemplateNode[] = picked.map((node) => {
+    const { id, type, position, data, width, height } = cloneDeep(node);
+    return {
+      id,
+      type,
+      position: { x: position.x - minX, y: position.y - minY },
+      data,
+      ...(width !== undefined && { width }),
+      ...(height !== undefined && { height }),
+    };
+  });
+
+  // Identity map: only used to tell internal connections from external ones
+  const ids = collectFragmentIds(fragmentNodes);
+  const idMap = new Map([...ids].map((id) => [id, id]));
+  for (const node of fragmentNodes) {
+    node.data = remapIds(node.data, idMap) as Record<string, unknown>;
+  }
+
+  const nodeIds = new Set(fragmentNodes.map((node) => node.id));
+  const fragmentEdges: TemplateEdge[] = edges
+    .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map(({ id, source, target, sourceHandle, targetHandle, type }) => ({
+      id,
+      source,
+      target,
+      ...(sourceHandle !== undefined && { sourceHandle }),
+      ...(targetHandle !== undefined && { targetHandle }),
+      ...(type !== undefined && { type }),
+    }));
+
+  return {
+    version: POLICY_TEMPLATE_VERSION,
+    nodes: fragmentNodes,
+    edges: fragmentEdges,
+    parameters: collectTemplateParameters(fragmentNodes, lookups),
+  };
+}
+
+/**
+ * List the group, user and sound references in a fragment, one parameter per
+ * distinct value.
+ */
+export function collectTemplateParameters(nodes: TemplateNode[], lookups: TemplateLookups = {}): TemplateParameter[] {
+  const parameters = new Map<string, TemplateParameter>();
+
+  forEachEntityReference(asPolicy(nodes), (slot) => {
+    if (!isParameterKind(slot.kind)) return;
+
+    const key = getReferenceKey(slot);
+    const existing = parameters.get(key);
+    if (existing) {
+      existing.usageCount++;
+      return;
+    }
+
+    const name = lookups[slot.kind]?.find((entity) => entity.id === slot.id)?.name;
+    parameters.set(key, {
+      key,
+      kind: slot.kind,
+      label: `${BUNDLE_REFERENCE_LABELS[slot.kind]} for ${slot.usage.elementName || slot.usage.nodeName}`,
+      defaultValue: slot.id,
+      ...(name && { defaultName: name }),
+      usageCount: 1,
+    });
+  });
+
+  return [...parameters.values()];
+}
+
+// =============================================================================
+// Parse
+// =============================================================================
+
+/**
+ * Read a stored template body. Returns null for bodies that are not valid
+ * fragments or come from a newer format version.
+ */
+export function parseTemplateFragment(body: string): PolicyTemplateFragment | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  if (
+    !isRecord(parsed) ||
+    typeof parsed.version !== 'number' ||
+    parsed.version > POLICY_TEMPLATE_VERSION ||
+    !Array.isArray(parsed.nodes) ||
+    !Array.isArray(parsed.edges)
+  ) {
+    return null;
+  }
+
+  return {
+    version: parsed.version,
+    nodes: parsed.nodes as TemplateNode[],
+    edges: parsed.edges as TemplateEdge[],
+    parameters: Array.isArray(parsed.parameters) ? (parsed.parameters as TemplateParameter[]) : [],
+  };
+}
+
+// =============================================================================
+// Instantiate
+// =============================================================================
+
+/**
+ * Copy a fragment onto the canvas at `origin`. Every node, output, sub item
+ * and edge gets a fresh id so the same template can be placed repeatedly.
+ */
+export function instantiateTemplate(
+  fragment: PolicyTemplateFragment,
+  { origin, values = {} }: { origin: { x: number; y: number }; values?: TemplateParameterValues }
+): { nodes: TemplateNode[]; edges: TemplateEdge[] } {
+  const nodes = cloneDeep(fragment.nodes);
+
+  forEachEntityReference(asPolicy(nodes), (slot) => {
+    const key = getReferenceKey(slot);
+    if (!isParameterKind(slot.kind) || !(key in values)) return;
+
+    const value = values[key] ?? '';
+    slot.replace(value === '' ? null : { id: value, name: '', reference: value });
+  });
+
+  const idMap = new Map([...collectFragmentIds(nodes)].map((id) => [id, generateId()]));
+
+  return {
+    nodes: nodes.map((node) => ({
+      ...node,
+      id: idMap.get(node.id) ?? generateId(),
+      position: { x: origin.x + node.position.x, y: origin.y + node.position.y },
+      data: remapIds(node.data, idMap) as Record<string, unknown>,
+    })),
+    edges: fragment.edges.map((edge) => ({
+      ...(remapIds(edge, idMap) as TemplateEdge),
+      id: generateId(),
+    })),
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Policy Usage
+ *
+ * Finds where groups, users, sounds, skills, Salesforce objects and Speak text
+ * are used in a policy, and rewrites them for find-and-replace across
+ * policies. Works on the editor form of a policy (transformLegacyPolicy
+ * output), so a rewritten policy can be saved through buildPayload.
+ */
+
+import { forEachEntityReference, type BundleReferenceUsage, type ReferenceSlot } from './policyBundle';
+import { getChildAppType } from './policyGraph';
+import type { Policy } from './policyService';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PolicyUsageKind = ReferenceSlot['kind'] | 'sfObject' | 'text';
+
+export const POLICY_USAGE_KINDS: PolicyUsageKind[] = ['group', 'user', 'sound', 'skill', 'sfObject', 'text'];
+
+export const POLICY_USAGE_LABELS: Record<PolicyUsageKind, string> = {
+  group: 'Group',
+  user: 'User',
+  sound: 'Sound',
+  skill: 'Skill',
+  sfObject: 'Salesforce Object',
+  text: 'Speak Text',
+};
+
+/**
+ * What to look for. Entities match on the id stored in the body, Salesforce
+ * objects on their API name and text on any part of a Speak phrase (all
+ * ignoring case except entity ids).
+ */
+export interface PolicyUsageQuery {
+  kind: PolicyUsageKind;
+  value: string;
+}
+
+export interface PolicyUsageMatch {
+  kind: PolicyUsageKind;
+  /** Value found: entity id, object API name or the full Speak phrase */
+  value: string;
+  usage: BundleReferenceUsage;
+}
+
+export interface PolicyUsageReplacement {
+  /** Entity id, object API name or replacement text */
+  value: string;
+  /** Entity name, stored alongside skill ids */
+  name?: string;
+}
+
+/**
+ * Editor node as produced by transformLegacyPolicy
+ */
+export interface PolicyUsageNode {
+  id: string;
+  type?: string;
+  parentNode?: string;
+  data: Record<string, unknown>;
+}
+
+interface UsageSlot {
+  kind: PolicyUsageKind;
+  value: string;
+  usage: BundleReferenceUsage;
+  replace: (replacement: PolicyUsageReplacement, query: PolicyUsageQuery) => void;
+}
+
+// Config keys holding the object of Query Object and Create Record apps
+const SF_OBJECT_KEYS = ['sObject', 'objectType'] as const;
+const SF_OBJECT_APP_TYPES = ['queryObject', 'createRecord'];
+
+// =============================================================================
+// Locators
+// =============================================================================
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Container nodes (not the init node or the output/sub-item children) viewed
+ * as a legacy body. Outputs keep their legacy config and variables objects,
+ * so rewriting them through the view rewrites the editor nodes too.
+ */
+function toLegacyView(nodes: PolicyUsageNode[]): Policy {
+  return {
+    nodes: nodes
+      .filter((node) => !node.parentNode && node.type !== 'init')
+      .map((node) => ({
+        id: node.id,
+        name: node.data.name,
+        title: node.data.title,
+        outputs: Array.isArray(node.data.outputs) ? node.data.outputs : [],
+      })),
+  } as unknown as Policy;
+}
+
+function forEachUsage(nodes: PolicyUsageNode[], visit: (slot: UsageSlot) => void): void {
+  const view = toLegacyView(nodes);
+
+  forEachEntityReference(view, (slot) => {
+    visit({
+      kind: slot.kind,
+      value: slot.id,
+      usage: slot.usage,
+      replace: ({ value, name }) => slot.replace(value ? { id: value, name: name ?? value, reference: value } : null),
+    });
+  });
+
+  for (const node of view.nodes) {
+    const nodeName = node.name || node.title || node.id;
+
+    for (const element of node.outputs ?? []) {
+      const item = element as unknown as Record<string, unknown>;
+      const appType = getChildAppType(item);
+      const usage = { nodeId: node.id, nodeName, elementName: element.name || element.templateClass || '' };
+      const settings = [asRecord(item.config), asRecord(item.variables)].filter((s) => s !== undefined);
+
+      if (SF_OBJECT_APP_TYPES.includes(appType)) {
+        for (const record of settings) {
+          for (const key of SF_OBJECT_KEYS) {
+            const objectName = record[key];
+            if (typeof objectName !== 'string' || !objectName) continue;
+            visit({
+              kind: 'sfObject',
+              value: objectName,
+              usage,
+              replace: ({ value }) => {
+                record[key] = value;
+              },
+            });
+          }
+        }
+      } else if (appType === 'speak') {
+        for (const record of settings) {
+          const phrase = record.sayPhrase;
+          if (typeof phrase !== 'string' || !phrase) continue;
+          visit({
+            kind: 'text',
+            value: phrase,
+            usage,
+            replace: ({ value }, query) => {
+              record.sayPhrase = phrase.replace(new RegExp(escapeRegExp(query.value), 'gi'), value);
+            },
+          });
+        }
+      }
+    }
+  }
+}
+
+function matches(slot: UsageSlot, query: PolicyUsageQuery): boolean {
+  if (slot.kind !== query.kind || !query.value) return false;
+
+  switch (slot.kind) {
+    case 'sfObject':
+      return slot.value.toLowerCase() === query.value.toLowerCase();
+    case 'text':
+      return slot.value.toLowerCase().includes(query.value.toLowerCase());
+    default:
+      return slot.value === query.value;
+  }
+}
+
+// =============================================================================
+// Search and Replace
+// =============================================================================
+
+/**
+ * Find every use of the query value in a policy
+ */
+export function findPolicyUsages(nodes: PolicyUsageNode[], query: PolicyUsageQuery): PolicyUsageMatch[] {
+  const found: PolicyUsageMatch[] = [];
+  forEachUsage(nodes, (slot) => {
+    if (matches(slot, query)) {
+      found.push({ kind: slot.kind, value: slot.value, usage: slot.usage });
+    }
+  });
+  return found;
+}
+
+/**
+ * List the entity ids and object names a policy uses, one entry per use.
+ * Speak text is left out; it is searched by phrase instead.
+ */
+export function listPolicyUsageValues(nodes: PolicyUsageNode[]): PolicyUsageMatch[] {
+  const found: PolicyUsageMatch[] = [];
+  forEachUsage(nodes, (slot) => {
+    if (slot.kind !== 'text') {
+      found.push({ kind: slot.kind, value: slot.value, usage: slot.usage });
+    }
+  });
+  return found;
+}
+
+/**
+ * Rewrite every use of the query value in place and return how many were
+ * changed. Replacing an entity with an empty value clears the reference the
+ * same way an unmapped bundle placeholder does.
+ */
+export function replacePolicyUsages(
+  nodes: PolicyUsageNode[],
+  query: PolicyUsageQuery,
+  replacement: PolicyUsageReplacement
+): number {
+  // Collect first: clearing a skill removes it from the list being walked
+  const slots: UsageSlot[] = [];
+  forEachUsage(nodes, (slot) => {
+    if (matches(slot, query)) slots.push(slot);
+  });
+
+  slots.forEach((slot) => slot.replace(replacement, query));
+  return slots.length;
+}
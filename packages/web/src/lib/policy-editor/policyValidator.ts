@@ -0,0 +1,363 @@
+/**
+ * Semantic validation for routing policies.
+ *
+ * Runs a set of rules over the policy graph and returns structured diagnostics
+ * that the editor can list and highlight, and that the save action can use to
+ * reject a policy before it is pushed to Sapien. Basic structural checks live
+ * in policyService.validatePolicy; this module covers call-flow semantics.
+ */
+
+import {
+  buildPolicyGraph,
+  findStronglyConnectedComponents,
+  getOutgoingLinks,
+  getReachableNodeIds,
+  getSuccessorIds,
+  isTerminalGraphNode,
+  BRANCHING_APP_TYPES,
+  ENTRY_NODE_TYPES,
+  type GraphNode,
+  type PolicyGraph,
+  type PolicyGraphInput,
+} from './policyGraph';
+
+// Types
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface PolicyDiagnostic {
+  rule: string;
+  severity: DiagnosticSeverity;
+  nodeId?: string;
+  outputId?: string;
+  message: string;
+  fixHint?: string;
+}
+
+export interface PolicyValidationInput extends PolicyGraphInput {
+  Name?: string;
+  name?: string;
+}
+
+export interface PolicyValidationContext {
+  policy: PolicyValidationInput;
+  graph: PolicyGraph;
+}
+
+export interface PolicyValidationRule {
+  id: string;
+  description: string;
+  check: (context: PolicyValidationContext) => PolicyDiagnostic[];
+}
+
+export interface PolicyValidationOptions {
+  /** Rule ids to skip */
+  disabledRules?: string[];
+}
+
+export interface PolicyValidationResult {
+  valid: boolean;
+  diagnostics: PolicyDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Apps that hand the call to a queue and fall through when it times out
+const QUEUE_APP_TYPES = ['callQueue'];
+
+// Apps that speak text to the caller
+const SPEAK_APP_TYPES = ['speak'];
+
+function nodeName(node: GraphNode): string {
+  return node.label || node.type;
+}
+
+// Rules
+const policyNameRule: PolicyValidationRule = {
+  id: 'policy-name',
+  description: 'Policy must have a name',
+  check: ({ policy }) => {
+    const name = policy.Name ?? policy.name;
+    if (name === undefined || name.trim()) return [];
+    return [
+      {
+        rule: 'policy-name',
+        severity: 'error',
+        message: 'Policy name is required',
+        fixHint: 'Enter a name for the policy before saving',
+      },
+    ];
+  },
+};
+
+const noNodesRule: PolicyValidationRule = {
+  id: 'no-nodes',
+  description: 'Policy must contain at least one node',
+  check: ({ graph }) =>
+    graph.nodes.size > 0
+      ? []
+      : [
+          {
+            rule: 'no-nodes',
+            severity: 'error',
+            message: 'Policy has no nodes',
+            fixHint: 'Add a start node such as Inbound Number to begin the call flow',
+          },
+        ],
+};
+
+const noEntryPointRule: PolicyValidationRule = {
+  id: 'no-entry-point',
+  description: 'Policy must have a start node',
+  check: ({ graph }) => {
+    if (graph.nodes.size === 0 || graph.entryNodeIds.length > 0) return [];
+    return [
+      {
+        rule: 'no-entry-point',
+        severity: 'error',
+        message: 'Policy has no start node, so no call can ever reach it',
+        fixHint: `Add one of: ${ENTRY_NODE_TYPES.join(', ')}`,
+      },
+    ];
+  },
+};
+
+const unreachableNodeRule: PolicyValidationRule = {
+  id: 'unreachable-node',
+  description: 'Every node should be reachable from a start node',
+  check: ({ graph }) => {
+    if (graph.entryNodeIds.length === 0) return [];
+    const reachable = getReachableNodeIds(graph, graph.entryNodeIds);
+
+    return [...graph.nodes.values()]
+      .filter((node) => !reachable.has(node.id))
+      .map((node) => ({
+        rule: 'unreachable-node',
+        severity: 'warning' as const,
+        nodeId: node.id,
+        message: `"${nodeName(node)}" cannot be reached from any start node`,
+        fixHint: 'Connect an earlier node to it, or delete it',
+      }));
+  },
+};
+
+const danglingConnectionRule: PolicyValidationRule = {
+  id: 'dangling-connection',
+  description: 'Connections must point at existing nodes',
+  check: ({ graph }) =>
+    graph.danglingLinks.map((link) => {
+      const sourceExists = graph.nodes.has(link.source);
+      return {
+        rule: 'dangling-connection',
+        severity: 'error' as const,
+        nodeId: sourceExists ? link.source : undefined,
+        outputId: link.outputId ?? undefined,
+        message: sourceExists
+          ? `Connection points to a node that no longer exists (${link.target})`
+          : `Connection starts from a node that no longer exists (${link.source})`,
+        fixHint: 'Delete the connection and reconnect it to an existing node',
+      };
+    }),
+};
+
+const danglingOutputRule: PolicyValidationRule = {
+  id: 'dangling-output',
+  description: 'Non-terminal nodes should lead somewhere',
+  check: ({ graph }) => {
+    const diagnostics: PolicyDiagnostic[] = [];
+
+    for (const node of graph.nodes.values()) {
+      if (isTerminalGraphNode(node)) continue;
+      if (getOutgoingLinks(graph, node.id).length > 0) continue;
+
+      // Many apps can end the call themselves, so this can't block a save
+      diagnostics.push({
+        rule: 'dangling-output',
+        severity: 'warning',
+        nodeId: node.id,
+        message: `"${nodeName(node)}" has no outgoing connection, so calls will stop here`,
+        fixHint: 'Connect its output to the next step, or to a Finish node',
+      });
+    }
+
+    return diagnostics;
+  },
+};
+
+const unconnectedBranchRule: PolicyValidationRule = {
+  id: 'unconnected-branch',
+  description: 'Rule and switch branches should be connected',
+  check: ({ graph }) => {
+    const diagnostics: PolicyDiagnostic[] = [];
+
+    for (const node of graph.nodes.values()) {
+      for (const output of node.outputs) {
+        if (!(BRANCHING_APP_TYPES as readonly string[]).includes(output.appType)) continue;
+        if (getOutgoingLinks(graph, node.id, output.id).length > 0) continue;
+
+        diagnostics.push({
+          rule: 'unconnected-branch',
+          severity: 'warning',
+          nodeId: node.id,
+          outputId: output.id,
+          message: `Branch "${output.label}" on "${nodeName(node)}" is not connected`,
+          fixHint: 'Calls matching this branch will end; connect it to the next step',
+        });
+      }
+    }
+
+    return diagnostics;
+  },
+};
+
+const cycleWithoutExitRule: PolicyValidationRule = {
+  id: 'cycle-without-exit',
+  description: 'Loops must have a way out',
+  check: ({ graph }) => {
+    const diagnostics: PolicyDiagnostic[] = [];
+
+    for (const component of findStronglyConnectedComponents(graph)) {
+      const [first] = component;
+      if (first === undefined) continue;
+
+      const isLoop =
+        component.length > 1 || getSuccessorIds(graph, first).includes(first);
+      if (!isLoop) continue;
+
+      const members = new Set(component);
+      const hasExit = component.some((id) => {
+        const node = graph.nodes.get(id);
+        if (node && isTerminalGraphNode(node)) return true;
+        return getSuccessorIds(graph, id).some((next) => !members.has(next));
+      });
+      if (hasExit) continue;
+
+      const names = component
+        .map((id) => graph.nodes.get(id))
+        .filter((node): node is GraphNode => Boolean(node))
+        .map(nodeName);
+
+      diagnostics.push({
+        rule: 'cycle-without-exit',
+        severity: 'error',
+        nodeId: first,
+        message: `Loop with no exit: ${names.join(' → ')}`,
+        fixHint: 'Add a rule branch or output that leaves the loop, or ends the call',
+      });
+    }
+
+    return diagnostics;
+  },
+};
+
+const queueOverflowRule: PolicyValidationRule = {
+  id: 'queue-no-overflow',
+  description: 'Queues need somewhere to send calls that time out',
+  check: ({ graph }) => {
+    const diagnostics: PolicyDiagnostic[] = [];
+
+    for (const node of graph.nodes.values()) {
+      node.outputs.forEach((output, index) => {
+        if (!QUEUE_APP_TYPES.includes(output.appType)) return;
+        // Later apps in the same container run when the queue falls through
+        if (index < node.outputs.length - 1) return;
+        if (getOutgoingLinks(graph, node.id, output.id).length > 0) return;
+        if (getOutgoingLinks(graph, node.id, null).length > 0) return;
+
+        diagnostics.push({
+          rule: 'queue-no-overflow',
+          severity: 'warning',
+          nodeId: node.id,
+          outputId: output.id,
+          message: `Queue "${output.label}" has no overflow path for calls that are not answered`,
+          fixHint: 'Add an app after the queue (e.g. Voicemail) or connect the node to a fallback',
+        });
+      });
+    }
+
+    return diagnostics;
+  },
+};
+
+const speakEmptyTextRule: PolicyValidationRule = {
+  id: 'speak-empty-text',
+  description: 'Speak apps must have text',
+  check: ({ graph }) => {
+    const diagnostics: PolicyDiagnostic[] = [];
+
+    for (const node of graph.nodes.values()) {
+      for (const output of node.outputs) {
+        if (!SPEAK_APP_TYPES.includes(output.appType)) continue;
+        const phrase = output.config.sayPhrase;
+        if (typeof phrase === 'string' && phrase.trim()) continue;
+
+        diagnostics.push({
+          rule: 'speak-empty-text',
+          severity: 'error',
+          nodeId: node.id,
+          outputId: output.id,
+          message: `Speak "${output.label}" has no text to say`,
+          fixHint: 'Enter the text to speak, or remove the Speak app',
+        });
+      }
+    }
+
+    return diagnostics;
+  },
+};
+
+/**
+ * Validation rules, run in order
+ */
+export const POLICY_VALIDATION_RULES: PolicyValidationRule[] = [
+  policyNameRule,
+  noNodesRule,
+  noEntryPointRule,
+  unreachableNodeRule,
+  danglingConnectionRule,
+  danglingOutputRule,
+  unconnectedBranchRule,
+  cycleWithoutExitRule,
+  queueOverflowRule,
+  speakEmptyTextRule,
+];
+
+/**
+ * Run all validation rules against a policy
+ */
+export function validatePolicyGraph(
+  policy: PolicyValidationInput,
+  options: PolicyValidationOptions = {}
+): PolicyValidationResult {
+  const graph = buildPolicyGraph(policy);
+  const disabled = new Set(options.disabledRules ?? []);
+
+  const diagnostics = POLICY_VALIDATION_RULES.filter((rule) => !disabled.has(rule.id)).flatMap(
+    (rule) => rule.check({ policy, graph })
+  );
+
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+  const warningCount = diagnostics.filter((d) => d.severity === 'warning').length;
+
+  return { valid: errorCount === 0, diagnostics, errorCount, warningCount };
+}
+
+/**
+ * Check whether any diagnostic should block saving
+ */
+export function hasBlockingDiagnostics(diagnostics: PolicyDiagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === 'error');
+}
+
+/**
+ * Group diagnostics by node id (diagnostics without a node use '')
+ */
+export function groupDiagnosticsByNode(
+  diagnostics: PolicyDiagnostic[]
+): Map<string, PolicyDiagnostic[]> {
+  const grouped = new Map<string, PolicyDiagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    const key = diagnostic.nodeId ?? '';
+    grouped.set(key, [...(grouped.get(key) ?? []), diagnostic]);
+  }
+  return grouped;
+}
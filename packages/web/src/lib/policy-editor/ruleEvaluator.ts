@@ -0,0 +1,252 @@
+/**
+ * Rule evaluation for the policy editor.
+ *
+ * Evaluates Rule app conditions (see RuleConfig in defaults.ts) against the
+ * details of a call. Used by the policy simulator to decide which branch a
+ * call would take without involving Sapien.
+ *
+ * Different rule types are combined with AND logic; groups of the same type
+ * use OR logic, and rules within a group must all match.
+ */
+
+import {
+  COUNTRY_CODES,
+  OPERATORS_WITHOUT_VALUE,
+  type CountryCodeRule,
+  type EvaluateRule,
+  type NumberMatchRule,
+  type RuleConfig,
+  type TimeOfDayRule,
+} from './defaults';
+
+// Types
+export interface RuleCallContext {
+  /** Caller's number (CALLING) */
+  callerNumber: string;
+  /** Number the caller dialled (CALLED) */
+  dialledNumber: string;
+  /** When the call is placed */
+  dateTime: Date;
+  callerIdWithheld?: boolean;
+  /** Call properties available to Evaluate rules (e.g. $(caller.name)) */
+  properties?: Record<string, string>;
+}
+
+export type RuleTypeResult = 'match' | 'no-match' | 'not-configured';
+
+export interface RuleEvaluation {
+  matched: boolean;
+  results: Record<keyof RuleConfig, RuleTypeResult>;
+}
+
+// Regex patterns can come from user input, so they are compiled defensively
+function safeRegExp(pattern: string, flags = ''): RegExp | null {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Strip formatting from a phone number, keeping a leading '+'
+ */
+export function normalizePhoneNumber(value: string): string {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+function getRuleNumber(numberType: string, context: RuleCallContext): string {
+  return normalizePhoneNumber(
+    numberType === 'CALLED' ? context.dialledNumber : context.callerNumber
+  );
+}
+
+/**
+ * Get the weekday, time and date of a moment in a given timezone
+ */
+export function getZonedDateParts(
+  date: Date,
+  timeZone: string
+): { day: string; time: string; date: string } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timeZone || 'UTC',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    return getZonedDateParts(date, 'UTC');
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    day: part('weekday').toUpperCase().slice(0, 3),
+    time: `${part('hour')}:${part('minute')}`,
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+  };
+}
+
+/**
+ * Evaluate a single time-of-day rule
+ */
+export function evaluateTimeOfDayRule(rule: TimeOfDayRule, context: RuleCallContext): boolean {
+  const { day, time, date } = getZonedDateParts(context.dateTime, rule.timeZone);
+
+  if (rule.days?.length && !rule.days.includes(day)) return false;
+
+  if (rule.timeBetween !== false && rule.startTime && rule.endTime) {
+    const inRange =
+      rule.startTime <= rule.endTime
+        ? time >= rule.startTime && time < rule.endTime
+        : time >= rule.startTime || time < rule.endTime; // Overnight, e.g. 22:00-06:00
+    if (!inRange) return false;
+  }
+
+  if (rule.dateBetween) {
+    if (rule.startDate && date < rule.startDate) return false;
+    if (rule.endDate && date > rule.endDate) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Evaluate a single country code rule
+ */
+export function evaluateCountryCodeRule(rule: CountryCodeRule, context: RuleCallContext): boolean {
+  const number = getRuleNumber(rule.numberType, context);
+  const dialCode = COUNTRY_CODES.find((c) => c.value === rule.countryCode)?.dialCode;
+  const inCountry = Boolean(dialCode && number.startsWith(dialCode));
+  return rule.matches === 'NOT_EQUALS' ? !inCountry : inCountry;
+}
+
+/**
+ * Evaluate a single number match rule
+ */
+export function evaluateNumberMatchRule(rule: NumberMatchRule, context: RuleCallContext): boolean {
+  const number = getRuleNumber(rule.numberType, context);
+
+  if (rule.matches === 'MATCHES') {
+    return safeRegExp(rule.number)?.test(number) ?? false;
+  }
+
+  const expected = normalizePhoneNumber(rule.number ?? '');
+  switch (rule.matches) {
+    case 'NOT_EQUALS':
+      return number !== expected;
+    case 'STARTS_WITH':
+      return number.startsWith(expected);
+    case 'ENDS_WITH':
+      return number.endsWith(expected);
+    case 'CONTAINS':
+      return number.includes(expected);
+    default:
+      return number === expected;
+  }
+}
+
+/**
+ * Resolve an Evaluate operand: `$(name)` references a call property, anything else is a literal
+ */
+export function resolveRuleOperand(operand: string, context: RuleCallContext): string {
+  const match = /^\$\((.+)\)$/.exec(operand.trim());
+  if (!match) return operand;
+  return context.properties?.[match[1] as string] ?? '';
+}
+
+// Convert a SQL-style LIKE pattern (% and _) to a regular expression
+function likeToRegExp(pattern: string): RegExp | null {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return safeRegExp(`^${escaped.replace(/%/g, '.*').replace(/_/g, '.')}$`, 'i');
+}
+
+/**
+ * Evaluate a single Evaluate rule using EVALUATE_OPERATORS semantics
+ */
+export function evaluateEvaluateRule(rule: EvaluateRule, context: RuleCallContext): boolean {
+  const lhs = resolveRuleOperand(rule.lhs ?? '', context);
+  const operator = rule.operator;
+
+  if ((OPERATORS_WITHOUT_VALUE as readonly string[]).includes(operator)) {
+    return operator === 'isempty' ? lhs.trim() === '' : lhs.trim() !== '';
+  }
+
+  const rhs = resolveRuleOperand(rule.rhs ?? '', context);
+  const lhsNumber = Number(lhs);
+  const rhsNumber = Number(rhs);
+  const numeric = lhs.trim() !== '' && rhs.trim() !== '' && !isNaN(lhsNumber) && !isNaN(rhsNumber);
+  const compare = numeric ? Math.sign(lhsNumber - rhsNumber) : lhs.localeCompare(rhs);
+
+  switch (operator) {
+    case '==':
+      return numeric ? lhsNumber === rhsNumber : lhs === rhs;
+    case '!=':
+      return numeric ? lhsNumber !== rhsNumber : lhs !== rhs;
+    case '>':
+      return compare > 0;
+    case '<':
+      return compare < 0;
+    case '>=':
+      return compare >= 0;
+    case '<=':
+      return compare <= 0;
+    case 'like':
+      return likeToRegExp(rhs)?.test(lhs) ?? false;
+    case 'notlike':
+      return !(likeToRegExp(rhs)?.test(lhs) ?? false);
+    case 'contains':
+      return lhs.toLowerCase().includes(rhs.toLowerCase());
+    case 'notcontains':
+      return !lhs.toLowerCase().includes(rhs.toLowerCase());
+    case 'startswith':
+      return lhs.toLowerCase().startsWith(rhs.toLowerCase());
+    case 'endswith':
+      return lhs.toLowerCase().endsWith(rhs.toLowerCase());
+    default:
+      return false;
+  }
+}
+
+function evaluateGroups<T>(
+  groups: T[][] | undefined,
+  evaluate: (rule: T) => boolean
+): RuleTypeResult {
+  const configured = (groups ?? []).filter((group) => group.length > 0);
+  if (configured.length === 0) return 'not-configured';
+  return configured.some((group) => group.every(evaluate)) ? 'match' : 'no-match';
+}
+
+/**
+ * Evaluate a full rule configuration.
+ * A rule with no conditions configured always matches.
+ */
+export function evaluateRuleConfig(
+  rules: Partial<RuleConfig> | undefined,
+  context: RuleCallContext
+): RuleEvaluation {
+  const results: Record<keyof RuleConfig, RuleTypeResult> = {
+    timeOfDay: evaluateGroups(rules?.timeOfDay, (r) => evaluateTimeOfDayRule(r, context)),
+    countryCode: evaluateGroups(rules?.countryCode, (r) => evaluateCountryCodeRule(r, context)),
+    callerIdWithheld: evaluateGroups(
+      rules?.callerIdWithheld,
+      (expected) => Boolean(context.callerIdWithheld) === expected
+    ),
+    numberMatch: evaluateGroups(rules?.numberMatch, (r) => evaluateNumberMatchRule(r, context)),
+    evaluate: evaluateGroups(rules?.evaluate, (r) => evaluateEvaluateRule(r, context)),
+  };
+
+  return {
+    matched: Object.values(results).every((result) => result !== 'no-match'),
+    results,
+  };
+}
@@ -6,10 +6,12 @@
 import type {
   CallLog,
   CallLogFilters,
+  CallDispositionInput,
   CallDirection,
   UserCallSummary,
   QueryParams,
   PaginatedResult,
+  MutationResult,
 } from '$lib/domain';
 import type { RepositoryOptions } from './types';
 
@@ -32,7 +34,8 @@ export interface CallLogQueryParams extends QueryParams {
  * Call Log Repository Interface
  * Provides data access operations for CallLog entities
  * 
- * Note: Call logs are typically read-only - they are created by the telephony system
+ * Note: Call logs are created by the telephony system; the only thing written
+ * back is the agent's wrap-up
  */
 export interface ICallLogRepository {
   // =========================================================================
@@ -96,4 +99,15 @@ export interface ICallLogRepository {
    * Get recording URL for a call
    */
   getRecordingUrl(callLogId: string): Promise<string | null>;
+
+  // =========================================================================
+  // Wrap-up
+  // =========================================================================
+
+  /**
+   * Record the agent's wrap-up code and notes on the call log matching the
+   * call. Fails with `Call log not found` if the telephony system hasn't
+   * written the log yet.
+   */
+  recordDisposition(input: CallDispositionInput): Promise<MutationResult<CallLog>>;
 }
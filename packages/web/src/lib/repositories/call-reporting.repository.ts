@@ -11,6 +11,8 @@ export interface CallLogExportOptions {
   startDate?: string;
   endDate?: string;
   direction?: string;
+  /** Only calls wrapped up with this code */
+  wrapupCode?: string;
   fields: string[];
   limit: number;
 }
@@ -0,0 +1,31 @@
+/**
+ * CRM Repository Interface
+ * Defines the contract for looking up callers in the platform's own records
+ * (contacts, leads, accounts) and logging calls against them
+ *
+ * This sits beside the other repositories rather than on `IDataStore` from
+ * `@avs/core`: the web app reaches its platform only through the adapters
+ * in `$lib/adapters` (the Salesforce one shares their `SalesforceClient`
+ * and the signed-in user's token), and finding a caller is a full-text
+ * search across several objects, which `IDataStore`'s filter queries and
+ * `rawQuery` (SOQL) can't express.
+ */
+
+import type { CrmRecord, CrmCallActivity, LogCallActivityInput, MutationResult } from '$lib/domain';
+
+// =============================================================================
+// CRM Repository Interface
+// =============================================================================
+
+export interface ICrmRepository {
+  /**
+   * Find records of the given objects with a phone number matching `number`,
+   * best matches first
+   */
+  findByPhoneNumber(number: string, objectNames: string[]): Promise<CrmRecord[]>;
+
+  /**
+   * Log a finished call as an activity on a record
+   */
+  logCallActivity(data: LogCallActivityInput): Promise<MutationResult<CrmCallActivity>>;
+}
@@ -34,6 +34,15 @@ export interface GroupQueryParams extends QueryParams {
   };
 }
 
+/**
+ * Which memberships to fetch: those of the given groups, of the given users,
+ * or both when both are set
+ */
+export interface GroupMembershipFilter {
+  groupIds?: string[];
+  userIds?: string[];
+}
+
 // =============================================================================
 // Group Repository Interface
 // =============================================================================
@@ -86,6 +95,11 @@ export interface IGroupRepository {
    */
   getMembers(groupId: string): Promise<GroupMember[]>;
 
+  /**
+   * Get the memberships of several groups, or of several users, in one query
+   */
+  findMemberships(filter: GroupMembershipFilter): Promise<GroupMember[]>;
+
   /**
    * Add a member to a group
    */
@@ -8,7 +8,7 @@ export * from './types';
 
 // Repository interfaces
 export type { IUserRepository, UserQueryParams } from './user.repository';
-export type { IGroupRepository, GroupQueryParams } from './group.repository';
+export type { IGroupRepository, GroupQueryParams, GroupMembershipFilter } from './group.repository';
 export type { IDeviceRepository, DeviceQueryParams } from './device.repository';
 export type { IPhoneNumberRepository, PhoneNumberQueryParams } from './phone-number.repository';
 export type { IRoutingPolicyRepository, RoutingPolicyQueryParams } from './routing-policy.repository';
@@ -22,6 +22,10 @@ export type { IMonitoringRepository } from './monitoring.repository';
 export type { ICallReportingRepository } from './call-reporting.repository';
 export type { IWallboardRepository, WallboardQueryParams } from './wallboard.repository';
 export type { ISkillRepository, SkillQueryParams } from './skill.repository';
+export type { IWrapupCodeRepository } from './wrapup-code.repository';
+export type { IPresenceRepository } from './presence.repository';
+export type { ICrmRepository } from './crm.repository';
+export type { INotificationRepository } from './notification.repository';
 
 // =============================================================================
 // Repositories Collection Interface
@@ -42,6 +46,10 @@ import type { IMonitoringRepository } from './monitoring.repository';
 import type { ICallReportingRepository } from './call-reporting.repository';
 import type { IWallboardRepository } from './wallboard.repository';
 import type { ISkillRepository } from './skill.repository';
+import type { IWrapupCodeRepository } from './wrapup-code.repository';
+import type { IPresenceRepository } from './presence.repository';
+import type { ICrmRepository } from './crm.repository';
+import type { INotificationRepository } from './notification.repository';
 
 /**
  * Collection of all repositories
@@ -63,4 +71,8 @@ export interface Repositories {
   callReporting: ICallReportingRepository;
   wallboards: IWallboardRepository;
   skills: ISkillRepository;
+  wrapupCodes: IWrapupCodeRepository;
+  presence: IPresenceRepository;
+  crm: ICrmRepository;
+  notifications: INotificationRepository;
 }
@@ -5,11 +5,13 @@
 
 import type {
   EventLog,
+  CreateEventLogInput,
   ErrorLog,
   MonitoringStats,
   MonitoringQueryParams,
   ServiceInfo,
   PaginatedResult,
+  MutationResult,
 } from '$lib/domain';
 
 /**
@@ -28,6 +30,12 @@ export interface IMonitoringRepository {
    */
   getEventLogById(id: string): Promise<EventLog | null>;
 
+  /**
+   * Write an event log entry
+   * @param input - Event details
+   */
+  createEventLog(input: CreateEventLogInput): Promise<MutationResult<EventLog>>;
+
   /**
    * Get paginated error logs
    * @param params - Query parameters
@@ -0,0 +1,19 @@
+/**
+ * Notification Repository Interface
+ * Defines the contract for sending notifications through the platform
+ */
+
+import type { MutationResult } from '$lib/domain';
+
+// =============================================================================
+// Notification Repository Interface
+// =============================================================================
+
+export interface INotificationRepository {
+  /**
+   * Send a plain text email. It comes from the platform's alert sender
+   * when one is configured, and otherwise from the user the repositories
+   * act as.
+   */
+  sendEmail(recipients: string[], subject: string, body: string): Promise<MutationResult<void>>;
+}
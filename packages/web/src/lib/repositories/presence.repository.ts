@@ -0,0 +1,89 @@
+/**
+ * Presence Repository Interface
+ * Defines the contract for presence state, schedule and history data access
+ */
+
+import type {
+  PresenceState,
+  CreatePresenceStateInput,
+  UpdatePresenceStateInput,
+  PresenceSchedule,
+  CreatePresenceScheduleInput,
+  UpdatePresenceScheduleInput,
+  PresenceChange,
+  RecordPresenceChangeInput,
+  PresenceHistoryFilter,
+  MutationResult,
+  DeleteResult,
+} from '$lib/domain';
+
+// =============================================================================
+// Presence Repository Interface
+// =============================================================================
+
+export interface IPresenceRepository {
+  /**
+   * Find all presence states, active or not, sorted by name
+   */
+  findStates(): Promise<PresenceState[]>;
+
+  /**
+   * Create a new presence state
+   */
+  createState(data: CreatePresenceStateInput): Promise<MutationResult<PresenceState>>;
+
+  /**
+   * Update an existing presence state
+   */
+  updateState(id: string, data: UpdatePresenceStateInput): Promise<MutationResult<PresenceState>>;
+
+  /**
+   * Delete a presence state by ID
+   */
+  deleteState(id: string): Promise<DeleteResult>;
+
+  /**
+   * Find all presence schedules, sorted by name
+   */
+  findSchedules(): Promise<PresenceSchedule[]>;
+
+  /**
+   * Create a new presence schedule
+   */
+  createSchedule(data: CreatePresenceScheduleInput): Promise<MutationResult<PresenceSchedule>>;
+
+  /**
+   * Update an existing presence schedule
+   */
+  updateSchedule(id: string, data: UpdatePresenceScheduleInput): Promise<MutationResult<PresenceSchedule>>;
+
+  /**
+   * Delete a presence schedule by ID
+   */
+  deleteSchedule(id: string): Promise<DeleteResult>;
+
+  /**
+   * Record that an agent changed state, ending their current period
+   */
+  recordChange(data: RecordPresenceChangeInput): Promise<MutationResult<PresenceChange>>;
+
+  /**
+   * The agent's current (open) period, if any
+   */
+  findCurrent(userId: string): Promise<PresenceChange | null>;
+
+  /**
+   * Every agent's current (open) period
+   */
+  findOpen(): Promise<PresenceChange[]>;
+
+  /**
+   * Note that the agent and their supervisors were alerted about a period's overrun
+   */
+  markOverrunAlerted(id: string, at: string): Promise<MutationResult<void>>;
+
+  /**
+   * Periods overlapping the filter window, newest first
+   */
+  findHistory(filter: PresenceHistoryFilter): Promise<PresenceChange[]>;
+}
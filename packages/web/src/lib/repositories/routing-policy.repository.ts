@@ -14,6 +14,11 @@ import type {
   PaginatedResult,
   MutationResult,
   DeleteResult,
+  PolicyRevision,
+  PolicyRevisionSummary,
+  CreatePolicyRevisionInput,
+  PolicyTemplate,
+  CreatePolicyTemplateInput,
 } from '$lib/domain';
 import type { RepositoryOptions } from './types';
 
@@ -132,4 +137,43 @@ export interface IRoutingPolicyRepository {
    * @returns Map of policyId -> phone numbers
    */
   getPhoneNumberAssignments(policyIds: string[]): Promise<Map<string, string[]>>;
+
+  // =========================================================================
+  // Revision History
+  // =========================================================================
+
+  /**
+   * List saved revisions of a policy, newest first
+   */
+  listRevisions(policyId: string, limit?: number): Promise<PolicyRevisionSummary[]>;
+
+  /**
+   * Get a single revision including its snapshot
+   */
+  getRevision(revisionId: string): Promise<PolicyRevision | null>;
+
+  /**
+   * Record a new revision; the revision number is assigned automatically
+   */
+  createRevision(data: CreatePolicyRevisionInput): Promise<MutationResult<PolicyRevision>>;
+
+  // =========================================================================
+  // Templates
+  // =========================================================================
+
+  /**
+   * List the org's saved sub-flow templates, by name, or null if the org
+   * can't store templates (a package version without the template object)
+   */
+  listTemplates(): Promise<PolicyTemplate[] | null>;
+
+  /**
+   * Save a sub-flow template for everyone in the org
+   */
+  createTemplate(data: CreatePolicyTemplateInput): Promise<MutationResult<PolicyTemplate>>;
+
+  /**
+   * Delete a sub-flow template
+   */
+  deleteTemplate(id: string): Promise<DeleteResult>;
 }
@@ -62,6 +62,11 @@ export interface IUserRepository {
    */
   findById(id: string, options?: RepositoryOptions): Promise<User | null>;
 
+  /**
+   * Find several users by ID in one query; unknown IDs are left out
+   */
+  findByIds(ids: string[]): Promise<User[]>;
+
   /**
    * Find a user by their extension number
    */
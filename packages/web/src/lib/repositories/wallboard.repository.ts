@@ -11,6 +11,11 @@ import type {
   PaginatedResult,
   MutationResult,
   DeleteResult,
+  WallboardAgent,
+  WallboardCall,
+  WallboardCallTotals,
+  WallboardStatsFilter,
+  WallboardTrendBucket,
 } from '$lib/domain';
 
 // =============================================================================
@@ -58,4 +63,28 @@ export interface IWallboardRepository {
    * Toggle wallboard enabled state
    */
   toggleEnabled(id: string): Promise<MutationResult<{ enabled: boolean }>>;
+
+  /**
+   * CTI agents with their current status and the groups they belong to
+   */
+  getAgents(): Promise<WallboardAgent[]>;
+
+  /**
+   * Calls in progress, where the platform tracks them itself. Salesforce
+   * doesn't, so its live calls come from Sapien and this returns none.
+   */
+  getActiveCalls(): Promise<WallboardCall[]>;
+
+  /**
+   * Call-log totals for the filter's time window
+   */
+  getCallTotals(filter: WallboardStatsFilter): Promise<WallboardCallTotals>;
+
+  /**
+   * Trend intervals from `from` up to `to`, from the platform's own call
+   * history, or null when it has none for the filter. Salesforce counts its
+   * call logs, which don't record the queue or agent states, so queue
+   * trends and occupancy come from what the wallboard aggregator records.
+   */
+  getTrendHistory(filter: WallboardStatsFilter, from: Date, to: Date): Promise<WallboardTrendBucket[] | null>;
 }
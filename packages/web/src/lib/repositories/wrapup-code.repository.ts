@@ -0,0 +1,54 @@
+/**
+ * Wrap-up Code Repository Interface
+ * Defines the contract for wrap-up code data access
+ */
+
+import type {
+  WrapupCode,
+  CreateWrapupCodeInput,
+  UpdateWrapupCodeInput,
+  WrapupSettings,
+  MutationResult,
+  DeleteResult,
+} from '$lib/domain';
+
+// =============================================================================
+// Wrap-up Code Repository Interface
+// =============================================================================
+
+export interface IWrapupCodeRepository {
+  /**
+   * Find all wrap-up codes, active or not, sorted by name
+   */
+  findAll(): Promise<WrapupCode[]>;
+
+  /**
+   * Find a single wrap-up code by ID
+   */
+  findById(id: string): Promise<WrapupCode | null>;
+
+  /**
+   * Create a new wrap-up code
+   */
+  create(data: CreateWrapupCodeInput): Promise<MutationResult<WrapupCode>>;
+
+  /**
+   * Update an existing wrap-up code
+   */
+  update(id: string, data: UpdateWrapupCodeInput): Promise<MutationResult<WrapupCode>>;
+
+  /**
+   * Delete a wrap-up code by ID
+   */
+  delete(id: string): Promise<DeleteResult>;
+
+  /**
+   * Get the organization's wrap-up settings
+   */
+  getSettings(): Promise<WrapupSettings>;
+
+  /**
+   * Update the organization's wrap-up settings
+   */
+  updateSettings(settings: WrapupSettings): Promise<MutationResult<WrapupSettings>>;
+}
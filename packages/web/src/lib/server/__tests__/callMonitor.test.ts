@@ -0,0 +1,135 @@
+/**
+ * Tests for supervisor call monitoring
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Repositories } from '$lib/repositories';
+
+vi.mock('../gatekeeper', () => ({
+  getSapienAccessToken: vi.fn(async () => 'sapien-token'),
+  getSapienHost: vi.fn(() => 'https://sapien.example.test/v1'),
+}));
+
+import {
+  auditCallMonitor,
+  buildMonitorChannelVars,
+  canMonitorCalls,
+  describeCallMonitorAudit,
+  isCallMonitorMode,
+  isCallMonitorNonce,
+  startCallMonitor,
+  type CallMonitorAuditEntry,
+} from '../callMonitor';
+
+const entry: CallMonitorAuditEntry = {
+  mode: 'whisper',
+  callId: 'call-1',
+  targetChannelUuid: 'chan-1',
+  supervisorId: 'u1',
+  supervisorName: 'Pat Lead',
+  agentName: 'Sam Agent',
+};
+
+describe('canMonitorCalls', () => {
+  it('should allow Team Leaders and Admins only', () => {
+    expect(canMonitorCalls('Team Leader')).toBe(true);
+    expect(canMonitorCalls('Admin')).toBe(true);
+    expect(canMonitorCalls('Basic')).toBe(false);
+    expect(canMonitorCalls(undefined)).toBe(false);
+  });
+
+  it('should recognise the monitoring modes', () => {
+    expect(isCallMonitorMode('barge')).toBe(true);
+    expect(isCallMonitorMode('spy')).toBe(false);
+  });
+
+  it('should only accept nonces that are safe in a SIP header', () => {
+    expect(isCallMonitorNonce('0f8e4c1a-3b2d-4e5f-9a8b-7c6d5e4f3a2b')).toBe(true);
+    expect(isCallMonitorNonce('short')).toBe(false);
+    expect(isCallMonitorNonce('abcdefghijklmnop\r\nX-Evil: 1')).toBe(false);
+    expect(isCallMonitorNonce(undefined)).toBe(false);
+  });
+});
+
+describe('buildMonitorChannelVars', () => {
+  it('should tag the call and set who hears the supervisor', () => {
+    expect(buildMonitorChannelVars('listen', 'n1')).toEqual({
+      'sip_h_X-Monitor-Mode': 'listen',
+      'sip_h_X-Monitor-Nonce': 'n1',
+    });
+    expect(buildMonitorChannelVars('whisper', 'n1')).toEqual({
+      'sip_h_X-Monitor-Mode': 'whisper',
+      'sip_h_X-Monitor-Nonce': 'n1',
+      eavesdrop_whisper_aleg: 'true',
+    });
+    expect(buildMonitorChannelVars('barge', 'n1')).toMatchObject({
+      eavesdrop_bridge_aleg: 'true',
+      eavesdrop_bridge_bleg: 'true',
+    });
+  });
+});
+
+describe('startCallMonitor', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('should ask Sapien to ring the supervisor onto the channel with the nonce', async () => {
+    const fetchMock = vi.fn(async () => new Response(''));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await startCallMonitor({
+      instanceUrl: 'https://org.my.salesforce.com',
+      accessToken: 'sf-token',
+      organizationId: 42,
+      mode: 'listen',
+      targetChannelUuid: 'chan-1',
+      endpoint: '2001',
+      nonce: 'n1',
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://sapien.example.test/v1/organisation/42/call/channel', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer sapien-token', 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        from: '2001',
+        targetChannelUUID: 'chan-1',
+        channelVars: { 'sip_h_X-Monitor-Mode': 'listen', 'sip_h_X-Monitor-Nonce': 'n1' },
+      }),
+    });
+  });
+});
+
+describe('auditCallMonitor', () => {
+  it('should describe the action and failures', () => {
+    expect(describeCallMonitorAudit(entry)).toBe("Pat Lead whispered on Sam Agent's call");
+    expect(describeCallMonitorAudit({ ...entry, mode: 'barge', agentName: undefined, error: 'No device' })).toBe(
+      'Failed: Pat Lead barged into call call-1 (No device)'
+    );
+  });
+
+  it('should write an event log entry for the supervisor', async () => {
+    const createEventLog = vi.fn(async () => ({ success: true }));
+    const repos = { monitoring: { createEventLog } } as unknown as Repositories;
+
+    await auditCallMonitor(repos, { ...entry, error: 'Busy' });
+
+    expect(createEventLog).toHaveBeenCalledWith({
+      type: 'Call Monitor',
+      message: "Failed: Pat Lead whispered on Sam Agent's call (Busy)",
+      severity: 'warning',
+      source: 'call-status',
+      userId: 'u1',
+      userName: 'Pat Lead',
+      metadata: { mode: 'whisper', callId: 'call-1', targetChannelUuid: 'chan-1' },
+    });
+  });
+
+  it('should not throw when the event log cannot be written', async () => {
+    const repos = {
+      monitoring: { createEventLog: async () => Promise.reject(new Error('down')) },
+    } as unknown as Repositories;
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(auditCallMonitor(repos, entry)).resolves.toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tests for the routing policy save pipeline
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Repositories } from '$lib/repositories';
+import type { SalesforceAdapterContext } from '$lib/adapters';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+
+import { persistPolicy } from '../policies';
+
+describe('persistPolicy', () => {
+  it('should refuse a policy with validation errors before saving anything', async () => {
+    const routingPolicies = { findById: vi.fn(), update: vi.fn(), createRevision: vi.fn() };
+
+    const result = await persistPolicy({
+      policyData: {
+        Id: 'p1',
+        Id__c: null,
+        Name: 'Support',
+        Description__c: '',
+        Type__c: 'POLICY_TYPE_CALL',
+        nodes: [],
+        edges: [],
+      },
+      policyId: 'p1',
+      repos: { routingPolicies } as unknown as Repositories,
+      ctx: {} as SalesforceAdapterContext,
+      locals: {} as App.Locals,
+    });
+
+    expect(result).toMatchObject({ success: false, diagnostics: [expect.objectContaining({ rule: 'no-nodes' })] });
+    expect(routingPolicies.update).not.toHaveBeenCalled();
+    expect(routingPolicies.createRevision).not.toHaveBeenCalled();
+  });
+});
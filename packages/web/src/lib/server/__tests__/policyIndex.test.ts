@@ -0,0 +1,160 @@
+/**
+ * Tests for the routing policy usage index
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RoutingPolicy } from '$lib/domain';
+import type { Repositories } from '$lib/repositories';
+import type { SalesforceAdapterContext } from '$lib/adapters';
+
+vi.mock('../policies', () => ({
+  persistPolicy: vi.fn(async () => ({ success: true, natterboxId: 1, savedToSapien: false, eventsSynced: false })),
+}));
+
+import { persistPolicy } from '../policies';
+import { validatePolicyGraph, type PolicyValidationInput } from '$lib/policy-editor/policyValidator';
+import { loadPolicyIndex, searchPolicyIndex, listIndexedValues, replaceInPolicies } from '../policyIndex';
+
+function legacyBody(groupId: string, phrase: string) {
+  return JSON.stringify({
+    nodes: [
+      {
+        id: 'inbound',
+        templateId: 1,
+        templateClass: 'ModNumber',
+        name: 'Inbound',
+        outputs: [{ id: 'out-inbound', name: 'Number', templateClass: 'ModNumber' }],
+      },
+      {
+        id: 'action-node',
+        templateId: 5,
+        templateClass: 'ModAction',
+        name: 'Route',
+        outputs: [
+          {
+            id: 'out-connect',
+            name: 'Connect',
+            templateClass: 'ModConnect',
+            config: { connectAction: { first: { method: 'GROUP', target: groupId } } },
+          },
+          { id: 'out-say', name: 'Greeting', templateClass: 'ModAction_Say', variables: { sayPhrase: phrase } },
+        ],
+      },
+    ],
+    connections: [
+      { source: { nodeID: 'inbound', id: 'out-inbound' }, dest: { nodeID: 'action-node', id: 'action-node' } },
+    ],
+  });
+}
+
+function policy(id: string, name: string, body: string, lastModifiedDate = '2024-01-01T00:00:00.000Z') {
+  return { id, name, description: '', type: 'Call', lastModifiedDate, lastModifiedByName: 'Ann', body } as RoutingPolicy;
+}
+
+function fakeRepos(policies: RoutingPolicy[]) {
+  const routingPolicies = {
+    findAll: vi.fn(async () => ({ items: policies })),
+    findById: vi.fn(async (id: string) => policies.find((p) => p.id === id) ?? null),
+  };
+  return { repos: { routingPolicies } as unknown as Repositories, routingPolicies };
+}
+
+describe('Policy usage index', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should find the policies that use a value', async () => {
+    const { repos } = fakeRepos([
+      policy('p1', 'Support', legacyBody('101', 'Welcome to support')),
+      policy('p2', 'Sales', legacyBody('102', 'Welcome to sales')),
+      policy('p3', 'Broken', '{not json'),
+    ]);
+
+    const index = await loadPolicyIndex(repos, 'org-search');
+
+    expect(index.map((e) => e.policyId)).toEqual(['p1', 'p2']);
+    expect(searchPolicyIndex(index, { kind: 'group', value: '102' }).map((r) => r.policyName)).toEqual(['Sales']);
+    expect(searchPolicyIndex(index, { kind: 'text', value: 'welcome' }).map((r) => r.policyName)).toEqual([
+      'Sales',
+      'Support',
+    ]);
+    expect(listIndexedValues(index)).toEqual([
+      { kind: 'group', value: '101', policyCount: 1 },
+      { kind: 'group', value: '102', policyCount: 1 },
+    ]);
+  });
+
+  it('should only re-parse policies that changed', async () => {
+    const policies = [policy('p1', 'Support', legacyBody('101', 'Hello'))];
+    const { repos } = fakeRepos(policies);
+
+    const [first] = await loadPolicyIndex(repos, 'org-cache');
+    const [unchanged] = await loadPolicyIndex(repos, 'org-cache');
+    policies[0] = policy('p1', 'Support', legacyBody('103', 'Hello'), '2024-02-01T00:00:00.000Z');
+    const [changed] = await loadPolicyIndex(repos, 'org-cache');
+
+    expect(unchanged).toBe(first);
+    expect(changed).not.toBe(first);
+    expect(searchPolicyIndex([changed!], { kind: 'group', value: '103' })).toHaveLength(1);
+  });
+
+  it('should save only the policies where the value was replaced', async () => {
+    const { repos } = fakeRepos([
+      policy('p1', 'Support', legacyBody('101', 'Hello')),
+      policy('p2', 'Sales', legacyBody('102', 'Hello')),
+    ]);
+
+    const results = await replaceInPolicies({
+      policyIds: ['p1', 'p2', 'missing'],
+      query: { kind: 'group', value: '101' },
+      replacement: { value: '105', name: 'Escalations' },
+      repos,
+      ctx: {} as SalesforceAdapterContext,
+      locals: {} as App.Locals,
+    });
+
+    expect(results).toEqual([
+      { policyId: 'p1', policyName: 'Support', replaced: 1 },
+      { policyId: 'p2', policyName: 'Sales', replaced: 0 },
+      { policyId: 'missing', policyName: 'missing', replaced: 0, error: 'Policy not found' },
+    ]);
+    expect(persistPolicy).toHaveBeenCalledTimes(1);
+
+    const saved = vi.mocked(persistPolicy).mock.calls[0]![0];
+    expect(saved.comment).toBe('Replaced group "101" with "Escalations"');
+    expect(JSON.stringify(saved.policyData.nodes)).toContain('"target":"105"');
+  });
+
+  it('should not save policies that changed since the search or that the replacement leaves invalid', async () => {
+    const { repos } = fakeRepos([
+      policy('p1', 'Support', legacyBody('101', 'Hello')),
+      policy('p2', 'Sales', legacyBody('101', 'Hello'), '2024-03-01T00:00:00.000Z'),
+    ]);
+    const args = { repos, ctx: {} as SalesforceAdapterContext, locals: {} as App.Locals };
+
+    const [changed] = await replaceInPolicies({
+      ...args,
+      policyIds: ['p2'],
+      versions: { p2: '2024-01-01T00:00:00.000Z' },
+      query: { kind: 'group', value: '101' },
+      replacement: { value: '105' },
+    });
+    expect(changed).toMatchObject({ policyId: 'p2', replaced: 0, error: expect.stringContaining('Ann') });
+
+    // persistPolicy refuses policies with validation errors
+    vi.mocked(persistPolicy).mockImplementationOnce(async ({ policyData }) => {
+      const validation = validatePolicyGraph(policyData as PolicyValidationInput);
+      return { success: false, error: 'Policy has validation errors', diagnostics: validation.diagnostics };
+    });
+    const [invalid] = await replaceInPolicies({
+      ...args,
+      policyIds: ['p1'],
+      query: { kind: 'text', value: 'Hello' },
+      replacement: { value: '' },
+    });
+    expect(invalid).toMatchObject({ policyId: 'p1', replaced: 0, error: expect.stringContaining('Not saved') });
+    expect(invalid?.diagnostics).toContainEqual(expect.objectContaining({ rule: 'speak-empty-text' }));
+    expect(persistPolicy).toHaveBeenCalledTimes(1);
+  });
+});
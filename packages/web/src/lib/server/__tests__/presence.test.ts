@@ -0,0 +1,63 @@
+/**
+ * Tests for policy editor presence
+ */
+
+import { describe, it, expect } from 'vitest';
+import { recordPresence, clearPresence, PRESENCE_TTL_MS } from '../presence';
+
+const start = Date.parse('2024-01-01T09:00:00.000Z');
+
+function beat(policyId: string, sessionId: string, userName: string, now: number, editing = false) {
+  return recordPresence({
+    organizationId: 'org-1',
+    policyId,
+    sessionId,
+    userId: `user-${userName}`,
+    userName,
+    editing,
+    now,
+  });
+}
+
+describe('Policy editor presence', () => {
+  it('should list other sessions on the same policy, oldest first', () => {
+    expect(beat('p1', 's1', 'Ann', start)).toEqual([]);
+    beat('p1', 's2', 'Bob', start + 1000, true);
+    beat('p2', 's3', 'Cat', start + 1000);
+
+    const others = beat('p1', 's1', 'Ann', start + 2000);
+
+    expect(others).toEqual([
+      {
+        userId: 'user-Bob',
+        userName: 'Bob',
+        editing: true,
+        openedAt: new Date(start + 1000).toISOString(),
+        lastSeenAt: new Date(start + 1000).toISOString(),
+      },
+    ]);
+  });
+
+  it('should keep the original open time across heartbeats', () => {
+    beat('p3', 's1', 'Ann', start);
+    beat('p3', 's1', 'Ann', start + 5000);
+
+    const [ann] = beat('p3', 's2', 'Bob', start + 6000);
+
+    expect(ann?.openedAt).toBe(new Date(start).toISOString());
+    expect(ann?.lastSeenAt).toBe(new Date(start + 5000).toISOString());
+  });
+
+  it('should drop sessions that stop sending heartbeats', () => {
+    beat('p4', 's1', 'Ann', start);
+
+    expect(beat('p4', 's2', 'Bob', start + PRESENCE_TTL_MS + 1)).toEqual([]);
+  });
+
+  it('should drop sessions that close the editor', () => {
+    beat('p5', 's1', 'Ann', start);
+    clearPresence('org-1', 'p5', 's1');
+
+    expect(beat('p5', 's2', 'Bob', start + 1000)).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for server-side presence schedules and overrun alerts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Repositories } from '$lib/repositories';
+import type {
+  PresenceChange,
+  PresenceSchedule,
+  PresenceState,
+  RecordPresenceChangeInput,
+} from '$lib/domain';
+import { alertPresenceOverruns, applyPresenceSchedules } from '../presenceSchedules';
+
+const available: PresenceState = {
+  id: 'ps-available',
+  name: 'Available',
+  availability: 'AVAILABLE',
+  reasonCodes: [],
+  maxDurationMinutes: null,
+  active: true,
+  lastModified: '2026-01-01T00:00:00Z',
+};
+
+const lunch: PresenceState = {
+  ...available,
+  id: 'ps-break',
+  name: 'Break',
+  availability: 'ON_BREAK',
+  reasonCodes: ['Lunch'],
+  maxDurationMinutes: 30,
+};
+
+// Weekdays at 12:30 London time (UTC in January), for group g1
+const schedule: PresenceSchedule = {
+  id: 'sch-1',
+  name: 'Team',
+  userIds: [],
+  groupIds: ['g1'],
+  timezone: 'Europe/London',
+  entries: [{ days: [1, 2, 3, 4, 5], time: '12:30', stateId: lunch.id, reasonCode: 'Lunch' }],
+  active: true,
+  lastModified: '2026-01-01T00:00:00Z',
+};
+
+function change(overrides: Partial<PresenceChange>): PresenceChange {
+  return {
+    id: 'pc-1',
+    userId: 'u1',
+    userName: 'Agent One',
+    stateId: available.id,
+    stateName: available.name,
+    availability: 'AVAILABLE',
+    reasonCode: null,
+    source: 'agent',
+    startedAt: '2026-01-14T09:00:00Z',
+    endedAt: null,
+    overrunAlertedAt: null,
+    ...overrides,
+  };
+}
+
+const users = [
+  { id: 'u1', name: 'Agent One', email: 'agent@example.com', licenses: { manager: false } },
+  { id: 'u2', name: 'Team Lead', email: 'lead@example.com', licenses: { manager: true } },
+  { id: 'u3', name: 'Agent Three', email: 'three@example.com', licenses: { manager: false } },
+];
+
+const memberships = [
+  { id: 'm1', groupId: 'g1', groupName: 'Sales', userId: 'u1', userName: 'Agent One' },
+  { id: 'm2', groupId: 'g1', groupName: 'Sales', userId: 'u2', userName: 'Team Lead' },
+  { id: 'm3', groupId: 'g2', groupName: 'Support', userId: 'u3', userName: 'Agent Three' },
+];
+
+function fakeRepos(current: PresenceChange[]) {
+  const recorded: RecordPresenceChangeInput[] = [];
+  const sendEmail = vi.fn(async () => ({ success: true }));
+  const markOverrunAlerted = vi.fn(async () => ({ success: true }));
+  const findMemberships = vi.fn(async (filter: { groupIds?: string[]; userIds?: string[] }) =>
+    memberships.filter(
+      (m) =>
+        (!filter.groupIds || filter.groupIds.includes(m.groupId)) &&
+        (!filter.userIds || filter.userIds.includes(m.userId))
+    )
+  );
+  const findByIds = vi.fn(async (ids: string[]) => users.filter((u) => ids.includes(u.id)));
+
+  const repos = {
+    presence: {
+      findStates: async () => [available, lunch],
+      findSchedules: async () => [schedule],
+      findOpen: async () => current,
+      recordChange: async (data: RecordPresenceChangeInput) => {
+        recorded.push(data);
+        return { success: true, data: change({ ...data, id: 'pc-new', reasonCode: data.reasonCode ?? null }) };
+      },
+      markOverrunAlerted,
+    },
+    groups: {
+      findMemberships,
+    },
+    users: {
+      findByIds,
+    },
+    notifications: { sendEmail },
+  } as unknown as Repositories;
+
+  return { repos, recorded, sendEmail, markOverrunAlerted, findMemberships, findByIds };
+}
+
+describe('applyPresenceSchedules', () => {
+  it('moves group members into a state once the entry falls due', async () => {
+    const { repos, recorded } = fakeRepos([
+      change({}),
+      change({ id: 'pc-2', userId: 'u2', userName: 'Team Lead' }),
+    ]);
+
+    expect((await applyPresenceSchedules(repos, new Date('2026-01-14T12:29:00Z'))).applied).toBe(0);
+    const result = await applyPresenceSchedules(repos, new Date('2026-01-14T12:31:00Z'));
+
+    expect(result).toEqual({ applied: 2, alerted: 0, failed: 0 });
+    expect(recorded[0]).toMatchObject({
+      userId: 'u1',
+      userName: 'Agent One',
+      stateId: lunch.id,
+      reasonCode: 'Lunch',
+      source: 'schedule',
+      at: '2026-01-14T12:30:00.000Z',
+    });
+  });
+
+  it('leaves agents who changed state after the entry fell due', async () => {
+    const { repos, recorded } = fakeRepos([
+      change({ startedAt: '2026-01-14T12:35:00Z' }),
+      change({ id: 'pc-2', userId: 'u2', stateId: lunch.id, startedAt: '2026-01-14T12:30:00Z' }),
+    ]);
+
+    await applyPresenceSchedules(repos, new Date('2026-01-14T12:40:00Z'));
+    expect(recorded).toEqual([]);
+  });
+});
+
+describe('alertPresenceOverruns', () => {
+  const overrunning = change({ stateId: lunch.id, stateName: lunch.name, startedAt: '2026-01-14T12:30:00Z' });
+
+  it('emails the agent and their group managers once per period', async () => {
+    const { repos, sendEmail, markOverrunAlerted } = fakeRepos([overrunning]);
+
+    expect((await alertPresenceOverruns(repos, new Date('2026-01-14T12:55:00Z'))).alerted).toBe(0);
+    const result = await alertPresenceOverruns(repos, new Date('2026-01-14T13:05:00Z'));
+
+    expect(result).toEqual({ applied: 0, alerted: 1, failed: 0 });
+    expect(sendEmail).toHaveBeenCalledWith(
+      ['agent@example.com', 'lead@example.com'],
+      'Agent One has been in Break for over 30 minutes',
+      expect.stringContaining('exceeded by 5 minutes')
+    );
+    expect(markOverrunAlerted).toHaveBeenCalledWith('pc-1', '2026-01-14T13:05:00.000Z');
+  });
+
+  it('looks up memberships and users once per run, not per agent', async () => {
+    const { repos, sendEmail, findMemberships, findByIds } = fakeRepos([
+      overrunning,
+      { ...overrunning, id: 'pc-3', userId: 'u3', userName: 'Agent Three' },
+    ]);
+
+    const result = await alertPresenceOverruns(repos, new Date('2026-01-14T13:05:00Z'));
+
+    expect(result.alerted).toBe(2);
+    expect(findMemberships).toHaveBeenCalledTimes(2);
+    expect(findByIds).toHaveBeenCalledTimes(1);
+    expect(sendEmail).toHaveBeenCalledWith(
+      ['three@example.com'],
+      'Agent Three has been in Break for over 30 minutes',
+      expect.any(String)
+    );
+  });
+
+  it('skips periods already reported', async () => {
+    const { repos, sendEmail } = fakeRepos([
+      { ...overrunning, overrunAlertedAt: '2026-01-14T13:01:00Z' },
+    ]);
+
+    await alertPresenceOverruns(repos, new Date('2026-01-14T13:05:00Z'));
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('retries on the next run when the email fails', async () => {
+    const { repos, sendEmail, markOverrunAlerted } = fakeRepos([overrunning]);
+    sendEmail.mockResolvedValueOnce({ success: false, error: 'No sender' } as never);
+
+    const result = await alertPresenceOverruns(repos, new Date('2026-01-14T13:05:00Z'));
+    expect(result.failed).toBe(1);
+    expect(markOverrunAlerted).not.toHaveBeenCalled();
+  });
+});
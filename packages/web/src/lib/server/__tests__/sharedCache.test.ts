@@ -0,0 +1,77 @@
+/**
+ * Tests for the shared cache
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MemorySharedCache, RestSharedCache } from '../sharedCache';
+
+describe('MemorySharedCache', () => {
+  it('expires values and lets one caller claim a key at a time', async () => {
+    let now = 0;
+    const cache = new MemorySharedCache(() => now);
+
+    await cache.set('k', { calls: 2 }, 1_000);
+    expect(await cache.get('k')).toEqual({ calls: 2 });
+    expect(await cache.claim('lock', 500)).toBe(true);
+    expect(await cache.claim('lock', 500)).toBe(false);
+
+    now = 1_000;
+    expect(await cache.get('k')).toBeNull();
+    expect(await cache.claim('lock', 500)).toBe(true);
+  });
+
+  it('sweeps expired entries that are never read again', async () => {
+    let now = 0;
+    const cache = new MemorySharedCache(() => now);
+
+    await cache.set('a', 1, 1_000);
+    await cache.set('b', 2, 120_000);
+    expect(cache.size).toBe(2);
+
+    now = 60_000;
+    await cache.set('c', 3, 1_000);
+    expect(cache.size).toBe(2);
+    expect(await cache.get('b')).toBe(2);
+  });
+});
+
+describe('RestSharedCache', () => {
+  function restFetch(result: unknown, ok = true) {
+    return vi.fn(
+      async (_url: string | URL | Request, _init?: RequestInit) =>
+        new Response(JSON.stringify(ok ? { result } : { error: 'ERR wrong' }), {
+          status: ok ? 200 : 400,
+        })
+    );
+  }
+
+  it('sends Redis commands to the REST endpoint', async () => {
+    const fetchFn = restFetch('OK');
+    const cache = new RestSharedCache('https://kv.example.com', 'secret', fetchFn);
+
+    await cache.set('k', { calls: 2 }, 1_500);
+    expect(await cache.claim('lock', 500)).toBe(true);
+
+    const [url, init] = fetchFn.mock.calls[0]!;
+    expect(url).toBe('https://kv.example.com');
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(init?.body as string)).toEqual(['SET', 'k', '{"calls":2}', 'PX', 1500]);
+    expect(JSON.parse(fetchFn.mock.calls[1]![1]?.body as string)).toEqual([
+      'SET',
+      'lock',
+      '1',
+      'NX',
+      'PX',
+      500,
+    ]);
+  });
+
+  it('reads JSON values and fails on store errors', async () => {
+    expect(await new RestSharedCache('u', 't', restFetch('{"a":1}')).get('k')).toEqual({ a: 1 });
+    expect(await new RestSharedCache('u', 't', restFetch(null)).get('k')).toBeNull();
+    expect(await new RestSharedCache('u', 't', restFetch(null)).claim('k', 1)).toBe(false);
+    await expect(new RestSharedCache('u', 't', restFetch(null, false)).get('k')).rejects.toThrow(
+      'ERR wrong'
+    );
+  });
+});
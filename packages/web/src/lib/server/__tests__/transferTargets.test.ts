@@ -0,0 +1,59 @@
+/**
+ * Tests for webphone transfer target search
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Repositories } from '$lib/repositories';
+import { matchesTransferTarget, searchTransferTargets } from '../transferTargets';
+
+function page<T>(items: T[]) {
+  return { items, pagination: { page: 1, pageSize: items.length, totalItems: items.length, totalPages: 1 } };
+}
+
+// Repositories that ignore `search`, like the Salesforce adapter
+const repos = {
+  users: {
+    findAll: async () =>
+      page([
+        { id: 'u1', name: 'Sam Taylor', extension: '2001', enabled: true },
+        { id: 'u2', name: 'Alex Sales', extension: '2002', enabled: true },
+        { id: 'u3', name: 'Sally Old', extension: '2003', enabled: false },
+        { id: 'u4', name: 'Sabrina No Extension', extension: '', enabled: true },
+      ]),
+  },
+  groups: {
+    findAll: async () => page([{ id: 'g1', name: 'Sales', extension: '3000' }]),
+  },
+  phoneNumbers: {
+    findAll: async () => page([{ id: 'p1', name: '', number: '+442079460000' }]),
+  },
+} as unknown as Repositories;
+
+describe('searchTransferTargets', () => {
+  it('should match names and rank prefix matches first', async () => {
+    const targets = await searchTransferTargets(repos, 'sa');
+
+    expect(targets.map((t) => t.id)).toEqual(['u1', 'g1', 'u2']);
+    expect(targets[1]).toEqual({ kind: 'group', id: 'g1', name: 'Sales', destination: '3000' });
+  });
+
+  it('should leave out disabled users and targets without an extension', async () => {
+    const ids = (await searchTransferTargets(repos, '')).map((t) => t.id);
+
+    expect(ids).toEqual(['u2', 'u1', 'g1', 'p1']);
+  });
+
+  it('should respect the limit', async () => {
+    expect(await searchTransferTargets(repos, '', 2)).toHaveLength(2);
+  });
+});
+
+describe('matchesTransferTarget', () => {
+  it('should match numbers ignoring spaces and punctuation', () => {
+    const target = { kind: 'phoneNumber' as const, id: 'p1', name: '+442079460000', destination: '+442079460000' };
+
+    expect(matchesTransferTarget(target, '020 7946')).toBe(false);
+    expect(matchesTransferTarget(target, '2079 460')).toBe(true);
+    expect(matchesTransferTarget(target, '(207) 946-0000')).toBe(true);
+  });
+});
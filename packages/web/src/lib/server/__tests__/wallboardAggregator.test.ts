@@ -0,0 +1,219 @@
+/**
+ * Tests for the per-org wallboard stats aggregator
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { WallboardAgent, WallboardCall, WallboardStatsFilter } from '$lib/domain';
+import {
+  WallboardAggregator,
+  type WallboardEventHandlers,
+  type WallboardStatsSource,
+} from '../wallboardAggregator';
+import { MemorySharedCache } from '../sharedCache';
+
+const ALL: WallboardStatsFilter = { queue: null, groupId: null, window: 'today' };
+const SALES: WallboardStatsFilter = { queue: 'Sales', groupId: 'g1', window: 'today' };
+
+function call(id: string, changes: Partial<WallboardCall> = {}): WallboardCall {
+  return {
+    id,
+    direction: 'inbound',
+    waiting: false,
+    startedAt: new Date().toISOString(),
+    queue: 'Sales',
+    ...changes,
+  };
+}
+
+function agent(
+  platformId: number,
+  status: WallboardAgent['status'],
+  groupIds = ['g1']
+): WallboardAgent {
+  return { id: `a${platformId}`, platformId, status, groupIds };
+}
+
+function fakeSource(calls: WallboardCall[], agents: WallboardAgent[], withEvents = true) {
+  let handlers: WallboardEventHandlers | null = null;
+  const stop = vi.fn();
+  const source = {
+    loadCalls: vi.fn(async () => calls),
+    loadAgents: vi.fn(async () => agents),
+    loadCallTotals: vi.fn(async () => ({ totalCalls: 40, avgCallDuration: 180, serviceLevel: 90 })),
+    ...(withEvents && {
+      listen: (h: WallboardEventHandlers) => {
+        handlers = h;
+        return stop;
+      },
+    }),
+  } satisfies WallboardStatsSource;
+  return { source, stop, events: () => handlers };
+}
+
+describe('WallboardAggregator', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse('2024-01-01T09:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('builds stats for each filter from one load of calls and agents', async () => {
+    const { source } = fakeSource(
+      [
+        call('c1', { waiting: true, startedAt: '2024-01-01T08:59:30.000Z' }),
+        call('c2', { queue: 'Support', direction: 'outbound' }),
+      ],
+      [agent(1, 'available'), agent(2, 'busy', ['g2'])]
+    );
+    const aggregator = new WallboardAggregator(source);
+
+    const [all, sales] = await Promise.all([aggregator.snapshot(ALL), aggregator.snapshot(SALES)]);
+
+    expect(all).toMatchObject({
+      activeCalls: 2,
+      callsWaiting: 1,
+      longestWait: 30,
+      agentsAvailable: 1,
+      agentsBusy: 1,
+      totalCallsToday: 40,
+      callsByQueue: [
+        { name: 'Sales', count: 1 },
+        { name: 'Support', count: 1 },
+      ],
+      callsByDirection: { inbound: 1, outbound: 1, internal: 0 },
+    });
+    expect(sales).toMatchObject({ activeCalls: 1, agentsAvailable: 1, agentsBusy: 0 });
+    expect(source.loadCalls).toHaveBeenCalledOnce();
+    expect(source.loadAgents).toHaveBeenCalledOnce();
+  });
+
+  it('sends subscribers only the fields that events change', async () => {
+    const { source, events } = fakeSource([call('c1')], [agent(1, 'available')]);
+    const aggregator = new WallboardAggregator(source, { tickMs: 1000 });
+    const listener = vi.fn();
+
+    const { stats } = await aggregator.subscribe(SALES, listener);
+    expect(stats).toMatchObject({ activeCalls: 1, agentsAvailable: 1 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(listener).not.toHaveBeenCalled();
+
+    events()?.call({
+      call: {
+        id: 'c2',
+        direction: 'inbound',
+        waiting: true,
+        startedAt: new Date().toISOString(),
+        queue: 'Sales',
+      },
+      ended: false,
+    });
+    events()?.agent({ platformId: 1, status: 'busy' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener.mock.calls[0]?.[0]).toEqual({
+      activeCalls: 2,
+      callsWaiting: 1,
+      agentsAvailable: 0,
+      agentsBusy: 1,
+      avgWaitTime: 1,
+      longestWait: 1,
+      callsByQueue: [{ name: 'Sales', count: 2 }],
+      callsByDirection: { inbound: 2, outbound: 0, internal: 0 },
+      timestamp: new Date().toISOString(),
+    });
+
+    // An answered call keeps the queue it was seen in, then leaves when it ends
+    events()?.call({
+      call: { id: 'c2', direction: 'inbound', waiting: false, startedAt: new Date().toISOString() },
+      ended: false,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(listener.mock.calls[1]?.[0]).toMatchObject({ callsWaiting: 0 });
+
+    events()?.call({
+      call: { id: 'c2', direction: 'inbound', waiting: false, startedAt: new Date().toISOString() },
+      ended: true,
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(listener.mock.calls[2]?.[0]).toMatchObject({
+      activeCalls: 1,
+      callsByQueue: [{ name: 'Sales', count: 1 }],
+    });
+  });
+
+  it('reloads calls and agents on an interval when the source has no events', async () => {
+    const calls = [call('c1')];
+    const { source } = fakeSource(calls, [], false);
+    const aggregator = new WallboardAggregator(source, { tickMs: 1000, pollMs: 5000 });
+    const listener = vi.fn();
+
+    await aggregator.subscribe(ALL, listener);
+    calls.push(call('c2'));
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(listener).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(source.loadCalls).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ activeCalls: 2 }));
+  });
+
+  it('reloads after a resync and stops listening when the last subscriber leaves', async () => {
+    const { source, stop, events } = fakeSource([], []);
+    const aggregator = new WallboardAggregator(source, { tickMs: 1000 });
+
+    const first = await aggregator.subscribe(ALL, vi.fn());
+    const second = await aggregator.subscribe(SALES, vi.fn());
+    expect(source.loadCalls).toHaveBeenCalledOnce();
+
+    events()?.resync();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(source.loadCalls).toHaveBeenCalledTimes(2);
+
+    first.unsubscribe();
+    expect(stop).not.toHaveBeenCalled();
+    second.unsubscribe();
+    expect(stop).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(source.loadCalls).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares polled calls, agents and totals with the org\'s other aggregators', async () => {
+    const cache = new MemorySharedCache();
+    const first = fakeSource([call('c1')], [agent(1, 'available')], false);
+    const second = fakeSource([], [], false);
+    const options = { pollMs: 10_000, shared: { cache, key: 'wallboards:org' } };
+
+    await new WallboardAggregator(first.source, options).snapshot(ALL);
+    const stats = await new WallboardAggregator(second.source, options).snapshot(ALL);
+
+    expect(stats.activeCalls).toBe(1);
+    expect(stats.agentsAvailable).toBe(1);
+    expect(stats.totalCallsToday).toBe(40);
+    expect(second.source.loadCalls).not.toHaveBeenCalled();
+    expect(second.source.loadCallTotals).not.toHaveBeenCalled();
+
+    // Once the shared copy is stale, the next aggregator to look reloads it
+    vi.setSystemTime(Date.now() + 10_000);
+    await new WallboardAggregator(second.source, options).snapshot(ALL);
+    expect(second.source.loadCalls).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the last call totals when they fail to refresh', async () => {
+    const { source } = fakeSource([], []);
+    const aggregator = new WallboardAggregator(source, { totalsMs: 60_000 });
+
+    expect((await aggregator.snapshot(ALL)).totalCallsToday).toBe(40);
+    source.loadCallTotals.mockRejectedValueOnce(new Error('SOQL timeout'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.setSystemTime(Date.now() + 60_000);
+
+    expect((await aggregator.snapshot(ALL)).totalCallsToday).toBe(40);
+    expect(source.loadCallTotals).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Tests for wallboard alert notifications
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DEFAULT_WALLBOARD_STATS_FILTER, type Wallboard, type WallboardStats } from '$lib/domain';
+import {
+  createWallboardAlertRule,
+  createWallboardLayout,
+  emptyWallboardStats,
+} from '$lib/wallboard';
+import { MemorySharedCache } from '../sharedCache';
+import {
+  WallboardAlertMonitor,
+  checkWallboardAlerts,
+  createWallboardAlertNotifier,
+  type WallboardAlertNotification,
+} from '../wallboardAlerts';
+
+const wallboard: Wallboard = {
+  id: 'wb1',
+  name: 'Sales floor',
+  description: '',
+  type: 'queue',
+  enabled: true,
+  shares: [],
+  unreadableConfiguration: false,
+  lastModified: '2024-01-01T00:00:00.000Z',
+  layout: {
+    ...createWallboardLayout(),
+    alerts: {
+      rules: [
+        {
+          ...createWallboardAlertRule('r1', 'longestWait'),
+          amber: 60,
+          red: 120,
+          notifyAfterSeconds: 30,
+        },
+      ],
+      webhookUrl: 'https://hooks.example.com/wallboards',
+      emails: ['floor@example.com'],
+    },
+  },
+};
+
+function stats(longestWait: number): WallboardStats {
+  return { ...emptyWallboardStats(), longestWait };
+}
+
+describe('WallboardAlertMonitor', () => {
+  it('notifies once a breach has held, again when it turns red, and again after it clears', async () => {
+    const notify = vi.fn(async (_: WallboardAlertNotification) => {});
+    const monitor = new WallboardAlertMonitor(wallboard, notify);
+    const filter = DEFAULT_WALLBOARD_STATS_FILTER;
+    expect(monitor.filters()).toEqual([filter]);
+
+    monitor.update(filter, stats(90));
+    await monitor.check(0);
+    await monitor.check(29_000);
+    expect(notify).not.toHaveBeenCalled();
+
+    await monitor.check(30_000);
+    await monitor.check(31_000);
+    expect(notify).toHaveBeenCalledOnce();
+    expect(notify.mock.calls[0]?.[0]).toMatchObject({
+      level: 'amber',
+      since: new Date(0).toISOString(),
+      message: 'Longest wait is 1m 30s',
+    });
+
+    // Red has to hold for the rule's 30 seconds too
+    monitor.update(filter, stats(150));
+    await monitor.check(40_000);
+    await monitor.check(70_000);
+    expect(notify.mock.calls.map(([n]) => n.level)).toEqual(['amber', 'red']);
+
+    monitor.update(filter, stats(10));
+    await monitor.check(71_000);
+    monitor.update(filter, stats(90));
+    await monitor.check(72_000);
+    await monitor.check(102_000);
+    expect(notify.mock.calls.map(([n]) => n.level)).toEqual(['amber', 'red', 'amber']);
+  });
+});
+
+describe('createWallboardAlertNotifier', () => {
+  it('posts to the webhook and emails the recipients', async () => {
+    const webhook = vi.fn(async (_url: string, _body: unknown) => {});
+    const sendEmail = vi.fn(async () => {});
+    const notify = createWallboardAlertNotifier(wallboard.layout.alerts, sendEmail, webhook);
+    const rule = wallboard.layout.alerts.rules[0];
+    if (!rule) throw new Error('rule missing');
+
+    await notify({
+      wallboard,
+      breach: { rule, level: 'red', value: 150, queue: null },
+      level: 'red',
+      filter: { queue: 'Sales', groupId: null, window: 'today' },
+      since: '2024-01-01T09:00:00.000Z',
+      message: 'Longest wait is 2m 30s',
+    });
+
+    expect(webhook).toHaveBeenCalledWith('https://hooks.example.com/wallboards', expect.anything());
+    expect(webhook.mock.calls[0]?.[1]).toMatchObject({
+      wallboardId: 'wb1',
+      level: 'red',
+      value: 150,
+      threshold: 120,
+    });
+    expect(sendEmail).toHaveBeenCalledWith(
+      ['floor@example.com'],
+      '[Red] Sales floor: Longest wait is 2m 30s',
+      expect.stringContaining('(queue Sales)')
+    );
+  });
+
+  it('still emails when the webhook fails, then reports the failure', async () => {
+    const sendEmail = vi.fn(async () => {});
+    const notify = createWallboardAlertNotifier(
+      wallboard.layout.alerts,
+      sendEmail,
+      vi.fn(async () => {
+        throw new Error('Alert webhook failed (500)');
+      })
+    );
+    const rule = wallboard.layout.alerts.rules[0];
+    if (!rule) throw new Error('rule missing');
+
+    await expect(
+      notify({
+        wallboard,
+        breach: { rule, level: 'amber', value: 90, queue: null },
+        level: 'amber',
+        filter: DEFAULT_WALLBOARD_STATS_FILTER,
+        since: '2024-01-01T09:00:00.000Z',
+        message: 'Longest wait is 1m 30s',
+      })
+    ).rejects.toThrow('Alert webhook failed (500)');
+    expect(sendEmail).toHaveBeenCalledOnce();
+  });
+});
+
+describe('checkWallboardAlerts', () => {
+  function setup() {
+    let clock = 0;
+    const cache = new MemorySharedCache(() => clock);
+    const notify = vi.fn(async (_: WallboardAlertNotification) => {});
+    const snapshot = vi.fn(async () => stats(90));
+    // Runs a minute apart, as the scheduler calls them
+    const run = (minute: number) => {
+      clock = minute * 60_000;
+      return checkWallboardAlerts(
+        [wallboard],
+        snapshot,
+        () => notify,
+        { cache, key: 'wallboard-alerts:org' },
+        clock
+      );
+    };
+    return { cache, notify, snapshot, run };
+  }
+
+  it('carries breaches from one check to the next', async () => {
+    const { notify, run } = setup();
+
+    expect(await run(0)).toEqual({ checked: 1, notified: 0, failed: 0 });
+    expect(await run(1)).toEqual({ checked: 1, notified: 1, failed: 0 });
+    expect(await run(2)).toEqual({ checked: 1, notified: 0, failed: 0 });
+    expect(notify.mock.calls[0]?.[0]).toMatchObject({
+      level: 'amber',
+      since: new Date(0).toISOString(),
+    });
+  });
+
+  it('sends a failed notification again on the next check', async () => {
+    const { notify, run } = setup();
+    notify.mockRejectedValueOnce(new Error('Alert webhook failed (500)'));
+
+    await run(0);
+    expect(await run(1)).toEqual({ checked: 1, notified: 0, failed: 1 });
+    expect(await run(2)).toEqual({ checked: 1, notified: 1, failed: 0 });
+  });
+
+  it('skips wallboards that are disabled and a check that overlaps another', async () => {
+    const { cache, snapshot, run } = setup();
+
+    await run(0);
+    const overlapping = await checkWallboardAlerts([wallboard], snapshot, vi.fn(), {
+      cache,
+      key: 'wallboard-alerts:org',
+    });
+    expect(overlapping.checked).toBe(0);
+
+    const disabled = await checkWallboardAlerts(
+      [{ ...wallboard, enabled: false }],
+      snapshot,
+      vi.fn(),
+      { cache: new MemorySharedCache(), key: 'wallboard-alerts:org' }
+    );
+    expect(disabled.checked).toBe(0);
+    expect(snapshot).toHaveBeenCalledOnce();
+  });
+
+  it('still checks when the lock cannot be claimed', async () => {
+    const { cache, notify, run } = setup();
+    vi.spyOn(cache, 'claim').mockRejectedValue(new Error('cache unreachable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await run(0);
+    expect(await run(1)).toEqual({ checked: 1, notified: 1, failed: 0 });
+    expect(notify).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for wallboard kiosk link tokens and who may manage them
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('$env/dynamic/private', () => ({ env: {} }));
+
+import type { Repositories } from '$lib/repositories';
+import {
+  canManageWallboardShares,
+  openWallboardShareToken,
+  sealWallboardShareToken,
+  type WallboardShareClaims,
+} from '../wallboardShares';
+
+const claims: WallboardShareClaims = {
+  shareId: 's1',
+  wallboardId: 'wb1',
+  exp: 2_000_000_000,
+  platform: 'salesforce',
+};
+const now = 1_900_000_000_000;
+
+describe('wallboard share tokens', () => {
+  it('opens a sealed token with the same secret, without exposing its claims', () => {
+    const token = sealWallboardShareToken(claims, 'secret');
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(Buffer.from(token, 'base64url').toString('utf8')).not.toContain('wb1');
+    expect(openWallboardShareToken(token, 'secret', now)).toEqual(claims);
+  });
+
+  it('rejects tokens sealed with another secret, altered or mangled', () => {
+    const token = sealWallboardShareToken(claims, 'secret');
+    const sealed = Buffer.from(token, 'base64url');
+    sealed[sealed.length - 1] = (sealed[sealed.length - 1] ?? 0) ^ 1;
+
+    expect(openWallboardShareToken(token, 'other', now)).toBeNull();
+    expect(openWallboardShareToken(sealed.toString('base64url'), 'secret', now)).toBeNull();
+    expect(openWallboardShareToken('not-a-token', 'secret', now)).toBeNull();
+  });
+
+  it('rejects expired tokens', () => {
+    const token = sealWallboardShareToken(claims, 'secret');
+    expect(openWallboardShareToken(token, 'secret', claims.exp * 1000)).toBeNull();
+  });
+
+  it("rejects links made when tokens carried their creator's refresh token", () => {
+    const token = sealWallboardShareToken(
+      { ...claims, refreshToken: 'refresh-token' } as WallboardShareClaims,
+      'secret'
+    );
+    expect(openWallboardShareToken(token, 'secret', now)).toBeNull();
+  });
+});
+
+describe('canManageWallboardShares', () => {
+  function repos(permissionLevel: string | null) {
+    return {
+      users: {
+        findBySalesforceUserId: async () => (permissionLevel ? { permissionLevel } : null),
+      },
+    } as unknown as Repositories;
+  }
+  const locals = { platform: 'salesforce', user: { id: '005A' } } as App.Locals;
+
+  it('allows Team Leaders and Admins, and anyone in demo mode', async () => {
+    expect(await canManageWallboardShares(locals, repos('Admin'), false)).toBe(true);
+    expect(await canManageWallboardShares(locals, repos('Team Leader'), false)).toBe(true);
+    expect(await canManageWallboardShares(locals, repos(null), true)).toBe(true);
+  });
+
+  it('refuses basic users and users not linked to a Natterbox user', async () => {
+    expect(await canManageWallboardShares(locals, repos('Basic'), false)).toBe(false);
+    expect(await canManageWallboardShares(locals, repos(null), false)).toBe(false);
+  });
+});
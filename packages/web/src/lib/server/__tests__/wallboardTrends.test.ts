@@ -0,0 +1,129 @@
+/**
+ * Tests for recording and loading wallboard trends
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  type WallboardAgent,
+  type WallboardCall,
+  type WallboardStatsFilter,
+  type WallboardTrendBucket,
+} from '$lib/domain';
+import { emptyWallboardTrendCounts } from '$lib/wallboard';
+import {
+  MemoryWallboardTrendStore,
+  WallboardTrendRecorder,
+  loadWallboardTrend,
+  withRecordedAgents,
+} from '../wallboardTrends';
+
+const SALES: WallboardStatsFilter = { queue: 'Sales', groupId: null, window: 'today' };
+const START = new Date('2024-01-08T09:00:00.000Z');
+
+function at(seconds: number): Date {
+  return new Date(START.getTime() + seconds * 1000);
+}
+
+function call(id: string, changes: Partial<WallboardCall> = {}): WallboardCall {
+  return {
+    id,
+    direction: 'inbound',
+    waiting: true,
+    startedAt: START.toISOString(),
+    queue: 'Sales',
+    ...changes,
+  };
+}
+
+function agent(id: string, status: WallboardAgent['status']): WallboardAgent {
+  return { id, platformId: null, status, groupIds: [] };
+}
+
+async function buckets(store: MemoryWallboardTrendStore) {
+  // Let the recorder's writes land
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  return store.query('org', 'Sales|', START, at(3600));
+}
+
+describe('WallboardTrendRecorder', () => {
+  it('counts calls once, and the inbound calls answered or abandoned while waiting', async () => {
+    const store = new MemoryWallboardTrendStore();
+    const recorder = new WallboardTrendRecorder(store, 'org');
+    const agents = [agent('a1', 'busy'), agent('a2', 'available'), agent('a3', 'offline')];
+
+    recorder.record(
+      [SALES, SALES],
+      [call('c1'), call('c2'), call('x', { queue: 'Support' })],
+      agents,
+      at(0)
+    );
+    recorder.record([SALES], [call('c1', { waiting: false })], agents, at(10));
+
+    expect(await buckets(store)).toEqual([
+      {
+        start: START.toISOString(),
+        calls: 2,
+        answered: 1,
+        abandoned: 1,
+        busyAgents: 2,
+        staffedAgents: 4,
+      },
+    ]);
+  });
+
+  it("doesn't count calls that went while it wasn't watching", async () => {
+    const store = new MemoryWallboardTrendStore();
+    const recorder = new WallboardTrendRecorder(store, 'org');
+
+    recorder.record([SALES], [call('c1'), call('c2')], [], at(0));
+    recorder.record([SALES], [call('c1', { waiting: false })], [], at(120));
+
+    expect(await buckets(store)).toMatchObject([{ calls: 2, answered: 0, abandoned: 0 }]);
+  });
+});
+
+describe('loadWallboardTrend', () => {
+  it("loads today's intervals so far and all of last week's", async () => {
+    const store = new MemoryWallboardTrendStore();
+    await store.add('org', 'Sales|', new Date('2024-01-01T00:20:00.000Z'), { calls: 3 });
+    await store.add('org', 'Sales|', new Date('2024-01-08T00:05:00.000Z'), { calls: 5 });
+
+    const trend = await loadWallboardTrend(
+      (from, to) => store.query('org', 'Sales|', from, to),
+      'calls',
+      new Date('2024-01-08T00:20:00.000Z')
+    );
+
+    expect(trend.today).toEqual([5, null]);
+    expect(trend.lastWeek.slice(0, 2)).toEqual([null, 3]);
+  });
+});
+
+describe('withRecordedAgents', () => {
+  const bucket = (start: string, counts: Partial<WallboardTrendBucket> = {}) => ({
+    start,
+    ...emptyWallboardTrendCounts(),
+    ...counts,
+  });
+
+  it("adds recorded agent samples to the platform's call counts", () => {
+    const merged = withRecordedAgents(
+      [bucket('2024-01-08T09:00:00.000Z', { calls: 4, answered: 3, abandoned: 1 })],
+      [
+        bucket('2024-01-08T09:00:00.000Z', { calls: 1, busyAgents: 3, staffedAgents: 6 }),
+        bucket('2024-01-08T08:45:00.000Z', { calls: 2, busyAgents: 1, staffedAgents: 2 }),
+      ]
+    );
+
+    expect(merged).toEqual([
+      bucket('2024-01-08T08:45:00.000Z', { busyAgents: 1, staffedAgents: 2 }),
+      bucket('2024-01-08T09:00:00.000Z', {
+        calls: 4,
+        answered: 3,
+        abandoned: 1,
+        busyAgents: 3,
+        staffedAgents: 6,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for outbound webhooks
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { isPrivateAddress, postWebhook, webhookUrlProblem } from '../webhooks';
+
+const allowedHosts = ['hooks.example.com', '*.webhook.office.com'];
+
+describe('webhookUrlProblem', () => {
+  it('allows https URLs on listed hosts and their wildcard subdomains', () => {
+    expect(webhookUrlProblem('https://hooks.example.com/a', allowedHosts)).toBeNull();
+    expect(webhookUrlProblem('https://acme.webhook.office.com/b', allowedHosts)).toBeNull();
+  });
+
+  it('refuses other schemes, ports, hosts and any host when none are listed', () => {
+    expect(webhookUrlProblem('http://hooks.example.com/a', allowedHosts)).toMatch(/https/);
+    expect(webhookUrlProblem('https://hooks.example.com:8443/a', allowedHosts)).toMatch(/port/);
+    expect(webhookUrlProblem('https://webhook.office.com/a', allowedHosts)).toMatch(/only go to/);
+    expect(webhookUrlProblem('https://evil.com/hooks.example.com', allowedHosts)).toMatch(
+      /only go to/
+    );
+    expect(webhookUrlProblem('https://hooks.example.com/a', [])).toMatch(/not enabled/);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('recognises loopback, private, link-local and mapped addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('2606:2800:220:1::1')).toBe(false);
+  });
+});
+
+describe('postWebhook', () => {
+  const ok = () =>
+    vi.fn(
+      async (_url: string | URL | Request, _init?: RequestInit) =>
+        new Response(null, { status: 204 })
+    );
+
+  it('posts JSON without following redirects, with a timeout', async () => {
+    const fetchFn = ok();
+    await postWebhook(
+      'https://hooks.example.com/a',
+      { level: 'red' },
+      { fetchFn, allowedHosts, lookup: async () => ['93.184.216.34'] }
+    );
+
+    const init = fetchFn.mock.calls[0]?.[1];
+    expect(init).toMatchObject({ method: 'POST', body: '{"level":"red"}', redirect: 'manual' });
+    expect(init?.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('refuses hosts that resolve to a private address', async () => {
+    const fetchFn = ok();
+    await expect(
+      postWebhook(
+        'https://hooks.example.com/a',
+        {},
+        { fetchFn, allowedHosts, lookup: async () => ['93.184.216.34', '10.0.0.5'] }
+      )
+    ).rejects.toThrow('private address');
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('fails on hosts that are not allowed and on redirects', async () => {
+    const lookup = async () => ['93.184.216.34'];
+    await expect(
+      postWebhook('https://other.example.com/a', {}, { fetchFn: ok(), allowedHosts, lookup })
+    ).rejects.toThrow('only go to');
+    await expect(
+      postWebhook(
+        'https://hooks.example.com/a',
+        {},
+        {
+          fetchFn: vi.fn(async () => new Response(null, { status: 302 })),
+          allowedHosts,
+          lookup,
+        }
+      )
+    ).rejects.toThrow('Alert webhook failed (302)');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Supervisor Call Monitoring
+ *
+ * Listen-in, whisper and barge on a live call from `/call-status`. Sapien
+ * originates a call to the supervisor's webphone and bridges it onto the
+ * agent's channel (FreeSWITCH eavesdrop); the mode decides who can hear the
+ * supervisor. The browser makes up a one-time nonce for each request, which
+ * goes on the INVITE as `X-Monitor-Nonce`: the webphone only answers a
+ * monitoring call by itself when the nonce matches a request it made.
+ *
+ * Every attempt, successful or not, is written to the event log.
+ */
+
+import type { Repositories } from '$lib/repositories';
+import { SapienClient } from '@avs/core/services';
+import type { CallMonitorMode, LogSeverity, PermissionLevel } from '$lib/domain';
+import { getSapienAccessToken, getSapienHost } from './gatekeeper';
+
+export const CALL_MONITOR_MODES: readonly CallMonitorMode[] = ['listen', 'whisper', 'barge'];
+
+/** Event log type for monitoring audit records */
+export const CALL_MONITOR_EVENT_TYPE = 'Call Monitor';
+
+const MONITORING_PERMISSION_LEVELS: readonly PermissionLevel[] = ['Team Leader', 'Admin'];
+
+export function canMonitorCalls(permissionLevel: PermissionLevel | undefined): boolean {
+  return !!permissionLevel && MONITORING_PERMISSION_LEVELS.includes(permissionLevel);
+}
+
+export function isCallMonitorMode(value: unknown): value is CallMonitorMode {
+  return CALL_MONITOR_MODES.includes(value as CallMonitorMode);
+}
+
+/** Nonces end up in a SIP header, so only plain tokens are accepted */
+export function isCallMonitorNonce(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w-]{16,64}$/.test(value);
+}
+
+/**
+ * Channel variables for the eavesdrop leg. `eavesdrop_whisper_aleg` lets
+ * the supervisor talk to the eavesdropped (agent) channel only;
+ * `eavesdrop_bridge_aleg` + `_bleg` put them in a three-way with both
+ * parties. `sip_h_` variables become SIP headers on the INVITE.
+ */
+export function buildMonitorChannelVars(mode: CallMonitorMode, nonce: string): Record<string, string> {
+  return {
+    'sip_h_X-Monitor-Mode': mode,
+    'sip_h_X-Monitor-Nonce': nonce,
+    ...(mode === 'whisper' && { eavesdrop_whisper_aleg: 'true' }),
+    ...(mode === 'barge' && { eavesdrop_bridge_aleg: 'true', eavesdrop_bridge_bleg: 'true' }),
+  };
+}
+
+export interface CallMonitorRequest {
+  instanceUrl: string;
+  accessToken: string;
+  organizationId: number;
+  mode: CallMonitorMode;
+  /** Agent's channel on the call */
+  targetChannelUuid: string;
+  /** The supervisor's webphone extension, which Sapien rings */
+  endpoint: string;
+  /** From the browser; its webphone answers the call that carries it */
+  nonce: string;
+}
+
+/** Ask Sapien to ring the supervisor's webphone onto the call. */
+export async function startCallMonitor(request: CallMonitorRequest): Promise<void> {
+  const jwt = await getSapienAccessToken(request.instanceUrl, request.accessToken);
+  const host = getSapienHost();
+  if (!host) {
+    throw new Error('Sapien host not configured');
+  }
+
+  const client = new SapienClient({ host, organizationId: request.organizationId, jwt });
+  const channelVars = buildMonitorChannelVars(request.mode, request.nonce);
+  await client.listenToCall(request.endpoint, request.targetChannelUuid, channelVars);
+}
+
+export interface CallMonitorAuditEntry {
+  mode: CallMonitorMode;
+  callId: string;
+  targetChannelUuid: string;
+  supervisorId: string;
+  supervisorName: string;
+  agentName?: string;
+  /** Why the request failed; omitted when it succeeded */
+  error?: string;
+}
+
+const MODE_VERBS: Record<CallMonitorMode, string> = {
+  listen: 'listened in on',
+  whisper: 'whispered on',
+  barge: 'barged into',
+};
+
+export function describeCallMonitorAudit(entry: CallMonitorAuditEntry): string {
+  const call = entry.agentName ? `${entry.agentName}'s call` : `call ${entry.callId}`;
+  const action = `${entry.supervisorName} ${MODE_VERBS[entry.mode]} ${call}`;
+  return entry.error ? `Failed: ${action} (${entry.error})` : action;
+}
+
+/**
+ * Write the audit record. Failing to audit is logged but doesn't undo the
+ * monitoring request.
+ */
+export async function auditCallMonitor(repos: Repositories, entry: CallMonitorAuditEntry): Promise<void> {
+  const severity: LogSeverity = entry.error ? 'warning' : 'info';
+  try {
+    const result = await repos.monitoring.createEventLog({
+      type: CALL_MONITOR_EVENT_TYPE,
+      message: describeCallMonitorAudit(entry),
+      severity,
+      source: 'call-status',
+      userId: entry.supervisorId,
+      userName: entry.supervisorName,
+      metadata: {
+        mode: entry.mode,
+        callId: entry.callId,
+        targetChannelUuid: entry.targetChannelUuid,
+      },
+    });
+    if (!result.success) {
+      console.error('[call-monitor] audit write failed:', result.error);
+    }
+  } catch (err) {
+    console.error('[call-monitor] audit write failed:', err);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Scheduled Jobs
+ *
+ * `/api/cron/*` endpoints run background work on a timer. On Vercel they
+ * are called by the cron jobs in `vercel.json`, which send
+ * `Authorization: Bearer $CRON_SECRET`; elsewhere any scheduler can call
+ * them the same way. Without `CRON_SECRET` set they refuse every request.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { env } from '$env/dynamic/private';
+
+/** Whether a request carries the cron secret */
+export function isCronRequest(request: Request): boolean {
+  const secret = env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
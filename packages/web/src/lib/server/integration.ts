@@ -0,0 +1,84 @@
+/**
+ * Integration Identity
+ *
+ * Work that runs with nobody signed in (scheduled presence changes,
+ * wallboard alert rules and trend history, kiosk wallboards) reads and
+ * writes the org as one dedicated integration user. An admin authorizes
+ * that user against the connected app once and sets the resulting refresh
+ * token as `SF_INTEGRATION_REFRESH_TOKEN`. It never leaves the server:
+ * access tokens are refreshed from it and reused for a while.
+ *
+ * A deployment serves one org this way. In demo mode the same work runs
+ * against the demo data and needs no identity.
+ */
+
+import { env } from '$env/dynamic/private';
+import {
+  getPlatformConfig,
+  getPlatformFromEnv,
+  refreshSalesforceToken,
+  type PlatformType,
+  type SalesforceAuth,
+} from '$lib/platform';
+
+/** How long an integration access token is reused before refreshing it */
+const ACCESS_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+let cachedAuth: { expires: number; auth: Promise<SalesforceAuth | null> } | null = null;
+
+/** The platform background work runs on: the configured one, else Salesforce */
+export function getIntegrationPlatform(): PlatformType {
+  return getPlatformFromEnv() ?? 'salesforce';
+}
+
+/** Whether background work has an identity to run as */
+export function isIntegrationConfigured(): boolean {
+  const platform = getIntegrationPlatform();
+  return platform === 'demo' || (platform === 'salesforce' && !!env.SF_INTEGRATION_REFRESH_TOKEN);
+}
+
+function getIntegrationSalesforceAuth(refreshToken: string): Promise<SalesforceAuth | null> {
+  const now = Date.now();
+  if (cachedAuth && cachedAuth.expires > now) return cachedAuth.auth;
+
+  const auth = refreshSalesforceToken(refreshToken, getPlatformConfig('salesforce'));
+  const entry = { expires: now + ACCESS_TOKEN_TTL_MS, auth };
+  cachedAuth = entry;
+  // Don't hold on to a failure; the next caller tries again
+  auth
+    .then((result) => {
+      if (!result && cachedAuth === entry) cachedAuth = null;
+    })
+    .catch(() => {
+      if (cachedAuth === entry) cachedAuth = null;
+    });
+  return auth;
+}
+
+/**
+ * Request locals that act as the integration user, for
+ * `tryCreateContextAndRepositories`. Null when no integration user is
+ * configured or its refresh token no longer works.
+ */
+export async function getIntegrationLocals(): Promise<App.Locals | null> {
+  const platform = getIntegrationPlatform();
+  if (platform === 'demo') return { platform: 'demo' };
+
+  const refreshToken = env.SF_INTEGRATION_REFRESH_TOKEN;
+  if (platform !== 'salesforce' || !refreshToken) return null;
+
+  const auth = await getIntegrationSalesforceAuth(refreshToken);
+  if (!auth) return null;
+  return {
+    platform: 'salesforce',
+    salesforce: auth,
+    user: auth.user,
+    accessToken: auth.accessToken,
+    instanceUrl: auth.instanceUrl,
+  };
+}
+
+/** Drop the cached access token, e.g. after Salesforce rejected it */
+export function clearIntegrationAuth(): void {
+  cachedAuth = null;
+}
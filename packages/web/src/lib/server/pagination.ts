@@ -265,7 +265,7 @@ export function buildSoqlFilters(
 /**
  * Escape string for use in SOQL
  */
-function escapeForSoql(str: string): string {
+export function escapeForSoql(str: string): string {
   return str
     .replace(/\\/g, '\\\\')
     .replace(/'/g, "\\'");
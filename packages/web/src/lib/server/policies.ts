@@ -0,0 +1,190 @@
+/**
+ * Routing Policy Persistence
+ *
+ * Server-side save pipeline for routing policies edited in the standalone
+ * editor: validates the policy, builds the Body__c/Policy__c payload, saves
+ * it to Sapien and the repository, records a revision and syncs event
+ * subscriptions. Also loads
+ * the org entities that export bundles are resolved against.
+ */
+
+import type { SalesforceAdapterContext } from '$lib/adapters';
+import type { Repositories } from '$lib/repositories';
+import { savePolicyToSapien, createPolicyInSapien, SAPIEN_SCOPES } from '$lib/server/sapien';
+import { canUseSapienApi, getJwt, getOrganizationId, getSapienHost } from '$lib/server/gatekeeper';
+import { syncEventSubscriptionsFromPolicy } from '$lib/server/events';
+import { buildPayload, type PolicyData } from '$lib/policy-editor/buildPayload';
+import type { BundleTargets } from '$lib/policy-editor/policyBundle';
+import {
+  validatePolicyGraph,
+  type PolicyDiagnostic,
+  type PolicyValidationInput,
+} from '$lib/policy-editor/policyValidator';
+
+export type PersistPolicyResult =
+  | { success: true; natterboxId: number | null; savedToSapien: boolean; eventsSynced: boolean }
+  | { success: false; error: string; diagnostics?: PolicyDiagnostic[] };
+
+/**
+ * Push editor policy data through buildPayload to Sapien and the repository,
+ * then record it as a new revision. Used by the editor's save and restore
+ * actions, bulk replace and the policy import wizard, so every save is
+ * validated here: a policy with blocking errors is refused before anything
+ * is written, with the diagnostics that explain why.
+ */
+export async function persistPolicy({
+  policyData,
+  policyId,
+  repos,
+  ctx,
+  locals,
+  comment,
+}: {
+  policyData: PolicyData;
+  policyId: string;
+  repos: Repositories;
+  ctx: SalesforceAdapterContext;
+  locals: App.Locals;
+  comment?: string;
+}): Promise<PersistPolicyResult> {
+  const validation = validatePolicyGraph(policyData as PolicyValidationInput);
+  if (!validation.valid) {
+    return {
+      success: false,
+      error: `Policy has ${validation.errorCount} validation error(s)`,
+      diagnostics: validation.diagnostics,
+    };
+  }
+
+  // Get the existing policy's Natterbox ID (platformId) if it exists
+  let natterboxId: number | null = policyData.Id__c ? parseInt(String(policyData.Id__c), 10) : null;
+
+  if (!natterboxId) {
+    // Fetch it from the repository
+    const existingPolicy = await repos.routingPolicies.findById(policyId);
+    if (existingPolicy?.platformId) {
+      natterboxId = existingPolicy.platformId;
+    }
+  }
+
+  // Build the save payload
+  const payload = buildPayload({
+    policy: policyData,
+    config: { DevOrgId__c: '', ConnectorId__c: '' },
+    sounds: [],
+  });
+
+  // ========== SAVE TO SAPIEN ==========
+  let sapienResult: { id?: number } | null = null;
+
+  if (canUseSapienApi(locals)) {
+    try {
+      const jwt = await getJwt(
+        ctx.instanceUrl,
+        ctx.accessToken,
+        SAPIEN_SCOPES.ROUTING_POLICIES_ADMIN,
+        locals.user?.id
+      );
+
+      const organizationId = getOrganizationId();
+      const sapienHost = getSapienHost();
+
+      if (organizationId && sapienHost) {
+        if (natterboxId) {
+          sapienResult = await savePolicyToSapien(sapienHost, jwt, organizationId, natterboxId, payload.Policy__c);
+        } else {
+          sapienResult = await createPolicyInSapien(sapienHost, jwt, organizationId, payload.Policy__c);
+          natterboxId = sapienResult?.id ?? null;
+        }
+      }
+    } catch (e) {
+      console.error('[Sapien Save] Error saving to Sapien:', e);
+    }
+  }
+
+  // ========== SAVE TO REPOSITORY ==========
+  const updateResult = await repos.routingPolicies.update(policyId, {
+    name: payload.Name,
+    description: payload.Description__c,
+    body: payload.Body__c,
+  });
+
+  if (!updateResult.success) {
+    return { success: false, error: updateResult.error || 'Failed to save policy' };
+  }
+
+  // ========== RECORD REVISION ==========
+  // History is best effort: a failure here must not undo a successful save
+  try {
+    const revisionResult = await repos.routingPolicies.createRevision({
+      policyId,
+      name: payload.Name,
+      snapshot: JSON.stringify(policyData),
+      comment,
+      authorId: locals.user?.id,
+      authorName: locals.user?.name,
+    });
+    if (!revisionResult.success) {
+      console.warn('[Revision History] Failed to record revision:', revisionResult.error);
+    }
+  } catch (e) {
+    console.warn('[Revision History] Failed to record revision:', e);
+  }
+
+  // ========== SYNC EVENT SUBSCRIPTIONS ==========
+  let eventsSynced = false;
+  if (natterboxId && canUseSapienApi(locals)) {
+    try {
+      const jwt = await getJwt(ctx.instanceUrl, ctx.accessToken, SAPIEN_SCOPES.ROUTING_POLICIES_ADMIN, locals.user?.id);
+      const organizationId = getOrganizationId();
+
+      if (organizationId) {
+        const nodes = policyData.nodes || [];
+        const eventNodes = nodes
+          .filter((n: { type?: string; data?: Record<string, unknown> }) =>
+            n.type === 'event' || n.data?.templateClass === 'ModEvent'
+          )
+          .map((n: { id: string; data?: Record<string, unknown> }) => ({
+            id: n.id,
+            name: String(n.data?.label || n.data?.name || 'Event'),
+            eventType: String(n.data?.eventType || 'salesforce'),
+            enabled: Boolean(n.data?.enabled ?? true),
+            config: n.data?.config as Record<string, unknown> | undefined,
+            subscriptionId: n.data?.subscriptionId as string | undefined,
+          }));
+
+        if (eventNodes.length > 0) {
+          await syncEventSubscriptionsFromPolicy(jwt, organizationId, natterboxId, eventNodes);
+          eventsSynced = true;
+        }
+      }
+    } catch (e) {
+      console.warn('[Events Sync] Failed to sync event subscriptions:', e);
+    }
+  }
+
+  return { success: true, natterboxId, savedToSapien: sapienResult !== null, eventsSynced };
+}
+
+/**
+ * Load the org's groups, users, sounds, skills and phone numbers in the shape
+ * policy bundles reference them: Sapien ids for entities, E.164 for numbers.
+ */
+export async function loadBundleTargets(repos: Repositories): Promise<BundleTargets> {
+  const params = { page: 1, pageSize: 1000 };
+  const [groups, users, sounds, skills, phoneNumbers] = await Promise.all([
+    repos.groups.findAll(params),
+    repos.users.findAll(params),
+    repos.sounds.findAll(params),
+    repos.skills.findAll(params),
+    repos.phoneNumbers.findAll(params),
+  ]);
+
+  return {
+    group: groups.items.map((g) => ({ id: g.id, name: g.name, reference: String(g.platformId ?? g.id) })),
+    user: users.items.map((u) => ({ id: u.id, name: u.name, reference: String(u.platformId ?? u.id) })),
+    sound: sounds.items.map((s) => ({ id: s.id, name: s.name, reference: String(s.platformId ?? s.id) })),
+    skill: skills.items.map((s) => ({ id: s.id, name: s.name, reference: String(s.sapienId ?? s.id) })),
+    phoneNumber: phoneNumbers.items.map((p) => ({ id: p.id, name: p.name || p.number, reference: p.number })),
+  };
+}
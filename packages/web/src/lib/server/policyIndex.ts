@@ -0,0 +1,254 @@
+/**
+ * Routing Policy Usage Index
+ *
+ * Parses every routing policy's Body__c into editor form so the policies can
+ * be searched for the groups, users, sounds, skills, Salesforce objects and
+ * Speak text they use. Parsed bodies are cached per org and re-parsed only
+ * when a policy's last modified date changes.
+ *
+ * Replacing a value re-reads each affected policy rather than using the cache,
+ * then saves it through persistPolicy like an editor save. A policy that
+ * changed since it was searched, or that the replacement would leave with
+ * blocking validation errors, is skipped and reported rather than saved.
+ */
+
+import type { SalesforceAdapterContext } from '$lib/adapters';
+import type { Repositories } from '$lib/repositories';
+import type { RoutingPolicy } from '$lib/domain';
+import { transformLegacyPolicy, type LegacyPolicy, type TransformedPolicy } from '$lib/policy-editor/dataTransform';
+import { POLICY_TYPE, type PolicyData as BuildPayloadPolicy } from '$lib/policy-editor/buildPayload';
+import {
+  findPolicyUsages,
+  listPolicyUsageValues,
+  replacePolicyUsages,
+  POLICY_USAGE_LABELS,
+  type PolicyUsageKind,
+  type PolicyUsageMatch,
+  type PolicyUsageQuery,
+  type PolicyUsageReplacement,
+} from '$lib/policy-editor/policyUsage';
+import type { PolicyDiagnostic } from '$lib/policy-editor/policyValidator';
+import { persistPolicy } from './policies';
+
+export interface PolicyIndexEntry {
+  policyId: string;
+  policyName: string;
+  version: string;
+  policy: TransformedPolicy;
+}
+
+export interface PolicyUsageResult {
+  policyId: string;
+  policyName: string;
+  /** Last modified date of the policy that was searched */
+  version: string;
+  matches: PolicyUsageMatch[];
+}
+
+/**
+ * A value used somewhere in the org's policies, for picking what to search for
+ */
+export interface PolicyUsageValue {
+  kind: PolicyUsageKind;
+  value: string;
+  policyCount: number;
+}
+
+export interface PolicyReplaceResult {
+  policyId: string;
+  policyName: string;
+  replaced: number;
+  error?: string;
+  /** Why the rewritten policy wasn't saved, when it failed validation */
+  diagnostics?: PolicyDiagnostic[];
+}
+
+// organizationId -> policyId -> parsed policy
+const cache = new Map<string, Map<string, PolicyIndexEntry>>();
+
+/**
+ * Parse a stored Body__c into editor nodes and edges
+ */
+export function parsePolicyBody(body: RoutingPolicy['body']): TransformedPolicy | null {
+  if (!body) return null;
+
+  try {
+    const legacy = typeof body === 'string' ? JSON.parse(body) : body;
+    if (!legacy || !Array.isArray((legacy as LegacyPolicy).nodes)) return null;
+    return transformLegacyPolicy(legacy as LegacyPolicy);
+  } catch (e) {
+    console.warn('[Policy Index] Failed to parse policy body:', e);
+    return null;
+  }
+}
+
+/**
+ * Load the index for an org, parsing only policies that changed since the
+ * last call. Policies without a readable body are left out.
+ */
+export async function loadPolicyIndex(repos: Repositories, organizationId: string): Promise<PolicyIndexEntry[]> {
+  const { items } = await repos.routingPolicies.findAll({ page: 1, pageSize: 2000 });
+
+  const previous = cache.get(organizationId);
+  const current = new Map<string, PolicyIndexEntry>();
+
+  for (const item of items) {
+    const cached = previous?.get(item.id);
+    if (cached && cached.version === item.lastModifiedDate) {
+      current.set(item.id, cached);
+      continue;
+    }
+
+    const policy = parsePolicyBody(item.body);
+    if (policy) {
+      current.set(item.id, { policyId: item.id, policyName: item.name, version: item.lastModifiedDate, policy });
+    }
+  }
+
+  cache.set(organizationId, current);
+  return [...current.values()];
+}
+
+/**
+ * Policies that use the query value, with every place it is used
+ */
+export function searchPolicyIndex(entries: PolicyIndexEntry[], query: PolicyUsageQuery): PolicyUsageResult[] {
+  return entries
+    .map((entry) => ({
+      policyId: entry.policyId,
+      policyName: entry.policyName,
+      version: entry.version,
+      matches: findPolicyUsages(entry.policy.nodes, query),
+    }))
+    .filter((result) => result.matches.length > 0)
+    .sort((a, b) => a.policyName.localeCompare(b.policyName));
+}
+
+/**
+ * Every entity id and object name used across the index, with how many
+ * policies use it
+ */
+export function listIndexedValues(entries: PolicyIndexEntry[]): PolicyUsageValue[] {
+  const byKey = new Map<string, PolicyUsageValue>();
+
+  for (const entry of entries) {
+    const seen = new Set<string>();
+    for (const { kind, value } of listPolicyUsageValues(entry.policy.nodes)) {
+      const key = `${kind}:${kind === 'sfObject' ? value.toLowerCase() : value}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const existing = byKey.get(key);
+      if (existing) {
+        existing.policyCount++;
+      } else {
+        byKey.set(key, { kind, value, policyCount: 1 });
+      }
+    }
+  }
+
+  return [...byKey.values()];
+}
+
+function notSavedMessage(diagnostics: PolicyDiagnostic[]): string {
+  const errors = diagnostics.filter((d) => d.severity === 'error');
+  return `Not saved: ${errors.length} validation error(s)${errors[0] ? `, e.g. ${errors[0].message}` : ''}`;
+}
+
+/**
+ * Rewrite the query value in each of the given policies and save the ones
+ * that changed. Each policy is saved on its own; one failing doesn't stop
+ * the rest. `versions` holds the last modified date each policy had when it
+ * was searched; a policy saved since then is left alone.
+ */
+export async function replaceInPolicies({
+  policyIds,
+  versions = {},
+  query,
+  replacement,
+  repos,
+  ctx,
+  locals,
+}: {
+  policyIds: string[];
+  versions?: Record<string, string>;
+  query: PolicyUsageQuery;
+  replacement: PolicyUsageReplacement;
+  repos: Repositories;
+  ctx: SalesforceAdapterContext;
+  locals: App.Locals;
+}): Promise<PolicyReplaceResult[]> {
+  const results: PolicyReplaceResult[] = [];
+  const label = POLICY_USAGE_LABELS[query.kind].toLowerCase();
+
+  for (const policyId of policyIds) {
+    const existing = await repos.routingPolicies.findById(policyId);
+    if (!existing) {
+      results.push({ policyId, policyName: policyId, replaced: 0, error: 'Policy not found' });
+      continue;
+    }
+
+    const version = versions[policyId];
+    if (version && version !== existing.lastModifiedDate) {
+      results.push({
+        policyId,
+        policyName: existing.name,
+        replaced: 0,
+        error: `Changed by ${existing.lastModifiedByName} since you searched; search again`,
+      });
+      continue;
+    }
+
+    const policy = parsePolicyBody(existing.body);
+    const replaced = policy ? replacePolicyUsages(policy.nodes, query, replacement) : 0;
+    if (!policy || replaced === 0) {
+      results.push({ policyId, policyName: existing.name, replaced: 0 });
+      continue;
+    }
+
+    const policyData: BuildPayloadPolicy = {
+      Id: existing.id,
+      Id__c: existing.platformId != null ? String(existing.platformId) : null,
+      Name: existing.name,
+      Description__c: existing.description,
+      Type__c: existing.type === 'Digital' ? POLICY_TYPE.DIGITAL : POLICY_TYPE.CALL,
+      nodes: policy.nodes as unknown as BuildPayloadPolicy['nodes'],
+      edges: policy.edges,
+    };
+
+    try {
+      const persisted = await persistPolicy({
+        policyData,
+        policyId,
+        repos,
+        ctx,
+        locals,
+        comment: replacement.value
+          ? `Replaced ${label} "${query.value}" with "${replacement.name ?? replacement.value}"`
+          : `Removed ${label} "${query.value}"`,
+      });
+
+      results.push(
+        persisted.success
+          ? { policyId, policyName: existing.name, replaced }
+          : {
+              policyId,
+              policyName: existing.name,
+              replaced: 0,
+              error: persisted.diagnostics ? notSavedMessage(persisted.diagnostics) : persisted.error,
+              diagnostics: persisted.diagnostics,
+            }
+      );
+    } catch (e) {
+      console.error(`[Policy Index] Failed to save policy ${policyId}:`, e);
+      results.push({
+        policyId,
+        policyName: existing.name,
+        replaced: 0,
+        error: e instanceof Error ? e.message : 'Failed to save policy',
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,99 @@
+/**
+ * Policy Editor Presence
+ *
+ * Tracks which sessions have a routing policy open in the editor so the page
+ * can show who else is working on it. Sessions send a heartbeat while the
+ * editor is open and are dropped once they miss PRESENCE_TTL_MS.
+ *
+ * Presence is best effort and nothing depends on it. The registry lives in
+ * this server process, and on the serverless deployment each request can be
+ * served by a different short-lived instance, so two people editing the same
+ * policy will often not see each other at all. Conflicting saves are caught
+ * only by the save action comparing the policy's lastModifiedDate with the
+ * version the editor loaded.
+ */
+
+import type { PolicyEditorPresence } from '$lib/domain';
+
+/** Sessions that haven't sent a heartbeat for this long are dropped */
+export const PRESENCE_TTL_MS = 45_000;
+
+interface PresenceSession extends PolicyEditorPresence {
+  sessionId: string;
+}
+
+// `${organizationId}:${policyId}` -> sessionId -> session
+const registry = new Map<string, Map<string, PresenceSession>>();
+
+function getKey(organizationId: string, policyId: string): string {
+  return `${organizationId}:${policyId}`;
+}
+
+function prune(key: string, now: number): Map<string, PresenceSession> | undefined {
+  const sessions = registry.get(key);
+  if (!sessions) return undefined;
+
+  for (const [sessionId, session] of sessions) {
+    if (now - Date.parse(session.lastSeenAt) > PRESENCE_TTL_MS) {
+      sessions.delete(sessionId);
+    }
+  }
+  if (sessions.size === 0) {
+    registry.delete(key);
+    return undefined;
+  }
+  return sessions;
+}
+
+/**
+ * Record a heartbeat and return everyone else with the policy open, other
+ * sessions of the same user included (e.g. a second tab).
+ */
+export function recordPresence({
+  organizationId,
+  policyId,
+  sessionId,
+  userId,
+  userName,
+  editing,
+  now = Date.now(),
+}: {
+  organizationId: string;
+  policyId: string;
+  sessionId: string;
+  userId: string;
+  userName: string;
+  editing: boolean;
+  now?: number;
+}): PolicyEditorPresence[] {
+  const key = getKey(organizationId, policyId);
+  const sessions = prune(key, now) ?? new Map<string, PresenceSession>();
+  const lastSeenAt = new Date(now).toISOString();
+
+  sessions.set(sessionId, {
+    sessionId,
+    userId,
+    userName,
+    editing,
+    openedAt: sessions.get(sessionId)?.openedAt ?? lastSeenAt,
+    lastSeenAt,
+  });
+  registry.set(key, sessions);
+
+  return [...sessions.values()]
+    .filter((session) => session.sessionId !== sessionId)
+    .map(({ sessionId: _sessionId, ...presence }) => presence)
+    .sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+}
+
+/**
+ * Remove a session when the editor is closed
+ */
+export function clearPresence(organizationId: string, policyId: string, sessionId: string): void {
+  const key = getKey(organizationId, policyId);
+  const sessions = registry.get(key);
+  sessions?.delete(sessionId);
+  if (sessions?.size === 0) {
+    registry.delete(key);
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Presence Schedules and Overrun Alerts
+ *
+ * Run by `/api/cron/presence` every minute, as the integration user, so
+ * they happen whether or not the agent has the webphone open:
+ *
+ * - agents covered by a schedule are moved into its state once an entry
+ *   falls due, unless they've changed state themselves since;
+ * - agents who stay in a state past its maximum duration are reported,
+ *   once per period, to themselves and the managers of their groups.
+ *
+ * An open webphone picks up a scheduled change on its next presence check
+ * and moves the agent's availability to match.
+ */
+
+import {
+  duePresenceChange,
+  presenceOverrunMs,
+  type PresenceChange,
+  type PresenceState,
+  type User,
+} from '$lib/domain';
+import type { Repositories } from '$lib/repositories';
+
+export interface PresenceJobResult {
+  /** Scheduled changes recorded */
+  applied: number;
+  /** Overrunning periods reported */
+  alerted: number;
+  /** Changes or alerts that failed; they are retried on the next run */
+  failed: number;
+}
+
+/**
+ * Record every scheduled change that has fallen due
+ */
+export async function applyPresenceSchedules(
+  repos: Repositories,
+  now: Date = new Date()
+): Promise<PresenceJobResult> {
+  const result: PresenceJobResult = { applied: 0, alerted: 0, failed: 0 };
+  const [states, schedules] = await Promise.all([
+    repos.presence.findStates(),
+    repos.presence.findSchedules(),
+  ]);
+  const active = schedules.filter((s) => s.active);
+  if (active.length === 0) return result;
+
+  // Everyone a schedule names, directly or through a group, and which of the
+  // scheduled groups they're in
+  const userNames = new Map<string, string>();
+  const userGroups = new Map<string, string[]>();
+  for (const schedule of active) {
+    for (const userId of schedule.userIds) userNames.set(userId, userNames.get(userId) ?? '');
+  }
+  const groupIds = [...new Set(active.flatMap((s) => s.groupIds))];
+  const [members, open] = await Promise.all([
+    groupIds.length > 0 ? repos.groups.findMemberships({ groupIds }) : [],
+    repos.presence.findOpen(),
+  ]);
+  for (const member of members) {
+    userNames.set(member.userId, member.userName);
+    userGroups.set(member.userId, [...(userGroups.get(member.userId) ?? []), member.groupId]);
+  }
+
+  // Open periods come newest first, so an agent's first one is their current state
+  const current = new Map<string, PresenceChange>();
+  for (const change of open) {
+    if (!current.has(change.userId)) current.set(change.userId, change);
+  }
+
+  const due = [...userNames.keys()].flatMap((userId) => {
+    const change = duePresenceChange(
+      {
+        userId,
+        groupIds: userGroups.get(userId) ?? [],
+        states,
+        schedules: active,
+        current: current.get(userId) ?? null,
+      },
+      now
+    );
+    return change ? [{ userId, change }] : [];
+  });
+
+  // Agents scheduled directly may have no membership or open period to name them
+  const unnamed = due
+    .map(({ userId }) => userId)
+    .filter((userId) => !userNames.get(userId) && !current.get(userId)?.userName);
+  if (unnamed.length > 0) {
+    for (const user of await repos.users.findByIds(unnamed)) userNames.set(user.id, user.name);
+  }
+
+  for (const { userId, change } of due) {
+    try {
+      const saved = await repos.presence.recordChange({
+        userId,
+        userName: userNames.get(userId) || current.get(userId)?.userName || '',
+        stateId: change.state.id,
+        stateName: change.state.name,
+        availability: change.state.availability,
+        reasonCode: change.reasonCode,
+        source: 'schedule',
+        at: change.dueAt.toISOString(),
+      });
+      if (saved.success) {
+        result.applied++;
+      } else {
+        console.error(`[presence] Scheduled change for ${userId} failed:`, saved.error);
+        result.failed++;
+      }
+    } catch (err) {
+      console.error(`[presence] Scheduled change for ${userId} failed:`, err);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+function overrunEmail(
+  change: PresenceChange,
+  state: PresenceState | undefined,
+  overrunMs: number
+): { subject: string; body: string } {
+  const limit = state?.maxDurationMinutes ?? 0;
+  const over = Math.max(1, Math.round(overrunMs / 60_000));
+  return {
+    subject: `${change.userName || 'An agent'} has been in ${change.stateName} for over ${limit} minutes`,
+    body: [
+      `${change.userName || 'An agent'} entered ${change.stateName}` +
+        (change.reasonCode ? ` (${change.reasonCode})` : '') +
+        ` at ${change.startedAt}.`,
+      `The state's limit is ${limit} minutes, and it has now been exceeded by ${over} minute${over === 1 ? '' : 's'}.`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Each agent and the managers of their groups, by email. Memberships and
+ * users are looked up for all the agents at once.
+ */
+async function overrunRecipients(
+  repos: Repositories,
+  userIds: string[]
+): Promise<Map<string, string[]>> {
+  const agentIds = [...new Set(userIds)];
+  const memberships = await repos.groups.findMemberships({ userIds: agentIds });
+  const groupIds = [...new Set(memberships.map((m) => m.groupId))];
+  const members = groupIds.length > 0 ? await repos.groups.findMemberships({ groupIds }) : [];
+  const found = await repos.users.findByIds([
+    ...new Set([...agentIds, ...members.map((m) => m.userId)]),
+  ]);
+  const users = new Map(found.map((user) => [user.id, user]));
+
+  return new Map(
+    agentIds.map((userId) => {
+      const groups = new Set(memberships.filter((m) => m.userId === userId).map((m) => m.groupId));
+      const managers = members
+        .filter((m) => groups.has(m.groupId) && m.userId !== userId)
+        .map((m) => users.get(m.userId))
+        .filter((user): user is User => !!user?.licenses.manager);
+      const emails = [users.get(userId), ...managers].map((user) => user?.email).filter(Boolean);
+      return [userId, [...new Set(emails as string[])]];
+    })
+  );
+}
+
+/**
+ * Email the agent and their managers about every open period that has run
+ * past its state's maximum duration and hasn't been reported yet
+ */
+export async function alertPresenceOverruns(
+  repos: Repositories,
+  now: Date = new Date()
+): Promise<PresenceJobResult> {
+  const result: PresenceJobResult = { applied: 0, alerted: 0, failed: 0 };
+  const [states, open] = await Promise.all([repos.presence.findStates(), repos.presence.findOpen()]);
+  const overruns = open
+    .filter((change) => !change.overrunAlertedAt)
+    .map((change) => ({ change, overrunMs: presenceOverrunMs(change, states, now.getTime()) }))
+    .filter(({ overrunMs }) => overrunMs > 0);
+  if (overruns.length === 0) return result;
+
+  let recipientsByUser: Map<string, string[]>;
+  try {
+    recipientsByUser = await overrunRecipients(
+      repos,
+      overruns.map(({ change }) => change.userId)
+    );
+  } catch (err) {
+    console.error('[presence] Looking up overrun alert recipients failed:', err);
+    result.failed += overruns.length;
+    return result;
+  }
+
+  for (const { change, overrunMs } of overruns) {
+    try {
+      const recipients = recipientsByUser.get(change.userId) ?? [];
+      if (recipients.length > 0) {
+        const { subject, body } = overrunEmail(
+          change,
+          states.find((s) => s.id === change.stateId),
+          overrunMs
+        );
+        const sent = await repos.notifications.sendEmail(recipients, subject, body);
+        if (!sent.success) {
+          console.error(`[presence] Overrun alert for ${change.id} failed:`, sent.error);
+          result.failed++;
+          continue;
+        }
+      }
+
+      const marked = await repos.presence.markOverrunAlerted(change.id, now.toISOString());
+      if (!marked.success) {
+        console.error(`[presence] Marking overrun for ${change.id} failed:`, marked.error);
+        result.failed++;
+        continue;
+      }
+      result.alerted++;
+    } catch (err) {
+      console.error(`[presence] Overrun alert for ${change.id} failed:`, err);
+      result.failed++;
+    }
+  }
+  return result;
+}
@@ -15,14 +15,26 @@ export interface SoqlQueryResult<T> {
   nextRecordsUrl?: string;
 }
 
+export interface SoslSearchResult<T> {
+  searchRecords: T[];
+}
+
 export interface SalesforceCreateResult {
   id: string;
   success: boolean;
   errors: SalesforceError[];
 }
 
+/** The parts of an object describe the app reads */
+export interface SObjectDescribe {
+  name: string;
+  fields: { name: string; type: string }[];
+}
+
 export interface SalesforceError {
   statusCode: string;
+  /** REST API error responses name the code here rather than in statusCode */
+  errorCode?: string;
   message: string;
   fields?: string[];
 }
@@ -210,6 +222,55 @@ export async function queryAllSalesforce<T>(
   return allRecords;
 }
 
+/**
+ * Execute a SOSL search against Salesforce
+ */
+export async function searchSalesforce<T>(
+  instanceUrl: string,
+  accessToken: string,
+  sosl: string
+): Promise<SoslSearchResult<T>> {
+  const url = `${instanceUrl}/services/data/v62.0/search?q=${encodeURIComponent(sosl)}`;
+
+  console.log(`[Salesforce Search] ${sosl.slice(0, 200)}...`);
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  await handleSalesforceResponse(response, 'Search');
+
+  const result = (await response.json()) as SoslSearchResult<T>;
+  console.log(`[Salesforce Search Result] ${result.searchRecords.length} records`);
+  return result;
+}
+
+/**
+ * Describe an object as it is in this org, including fields that only
+ * newer package versions have
+ */
+export async function describeSalesforceObject(
+  instanceUrl: string,
+  accessToken: string,
+  objectName: string
+): Promise<SObjectDescribe> {
+  const url = `${instanceUrl}/services/data/v62.0/sobjects/${objectName}/describe`;
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  await handleSalesforceResponse(response, 'Describe');
+
+  return (await response.json()) as SObjectDescribe;
+}
+
 /**
  * Check if we're in demo mode or have valid credentials
  */
@@ -297,6 +358,46 @@ export async function deleteSalesforce(
   console.log(`[Salesforce Delete] Success`);
 }
 
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Result of one input to a standard invocable action
+ */
+export interface SalesforceActionResult {
+  actionName: string;
+  isSuccess: boolean;
+  errors: { statusCode: string; message: string }[] | null;
+  outputValues: Record<string, unknown> | null;
+}
+
+/**
+ * Run a standard invocable action (e.g. `emailSimple`) once per input
+ */
+export async function invokeStandardAction(
+  instanceUrl: string,
+  accessToken: string,
+  action: string,
+  inputs: Record<string, unknown>[]
+): Promise<SalesforceActionResult[]> {
+  const url = `${instanceUrl}/services/data/v62.0/actions/standard/${action}`;
+
+  console.log(`[Salesforce Action] ${action} x${inputs.length}`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ inputs }),
+  });
+
+  await handleSalesforceResponse(response, 'Action');
+  return (await response.json()) as SalesforceActionResult[];
+}
+
 // =============================================================================
 // Bulk Operations (using Composite API)
 // =============================================================================
@@ -0,0 +1,140 @@
+/**
+ * Shared Cache
+ *
+ * A small key-value cache that every server instance sees, for state that
+ * would otherwise be rebuilt by each instance on its own (the wallboard
+ * aggregator's calls, agents and totals). With `KV_REST_API_URL` and
+ * `KV_REST_API_TOKEN` set - as the Vercel KV / Upstash Redis integration
+ * does - it is that store, spoken to over its REST API. Without them it is
+ * a map in this process, which is only shared by one long-running server.
+ *
+ * Values are JSON. Callers treat the cache as an optimisation: a failed
+ * read or write should fall back to doing the work themselves.
+ */
+
+import { env } from '$env/dynamic/private';
+
+export interface SharedCache {
+  /** Whether other server instances see the same values */
+  readonly shared: boolean;
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  /**
+   * Set `key` only if nothing holds it; true if this caller got it. Used as
+   * a short lock so one instance does work the others then read.
+   */
+  claim(key: string, ttlMs: number): Promise<boolean>;
+}
+
+/** How long a request to the REST store may take before it counts as failed */
+const REST_TIMEOUT_MS = 2_000;
+
+/** How often the in-process cache drops expired entries nobody has read */
+const MEMORY_SWEEP_INTERVAL_MS = 60_000;
+
+/** A cache in this process */
+export class MemorySharedCache implements SharedCache {
+  readonly shared = false;
+  private entries = new Map<string, { value: string; expires: number }>();
+  private lastSweep: number;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.lastSweep = now();
+  }
+
+  /** Entries held, including expired ones not yet swept */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expires <= this.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return JSON.parse(entry.value) as T;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const now = this.now();
+    if (now - this.lastSweep >= MEMORY_SWEEP_INTERVAL_MS) this.sweep(now);
+    this.entries.set(key, { value: JSON.stringify(value), expires: now + ttlMs });
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    if ((await this.get(key)) !== null) return false;
+    await this.set(key, 1, ttlMs);
+    return true;
+  }
+
+  /** Drop expired entries, which would otherwise stay until read again */
+  private sweep(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expires <= now) this.entries.delete(key);
+    }
+    this.lastSweep = now;
+  }
+}
+
+/** A Redis-compatible store behind an Upstash-style REST API */
+export class RestSharedCache implements SharedCache {
+  readonly shared = true;
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+    private readonly fetchFn: typeof fetch = fetch
+  ) {}
+
+  private async command<T>(args: (string | number)[]): Promise<T> {
+    const response = await this.fetchFn(this.url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(REST_TIMEOUT_MS),
+    });
+    const body = (await response.json().catch(() => null)) as {
+      result?: T;
+      error?: string;
+    } | null;
+    if (!response.ok || !body || body.error) {
+      throw new Error(`Shared cache ${args[0]} failed: ${body?.error ?? response.status}`);
+    }
+    return body.result as T;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.command<string | null>(['GET', key]);
+    return value === null ? null : (JSON.parse(value) as T);
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    await this.command(['SET', key, JSON.stringify(value), 'PX', Math.max(1, Math.round(ttlMs))]);
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.command<string | null>([
+      'SET',
+      key,
+      '1',
+      'NX',
+      'PX',
+      Math.max(1, Math.round(ttlMs)),
+    ]);
+    return result === 'OK';
+  }
+}
+
+let cache: SharedCache | null = null;
+
+/** The deployment's shared cache */
+export function getSharedCache(): SharedCache {
+  if (!cache) {
+    const url = env.KV_REST_API_URL;
+    const token = env.KV_REST_API_TOKEN;
+    cache = url && token ? new RestSharedCache(url, token) : new MemorySharedCache();
+  }
+  return cache;
+}
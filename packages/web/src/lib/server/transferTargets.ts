@@ -0,0 +1,81 @@
+/**
+ * Webphone Transfer Targets
+ *
+ * Searches the org's users, groups and phone numbers for the webphone's
+ * transfer picker. Users and groups are reached on their extension, so
+ * those without one are left out, as are disabled users.
+ */
+
+import type { Repositories } from '$lib/repositories';
+import type { TransferTarget, TransferTargetKind } from '$lib/components/webphone/types';
+
+/** Results returned per search, across all kinds */
+export const TRANSFER_TARGET_LIMIT = 20;
+
+const KIND_ORDER: TransferTargetKind[] = ['user', 'group', 'phoneNumber'];
+
+function normaliseDigits(value: string): string {
+  return value.replace(/[^\d+]/g, '');
+}
+
+/**
+ * Whether a target matches the query: by name (any word start or substring)
+ * or by its destination, ignoring spaces and punctuation in numbers
+ */
+export function matchesTransferTarget(target: TransferTarget, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  if (target.name.toLowerCase().includes(q)) return true;
+
+  const digits = normaliseDigits(q);
+  return digits.length > 0 && normaliseDigits(target.destination).includes(digits);
+}
+
+/**
+ * Order matches: names starting with the query first, then by kind
+ * (users, groups, numbers) and name
+ */
+export function rankTransferTargets(targets: TransferTarget[], query: string): TransferTarget[] {
+  const q = query.trim().toLowerCase();
+  const startsWith = (target: TransferTarget) => (q && target.name.toLowerCase().startsWith(q) ? 0 : 1);
+
+  return targets
+    .filter((target) => matchesTransferTarget(target, query))
+    .sort(
+      (a, b) =>
+        startsWith(a) - startsWith(b) ||
+        KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Search the repositories for transfer targets. Repositories that don't
+ * support `search` return everything, so matches are filtered again here.
+ */
+export async function searchTransferTargets(
+  repos: Repositories,
+  query: string,
+  limit = TRANSFER_TARGET_LIMIT
+): Promise<TransferTarget[]> {
+  const params = { page: 1, pageSize: 200, search: query.trim() || undefined };
+  const [users, groups, phoneNumbers] = await Promise.all([
+    repos.users.findAll(params),
+    repos.groups.findAll(params),
+    repos.phoneNumbers.findAll(params),
+  ]);
+
+  const targets: TransferTarget[] = [
+    ...users.items
+      .filter((u) => u.enabled && u.extension)
+      .map((u) => ({ kind: 'user' as const, id: u.id, name: u.name, destination: u.extension })),
+    ...groups.items
+      .filter((g) => g.extension)
+      .map((g) => ({ kind: 'group' as const, id: g.id, name: g.name, destination: g.extension })),
+    ...phoneNumbers.items
+      .filter((p) => p.number)
+      .map((p) => ({ kind: 'phoneNumber' as const, id: p.id, name: p.name || p.number, destination: p.number })),
+  ];
+
+  return rankTransferTargets(targets, query).slice(0, limit);
+}
@@ -0,0 +1,357 @@
+/**
+ * Wallboard Stats Aggregator
+ *
+ * Keeps one live picture of an org's calls and agents so that wallboards
+ * don't each rebuild their stats from the platform. Calls and agents are
+ * loaded once and then kept current from the source's call and agent-state
+ * events; a source without events is reloaded every `pollMs` instead.
+ * While wallboards are connected, every filter they show is recomputed
+ * each tick and only the fields that changed are sent to them, and the
+ * calls and agents are recorded for their trends.
+ *
+ * Aggregators live in this server process, one per org, and only run while
+ * a stream is subscribed. On a serverless deployment each instance holding
+ * a stream has its own, so when polling they share what they load through
+ * the `shared` cache: whichever instance finds the calls and agents stale
+ * reloads them and the rest read its copy, as they do call totals. With
+ * events, each instance keeps its own listener for as long as its streams
+ * are open.
+ */
+
+import {
+  type WallboardAgent,
+  type WallboardAgentStatus,
+  type WallboardCall,
+  type WallboardCallTotals,
+  type WallboardStats,
+  type WallboardStatsDelta,
+  type WallboardStatsFilter,
+} from '$lib/domain';
+import { buildWallboardStats, diffWallboardStats, wallboardStatsFilterKey } from '$lib/wallboard';
+import type { SharedCache } from './sharedCache';
+import type { WallboardTrendRecorder } from './wallboardTrends';
+
+/** A call as an event describes it. Events that don't know the queue leave the one already recorded. */
+export interface WallboardCallUpdate {
+  call: Omit<WallboardCall, 'queue'> & { queue?: string | null };
+  ended: boolean;
+}
+
+export interface WallboardAgentUpdate {
+  platformId: number;
+  status: WallboardAgentStatus;
+}
+
+export interface WallboardEventHandlers {
+  call: (update: WallboardCallUpdate) => void;
+  agent: (update: WallboardAgentUpdate) => void;
+  /** Events may have been missed, so calls and agents need reloading */
+  resync: () => void;
+}
+
+export interface WallboardStatsSource {
+  loadCalls(): Promise<WallboardCall[]>;
+  loadAgents(): Promise<WallboardAgent[]>;
+  loadCallTotals(filter: WallboardStatsFilter): Promise<WallboardCallTotals>;
+  /** Start delivering events; returns a function that stops them */
+  listen?(handlers: WallboardEventHandlers): () => void;
+}
+
+export interface WallboardAggregatorOptions {
+  /** How often connected filters are recomputed */
+  tickMs?: number;
+  /** How long call-log totals are reused */
+  totalsMs?: number;
+  /** How often calls and agents are reloaded while events keep them current, to correct any drift */
+  reloadMs?: number;
+  /** How often calls and agents are reloaded without events, and how long to wait after a failed load */
+  pollMs?: number;
+  /** Given the calls and agents each tick, for the connected filters' trends */
+  trends?: Pick<WallboardTrendRecorder, 'record'>;
+  /** Where polled calls, agents and totals are shared with the org's other aggregators, under `key` */
+  shared?: { cache: SharedCache; key: string };
+}
+
+export type WallboardStatsListener = (delta: WallboardStatsDelta) => void;
+
+interface FilterSubscription {
+  filter: WallboardStatsFilter;
+  /** The stats listeners last heard about */
+  stats: WallboardStats;
+  listeners: Set<WallboardStatsListener>;
+}
+
+interface CachedTotals {
+  totals: Promise<WallboardCallTotals>;
+  loadedAt: number;
+}
+
+/** Calls and agents as one aggregator loaded them for the others */
+interface SharedLoad {
+  calls: WallboardCall[];
+  agents: WallboardAgent[];
+  loadedAt: number;
+}
+
+const NO_TOTALS: WallboardCallTotals = { totalCalls: 0, avgCallDuration: 0, serviceLevel: 100 };
+
+export class WallboardAggregator {
+  private readonly source: WallboardStatsSource;
+  private readonly tickMs: number;
+  private readonly totalsMs: number;
+  private readonly reloadMs: number;
+  private readonly pollMs: number;
+  private readonly trends: Pick<WallboardTrendRecorder, 'record'> | null;
+  private readonly shared: { cache: SharedCache; key: string } | null;
+
+  private calls = new Map<string, WallboardCall>();
+  private agents: WallboardAgent[] = [];
+  private loadedAt = 0;
+  private failedAt = 0;
+  private loading: Promise<void> | null = null;
+  private readonly totals = new Map<string, CachedTotals>();
+  private readonly subscriptions = new Map<string, FilterSubscription>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private stopListening: (() => void) | null = null;
+  private ticking = false;
+
+  constructor(source: WallboardStatsSource, options: WallboardAggregatorOptions = {}) {
+    this.source = source;
+    this.tickMs = options.tickMs ?? 1000;
+    this.totalsMs = options.totalsMs ?? 60_000;
+    this.reloadMs = options.reloadMs ?? 300_000;
+    this.pollMs = options.pollMs ?? 10_000;
+    this.trends = options.trends ?? null;
+    this.shared = options.shared ?? null;
+  }
+
+  /** Current stats for a filter, reloading calls and agents first if events aren't keeping them current */
+  async snapshot(filter: WallboardStatsFilter): Promise<WallboardStats> {
+    await this.ensureLoaded();
+    return this.build(filter, await this.callTotals(filter));
+  }
+
+  /**
+   * Stats for a filter now, then each change to them until `unsubscribe`.
+   * The first subscriber starts the aggregator listening for events and
+   * ticking; it stops when the last one leaves.
+   */
+  async subscribe(
+    filter: WallboardStatsFilter,
+    listener: WallboardStatsListener
+  ): Promise<{ stats: WallboardStats; unsubscribe: () => void }> {
+    const key = wallboardStatsFilterKey(filter);
+    this.start();
+
+    let stats: WallboardStats;
+    try {
+      stats = await this.snapshot(filter);
+    } catch (e) {
+      if (this.subscriptions.size === 0) this.stop();
+      throw e;
+    }
+
+    let subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      subscription = { filter, stats, listeners: new Set() };
+      this.subscriptions.set(key, subscription);
+    }
+    subscription.listeners.add(listener);
+
+    const current = subscription;
+    return {
+      // Deltas are worked out against the stats listeners already have
+      stats: current.stats,
+      unsubscribe: () => {
+        current.listeners.delete(listener);
+        if (current.listeners.size === 0 && this.subscriptions.get(key) === current) {
+          this.subscriptions.delete(key);
+        }
+        if (this.subscriptions.size === 0) this.stop();
+      },
+    };
+  }
+
+  /** Stop listening and ticking, whoever is still subscribed */
+  dispose(): void {
+    this.subscriptions.clear();
+    this.stop();
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.tick(), this.tickMs);
+    if (this.source.listen) {
+      this.stopListening = this.source.listen({
+        call: (update) => this.applyCall(update),
+        agent: (update) => this.applyAgent(update),
+        resync: () =>
+          void this.reload().catch((e) =>
+            console.warn('Failed to reload wallboard calls and agents:', e)
+          ),
+      });
+      // Nothing kept the state current before now
+      this.loadedAt = 0;
+    }
+  }
+
+  private stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.stopListening?.();
+    this.stopListening = null;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.ensureLoaded();
+      for (const subscription of this.subscriptions.values()) {
+        const next = this.build(subscription.filter, await this.callTotals(subscription.filter));
+        const delta = diffWallboardStats(subscription.stats, next);
+        subscription.stats = next;
+        if (delta) subscription.listeners.forEach((listener) => listener(delta));
+      }
+      this.trends?.record(
+        [...this.subscriptions.values()].map((s) => s.filter),
+        [...this.calls.values()],
+        this.agents
+      );
+      this.pruneTotals();
+    } catch (e) {
+      console.warn('Failed to refresh wallboard stats:', e);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    const now = Date.now();
+    const maxAge = this.stopListening ? this.reloadMs : this.pollMs;
+    if (now - this.loadedAt < maxAge || now - this.failedAt < this.pollMs) return;
+    await this.reload();
+  }
+
+  /** Load calls and agents in full; concurrent callers share one load */
+  private reload(): Promise<void> {
+    this.loading ??= this.load()
+      .then(({ calls, agents, loadedAt }) => {
+        this.calls = new Map(calls.map((c) => [c.id, c]));
+        this.agents = agents;
+        this.loadedAt = loadedAt;
+      })
+      .catch((e) => {
+        this.failedAt = Date.now();
+        throw e;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+
+  private async loadFromSource(): Promise<SharedLoad> {
+    const [calls, agents] = await Promise.all([this.source.loadCalls(), this.source.loadAgents()]);
+    return { calls, agents, loadedAt: Date.now() };
+  }
+
+  /**
+   * Calls and agents from the source, or from the shared cache when another
+   * aggregator polled them recently or is polling them now. Listening for
+   * events always loads from the source, since the events only reach this
+   * aggregator.
+   */
+  private async load(): Promise<SharedLoad> {
+    const shared = this.shared;
+    if (!shared || this.stopListening) return this.loadFromSource();
+
+    try {
+      const cached = await shared.cache.get<SharedLoad>(shared.key);
+      if (cached && Date.now() - cached.loadedAt < this.pollMs) return cached;
+      if (cached && !(await shared.cache.claim(`${shared.key}:loading`, this.pollMs))) return cached;
+    } catch (e) {
+      console.warn('Failed to read shared wallboard stats:', e);
+    }
+
+    const loaded = await this.loadFromSource();
+    shared.cache
+      .set(shared.key, loaded, this.pollMs * 6)
+      .catch((e) => console.warn('Failed to share wallboard stats:', e));
+    return loaded;
+  }
+
+  /** Totals from the source, or from the shared cache when another aggregator loaded them recently */
+  private async loadTotals(filter: WallboardStatsFilter): Promise<WallboardCallTotals> {
+    const shared = this.shared;
+    if (!shared) return this.source.loadCallTotals(filter);
+
+    const key = `${shared.key}:totals:${wallboardStatsFilterKey(filter)}`;
+    const cached = await shared.cache.get<WallboardCallTotals>(key).catch(() => null);
+    if (cached) return cached;
+
+    const totals = await this.source.loadCallTotals(filter);
+    shared.cache
+      .set(key, totals, this.totalsMs)
+      .catch((e) => console.warn('Failed to share wallboard call totals:', e));
+    return totals;
+  }
+
+  /** Totals for a filter, reused for `totalsMs`; a failed load keeps the previous totals */
+  private callTotals(filter: WallboardStatsFilter): Promise<WallboardCallTotals> {
+    const key = wallboardStatsFilterKey(filter);
+    const now = Date.now();
+    const cached = this.totals.get(key);
+    if (cached && now - cached.loadedAt < this.totalsMs) return cached.totals;
+
+    const previous = cached?.totals ?? Promise.resolve(NO_TOTALS);
+    const totals = this.loadTotals(filter).catch((e) => {
+      console.warn('Failed to load wallboard call totals:', e);
+      return previous;
+    });
+    this.totals.set(key, { totals, loadedAt: now });
+    return totals;
+  }
+
+  private pruneTotals(): void {
+    const now = Date.now();
+    for (const [key, cached] of this.totals) {
+      if (!this.subscriptions.has(key) && now - cached.loadedAt >= this.totalsMs)
+        this.totals.delete(key);
+    }
+  }
+
+  private applyCall({ call, ended }: WallboardCallUpdate): void {
+    if (ended) {
+      this.calls.delete(call.id);
+      return;
+    }
+    const queue = call.queue !== undefined ? call.queue : (this.calls.get(call.id)?.queue ?? null);
+    this.calls.set(call.id, { ...call, queue });
+  }
+
+  private applyAgent({ platformId, status }: WallboardAgentUpdate): void {
+    this.agents = this.agents.map((a) => (a.platformId === platformId ? { ...a, status } : a));
+  }
+
+  private build(filter: WallboardStatsFilter, totals: WallboardCallTotals): WallboardStats {
+    return buildWallboardStats(filter, [...this.calls.values()], this.agents, totals);
+  }
+}
+
+// orgKey -> aggregator
+const aggregators = new Map<string, WallboardAggregator>();
+
+/** The org's aggregator, created from `createSource` the first time it's asked for */
+export function getWallboardAggregator(
+  orgKey: string,
+  createSource: () => WallboardStatsSource,
+  options?: WallboardAggregatorOptions
+): WallboardAggregator {
+  let aggregator = aggregators.get(orgKey);
+  if (!aggregator) {
+    aggregator = new WallboardAggregator(createSource(), options);
+    aggregators.set(orgKey, aggregator);
+  }
+  return aggregator;
+}
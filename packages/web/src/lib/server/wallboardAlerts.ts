@@ -0,0 +1,286 @@
+/**
+ * Wallboard Alert Notifications
+ *
+ * Checks a wallboard's stats against its alert rules and, once a rule has
+ * been breached for its `notifyAfterSeconds`, notifies the wallboard's
+ * webhook and email recipients. A breach notifies once, and once more if
+ * it has been red that long too; it has to clear before it notifies again.
+ *
+ * Rules are checked by `/api/cron/wallboard-alerts` every minute, as the
+ * integration user, whether or not anyone has the wallboard open. A rule's
+ * `notifyAfterSeconds` is therefore met at the first check after it has
+ * passed. What each breach has notified is kept in the shared cache between
+ * checks; without one (see `sharedCache.ts`) it only carries over on a
+ * long-running server.
+ */
+
+import {
+  type Wallboard,
+  type WallboardAlertLevel,
+  type WallboardAlertSettings,
+  type WallboardRuleBreach,
+  type WallboardStats,
+  type WallboardStatsFilter,
+} from '$lib/domain';
+import {
+  describeWallboardRuleBreach,
+  evaluateWallboardRules,
+  wallboardRuleFilters,
+  wallboardStatsFilterKey,
+} from '$lib/wallboard';
+import type { SharedCache } from './sharedCache';
+import { postWebhook } from './webhooks';
+
+export interface WallboardAlertNotification {
+  wallboard: Pick<Wallboard, 'id' | 'name'>;
+  breach: WallboardRuleBreach;
+  /** The level that has held for the rule's `notifyAfterSeconds` */
+  level: WallboardAlertLevel;
+  filter: WallboardStatsFilter;
+  /** When the breach began */
+  since: string;
+  message: string;
+}
+
+export type WallboardAlertNotifier = (notification: WallboardAlertNotification) => Promise<void>;
+
+/** A breach being tracked, by rule, filter and queue */
+export interface WallboardAlertBreachState {
+  since: number;
+  redSince: number | null;
+  notified: WallboardAlertLevel | null;
+}
+
+export interface WallboardAlertCheckResult {
+  /** Notifications sent */
+  notified: number;
+  /** Notifications that failed; they are tried again on the next check */
+  failed: number;
+}
+
+export class WallboardAlertMonitor {
+  private readonly wallboard: Wallboard;
+  private readonly notify: WallboardAlertNotifier;
+  private readonly stats = new Map<string, WallboardStats>();
+  private readonly breaches: Map<string, WallboardAlertBreachState>;
+
+  /** `breaches` carries on from an earlier monitor's `breachStates()` */
+  constructor(
+    wallboard: Wallboard,
+    notify: WallboardAlertNotifier,
+    breaches: Record<string, WallboardAlertBreachState> = {}
+  ) {
+    this.wallboard = wallboard;
+    this.notify = notify;
+    this.breaches = new Map(Object.entries(breaches));
+  }
+
+  /** Filters the rules are checked under, which `update` should be given stats for */
+  filters(): WallboardStatsFilter[] {
+    const filters = new Map<string, WallboardStatsFilter>();
+    for (const rule of this.notifyingRules()) {
+      for (const filter of wallboardRuleFilters(this.wallboard.layout, rule)) {
+        filters.set(wallboardStatsFilterKey(filter), filter);
+      }
+    }
+    return [...filters.values()];
+  }
+
+  update(filter: WallboardStatsFilter, stats: WallboardStats): void {
+    this.stats.set(wallboardStatsFilterKey(filter), stats);
+  }
+
+  /** Breaches still being tracked, for the next monitor */
+  breachStates(): Record<string, WallboardAlertBreachState> {
+    return Object.fromEntries(this.breaches);
+  }
+
+  /**
+   * Notify breaches that have now held long enough; breaches that cleared
+   * are forgotten. A notification that fails is sent again by a later check.
+   */
+  async check(now = Date.now()): Promise<WallboardAlertCheckResult> {
+    const current = new Set<string>();
+    const sends: Promise<boolean>[] = [];
+
+    for (const rule of this.notifyingRules()) {
+      const after = (rule.notifyAfterSeconds ?? 0) * 1000;
+      for (const filter of wallboardRuleFilters(this.wallboard.layout, rule)) {
+        const filterKey = wallboardStatsFilterKey(filter);
+        const stats = this.stats.get(filterKey);
+        if (!stats) continue;
+
+        for (const breach of evaluateWallboardRules([rule], stats)) {
+          const key = [rule.id, filterKey, breach.queue ?? ''].join('|');
+          current.add(key);
+
+          const state = this.breaches.get(key) ?? { since: now, redSince: null, notified: null };
+          state.redSince = breach.level === 'red' ? (state.redSince ?? now) : null;
+          this.breaches.set(key, state);
+
+          const held = (since: number | null) => since !== null && now - since >= after;
+          const level = held(state.redSince) ? 'red' : held(state.since) ? 'amber' : null;
+          if (!level || level === state.notified || state.notified === 'red') continue;
+
+          const previous = state.notified;
+          state.notified = level;
+          sends.push(
+            this.notify({
+              wallboard: { id: this.wallboard.id, name: this.wallboard.name },
+              breach,
+              level,
+              filter,
+              since: new Date(state.since).toISOString(),
+              message: describeWallboardRuleBreach(breach),
+            }).then(
+              () => true,
+              (e) => {
+                console.warn('Failed to send wallboard alert:', e);
+                if (state.notified === level) state.notified = previous;
+                return false;
+              }
+            )
+          );
+        }
+      }
+    }
+
+    for (const key of this.breaches.keys()) {
+      if (!current.has(key)) this.breaches.delete(key);
+    }
+
+    const sent = await Promise.all(sends);
+    const notified = sent.filter(Boolean).length;
+    return { notified, failed: sent.length - notified };
+  }
+
+  private notifyingRules() {
+    return this.wallboard.layout.alerts.rules.filter((r) => r.notifyAfterSeconds !== null);
+  }
+}
+
+/**
+ * Sends notifications to the settings' webhook (as JSON, through
+ * `postWebhook`, so only to allowed hosts) and email recipients. A failure
+ * on one doesn't stop the other; the returned promise rejects if either
+ * fails.
+ */
+export function createWallboardAlertNotifier(
+  settings: WallboardAlertSettings,
+  sendEmail: (recipients: string[], subject: string, body: string) => Promise<void>,
+  webhook: (url: string, body: unknown) => Promise<void> = postWebhook
+): WallboardAlertNotifier {
+  return async (notification) => {
+    const { wallboard, breach, level, filter, since, message } = notification;
+    const sends: Promise<void>[] = [];
+
+    if (settings.webhookUrl) {
+      sends.push(
+        webhook(settings.webhookUrl, {
+          wallboardId: wallboard.id,
+          wallboardName: wallboard.name,
+          ruleId: breach.rule.id,
+          field: breach.rule.field,
+          queue: breach.queue,
+          level,
+          value: breach.value,
+          threshold: breach.rule[level],
+          filter,
+          since,
+          message,
+        })
+      );
+    }
+
+    if (settings.emails.length > 0) {
+      const subject = `[${level === 'red' ? 'Red' : 'Amber'}] ${wallboard.name}: ${message}`;
+      const scope = [
+        filter.queue && `queue ${filter.queue}`,
+        filter.groupId && `group ${filter.groupId}`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      const body = [
+        `${message} on wallboard "${wallboard.name}"${scope ? ` (${scope})` : ''}.`,
+        `Breached since ${since}.`,
+      ].join('\n\n');
+      sends.push(sendEmail(settings.emails, subject, body));
+    }
+
+    const failed = (await Promise.allSettled(sends)).find(
+      (r): r is PromiseRejectedResult => r.status === 'rejected'
+    );
+    if (failed) throw failed.reason;
+  };
+}
+
+/** How long a check holds the org's lock, so overlapping runs don't notify twice */
+const CHECK_LOCK_MS = 50_000;
+/** How long breach states are kept without a check */
+const BREACH_STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface WallboardAlertJobResult extends WallboardAlertCheckResult {
+  /** Wallboards whose rules were checked */
+  checked: number;
+}
+
+/**
+ * Check the wallboards' rules against current stats, carrying each
+ * wallboard's breaches over from the last check in `state.cache` under
+ * `state.key`. Editing a wallboard starts its breaches afresh. Does nothing
+ * if another check for the same key is still running; if the lock can't be
+ * taken at all, the check runs anyway.
+ */
+export async function checkWallboardAlerts(
+  wallboards: Wallboard[],
+  snapshot: (filter: WallboardStatsFilter) => Promise<WallboardStats>,
+  createNotifier: (wallboard: Wallboard) => WallboardAlertNotifier,
+  state: { cache: SharedCache; key: string },
+  now = Date.now()
+): Promise<WallboardAlertJobResult> {
+  const result: WallboardAlertJobResult = { checked: 0, notified: 0, failed: 0 };
+  const { cache, key } = state;
+  // An unreachable cache shouldn't stop alerts, so the check then runs unlocked
+  const claimed = await cache.claim(`${key}:running`, CHECK_LOCK_MS).catch((e) => {
+    console.error('Failed to lock the wallboard alert check:', e);
+    return true;
+  });
+  if (!claimed) return result;
+
+  // filter key -> stats, shared by wallboards showing the same filter
+  const stats = new Map<string, Promise<WallboardStats>>();
+  const statsFor = (filter: WallboardStatsFilter) => {
+    const filterKey = wallboardStatsFilterKey(filter);
+    if (!stats.has(filterKey)) stats.set(filterKey, snapshot(filter));
+    return stats.get(filterKey)!;
+  };
+
+  for (const wallboard of wallboards) {
+    if (!wallboard.enabled) continue;
+    const stateKey = `${key}:${wallboard.id}:${wallboard.lastModified}`;
+    try {
+      const breaches = await cache
+        .get<Record<string, WallboardAlertBreachState>>(stateKey)
+        .catch(() => null);
+      const monitor = new WallboardAlertMonitor(
+        wallboard,
+        createNotifier(wallboard),
+        breaches ?? {}
+      );
+      const filters = monitor.filters();
+      if (filters.length === 0) continue;
+
+      for (const filter of filters) monitor.update(filter, await statsFor(filter));
+      const checked = await monitor.check(now);
+      await cache.set(stateKey, monitor.breachStates(), BREACH_STATE_TTL_MS);
+
+      result.checked++;
+      result.notified += checked.notified;
+      result.failed += checked.failed;
+    } catch (e) {
+      console.error(`Failed to check alert rules for wallboard ${wallboard.id}:`, e);
+      result.failed++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,151 @@
+/**
+ * Wallboard Kiosk Links
+ *
+ * A kiosk link shows one wallboard, read-only, on a screen nobody signs in
+ * to. The share itself lives in the wallboard's configuration; the link's
+ * token only names it. The token is sealed with AES-256-GCM under
+ * `WALLBOARD_SHARE_SECRET`, so it can't be read or forged without the
+ * secret, and carries the share's id, the wallboard and an expiry. Kiosks
+ * read the org as the integration user (see `integration.ts`), not as
+ * whoever created the link, and only ever load their own wallboard and
+ * that wallboard's stats.
+ *
+ * The token alone isn't enough. Each time it is used the share must still
+ * be in the wallboard's configuration, unrevoked and unexpired, so revoking
+ * it there stops the link. Only Team Leaders and Admins create and revoke
+ * links.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { env } from '$env/dynamic/private';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import type { PermissionLevel, Wallboard, WallboardShare } from '$lib/domain';
+import { isWallboardShareActive } from '$lib/wallboard';
+import type { PlatformType } from '$lib/platform';
+import type { Repositories } from '$lib/repositories';
+import {
+  getIntegrationLocals,
+  getIntegrationPlatform,
+  isIntegrationConfigured,
+} from './integration';
+
+export interface WallboardShareClaims {
+  shareId: string;
+  wallboardId: string;
+  /** When the link expires, in seconds since the epoch */
+  exp: number;
+  platform: PlatformType;
+}
+
+export interface WallboardKiosk {
+  wallboard: Wallboard;
+  share: WallboardShare;
+  /** The integration user's request locals, to load the wallboard's stats with */
+  locals: App.Locals;
+}
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+const SHARING_PERMISSION_LEVELS: readonly PermissionLevel[] = ['Team Leader', 'Admin'];
+
+/** The secret kiosk links are sealed with, or null when sharing isn't configured */
+export function getWallboardShareSecret(): string | null {
+  return env.WALLBOARD_SHARE_SECRET || null;
+}
+
+function shareKey(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Why kiosk links can't be created or opened on this server, or null when
+ * they can: they need the secret to seal them and an integration user for
+ * kiosks to read the org as
+ */
+export function wallboardSharingProblem(): string | null {
+  if (!getWallboardShareSecret()) return 'Kiosk links need WALLBOARD_SHARE_SECRET to be set';
+  if (!isIntegrationConfigured()) return 'Kiosk links need an integration user to be configured';
+  return null;
+}
+
+/**
+ * Whether the signed-in user may create and revoke kiosk links: Team
+ * Leaders and Admins, and anyone in demo mode
+ */
+export async function canManageWallboardShares(
+  locals: App.Locals,
+  repos: Repositories,
+  isDemo: boolean
+): Promise<boolean> {
+  if (isDemo) return true;
+  const userId = locals.user?.id;
+  const user = userId ? await repos.users.findBySalesforceUserId(userId) : null;
+  return !!user && SHARING_PERMISSION_LEVELS.includes(user.permissionLevel);
+}
+
+/** A URL-safe token holding the claims, readable only with the secret */
+export function sealWallboardShareToken(claims: WallboardShareClaims, secret: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', shareKey(secret), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(claims), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+/**
+ * The claims in a token, or null if it wasn't sealed with this secret, has
+ * been altered or has expired.
+ */
+export function openWallboardShareToken(
+  token: string,
+  secret: string,
+  now = Date.now()
+): WallboardShareClaims | null {
+  const sealed = Buffer.from(token, 'base64url');
+  if (sealed.length <= IV_BYTES + TAG_BYTES) return null;
+
+  let claims: WallboardShareClaims;
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      shareKey(secret),
+      sealed.subarray(0, IV_BYTES)
+    );
+    decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    const decrypted = Buffer.concat([
+      decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]);
+    claims = JSON.parse(decrypted.toString('utf8')) as WallboardShareClaims;
+  } catch {
+    return null;
+  }
+
+  if (typeof claims.shareId !== 'string' || typeof claims.wallboardId !== 'string') return null;
+  // Links made before kiosks read as the integration user sealed in their creator's refresh token
+  if ('refreshToken' in claims) return null;
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+  return claims;
+}
+
+/**
+ * The wallboard a kiosk token shows, with the integration user's locals to
+ * load its stats with, or null if the link is invalid, expired or revoked.
+ */
+export async function openWallboardKiosk(token: string): Promise<WallboardKiosk | null> {
+  const secret = getWallboardShareSecret();
+  if (!secret) return null;
+
+  const claims = openWallboardShareToken(token, secret);
+  if (!claims || claims.platform !== getIntegrationPlatform()) return null;
+
+  const locals = await getIntegrationLocals();
+  const repos = locals && tryCreateContextAndRepositories(locals)?.repos;
+  if (!locals || !repos) return null;
+
+  const wallboard = await repos.wallboards.findById(claims.wallboardId);
+  const share = wallboard?.shares.find((s) => s.id === claims.shareId);
+  if (!wallboard || !share || !isWallboardShareActive(share)) return null;
+
+  return { wallboard, share, locals };
+}
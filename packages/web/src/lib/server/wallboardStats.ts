@@ -0,0 +1,509 @@
+/**
+ * Live Wallboard Stats
+ *
+ * Connects each org's wallboard aggregator to its data: agents and call
+ * totals from the platform, and calls in progress from Sapien (or the demo
+ * adapter). Orgs opted in with `CHARLIE_DATA_SOURCE=wallboards` also get
+ * Charlie's call and agent-state events, so their calls and agents are
+ * reloaded only occasionally; other orgs are reloaded every few seconds,
+ * which is one set of upstream requests per org however many wallboards
+ * are open - per server instance, unless a shared cache is configured (see
+ * `sharedCache.ts`), in which case it is one for the whole deployment.
+ * Streams end themselves within the serverless function timeout and the
+ * browser reconnects.
+ *
+ * An aggregator outlives the request that created it, so its source reads
+ * credentials from the org's most recent signed-in request. Kiosks, which
+ * read as the integration user, never replace those; their request is only
+ * used while nobody signed in has asked for the org's stats. Alert rules are checked
+ * apart from any display, as the integration user (see `wallboardAlerts.ts`).
+ */
+
+import { env } from '$env/dynamic/private';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import type { Repositories } from '$lib/repositories';
+import {
+  type WallboardAgentStatus,
+  type WallboardCall,
+  type WallboardStatsFilter,
+  type WallboardTrend,
+  type WallboardTrendBucket,
+  type WallboardTrendSeries,
+} from '$lib/domain';
+import { wallboardStatsFilterKey, wallboardTrendKey } from '$lib/wallboard';
+import {
+  MOCK_REALTIME_PREFIX,
+  MockRealtimeServer,
+  appSyncTransport,
+  CharlieOperations,
+  type RealtimeTransport,
+} from '$lib/charlie';
+import { isDomainEnabled } from '$lib/charlie/server';
+import { realtimeScenarios } from '$lib/charlie/fixtures/realtime';
+import { canUseSapienApi, getOrganizationId, sapienApiRequest } from './gatekeeper';
+import {
+  WallboardAggregator,
+  getWallboardAggregator,
+  type WallboardAgentUpdate,
+  type WallboardCallUpdate,
+  type WallboardEventHandlers,
+  type WallboardStatsSource,
+} from './wallboardAggregator';
+import { getSharedCache } from './sharedCache';
+import {
+  checkWallboardAlerts,
+  createWallboardAlertNotifier,
+  type WallboardAlertJobResult,
+} from './wallboardAlerts';
+import {
+  WallboardTrendRecorder,
+  loadWallboardTrend,
+  wallboardTrendStore,
+  withRecordedAgents,
+} from './wallboardTrends';
+
+interface SapienCall {
+  id: string;
+  state: string;
+  direction: string;
+  timeStart?: string;
+  queue?: {
+    id: number;
+    name: string;
+  };
+}
+
+/** `onCallEvent` payload; recording and DTMF events have no `call` */
+interface CharlieCallEvent {
+  type?: string;
+  call?: {
+    id: string;
+    direction: string | null;
+    state: string | null;
+    startedAt: string | null;
+    answeredAt: string | null;
+    endedAt: string | null;
+  };
+}
+
+interface CharlieAgentStateEvent {
+  state: {
+    userId: number;
+    availability: string;
+  };
+}
+
+interface OrgRequest {
+  locals: App.Locals;
+  repos: Repositories;
+  isDemo: boolean;
+}
+
+export interface WallboardStatsRequestOptions {
+  /** The locals are a kiosk link's integration user rather than someone signed in */
+  kiosk?: boolean;
+}
+
+// orgKey -> the org's most recent signed-in request
+const latestRequests = new Map<string, OrgRequest>();
+// orgKey -> the org's most recent kiosk request
+const kioskRequests = new Map<string, OrgRequest>();
+
+/**
+ * The aggregator for the signed-in user's (or kiosk's) org, or null when
+ * the request isn't authenticated.
+ */
+export function getWallboardStatsAggregator(
+  locals: App.Locals,
+  options: WallboardStatsRequestOptions = {}
+): WallboardAggregator | null {
+  const recorded = recordOrgRequest(locals, options);
+  if (!recorded) return null;
+  return orgAggregator(recorded.orgKey);
+}
+
+/**
+ * Today's trend for a filter's queue and group beside the same weekday
+ * last week, or null when the request isn't authenticated. Call counts
+ * come from the platform's call history where it has one for the filter,
+ * and everything else from what the org's aggregator has recorded.
+ */
+export async function getWallboardTrend(
+  locals: App.Locals,
+  filter: WallboardStatsFilter,
+  series: WallboardTrendSeries,
+  options: WallboardStatsRequestOptions = {}
+): Promise<WallboardTrend | null> {
+  const recorded = recordOrgRequest(locals, options);
+  if (!recorded) return null;
+  const { orgKey, request } = recorded;
+
+  return loadWallboardTrend(async (from, to) => {
+    const [kept, seen] = await Promise.all([
+      loadTrendHistory(request, orgKey, filter, from, to),
+      wallboardTrendStore.query(orgKey, wallboardTrendKey(filter), from, to),
+    ]);
+    return kept ? withRecordedAgents(kept, seen) : seen;
+  }, series);
+}
+
+/** How long the platform's trend history is reused while its range is still filling */
+const CURRENT_TREND_HISTORY_MS = 60_000;
+/** How long it is reused once its range has passed */
+const PAST_TREND_HISTORY_MS = 6 * 60 * 60 * 1000;
+
+/** The platform's trend history, through the shared cache */
+async function loadTrendHistory(
+  request: OrgRequest,
+  orgKey: string,
+  filter: WallboardStatsFilter,
+  from: Date,
+  to: Date
+): Promise<WallboardTrendBucket[] | null> {
+  const cache = getSharedCache();
+  const key = `wallboard-trends:${orgKey}:${wallboardTrendKey(filter)}:${from.toISOString()}`;
+  const cached = await cache.get<{ buckets: WallboardTrendBucket[] | null }>(key).catch(() => null);
+  if (cached) return cached.buckets;
+
+  const buckets = await request.repos.wallboards.getTrendHistory(filter, from, to);
+  const ttlMs = to.getTime() <= Date.now() ? PAST_TREND_HISTORY_MS : CURRENT_TREND_HISTORY_MS;
+  await cache
+    .set(key, { buckets }, ttlMs)
+    .catch((e) => console.warn('Failed to cache wallboard trend history:', e));
+  return buckets;
+}
+
+/** Most wallboards an org's alert check covers */
+const MAX_ALERT_WALLBOARDS = 200;
+
+/**
+ * Check the alert rules of every enabled wallboard in the locals' org and
+ * notify breaches that have held long enough, or null when the locals
+ * aren't authenticated. Run by `/api/cron/wallboard-alerts` as the
+ * integration user, so emails are sent as that user, or from
+ * `SALESFORCE_ALERT_SENDER_ADDRESS` when it is set. Stats come from a
+ * one-off aggregator, which reads the live aggregators' copy when a shared
+ * cache is configured.
+ */
+export async function checkWallboardAlertRules(
+  locals: App.Locals
+): Promise<WallboardAlertJobResult | null> {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) return null;
+
+  const request: OrgRequest = { locals, repos: result.repos, isDemo: result.isDemo };
+  const orgKey = orgKeyOf(request);
+  const cache = getSharedCache();
+  const aggregator = new WallboardAggregator(
+    createWallboardStatsSource(() => request),
+    {
+      shared: cache.shared ? { cache, key: `wallboards:${orgKey}` } : undefined,
+    }
+  );
+
+  const wallboards = await result.repos.wallboards.findAll({
+    page: 1,
+    pageSize: MAX_ALERT_WALLBOARDS,
+    filters: { enabled: true },
+  });
+  try {
+    return await checkWallboardAlerts(
+      wallboards.items,
+      (filter) => aggregator.snapshot(filter),
+      (wallboard) =>
+        createWallboardAlertNotifier(wallboard.layout.alerts, async (recipients, subject, body) => {
+          const sent = await result.repos.notifications.sendEmail(recipients, subject, body);
+          if (!sent.success) throw new Error(sent.error ?? 'Failed to send alert email');
+        }),
+      { cache, key: `wallboard-alerts:${orgKey}` }
+    );
+  } finally {
+    aggregator.dispose();
+  }
+}
+
+/** Comment sent on idle streams so proxies don't close them */
+const HEARTBEAT_MS = 15_000;
+/** How long the browser waits before reconnecting a dropped stream */
+const RETRY_MS = 5_000;
+/** How long the browser waits before reconnecting a stream that ended itself */
+const RENEW_RETRY_MS = 250;
+
+/**
+ * Longest a stats stream stays open. Serverless functions are stopped at
+ * their `maxDuration` (set to 300 seconds on the stream routes), so a
+ * stream ends itself before that and the browser reconnects to a fresh one
+ * straight away rather than seeing it cut off.
+ */
+export const WALLBOARD_STREAM_MAX_MS = 270_000;
+
+function sseEvent(name: string, data: unknown): string {
+  return `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Server-sent events for the filters' stats: first a `snapshot` event
+ * `{ key, stats }` for each filter, then a `delta` event `{ key, delta }`
+ * with the fields that changed whenever a filter's stats do. `key` is the
+ * filter's `wallboardStatsFilterKey`. If stats can't be loaded the stream
+ * closes and the browser reconnects; after `maxMs` it closes and the
+ * browser reconnects at once. `onClose` runs once the stream ends, however
+ * it ends.
+ */
+export function wallboardStatsStreamResponse(
+  aggregator: Pick<WallboardAggregator, 'subscribe'>,
+  filters: WallboardStatsFilter[],
+  signal: AbortSignal,
+  onClose: () => void = () => {},
+  maxMs: number = WALLBOARD_STREAM_MAX_MS
+): Response {
+  const encoder = new TextEncoder();
+  const unsubscribes: (() => void)[] = [];
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let lifetime: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        clearTimeout(lifetime);
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+        onClose();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away
+        }
+      };
+      signal.addEventListener('abort', close);
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      for (const filter of filters) {
+        const key = wallboardStatsFilterKey(filter);
+        try {
+          const { stats, unsubscribe } = await aggregator.subscribe(filter, (delta) =>
+            send(sseEvent('delta', { key, delta }))
+          );
+          if (closed) {
+            unsubscribe();
+            return;
+          }
+          unsubscribes.push(unsubscribe);
+          send(sseEvent('snapshot', { key, stats }));
+        } catch (e) {
+          console.error('Failed to subscribe to wallboard stats:', e);
+          close();
+          return;
+        }
+      }
+      heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+      lifetime = setTimeout(() => {
+        send(`retry: ${RENEW_RETRY_MS}\n\n`);
+        close();
+      }, maxMs);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+function orgAggregator(orgKey: string): WallboardAggregator {
+  const cache = getSharedCache();
+  const latest = (): OrgRequest => {
+    const request = latestRequests.get(orgKey) ?? kioskRequests.get(orgKey);
+    if (!request) throw new Error(`No request seen for wallboard org ${orgKey}`);
+    return request;
+  };
+  return getWallboardAggregator(orgKey, () => createWallboardStatsSource(latest), {
+    trends: new WallboardTrendRecorder(wallboardTrendStore, orgKey),
+    shared: cache.shared ? { cache, key: `wallboards:${orgKey}` } : undefined,
+  });
+}
+
+/** Remember the request as its org's latest signed-in or kiosk request; null if unauthenticated */
+function recordOrgRequest(
+  locals: App.Locals,
+  { kiosk = false }: WallboardStatsRequestOptions
+): { orgKey: string; request: OrgRequest } | null {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) return null;
+
+  const request: OrgRequest = { locals, repos: result.repos, isDemo: result.isDemo };
+  const orgKey = orgKeyOf(request);
+  (kiosk ? kioskRequests : latestRequests).set(orgKey, request);
+  return { orgKey, request };
+}
+
+function orgKeyOf({ locals, isDemo }: OrgRequest): string {
+  return isDemo ? 'demo' : (locals.instanceUrl ?? 'default');
+}
+
+/** Stats from whichever request `latest` returns when they're loaded */
+function createWallboardStatsSource(latest: () => OrgRequest): WallboardStatsSource {
+  const transport = createCharlieTransport(latest());
+
+  return {
+    loadAgents: () => latest().repos.wallboards.getAgents(),
+    loadCallTotals: (filter) => latest().repos.wallboards.getCallTotals(filter),
+    loadCalls: async () => {
+      const { locals, repos, isDemo } = latest();
+      return !isDemo && canUseSapienApi(locals)
+        ? loadSapienCalls(locals)
+        : repos.wallboards.getActiveCalls();
+    },
+    listen: transport
+      ? (handlers) => {
+          const connection = transport(() => latest().locals.charlieSession?.jwt ?? '');
+          const stop = listenForWallboardEvents(connection, handlers);
+          return () => {
+            stop();
+            connection.dispose();
+          };
+        }
+      : undefined,
+  };
+}
+
+/**
+ * A way to connect to Charlie's realtime API for the org, or null when the
+ * org isn't opted in or this runtime can't hold a WebSocket. A `mock:` URL
+ * connects to a local mock server playing the named scenario.
+ */
+function createCharlieTransport(
+  request: OrgRequest
+): ((getJwt: () => string) => RealtimeTransport) | null {
+  const url = env.CHARLIE_APPSYNC_WSS;
+  if (request.isDemo || !url || !request.locals.charlieSession || !isDomainEnabled('wallboards'))
+    return null;
+
+  if (url.startsWith(MOCK_REALTIME_PREFIX)) {
+    return (getJwt) => {
+      const server = new MockRealtimeServer(realtimeScenarios);
+      const connection = server.transport({ config: { url, getJwt }, reportHealth: () => {} });
+      const scenario = url.slice(MOCK_REALTIME_PREFIX.length);
+      if (scenario)
+        server.play(scenario).catch((e) => console.warn('[wallboards] mock realtime', e));
+      return {
+        subscribe: connection.subscribe,
+        dispose: () => {
+          server.stop();
+          connection.dispose();
+        },
+      };
+    };
+  }
+
+  if (typeof WebSocket === 'undefined') return null;
+  return (getJwt) =>
+    appSyncTransport({
+      config: {
+        url,
+        getJwt,
+        onClose: ({ code, reason }) =>
+          console.warn(`[wallboards] realtime closed: ${code} ${reason}`),
+      },
+      reportHealth: () => {},
+    });
+}
+
+/** Subscribe to every call and agent-state event in the org; returns a function that unsubscribes */
+export function listenForWallboardEvents(
+  transport: RealtimeTransport,
+  handlers: WallboardEventHandlers
+): () => void {
+  const calls = transport.subscribe<{ onCallEvent: CharlieCallEvent }>(
+    { query: CharlieOperations.OnCallEventSubscription, variables: {} },
+    {
+      next: (data) => {
+        const update = wallboardCallUpdate(data.onCallEvent);
+        if (update) handlers.call(update);
+      },
+      error: (e) => console.warn('[wallboards] onCallEvent error', e),
+      resync: () => handlers.resync(),
+    }
+  );
+  const agents = transport.subscribe<{ onAgentStateChanged: CharlieAgentStateEvent }>(
+    { query: CharlieOperations.OnAgentStateChangedSubscription, variables: {} },
+    {
+      next: (data) => handlers.agent(wallboardAgentUpdate(data.onAgentStateChanged)),
+      error: (e) => console.warn('[wallboards] onAgentStateChanged error', e),
+      resync: () => handlers.resync(),
+    }
+  );
+
+  return () => {
+    calls.dispose();
+    agents.dispose();
+  };
+}
+
+function wallboardCallUpdate(event: CharlieCallEvent): WallboardCallUpdate | null {
+  const call = event.call;
+  if (!call) return null;
+
+  return {
+    call: {
+      id: call.id,
+      direction: wallboardCallDirection(call.direction),
+      waiting: !call.answeredAt,
+      startedAt: call.startedAt ?? new Date().toISOString(),
+    },
+    ended: event.type === 'HUNGUP' || call.state === 'HUNGUP' || !!call.endedAt,
+  };
+}
+
+function wallboardAgentUpdate(event: CharlieAgentStateEvent): WallboardAgentUpdate {
+  const statuses: Record<string, WallboardAgentStatus> = { AVAILABLE: 'available', BUSY: 'busy' };
+  return {
+    platformId: event.state.userId,
+    status: statuses[event.state.availability] ?? 'offline',
+  };
+}
+
+function wallboardCallDirection(direction: string | null | undefined): WallboardCall['direction'] {
+  const value = direction?.toLowerCase() || '';
+  if (value.includes('internal')) return 'internal';
+  if (value.includes('in')) return 'inbound';
+  if (value.includes('out')) return 'outbound';
+  return 'internal';
+}
+
+/** The org's calls in progress, from Sapien */
+async function loadSapienCalls(locals: App.Locals): Promise<WallboardCall[]> {
+  const organizationId = getOrganizationId();
+  if (!organizationId) {
+    throw new Error('No organization ID configured');
+  }
+
+  const calls = await sapienApiRequest<SapienCall[]>(
+    locals.instanceUrl!,
+    locals.accessToken!,
+    'GET',
+    `/organisation/${organizationId}/call`
+  );
+  if (!Array.isArray(calls)) return [];
+
+  return calls.map((call) => ({
+    id: call.id,
+    direction: wallboardCallDirection(call.direction),
+    waiting: !!call.state?.toLowerCase().includes('ring'),
+    startedAt: call.timeStart ?? new Date().toISOString(),
+    queue: call.queue?.name ?? null,
+  }));
+}
@@ -0,0 +1,234 @@
+/**
+ * Wallboard Trends
+ *
+ * Counts, interval by interval, what an org's aggregator sees: calls
+ * starting, inbound calls answered or abandoned while waiting, and how
+ * many of the staffed agents are busy. The aggregator hands its calls and
+ * agents to a `WallboardTrendRecorder` each tick, which works out what
+ * changed since the last and adds it to the store.
+ *
+ * Recorded trends only cover the time an aggregator was running, which is
+ * while some wallboard showing the queue and group was open, and the store
+ * here keeps them in this server process. So where the platform keeps call
+ * history - Salesforce's call logs, or the demo data - call counts come from
+ * it, and recordings only fill in what it doesn't know: how busy agents
+ * were, and trends for a queue. A durable store can take this one's place
+ * through `WallboardTrendStore`.
+ */
+
+import {
+  type WallboardAgent,
+  type WallboardCall,
+  type WallboardStatsFilter,
+  type WallboardTrend,
+  type WallboardTrendBucket,
+  type WallboardTrendCounts,
+  type WallboardTrendSeries,
+} from '$lib/domain';
+import {
+  buildWallboardTrend,
+  emptyWallboardTrendCounts,
+  wallboardTrendIntervalStart,
+  wallboardTrendKey,
+  wallboardTrendRanges,
+} from '$lib/wallboard';
+
+export interface WallboardTrendStore {
+  /** Add counts to an interval, creating it if need be */
+  add(
+    orgKey: string,
+    trendKey: string,
+    start: Date,
+    counts: Partial<WallboardTrendCounts>
+  ): Promise<void>;
+  /** The intervals recorded that start from `from` up to (not including) `to`, oldest first */
+  query(orgKey: string, trendKey: string, from: Date, to: Date): Promise<WallboardTrendBucket[]>;
+}
+
+/** Long enough to compare today with the same day last week */
+const RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+export class MemoryWallboardTrendStore implements WallboardTrendStore {
+  // orgKey|trendKey -> interval start (ms) -> counts
+  private readonly trends = new Map<string, Map<number, WallboardTrendCounts>>();
+
+  async add(
+    orgKey: string,
+    trendKey: string,
+    start: Date,
+    counts: Partial<WallboardTrendCounts>
+  ): Promise<void> {
+    const key = `${orgKey}|${trendKey}`;
+    let buckets = this.trends.get(key);
+    if (!buckets) {
+      buckets = new Map();
+      this.trends.set(key, buckets);
+    }
+
+    const time = wallboardTrendIntervalStart(start).getTime();
+    const bucket = buckets.get(time) ?? emptyWallboardTrendCounts();
+    for (const field of Object.keys(counts) as (keyof WallboardTrendCounts)[]) {
+      bucket[field] += counts[field] ?? 0;
+    }
+    buckets.set(time, bucket);
+    this.prune(buckets, time);
+  }
+
+  async query(
+    orgKey: string,
+    trendKey: string,
+    from: Date,
+    to: Date
+  ): Promise<WallboardTrendBucket[]> {
+    const buckets = this.trends.get(`${orgKey}|${trendKey}`) ?? new Map();
+    return [...buckets]
+      .filter(([time]) => time >= from.getTime() && time < to.getTime())
+      .sort(([a], [b]) => a - b)
+      .map(([time, counts]) => ({ start: new Date(time).toISOString(), ...counts }));
+  }
+
+  private prune(buckets: Map<number, WallboardTrendCounts>, latest: number): void {
+    for (const time of buckets.keys()) {
+      if (latest - time > RETENTION_MS) buckets.delete(time);
+    }
+  }
+}
+
+interface SeenCall {
+  direction: WallboardCall['direction'];
+  waiting: boolean;
+}
+
+interface TrendState {
+  /** Calls in the trend's queue at the last tick, which have been counted */
+  calls: Map<string, SeenCall>;
+  recordedAt: number;
+}
+
+/**
+ * Longer than this between ticks and the aggregator wasn't watching in
+ * between, so calls that went meanwhile count as neither answered nor
+ * abandoned
+ */
+const MAX_GAP_MS = 60_000;
+
+/** Turns an aggregator's ticks into trend counts for one org */
+export class WallboardTrendRecorder {
+  private readonly store: WallboardTrendStore;
+  private readonly orgKey: string;
+  private readonly states = new Map<string, TrendState>();
+
+  constructor(store: WallboardTrendStore, orgKey: string) {
+    this.store = store;
+    this.orgKey = orgKey;
+  }
+
+  /** Record the calls and agents for each filter's queue and group */
+  record(
+    filters: readonly WallboardStatsFilter[],
+    calls: readonly WallboardCall[],
+    agents: readonly WallboardAgent[],
+    now = new Date()
+  ): void {
+    const recorded = new Set<string>();
+    for (const filter of filters) {
+      const trendKey = wallboardTrendKey(filter);
+      if (recorded.has(trendKey)) continue;
+      recorded.add(trendKey);
+      this.recordTrend(trendKey, filter, calls, agents, now);
+    }
+
+    for (const trendKey of this.states.keys()) {
+      if (!recorded.has(trendKey)) this.states.delete(trendKey);
+    }
+  }
+
+  private recordTrend(
+    trendKey: string,
+    filter: WallboardStatsFilter,
+    calls: readonly WallboardCall[],
+    agents: readonly WallboardAgent[],
+    now: Date
+  ): void {
+    const state = this.states.get(trendKey);
+    const seenBefore = state?.calls ?? new Map<string, SeenCall>();
+    const comparable = !!state && now.getTime() - state.recordedAt <= MAX_GAP_MS;
+    const current = new Map<string, SeenCall>();
+    const counts = emptyWallboardTrendCounts();
+    const started = new Map<number, number>();
+
+    for (const call of calls) {
+      if (filter.queue && call.queue !== filter.queue) continue;
+      current.set(call.id, { direction: call.direction, waiting: call.waiting });
+
+      const seen = seenBefore.get(call.id);
+      if (!seen) {
+        // Counted in the interval it started in, which may be before it was seen
+        const startedAt = Date.parse(call.startedAt);
+        const at = Number.isNaN(startedAt) ? now.getTime() : Math.min(startedAt, now.getTime());
+        const time = wallboardTrendIntervalStart(new Date(at)).getTime();
+        started.set(time, (started.get(time) ?? 0) + 1);
+      } else if (comparable && seen.waiting && !call.waiting && call.direction === 'inbound') {
+        counts.answered++;
+      }
+    }
+
+    if (comparable) {
+      for (const [id, seen] of seenBefore) {
+        if (!current.has(id) && seen.waiting && seen.direction === 'inbound') counts.abandoned++;
+      }
+    }
+
+    for (const agent of agents) {
+      if (filter.groupId && !agent.groupIds.includes(filter.groupId)) continue;
+      if (agent.status === 'busy') counts.busyAgents++;
+      if (agent.status === 'busy' || agent.status === 'available') counts.staffedAgents++;
+    }
+
+    this.states.set(trendKey, { calls: current, recordedAt: now.getTime() });
+
+    const add = (start: Date, changes: Partial<WallboardTrendCounts>) =>
+      this.store
+        .add(this.orgKey, trendKey, start, changes)
+        .catch((e) => console.warn('Failed to record wallboard trend:', e));
+    void add(now, counts);
+    for (const [time, count] of started) void add(new Date(time), { calls: count });
+  }
+}
+
+/** Today's trend for a series beside last week's, from buckets `query` returns */
+export async function loadWallboardTrend(
+  query: (from: Date, to: Date) => Promise<WallboardTrendBucket[]>,
+  series: WallboardTrendSeries,
+  now = new Date()
+): Promise<WallboardTrend> {
+  const ranges = wallboardTrendRanges(now);
+  const [lastWeek, today] = await Promise.all([
+    query(ranges.lastWeek.from, ranges.lastWeek.to),
+    query(ranges.today.from, new Date(now.getTime() + 1)),
+  ]);
+  return buildWallboardTrend(series, [...lastWeek, ...today], now);
+}
+
+/**
+ * The platform's intervals with the agent samples recorded over them, for
+ * intervals the platform has no agent samples for. Intervals only the
+ * recorder saw keep just their agent samples, since the platform's call
+ * counts are complete.
+ */
+export function withRecordedAgents(
+  kept: readonly WallboardTrendBucket[],
+  recorded: readonly WallboardTrendBucket[]
+): WallboardTrendBucket[] {
+  const buckets = new Map(kept.map((b) => [Date.parse(b.start), { ...b }]));
+  for (const { start, busyAgents, staffedAgents } of recorded) {
+    const time = Date.parse(start);
+    const bucket = buckets.get(time) ?? { start, ...emptyWallboardTrendCounts() };
+    if (bucket.staffedAgents > 0) continue;
+    buckets.set(time, { ...bucket, busyAgents, staffedAgents });
+  }
+  return [...buckets].sort(([a], [b]) => a - b).map(([, bucket]) => bucket);
+}
+
+/** Where this process's aggregators record trends */
+export const wallboardTrendStore: WallboardTrendStore = new MemoryWallboardTrendStore();
@@ -0,0 +1,142 @@
+/**
+ * Wallboard Request Helpers
+ *
+ * Shared by the designer pages and the stats endpoints: reading the posted
+ * designer form, the groups widgets can be filtered to, and the stats
+ * filters and trends wallboards ask for.
+ */
+
+import type { Repositories } from '$lib/repositories';
+import {
+  DEFAULT_WALLBOARD_STATS_FILTER,
+  isWallboardTimeWindow,
+  isWallboardTrendSeries,
+  type CreateWallboardInput,
+  type Wallboard,
+  type WallboardStatsFilter,
+  type WallboardTrendSeries,
+} from '$lib/domain';
+import { parseWallboardLayout, wallboardStatsFilterKey } from '$lib/wallboard';
+import { webhookUrlProblem } from './webhooks';
+
+const WALLBOARD_TYPES: Wallboard['type'][] = ['queue', 'agent', 'custom'];
+
+/** Most widgets one wallboard can hold */
+export const MAX_WALLBOARD_WIDGETS = 50;
+
+/** Most alert rules one wallboard can hold */
+export const MAX_WALLBOARD_ALERT_RULES = 20;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * The wallboard from the designer form: `name`, `description`, `type` and
+ * `layout` (JSON). The layout is parsed as if it were stored, so unknown
+ * widgets and rules are dropped and the rest are fitted to the grid; alert
+ * webhooks must be HTTPS on an allowed host (see `webhooks.ts`) and
+ * recipients valid email addresses.
+ */
+export function readWallboardForm(
+  formData: FormData
+): { data: CreateWallboardInput } | { error: string } {
+  const name = formData.get('name')?.toString().trim() ?? '';
+  const description = formData.get('description')?.toString().trim() ?? '';
+  const type = formData.get('type')?.toString() as Wallboard['type'];
+
+  if (!name) {
+    return { error: 'Name is required' };
+  }
+  if (!WALLBOARD_TYPES.includes(type)) {
+    return { error: 'Choose a wallboard type' };
+  }
+
+  const layout = parseWallboardLayout(formData.get('layout')?.toString());
+  if (layout.widgets.length > MAX_WALLBOARD_WIDGETS) {
+    return { error: `A wallboard can have at most ${MAX_WALLBOARD_WIDGETS} widgets` };
+  }
+
+  const { alerts } = layout;
+  if (alerts.rules.length > MAX_WALLBOARD_ALERT_RULES) {
+    return { error: `A wallboard can have at most ${MAX_WALLBOARD_ALERT_RULES} alert rules` };
+  }
+  if (alerts.rules.some((r) => r.amber === null && r.red === null)) {
+    return { error: 'Each alert rule needs an amber or red threshold' };
+  }
+  const webhookProblem = alerts.webhookUrl ? webhookUrlProblem(alerts.webhookUrl) : null;
+  if (webhookProblem) {
+    return { error: webhookProblem };
+  }
+  const badEmail = alerts.emails.find((e) => !EMAIL_PATTERN.test(e));
+  if (badEmail) {
+    return { error: `${badEmail} is not a valid email address` };
+  }
+
+  return { data: { name, description, type, layout } };
+}
+
+/** Groups for the designer's agent group filter */
+export async function loadWallboardGroups(
+  repos: Repositories
+): Promise<{ id: string; name: string }[]> {
+  try {
+    const result = await repos.groups.findAll({ page: 1, pageSize: 1000 });
+    return result.items
+      .map((g) => ({ id: g.id, name: g.name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (e) {
+    console.warn('Failed to fetch groups for wallboard designer:', e);
+    return [];
+  }
+}
+
+/** `?queue=&groupId=&window=`, each optional */
+export function readWallboardStatsFilter(params: URLSearchParams): WallboardStatsFilter {
+  return toWallboardStatsFilter({
+    queue: params.get('queue'),
+    groupId: params.get('groupId'),
+    window: params.get('window'),
+  });
+}
+
+/** `?series=&queue=&groupId=`; null if the series isn't one wallboards track */
+export function readWallboardTrendQuery(
+  params: URLSearchParams
+): { filter: WallboardStatsFilter; series: WallboardTrendSeries } | null {
+  const series = params.get('series');
+  if (!isWallboardTrendSeries(series)) return null;
+  return { filter: readWallboardStatsFilter(params), series };
+}
+
+/**
+ * `?filters=` as a JSON array of `{ queue, groupId, window }`, one per
+ * distinct widget filter. Duplicates are dropped and anything past
+ * MAX_WALLBOARD_WIDGETS ignored; null if the parameter isn't a JSON array.
+ */
+export function readWallboardStatsFilters(params: URLSearchParams): WallboardStatsFilter[] | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(params.get('filters') ?? '');
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(raw)) return null;
+
+  const filters = new Map<string, WallboardStatsFilter>();
+  for (const item of raw.slice(0, MAX_WALLBOARD_WIDGETS)) {
+    const filter = toWallboardStatsFilter(typeof item === 'object' && item !== null ? item : {});
+    filters.set(wallboardStatsFilterKey(filter), filter);
+  }
+  return [...filters.values()];
+}
+
+function toWallboardStatsFilter(raw: {
+  queue?: unknown;
+  groupId?: unknown;
+  window?: unknown;
+}): WallboardStatsFilter {
+  return {
+    queue: (typeof raw.queue === 'string' && raw.queue.trim()) || null,
+    groupId: (typeof raw.groupId === 'string' && raw.groupId) || null,
+    window: isWallboardTimeWindow(raw.window) ? raw.window : DEFAULT_WALLBOARD_STATS_FILTER.window,
+  };
+}
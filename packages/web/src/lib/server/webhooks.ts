@@ -0,0 +1,144 @@
+/**
+ * Outbound Webhooks
+ *
+ * Webhook URLs are entered by users, so the server only calls ones an
+ * admin has allowed: `WALLBOARD_WEBHOOK_HOSTS` lists the hosts, e.g.
+ * `hooks.slack.com,*.webhook.office.com` (a leading `*.` allows any
+ * subdomain). With it unset no webhooks are allowed. Allowed hosts must
+ * still resolve only to public addresses, so a hostname can't be pointed
+ * at the deployment's own network, and each call is time-limited and
+ * doesn't follow redirects.
+ */
+
+import { lookup as dnsLookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { env } from '$env/dynamic/private';
+
+/** How long a webhook may take to answer */
+export const WEBHOOK_TIMEOUT_MS = 5_000;
+
+/** Host patterns from `WALLBOARD_WEBHOOK_HOSTS` */
+export function getWebhookHosts(): string[] {
+  return (env.WALLBOARD_WEBHOOK_HOSTS ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function hostMatches(hostname: string, pattern: string): boolean {
+  return pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1)) && hostname.length > pattern.length - 1
+    : hostname === pattern;
+}
+
+/**
+ * Why a webhook URL can't be used, or null if it can: it must be https://,
+ * on the default port and on an allowed host
+ */
+export function webhookUrlProblem(
+  value: string,
+  allowedHosts: readonly string[] = getWebhookHosts()
+): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'The alert webhook must be an https:// URL';
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) {
+    return 'The alert webhook must be an https:// URL';
+  }
+  if (url.port) {
+    return 'The alert webhook must use the standard https port';
+  }
+  const hostname = url.hostname.toLowerCase();
+  if (allowedHosts.length === 0) {
+    return 'Alert webhooks are not enabled on this server';
+  }
+  if (!allowedHosts.some((pattern) => hostMatches(hostname, pattern))) {
+    return `Alert webhooks can only go to ${allowedHosts.join(', ')}`;
+  }
+  return null;
+}
+
+function ipv4Parts(address: string): number[] | null {
+  const parts = address.split('.').map(Number);
+  return parts.length === 4 && parts.every((p) => Number.isInteger(p) && p >= 0 && p <= 255)
+    ? parts
+    : null;
+}
+
+/** Loopback, private, link-local, carrier-grade NAT, multicast, reserved or unspecified */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+  const v4 = ipv4Parts(mapped ? mapped[1]! : ip);
+  if (v4) {
+    const [a, b] = v4 as [number, number, number, number];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+  if (isIP(ip) !== 6) return true;
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    ip.startsWith('fc') ||
+    ip.startsWith('fd') ||
+    /^fe[89ab]/.test(ip) ||
+    ip.startsWith('ff') ||
+    ip.startsWith('::ffff:')
+  );
+}
+
+export interface WebhookOptions {
+  fetchFn?: typeof fetch;
+  /** Every address a hostname resolves to */
+  lookup?: (hostname: string) => Promise<string[]>;
+  allowedHosts?: readonly string[];
+  timeoutMs?: number;
+}
+
+async function lookupAll(hostname: string): Promise<string[]> {
+  return (await dnsLookup(hostname, { all: true })).map((entry) => entry.address);
+}
+
+/** POST `body` as JSON to an allowed webhook. Throws if it isn't allowed or doesn't answer 2xx. */
+export async function postWebhook(
+  url: string,
+  body: unknown,
+  {
+    fetchFn = fetch,
+    lookup = lookupAll,
+    allowedHosts = getWebhookHosts(),
+    timeoutMs = WEBHOOK_TIMEOUT_MS,
+  }: WebhookOptions = {}
+): Promise<void> {
+  const problem = webhookUrlProblem(url, allowedHosts);
+  if (problem) throw new Error(problem);
+
+  const { hostname } = new URL(url);
+  const addresses = isIP(hostname.replace(/^\[|\]$/g, '')) ? [hostname] : await lookup(hostname);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Alert webhook host ${hostname} resolves to a private address`);
+  }
+
+  const response = await fetchFn(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Alert webhook failed (${response.status})`);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for the click-to-dial store
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { dial, dialerReady, normalizeDialNumber, registerDialHandler, telHref } from '../dialer';
+
+describe('Dialer Store', () => {
+  describe('normalizeDialNumber', () => {
+    it('should strip formatting and keep a leading +', () => {
+      expect(normalizeDialNumber(' +44 (0)20 7946-0000 ')).toBe('+4402079460000');
+      expect(normalizeDialNumber('2001')).toBe('2001');
+      expect(normalizeDialNumber('*72#')).toBe('*72#');
+      expect(normalizeDialNumber('+')).toBe('');
+    });
+
+    it('should build tel: links from the normalized number', () => {
+      expect(telHref('+1 (555) 010-9999')).toBe('tel:+15550109999');
+    });
+  });
+
+  describe('dial', () => {
+    it('should return false when no webphone is registered', () => {
+      expect(get(dialerReady)).toBe(false);
+      expect(dial('2001')).toBe(false);
+    });
+
+    it('should pass the normalized number to the registered handler', () => {
+      const handler = vi.fn(() => true);
+      const unregister = registerDialHandler(handler);
+
+      expect(get(dialerReady)).toBe(true);
+      expect(dial('+44 20 7946 0000')).toBe(true);
+      expect(handler).toHaveBeenCalledWith('+442079460000');
+      expect(dial('  ')).toBe(false);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      unregister();
+      expect(get(dialerReady)).toBe(false);
+      expect(dial('2001')).toBe(false);
+    });
+
+    it('should keep a newer handler when an older one unregisters', () => {
+      const unregisterOld = registerDialHandler(() => false);
+      const unregisterNew = registerDialHandler(() => true);
+
+      unregisterOld();
+      expect(dial('2001')).toBe(true);
+
+      unregisterNew();
+      expect(get(dialerReady)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { writable, type Readable } from 'svelte/store';
+
+/**
+ * Click-to-dial from anywhere in the app. The webphone is dynamic-imported
+ * (JsSIP stays out of the main bundle), so pages can't call it directly:
+ * it registers a handler here once its SIP UA is registered, and pages
+ * call `dial()`. Without a handler `dial()` returns false and a `tel:` link
+ * falls through to the OS dialler.
+ */
+
+/** Places a call; returns false if it couldn't be started. */
+export type DialHandler = (number: string) => boolean;
+
+let dialHandler: DialHandler | null = null;
+const ready = writable(false);
+
+/** Whether `dial()` will reach the webphone. */
+export const dialerReady: Readable<boolean> = { subscribe: ready.subscribe };
+
+/**
+ * Strip formatting from a number as it's displayed: keeps digits, a
+ * leading +, and * / # for feature codes.
+ */
+export function normalizeDialNumber(value: string): string {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/[^\d*#]/g, '');
+  return trimmed.startsWith('+') && digits ? `+${digits}` : digits;
+}
+
+export function telHref(number: string): string {
+  return `tel:${normalizeDialNumber(number)}`;
+}
+
+/**
+ * Install the webphone's dial handler. Returns a function that removes it
+ * again (only if it's still the installed one).
+ */
+export function registerDialHandler(handler: DialHandler): () => void {
+  dialHandler = handler;
+  ready.set(true);
+  return () => {
+    if (dialHandler !== handler) return;
+    dialHandler = null;
+    ready.set(false);
+  };
+}
+
+/** Call a number on the webphone. */
+export function dial(number: string): boolean {
+  const normalized = normalizeDialNumber(number);
+  if (!dialHandler || !normalized) return false;
+  return dialHandler(normalized);
+}
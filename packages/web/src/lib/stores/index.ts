@@ -3,3 +3,4 @@ export * from './auth';
 export * from './toast';
 export * from './policy-editor';
 
+export * from './dialer';
@@ -65,6 +65,10 @@ export interface PolicyState {
   isDirty: boolean;
   isSaving: boolean;
   lastSaved: Date | null;
+  /** Saved version the canvas is based on (the policy's last modified date) */
+  version: string | null;
+  /** Set when a save was refused because someone else saved a newer version */
+  hasConflict: boolean;
 }
 
 export interface ActiveNodeState {
@@ -98,6 +102,8 @@ const initialPolicyState: PolicyState = {
   isDirty: false,
   isSaving: false,
   lastSaved: null,
+  version: null,
+  hasConflict: false,
 };
 
 const initialActiveNode: ActiveNodeState = {
@@ -156,6 +162,7 @@ export function initializePolicy(
     color?: string;
     grid?: boolean;
     isActive: boolean;
+    version?: string | null;
   },
   context: PolicyEditorContext
 ) {
@@ -169,6 +176,8 @@ export function initializePolicy(
     isDirty: false,
     isSaving: false,
     lastSaved: null,
+    version: policy.version ?? null,
+    hasConflict: false,
   });
 
   nodes.set(policy.body.nodes || []);
@@ -265,15 +274,37 @@ export function markSaving() {
   policyState.update((s) => ({ ...s, isSaving: true }));
 }
 
-export function markSaved() {
+export function markSaved(version?: string | null) {
   policyState.update((s) => ({
     ...s,
     isDirty: false,
     isSaving: false,
     lastSaved: new Date(),
+    version: version ?? s.version,
+    hasConflict: false,
   }));
 }
 
+export function markSaveFailed() {
+  policyState.update((s) => ({ ...s, isSaving: false }));
+}
+
+/**
+ * Record that a save was refused because someone else saved the policy after
+ * the canvas was loaded. The canvas stays dirty until it is saved again.
+ */
+export function markConflict() {
+  policyState.update((s) => ({ ...s, isSaving: false, hasConflict: true }));
+}
+
+/**
+ * Rebase the canvas onto a newer saved version. A merged canvas still needs
+ * saving; a reloaded one matches what is saved.
+ */
+export function resolveConflict(version: string, isDirty = true) {
+  policyState.update((s) => ({ ...s, version, isDirty, hasConflict: false }));
+}
+
 // History management
 function saveToHistory() {
   const currentNodes = get(nodes);
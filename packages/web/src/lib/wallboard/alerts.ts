@@ -0,0 +1,158 @@
+/**
+ * Wallboard alert rules: creating them, reading them from a stored layout
+ * and checking stats against them
+ */
+
+import {
+  DEFAULT_WALLBOARD_STATS_FILTER,
+  isWallboardRuleField,
+  WALLBOARD_RULE_FIELDS,
+  type WallboardAlertLevel,
+  type WallboardAlertRule,
+  type WallboardAlertSettings,
+  type WallboardLayout,
+  type WallboardRuleBreach,
+  type WallboardRuleField,
+  type WallboardStats,
+  type WallboardStatsFilter,
+  type WallboardWidget,
+} from '$lib/domain';
+import { formatWallboardMetric, wallboardLayoutStatsFilters } from './stats';
+
+export function createWallboardAlertSettings(): WallboardAlertSettings {
+  return { rules: [], webhookUrl: null, emails: [] };
+}
+
+/** A rule with no thresholds yet; service level rules default to `below` */
+export function createWallboardAlertRule(id: string, field: WallboardRuleField = 'longestWait'): WallboardAlertRule {
+  return {
+    id,
+    field,
+    queue: null,
+    comparison: field === 'serviceLevel' ? 'below' : 'above',
+    amber: null,
+    red: null,
+    flash: false,
+    sound: false,
+    notifyAfterSeconds: null,
+  };
+}
+
+/** An id not yet used by the settings' rules: `r1`, `r2`, … */
+export function nextWallboardAlertRuleId(settings: WallboardAlertSettings): string {
+  const used = settings.rules.map(r => Number(/^r(\d+)$/.exec(r.id)?.[1] ?? 0));
+  return `r${Math.max(0, ...used) + 1}`;
+}
+
+function parseAlertRule(raw: unknown): WallboardAlertRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+  if (typeof value.id !== 'string' || !value.id || !isWallboardRuleField(value.field)) return null;
+
+  const threshold = (n: unknown) => (typeof n === 'number' && Number.isFinite(n) ? n : null);
+  const rule = createWallboardAlertRule(value.id, value.field);
+  const notifyAfter = threshold(value.notifyAfterSeconds);
+  return {
+    ...rule,
+    queue: rule.field === 'queueCalls' && typeof value.queue === 'string' && value.queue.trim() ? value.queue.trim() : null,
+    comparison: value.comparison === 'above' || value.comparison === 'below' ? value.comparison : rule.comparison,
+    amber: threshold(value.amber),
+    red: threshold(value.red),
+    flash: value.flash === true,
+    sound: value.sound === true,
+    notifyAfterSeconds: notifyAfter !== null ? Math.max(0, Math.round(notifyAfter)) : null,
+  };
+}
+
+/** Alert settings from a stored layout's JSON; layouts saved before rules existed have none */
+export function parseWallboardAlertSettings(raw: unknown): WallboardAlertSettings {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const rules = (Array.isArray(value.rules) ? value.rules : [])
+    .map(parseAlertRule)
+    .filter((r): r is WallboardAlertRule => r !== null)
+    .filter((r, i, all) => all.findIndex(other => other.id === r.id) === i);
+
+  return {
+    rules,
+    webhookUrl: typeof value.webhookUrl === 'string' && value.webhookUrl.trim() ? value.webhookUrl.trim() : null,
+    emails: Array.isArray(value.emails)
+      ? value.emails.filter((e): e is string => typeof e === 'string' && e.trim() !== '').map(e => e.trim())
+      : [],
+  };
+}
+
+/** The level a value breaches a rule at, or null if it doesn't */
+export function wallboardRuleLevel(rule: WallboardAlertRule, value: number): WallboardAlertLevel | null {
+  const breaches = (threshold: number | null) =>
+    threshold !== null && (rule.comparison === 'above' ? value > threshold : value < threshold);
+  if (breaches(rule.red)) return 'red';
+  if (breaches(rule.amber)) return 'amber';
+  return null;
+}
+
+/**
+ * The rules a set of stats breaches. A `queueCalls` rule is checked against
+ * each queue in `callsByQueue`, or just its own queue (counting zero when
+ * the queue has no calls).
+ */
+export function evaluateWallboardRules(
+  rules: readonly WallboardAlertRule[],
+  stats: WallboardStats
+): WallboardRuleBreach[] {
+  const breaches: WallboardRuleBreach[] = [];
+  for (const rule of rules) {
+    const values: { value: number; queue: string | null }[] =
+      rule.field !== 'queueCalls'
+        ? [{ value: stats[rule.field], queue: null }]
+        : rule.queue
+          ? [{ value: stats.callsByQueue.find(q => q.name === rule.queue)?.count ?? 0, queue: rule.queue }]
+          : stats.callsByQueue.map(q => ({ value: q.count, queue: q.name }));
+
+    for (const { value, queue } of values) {
+      const level = wallboardRuleLevel(rule, value);
+      if (level) breaches.push({ rule, level, value, queue });
+    }
+  }
+  return breaches;
+}
+
+/** The worse of the breaches' levels, or null if there are none */
+export function worstWallboardAlertLevel(breaches: readonly WallboardRuleBreach[]): WallboardAlertLevel | null {
+  if (breaches.some(b => b.level === 'red')) return 'red';
+  return breaches.length > 0 ? 'amber' : null;
+}
+
+/** The rule fields a widget shows, which its colouring follows */
+export function wallboardWidgetFields(widget: WallboardWidget): WallboardRuleField[] {
+  switch (widget.type) {
+    case 'kpi':
+    case 'sla-gauge':
+    case 'ticker':
+      return widget.metric ? [widget.metric] : [];
+    case 'queue-table':
+      return ['queueCalls'];
+    case 'agent-grid':
+      return ['agentsAvailable', 'agentsBusy', 'agentsOffline'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * The filters a rule is checked under: those of the widgets showing its
+ * field, or the default filter when no widget does.
+ */
+export function wallboardRuleFilters(layout: WallboardLayout, rule: WallboardAlertRule): WallboardStatsFilter[] {
+  const widgets = layout.widgets.filter(w => wallboardWidgetFields(w).includes(rule.field));
+  return widgets.length > 0
+    ? wallboardLayoutStatsFilters({ ...layout, widgets })
+    : [{ ...DEFAULT_WALLBOARD_STATS_FILTER }];
+}
+
+/** How a breach reads in notifications: "Longest wait (Sales) is 2m 5s" */
+export function describeWallboardRuleBreach(breach: WallboardRuleBreach): string {
+  const { rule, value, queue } = breach;
+  const label = WALLBOARD_RULE_FIELDS[rule.field].label;
+  const display = rule.field === 'queueCalls' ? value.toLocaleString() : formatWallboardMetric(rule.field, value);
+  return `${label}${queue ? ` (${queue})` : ''} is ${display}`;
+}
@@ -0,0 +1,16 @@
+/**
+ * Wallboard utilities
+ *
+ * The behaviour behind the wallboard domain types:
+ * - Stats (building live stats, deltas, metric formatting)
+ * - Trends (interval bucketing and series values)
+ * - Alerts (rule creation and evaluation)
+ * - Layout (widget placement, reading and writing stored layouts)
+ * - Shares (kiosk links and the stored configuration)
+ */
+
+export * from './stats';
+export * from './trends';
+export * from './alerts';
+export * from './layout';
+export * from './shares';
@@ -0,0 +1,248 @@
+/**
+ * Wallboard layouts: placing widgets on the grid without overlaps, and
+ * reading and writing the stored layout
+ */
+
+import {
+  DEFAULT_WALLBOARD_STATS_FILTER,
+  isWallboardMetric,
+  isWallboardTimeWindow,
+  isWallboardTrendSeries,
+  isWallboardTrendWidget,
+  isWallboardWidgetType,
+  WALLBOARD_GRID_COLUMNS,
+  WALLBOARD_LAYOUT_VERSION,
+  WALLBOARD_METRICS,
+  WALLBOARD_TRENDS,
+  WALLBOARD_WIDGETS,
+  type WallboardLayout,
+  type WallboardStatsFilter,
+  type WallboardWidget,
+  type WallboardWidgetOptions,
+  type WallboardWidgetType,
+} from '$lib/domain';
+import { createWallboardAlertSettings, parseWallboardAlertSettings } from './alerts';
+
+export function createWallboardLayout(): WallboardLayout {
+  return {
+    version: WALLBOARD_LAYOUT_VERSION,
+    columns: WALLBOARD_GRID_COLUMNS,
+    widgets: [],
+    alerts: createWallboardAlertSettings(),
+  };
+}
+
+/** A widget of the given type with its default size, metric and options */
+export function createWallboardWidget(type: WallboardWidgetType, id: string, x = 0, y = 0): WallboardWidget {
+  const definition = WALLBOARD_WIDGETS[type];
+  const metric = definition.metrics[0] ?? null;
+  const trend = isWallboardTrendWidget({ type }) ? 'calls' : undefined;
+  const options: WallboardWidgetOptions =
+    type === 'sla-gauge' ? { target: 60 } : type === 'ticker' ? { messages: [] } : trend ? { trend } : {};
+
+  return {
+    id,
+    type,
+    title: metric ? WALLBOARD_METRICS[metric].label : trend ? WALLBOARD_TRENDS[trend].label : definition.label,
+    x,
+    y,
+    ...definition.defaultSize,
+    metric,
+    filters: { ...DEFAULT_WALLBOARD_STATS_FILTER },
+    options,
+  };
+}
+
+/** An id not yet used in the layout: `w1`, `w2`, … */
+export function nextWallboardWidgetId(layout: WallboardLayout): string {
+  const used = layout.widgets.map(w => Number(/^w(\d+)$/.exec(w.id)?.[1] ?? 0));
+  return `w${Math.max(0, ...used) + 1}`;
+}
+
+export function wallboardWidgetsOverlap(
+  a: Pick<WallboardWidget, 'x' | 'y' | 'w' | 'h'>,
+  b: Pick<WallboardWidget, 'x' | 'y' | 'w' | 'h'>
+): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+/** Rows the layout occupies */
+export function wallboardLayoutRows(layout: WallboardLayout): number {
+  return Math.max(0, ...layout.widgets.map(w => w.y + w.h));
+}
+
+/** Keep a widget inside the grid and no smaller than its type allows */
+function clampWidget(widget: WallboardWidget, columns: number): WallboardWidget {
+  const min = WALLBOARD_WIDGETS[widget.type].minSize;
+  const w = Math.min(columns, Math.max(min.w, Math.round(widget.w)));
+  const h = Math.max(min.h, Math.round(widget.h));
+  return {
+    ...widget,
+    w,
+    h,
+    x: Math.min(columns - w, Math.max(0, Math.round(widget.x))),
+    y: Math.max(0, Math.round(widget.y)),
+  };
+}
+
+/**
+ * Settle widgets so none overlap: `fixedId` keeps its place and the others,
+ * top to bottom, move down until they fit.
+ */
+function settleWidgets(widgets: WallboardWidget[], fixedId: string | null): WallboardWidget[] {
+  const fixed = widgets.find(w => w.id === fixedId);
+  const placed: WallboardWidget[] = fixed ? [fixed] : [];
+  const others = widgets.filter(w => w !== fixed).sort((a, b) => a.y - b.y || a.x - b.x);
+
+  for (const widget of others) {
+    const settled = { ...widget };
+    while (placed.some(p => wallboardWidgetsOverlap(p, settled))) settled.y++;
+    placed.push(settled);
+  }
+
+  // Keep the original order so tab order and rendering stay stable
+  return widgets.map(w => placed.find(p => p.id === w.id) ?? w);
+}
+
+/** The first top-left spot a widget of this size fits without overlapping */
+export function nextFreeWallboardPosition(layout: WallboardLayout, w: number, h: number): { x: number; y: number } {
+  const width = Math.min(w, layout.columns);
+  for (let y = 0; ; y++) {
+    for (let x = 0; x + width <= layout.columns; x++) {
+      if (!layout.widgets.some(other => wallboardWidgetsOverlap(other, { x, y, w: width, h }))) return { x, y };
+    }
+  }
+}
+
+/** Add a widget at a position, or the first free spot, moving others out of its way */
+export function addWallboardWidget(
+  layout: WallboardLayout,
+  widget: WallboardWidget,
+  position?: { x: number; y: number }
+): WallboardLayout {
+  const at = position ?? nextFreeWallboardPosition(layout, widget.w, widget.h);
+  const added = clampWidget({ ...widget, ...at }, layout.columns);
+  return { ...layout, widgets: settleWidgets([...layout.widgets, added], added.id) };
+}
+
+/** Move or resize a widget, moving others out of its way */
+export function placeWallboardWidget(
+  layout: WallboardLayout,
+  id: string,
+  place: Partial<Pick<WallboardWidget, 'x' | 'y' | 'w' | 'h'>>
+): WallboardLayout {
+  const widgets = layout.widgets.map(w => (w.id === id ? clampWidget({ ...w, ...place }, layout.columns) : w));
+  return { ...layout, widgets: settleWidgets(widgets, id) };
+}
+
+/** Change a widget's title, metric, filters or options */
+export function updateWallboardWidget(
+  layout: WallboardLayout,
+  id: string,
+  changes: Partial<Pick<WallboardWidget, 'title' | 'metric' | 'filters' | 'options'>>
+): WallboardLayout {
+  return { ...layout, widgets: layout.widgets.map(w => (w.id === id ? { ...w, ...changes } : w)) };
+}
+
+export function removeWallboardWidget(layout: WallboardLayout, id: string): WallboardLayout {
+  return { ...layout, widgets: layout.widgets.filter(w => w.id !== id) };
+}
+
+/** Widget filters from stored JSON, falling back to the defaults field by field */
+function parseStatsFilter(raw: unknown): WallboardStatsFilter {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    queue: typeof value.queue === 'string' && value.queue.trim() ? value.queue.trim() : null,
+    groupId: typeof value.groupId === 'string' && value.groupId ? value.groupId : null,
+    window: isWallboardTimeWindow(value.window) ? value.window : DEFAULT_WALLBOARD_STATS_FILTER.window,
+  };
+}
+
+function parseWidgetOptions(raw: unknown): WallboardWidgetOptions {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const options: WallboardWidgetOptions = {};
+  if (typeof value.target === 'number' && Number.isFinite(value.target)) options.target = value.target;
+  if (Array.isArray(value.messages)) {
+    options.messages = value.messages.filter((m): m is string => typeof m === 'string' && m.trim() !== '');
+  }
+  if (typeof value.timezone === 'string' && value.timezone) options.timezone = value.timezone;
+  if (isWallboardTrendSeries(value.trend)) options.trend = value.trend;
+  return options;
+}
+
+function parseWidget(raw: unknown, columns: number): WallboardWidget | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+  if (typeof value.id !== 'string' || !value.id || !isWallboardWidgetType(value.type)) return null;
+
+  const definition = WALLBOARD_WIDGETS[value.type];
+  const metric = isWallboardMetric(value.metric) && definition.metrics.includes(value.metric)
+    ? value.metric
+    : (definition.metrics[0] ?? null);
+  const number = (n: unknown, fallback: number) => (typeof n === 'number' && Number.isFinite(n) ? n : fallback);
+
+  return clampWidget(
+    {
+      id: value.id,
+      type: value.type,
+      title: typeof value.title === 'string' ? value.title : definition.label,
+      x: number(value.x, 0),
+      y: number(value.y, 0),
+      w: number(value.w, definition.defaultSize.w),
+      h: number(value.h, definition.defaultSize.h),
+      metric,
+      filters: parseStatsFilter(value.filters),
+      options: parseWidgetOptions(value.options),
+    },
+    columns
+  );
+}
+
+/**
+ * Whether stored configuration is a layout this app reads. Empty
+ * configuration is: there is nothing in it to lose.
+ */
+export function isReadableWallboardConfiguration(raw: string | null | undefined): boolean {
+  if (!raw || !raw.trim()) return true;
+  try {
+    const value = JSON.parse(raw) as unknown;
+    return !!value && typeof value === 'object' && (value as { version?: unknown }).version === WALLBOARD_LAYOUT_VERSION;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a stored layout. Unreadable configuration (see
+ * `isReadableWallboardConfiguration`) gives an empty layout; widgets of
+ * unknown types are dropped and the rest are made to fit the grid.
+ */
+export function parseWallboardLayout(raw: string | null | undefined): WallboardLayout {
+  let value: unknown;
+  try {
+    value = raw ? JSON.parse(raw) : null;
+  } catch {
+    return createWallboardLayout();
+  }
+  if (!value || typeof value !== 'object' || (value as { version?: unknown }).version !== WALLBOARD_LAYOUT_VERSION) {
+    return createWallboardLayout();
+  }
+
+  const stored = value as { widgets?: unknown; alerts?: unknown };
+  const columns = WALLBOARD_GRID_COLUMNS;
+  const widgets = (Array.isArray(stored.widgets) ? stored.widgets : [])
+    .map(w => parseWidget(w, columns))
+    .filter((w): w is WallboardWidget => w !== null)
+    .filter((w, i, all) => all.findIndex(other => other.id === w.id) === i);
+
+  return {
+    version: WALLBOARD_LAYOUT_VERSION,
+    columns,
+    widgets: settleWidgets(widgets, null),
+    alerts: parseWallboardAlertSettings(stored.alerts),
+  };
+}
+
+export function serializeWallboardLayout(layout: WallboardLayout): string {
+  return JSON.stringify(layout);
+}
@@ -0,0 +1,78 @@
+/**
+ * Wallboard kiosk links, and the stored configuration that keeps them
+ * alongside the layout
+ */
+
+import type { WallboardLayout, WallboardShare } from '$lib/domain';
+import { isReadableWallboardConfiguration } from './layout';
+
+/** How long an expired or revoked link stays listed */
+const WALLBOARD_SHARE_HISTORY_DAYS = 30;
+
+/** Not revoked and not yet expired */
+export function isWallboardShareActive(share: WallboardShare, now = new Date()): boolean {
+  return !share.revokedAt && Date.parse(share.expiresAt) > now.getTime();
+}
+
+/** Drop links that stopped working more than a while ago */
+export function pruneWallboardShares(shares: readonly WallboardShare[], now = new Date()): WallboardShare[] {
+  const cutoff = now.getTime() - WALLBOARD_SHARE_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+  return shares.filter(s => isWallboardShareActive(s, now) || Date.parse(s.revokedAt ?? s.expiresAt) > cutoff);
+}
+
+function parseShare(raw: unknown): WallboardShare | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, unknown>;
+  const date = (d: unknown) => (typeof d === 'string' && !Number.isNaN(Date.parse(d)) ? d : null);
+  const createdAt = date(value.createdAt);
+  const expiresAt = date(value.expiresAt);
+  if (typeof value.id !== 'string' || !value.id || !createdAt || !expiresAt) return null;
+
+  return {
+    id: value.id,
+    label: typeof value.label === 'string' ? value.label : '',
+    createdAt,
+    expiresAt,
+    createdBy: typeof value.createdBy === 'string' ? value.createdBy : null,
+    revokedAt: date(value.revokedAt),
+  };
+}
+
+/**
+ * Kiosk links from a wallboard's stored configuration, which holds them
+ * alongside the layout so that saving the layout never touches them.
+ */
+export function parseWallboardShares(raw: string | null | undefined): WallboardShare[] {
+  let value: unknown;
+  try {
+    value = raw ? JSON.parse(raw) : null;
+  } catch {
+    return [];
+  }
+  const stored = (value && typeof value === 'object' ? value : {}) as { shares?: unknown };
+  return (Array.isArray(stored.shares) ? stored.shares : [])
+    .map(parseShare)
+    .filter((s): s is WallboardShare => s !== null);
+}
+
+/**
+ * Configuration a wallboard's layout replaced because it couldn't be read,
+ * kept so it can still be recovered; null if there was none.
+ */
+export function parseReplacedWallboardConfiguration(raw: string | null | undefined): string | null {
+  if (!isReadableWallboardConfiguration(raw) || !raw) return null;
+  const stored = JSON.parse(raw) as { replacedConfiguration?: unknown };
+  return typeof stored.replacedConfiguration === 'string' ? stored.replacedConfiguration : null;
+}
+
+/**
+ * The wallboard's stored configuration: its layout, its kiosk links and
+ * any unreadable configuration they replaced
+ */
+export function serializeWallboardConfiguration(
+  layout: WallboardLayout,
+  shares: readonly WallboardShare[],
+  replacedConfiguration: string | null = null
+): string {
+  return JSON.stringify(replacedConfiguration === null ? { ...layout, shares } : { ...layout, shares, replacedConfiguration });
+}
@@ -0,0 +1,133 @@
+/**
+ * Wallboard stats: building them from live calls and agents, sending only
+ * what changed, and the filters a layout needs them for
+ */
+
+import {
+  formatDuration,
+  WALLBOARD_METRICS,
+  type WallboardAgent,
+  type WallboardCall,
+  type WallboardCallTotals,
+  type WallboardLayout,
+  type WallboardMetric,
+  type WallboardStats,
+  type WallboardStatsDelta,
+  type WallboardStatsFilter,
+  type WallboardTimeWindow,
+} from '$lib/domain';
+
+/** Stats with nothing counted yet, stamped now */
+export function emptyWallboardStats(): WallboardStats {
+  return {
+    activeCalls: 0,
+    callsWaiting: 0,
+    agentsAvailable: 0,
+    agentsBusy: 0,
+    agentsOffline: 0,
+    totalCallsToday: 0,
+    avgCallDuration: 0,
+    avgWaitTime: 0,
+    longestWait: 0,
+    serviceLevel: 100,
+    callsByQueue: [],
+    callsByDirection: { inbound: 0, outbound: 0, internal: 0 },
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Start of a time window; `today` starts at midnight UTC, as call logs are queried by UTC date */
+export function wallboardWindowStart(window: WallboardTimeWindow, now = new Date()): Date {
+  switch (window) {
+    case '15m':
+      return new Date(now.getTime() - 15 * 60_000);
+    case '1h':
+      return new Date(now.getTime() - 60 * 60_000);
+    case '4h':
+      return new Date(now.getTime() - 4 * 60 * 60_000);
+    case 'today':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+}
+
+/** Identifies filters that can share one set of stats */
+export function wallboardStatsFilterKey(filter: WallboardStatsFilter): string {
+  return [filter.queue ?? '', filter.groupId ?? '', filter.window].join('|');
+}
+
+/** The distinct filters a layout's widgets need stats for */
+export function wallboardLayoutStatsFilters(layout: WallboardLayout): WallboardStatsFilter[] {
+  const filters = new Map<string, WallboardStatsFilter>();
+  for (const widget of layout.widgets) {
+    filters.set(wallboardStatsFilterKey(widget.filters), widget.filters);
+  }
+  return [...filters.values()];
+}
+
+/** Stats for one filter from the calls in progress, the agents and the window's call totals */
+export function buildWallboardStats(
+  filter: WallboardStatsFilter,
+  calls: readonly WallboardCall[],
+  agents: readonly WallboardAgent[],
+  totals: WallboardCallTotals,
+  now = new Date()
+): WallboardStats {
+  const stats = emptyWallboardStats();
+  stats.timestamp = now.toISOString();
+  stats.totalCallsToday = totals.totalCalls;
+  stats.avgCallDuration = totals.avgCallDuration;
+  stats.serviceLevel = totals.serviceLevel;
+
+  const queueCounts = new Map<string, number>();
+  const waits: number[] = [];
+  for (const call of calls) {
+    if (filter.queue && call.queue !== filter.queue) continue;
+    stats.activeCalls++;
+    stats.callsByDirection[call.direction]++;
+    if (call.queue) queueCounts.set(call.queue, (queueCounts.get(call.queue) ?? 0) + 1);
+    if (call.waiting) {
+      waits.push(Math.max(0, Math.floor((now.getTime() - Date.parse(call.startedAt)) / 1000)) || 0);
+    }
+  }
+  stats.callsWaiting = waits.length;
+  stats.callsByQueue = [...queueCounts].map(([name, count]) => ({ name, count }));
+  if (waits.length > 0) {
+    stats.avgWaitTime = Math.floor(waits.reduce((sum, w) => sum + w, 0) / waits.length);
+    stats.longestWait = Math.max(...waits);
+  }
+
+  for (const agent of agents) {
+    if (filter.groupId && !agent.groupIds.includes(filter.groupId)) continue;
+    if (agent.status === 'available') stats.agentsAvailable++;
+    else if (agent.status === 'busy') stats.agentsBusy++;
+    else stats.agentsOffline++;
+  }
+
+  return stats;
+}
+
+/** What changed from `previous` to `next`, or null if only the timestamp did */
+export function diffWallboardStats(previous: WallboardStats, next: WallboardStats): WallboardStatsDelta | null {
+  const delta: Record<string, unknown> = {};
+  for (const key of Object.keys(next) as (keyof WallboardStats)[]) {
+    if (key !== 'timestamp' && JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      delta[key] = next[key];
+    }
+  }
+  return Object.keys(delta).length > 0 ? { ...delta, timestamp: next.timestamp } : null;
+}
+
+export function applyWallboardStatsDelta(stats: WallboardStats, delta: WallboardStatsDelta): WallboardStats {
+  return { ...stats, ...delta };
+}
+
+export function formatWallboardMetric(metric: WallboardMetric, value: number): string {
+  switch (WALLBOARD_METRICS[metric].format) {
+    case 'duration':
+      return formatDuration(Math.round(value));
+    case 'percent':
+      return `${Math.round(value)}%`;
+    default:
+      return value.toLocaleString();
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Wallboard trends: counting calls and agents into intervals through the
+ * day, and the values each series draws from them
+ */
+
+import {
+  isWallboardTrendWidget,
+  WALLBOARD_TREND_INTERVAL_MINUTES,
+  WALLBOARD_TRENDS,
+  type WallboardLayout,
+  type WallboardStatsFilter,
+  type WallboardTrend,
+  type WallboardTrendBucket,
+  type WallboardTrendCall,
+  type WallboardTrendCounts,
+  type WallboardTrendSeries,
+  type WallboardWidget,
+} from '$lib/domain';
+import { wallboardWindowStart } from './stats';
+
+const TREND_INTERVAL_MS = WALLBOARD_TREND_INTERVAL_MINUTES * 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function emptyWallboardTrendCounts(): WallboardTrendCounts {
+  return { calls: 0, answered: 0, abandoned: 0, busyAgents: 0, staffedAgents: 0 };
+}
+
+/** Start of the interval a time falls in */
+export function wallboardTrendIntervalStart(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / TREND_INTERVAL_MS) * TREND_INTERVAL_MS);
+}
+
+/** Calls, answers and abandons per interval from finished calls, oldest first. Agents aren't counted. */
+export function countWallboardTrendCalls(calls: readonly WallboardTrendCall[]): WallboardTrendBucket[] {
+  const buckets = new Map<number, WallboardTrendCounts>();
+  for (const call of calls) {
+    const started = new Date(call.startedAt);
+    if (isNaN(started.getTime())) continue;
+
+    const time = wallboardTrendIntervalStart(started).getTime();
+    const counts = buckets.get(time) ?? emptyWallboardTrendCounts();
+    counts.calls++;
+    if (call.inbound) {
+      if (call.answered) counts.answered++;
+      else counts.abandoned++;
+    }
+    buckets.set(time, counts);
+  }
+  return [...buckets]
+    .sort(([a], [b]) => a - b)
+    .map(([time, counts]) => ({ start: new Date(time).toISOString(), ...counts }));
+}
+
+/**
+ * Trends are kept per queue and agent group; a filter's time window
+ * doesn't apply to them.
+ */
+export function wallboardTrendKey(filter: WallboardStatsFilter): string {
+  return [filter.queue ?? '', filter.groupId ?? ''].join('|');
+}
+
+/** Identifies a trend widgets can share: the filter's queue and group, and the series */
+export function wallboardTrendQueryKey(filter: WallboardStatsFilter, series: WallboardTrendSeries): string {
+  return `${wallboardTrendKey(filter)}|${series}`;
+}
+
+/** The trend a widget draws, or null if it doesn't draw one */
+export function wallboardWidgetTrend(widget: WallboardWidget): WallboardTrendSeries | null {
+  return isWallboardTrendWidget(widget) ? (widget.options.trend ?? 'calls') : null;
+}
+
+/** The trends a layout's widgets draw, one per distinct filter and series */
+export function wallboardLayoutTrends(
+  layout: WallboardLayout
+): { filter: WallboardStatsFilter; series: WallboardTrendSeries }[] {
+  const trends = new Map<string, { filter: WallboardStatsFilter; series: WallboardTrendSeries }>();
+  for (const widget of layout.widgets) {
+    const series = wallboardWidgetTrend(widget);
+    if (series) trends.set(wallboardTrendQueryKey(widget.filters, series), { filter: widget.filters, series });
+  }
+  return [...trends.values()];
+}
+
+/** The series' value for an interval's counts, or null when there was nothing to measure */
+export function wallboardTrendValue(series: WallboardTrendSeries, counts: WallboardTrendCounts): number | null {
+  switch (series) {
+    case 'calls':
+      return counts.calls;
+    case 'abandonRate': {
+      const offered = counts.answered + counts.abandoned;
+      return offered > 0 ? Math.round((counts.abandoned / offered) * 100) : null;
+    }
+    case 'occupancy':
+      return counts.staffedAgents > 0 ? Math.round((counts.busyAgents / counts.staffedAgents) * 100) : null;
+  }
+}
+
+export function formatWallboardTrendValue(series: WallboardTrendSeries, value: number | null): string {
+  if (value === null) return '–';
+  return WALLBOARD_TRENDS[series].format === 'percent' ? `${value}%` : value.toLocaleString();
+}
+
+/** The ranges `buildWallboardTrend` needs buckets for: today so far, and the same day last week */
+export function wallboardTrendRanges(now = new Date()): { today: { from: Date; to: Date }; lastWeek: { from: Date; to: Date } } {
+  const midnight = wallboardWindowStart('today', now);
+  const lastWeek = new Date(midnight.getTime() - 7 * DAY_MS);
+  return {
+    today: { from: midnight, to: now },
+    lastWeek: { from: lastWeek, to: new Date(lastWeek.getTime() + DAY_MS) },
+  };
+}
+
+/** Today's and last week's values of a series from the buckets recorded over both days */
+export function buildWallboardTrend(
+  series: WallboardTrendSeries,
+  buckets: readonly WallboardTrendBucket[],
+  now = new Date()
+): WallboardTrend {
+  const { today, lastWeek } = wallboardTrendRanges(now);
+  const byStart = new Map(buckets.map(b => [Date.parse(b.start), b]));
+  const valueAt = (time: number) => {
+    const bucket = byStart.get(time);
+    return bucket ? wallboardTrendValue(series, bucket) : null;
+  };
+
+  const count = DAY_MS / TREND_INTERVAL_MS;
+  const elapsed = Math.floor((now.getTime() - today.from.getTime()) / TREND_INTERVAL_MS) + 1;
+  const offsets = Array.from({ length: count }, (_, i) => i * TREND_INTERVAL_MS);
+  return {
+    series,
+    intervals: offsets.map(offset => new Date(today.from.getTime() + offset).toISOString()),
+    today: offsets.slice(0, elapsed).map(offset => valueAt(today.from.getTime() + offset)),
+    lastWeek: offsets.map(offset => valueAt(lastWeek.from.getTime() + offset)),
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Wallboard Kiosk Page Server
+ *
+ * Shows a wallboard from a kiosk link, with no session needed.
+ */
+
+import type { PageServerLoad } from './$types';
+import { error } from '@sveltejs/kit';
+import type { Wallboard } from '$lib/domain';
+import { openWallboardKiosk } from '$lib/server/wallboardShares';
+
+export interface KioskPageData {
+  /** The wallboard without its other kiosk links */
+  wallboard: Pick<Wallboard, 'id' | 'name' | 'layout' | 'lastModified'>;
+  streamUrl: string;
+  /** Where its trend widgets fetch from */
+  trendsUrl: string;
+}
+
+export const load: PageServerLoad<KioskPageData> = async ({ params, setHeaders }) => {
+  const kiosk = await openWallboardKiosk(params.token);
+  if (!kiosk) {
+    throw error(404, 'This wallboard link has expired or been revoked');
+  }
+
+  setHeaders({ 'Cache-Control': 'no-store', 'Referrer-Policy': 'no-referrer' });
+  const { id, name, layout, lastModified } = kiosk.wallboard;
+  return {
+    wallboard: { id, name, layout, lastModified },
+    streamUrl: `/api/kiosk/${encodeURIComponent(params.token)}/stats/stream`,
+    trendsUrl: `/api/kiosk/${encodeURIComponent(params.token)}/trends`,
+  };
+};
@@ -8,9 +8,10 @@
 import type { LayoutServerLoad } from './$types';
 import { env } from '$env/dynamic/private';
 import { env as publicEnv } from '$env/dynamic/public';
-import type { CharliePublicConfig } from '$lib/charlie';
+import { MOCK_CHARLIE_GRAPHQL_PATH, type CharliePublicConfig } from '$lib/charlie';
+import { isCharlieMockMode } from '$lib/charlie/server';
 
-export const load: LayoutServerLoad = async ({ locals }) => {
+export const load: LayoutServerLoad = async ({ locals, url }) => {
   // Get user from platform-specific auth or legacy fields
   const user = locals.salesforce?.user ?? locals.user ?? null;
 
@@ -19,11 +20,16 @@ export const load: LayoutServerLoad = async ({ locals }) => {
   // build-specific endpoints into the public bundle, then expose them per
   // request here. The webphone-enabled flag is build-time public per the
   // Phase-0 plan (Phase 2 derives it from Query.getLicense.licenses.webphone).
+  // A mocked Charlie answers GraphQL from this server and always has the
+  // webphone on, so it runs without either flag.
+  const mock = isCharlieMockMode(locals);
   const charlie: CharliePublicConfig = {
-    appsyncHttp: env.CHARLIE_APPSYNC_HTTP ?? null,
+    appsyncHttp: mock
+      ? `${url.origin}${MOCK_CHARLIE_GRAPHQL_PATH}`
+      : (env.CHARLIE_APPSYNC_HTTP ?? null),
     appsyncWss: env.CHARLIE_APPSYNC_WSS ?? null,
     webphoneEnabled:
-      publicEnv.PUBLIC_CHARLIE_WEBPHONE_ENABLED === 'true' && !!locals.charlieSession,
+      (mock || publicEnv.PUBLIC_CHARLIE_WEBPHONE_ENABLED === 'true') && !!locals.charlieSession,
   };
 
   return {
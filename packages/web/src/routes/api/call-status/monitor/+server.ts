@@ -0,0 +1,117 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories, isSalesforceContext } from '$lib/adapters';
+import { getOrganizationId, getWebphoneSipCredentials } from '$lib/server/gatekeeper';
+import {
+  auditCallMonitor,
+  canMonitorCalls,
+  isCallMonitorMode,
+  isCallMonitorNonce,
+  startCallMonitor,
+  type CallMonitorAuditEntry,
+} from '$lib/server/callMonitor';
+
+/**
+ * Join a live call as a supervisor: `{ mode: 'listen' | 'whisper' | 'barge',
+ * callId, channelUuid, nonce, agentName? }`. The supervisor's webphone is
+ * rung onto the agent's channel and answers the call carrying `nonce`.
+ * Team Leaders and Admins only; every attempt is audited.
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    mode?: unknown;
+    callId?: unknown;
+    channelUuid?: unknown;
+    nonce?: unknown;
+    agentName?: unknown;
+  } | null;
+  if (!isCallMonitorMode(input?.mode)) {
+    throw error(400, 'Mode must be listen, whisper or barge');
+  }
+  const channelUuid = typeof input.channelUuid === 'string' ? input.channelUuid : '';
+  if (!channelUuid) {
+    throw error(400, 'Channel UUID is required');
+  }
+  if (!isCallMonitorNonce(input.nonce)) {
+    throw error(400, 'A request nonce is required');
+  }
+  const nonce = input.nonce;
+
+  const { repos, ctx, isDemo } = result;
+  const entry: Omit<CallMonitorAuditEntry, 'supervisorId' | 'supervisorName'> = {
+    mode: input.mode,
+    callId: typeof input.callId === 'string' ? input.callId : channelUuid,
+    targetChannelUuid: channelUuid,
+    agentName: typeof input.agentName === 'string' ? input.agentName : undefined,
+  };
+
+  // Demo mode has no call to join; record the audit entry so the flow can be tried
+  if (isDemo || !isSalesforceContext(ctx)) {
+    await auditCallMonitor(repos, {
+      ...entry,
+      supervisorId: locals.user?.id ?? 'demo',
+      supervisorName: locals.user?.name ?? 'Demo User',
+    });
+    return json({ ok: true, demo: true });
+  }
+
+  const sfUserId = locals.user?.id;
+  const supervisor = sfUserId ? await repos.users.findBySalesforceUserId(sfUserId) : null;
+  if (!supervisor) {
+    const reason = 'Your Salesforce user is not linked to a Natterbox User.';
+    // No Natterbox User to attach the record to, so it carries the Salesforce name
+    await auditCallMonitor(repos, {
+      ...entry,
+      supervisorId: '',
+      supervisorName: locals.user?.name ?? sfUserId ?? 'Unknown user',
+      error: reason,
+    });
+    throw error(403, reason);
+  }
+
+  const auditEntry: CallMonitorAuditEntry = {
+    ...entry,
+    supervisorId: supervisor.id,
+    supervisorName: supervisor.name,
+  };
+
+  if (!canMonitorCalls(supervisor.permissionLevel)) {
+    const reason = 'Only Team Leaders and Admins can monitor calls.';
+    await auditCallMonitor(repos, { ...auditEntry, error: reason });
+    throw error(403, reason);
+  }
+
+  const organizationId = getOrganizationId();
+  const credentials = supervisor.platformId
+    ? await getWebphoneSipCredentials(ctx.instanceUrl, ctx.accessToken, supervisor.platformId)
+    : null;
+  if (!organizationId || !credentials) {
+    const reason = organizationId ? 'You do not have a webphone device.' : 'Organization ID not configured.';
+    await auditCallMonitor(repos, { ...auditEntry, error: reason });
+    throw error(409, reason);
+  }
+
+  try {
+    await startCallMonitor({
+      instanceUrl: ctx.instanceUrl,
+      accessToken: ctx.accessToken,
+      organizationId,
+      mode: input.mode,
+      targetChannelUuid: channelUuid,
+      endpoint: credentials.username,
+      nonce,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await auditCallMonitor(repos, { ...auditEntry, error: message.substring(0, 200) });
+    throw error(502, `Unable to join the call: ${message.substring(0, 80)}`);
+  }
+
+  await auditCallMonitor(repos, auditEntry);
+  return json({ ok: true });
+};
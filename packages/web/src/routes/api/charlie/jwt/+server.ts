@@ -15,15 +15,23 @@
  * which currently returns 501 NOT_IMPLEMENTED (SalesforceIdentityProvider
  * hasn't landed). We surface that distinctly from a real auth failure so
  * the webphone can degrade to its mock-registrar fallback.
+ *
+ * When Charlie is mocked (`lib/charlie/mockHttp.ts`) this returns the mock
+ * agent's JWT without any exchange.
  */
 
 import { json, error } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import { exchangeForBrowserJwt } from '$lib/charlie';
+import { createMockBrowserJwt, exchangeForBrowserJwt } from '$lib/charlie';
+import { isCharlieMockMode } from '$lib/charlie/server';
 import type { RequestHandler } from './$types';
 import type { BrowserJwtErrorResponse, BrowserJwtResponse } from '$lib/charlie';
 
 export const POST: RequestHandler = async ({ locals, fetch }) => {
+  if (isCharlieMockMode(locals)) {
+    return json(createMockBrowserJwt());
+  }
+
   const sfAccessToken = locals.salesforce?.accessToken ?? locals.accessToken;
   if (!sfAccessToken) {
     throw error(401, {
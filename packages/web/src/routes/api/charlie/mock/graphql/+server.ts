@@ -0,0 +1,33 @@
+/**
+ * `POST /api/charlie/mock/graphql`
+ *
+ * Stands in for Charlie's AppSync HTTP endpoint when Charlie is mocked
+ * (`PLATFORM_MODE=demo CHARLIE_APPSYNC_WSS=mock:`), so the webphone can
+ * boot with no Charlie at all. Answers come from `mockCharlieResponse`;
+ * outside mock mode the endpoint doesn't exist.
+ */
+
+import { json, error } from '@sveltejs/kit';
+import { mockCharlieResponse } from '$lib/charlie';
+import { isCharlieMockMode } from '$lib/charlie/server';
+import type { RequestHandler } from './$types';
+
+export const POST: RequestHandler = async ({ locals, request }) => {
+  if (!isCharlieMockMode(locals)) {
+    throw error(404, { message: 'Not found' });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    query?: unknown;
+    variables?: unknown;
+  } | null;
+  if (!body || typeof body.query !== 'string') {
+    throw error(400, { message: 'Expected a GraphQL request with a query' });
+  }
+
+  const variables =
+    typeof body.variables === 'object' && body.variables !== null
+      ? (body.variables as Record<string, unknown>)
+      : {};
+  return json(mockCharlieResponse(body.query, variables));
+};
@@ -0,0 +1,35 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { isCronRequest } from '$lib/server/cron';
+import { getIntegrationLocals } from '$lib/server/integration';
+import { alertPresenceOverruns, applyPresenceSchedules } from '$lib/server/presenceSchedules';
+
+/**
+ * `GET /api/cron/presence`
+ *
+ * Apply presence schedules that have fallen due and report agents who
+ * have overrun their state's maximum duration. Called every minute by the
+ * scheduler, as the integration user.
+ */
+export const GET: RequestHandler = async ({ request }) => {
+  if (!isCronRequest(request)) {
+    throw error(401, 'Not authorized');
+  }
+
+  const locals = await getIntegrationLocals();
+  const result = locals ? tryCreateContextAndRepositories(locals) : null;
+  if (!result) {
+    throw error(503, 'No integration user is configured');
+  }
+
+  const now = new Date();
+  const schedules = await applyPresenceSchedules(result.repos, now);
+  const overruns = await alertPresenceOverruns(result.repos, now);
+
+  return json({
+    applied: schedules.applied,
+    alerted: overruns.alerted,
+    failed: schedules.failed + overruns.failed,
+  });
+};
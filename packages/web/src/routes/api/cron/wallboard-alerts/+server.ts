@@ -0,0 +1,27 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { isCronRequest } from '$lib/server/cron';
+import { getIntegrationLocals } from '$lib/server/integration';
+import { checkWallboardAlertRules } from '$lib/server/wallboardStats';
+
+/**
+ * `GET /api/cron/wallboard-alerts`
+ *
+ * Check every enabled wallboard's alert rules and notify breaches that have
+ * held for their `notifyAfterSeconds`. Called every minute by the
+ * scheduler, as the integration user, so rules are checked whether or not
+ * a wallboard is open.
+ */
+export const GET: RequestHandler = async ({ request }) => {
+  if (!isCronRequest(request)) {
+    throw error(401, 'Not authorized');
+  }
+
+  const locals = await getIntegrationLocals();
+  const result = locals ? await checkWallboardAlertRules(locals) : null;
+  if (!result) {
+    throw error(503, 'No integration user is configured');
+  }
+
+  return json(result);
+};
@@ -0,0 +1,37 @@
+import { error } from '@sveltejs/kit';
+import type { Config } from '@sveltejs/adapter-vercel';
+import type { RequestHandler } from './$types';
+import { wallboardLayoutStatsFilters } from '$lib/wallboard';
+import { openWallboardKiosk } from '$lib/server/wallboardShares';
+import {
+  getWallboardStatsAggregator,
+  wallboardStatsStreamResponse,
+} from '$lib/server/wallboardStats';
+
+/** Streams renew themselves before this; see `WALLBOARD_STREAM_MAX_MS` */
+export const config: Config = { maxDuration: 300 };
+
+/**
+ * `GET /api/kiosk/<token>/stats/stream`
+ *
+ * The stats stream of `/api/wallboards/stats/stream?wallboard=<id>` for a
+ * kiosk link, which needs no session. It only ever streams the filters of
+ * the link's own wallboard, and fails once the link expires or is revoked.
+ */
+export const GET: RequestHandler = async ({ params, request }) => {
+  const kiosk = await openWallboardKiosk(params.token);
+  if (!kiosk) {
+    throw error(404, 'This wallboard link has expired or been revoked');
+  }
+
+  const aggregator = getWallboardStatsAggregator(kiosk.locals, { kiosk: true });
+  if (!aggregator) {
+    throw error(401, 'Not authenticated');
+  }
+
+  return wallboardStatsStreamResponse(
+    aggregator,
+    wallboardLayoutStatsFilters(kiosk.wallboard.layout),
+    request.signal
+  );
+};
@@ -0,0 +1,37 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { wallboardLayoutTrends, wallboardTrendQueryKey } from '$lib/wallboard';
+import { openWallboardKiosk } from '$lib/server/wallboardShares';
+import { getWallboardTrend } from '$lib/server/wallboardStats';
+import { readWallboardTrendQuery } from '$lib/server/wallboards';
+
+/**
+ * `GET /api/kiosk/<token>/trends?series=&queue=&groupId=`
+ *
+ * `/api/wallboards/trends` for a kiosk link, limited to the trends the
+ * link's wallboard draws.
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+  const kiosk = await openWallboardKiosk(params.token);
+  if (!kiosk) {
+    throw error(404, 'This wallboard link has expired or been revoked');
+  }
+
+  const query = readWallboardTrendQuery(url.searchParams);
+  const key = query && wallboardTrendQueryKey(query.filter, query.series);
+  if (
+    !query ||
+    !wallboardLayoutTrends(kiosk.wallboard.layout).some(
+      (t) => wallboardTrendQueryKey(t.filter, t.series) === key
+    )
+  ) {
+    throw error(404, "This wallboard doesn't show that trend");
+  }
+
+  const trend = await getWallboardTrend(kiosk.locals, query.filter, query.series, { kiosk: true });
+  if (!trend) {
+    throw error(401, 'Not authenticated');
+  }
+
+  return json(trend);
+};
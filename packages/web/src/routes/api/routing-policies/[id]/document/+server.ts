@@ -0,0 +1,64 @@
+import { error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { loadBundleTargets } from '$lib/server/policies';
+import {
+  buildPolicyDocument,
+  renderPolicyDocument,
+  POLICY_DOCUMENT_FORMATS,
+  type PolicyDocumentFormat,
+  type PolicyDocumentLookups,
+} from '$lib/policy-editor/policyDocument';
+import type { PolicyGraphInput } from '$lib/policy-editor/policyGraph';
+
+/**
+ * Download a written description of a policy's call flow.
+ * `?format=markdown|html|pdf`.
+ */
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const format = (url.searchParams.get('format') ?? 'markdown') as PolicyDocumentFormat;
+  if (!POLICY_DOCUMENT_FORMATS.includes(format)) {
+    throw error(400, `Unknown format: ${format}`);
+  }
+
+  const { repos } = result;
+  const policy = await repos.routingPolicies.findById(params.id);
+  if (!policy) {
+    throw error(404, 'Policy not found');
+  }
+
+  let body: PolicyGraphInput;
+  try {
+    body = (typeof policy.body === 'string' ? JSON.parse(policy.body) : policy.body) as PolicyGraphInput;
+  } catch {
+    throw error(422, 'Policy body could not be read');
+  }
+  if (!body || !Array.isArray(body.nodes)) {
+    throw error(422, 'Policy has no body to document');
+  }
+
+  // Policies store Sapien ids, which are the bundle references
+  const targets = await loadBundleTargets(repos);
+  const lookups: PolicyDocumentLookups = {
+    group: targets.group.map((t) => ({ id: t.reference, name: t.name })),
+    user: targets.user.map((t) => ({ id: t.reference, name: t.name })),
+    sound: targets.sound.map((t) => ({ id: t.reference, name: t.name })),
+    skill: targets.skill.map((t) => ({ id: t.reference, name: t.name })),
+  };
+
+  const document = buildPolicyDocument({ policy, body, lookups });
+  const { content, contentType, extension } = renderPolicyDocument(document, format);
+  const filename = policy.name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'policy';
+
+  return new Response(content, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}.${extension}"`,
+    },
+  });
+};
@@ -0,0 +1,46 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { loadBundleTargets } from '$lib/server/policies';
+import { createPolicyBundle } from '$lib/policy-editor/policyBundle';
+import type { Policy } from '$lib/policy-editor/policyService';
+
+/**
+ * Download a policy as a portable bundle for import into another org
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const { repos } = result;
+  const policy = await repos.routingPolicies.findById(params.id);
+  if (!policy) {
+    throw error(404, 'Policy not found');
+  }
+
+  let body: Policy;
+  try {
+    body = (typeof policy.body === 'string' ? JSON.parse(policy.body) : policy.body) as Policy;
+  } catch {
+    throw error(422, 'Policy body could not be read');
+  }
+  if (!body || !Array.isArray(body.nodes)) {
+    throw error(422, 'Policy has no body to export');
+  }
+
+  const bundle = createPolicyBundle({
+    policy,
+    body,
+    lookups: await loadBundleTargets(repos),
+  });
+
+  const filename = policy.name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'policy';
+
+  return json(bundle, {
+    headers: {
+      'Content-Disposition': `attachment; filename="${filename}.policy.json"`,
+    },
+  });
+};
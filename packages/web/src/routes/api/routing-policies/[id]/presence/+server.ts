@@ -0,0 +1,44 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { recordPresence, clearPresence } from '$lib/server/presence';
+
+/**
+ * Editor heartbeat: records that this session has the policy open and returns
+ * everyone else who does. Sent with `leave: true` (via sendBeacon) when the
+ * editor closes.
+ */
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const input = (await request.json().catch(() => null)) as { sessionId?: unknown; editing?: unknown; leave?: unknown } | null;
+  const sessionId = typeof input?.sessionId === 'string' ? input.sessionId : '';
+  if (!sessionId) {
+    throw error(400, 'Session ID is required');
+  }
+
+  // Presence is per user, so there's nothing to share without one (e.g. demo mode)
+  const user = locals.salesforce?.user ?? locals.user;
+  if (!user) {
+    return json({ others: [] });
+  }
+
+  if (input?.leave === true) {
+    clearPresence(user.organizationId, params.id, sessionId);
+    return json({ others: [] });
+  }
+
+  const others = recordPresence({
+    organizationId: user.organizationId,
+    policyId: params.id,
+    sessionId,
+    userId: user.id,
+    userName: user.name,
+    editing: input?.editing === true,
+  });
+
+  return json({ others });
+};
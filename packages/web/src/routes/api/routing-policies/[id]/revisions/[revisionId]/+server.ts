@@ -0,0 +1,20 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+
+/**
+ * Get a saved policy revision including its snapshot, for the editor's diff view
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const revision = await result.repos.routingPolicies.getRevision(params.revisionId);
+  if (!revision || revision.policyId !== params.id) {
+    throw error(404, 'Revision not found');
+  }
+
+  return json(revision);
+};
@@ -0,0 +1,49 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { parseTemplateFragment } from '$lib/policy-editor/policyTemplates';
+
+/**
+ * List the org's sub-flow templates for the editor's node palette
+ */
+export const GET: RequestHandler = async ({ locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  return json((await result.repos.routingPolicies.listTemplates()) ?? []);
+};
+
+/**
+ * Save a selection from the editor as a template shared with the whole org
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const input = (await request.json().catch(() => null)) as { name?: unknown; description?: unknown; body?: unknown } | null;
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw error(400, 'Template name is required');
+  }
+
+  const body = typeof input?.body === 'string' ? input.body : '';
+  const fragment = parseTemplateFragment(body);
+  if (!fragment || fragment.nodes.length === 0) {
+    throw error(400, 'Template has no nodes');
+  }
+
+  const created = await result.repos.routingPolicies.createTemplate({
+    name,
+    description: typeof input?.description === 'string' ? input.description.trim() : undefined,
+    body,
+  });
+  if (!created.success || !created.data) {
+    throw error(500, created.error || 'Failed to save template');
+  }
+
+  return json(created.data, { status: 201 });
+};
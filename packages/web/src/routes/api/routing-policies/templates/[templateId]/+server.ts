@@ -0,0 +1,20 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+
+/**
+ * Delete a sub-flow template for everyone in the org
+ */
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const deleted = await result.repos.routingPolicies.deleteTemplate(params.templateId);
+  if (!deleted.success) {
+    throw error(500, deleted.error || 'Failed to delete template');
+  }
+
+  return json({ success: true });
+};
@@ -0,0 +1,50 @@
+import { error } from '@sveltejs/kit';
+import type { Config } from '@sveltejs/adapter-vercel';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import type { WallboardStatsFilter } from '$lib/domain';
+import { wallboardLayoutStatsFilters } from '$lib/wallboard';
+import {
+  getWallboardStatsAggregator,
+  wallboardStatsStreamResponse,
+} from '$lib/server/wallboardStats';
+import { readWallboardStatsFilters } from '$lib/server/wallboards';
+
+/** Streams renew themselves before this; see `WALLBOARD_STREAM_MAX_MS` */
+export const config: Config = { maxDuration: 300 };
+
+/**
+ * `GET /api/wallboards/stats/stream?filters=[{ queue, groupId, window }, …]`
+ * or `?wallboard=<id>` for a saved wallboard's widget filters
+ *
+ * Server-sent events for a wallboard's widget filters: first a `snapshot`
+ * event `{ key, stats }` for each filter, then a `delta` event
+ * `{ key, delta }` with the fields that changed whenever a filter's stats
+ * do. `key` is the filter's `wallboardStatsFilterKey`. If stats can't be
+ * loaded the stream closes and the browser reconnects.
+ */
+export const GET: RequestHandler = async ({ locals, url, request }) => {
+  const aggregator = getWallboardStatsAggregator(locals);
+  if (!aggregator) {
+    throw error(401, 'Not authenticated');
+  }
+
+  let filters: WallboardStatsFilter[];
+  const wallboardId = url.searchParams.get('wallboard');
+  if (wallboardId) {
+    const wallboard =
+      await tryCreateContextAndRepositories(locals)?.repos.wallboards.findById(wallboardId);
+    if (!wallboard) {
+      throw error(404, 'Wallboard not found');
+    }
+    filters = wallboardLayoutStatsFilters(wallboard.layout);
+  } else {
+    const requested = readWallboardStatsFilters(url.searchParams);
+    if (!requested) {
+      throw error(400, 'filters must be a JSON array');
+    }
+    filters = requested;
+  }
+
+  return wallboardStatsStreamResponse(aggregator, filters, request.signal);
+};
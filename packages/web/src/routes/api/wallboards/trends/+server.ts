@@ -0,0 +1,24 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWallboardTrend } from '$lib/server/wallboardStats';
+import { readWallboardTrendQuery } from '$lib/server/wallboards';
+
+/**
+ * `GET /api/wallboards/trends?series=calls|abandonRate|occupancy&queue=&groupId=`
+ *
+ * A trend for sparkline and line-chart widgets: the series for each
+ * 15-minute interval today so far, and for the same weekday last week.
+ */
+export const GET: RequestHandler = async ({ locals, url }) => {
+  const query = readWallboardTrendQuery(url.searchParams);
+  if (!query) {
+    throw error(400, 'series must be calls, abandonRate or occupancy');
+  }
+
+  const trend = await getWallboardTrend(locals, query.filter, query.series);
+  if (!trend) {
+    throw error(401, 'Not authenticated');
+  }
+
+  return json(trend);
+};
@@ -0,0 +1,100 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import type { Repositories } from '$lib/repositories';
+import type { User } from '$lib/domain';
+
+/** The signed-in agent's Natterbox user and the ids of their groups. */
+async function loadAgent(
+  repos: Repositories,
+  salesforceUserId: string | undefined
+): Promise<{ user: User | null; groupIds: string[] }> {
+  const user = salesforceUserId ? await repos.users.findBySalesforceUserId(salesforceUserId) : null;
+  const memberships = user ? await repos.users.getGroupMemberships(user.id) : [];
+  return { user, groupIds: memberships.map((m) => m.groupId) };
+}
+
+/**
+ * `GET /api/webphone/presence`
+ *
+ * Presence states offered to the signed-in agent, the schedules that cover
+ * them and the state they're currently in
+ */
+export const GET: RequestHandler = async ({ locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const { repos } = result;
+  const [{ user, groupIds }, states, schedules] = await Promise.all([
+    loadAgent(repos, locals.user?.id),
+    repos.presence.findStates(),
+    repos.presence.findSchedules(),
+  ]);
+
+  return json({
+    states: states.filter((s) => s.active),
+    schedules: user
+      ? schedules.filter(
+          (s) => s.active && (s.userIds.includes(user.id) || s.groupIds.some((id) => groupIds.includes(id)))
+        )
+      : [],
+    groupIds,
+    userId: user?.id ?? null,
+    current: user ? await repos.presence.findCurrent(user.id) : null,
+  });
+};
+
+/**
+ * `POST /api/webphone/presence`
+ *
+ * Record that the agent moved into a state: `{ stateId, reasonCode? }`.
+ * The reason must be one of the state's reason codes when it has any.
+ * Scheduled changes are recorded by `/api/cron/presence`, not here.
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    stateId?: unknown;
+    reasonCode?: unknown;
+  } | null;
+  const reasonCode = typeof input?.reasonCode === 'string' && input.reasonCode ? input.reasonCode : null;
+
+  const { repos } = result;
+  const states = await repos.presence.findStates();
+  const state = states.find((s) => s.active && s.id === input?.stateId);
+  if (!state) {
+    throw error(400, 'Unknown presence state');
+  }
+  if (state.reasonCodes.length > 0 && (!reasonCode || !state.reasonCodes.includes(reasonCode))) {
+    throw error(400, `Choose one of the reasons for ${state.name}`);
+  }
+  if (state.reasonCodes.length === 0 && reasonCode) {
+    throw error(400, `${state.name} doesn't take a reason`);
+  }
+
+  const { user } = await loadAgent(repos, locals.user?.id);
+  if (!user) {
+    throw error(403, 'Your Salesforce user is not linked to a Natterbox User.');
+  }
+
+  const saved = await repos.presence.recordChange({
+    userId: user.id,
+    userName: user.name,
+    stateId: state.id,
+    stateName: state.name,
+    availability: state.availability,
+    reasonCode,
+    source: 'agent',
+  });
+  if (!saved.success || !saved.data) {
+    throw error(500, saved.error ?? 'Failed to record presence change');
+  }
+
+  return json({ change: saved.data });
+};
@@ -0,0 +1,87 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import type { Repositories } from '$lib/repositories';
+
+/** Objects callers are looked up in: those with an active autocomplete configuration (`/general-settings`). */
+async function screenPopObjects(repos: Repositories): Promise<string[]> {
+  const configs = await repos.settings.getAutocompleteConfigs();
+  return [...new Set(configs.filter((c) => c.active && c.objectName).map((c) => c.objectName))];
+}
+
+/**
+ * `GET /api/webphone/screen-pop?number=…`
+ *
+ * CRM records whose phone number matches the caller: `{ records }`
+ */
+export const GET: RequestHandler = async ({ locals, url }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const number = url.searchParams.get('number')?.trim();
+  if (!number) {
+    throw error(400, 'Number is required');
+  }
+
+  const objects = await screenPopObjects(result.repos);
+  const records = objects.length > 0 ? await result.repos.crm.findByPhoneNumber(number, objects) : [];
+  return json({ records });
+};
+
+/**
+ * `POST /api/webphone/screen-pop`
+ *
+ * Log a finished call against a record the agent picked: `{ recordId,
+ * objectName, number, direction: 'INBOUND' | 'OUTBOUND', startedAt,
+ * endedAt, notes? }` (times in epoch ms). Responds `{ activity }`.
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    recordId?: unknown;
+    objectName?: unknown;
+    number?: unknown;
+    direction?: unknown;
+    startedAt?: unknown;
+    endedAt?: unknown;
+    notes?: unknown;
+  } | null;
+  const recordId = typeof input?.recordId === 'string' ? input.recordId : '';
+  const objectName = typeof input?.objectName === 'string' ? input.objectName : '';
+  const number = typeof input?.number === 'string' ? input.number : '';
+  const startedAt = typeof input?.startedAt === 'number' ? input.startedAt : NaN;
+  const endedAt = typeof input?.endedAt === 'number' ? input.endedAt : NaN;
+  if (!recordId || !objectName || !number) {
+    throw error(400, 'Record and number are required');
+  }
+  if (!Number.isFinite(startedAt) || !Number.isFinite(endedAt) || endedAt < startedAt) {
+    throw error(400, 'Start and end times are required');
+  }
+  if (input?.direction !== 'INBOUND' && input?.direction !== 'OUTBOUND') {
+    throw error(400, 'Direction must be INBOUND or OUTBOUND');
+  }
+  if (!(await screenPopObjects(result.repos)).includes(objectName)) {
+    throw error(400, `Calls can't be logged against ${objectName} records`);
+  }
+
+  const logResult = await result.repos.crm.logCallActivity({
+    recordId,
+    objectName,
+    number,
+    direction: input.direction === 'INBOUND' ? 'Inbound' : 'Outbound',
+    startedAt: new Date(startedAt).toISOString(),
+    durationSeconds: (endedAt - startedAt) / 1000,
+    notes: typeof input.notes === 'string' ? input.notes.trim() : undefined,
+  });
+  if (!logResult.success || !logResult.data) {
+    throw error(500, logResult.error || 'Failed to log call');
+  }
+
+  return json({ activity: logResult.data });
+};
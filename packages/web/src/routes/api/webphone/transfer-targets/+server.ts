@@ -0,0 +1,22 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { searchTransferTargets } from '$lib/server/transferTargets';
+
+/**
+ * `GET /api/webphone/transfer-targets?q=`
+ *
+ * Users, groups and phone numbers matching `q`, for the webphone's
+ * transfer picker
+ */
+export const GET: RequestHandler = async ({ url, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const query = url.searchParams.get('q') ?? '';
+  const targets = await searchTransferTargets(result.repos, query);
+
+  return json({ targets });
+};
@@ -0,0 +1,97 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { tryCreateContextAndRepositories, isSalesforceContext } from '$lib/adapters';
+import type { Repositories } from '$lib/repositories';
+import { wrapupCodesForGroups, type User, type WrapupCode } from '$lib/domain';
+
+/** The signed-in agent's Natterbox user and the wrap-up codes offered to them. */
+async function loadAgentWrapup(
+  repos: Repositories,
+  salesforceUserId: string | undefined
+): Promise<{ user: User | null; codes: WrapupCode[] }> {
+  const user = salesforceUserId ? await repos.users.findBySalesforceUserId(salesforceUserId) : null;
+  const [codes, memberships] = await Promise.all([
+    repos.wrapupCodes.findAll(),
+    user ? repos.users.getGroupMemberships(user.id) : Promise.resolve([]),
+  ]);
+  return { user, codes: wrapupCodesForGroups(codes, memberships.map((m) => m.groupId)) };
+}
+
+/**
+ * `GET /api/webphone/wrapup`
+ *
+ * Wrap-up codes offered to the signed-in agent (org-wide codes plus those
+ * for their groups) and the wrap-up timer
+ */
+export const GET: RequestHandler = async ({ locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const [{ codes }, settings] = await Promise.all([
+    loadAgentWrapup(result.repos, locals.user?.id),
+    result.repos.wrapupCodes.getSettings(),
+  ]);
+
+  return json({ codes, timerSeconds: settings.timerSeconds });
+};
+
+/**
+ * `POST /api/webphone/wrapup`
+ *
+ * Record the agent's wrap-up on the call log: `{ number, direction:
+ * 'INBOUND' | 'OUTBOUND', startedAt, code, notes? }`. Responds 404 while the
+ * call log hasn't been written yet, so the webphone can try again.
+ */
+export const POST: RequestHandler = async ({ request, locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const input = (await request.json().catch(() => null)) as {
+    number?: unknown;
+    direction?: unknown;
+    startedAt?: unknown;
+    code?: unknown;
+    notes?: unknown;
+  } | null;
+  const number = typeof input?.number === 'string' ? input.number : '';
+  const startedAt = typeof input?.startedAt === 'number' ? new Date(input.startedAt) : null;
+  if (!number || !startedAt || Number.isNaN(startedAt.getTime())) {
+    throw error(400, 'Number and start time are required');
+  }
+  if (input?.direction !== 'INBOUND' && input?.direction !== 'OUTBOUND') {
+    throw error(400, 'Direction must be INBOUND or OUTBOUND');
+  }
+
+  const { repos, ctx, isDemo } = result;
+  const { user, codes } = await loadAgentWrapup(repos, locals.user?.id);
+  const code = codes.find((c) => c.name === input.code);
+  if (!code) {
+    throw error(400, 'Unknown wrap-up code');
+  }
+
+  // Demo mode has no webphone calls to match against
+  if (isDemo || !isSalesforceContext(ctx)) {
+    return json({ ok: true, demo: true });
+  }
+  if (!user) {
+    throw error(403, 'Your Salesforce user is not linked to a Natterbox User.');
+  }
+
+  const saved = await repos.callLogs.recordDisposition({
+    userId: user.id,
+    number,
+    direction: input.direction === 'OUTBOUND' ? 'Outbound' : 'Inbound',
+    startedAt: startedAt.toISOString(),
+    code: code.name,
+    notes: typeof input.notes === 'string' ? input.notes.trim() : undefined,
+  });
+  if (!saved.success) {
+    throw error(saved.error === 'Call log not found' ? 404 : 500, saved.error ?? 'Failed to record wrap-up');
+  }
+
+  return json({ ok: true, callLogId: saved.data?.id });
+};
@@ -29,6 +29,8 @@ export interface CallLogsPageData {
   pagination: PaginationMeta;
   isDemo: boolean;
   canPlayRecordings: boolean;
+  /** Wrap-up code names for the filter, including retired codes */
+  wrapupCodes: string[];
   error?: string;
 }
 
@@ -47,6 +49,7 @@ function parseQueryParams(url: URL) {
   const toDate = url.searchParams.get('toDate') || undefined;
   const userId = url.searchParams.get('userId') || undefined;
   const phoneNumber = url.searchParams.get('phoneNumber') || undefined;
+  const wrapupCode = url.searchParams.get('wrapupCode') || undefined;
 
   return {
     page: Math.max(1, page),
@@ -62,6 +65,7 @@ function parseQueryParams(url: URL) {
       ...(toDate && { toDate }),
       ...(userId && { userId }),
       ...(phoneNumber && { phoneNumber }),
+      ...(wrapupCode && { wrapupCode }),
     },
   };
 }
@@ -87,15 +91,25 @@ export const load: PageServerLoad<CallLogsPageData> = async ({ locals, url }) =>
       },
       isDemo: false,
       canPlayRecordings,
+      wrapupCodes: [],
       error: 'Not authenticated',
     };
   }
 
   const params = parseQueryParams(url);
+  const repos = getRepositories(ctx);
+  const wrapupCodes = await repos.wrapupCodes
+    .findAll()
+    .then((codes) => codes.map((c) => c.name))
+    .catch((err) => {
+      console.warn('Failed to fetch wrap-up codes:', err);
+      return [] as string[];
+    });
 
   // Charlie-preferred read path. See `/users/+page.server.ts` for the
-  // canonical comment on what this gate evaluates.
-  const charlie = tryGetCharlieClient(locals, 'call-logs');
+  // canonical comment on what this gate evaluates. Charlie's call logs
+  // don't carry wrap-up codes, so filtering on one always reads from SF.
+  const charlie = params.filters.wrapupCode ? null : tryGetCharlieClient(locals, 'call-logs');
   if (charlie) {
     try {
       // Build the Charlie GraphQL filter from the page-server params.
@@ -129,6 +143,7 @@ export const load: PageServerLoad<CallLogsPageData> = async ({ locals, url }) =>
         pagination: projectConnectionPagination(conn, params.page, params.pageSize),
         isDemo: ctx.platform === 'demo',
         canPlayRecordings,
+        wrapupCodes,
       };
     } catch (err) {
       console.warn(
@@ -139,14 +154,14 @@ export const load: PageServerLoad<CallLogsPageData> = async ({ locals, url }) =>
   }
 
   try {
-    const { callLogs: callLogRepo } = getRepositories(ctx);
-    const result = await callLogRepo.findAll(params);
+    const result = await repos.callLogs.findAll(params);
 
     return {
       callLogs: result.items,
       pagination: result.pagination,
       isDemo: ctx.platform === 'demo',
       canPlayRecordings,
+      wrapupCodes,
     };
   } catch (error) {
     console.error('Failed to fetch call logs:', error);
@@ -162,6 +177,7 @@ export const load: PageServerLoad<CallLogsPageData> = async ({ locals, url }) =>
       },
       isDemo: ctx.platform === 'demo',
       canPlayRecordings,
+      wrapupCodes,
       error: error instanceof Error ? error.message : 'Failed to load call logs',
     };
   }
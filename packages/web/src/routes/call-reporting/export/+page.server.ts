@@ -16,6 +16,8 @@ export interface ExportField {
 
 export interface ExportPageData {
   fields: ExportField[];
+  /** Wrap-up code names for the filter, including retired codes */
+  wrapupCodes: string[];
   isDemo: boolean;
   error?: string;
 }
@@ -31,6 +33,8 @@ const AVAILABLE_FIELDS: ExportField[] = [
   { key: 'Result__c', label: 'Result', default: true },
   { key: 'User__r.Name', label: 'Agent', default: true },
   { key: 'Group__r.Name', label: 'Group', default: false },
+  { key: 'WrapupCode__c', label: 'Wrap-up Code', default: true },
+  { key: 'WrapupNotes__c', label: 'Wrap-up Notes', default: false },
   { key: 'CreatedDate', label: 'Created Date', default: false },
 ];
 
@@ -40,14 +44,23 @@ export const load: PageServerLoad = async ({ locals }) => {
   if (!result) {
     return {
       fields: AVAILABLE_FIELDS,
+      wrapupCodes: [],
       isDemo: true,
     } satisfies ExportPageData;
   }
 
-  const { isDemo } = result;
+  const { isDemo, repos } = result;
+  const wrapupCodes = await repos.wrapupCodes
+    .findAll()
+    .then((codes) => codes.map((c) => c.name))
+    .catch((e) => {
+      console.warn('Failed to fetch wrap-up codes:', e);
+      return [] as string[];
+    });
 
   return {
     fields: AVAILABLE_FIELDS,
+    wrapupCodes,
     isDemo,
   } satisfies ExportPageData;
 };
@@ -58,6 +71,7 @@ export const actions: Actions = {
     const startDate = formData.get('startDate') as string;
     const endDate = formData.get('endDate') as string;
     const direction = formData.get('direction') as string;
+    const wrapupCode = (formData.get('wrapupCode') as string) || undefined;
     const selectedFields = formData.getAll('fields') as string[];
     const format = formData.get('format') as string || 'csv';
     const limit = parseInt(formData.get('limit') as string) || 1000;
@@ -71,7 +85,7 @@ export const actions: Actions = {
 
     // Demo mode - return sample data
     if (isDemo || !isSalesforceContext(ctx)) {
-      const sampleData = generateDemoExportData(selectedFields, limit);
+      const sampleData = generateDemoExportData(selectedFields, limit, wrapupCode);
       return { success: true, data: sampleData, format };
     }
 
@@ -81,6 +95,7 @@ export const actions: Actions = {
         startDate,
         endDate,
         direction: direction !== 'all' ? direction : undefined,
+        wrapupCode,
         fields: selectedFields,
         limit: Math.min(limit, 10000),
       });
@@ -93,7 +108,7 @@ export const actions: Actions = {
   },
 };
 
-function generateDemoExportData(fields: string[], limit: number) {
+function generateDemoExportData(fields: string[], limit: number, wrapupCode?: string) {
   const data: Record<string, string | number>[] = [];
   const fieldLabels = AVAILABLE_FIELDS.reduce((acc, f) => {
     acc[f.key] = f.label;
@@ -104,6 +119,7 @@ function generateDemoExportData(fields: string[], limit: number) {
   const results = ['Answered', 'Missed', 'Voicemail'];
   const agents = ['John Smith', 'Jane Doe', 'Bob Wilson', 'Alice Brown', 'Charlie Davis'];
   const groups = ['Sales', 'Support', 'Billing', 'Technical'];
+  const wrapupCodes = ['Resolved', 'Sale', 'Callback Requested', ''];
 
   for (let i = 0; i < Math.min(limit, 100); i++) {
     const row: Record<string, string | number> = {};
@@ -142,6 +158,12 @@ function generateDemoExportData(fields: string[], limit: number) {
         case 'Group__r.Name':
           row[label] = groups[i % 4];
           break;
+        case 'WrapupCode__c':
+          row[label] = wrapupCode ?? wrapupCodes[i % 4] ?? '';
+          break;
+        case 'WrapupNotes__c':
+          row[label] = i % 5 === 0 ? 'Customer will call back next week' : '';
+          break;
         case 'CreatedDate':
           row[label] = date.toISOString();
           break;
@@ -7,6 +7,7 @@
 
 import { tryCreateContextAndRepositories, isSalesforceContext } from '$lib/adapters';
 import { canUseSapienApi, sapienApiRequest, getOrganizationId } from '$lib/server/gatekeeper';
+import { canMonitorCalls } from '$lib/server/callMonitor';
 import type { PageServerLoad } from './$types';
 
 interface SapienCall {
@@ -45,6 +46,8 @@ export interface ActiveCall {
   toUserName?: string;
   agentName?: string;
   agentExtension?: string;
+  /** The agent's channel, which supervisors monitor */
+  agentChannelUuid?: string;
   duration: number;
   queueName?: string;
   feature?: string;
@@ -86,6 +89,8 @@ export interface CallStatusPageData {
   sapienConfigured: boolean;
   hasCallStatusPermission: boolean;
   canListenIn: boolean;
+  /** Team Leaders and Admins can listen, whisper and barge */
+  canMonitorCalls: boolean;
   sapienError?: string;
   permissionError?: string;
   error?: string;
@@ -113,6 +118,7 @@ const DEMO_ACTIVE_CALLS: ActiveCall[] = [
     toUserName: 'John Smith',
     agentName: 'John Smith',
     agentExtension: '1001',
+    agentChannelUuid: 'demo-uuid-1-b',
     duration: 225,
     queueName: 'Support',
     feature: 'Queue',
@@ -171,6 +177,7 @@ export const load: PageServerLoad = async ({ locals, url }) => {
       sapienConfigured: true,
       hasCallStatusPermission: true,
       canListenIn: true,
+      canMonitorCalls: true,
     } satisfies CallStatusPageData;
   }
 
@@ -188,6 +195,7 @@ export const load: PageServerLoad = async ({ locals, url }) => {
       sapienConfigured: true,
       hasCallStatusPermission: true,
       canListenIn: true,
+      canMonitorCalls: true,
     } satisfies CallStatusPageData;
   }
 
@@ -294,6 +302,8 @@ export const load: PageServerLoad = async ({ locals, url }) => {
           let toNumber = call.to || '';
           let fromUserId: number | undefined;
           let toUserId: number | undefined;
+          let fromChannelUuid: string | undefined;
+          let toChannelUuid: string | undefined;
           let startTime = call.startTime || new Date().toISOString();
           let answerTime = call.answerTime;
           let feature = call.feature || '';
@@ -302,6 +312,7 @@ export const load: PageServerLoad = async ({ locals, url }) => {
             const ch1 = call.channels[0];
             fromNumber = ch1.from || fromNumber;
             fromUserId = ch1.userId;
+            fromChannelUuid = ch1?.uuid;
             startTime = ch1.createTime || startTime;
             answerTime = ch1.answerTime || answerTime;
             feature = ch1.feature || feature;
@@ -310,6 +321,7 @@ export const load: PageServerLoad = async ({ locals, url }) => {
               const ch2 = call.channels[1];
               toNumber = ch2.to || toNumber;
               toUserId = ch2.userId;
+              toChannelUuid = ch2?.uuid;
             }
           }
 
@@ -337,6 +349,8 @@ export const load: PageServerLoad = async ({ locals, url }) => {
             activeCall.agentName = user.name;
             activeCall.agentExtension = user.extension;
           }
+          // The agent is the user on the call: the answering leg, or the caller on outbound calls
+          activeCall.agentChannelUuid = toUserId ? toChannelUuid : fromUserId ? fromChannelUuid : undefined;
 
           activeCalls.push(activeCall);
         }
@@ -374,6 +388,7 @@ export const load: PageServerLoad = async ({ locals, url }) => {
     sapienConfigured,
     hasCallStatusPermission,
     canListenIn: currentCanListenIn,
+    canMonitorCalls: canMonitorCalls(currentNbUser?.permissionLevel),
     sapienError,
     permissionError,
   } satisfies CallStatusPageData;
@@ -1,8 +1,7 @@
 import type { PageServerLoad, Actions } from './$types';
 import { tryCreateContextAndRepositories, isSalesforceContext } from '$lib/adapters';
+import type { PolicyRevisionSummary, PolicyTemplate, RoutingPolicy } from '$lib/domain';
 import { 
-  savePolicyToSapien, 
-  createPolicyInSapien,
   deletePolicyFromSapien,
   SAPIEN_SCOPES 
 } from '$lib/server/sapien';
@@ -12,12 +11,11 @@ import {
   getOrganizationId,
   getSapienHost
 } from '$lib/server/gatekeeper';
-import { 
-  syncEventSubscriptionsFromPolicy,
-  deleteEventSubscriptionsForPolicy 
-} from '$lib/server/events';
+import { deleteEventSubscriptionsForPolicy } from '$lib/server/events';
+import { persistPolicy } from '$lib/server/policies';
 import { error, fail } from '@sveltejs/kit';
-import { buildPayload, type PolicyData as BuildPayloadPolicy } from '$lib/policy-editor/buildPayload';
+import type { PolicyData as BuildPayloadPolicy } from '$lib/policy-editor/buildPayload';
+import type { Repositories } from '$lib/repositories';
 
 export interface PolicyEditorPageData {
   policy: PolicyData | null;
@@ -25,6 +23,12 @@ export interface PolicyEditorPageData {
   groups: GroupData[];
   sounds: SoundData[];
   phoneNumbers: PhoneNumberData[];
+  /** Saved revisions, newest first */
+  revisions: PolicyRevisionSummary[];
+  /** Org-wide sub-flow templates for the node palette */
+  templates: PolicyTemplate[];
+  /** Whether templates can be saved, i.e. there is a repository and the org can store them */
+  templatesEnabled: boolean;
   isAuthenticated: boolean;
   isDemo: boolean;
   error?: string;
@@ -71,6 +75,21 @@ export interface PolicyEdge {
   data?: Record<string, unknown>;
 }
 
+/**
+ * Returned with a 409 when the policy was saved by someone else after the
+ * editor loaded it
+ */
+export interface PolicySaveConflict {
+  /** Version to send as baseVersion once the conflict is resolved */
+  version: string;
+  modifiedByName: string;
+  modifiedAt: string;
+  /** Latest revision number, where revision history is available */
+  revision?: number;
+  /** The saved version, in editor format, for merging */
+  body: PolicyBody;
+}
+
 export interface UserData {
   id: string;
   name: string;
@@ -127,6 +146,86 @@ function mapLegacyNodeType(templateClass?: string, nodeType?: string): string {
   return typeMap[nodeType || ''] || 'default';
 }
 
+/**
+ * Turn a stored Body__c into the editor's nodes and edges. Used when loading
+ * the page and when a save conflict returns the currently saved version.
+ */
+function toEditorBody(rawBody: RoutingPolicy['body']): PolicyBody {
+  if (!rawBody) return { nodes: [], edges: [] };
+
+  try {
+    const bodyData = typeof rawBody === 'string' ? JSON.parse(rawBody) : rawBody;
+    
+    // Transform legacy Natterbox format to our expected format
+    const rawNodes = Array.isArray(bodyData.nodes) ? bodyData.nodes : [];
+    const transformedNodes = rawNodes.map((node: Record<string, unknown>) => {
+      let label = node.name || node.title || 'Node';
+      const outputs = node.outputs as Array<Record<string, unknown>> | undefined;
+      
+      if (node.templateClass === 'ModAction' && outputs && outputs.length > 0) {
+        const firstOutput = outputs[0];
+        label = (firstOutput.name || firstOutput.title || label) as string;
+        if (outputs.length > 1) {
+          label = `${label} (+${outputs.length - 1})`;
+        }
+      }
+      
+      return {
+        id: node.id as string,
+        type: mapLegacyNodeType(node.templateClass as string, node.type as string),
+        position: { 
+          x: (node.x as number) || 0, 
+          y: (node.y as number) || 0 
+        },
+        data: {
+          label,
+          description: node.description,
+          templateClass: node.templateClass,
+          templateId: node.templateId,
+          config: node.config,
+          variables: node.variables,
+          outputs: node.outputs,
+          subItems: node.subItems,
+          ...node
+        },
+        width: node.width as number,
+        height: node.height as number,
+      };
+    });
+    
+    const rawConnections = Array.isArray(bodyData.connections) ? bodyData.connections : [];
+    const rawEdges = Array.isArray(bodyData.edges) ? bodyData.edges : [];
+    
+    const transformedEdges = rawConnections.length > 0 
+      ? rawConnections.map((conn: Record<string, unknown>, index: number) => {
+          const source = conn.source as { nodeID: string; id: string } | undefined;
+          const dest = conn.dest as { nodeID: string; id: string } | undefined;
+          return {
+            id: `edge-${index}`,
+            source: source?.nodeID || '',
+            target: dest?.nodeID || '',
+            sourceHandle: source?.id,
+            targetHandle: dest?.id,
+          };
+        })
+      : rawEdges;
+    
+    return {
+      nodes: transformedNodes,
+      edges: transformedEdges,
+      viewport: bodyData.viewport || { 
+        x: bodyData.translateX || 0, 
+        y: bodyData.translateY || 0, 
+        zoom: bodyData.zoom || 1 
+      },
+    };
+  } catch (e) {
+    console.warn('Failed to parse policy body:', e);
+  }
+
+  return { nodes: [], edges: [] };
+}
+
 export const load: PageServerLoad = async ({ params, locals }) => {
   const policyId = params.id;
 
@@ -145,7 +244,12 @@ export const load: PageServerLoad = async ({ params, locals }) => {
   const { repos, isDemo } = result;
 
   if (isDemo) {
-    return getDemoData(policyId);
+    const templates = await repos.routingPolicies.listTemplates();
+    return {
+      ...getDemoData(policyId),
+      templates: templates ?? [],
+      templatesEnabled: templates !== null,
+    } satisfies PolicyEditorPageData;
   }
 
   try {
@@ -158,79 +262,7 @@ export const load: PageServerLoad = async ({ params, locals }) => {
       throw error(404, 'Policy not found');
     }
 
-    // Parse the policy body JSON
-    let body: PolicyBody = { nodes: [], edges: [] };
-    if (policy.body) {
-      try {
-        const bodyData = typeof policy.body === 'string' ? JSON.parse(policy.body) : policy.body;
-        
-        // Transform legacy Natterbox format to our expected format
-        const rawNodes = Array.isArray(bodyData.nodes) ? bodyData.nodes : [];
-        const transformedNodes = rawNodes.map((node: Record<string, unknown>) => {
-          let label = node.name || node.title || 'Node';
-          const outputs = node.outputs as Array<Record<string, unknown>> | undefined;
-          
-          if (node.templateClass === 'ModAction' && outputs && outputs.length > 0) {
-            const firstOutput = outputs[0];
-            label = (firstOutput.name || firstOutput.title || label) as string;
-            if (outputs.length > 1) {
-              label = `${label} (+${outputs.length - 1})`;
-            }
-          }
-          
-          return {
-            id: node.id as string,
-            type: mapLegacyNodeType(node.templateClass as string, node.type as string),
-            position: { 
-              x: (node.x as number) || 0, 
-              y: (node.y as number) || 0 
-            },
-            data: {
-              label,
-              description: node.description,
-              templateClass: node.templateClass,
-              templateId: node.templateId,
-              config: node.config,
-              variables: node.variables,
-              outputs: node.outputs,
-              subItems: node.subItems,
-              ...node
-            },
-            width: node.width as number,
-            height: node.height as number,
-          };
-        });
-        
-        const rawConnections = Array.isArray(bodyData.connections) ? bodyData.connections : [];
-        const rawEdges = Array.isArray(bodyData.edges) ? bodyData.edges : [];
-        
-        const transformedEdges = rawConnections.length > 0 
-          ? rawConnections.map((conn: Record<string, unknown>, index: number) => {
-              const source = conn.source as { nodeID: string; id: string } | undefined;
-              const dest = conn.dest as { nodeID: string; id: string } | undefined;
-              return {
-                id: `edge-${index}`,
-                source: source?.nodeID || '',
-                target: dest?.nodeID || '',
-                sourceHandle: source?.id,
-                targetHandle: dest?.id,
-              };
-            })
-          : rawEdges;
-        
-        body = {
-          nodes: transformedNodes,
-          edges: transformedEdges,
-          viewport: bodyData.viewport || { 
-            x: bodyData.translateX || 0, 
-            y: bodyData.translateY || 0, 
-            zoom: bodyData.zoom || 1 
-          },
-        };
-      } catch (e) {
-        console.warn('Failed to parse policy body:', e);
-      }
-    }
+    const body = toEditorBody(policy.body);
 
     const policyData: PolicyData = {
       id: policy.id,
@@ -246,11 +278,20 @@ export const load: PageServerLoad = async ({ params, locals }) => {
     };
 
     // Fetch supporting data in parallel using repositories
-    const [userResult, groupResult, soundResult, phoneResult] = await Promise.all([
+    const [userResult, groupResult, soundResult, phoneResult, revisions, templates] = await Promise.all([
       repos.users.findAll({ page: 1, pageSize: 1000 }),
       repos.groups.findAll({ page: 1, pageSize: 1000 }),
       repos.sounds.findAll({ page: 1, pageSize: 1000 }),
       repos.phoneNumbers.findAll({ page: 1, pageSize: 1000 }),
+      // Orgs without revision storage still get a working editor, just no history
+      repos.routingPolicies.listRevisions(policyId).catch((e) => {
+        console.warn('[Revision History] Failed to load revisions:', e);
+        return [];
+      }),
+      repos.routingPolicies.listTemplates().catch((e) => {
+        console.warn('[Templates] Failed to load templates:', e);
+        return null;
+      }),
     ]);
 
     const users: UserData[] = userResult.items.map(u => ({
@@ -281,6 +322,10 @@ export const load: PageServerLoad = async ({ params, locals }) => {
       groups,
       sounds,
       phoneNumbers,
+      revisions,
+      // Without template storage the palette still works, with nothing to save to
+      templates: templates ?? [],
+      templatesEnabled: templates !== null,
       isAuthenticated: true,
       isDemo: false,
     } satisfies PolicyEditorPageData;
@@ -297,6 +342,9 @@ export const load: PageServerLoad = async ({ params, locals }) => {
       groups: [],
       sounds: [],
       phoneNumbers: [],
+      revisions: [],
+      templates: [],
+      templatesEnabled: false,
       isAuthenticated: true,
       isDemo: false,
       error: e instanceof Error ? e.message : 'Failed to load policy',
@@ -359,11 +407,37 @@ function getDemoData(policyId: string): PolicyEditorPageData {
       { id: 'p1', name: 'Main Line', number: '+1 555-0100' },
       { id: 'p2', name: 'Support Line', number: '+1 555-0200' },
     ],
+    revisions: [],
+    templates: [],
+    templatesEnabled: false,
     isAuthenticated: false,
     isDemo: true,
   };
 }
 
+/**
+ * Optimistic concurrency for saves and restores: the conflict to return if
+ * the policy was saved after `baseVersion`, the version the editor loaded,
+ * or null if it wasn't
+ */
+async function findSaveConflict(
+  repos: Repositories,
+  policyId: string,
+  baseVersion: string
+): Promise<PolicySaveConflict | null> {
+  const current = await repos.routingPolicies.findById(policyId);
+  if (!current || current.lastModifiedDate === baseVersion) return null;
+
+  const [latestRevision] = await repos.routingPolicies.listRevisions(policyId, 1).catch(() => []);
+  return {
+    version: current.lastModifiedDate,
+    modifiedByName: latestRevision?.authorName || current.lastModifiedByName,
+    modifiedAt: current.lastModifiedDate,
+    revision: latestRevision?.revision,
+    body: toEditorBody(current.body),
+  };
+}
+
 /**
  * Form actions for saving and managing the policy
  */
@@ -395,106 +469,122 @@ export const actions: Actions = {
       }
 
       const policyData = JSON.parse(policyDataJson) as BuildPayloadPolicy;
-      
-      // Get the existing policy's Natterbox ID (platformId) if it exists
-      let natterboxId: number | null = policyData.Id__c ? parseInt(String(policyData.Id__c), 10) : null;
-      
-      if (!natterboxId) {
-        // Fetch it from the repository
-        const existingPolicy = await repos.routingPolicies.findById(params.id);
-        if (existingPolicy?.platformId) {
-          natterboxId = existingPolicy.platformId;
+
+      // Refuse the save if the policy changed since the editor loaded it, unless
+      // the user chose to overwrite
+      const baseVersion = formData.get('baseVersion');
+      if (typeof baseVersion === 'string' && baseVersion && formData.get('force') !== 'true') {
+        const conflict = await findSaveConflict(repos, params.id, baseVersion);
+        if (conflict) {
+          return fail(409, {
+            error: `${conflict.modifiedByName} saved this policy after you opened it`,
+            conflict,
+          });
         }
       }
-
-      // Build the save payload
-      const payload = buildPayload({
-        policy: policyData,
-        config: { DevOrgId__c: '', ConnectorId__c: '' },
-        sounds: [],
+      
+      const persisted = await persistPolicy({
+        policyData,
+        policyId: params.id,
+        repos,
+        ctx,
+        locals,
       });
 
-      // ========== SAVE TO SAPIEN ==========
-      let sapienResult: { id?: number } | null = null;
-      
-      if (canUseSapienApi(locals)) {
-        try {
-          const jwt = await getJwt(
-            ctx.instanceUrl,
-            ctx.accessToken,
-            SAPIEN_SCOPES.ROUTING_POLICIES_ADMIN,
-            locals.user?.id
-          );
-          
-          const organizationId = getOrganizationId();
-          const sapienHost = getSapienHost();
-          
-          if (organizationId && sapienHost) {
-            if (natterboxId) {
-              sapienResult = await savePolicyToSapien(sapienHost, jwt, organizationId, natterboxId, payload.Policy__c);
-            } else {
-              sapienResult = await createPolicyInSapien(sapienHost, jwt, organizationId, payload.Policy__c);
-              natterboxId = sapienResult?.id ?? null;
-            }
-          }
-        } catch (e) {
-          console.error('[Sapien Save] Error saving to Sapien:', e);
-        }
+      // Policies with blocking validation errors are refused before anything is pushed to Sapien
+      if (!persisted.success) {
+        return persisted.diagnostics
+          ? fail(400, { error: persisted.error, diagnostics: persisted.diagnostics })
+          : fail(500, { error: persisted.error });
       }
 
-      // ========== SAVE TO REPOSITORY ==========
-      const updateResult = await repos.routingPolicies.update(params.id, {
-        name: payload.Name,
-        description: payload.Description__c,
-        body: payload.Body__c,
-      });
+      // The editor sends this back as baseVersion on its next save
+      const saved = await repos.routingPolicies.findById(params.id);
+
+      return {
+        success: true,
+        message: persisted.savedToSapien ? 'Policy saved successfully' : 'Policy saved (Sapien sync not available)',
+        version: saved?.lastModifiedDate ?? null,
+        natterboxId: persisted.natterboxId,
+        savedToSapien: persisted.savedToSapien,
+        eventsSynced: persisted.eventsSynced,
+      };
+    } catch (e) {
+      console.error('Error saving policy:', e);
+      return fail(500, { error: e instanceof Error ? e.message : 'Failed to save policy' });
+    }
+  },
+
+  /**
+   * Restore an earlier revision by saving its snapshot again
+   */
+  restoreRevision: async ({ request, locals, params }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
 
-      if (!updateResult.success) {
-        return fail(500, { error: updateResult.error || 'Failed to save policy' });
+    const { repos, isDemo, ctx } = result;
+    if (isDemo) {
+      return fail(400, { error: 'Not available in demo mode' });
+    }
+
+    if (!isSalesforceContext(ctx)) {
+      return fail(400, { error: 'Policy editing requires Salesforce context' });
+    }
+
+    try {
+      const formData = await request.formData();
+      const revisionId = formData.get('revisionId');
+
+      if (!revisionId || typeof revisionId !== 'string') {
+        return fail(400, { error: 'Revision ID is required' });
       }
 
-      // ========== SYNC EVENT SUBSCRIPTIONS ==========
-      let eventsSynced = false;
-      if (natterboxId && canUseSapienApi(locals)) {
-        try {
-          const jwt = await getJwt(ctx.instanceUrl, ctx.accessToken, SAPIEN_SCOPES.ROUTING_POLICIES_ADMIN, locals.user?.id);
-          const organizationId = getOrganizationId();
-          
-          if (organizationId) {
-            const nodes = policyData.nodes || [];
-            const eventNodes = nodes
-              .filter((n: { type?: string; data?: Record<string, unknown> }) => 
-                n.type === 'event' || n.data?.templateClass === 'ModEvent'
-              )
-              .map((n: { id: string; data?: Record<string, unknown> }) => ({
-                id: n.id,
-                name: String(n.data?.label || n.data?.name || 'Event'),
-                eventType: String(n.data?.eventType || 'salesforce'),
-                enabled: Boolean(n.data?.enabled ?? true),
-                config: n.data?.config as Record<string, unknown> | undefined,
-                subscriptionId: n.data?.subscriptionId as string | undefined,
-              }));
-            
-            if (eventNodes.length > 0) {
-              await syncEventSubscriptionsFromPolicy(jwt, organizationId, natterboxId, eventNodes);
-              eventsSynced = true;
-            }
-          }
-        } catch (e) {
-          console.warn('[Events Sync] Failed to sync event subscriptions:', e);
-        }
+      const revision = await repos.routingPolicies.getRevision(revisionId);
+      if (!revision || revision.policyId !== params.id) {
+        return fail(404, { error: 'Revision not found' });
       }
 
-      return { 
-        success: true, 
-        message: sapienResult !== null ? 'Policy saved successfully' : 'Policy saved (Sapien sync not available)',
-        natterboxId,
-        savedToSapien: sapienResult !== null,
-        eventsSynced,
+      // A restore replaces the whole policy, so it never overwrites a save the
+      // editor hasn't seen
+      const baseVersion = formData.get('baseVersion');
+      if (typeof baseVersion !== 'string' || !baseVersion) {
+        return fail(400, { error: 'Reload the policy before restoring a revision' });
+      }
+      const conflict = await findSaveConflict(repos, params.id, baseVersion);
+      if (conflict) {
+        return fail(409, {
+          error: `${conflict.modifiedByName} saved this policy after you opened it; reload it before restoring`,
+        });
+      }
+
+      const persisted = await persistPolicy({
+        policyData: JSON.parse(revision.snapshot) as BuildPayloadPolicy,
+        policyId: params.id,
+        repos,
+        ctx,
+        locals,
+        comment: `Restored from revision ${revision.revision}`,
+      });
+
+      if (!persisted.success) {
+        return persisted.diagnostics
+          ? fail(400, { error: `Revision ${revision.revision} can't be restored: ${persisted.error}`, diagnostics: persisted.diagnostics })
+          : fail(500, { error: persisted.error });
+      }
+
+      return {
+        success: true,
+        restored: true,
+        message: `Restored revision ${revision.revision}`,
+        natterboxId: persisted.natterboxId,
+        savedToSapien: persisted.savedToSapien,
+        eventsSynced: persisted.eventsSynced,
       };
     } catch (e) {
-      console.error('Error saving policy:', e);
-      return fail(500, { error: e instanceof Error ? e.message : 'Failed to save policy' });
+      console.error('Error restoring policy revision:', e);
+      return fail(500, { error: e instanceof Error ? e.message : 'Failed to restore revision' });
     }
   },
 
@@ -0,0 +1,78 @@
+/**
+ * Presence Adherence Page Server
+ *
+ * Per-agent time in each presence state over a date range, with overruns
+ * of each state's max duration, plus the underlying state changes.
+ */
+
+import type { PageServerLoad } from './$types';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { summarizePresenceAdherence } from '$lib/domain';
+import type { PresenceAdherence, PresenceChange } from '$lib/domain';
+
+/** Most state changes listed under the summary */
+const HISTORY_LIMIT = 500;
+
+export interface PresenceAdherencePageData {
+  adherence: PresenceAdherence[];
+  history: PresenceChange[];
+  /** State names in display order, for the summary columns */
+  stateNames: string[];
+  users: { id: string; name: string }[];
+  filters: { from: string; to: string; userId: string };
+  isDemo: boolean;
+  error?: string;
+}
+
+function dateParam(value: string | null, fallback: Date): string {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : fallback.toISOString().slice(0, 10);
+}
+
+export const load: PageServerLoad<PresenceAdherencePageData> = async ({ locals, url }) => {
+  const today = new Date();
+  const filters = {
+    from: dateParam(url.searchParams.get('from'), new Date(today.getTime() - 24 * 60 * 60 * 1000)),
+    to: dateParam(url.searchParams.get('to'), today),
+    userId: url.searchParams.get('userId') ?? '',
+  };
+  const empty = { adherence: [], history: [], stateNames: [], users: [], filters };
+
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    return { ...empty, isDemo: false, error: 'Not authenticated' };
+  }
+
+  const { repos, isDemo } = result;
+  // The "to" date is inclusive
+  const from = `${filters.from}T00:00:00.000Z`;
+  const to = new Date(Date.parse(`${filters.to}T00:00:00.000Z`) + 24 * 60 * 60 * 1000).toISOString();
+  if (from >= to) {
+    return { ...empty, isDemo, error: 'The start date must be on or before the end date' };
+  }
+
+  try {
+    const [states, history, users] = await Promise.all([
+      repos.presence.findStates(),
+      repos.presence.findHistory({ from, to, userId: filters.userId || undefined }),
+      repos.users.findAll({ page: 1, pageSize: 1000 }),
+    ]);
+    const adherence = summarizePresenceAdherence(history, states, from, to);
+    const seen = new Set(adherence.flatMap(a => Object.keys(a.secondsByState)));
+    const stateNames = [
+      ...states.map(s => s.name).filter(name => seen.delete(name)),
+      ...[...seen].sort(),
+    ];
+
+    return {
+      adherence,
+      history: history.slice(0, HISTORY_LIMIT),
+      stateNames,
+      users: users.items.map(u => ({ id: u.id, name: u.name })),
+      filters,
+      isDemo,
+    };
+  } catch (error) {
+    console.error('Failed to fetch presence history:', error);
+    return { ...empty, isDemo, error: 'Failed to load presence history' };
+  }
+};
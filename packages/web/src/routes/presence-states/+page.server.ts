@@ -0,0 +1,291 @@
+/**
+ * Presence States Page Server
+ *
+ * Admin-defined agent states with reason codes and time limits, and the
+ * weekly schedules that move users or groups between them.
+ */
+
+import type { PageServerLoad, Actions } from './$types';
+import { fail } from '@sveltejs/kit';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import {
+  PRESENCE_AVAILABILITIES,
+  isPresenceScheduleTime,
+  isPresenceTimezone,
+} from '$lib/domain';
+import type { PresenceAvailability, PresenceSchedule, PresenceScheduleEntry, PresenceState } from '$lib/domain';
+
+export interface PresenceOption {
+  id: string;
+  name: string;
+}
+
+export interface PresenceStatesPageData {
+  states: PresenceState[];
+  schedules: PresenceSchedule[];
+  users: PresenceOption[];
+  groups: PresenceOption[];
+  isDemo: boolean;
+  error?: string;
+}
+
+export const load: PageServerLoad<PresenceStatesPageData> = async ({ locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  const empty = { states: [], schedules: [], users: [], groups: [] };
+
+  if (!result) {
+    return { ...empty, isDemo: false, error: 'Not authenticated' };
+  }
+
+  const { repos, isDemo } = result;
+
+  try {
+    const [states, schedules, users, groups] = await Promise.all([
+      repos.presence.findStates(),
+      repos.presence.findSchedules(),
+      repos.users.findAll({ page: 1, pageSize: 1000 }),
+      repos.groups.findAll({ page: 1, pageSize: 1000 }),
+    ]);
+    return {
+      states,
+      schedules,
+      users: users.items.map(u => ({ id: u.id, name: u.name })),
+      groups: groups.items.map(g => ({ id: g.id, name: g.name })),
+      isDemo,
+    };
+  } catch (error) {
+    console.error('Failed to fetch presence states:', error);
+    return { ...empty, isDemo, error: 'Failed to load presence states' };
+  }
+};
+
+/** Fields shared by the state create and update forms */
+function readStateForm(formData: FormData) {
+  const maxDuration = formData.get('maxDurationMinutes')?.toString().trim() || '';
+  return {
+    name: formData.get('name')?.toString().trim() || '',
+    availability: formData.get('availability')?.toString() as PresenceAvailability,
+    // One reason per line or comma separated
+    reasonCodes: [
+      ...new Set(
+        (formData.get('reasonCodes')?.toString() || '')
+          .split(/[\n,]/)
+          .map(r => r.trim())
+          .filter(Boolean)
+      ),
+    ],
+    maxDurationMinutes: maxDuration ? Number(maxDuration) : null,
+    active: formData.get('active') === 'on',
+  };
+}
+
+function validateState(data: ReturnType<typeof readStateForm>): string | null {
+  if (!data.name) return 'Name is required';
+  if (!PRESENCE_AVAILABILITIES.includes(data.availability)) return 'Choose an availability';
+  if (
+    data.maxDurationMinutes !== null &&
+    (!Number.isInteger(data.maxDurationMinutes) || data.maxDurationMinutes < 1 || data.maxDurationMinutes > 24 * 60)
+  ) {
+    return 'Max duration must be between 1 and 1440 minutes';
+  }
+  return null;
+}
+
+/** Fields shared by the schedule create and update forms; entries arrive as JSON */
+function readScheduleForm(formData: FormData) {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(formData.get('entries')?.toString() || '[]');
+  } catch {
+    entries = null;
+  }
+  return {
+    name: formData.get('name')?.toString().trim() || '',
+    userIds: formData.getAll('userIds').map(String).filter(Boolean),
+    groupIds: formData.getAll('groupIds').map(String).filter(Boolean),
+    timezone: formData.get('timezone')?.toString().trim() || '',
+    entries,
+    active: formData.get('active') === 'on',
+  };
+}
+
+function validateSchedule(
+  data: ReturnType<typeof readScheduleForm>,
+  states: PresenceState[]
+): { entries: PresenceScheduleEntry[] } | { error: string } {
+  if (!data.name) return { error: 'Name is required' };
+  if (data.userIds.length === 0 && data.groupIds.length === 0) {
+    return { error: 'Choose at least one user or group' };
+  }
+  if (!isPresenceTimezone(data.timezone)) return { error: `Unknown timezone "${data.timezone}"` };
+  if (!Array.isArray(data.entries) || data.entries.length === 0) {
+    return { error: 'Add at least one scheduled change' };
+  }
+
+  const entries: PresenceScheduleEntry[] = [];
+  for (const [index, raw] of data.entries.entries()) {
+    const entry = raw as Partial<PresenceScheduleEntry>;
+    const row = `Change ${index + 1}`;
+    const days = Array.isArray(entry.days) ? [...new Set(entry.days)].sort((a, b) => a - b) : [];
+    if (days.length === 0 || days.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return { error: `${row}: choose at least one day` };
+    }
+    if (typeof entry.time !== 'string' || !isPresenceScheduleTime(entry.time)) {
+      return { error: `${row}: time must be HH:MM` };
+    }
+    const state = states.find(s => s.id === entry.stateId);
+    if (!state) return { error: `${row}: choose a state` };
+    const reasonCode = entry.reasonCode || null;
+    if (reasonCode && !state.reasonCodes.includes(reasonCode)) {
+      return { error: `${row}: "${reasonCode}" isn't a reason for ${state.name}` };
+    }
+    entries.push({ days, time: entry.time, stateId: state.id, reasonCode });
+  }
+  return { entries };
+}
+
+export const actions: Actions = {
+  createState: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const data = readStateForm(await request.formData());
+    const invalid = validateState(data);
+    if (invalid) {
+      return fail(400, { error: invalid });
+    }
+
+    const existing = await result.repos.presence.findStates();
+    if (existing.some(s => s.name.toLowerCase() === data.name.toLowerCase())) {
+      return fail(400, { error: `A state called "${data.name}" already exists` });
+    }
+
+    const createResult = await result.repos.presence.createState(data);
+    if (!createResult.success) {
+      return fail(500, { error: createResult.error || 'Failed to create presence state' });
+    }
+
+    return { success: true, action: 'createState' };
+  },
+
+  updateState: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const formData = await request.formData();
+    const id = formData.get('id')?.toString();
+    const data = readStateForm(formData);
+    if (!id) {
+      return fail(400, { error: 'Presence state ID is required' });
+    }
+    const invalid = validateState(data);
+    if (invalid) {
+      return fail(400, { error: invalid });
+    }
+
+    const existing = await result.repos.presence.findStates();
+    if (existing.some(s => s.id !== id && s.name.toLowerCase() === data.name.toLowerCase())) {
+      return fail(400, { error: `A state called "${data.name}" already exists` });
+    }
+
+    const updateResult = await result.repos.presence.updateState(id, data);
+    if (!updateResult.success) {
+      return fail(500, { error: updateResult.error || 'Failed to update presence state' });
+    }
+
+    return { success: true, action: 'updateState' };
+  },
+
+  deleteState: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const id = (await request.formData()).get('id')?.toString();
+    if (!id) {
+      return fail(400, { error: 'Presence state ID is required' });
+    }
+
+    const schedules = await result.repos.presence.findSchedules();
+    const usedBy = schedules.find(s => s.entries.some(e => e.stateId === id));
+    if (usedBy) {
+      return fail(400, { error: `The "${usedBy.name}" schedule still uses this state` });
+    }
+
+    const deleteResult = await result.repos.presence.deleteState(id);
+    if (!deleteResult.success) {
+      return fail(500, { error: deleteResult.error || 'Failed to delete presence state' });
+    }
+
+    return { success: true, action: 'deleteState' };
+  },
+
+  createSchedule: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const data = readScheduleForm(await request.formData());
+    const checked = validateSchedule(data, await result.repos.presence.findStates());
+    if ('error' in checked) {
+      return fail(400, { error: checked.error });
+    }
+
+    const createResult = await result.repos.presence.createSchedule({ ...data, entries: checked.entries });
+    if (!createResult.success) {
+      return fail(500, { error: createResult.error || 'Failed to create schedule' });
+    }
+
+    return { success: true, action: 'createSchedule' };
+  },
+
+  updateSchedule: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const formData = await request.formData();
+    const id = formData.get('id')?.toString();
+    if (!id) {
+      return fail(400, { error: 'Schedule ID is required' });
+    }
+    const data = readScheduleForm(formData);
+    const checked = validateSchedule(data, await result.repos.presence.findStates());
+    if ('error' in checked) {
+      return fail(400, { error: checked.error });
+    }
+
+    const updateResult = await result.repos.presence.updateSchedule(id, { ...data, entries: checked.entries });
+    if (!updateResult.success) {
+      return fail(500, { error: updateResult.error || 'Failed to update schedule' });
+    }
+
+    return { success: true, action: 'updateSchedule' };
+  },
+
+  deleteSchedule: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const id = (await request.formData()).get('id')?.toString();
+    if (!id) {
+      return fail(400, { error: 'Schedule ID is required' });
+    }
+
+    const deleteResult = await result.repos.presence.deleteSchedule(id);
+    if (!deleteResult.success) {
+      return fail(500, { error: deleteResult.error || 'Failed to delete schedule' });
+    }
+
+    return { success: true, action: 'deleteSchedule' };
+  },
+};
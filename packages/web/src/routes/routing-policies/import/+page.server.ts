@@ -0,0 +1,160 @@
+/**
+ * Routing Policy Import Page Server
+ *
+ * Imports a policy bundle exported from another org. The client maps each
+ * referenced entity to one in this org (or a placeholder); the action re-runs
+ * the mapping against freshly loaded org data, creates the policy and saves
+ * the cloned body through the same pipeline as the editor.
+ */
+
+import type { PageServerLoad, Actions } from './$types';
+import { fail } from '@sveltejs/kit';
+import { tryCreateContextAndRepositories, isSalesforceContext } from '$lib/adapters';
+import type { PolicyType } from '$lib/domain';
+import { loadBundleTargets, persistPolicy } from '$lib/server/policies';
+import {
+  applyBundleMappings,
+  parsePolicyBundle,
+  type BundleMappings,
+  type BundleTargets,
+} from '$lib/policy-editor/policyBundle';
+import { transformLegacyPolicy, type LegacyPolicy } from '$lib/policy-editor/dataTransform';
+import { POLICY_TYPE, type PolicyData as BuildPayloadPolicy } from '$lib/policy-editor/buildPayload';
+
+export interface ImportPolicyPageData {
+  targets: BundleTargets;
+  isDemo: boolean;
+  error?: string;
+}
+
+const POLICY_TYPES: PolicyType[] = ['Call', 'Digital', 'Outbound', 'IVR', 'Queue', 'Hunt'];
+
+function emptyTargets(): BundleTargets {
+  return { group: [], user: [], sound: [], skill: [], phoneNumber: [] };
+}
+
+export const load: PageServerLoad = async ({ locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    return { targets: emptyTargets(), isDemo: false, error: 'Not authenticated' } satisfies ImportPolicyPageData;
+  }
+
+  try {
+    return {
+      targets: await loadBundleTargets(result.repos),
+      isDemo: result.isDemo,
+    } satisfies ImportPolicyPageData;
+  } catch (e) {
+    console.error('[Policy Import] Failed to load org data:', e);
+    return {
+      targets: emptyTargets(),
+      isDemo: result.isDemo,
+      error: e instanceof Error ? e.message : 'Failed to load org data',
+    } satisfies ImportPolicyPageData;
+  }
+};
+
+export const actions: Actions = {
+  /**
+   * Create a new policy from an uploaded bundle and the chosen mappings
+   */
+  import: async ({ request, locals }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const { repos, isDemo, ctx } = result;
+    if (isDemo) {
+      return fail(400, { error: 'Not available in demo mode' });
+    }
+
+    if (!isSalesforceContext(ctx)) {
+      return fail(400, { error: 'Policy import requires Salesforce context' });
+    }
+
+    const formData = await request.formData();
+    const parsed = parsePolicyBundle(String(formData.get('bundle') ?? ''));
+    if (!parsed.success) {
+      return fail(400, { error: parsed.error });
+    }
+
+    let mappings: BundleMappings;
+    try {
+      mappings = JSON.parse(String(formData.get('mappings') ?? '{}')) as BundleMappings;
+    } catch {
+      return fail(400, { error: 'Reference mappings are invalid' });
+    }
+
+    const { bundle } = parsed;
+    const name = String(formData.get('name') ?? '').trim() || bundle.policy.name;
+    const type = POLICY_TYPES.find((t) => t === bundle.policy.type) ?? 'Call';
+
+    try {
+      const imported = applyBundleMappings(bundle, mappings, await loadBundleTargets(repos));
+
+      const created = await repos.routingPolicies.create({
+        name,
+        description: bundle.policy.description,
+        type,
+      });
+      if (!created.success || !created.data) {
+        return fail(500, { error: created.error || 'Failed to create policy' });
+      }
+
+      const policyId = created.data.id;
+      const editorPolicy = transformLegacyPolicy(imported.policy as unknown as LegacyPolicy);
+
+      const persisted = await persistPolicy({
+        policyData: {
+          Id: policyId,
+          Id__c: null,
+          Name: name,
+          Description__c: bundle.policy.description,
+          Type__c: type === 'Digital' ? POLICY_TYPE.DIGITAL : POLICY_TYPE.CALL,
+          nodes: editorPolicy.nodes as unknown as BuildPayloadPolicy['nodes'],
+          edges: editorPolicy.edges,
+        },
+        policyId,
+        repos,
+        ctx,
+        locals,
+        comment: `Imported from ${bundle.source.policyName}`,
+      });
+
+      if (!persisted.success) {
+        // Don't leave an empty policy behind
+        await repos.routingPolicies.delete(policyId).catch(() => undefined);
+        if (persisted.diagnostics) {
+          const errors = persisted.diagnostics.filter((d) => d.severity === 'error').map((d) => d.message);
+          return fail(400, { error: `The imported policy is not valid: ${errors.join('; ')}` });
+        }
+        return fail(500, { error: persisted.error });
+      }
+
+      const messages = [...imported.report.messages];
+      for (const phoneNumberId of imported.phoneNumberIds) {
+        const assigned = await repos.phoneNumbers.assign({
+          phoneNumberId,
+          assignedTo: policyId,
+          assignedType: 'policy',
+          routingPolicyId: policyId,
+        });
+        if (!assigned.success) {
+          messages.push(`Failed to assign phone number ${phoneNumberId}: ${assigned.error ?? 'unknown error'}`);
+        }
+      }
+
+      return {
+        success: true,
+        policyId,
+        name,
+        placeholderCount: imported.placeholders.length,
+        messages,
+      };
+    } catch (e) {
+      console.error('[Policy Import] Import failed:', e);
+      return fail(500, { error: e instanceof Error ? e.message : 'Failed to import policy' });
+    }
+  },
+};
@@ -0,0 +1,177 @@
+/**
+ * Routing Policy Usage Page Server
+ *
+ * "Where is this used" search across every routing policy, backed by the
+ * policy index, with a bulk replace that rewrites the matches and saves each
+ * affected policy through the editor's save pipeline.
+ */
+
+import type { PageServerLoad, Actions } from './$types';
+import { fail } from '@sveltejs/kit';
+import { tryCreateContextAndRepositories, isSalesforceContext } from '$lib/adapters';
+import { loadBundleTargets } from '$lib/server/policies';
+import {
+  loadPolicyIndex,
+  searchPolicyIndex,
+  listIndexedValues,
+  replaceInPolicies,
+  type PolicyUsageResult,
+  type PolicyUsageValue,
+} from '$lib/server/policyIndex';
+import {
+  POLICY_USAGE_KINDS,
+  type PolicyUsageKind,
+  type PolicyUsageQuery,
+  type PolicyUsageReplacement,
+} from '$lib/policy-editor/policyUsage';
+import type { BundleTargets } from '$lib/policy-editor/policyBundle';
+
+export interface PolicyUsagePageData {
+  query: PolicyUsageQuery | null;
+  results: PolicyUsageResult[];
+  usedValues: PolicyUsageValue[];
+  targets: BundleTargets;
+  policyCount: number;
+  isDemo: boolean;
+  error?: string;
+}
+
+function emptyTargets(): BundleTargets {
+  return { group: [], user: [], sound: [], skill: [], phoneNumber: [] };
+}
+
+function parseKind(value: unknown): PolicyUsageKind | null {
+  return POLICY_USAGE_KINDS.find((kind) => kind === value) ?? null;
+}
+
+function getIndexKey(locals: App.Locals, isDemo: boolean): string {
+  const user = locals.salesforce?.user ?? locals.user;
+  return user?.organizationId ?? (isDemo ? 'demo' : 'default');
+}
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+  const kind = parseKind(url.searchParams.get('kind'));
+  const value = url.searchParams.get('value')?.trim() ?? '';
+  const query = kind && value ? { kind, value } : null;
+
+  const empty: PolicyUsagePageData = {
+    query,
+    results: [],
+    usedValues: [],
+    targets: emptyTargets(),
+    policyCount: 0,
+    isDemo: false,
+  };
+
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    return { ...empty, error: 'Not authenticated' } satisfies PolicyUsagePageData;
+  }
+
+  const { repos, isDemo } = result;
+
+  try {
+    const [index, targets] = await Promise.all([
+      loadPolicyIndex(repos, getIndexKey(locals, isDemo)),
+      loadBundleTargets(repos),
+    ]);
+
+    return {
+      query,
+      results: query ? searchPolicyIndex(index, query) : [],
+      usedValues: listIndexedValues(index),
+      targets,
+      policyCount: index.length,
+      isDemo,
+    } satisfies PolicyUsagePageData;
+  } catch (e) {
+    console.error('[Policy Usage] Failed to index policies:', e);
+    return {
+      ...empty,
+      isDemo,
+      error: e instanceof Error ? e.message : 'Failed to load routing policies',
+    } satisfies PolicyUsagePageData;
+  }
+};
+
+export const actions: Actions = {
+  /**
+   * Replace the searched value in the selected policies
+   */
+  replace: async ({ request, locals }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const { repos, isDemo, ctx } = result;
+    if (isDemo) {
+      return fail(400, { error: 'Not available in demo mode' });
+    }
+
+    if (!isSalesforceContext(ctx)) {
+      return fail(400, { error: 'Replacing requires Salesforce context' });
+    }
+
+    const formData = await request.formData();
+    const kind = parseKind(formData.get('kind'));
+    const value = String(formData.get('value') ?? '').trim();
+    const replacementValue = String(formData.get('replacement') ?? '').trim();
+    const policyIds = formData.getAll('policyIds').map(String).filter(Boolean);
+    // Sent as "<policyId>:<last modified date>" for each policy in the search results
+    const versions = Object.fromEntries(
+      formData
+        .getAll('versions')
+        .map(String)
+        .map((v) => [v.slice(0, v.indexOf(':')), v.slice(v.indexOf(':') + 1)])
+    );
+
+    if (!kind || !value) {
+      return fail(400, { error: 'Search for a value before replacing it' });
+    }
+    if (policyIds.length === 0) {
+      return fail(400, { error: 'Select at least one policy' });
+    }
+
+    const query: PolicyUsageQuery = { kind, value };
+    let replacement: PolicyUsageReplacement = { value: replacementValue };
+
+    if (kind === 'sfObject' && !replacementValue) {
+      return fail(400, { error: 'Enter the Salesforce object to use instead' });
+    }
+
+    if (kind !== 'sfObject' && kind !== 'text' && replacementValue) {
+      // Entities must exist in this org; take the name from org data rather than the form
+      const targets = await loadBundleTargets(repos);
+      const target = targets[kind].find((t) => t.reference === replacementValue);
+      if (!target) {
+        return fail(400, { error: 'The replacement was not found in this org' });
+      }
+      replacement = { value: target.reference, name: target.name };
+    }
+
+    try {
+      const results = await replaceInPolicies({
+        policyIds,
+        versions,
+        query,
+        replacement,
+        repos,
+        ctx,
+        locals,
+      });
+      const failed = results.filter((r) => r.error);
+
+      return {
+        success: true,
+        results,
+        replacedCount: results.reduce((sum, r) => sum + r.replaced, 0),
+        savedCount: results.filter((r) => r.replaced > 0).length,
+        failedCount: failed.length,
+      };
+    } catch (e) {
+      console.error('[Policy Usage] Replace failed:', e);
+      return fail(500, { error: e instanceof Error ? e.message : 'Failed to replace references' });
+    }
+  },
+};
@@ -9,6 +9,7 @@ import { fail } from '@sveltejs/kit';
 import { tryCreateContextAndRepositories } from '$lib/adapters';
 import { canUseSapienApi } from '$lib/server/gatekeeper';
 import type { Wallboard } from '$lib/domain';
+import { createWallboardLayout } from '$lib/wallboard';
 
 export interface WallboardsPageData {
   wallboards: Wallboard[];
@@ -19,9 +20,9 @@ export interface WallboardsPageData {
 
 // Demo data
 const DEMO_WALLBOARDS: Wallboard[] = [
-  { id: '1', name: 'Main Call Center', description: 'Primary call center wallboard', type: 'queue', enabled: true, lastModified: '2026-01-05T10:00:00Z' },
-  { id: '2', name: 'Sales Team', description: 'Sales department metrics', type: 'agent', enabled: true, lastModified: '2026-01-04T14:30:00Z' },
-  { id: '3', name: 'Support Queue', description: 'Customer support queue stats', type: 'queue', enabled: false, lastModified: '2026-01-03T09:15:00Z' },
+  { id: '1', name: 'Main Call Center', description: 'Primary call center wallboard', type: 'queue', enabled: true, layout: createWallboardLayout(), shares: [], unreadableConfiguration: false, lastModified: '2026-01-05T10:00:00Z' },
+  { id: '2', name: 'Sales Team', description: 'Sales department metrics', type: 'agent', enabled: true, layout: createWallboardLayout(), shares: [], unreadableConfiguration: false, lastModified: '2026-01-04T14:30:00Z' },
+  { id: '3', name: 'Support Queue', description: 'Customer support queue stats', type: 'queue', enabled: false, layout: createWallboardLayout(), shares: [], unreadableConfiguration: false, lastModified: '2026-01-03T09:15:00Z' },
 ];
 
 export const load: PageServerLoad<WallboardsPageData> = async ({ locals }) => {
@@ -38,27 +39,19 @@ export const load: PageServerLoad<WallboardsPageData> = async ({ locals }) => {
   const { repos, isDemo } = result;
   const sapienConnected = !isDemo && canUseSapienApi(locals);
 
-  if (isDemo) {
-    return {
-      wallboards: DEMO_WALLBOARDS,
-      isDemo: true,
-      sapienConnected: false,
-    };
-  }
-
   try {
     const wallboardResult = await repos.wallboards.findAll({ page: 1, pageSize: 100 });
 
     return {
       wallboards: wallboardResult.items,
-      isDemo: false,
+      isDemo,
       sapienConnected,
     };
   } catch (error) {
     console.error('Wallboard data not available:', error);
     return {
       wallboards: [],
-      isDemo: false,
+      isDemo,
       sapienConnected,
       error: 'Wallboards not available for this user',
     };
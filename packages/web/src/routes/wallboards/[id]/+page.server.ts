@@ -0,0 +1,151 @@
+/**
+ * Wallboard Page Server
+ */
+
+import type { PageServerLoad, Actions } from './$types';
+import { error, fail } from '@sveltejs/kit';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { WALLBOARD_SHARE_DURATIONS, type Wallboard, type WallboardShare } from '$lib/domain';
+import { pruneWallboardShares } from '$lib/wallboard';
+import { getIntegrationPlatform } from '$lib/server/integration';
+import {
+  canManageWallboardShares,
+  getWallboardShareSecret,
+  sealWallboardShareToken,
+  wallboardSharingProblem,
+} from '$lib/server/wallboardShares';
+
+const MAX_SHARE_LABEL_LENGTH = 80;
+
+export interface WallboardPageData {
+  wallboard: Wallboard;
+  /** Whether the user may create and revoke kiosk links */
+  canManageShares: boolean;
+  /** Why kiosk links can't be created on this server, or null when they can */
+  shareProblem: string | null;
+  isDemo: boolean;
+}
+
+export const load: PageServerLoad<WallboardPageData> = async ({ locals, params }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const wallboard = await result.repos.wallboards.findById(params.id);
+  if (!wallboard) {
+    throw error(404, 'Wallboard not found');
+  }
+
+  return {
+    wallboard,
+    canManageShares: await canManageWallboardShares(locals, result.repos, result.isDemo),
+    shareProblem: wallboardSharingProblem(),
+    isDemo: result.isDemo,
+  };
+};
+
+export const actions: Actions = {
+  /**
+   * Create a kiosk link. The share is stored on the wallboard; the link's
+   * URL is only returned here.
+   */
+  share: async ({ locals, params, request, url }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    if (!(await canManageWallboardShares(locals, result.repos, result.isDemo))) {
+      return fail(403, { error: 'Only Team Leaders and Admins can create kiosk links' });
+    }
+    const secret = getWallboardShareSecret();
+    const problem = wallboardSharingProblem();
+    if (!secret || problem) {
+      return fail(400, { error: problem ?? 'Kiosk links are not set up on this server' });
+    }
+
+    const formData = await request.formData();
+    const label = String(formData.get('label') ?? '').trim();
+    const days = Number(formData.get('days'));
+    if (!label) {
+      return fail(400, { error: 'Label is required' });
+    }
+    if (label.length > MAX_SHARE_LABEL_LENGTH) {
+      return fail(400, { error: `Label must be ${MAX_SHARE_LABEL_LENGTH} characters or fewer` });
+    }
+    if (!WALLBOARD_SHARE_DURATIONS.some((d) => d.days === days)) {
+      return fail(400, { error: 'Choose how long the link lasts' });
+    }
+
+    const wallboard = await result.repos.wallboards.findById(params.id);
+    if (!wallboard) {
+      return fail(404, { error: 'Wallboard not found' });
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+    const share: WallboardShare = {
+      id: crypto.randomUUID(),
+      label,
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      createdBy: locals.salesforce?.user.name ?? locals.user?.name ?? null,
+      revokedAt: null,
+    };
+    const updateResult = await result.repos.wallboards.update(params.id, {
+      shares: [...pruneWallboardShares(wallboard.shares, now), share],
+    });
+    if (!updateResult.success) {
+      return fail(500, { error: updateResult.error || 'Failed to create kiosk link' });
+    }
+
+    const token = sealWallboardShareToken(
+      {
+        shareId: share.id,
+        wallboardId: wallboard.id,
+        exp: Math.floor(expiresAt.getTime() / 1000),
+        platform: getIntegrationPlatform(),
+      },
+      secret
+    );
+    return {
+      success: true,
+      action: 'share',
+      shareId: share.id,
+      shareUrl: `${url.origin}/kiosk/${token}`,
+    };
+  },
+
+  revoke: async ({ locals, params, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    if (!(await canManageWallboardShares(locals, result.repos, result.isDemo))) {
+      return fail(403, { error: 'Only Team Leaders and Admins can revoke kiosk links' });
+    }
+
+    const shareId = String((await request.formData()).get('shareId') ?? '');
+    const wallboard = await result.repos.wallboards.findById(params.id);
+    if (!wallboard) {
+      return fail(404, { error: 'Wallboard not found' });
+    }
+    if (!wallboard.shares.some((s) => s.id === shareId)) {
+      return fail(404, { error: 'Kiosk link not found' });
+    }
+
+    const revokedAt = new Date().toISOString();
+    const updateResult = await result.repos.wallboards.update(params.id, {
+      shares: wallboard.shares.map((s) =>
+        s.id === shareId && !s.revokedAt ? { ...s, revokedAt } : s
+      ),
+    });
+    if (!updateResult.success) {
+      return fail(500, { error: updateResult.error || 'Failed to revoke kiosk link' });
+    }
+
+    return { success: true, action: 'revoke' };
+  },
+};
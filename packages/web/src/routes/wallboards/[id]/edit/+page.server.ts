@@ -0,0 +1,54 @@
+/**
+ * Edit Wallboard Page Server
+ */
+
+import type { PageServerLoad, Actions } from './$types';
+import { error, fail, redirect } from '@sveltejs/kit';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { loadWallboardGroups, readWallboardForm } from '$lib/server/wallboards';
+import type { Wallboard } from '$lib/domain';
+
+export interface EditWallboardPageData {
+  wallboard: Wallboard;
+  groups: { id: string; name: string }[];
+  isDemo: boolean;
+}
+
+export const load: PageServerLoad<EditWallboardPageData> = async ({ locals, params }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    throw error(401, 'Not authenticated');
+  }
+
+  const wallboard = await result.repos.wallboards.findById(params.id);
+  if (!wallboard) {
+    throw error(404, 'Wallboard not found');
+  }
+
+  return { wallboard, groups: await loadWallboardGroups(result.repos), isDemo: result.isDemo };
+};
+
+export const actions: Actions = {
+  save: async ({ locals, params, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const formData = await request.formData();
+    const form = readWallboardForm(formData);
+    if ('error' in form) {
+      return fail(400, { error: form.error });
+    }
+
+    const updateResult = await result.repos.wallboards.update(params.id, {
+      ...form.data,
+      replaceConfiguration: formData.get('replaceConfiguration') === 'on',
+    });
+    if (!updateResult.success) {
+      return fail(500, { error: updateResult.error || 'Failed to save wallboard' });
+    }
+
+    redirect(303, `/wallboards/${params.id}`);
+  },
+};
@@ -0,0 +1,46 @@
+/**
+ * New Wallboard Page Server
+ *
+ * Loads what the designer offers for widget filters and saves the designed
+ * wallboard.
+ */
+
+import type { PageServerLoad, Actions } from './$types';
+import { fail, redirect } from '@sveltejs/kit';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { loadWallboardGroups, readWallboardForm } from '$lib/server/wallboards';
+
+export interface NewWallboardPageData {
+  groups: { id: string; name: string }[];
+  isDemo: boolean;
+}
+
+export const load: PageServerLoad<NewWallboardPageData> = async ({ locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  if (!result) {
+    return { groups: [], isDemo: true };
+  }
+
+  return { groups: await loadWallboardGroups(result.repos), isDemo: result.isDemo };
+};
+
+export const actions: Actions = {
+  save: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const form = readWallboardForm(await request.formData());
+    if ('error' in form) {
+      return fail(400, { error: form.error });
+    }
+
+    const createResult = await result.repos.wallboards.create({ ...form.data, enabled: true });
+    if (!createResult.success || !createResult.data) {
+      return fail(500, { error: createResult.error || 'Failed to create wallboard' });
+    }
+
+    redirect(303, `/wallboards/${createResult.data.id}`);
+  },
+};
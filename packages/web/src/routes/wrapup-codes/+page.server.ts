@@ -0,0 +1,163 @@
+/**
+ * Wrap-up Codes Page Server
+ *
+ * Org-wide list of wrap-up (disposition) codes agents pick from after a
+ * call, optionally limited to groups, plus the wrap-up timer.
+ */
+
+import type { PageServerLoad, Actions } from './$types';
+import { fail } from '@sveltejs/kit';
+import { tryCreateContextAndRepositories } from '$lib/adapters';
+import { DEFAULT_WRAPUP_TIMER_SECONDS, MAX_WRAPUP_TIMER_SECONDS } from '$lib/domain';
+import type { WrapupCode } from '$lib/domain';
+
+export interface WrapupGroupOption {
+  id: string;
+  name: string;
+}
+
+export interface WrapupCodesPageData {
+  codes: WrapupCode[];
+  groups: WrapupGroupOption[];
+  timerSeconds: number;
+  maxTimerSeconds: number;
+  isDemo: boolean;
+  error?: string;
+}
+
+export const load: PageServerLoad<WrapupCodesPageData> = async ({ locals }) => {
+  const result = tryCreateContextAndRepositories(locals);
+  const empty = {
+    codes: [],
+    groups: [],
+    timerSeconds: DEFAULT_WRAPUP_TIMER_SECONDS,
+    maxTimerSeconds: MAX_WRAPUP_TIMER_SECONDS,
+  };
+
+  if (!result) {
+    return { ...empty, isDemo: false, error: 'Not authenticated' };
+  }
+
+  const { repos, isDemo } = result;
+
+  try {
+    const [codes, groups, settings] = await Promise.all([
+      repos.wrapupCodes.findAll(),
+      repos.groups.findAll({ page: 1, pageSize: 1000 }),
+      repos.wrapupCodes.getSettings(),
+    ]);
+    return {
+      codes,
+      groups: groups.items.map(g => ({ id: g.id, name: g.name })),
+      timerSeconds: settings.timerSeconds,
+      maxTimerSeconds: MAX_WRAPUP_TIMER_SECONDS,
+      isDemo,
+    };
+  } catch (error) {
+    console.error('Failed to fetch wrap-up codes:', error);
+    return { ...empty, isDemo, error: 'Failed to load wrap-up codes' };
+  }
+};
+
+/** Fields shared by the create and update forms */
+function readCodeForm(formData: FormData) {
+  return {
+    name: formData.get('name')?.toString().trim() || '',
+    description: formData.get('description')?.toString().trim() || '',
+    groupIds: formData.getAll('groupIds').map(String).filter(Boolean),
+    active: formData.get('active') === 'on',
+  };
+}
+
+export const actions: Actions = {
+  create: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const data = readCodeForm(await request.formData());
+    if (!data.name) {
+      return fail(400, { error: 'Name is required' });
+    }
+
+    const existing = await result.repos.wrapupCodes.findAll();
+    if (existing.some(c => c.name.toLowerCase() === data.name.toLowerCase())) {
+      return fail(400, { error: `A wrap-up code called "${data.name}" already exists` });
+    }
+
+    const createResult = await result.repos.wrapupCodes.create(data);
+    if (!createResult.success) {
+      return fail(500, { error: createResult.error || 'Failed to create wrap-up code' });
+    }
+
+    return { success: true, action: 'create' };
+  },
+
+  update: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const formData = await request.formData();
+    const id = formData.get('id')?.toString();
+    const data = readCodeForm(formData);
+    if (!id) {
+      return fail(400, { error: 'Wrap-up code ID is required' });
+    }
+    if (!data.name) {
+      return fail(400, { error: 'Name is required' });
+    }
+
+    const existing = await result.repos.wrapupCodes.findAll();
+    if (existing.some(c => c.id !== id && c.name.toLowerCase() === data.name.toLowerCase())) {
+      return fail(400, { error: `A wrap-up code called "${data.name}" already exists` });
+    }
+
+    const updateResult = await result.repos.wrapupCodes.update(id, data);
+    if (!updateResult.success) {
+      return fail(500, { error: updateResult.error || 'Failed to update wrap-up code' });
+    }
+
+    return { success: true, action: 'update' };
+  },
+
+  delete: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const id = (await request.formData()).get('id')?.toString();
+    if (!id) {
+      return fail(400, { error: 'Wrap-up code ID is required' });
+    }
+
+    const deleteResult = await result.repos.wrapupCodes.delete(id);
+    if (!deleteResult.success) {
+      return fail(500, { error: deleteResult.error || 'Failed to delete wrap-up code' });
+    }
+
+    return { success: true, action: 'delete' };
+  },
+
+  settings: async ({ locals, request }) => {
+    const result = tryCreateContextAndRepositories(locals);
+    if (!result) {
+      return fail(401, { error: 'Not authenticated' });
+    }
+
+    const timerSeconds = Number((await request.formData()).get('timerSeconds'));
+    if (!Number.isInteger(timerSeconds) || timerSeconds < 0 || timerSeconds > MAX_WRAPUP_TIMER_SECONDS) {
+      return fail(400, { error: `Wrap-up timer must be between 0 and ${MAX_WRAPUP_TIMER_SECONDS} seconds` });
+    }
+
+    const updateResult = await result.repos.wrapupCodes.updateSettings({ timerSeconds });
+    if (!updateResult.success) {
+      return fail(500, { error: updateResult.error || 'Failed to update wrap-up settings' });
+    }
+
+    return { success: true, action: 'settings' };
+  },
+};